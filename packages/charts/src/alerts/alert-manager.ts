@@ -0,0 +1,321 @@
+/**
+ * Alert Manager - Evaluates price alerts on every data update
+ *
+ * Drawing targets are re-read on each evaluation so alerts follow the line
+ * while it is moved or edited.
+ */
+
+import { BarData } from '../model/data';
+import { Delegate } from '../helpers/delegate';
+import { DrawingManager } from '../drawings/drawing-manager';
+import { IndicatorManager } from '../indicators/indicator-manager';
+import {
+    Alert,
+    AlertEvent,
+    AlertOperand,
+    AlertOptions,
+    AlertSample,
+    NotificationSink,
+    SerializedAlert,
+    ALERT_DRAWING_NAMES,
+    ALERT_OPERATOR_LABELS,
+    generateAlertId,
+    getDrawingLevels,
+    getIndicatorValue,
+    isChannelOperator,
+    isConditionMet
+} from './alert';
+
+export class AlertManager {
+    private readonly _drawingManager: DrawingManager;
+    private readonly _indicatorManager: IndicatorManager;
+    private _alerts: Alert[] = [];
+    private _sinks: NotificationSink[] = [];
+
+    /** Last live sample per alert, the next update is compared with it */
+    private _samples: Map<string, AlertSample> = new Map();
+    private _lastBarTime: number | null = null;
+
+    private readonly _alertsChanged = new Delegate<void>();
+    private readonly _alertTriggered = new Delegate<AlertEvent>();
+
+    constructor(drawingManager: DrawingManager, indicatorManager: IndicatorManager) {
+        this._drawingManager = drawingManager;
+        this._indicatorManager = indicatorManager;
+    }
+
+    // --- Events ---
+
+    /** Fired when alerts are added, removed or change status */
+    get alertsChanged(): Delegate<void> {
+        return this._alertsChanged;
+    }
+
+    get alertTriggered(): Delegate<AlertEvent> {
+        return this._alertTriggered;
+    }
+
+    // --- Alerts ---
+
+    get alerts(): readonly Alert[] {
+        return this._alerts;
+    }
+
+    getAlert(id: string): Alert | null {
+        return this._alerts.find(a => a.id === id) ?? null;
+    }
+
+    createAlert(options: AlertOptions): Alert {
+        const { condition } = options;
+
+        if (condition.source.type !== 'price' && condition.source.type !== 'indicator') {
+            throw new Error('Alert source must be the price or an indicator');
+        }
+        if (isChannelOperator(condition.operator) && !this._isChannel(condition.target)) {
+            throw new Error(`'${condition.operator}' needs a parallel channel target`);
+        }
+
+        const alert: Alert = {
+            id: generateAlertId(),
+            name: options.name || '',
+            condition,
+            frequency: options.frequency ?? 'once',
+            message: options.message ?? '',
+            status: 'active',
+            createdAt: Date.now(),
+            triggerCount: 0,
+        };
+        alert.name = alert.name || this.describeAlert(alert);
+
+        this._alerts.push(alert);
+        this._alertsChanged.fire();
+        return alert;
+    }
+
+    removeAlert(id: string): boolean {
+        const index = this._alerts.findIndex(a => a.id === id);
+        if (index === -1) return false;
+
+        this._alerts.splice(index, 1);
+        this._samples.delete(id);
+        this._alertsChanged.fire();
+        return true;
+    }
+
+    /** Re-arm a triggered alert */
+    restartAlert(id: string): void {
+        const alert = this.getAlert(id);
+        if (!alert || alert.status === 'active') return;
+
+        alert.status = 'active';
+        this._samples.delete(id);
+        this._alertsChanged.fire();
+    }
+
+    clear(): void {
+        if (this._alerts.length === 0) return;
+        this._alerts = [];
+        this._samples.clear();
+        this._alertsChanged.fire();
+    }
+
+    // --- Notification sinks ---
+
+    addSink(sink: NotificationSink): void {
+        if (!this._sinks.includes(sink)) {
+            this._sinks.push(sink);
+        }
+    }
+
+    removeSink(sink: NotificationSink): void {
+        this._sinks = this._sinks.filter(s => s !== sink);
+    }
+
+    // --- Evaluation ---
+
+    /**
+     * Evaluate active alerts against the current bars. Called on every data update,
+     * the last bar is the live one.
+     */
+    update(bars: readonly BarData[]): void {
+        if (bars.length === 0) return;
+
+        const lastIndex = bars.length - 1;
+        const lastTime = bars[lastIndex].time;
+
+        // Index of the bar that just closed, if a new bar started since the last update
+        let closedIndex = -1;
+        if (this._lastBarTime !== null && lastTime > this._lastBarTime) {
+            closedIndex = this._findBarIndex(bars, this._lastBarTime);
+        } else if (this._lastBarTime !== null && lastTime < this._lastBarTime) {
+            // Older data was loaded in place of the live one
+            this._samples.clear();
+        }
+        this._lastBarTime = lastTime;
+
+        let changed = false;
+
+        for (const alert of this._alerts) {
+            if (alert.status !== 'active') continue;
+
+            if (alert.frequency === 'oncePerBarClose') {
+                if (closedIndex < 1) continue;
+                const prev = this._sample(alert, bars, closedIndex - 1);
+                const cur = this._sample(alert, bars, closedIndex);
+                if (cur && isConditionMet(alert.condition.operator, prev, cur)) {
+                    this._trigger(alert, bars[closedIndex]);
+                    changed = true;
+                }
+                continue;
+            }
+
+            const cur = this._sample(alert, bars, lastIndex);
+            const prev = this._samples.get(alert.id) ?? null;
+            if (!cur) {
+                this._samples.delete(alert.id);
+                continue;
+            }
+            this._samples.set(alert.id, cur);
+
+            if (alert.frequency === 'oncePerBar' && alert.lastTriggerBarTime === lastTime) continue;
+
+            if (isConditionMet(alert.condition.operator, prev, cur)) {
+                this._trigger(alert, bars[lastIndex]);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this._alertsChanged.fire();
+        }
+    }
+
+    /** Forget the live samples, e.g. after the symbol or timeframe changed */
+    resetEvaluation(): void {
+        this._samples.clear();
+        this._lastBarTime = null;
+    }
+
+    /** Human readable condition, e.g. "Price Crossing 42000" */
+    describeAlert(alert: Alert): string {
+        const { source, operator, target } = alert.condition;
+        return `${this._describeOperand(source)} ${ALERT_OPERATOR_LABELS[operator]} ${this._describeOperand(target)}`;
+    }
+
+    // --- Serialization ---
+
+    serialize(): SerializedAlert[] {
+        return this._alerts.map(a => JSON.parse(JSON.stringify(a)));
+    }
+
+    deserialize(data: SerializedAlert[]): void {
+        this._alerts = data.map(a => ({ ...a }));
+        this.resetEvaluation();
+        this._alertsChanged.fire();
+    }
+
+    destroy(): void {
+        this._alerts = [];
+        this._sinks = [];
+        this._samples.clear();
+        this._alertsChanged.destroy();
+        this._alertTriggered.destroy();
+    }
+
+    // --- Private ---
+
+    private _sample(alert: Alert, bars: readonly BarData[], index: number): AlertSample | null {
+        const bar = bars[index];
+        const value = this._operandValue(alert.condition.source, bar, index);
+        if (value === null) return null;
+
+        const target = alert.condition.target;
+        let levels: number[] | null;
+        if (target.type === 'drawing') {
+            const drawing = this._drawingManager.drawings.find(d => d.id === target.drawingId);
+            levels = drawing ? getDrawingLevels(drawing, bar.time) : null;
+        } else {
+            const level = this._operandValue(target, bar, index);
+            levels = level === null ? null : [level];
+        }
+
+        return levels ? { value, levels } : null;
+    }
+
+    private _operandValue(operand: AlertOperand, bar: BarData, index: number): number | null {
+        switch (operand.type) {
+            case 'price':
+                return bar.close;
+            case 'value':
+                return operand.value;
+            case 'indicator': {
+                const indicator = this._indicatorManager.getIndicator(operand.indicatorId);
+                return indicator ? getIndicatorValue(indicator, index, operand.plot) : null;
+            }
+        }
+        return null;
+    }
+
+    private _trigger(alert: Alert, bar: BarData): void {
+        const now = Date.now();
+        alert.triggerCount++;
+        alert.lastTriggeredAt = now;
+        alert.lastTriggerBarTime = bar.time;
+        if (alert.frequency === 'once') {
+            alert.status = 'triggered';
+        }
+
+        const event: AlertEvent = {
+            alert,
+            message: alert.message || this.describeAlert(alert),
+            time: bar.time,
+            price: bar.close,
+            triggeredAt: now,
+        };
+
+        this._alertTriggered.fire(event);
+
+        for (const sink of this._sinks) {
+            try {
+                const result = sink.notify(event);
+                if (result instanceof Promise) {
+                    result.catch(e => console.error('Alert notification failed:', e));
+                }
+            } catch (e) {
+                console.error('Alert notification failed:', e);
+            }
+        }
+    }
+
+    private _findBarIndex(bars: readonly BarData[], time: number): number {
+        for (let i = bars.length - 1; i >= 0; i--) {
+            if (bars[i].time === time) return i;
+            if (bars[i].time < time) break;
+        }
+        return -1;
+    }
+
+    private _isChannel(operand: AlertOperand): boolean {
+        if (operand.type !== 'drawing') return false;
+        const drawing = this._drawingManager.drawings.find(d => d.id === operand.drawingId);
+        return drawing?.type === 'parallelChannel';
+    }
+
+    private _describeOperand(operand: AlertOperand): string {
+        switch (operand.type) {
+            case 'price':
+                return 'Price';
+            case 'value':
+                return String(operand.value);
+            case 'drawing': {
+                const drawing = this._drawingManager.drawings.find(d => d.id === operand.drawingId);
+                return (drawing && ALERT_DRAWING_NAMES[drawing.type]) || 'Drawing';
+            }
+            case 'indicator': {
+                const indicator = this._indicatorManager.getIndicator(operand.indicatorId);
+                const name = indicator?.name ?? 'Indicator';
+                return operand.plot === undefined ? name : `${name} #${operand.plot + 1}`;
+            }
+        }
+    }
+}
@@ -0,0 +1,211 @@
+/**
+ * Alert definitions
+ *
+ * An alert compares a source (price or an indicator plot) with a target
+ * (a constant, an indicator plot or a drawing) on every data update.
+ */
+
+import { Drawing } from '../drawings/drawing';
+import { ParallelChannelDrawing } from '../drawings/parallel-channel-drawing';
+import { Indicator } from '../indicators/indicator';
+
+/**
+ * What an alert compares, price is the close of the bar
+ */
+export type AlertOperand =
+    | { type: 'price' }
+    | { type: 'value'; value: number }
+    | { type: 'drawing'; drawingId: string }
+    /** `plot` indexes the multi-line `values`, the main value when omitted */
+    | { type: 'indicator'; indicatorId: string; plot?: number };
+
+export type AlertOperator =
+    | 'crossing'
+    | 'crossingUp'
+    | 'crossingDown'
+    | 'greaterThan'
+    | 'lessThan'
+    | 'enteringChannel'
+    | 'exitingChannel';
+
+/**
+ * - once: fires a single time, then the alert stops
+ * - oncePerBar: fires on live updates, at most once per bar
+ * - oncePerBarClose: checked only when a bar closes
+ */
+export type AlertFrequency = 'once' | 'oncePerBar' | 'oncePerBarClose';
+
+export type AlertStatus = 'active' | 'triggered';
+
+export interface AlertCondition {
+    source: AlertOperand;
+    operator: AlertOperator;
+    target: AlertOperand;
+}
+
+/**
+ * Alert, plain data so it serializes as is
+ */
+export interface Alert {
+    id: string;
+    name: string;
+    condition: AlertCondition;
+    frequency: AlertFrequency;
+    /** Custom notification text, a description of the condition when empty */
+    message: string;
+    status: AlertStatus;
+    createdAt: number;
+    triggerCount: number;
+    lastTriggeredAt?: number;
+    /** Time of the bar the alert last fired on */
+    lastTriggerBarTime?: number;
+}
+
+export type SerializedAlert = Alert;
+
+export interface AlertOptions {
+    name?: string;
+    condition: AlertCondition;
+    frequency?: AlertFrequency;
+    message?: string;
+}
+
+/**
+ * Passed to the notification sinks when an alert fires
+ */
+export interface AlertEvent {
+    alert: Readonly<Alert>;
+    message: string;
+    /** Bar the condition was met on */
+    time: number;
+    price: number;
+    triggeredAt: number;
+}
+
+/**
+ * Receives triggered alerts (toast, callback, webhook...)
+ */
+export interface NotificationSink {
+    notify(event: AlertEvent): void | Promise<void>;
+}
+
+export const ALERT_OPERATOR_LABELS: Record<AlertOperator, string> = {
+    crossing: 'Crossing',
+    crossingUp: 'Crossing Up',
+    crossingDown: 'Crossing Down',
+    greaterThan: 'Greater Than',
+    lessThan: 'Less Than',
+    enteringChannel: 'Entering Channel',
+    exitingChannel: 'Exiting Channel',
+};
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+    once: 'Only Once',
+    oncePerBar: 'Once Per Bar',
+    oncePerBarClose: 'Once Per Bar Close',
+};
+
+/** Drawing types an alert can follow */
+export const ALERT_DRAWING_NAMES: Record<string, string> = {
+    trendLine: 'Trend Line',
+    horizontalLine: 'Horizontal Line',
+    parallelChannel: 'Parallel Channel',
+};
+
+export function isChannelOperator(operator: AlertOperator): boolean {
+    return operator === 'enteringChannel' || operator === 'exitingChannel';
+}
+
+/**
+ * Price levels of a drawing at `time`: one for lines, the two borders for a channel.
+ * Lines without extension have no level outside of their points.
+ */
+export function getDrawingLevels(drawing: Drawing, time: number): number[] | null {
+    const points = drawing.points;
+
+    if (drawing.type === 'horizontalLine') {
+        return points.length > 0 ? [points[0].price] : null;
+    }
+
+    if (drawing.type !== 'trendLine' && drawing.type !== 'parallelChannel') return null;
+    if (points.length < 2) return null;
+
+    const [p0, p1] = points[0].time <= points[1].time ? [points[0], points[1]] : [points[1], points[0]];
+    if (p0.time === p1.time) return null;
+
+    const line = drawing as Drawing & { extendLeft?: boolean; extendRight?: boolean };
+    if (time < p0.time && !line.extendLeft) return null;
+    if (time > p1.time && !line.extendRight) return null;
+
+    const base = p0.price + (p1.price - p0.price) * (time - p0.time) / (p1.time - p0.time);
+
+    if (drawing instanceof ParallelChannelDrawing) {
+        if (points.length < 3) return null;
+        return [base, base + drawing.getChannelOffset()];
+    }
+    return [base];
+}
+
+/**
+ * Value of an indicator plot at a bar index, null while it has no value
+ */
+export function getIndicatorValue(indicator: Indicator, index: number, plot?: number): number | null {
+    const point = indicator.getValueAt(index);
+    if (!point) return null;
+    const value = plot === undefined ? point.value : point.values?.[plot];
+    return value === undefined || isNaN(value) ? null : value;
+}
+
+/**
+ * Source value and target levels at one point in time
+ */
+export interface AlertSample {
+    value: number;
+    levels: number[];
+}
+
+/**
+ * Checks the operator between two consecutive samples
+ */
+export function isConditionMet(operator: AlertOperator, prev: AlertSample | null, cur: AlertSample): boolean {
+    const { value, levels } = cur;
+    if (levels.length === 0) return false;
+
+    switch (operator) {
+        case 'greaterThan':
+            return levels.every(level => value > level);
+        case 'lessThan':
+            return levels.every(level => value < level);
+    }
+
+    // Everything else compares with the previous sample
+    if (!prev || prev.levels.length !== levels.length) return false;
+
+    const crossedUp = levels.some((level, i) => prev.value < prev.levels[i] && value >= level);
+    const crossedDown = levels.some((level, i) => prev.value > prev.levels[i] && value <= level);
+
+    switch (operator) {
+        case 'crossing':
+            return crossedUp || crossedDown;
+        case 'crossingUp':
+            return crossedUp;
+        case 'crossingDown':
+            return crossedDown;
+        case 'enteringChannel':
+            return !isInside(prev) && isInside(cur);
+        case 'exitingChannel':
+            return isInside(prev) && !isInside(cur);
+    }
+    return false;
+}
+
+function isInside(sample: AlertSample): boolean {
+    if (sample.levels.length < 2) return false;
+    const min = Math.min(...sample.levels);
+    const max = Math.max(...sample.levels);
+    return sample.value >= min && sample.value <= max;
+}
+
+export function generateAlertId(): string {
+    return `alert_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
@@ -0,0 +1,7 @@
+/**
+ * Alerts module - price alerts on levels, drawings and indicators
+ */
+
+export * from './alert';
+export * from './alert-manager';
+export * from './notification-sinks';
@@ -0,0 +1,55 @@
+/**
+ * Notification sinks for triggered alerts
+ *
+ * The in-app toast lives with the alerts panel (gui/alerts_panel).
+ */
+
+import { AlertEvent, NotificationSink } from './alert';
+
+/**
+ * Hands triggered alerts to a callback
+ */
+export class CallbackNotificationSink implements NotificationSink {
+    constructor(private readonly _callback: (event: AlertEvent) => void) { }
+
+    notify(event: AlertEvent): void {
+        this._callback(event);
+    }
+}
+
+export interface WebhookNotificationOptions {
+    headers?: Record<string, string>;
+    /** Request body, the alert event as JSON by default */
+    formatBody?: (event: AlertEvent) => unknown;
+}
+
+/**
+ * POSTs triggered alerts as JSON to a webhook URL
+ */
+export class WebhookNotificationSink implements NotificationSink {
+    constructor(
+        private readonly _url: string,
+        private readonly _options: WebhookNotificationOptions = {}
+    ) { }
+
+    async notify(event: AlertEvent): Promise<void> {
+        const body = this._options.formatBody ? this._options.formatBody(event) : {
+            id: event.alert.id,
+            name: event.alert.name,
+            message: event.message,
+            time: event.time,
+            price: event.price,
+            triggeredAt: event.triggeredAt,
+        };
+
+        const response = await fetch(this._url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this._options.headers },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Webhook responded with HTTP ${response.status}`);
+        }
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Comparison Manager - other symbols overlaid on the main series
+ *
+ * Every comparison is a CompareSeries with its own history request and
+ * live subscription on the candle provider. Comparisons follow the chart
+ * timeframe and page in older bars along with the main series.
+ *
+ * Synthetic symbols (`BTCUSDT/ETHUSDT`) work when the provider is a
+ * SyntheticCandleProvider, which also shares the streams of symbols that
+ * are both on the chart and compared.
+ */
+
+import { LineData } from '../model/data';
+import { ChartModel } from '../model/chart-model';
+import { CompareSeries } from '../series/compare-series';
+import { Delegate } from '../helpers/delegate';
+import { toCandleInterval } from '../helpers/timeframe';
+import { Candle, CandleInterval, ICandleProvider } from '../data-providers/types';
+
+/** Line colors handed out to comparisons in turn */
+export const COMPARISON_COLORS = ['#ff9800', '#9c27b0', '#089981', '#f23645', '#00bcd4', '#e91e63'];
+
+export interface ComparisonOptions {
+    /** Default: the first unused COMPARISON_COLORS entry */
+    color?: string;
+}
+
+export interface ComparisonProviderOptions {
+    /** Unit of Candle.time, default 'seconds' as documented on Candle */
+    timeUnit?: 'seconds' | 'milliseconds';
+    /** Bars requested per load (default: 500) */
+    limit?: number;
+}
+
+interface Subscription {
+    symbol: string;
+    interval: CandleInterval;
+}
+
+export class ComparisonManager {
+    private readonly _model: ChartModel;
+
+    private _provider: ICandleProvider | null = null;
+    private _timeScale: number = 1000;
+    private _limit: number = 500;
+
+    private _series: CompareSeries[] = [];
+    private readonly _subscriptions = new Map<CompareSeries, Subscription>();
+    /** Latest load per series, drops loads that finished after a reload or removal */
+    private readonly _requests = new Map<CompareSeries, number>();
+    private _requestId: number = 0;
+
+    private readonly _comparisonsChanged = new Delegate<void>();
+
+    constructor(model: ChartModel) {
+        this._model = model;
+    }
+
+    /** Fired when a comparison is added or removed */
+    get comparisonsChanged(): Delegate<void> {
+        return this._comparisonsChanged;
+    }
+
+    get comparisons(): readonly CompareSeries[] {
+        return this._series;
+    }
+
+    // --- Data source ---
+
+    /**
+     * Provider comparisons load from. Comparisons already on the chart are
+     * reloaded from the new provider.
+     */
+    setProvider(provider: ICandleProvider | null, options: ComparisonProviderOptions = {}): void {
+        for (const series of this._series) {
+            this._unsubscribe(series);
+        }
+        this._provider = provider;
+        this._timeScale = options.timeUnit === 'milliseconds' ? 1 : 1000;
+        this._limit = options.limit ?? 500;
+        this.reload();
+    }
+
+    // --- Comparisons ---
+
+    /**
+     * Overlay a symbol or synthetic expression.
+     * @returns the existing series if the symbol is already compared
+     */
+    add(symbol: string, options: ComparisonOptions = {}): CompareSeries {
+        const normalized = symbol.trim().toUpperCase();
+        const existing = this.get(normalized);
+        if (existing) return existing;
+
+        const series = this._model.addCompareSeries({
+            symbol: normalized,
+            color: options.color ?? this._nextColor(),
+        });
+        this._series.push(series);
+        void this._load(series);
+
+        this._comparisonsChanged.fire();
+        return series;
+    }
+
+    get(symbol: string): CompareSeries | null {
+        const normalized = symbol.trim().toUpperCase();
+        return this._series.find(series => series.symbol === normalized) ?? null;
+    }
+
+    /** @returns false if the symbol was not compared */
+    remove(symbol: string): boolean {
+        const series = this.get(symbol);
+        if (!series) return false;
+
+        this._unsubscribe(series);
+        this._requests.delete(series);
+        this._series = this._series.filter(s => s !== series);
+        this._model.removeSeries(series);
+
+        this._comparisonsChanged.fire();
+        return true;
+    }
+
+    clear(): void {
+        for (const series of [...this._series]) {
+            this.remove(series.symbol);
+        }
+    }
+
+    /** Load every comparison again, e.g. for a new timeframe */
+    reload(): void {
+        for (const series of this._series) {
+            void this._load(series);
+        }
+    }
+
+    /**
+     * Load bars of every comparison opened before endTime (ms), called when
+     * older bars of the main series were paged in
+     */
+    async loadHistory(endTime: number): Promise<void> {
+        const provider = this._provider;
+        if (!provider || !this._model.timeframe) return;
+        const interval = toCandleInterval(this._model.timeframe);
+
+        await Promise.all(this._series.map(async series => {
+            const first = series.data[0];
+            if (!first || first.time <= endTime) return;
+
+            const requestId = this._requests.get(series);
+            try {
+                const candles = await provider.getCandles(series.symbol, interval, this._limit, first.time);
+                if (this._requests.get(series) !== requestId) return;
+                series.prependData(candles.map(candle => this._toLineData(candle)));
+            } catch (e) {
+                console.error(`Failed to load ${series.symbol} history:`, e);
+            }
+        }));
+    }
+
+    // --- Cleanup ---
+
+    destroy(): void {
+        this.clear();
+        this._comparisonsChanged.destroy();
+    }
+
+    // --- Private ---
+
+    private async _load(series: CompareSeries): Promise<void> {
+        const provider = this._provider;
+        const timeframe = this._model.timeframe;
+        this._unsubscribe(series);
+
+        const requestId = ++this._requestId;
+        this._requests.set(series, requestId);
+        if (!provider || !timeframe) return;
+
+        const interval = toCandleInterval(timeframe);
+        try {
+            const candles = await provider.getCandles(series.symbol, interval, this._limit);
+            if (this._requests.get(series) !== requestId) return;
+
+            series.setData(candles.map(candle => this._toLineData(candle)));
+
+            provider.subscribeCandles(series.symbol, interval, (candle) => {
+                series.updateData(this._toLineData(candle));
+            });
+            this._subscriptions.set(series, { symbol: series.symbol, interval });
+        } catch (e) {
+            console.error(`Failed to load comparison ${series.symbol}:`, e);
+        }
+    }
+
+    private _unsubscribe(series: CompareSeries): void {
+        const subscription = this._subscriptions.get(series);
+        if (!subscription) return;
+
+        this._subscriptions.delete(series);
+        this._provider?.unsubscribeCandles(subscription.symbol, subscription.interval);
+    }
+
+    private _toLineData(candle: Candle): LineData {
+        return { time: candle.time * this._timeScale, value: candle.close };
+    }
+
+    private _nextColor(): string {
+        const used = new Set(this._series.map(series => series.lineOptions.color));
+        return COMPARISON_COLORS.find(color => !used.has(color))
+            ?? COMPARISON_COLORS[this._series.length % COMPARISON_COLORS.length];
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * Comparison module - other symbols and synthetic spreads over the main series
+ */
+
+export * from './comparison-manager';
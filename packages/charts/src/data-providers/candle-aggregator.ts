@@ -0,0 +1,397 @@
+/**
+ * Candle Aggregator
+ *
+ * Derives candles of any timeframe ('2m', '45m', '90m', '3h', '2D', ...) from a
+ * base resolution served by the exchange, both for history and for the live
+ * last bar streamed by subscribeCandles.
+ *
+ * Usage:
+ * ```typescript
+ * const provider = new AggregatedCandleProvider(new BinanceSpotProvider());
+ * const candles = await provider.getCandles('BTCUSDT', '45m', 500);
+ * provider.subscribeCandles('BTCUSDT', '45m', (candle) => console.log(candle));
+ * ```
+ */
+
+import {
+    ICandleProvider,
+    Candle,
+    CandleInterval,
+    CandleUpdateCallback,
+    MarketType,
+    ProviderStatus,
+    StatusCallback
+} from './types';
+import {
+    TimeframeAlignment,
+    parseTimeframe,
+    normalizeTimeframe,
+    timeframeToMs,
+    getBarStartTime
+} from '../helpers/timeframe';
+import { isUtcTimeZone, getTimeZoneOffset } from '../helpers/timezone';
+
+/** Every interval of the CandleInterval union, shortest first */
+export const CANDLE_INTERVALS: CandleInterval[] = [
+    '1s', '1m', '3m', '5m', '15m', '30m',
+    '1h', '2h', '4h', '6h', '8h', '12h',
+    '1d', '3d', '1w', '1M',
+];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface CandleAggregatorOptions extends TimeframeAlignment {
+    /** Unit of Candle.time, default 'seconds' as documented on Candle */
+    timeUnit?: 'seconds' | 'milliseconds';
+}
+
+/**
+ * Pick the largest native interval that candles of the timeframe can be built from.
+ * Returns the timeframe itself (as a CandleInterval) when it is served natively.
+ * @throws if the timeframe is invalid or no native interval fits
+ */
+export function selectBaseInterval(
+    timeframe: string,
+    nativeIntervals: readonly CandleInterval[] = CANDLE_INTERVALS,
+    alignment: TimeframeAlignment = {}
+): CandleInterval {
+    const target = parseTimeframe(timeframe);
+    if (!target) {
+        throw new Error(`Invalid timeframe: ${timeframe}`);
+    }
+
+    const utc = isUtcTimeZone(alignment.timeZone);
+    const normalized = normalizeTimeframe(timeframe);
+    const targetMs = timeframeToMs(timeframe);
+    const zoneOffset = utc ? 0 : Math.abs(getTimeZoneOffset(Date.now(), alignment.timeZone));
+
+    // Exchanges align native bars to UTC, multi-hour bars only match UTC sessions
+    const exact = nativeIntervals.find(interval => normalizeTimeframe(interval) === normalized);
+    if (exact && (utc || (targetMs <= HOUR && zoneOffset % targetMs === 0))) {
+        return exact;
+    }
+
+    const candidates = [...nativeIntervals].sort((a, b) => timeframeToMs(b) - timeframeToMs(a));
+    for (const interval of candidates) {
+        const base = parseTimeframe(interval);
+        const baseMs = timeframeToMs(interval);
+        if (!base || baseMs === 0 || baseMs > targetMs) continue;
+
+        // Only bases that tile whole days stay aligned across days, weeks and months
+        if (baseMs >= DAY ? base.count !== 1 || base.unit === 'M' : DAY % baseMs !== 0) continue;
+
+        // Months vary in length, they can be built from whole days only
+        const fits = target.unit === 'M' ? baseMs <= DAY : targetMs % baseMs === 0;
+        if (!fits) continue;
+
+        // Exchange-local sessions need bars that split at the zone's offset
+        if (!utc && (baseMs > HOUR || zoneOffset % baseMs !== 0)) continue;
+
+        return interval;
+    }
+
+    throw new Error(`No native interval to build ${timeframe} candles from`);
+}
+
+/**
+ * Aggregates base candles into candles of a custom timeframe.
+ * The live bar is rebuilt from the closed base candles of the current bucket plus
+ * the latest version of the forming one, so repeated updates of the same base
+ * candle never double count volume.
+ */
+export class CandleAggregator {
+    private readonly _timeframe: string;
+    private readonly _alignment: TimeframeAlignment;
+    private readonly _timeScale: number;
+
+    private _bucketStart: number | null = null;
+    private _settled: Candle | null = null;
+    private _forming: Candle | null = null;
+
+    constructor(timeframe: string, options: CandleAggregatorOptions = {}) {
+        if (!parseTimeframe(timeframe)) {
+            throw new Error(`Invalid timeframe: ${timeframe}`);
+        }
+        this._timeframe = timeframe;
+        this._alignment = { timeZone: options.timeZone };
+        this._timeScale = options.timeUnit === 'milliseconds' ? 1 : 1000;
+    }
+
+    get timeframe(): string {
+        return this._timeframe;
+    }
+
+    /**
+     * Aggregate historical base candles (oldest first).
+     * The live state continues from the last bucket.
+     */
+    aggregate(baseCandles: readonly Candle[]): Candle[] {
+        this.reset();
+
+        const result: Candle[] = [];
+        for (const candle of baseCandles) {
+            const bar = this.update(candle);
+            if (result.length > 0 && result[result.length - 1].time === bar.time) {
+                result[result.length - 1] = bar;
+            } else {
+                result.push(bar);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Apply a base candle (new or an update of the forming one).
+     * @returns the aggregated candle it belongs to
+     */
+    update(baseCandle: Candle): Candle {
+        const start = this.getBucketStart(baseCandle.time);
+
+        if (start !== this._bucketStart) {
+            // Late update of an already replaced bucket
+            if (this._bucketStart !== null && start < this._bucketStart) {
+                return this._current()!;
+            }
+            this._bucketStart = start;
+            this._settled = null;
+            this._forming = null;
+        }
+
+        if (this._forming && baseCandle.time < this._forming.time) {
+            return this._current()!;
+        }
+
+        if (this._forming && baseCandle.time > this._forming.time) {
+            this._settled = mergeCandles(this._settled, this._forming);
+        }
+        this._forming = { ...baseCandle };
+
+        return this._current()!;
+    }
+
+    /**
+     * Open time (in Candle.time units) of the aggregated candle containing the time
+     */
+    getBucketStart(time: number): number {
+        return getBarStartTime(time * this._timeScale, this._timeframe, this._alignment) / this._timeScale;
+    }
+
+    reset(): void {
+        this._bucketStart = null;
+        this._settled = null;
+        this._forming = null;
+    }
+
+    private _current(): Candle | null {
+        if (this._bucketStart === null || !this._forming) return null;
+        return { ...mergeCandles(this._settled, this._forming), time: this._bucketStart };
+    }
+}
+
+function mergeCandles(first: Candle | null, next: Candle): Candle {
+    if (!first) return { ...next };
+    return {
+        time: first.time,
+        open: first.open,
+        high: Math.max(first.high, next.high),
+        low: Math.min(first.low, next.low),
+        close: next.close,
+        volume: first.volume + next.volume,
+    };
+}
+
+export interface AggregatedCandleProviderOptions extends CandleAggregatorOptions {
+    /** Intervals the source serves, default every CandleInterval */
+    nativeIntervals?: CandleInterval[];
+    /** Max base candles per source request (default: 1000) */
+    requestLimit?: number;
+    /** Max source requests per getCandles call (default: 10) */
+    maxRequests?: number;
+}
+
+interface BaseSubscription {
+    listeners: Map<string, (candle: Candle) => void>;
+}
+
+/**
+ * Candle provider accepting any timeframe, built on top of a provider that
+ * serves the native exchange intervals. Native timeframes are passed through.
+ */
+export class AggregatedCandleProvider implements ICandleProvider {
+    private readonly _source: ICandleProvider;
+    private readonly _options: Required<Omit<AggregatedCandleProviderOptions, 'timeZone'>> & TimeframeAlignment;
+    private readonly _baseSubscriptions: Map<string, BaseSubscription> = new Map();
+
+    constructor(source: ICandleProvider, options: AggregatedCandleProviderOptions = {}) {
+        this._source = source;
+        this._options = {
+            timeZone: options.timeZone,
+            timeUnit: options.timeUnit ?? 'seconds',
+            nativeIntervals: options.nativeIntervals ?? CANDLE_INTERVALS,
+            requestLimit: options.requestLimit ?? 1000,
+            maxRequests: options.maxRequests ?? 10,
+        };
+    }
+
+    get name(): string {
+        return this._source.name;
+    }
+
+    get marketType(): MarketType {
+        return this._source.marketType;
+    }
+
+    get status(): ProviderStatus {
+        return this._source.status;
+    }
+
+    connect(): Promise<void> {
+        return this._source.connect();
+    }
+
+    disconnect(): void {
+        this._source.disconnect();
+    }
+
+    onStatusChange(callback: StatusCallback): void {
+        this._source.onStatusChange(callback);
+    }
+
+    /**
+     * Base interval candles of the timeframe are built from
+     */
+    getBaseInterval(interval: string): CandleInterval {
+        return selectBaseInterval(interval, this._options.nativeIntervals, this._options);
+    }
+
+    async getCandles(symbol: string, interval: string, limit: number = 500, endTime?: number): Promise<Candle[]> {
+        const base = this.getBaseInterval(interval);
+        if (base === this._exactNative(interval)) {
+            return this._source.getCandles(symbol, base, limit, endTime);
+        }
+
+        // One extra bucket, the oldest one is usually cut by the request boundary
+        const ratio = Math.ceil(timeframeToMs(interval) / timeframeToMs(base));
+        const wanted = (limit + 1) * ratio;
+        const { candles, complete } = await this._fetchBase(symbol, base, wanted, endTime);
+
+        const aggregator = new CandleAggregator(interval, this._options);
+        const result = aggregator.aggregate(candles);
+
+        if (!complete && result.length > 1 && candles[0].time !== result[0].time) {
+            result.shift();
+        }
+        return result.slice(-limit);
+    }
+
+    subscribeCandles(symbol: string, interval: string, callback: CandleUpdateCallback): void {
+        const base = this.getBaseInterval(interval);
+        if (base === this._exactNative(interval)) {
+            this._source.subscribeCandles(symbol, base, callback);
+            return;
+        }
+
+        const aggregator = new CandleAggregator(interval, this._options);
+        const pending: Candle[] = [];
+        let seeded = false;
+
+        this._addBaseListener(symbol, base, interval, (candle) => {
+            if (!seeded) {
+                pending.push(candle);
+                return;
+            }
+            callback(aggregator.update(candle));
+        });
+
+        // Seed the current bucket with the base candles closed before subscribing
+        const ratio = Math.ceil(timeframeToMs(interval) / timeframeToMs(base));
+        this._fetchBase(symbol, base, ratio + 1)
+            .then(({ candles }) => {
+                aggregator.aggregate(candles);
+            })
+            .catch(error => {
+                console.error(`Failed to seed ${symbol} ${interval} candles:`, error);
+            })
+            .finally(() => {
+                seeded = true;
+                for (const candle of pending) {
+                    callback(aggregator.update(candle));
+                }
+                pending.length = 0;
+            });
+    }
+
+    unsubscribeCandles(symbol: string, interval: string): void {
+        const base = this.getBaseInterval(interval);
+        if (base === this._exactNative(interval)) {
+            this._source.unsubscribeCandles(symbol, base);
+            return;
+        }
+
+        const key = `${symbol}:${base}`;
+        const subscription = this._baseSubscriptions.get(key);
+        if (!subscription) return;
+
+        subscription.listeners.delete(interval);
+        if (subscription.listeners.size === 0) {
+            this._baseSubscriptions.delete(key);
+            this._source.unsubscribeCandles(symbol, base);
+        }
+    }
+
+    // ========================================================================
+    // Helpers
+    // ========================================================================
+
+    private _exactNative(interval: string): CandleInterval | undefined {
+        const normalized = normalizeTimeframe(interval);
+        return this._options.nativeIntervals.find(native => normalizeTimeframe(native) === normalized);
+    }
+
+    /**
+     * Page base candles backwards from endTime until `count` are collected.
+     * complete is true when the source ran out of history.
+     */
+    private async _fetchBase(
+        symbol: string,
+        base: CandleInterval,
+        count: number,
+        endTime?: number
+    ): Promise<{ candles: Candle[]; complete: boolean }> {
+        let candles: Candle[] = [];
+        let cursor = endTime;
+
+        for (let i = 0; i < this._options.maxRequests && candles.length < count; i++) {
+            const requested = Math.min(this._options.requestLimit, count - candles.length);
+            const page = await this._source.getCandles(symbol, base, requested, cursor);
+            const older = candles.length > 0 ? page.filter(c => c.time < candles[0].time) : page;
+
+            candles = older.concat(candles);
+            if (page.length < requested || older.length === 0) {
+                return { candles, complete: true };
+            }
+
+            // endTime is always in ms, Candle.time is in the configured unit
+            cursor = this._options.timeUnit === 'milliseconds' ? candles[0].time : candles[0].time * 1000;
+        }
+
+        return { candles, complete: false };
+    }
+
+    private _addBaseListener(symbol: string, base: CandleInterval, interval: string, listener: (candle: Candle) => void): void {
+        const key = `${symbol}:${base}`;
+        let subscription = this._baseSubscriptions.get(key);
+
+        if (!subscription) {
+            const created: BaseSubscription = { listeners: new Map() };
+            subscription = created;
+            this._baseSubscriptions.set(key, created);
+            this._source.subscribeCandles(symbol, base, (candle) => {
+                created.listeners.forEach(fn => fn(candle));
+            });
+        }
+
+        subscription.listeners.set(interval, listener);
+    }
+}
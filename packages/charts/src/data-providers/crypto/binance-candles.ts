@@ -115,14 +115,16 @@ export class BinanceCandleProvider extends BaseDataProvider implements ICandlePr
 
     /**
      * Fetch historical candles from Binance REST API
+     * @param endTime - Optional paging cursor (ms), only bars opened before it are returned
      */
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500, endTime?: number): Promise<Candle[]> {
         const normalizedSymbol = this._normalizeSymbol(symbol);
         const binanceInterval = INTERVAL_MAP[interval] || '1h';
 
-        const endpoint = this._config.market === 'futures'
+        let endpoint = this._config.market === 'futures'
             ? `/fapi/v1/klines?symbol=${normalizedSymbol}&interval=${binanceInterval}&limit=${limit}`
             : `/api/v3/klines?symbol=${normalizedSymbol}&interval=${binanceInterval}&limit=${limit}`;
+        if (endTime !== undefined) endpoint += `&endTime=${endTime - 1}`;
 
         const url = `${this._restBaseUrl}${endpoint}`;
 
@@ -16,6 +16,8 @@ import {
     ICandleProvider,
     IDerivativesProvider,
     ITradeProvider,
+    ISymbolMetadataProvider,
+    SymbolMetadata,
     Orderbook,
     OrderbookLevel,
     OrderbookUpdateCallback,
@@ -28,8 +30,11 @@ import {
     LiquidationCallback,
     OpenInterest,
     OpenInterestCallback,
+    FundingRate,
+    FundingRateCallback,
     MarketType
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -58,6 +63,16 @@ const INTERVAL_MAP: Record<CandleInterval, string> = {
     '1d': '1d', '3d': '3d', '1w': '1w', '1M': '1M'
 };
 
+/** Open interest and funding rates have no stream, they are polled */
+const POLL_INTERVAL = 5000;
+
+/** Periods of the open interest history, the smallest is 5m and the largest 1d */
+const OPEN_INTEREST_PERIOD_MAP: Record<CandleInterval, string> = {
+    '1s': '5m', '1m': '5m', '3m': '5m', '5m': '5m', '15m': '15m', '30m': '30m',
+    '1h': '1h', '2h': '2h', '4h': '4h', '6h': '6h', '8h': '6h', '12h': '12h',
+    '1d': '1d', '3d': '1d', '1w': '1d', '1M': '1d'
+};
+
 // ============================================================================
 // Provider Implementation
 // ============================================================================
@@ -71,12 +86,14 @@ const INTERVAL_MAP: Record<CandleInterval, string> = {
  * - Real-time trade stream
  * - Liquidation events stream
  * - Open Interest data
+ * - Funding rates
  */
 export class BinanceFuturesProvider extends BaseDataProvider implements
     IOrderbookProvider,
     ICandleProvider,
     ITradeProvider,
-    IDerivativesProvider {
+    IDerivativesProvider,
+    ISymbolMetadataProvider {
 
     readonly name = 'Binance Futures';
     readonly marketType: MarketType = 'futures';
@@ -100,8 +117,15 @@ export class BinanceFuturesProvider extends BaseDataProvider implements
     private _liquidationCallbacks: Map<string, LiquidationCallback[]> = new Map();
     private _liquidationWs: WebSocket | null = null;
 
-    // Open Interest state
+    // Open Interest and funding state, id of the running poll per symbol
     private _oiCallbacks: Map<string, OpenInterestCallback[]> = new Map();
+    private _oiPolls: Map<string, number> = new Map();
+    private _fundingCallbacks: Map<string, FundingRateCallback[]> = new Map();
+    private _fundingPolls: Map<string, number> = new Map();
+    private _pollId: number = 0;
+
+    // Tick sizes of every symbol, loaded once
+    private _symbolMetadata: Promise<Map<string, SymbolMetadata>> | null = null;
 
     // Reconnection
     private _reconnectTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
@@ -145,6 +169,9 @@ export class BinanceFuturesProvider extends BaseDataProvider implements
         this._tradeCallbacks.clear();
         this._liquidationCallbacks.clear();
         this._oiCallbacks.clear();
+        this._oiPolls.clear();
+        this._fundingCallbacks.clear();
+        this._fundingPolls.clear();
         this._reconnectTimeouts.clear();
 
         this.setStatus('disconnected');
@@ -265,11 +292,13 @@ export class BinanceFuturesProvider extends BaseDataProvider implements
     // ICandleProvider Implementation
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500, endTime?: number): Promise<Candle[]> {
         const sym = this._normalizeSymbol(symbol);
         const binanceInterval = INTERVAL_MAP[interval] || '1h';
 
-        const url = `${REST_BASE_URL}/fapi/v1/klines?symbol=${sym}&interval=${binanceInterval}&limit=${limit}`;
+        let url = `${REST_BASE_URL}/fapi/v1/klines?symbol=${sym}&interval=${binanceInterval}&limit=${limit}`;
+        // Binance endTime is inclusive, step back 1ms to only get older bars
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
         const response = await fetch(url);
 
         if (!response.ok) {
@@ -465,6 +494,31 @@ export class BinanceFuturesProvider extends BaseDataProvider implements
         };
     }
 
+    /**
+     * Open interest history. Binance keeps the last 30 days in periods of 5m
+     * to 1d, other intervals get the nearest period.
+     */
+    async getOpenInterestHistory(symbol: string, interval: CandleInterval, limit: number = 500, endTime?: number): Promise<OpenInterest[]> {
+        const sym = this._normalizeSymbol(symbol);
+        const period = OPEN_INTEREST_PERIOD_MAP[interval] || '1h';
+
+        let url = `${REST_BASE_URL}/futures/data/openInterestHist?symbol=${sym}&period=${period}&limit=${Math.min(limit, 500)}`;
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch open interest history: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.map((item: any) => ({
+            symbol: sym,
+            openInterest: parseFloat(item.sumOpenInterest),
+            openInterestValue: parseFloat(item.sumOpenInterestValue),
+            timestamp: item.timestamp
+        }));
+    }
+
     private async _getMarkPrice(symbol: string): Promise<number> {
         const url = `${REST_BASE_URL}/fapi/v1/premiumIndex?symbol=${symbol}`;
         const response = await fetch(url);
@@ -481,26 +535,140 @@ export class BinanceFuturesProvider extends BaseDataProvider implements
         }
         this._oiCallbacks.get(sym)!.push(callback);
 
-        // Poll every 5 seconds (no WS stream for OI)
-        this._pollOpenInterest(sym);
+        // No WS stream for OI, poll it
+        if (!this._oiPolls.has(sym)) {
+            const id = ++this._pollId;
+            this._oiPolls.set(sym, id);
+            this._pollOpenInterest(sym, id);
+        }
     }
 
-    private async _pollOpenInterest(symbol: string): Promise<void> {
-        if (!this._oiCallbacks.has(symbol)) return;
+    /** Polls until unsubscribed, a poll started by a later subscribe replaces it */
+    private async _pollOpenInterest(symbol: string, id: number): Promise<void> {
+        if (this._oiPolls.get(symbol) !== id) return;
 
         try {
             const oi = await this.getOpenInterest(symbol);
+            if (this._oiPolls.get(symbol) !== id) return;
             this._notifyCallbacks(this._oiCallbacks, symbol, oi);
         } catch (e) {
             this.logError(`Failed to poll OI for ${symbol}:`, e);
         }
 
-        // Schedule next poll
-        setTimeout(() => this._pollOpenInterest(symbol), 5000);
+        setTimeout(() => this._pollOpenInterest(symbol, id), POLL_INTERVAL);
     }
 
     unsubscribeOpenInterest(symbol: string): void {
-        this._oiCallbacks.delete(this._normalizeSymbol(symbol));
+        const sym = this._normalizeSymbol(symbol);
+        this._oiCallbacks.delete(sym);
+        this._oiPolls.delete(sym);
+    }
+
+    /**
+     * Current funding rate: the estimate of the running period, settled at
+     * nextFundingTime
+     */
+    async getFundingRate(symbol: string): Promise<FundingRate> {
+        const sym = this._normalizeSymbol(symbol);
+        const response = await fetch(`${REST_BASE_URL}/fapi/v1/premiumIndex?symbol=${sym}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch funding rate: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return {
+            symbol: sym,
+            rate: parseFloat(data.lastFundingRate),
+            fundingTime: data.nextFundingTime,
+            timestamp: data.time ?? Date.now()
+        };
+    }
+
+    async getFundingRateHistory(symbol: string, limit: number = 500, endTime?: number): Promise<FundingRate[]> {
+        const sym = this._normalizeSymbol(symbol);
+        let url = `${REST_BASE_URL}/fapi/v1/fundingRate?symbol=${sym}&limit=${Math.min(limit, 1000)}`;
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch funding rate history: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.map((item: any) => ({
+            symbol: sym,
+            rate: parseFloat(item.fundingRate),
+            fundingTime: item.fundingTime,
+            timestamp: item.fundingTime
+        }));
+    }
+
+    subscribeFundingRate(symbol: string, callback: FundingRateCallback): void {
+        const sym = this._normalizeSymbol(symbol);
+
+        if (!this._fundingCallbacks.has(sym)) {
+            this._fundingCallbacks.set(sym, []);
+        }
+        this._fundingCallbacks.get(sym)!.push(callback);
+
+        if (!this._fundingPolls.has(sym)) {
+            const id = ++this._pollId;
+            this._fundingPolls.set(sym, id);
+            this._pollFundingRate(sym, id);
+        }
+    }
+
+    private async _pollFundingRate(symbol: string, id: number): Promise<void> {
+        if (this._fundingPolls.get(symbol) !== id) return;
+
+        try {
+            const funding = await this.getFundingRate(symbol);
+            if (this._fundingPolls.get(symbol) !== id) return;
+            this._notifyCallbacks(this._fundingCallbacks, symbol, funding);
+        } catch (e) {
+            this.logError(`Failed to poll funding rate for ${symbol}:`, e);
+        }
+
+        setTimeout(() => this._pollFundingRate(symbol, id), POLL_INTERVAL);
+    }
+
+    unsubscribeFundingRate(symbol: string): void {
+        const sym = this._normalizeSymbol(symbol);
+        this._fundingCallbacks.delete(sym);
+        this._fundingPolls.delete(sym);
+    }
+
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        // The futures exchangeInfo has no symbol filter, one request covers all symbols
+        if (!this._symbolMetadata) {
+            this._symbolMetadata = this._loadSymbolMetadata();
+            this._symbolMetadata.catch(() => { this._symbolMetadata = null; });
+        }
+        const metadata = await this._symbolMetadata;
+        return metadata.get(this._normalizeSymbol(symbol)) ?? null;
+    }
+
+    private async _loadSymbolMetadata(): Promise<Map<string, SymbolMetadata>> {
+        const response = await fetch(`${REST_BASE_URL}/fapi/v1/exchangeInfo`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch exchange info: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const result = new Map<string, SymbolMetadata>();
+        for (const info of data.symbols ?? []) {
+            const filters: any[] = info.filters ?? [];
+            const priceFilter = filters.find(f => f.filterType === 'PRICE_FILTER');
+            const lotSize = filters.find(f => f.filterType === 'LOT_SIZE');
+            const metadata = priceFilter && createSymbolMetadata(priceFilter.tickSize, lotSize?.stepSize ?? 1);
+            if (metadata) result.set(info.symbol, metadata);
+        }
+        this.log(`Loaded tick sizes of ${result.size} symbols`);
+        return result;
     }
 
     // ========================================================================
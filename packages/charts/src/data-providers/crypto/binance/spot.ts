@@ -8,6 +8,8 @@
 import { BaseDataProvider } from '../../base-provider';
 import {
     IFullDataProvider,
+    ISymbolMetadataProvider,
+    SymbolMetadata,
     Orderbook,
     OrderbookLevel,
     OrderbookUpdateCallback,
@@ -18,6 +20,7 @@ import {
     TradeUpdateCallback,
     MarketType
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -58,7 +61,7 @@ const INTERVAL_MAP: Record<CandleInterval, string> = {
  * - Historical and streaming candle (OHLCV) data
  * - Real-time trade stream
  */
-export class BinanceSpotProvider extends BaseDataProvider implements IFullDataProvider {
+export class BinanceSpotProvider extends BaseDataProvider implements IFullDataProvider, ISymbolMetadataProvider {
     readonly name = 'Binance Spot';
     readonly marketType: MarketType = 'crypto';
 
@@ -77,6 +80,9 @@ export class BinanceSpotProvider extends BaseDataProvider implements IFullDataPr
     private _tradeCallbacks: Map<string, TradeUpdateCallback[]> = new Map();
     private _tradeWs: Map<string, WebSocket> = new Map();
 
+    // Tick sizes, keyed by normalized symbol
+    private _symbolMetadata: Map<string, SymbolMetadata> = new Map();
+
     // Reconnection
     private _reconnectTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
@@ -238,11 +244,13 @@ export class BinanceSpotProvider extends BaseDataProvider implements IFullDataPr
     // ICandleProvider Implementation
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500, endTime?: number): Promise<Candle[]> {
         const sym = this._normalizeSymbol(symbol);
         const binanceInterval = INTERVAL_MAP[interval] || '1h';
 
-        const url = `${REST_BASE_URL}/api/v3/klines?symbol=${sym}&interval=${binanceInterval}&limit=${limit}`;
+        let url = `${REST_BASE_URL}/api/v3/klines?symbol=${sym}&interval=${binanceInterval}&limit=${limit}`;
+        // Binance endTime is inclusive, step back 1ms to only get older bars
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
         const response = await fetch(url);
 
         if (!response.ok) {
@@ -344,6 +352,25 @@ export class BinanceSpotProvider extends BaseDataProvider implements IFullDataPr
         }
     }
 
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        const sym = this._normalizeSymbol(symbol);
+        const cached = this._symbolMetadata.get(sym);
+        if (cached) return cached;
+
+        const response = await fetch(`${REST_BASE_URL}/api/v3/exchangeInfo?symbol=${sym}`);
+        // Unknown symbols are answered with 400
+        if (!response.ok) return null;
+
+        const data = await response.json();
+        const metadata = data.symbols?.[0] ? parseBinanceSymbolMetadata(data.symbols[0]) : null;
+        if (metadata) this._symbolMetadata.set(sym, metadata);
+        return metadata;
+    }
+
     // ========================================================================
     // Helpers
     // ========================================================================
@@ -408,3 +435,14 @@ export class BinanceSpotProvider extends BaseDataProvider implements IFullDataPr
         return { bidVolume, askVolume, ratio: total > 0 ? bidVolume / total : 0.5 };
     }
 }
+
+/**
+ * Tick size from PRICE_FILTER and quantity step from LOT_SIZE of an exchangeInfo symbol
+ */
+function parseBinanceSymbolMetadata(info: any): SymbolMetadata | null {
+    const filters: any[] = info.filters ?? [];
+    const priceFilter = filters.find(f => f.filterType === 'PRICE_FILTER');
+    const lotSize = filters.find(f => f.filterType === 'LOT_SIZE');
+    if (!priceFilter) return null;
+    return createSymbolMetadata(priceFilter.tickSize, lotSize?.stepSize ?? 1);
+}
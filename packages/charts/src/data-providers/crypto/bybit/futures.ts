@@ -1,7 +1,7 @@
 /**
  * Bybit Futures (Linear Perpetual) Provider
  * 
- * Combined Orderbook + Candle provider for Bybit Futures market.
+ * Combined Orderbook + Candle + Derivatives provider for Bybit Futures market.
  * Uses api.bybit.com V5 API endpoints with category=linear.
  */
 
@@ -13,8 +13,18 @@ import {
     OrderbookUpdateCallback,
     Candle,
     CandleInterval,
-    CandleUpdateCallback
+    CandleUpdateCallback,
+    IDerivativesProvider,
+    Liquidation,
+    LiquidationCallback,
+    OpenInterest,
+    OpenInterestCallback,
+    FundingRate,
+    FundingRateCallback,
+    ISymbolMetadataProvider,
+    SymbolMetadata
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -42,10 +52,25 @@ const INTERVAL_MAP: Partial<Record<CandleInterval, string>> = {
     '1d': 'D', '1w': 'W', '1M': 'M'
 };
 
+/** Periods of the open interest history, the smallest is 5min and the largest 1d */
+const OPEN_INTEREST_PERIOD_MAP: Record<CandleInterval, string> = {
+    '1s': '5min', '1m': '5min', '3m': '5min', '5m': '5min', '15m': '15min', '30m': '30min',
+    '1h': '1h', '2h': '1h', '4h': '4h', '6h': '4h', '8h': '4h', '12h': '4h',
+    '1d': '1d', '3d': '1d', '1w': '1d', '1M': '1d'
+};
+
+/** Candles of each open interest period, their prices value the history */
+const OPEN_INTEREST_CANDLES: Record<string, CandleInterval> = {
+    '5min': '5m', '15min': '15m', '30min': '30m', '1h': '1h', '4h': '4h', '1d': '1d'
+};
+
+/** Open interest and funding rates are polled from the tickers */
+const POLL_INTERVAL = 5000;
+
 /**
  * Bybit Futures (Linear Perpetual) Market Data Provider
  */
-export class BybitFuturesProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider {
+export class BybitFuturesProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider, IDerivativesProvider, ISymbolMetadataProvider {
     readonly name = 'Bybit Futures';
     readonly marketType = 'futures' as const;
 
@@ -53,9 +78,16 @@ export class BybitFuturesProvider extends BaseDataProvider implements IOrderbook
     private _orderbooks: Map<string, Orderbook> = new Map();
     private _orderbookCallbacks: Map<string, OrderbookUpdateCallback[]> = new Map();
     private _candleCallbacks: Map<string, CandleUpdateCallback[]> = new Map();
+    private _liquidationCallbacks: Map<string, LiquidationCallback[]> = new Map();
+    private _oiCallbacks: Map<string, OpenInterestCallback[]> = new Map();
+    private _fundingCallbacks: Map<string, FundingRateCallback[]> = new Map();
+    /** Id of the running poll per symbol */
+    private _polls: Map<string, number> = new Map();
+    private _pollId: number = 0;
     private _ws: WebSocket | null = null;
     private _subscriptions: Set<string> = new Set();
     private _wsCallbacks: Map<string, (data: any) => void> = new Map();
+    private _symbolMetadata: Map<string, SymbolMetadata> = new Map();
 
     constructor(config: BybitFuturesConfig = {}) {
         super();
@@ -80,6 +112,10 @@ export class BybitFuturesProvider extends BaseDataProvider implements IOrderbook
         this._orderbooks.clear();
         this._orderbookCallbacks.clear();
         this._candleCallbacks.clear();
+        this._liquidationCallbacks.clear();
+        this._oiCallbacks.clear();
+        this._fundingCallbacks.clear();
+        this._polls.clear();
         this._subscriptions.clear();
         this._wsCallbacks.clear();
         this.setStatus('disconnected');
@@ -192,10 +228,12 @@ export class BybitFuturesProvider extends BaseDataProvider implements IOrderbook
     // Candles
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200, endTime?: number): Promise<Candle[]> {
         const intervalStr = INTERVAL_MAP[interval] || '60';
         // Use linear category for futures
-        const url = `${BYBIT_REST_URL}/v5/market/kline?category=linear&symbol=${symbol}&interval=${intervalStr}&limit=${Math.min(limit, 200)}`;
+        let url = `${BYBIT_REST_URL}/v5/market/kline?category=linear&symbol=${symbol}&interval=${intervalStr}&limit=${Math.min(limit, 200)}`;
+        // Bybit `end` is inclusive, step back 1ms to only get older bars
+        if (endTime !== undefined) url += `&end=${endTime - 1}`;
 
         const response = await fetch(url);
         if (!response.ok) throw new Error(`Bybit Futures candle API error: ${response.status}`);
@@ -250,6 +288,214 @@ export class BybitFuturesProvider extends BaseDataProvider implements IOrderbook
         this._subscriptions.delete(`candle:${key}`);
     }
 
+    // ========================================================================
+    // Derivatives
+    // ========================================================================
+
+    subscribeLiquidations(symbol: string, callback: LiquidationCallback): void {
+        const callbacks = this._liquidationCallbacks.get(symbol) || [];
+        callbacks.push(callback);
+        this._liquidationCallbacks.set(symbol, callbacks);
+
+        if (!this._subscriptions.has(`liquidation:${symbol}`)) {
+            this._subscriptions.add(`liquidation:${symbol}`);
+            this._subscribeWs(`allLiquidation.${symbol}`, (data) => {
+                // Buy = a long position was liquidated
+                for (const item of data.data ?? []) {
+                    const liquidation: Liquidation = {
+                        symbol: item.s,
+                        side: item.S === 'Buy' ? 'long' : 'short',
+                        price: parseFloat(item.p),
+                        quantity: parseFloat(item.v),
+                        timestamp: item.T
+                    };
+                    this._liquidationCallbacks.get(symbol)?.forEach(cb => cb(liquidation));
+                }
+            });
+        }
+    }
+
+    unsubscribeLiquidations(symbol: string): void {
+        this._liquidationCallbacks.delete(symbol);
+        this._subscriptions.delete(`liquidation:${symbol}`);
+    }
+
+    async getOpenInterest(symbol: string): Promise<OpenInterest> {
+        const ticker = await this._getTicker(symbol);
+        return {
+            symbol,
+            openInterest: parseFloat(ticker.openInterest),
+            openInterestValue: parseFloat(ticker.openInterestValue),
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Open interest history. Bybit reports it in contracts only, it is
+     * valued at the open of the candle of each period.
+     */
+    async getOpenInterestHistory(symbol: string, interval: CandleInterval, limit: number = 200, endTime?: number): Promise<OpenInterest[]> {
+        const period = OPEN_INTEREST_PERIOD_MAP[interval] || '1h';
+        const count = Math.min(limit, 200);
+        let url = `${BYBIT_REST_URL}/v5/market/open-interest?category=linear&symbol=${symbol}&intervalTime=${period}&limit=${count}`;
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
+
+        const [response, candles] = await Promise.all([
+            fetch(url),
+            this.getCandles(symbol, OPEN_INTEREST_CANDLES[period], count, endTime)
+        ]);
+        if (!response.ok) throw new Error(`Bybit Futures open interest API error: ${response.status}`);
+
+        const data = await response.json();
+        if (data.retCode !== 0 || !data.result?.list) {
+            throw new Error(`Bybit Futures open interest API error: ${data.retMsg}`);
+        }
+
+        // Each sample takes the open of the last candle at or before it
+        let next = 0;
+        let price = candles[0]?.open ?? 0;
+        return data.result.list.reverse().map((item: any) => {
+            const timestamp = parseInt(item.timestamp);
+            while (next < candles.length && candles[next].time <= timestamp) {
+                price = candles[next].open;
+                next++;
+            }
+            const openInterest = parseFloat(item.openInterest);
+            return { symbol, openInterest, openInterestValue: openInterest * price, timestamp };
+        });
+    }
+
+    subscribeOpenInterest(symbol: string, callback: OpenInterestCallback): void {
+        const callbacks = this._oiCallbacks.get(symbol) || [];
+        callbacks.push(callback);
+        this._oiCallbacks.set(symbol, callbacks);
+        this._startPoll(symbol);
+    }
+
+    unsubscribeOpenInterest(symbol: string): void {
+        this._oiCallbacks.delete(symbol);
+        this._stopPoll(symbol);
+    }
+
+    /** Current funding rate of the running period, settled at nextFundingTime */
+    async getFundingRate(symbol: string): Promise<FundingRate> {
+        const ticker = await this._getTicker(symbol);
+        return {
+            symbol,
+            rate: parseFloat(ticker.fundingRate),
+            fundingTime: parseInt(ticker.nextFundingTime),
+            timestamp: Date.now()
+        };
+    }
+
+    async getFundingRateHistory(symbol: string, limit: number = 200, endTime?: number): Promise<FundingRate[]> {
+        let url = `${BYBIT_REST_URL}/v5/market/funding/history?category=linear&symbol=${symbol}&limit=${Math.min(limit, 200)}`;
+        if (endTime !== undefined) url += `&endTime=${endTime - 1}`;
+
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Bybit Futures funding API error: ${response.status}`);
+
+        const data = await response.json();
+        if (data.retCode !== 0 || !data.result?.list) {
+            throw new Error(`Bybit Futures funding API error: ${data.retMsg}`);
+        }
+
+        return data.result.list.reverse().map((item: any) => {
+            const fundingTime = parseInt(item.fundingRateTimestamp);
+            return { symbol, rate: parseFloat(item.fundingRate), fundingTime, timestamp: fundingTime };
+        });
+    }
+
+    subscribeFundingRate(symbol: string, callback: FundingRateCallback): void {
+        const callbacks = this._fundingCallbacks.get(symbol) || [];
+        callbacks.push(callback);
+        this._fundingCallbacks.set(symbol, callbacks);
+        this._startPoll(symbol);
+    }
+
+    unsubscribeFundingRate(symbol: string): void {
+        this._fundingCallbacks.delete(symbol);
+        this._stopPoll(symbol);
+    }
+
+    private async _getTicker(symbol: string): Promise<any> {
+        const url = `${BYBIT_REST_URL}/v5/market/tickers?category=linear&symbol=${symbol}`;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Bybit Futures ticker API error: ${response.status}`);
+
+        const data = await response.json();
+        const ticker = data.result?.list?.[0];
+        if (data.retCode !== 0 || !ticker) {
+            throw new Error(`Bybit Futures ticker API error: ${data.retMsg}`);
+        }
+        return ticker;
+    }
+
+    // One ticker poll per symbol serves both open interest and funding subscribers
+
+    private _startPoll(symbol: string): void {
+        if (this._polls.has(symbol)) return;
+        const id = ++this._pollId;
+        this._polls.set(symbol, id);
+        this._poll(symbol, id);
+    }
+
+    private _stopPoll(symbol: string): void {
+        if (!this._oiCallbacks.has(symbol) && !this._fundingCallbacks.has(symbol)) {
+            this._polls.delete(symbol);
+        }
+    }
+
+    private async _poll(symbol: string, id: number): Promise<void> {
+        if (this._polls.get(symbol) !== id) return;
+
+        try {
+            const ticker = await this._getTicker(symbol);
+            if (this._polls.get(symbol) !== id) return;
+
+            const now = Date.now();
+            const oi: OpenInterest = {
+                symbol,
+                openInterest: parseFloat(ticker.openInterest),
+                openInterestValue: parseFloat(ticker.openInterestValue),
+                timestamp: now
+            };
+            const funding: FundingRate = {
+                symbol,
+                rate: parseFloat(ticker.fundingRate),
+                fundingTime: parseInt(ticker.nextFundingTime),
+                timestamp: now
+            };
+            this._oiCallbacks.get(symbol)?.forEach(cb => cb(oi));
+            this._fundingCallbacks.get(symbol)?.forEach(cb => cb(funding));
+        } catch (e) {
+            console.error(`Bybit Futures ticker poll error for ${symbol}:`, e);
+        }
+
+        setTimeout(() => this._poll(symbol, id), POLL_INTERVAL);
+    }
+
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        const cached = this._symbolMetadata.get(symbol);
+        if (cached) return cached;
+
+        const url = `${BYBIT_REST_URL}/v5/market/instruments-info?category=linear&symbol=${symbol}`;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Bybit instruments API error: ${response.status}`);
+
+        const data = await response.json();
+        const info = data.result?.list?.[0];
+        if (data.retCode !== 0 || !info?.priceFilter) return null;
+
+        const metadata = createSymbolMetadata(info.priceFilter.tickSize, info.lotSizeFilter?.qtyStep ?? 1);
+        if (metadata) this._symbolMetadata.set(symbol, metadata);
+        return metadata;
+    }
+
     // ========================================================================
     // WebSocket
     // ========================================================================
@@ -257,12 +503,15 @@ export class BybitFuturesProvider extends BaseDataProvider implements IOrderbook
     private _subscribeWs(topic: string, onMessage: (data: any) => void): void {
         this._wsCallbacks.set(topic, onMessage);
 
-        if (!this._ws || this._ws.readyState !== WebSocket.OPEN) {
+        if (!this._ws || this._ws.readyState === WebSocket.CLOSING || this._ws.readyState === WebSocket.CLOSED) {
             this._ws = new WebSocket(BYBIT_WS_URL);
 
+            // Topics added while connecting are subscribed once open
             this._ws.onopen = () => {
                 this.log('WebSocket connected (Linear/Futures)');
-                this._sendSubscription(topic);
+                for (const pending of this._wsCallbacks.keys()) {
+                    this._sendSubscription(pending);
+                }
             };
 
             this._ws.onmessage = (event) => {
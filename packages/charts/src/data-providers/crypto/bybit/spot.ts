@@ -13,8 +13,11 @@ import {
     OrderbookUpdateCallback,
     Candle,
     CandleInterval,
-    CandleUpdateCallback
+    CandleUpdateCallback,
+    ISymbolMetadataProvider,
+    SymbolMetadata
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -45,7 +48,7 @@ const INTERVAL_MAP: Partial<Record<CandleInterval, string>> = {
 /**
  * Bybit Spot Market Data Provider
  */
-export class BybitSpotProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider {
+export class BybitSpotProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider, ISymbolMetadataProvider {
     readonly name = 'Bybit Spot';
     readonly marketType = 'spot' as const;
 
@@ -56,6 +59,7 @@ export class BybitSpotProvider extends BaseDataProvider implements IOrderbookPro
     private _ws: WebSocket | null = null;
     private _subscriptions: Set<string> = new Set();
     private _wsCallbacks: Map<string, (data: any) => void> = new Map();
+    private _symbolMetadata: Map<string, SymbolMetadata> = new Map();
 
     constructor(config: BybitSpotConfig = {}) {
         super();
@@ -191,9 +195,11 @@ export class BybitSpotProvider extends BaseDataProvider implements IOrderbookPro
     // Candles
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200, endTime?: number): Promise<Candle[]> {
         const intervalStr = INTERVAL_MAP[interval] || '60';
-        const url = `${BYBIT_REST_URL}/v5/market/kline?category=spot&symbol=${symbol}&interval=${intervalStr}&limit=${Math.min(limit, 200)}`;
+        let url = `${BYBIT_REST_URL}/v5/market/kline?category=spot&symbol=${symbol}&interval=${intervalStr}&limit=${Math.min(limit, 200)}`;
+        // Bybit `end` is inclusive, step back 1ms to only get older bars
+        if (endTime !== undefined) url += `&end=${endTime - 1}`;
 
         const response = await fetch(url);
         if (!response.ok) throw new Error(`Bybit candle API error: ${response.status}`);
@@ -248,6 +254,27 @@ export class BybitSpotProvider extends BaseDataProvider implements IOrderbookPro
         this._subscriptions.delete(`candle:${key}`);
     }
 
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        const cached = this._symbolMetadata.get(symbol);
+        if (cached) return cached;
+
+        const url = `${BYBIT_REST_URL}/v5/market/instruments-info?category=spot&symbol=${symbol}`;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Bybit instruments API error: ${response.status}`);
+
+        const data = await response.json();
+        const info = data.result?.list?.[0];
+        if (data.retCode !== 0 || !info?.priceFilter) return null;
+
+        const metadata = createSymbolMetadata(info.priceFilter.tickSize, info.lotSizeFilter?.basePrecision ?? 1);
+        if (metadata) this._symbolMetadata.set(symbol, metadata);
+        return metadata;
+    }
+
     // ========================================================================
     // WebSocket
     // ========================================================================
@@ -1,7 +1,7 @@
 /**
  * OKX Futures (Swap/Perpetual) Provider
  * 
- * Combined Orderbook + Candle provider for OKX Swap market.
+ * Combined Orderbook + Candle + Derivatives provider for OKX Swap market.
  * Uses okx.com API endpoints with instType=SWAP.
  */
 
@@ -13,8 +13,18 @@ import {
     OrderbookUpdateCallback,
     Candle,
     CandleInterval,
-    CandleUpdateCallback
+    CandleUpdateCallback,
+    IDerivativesProvider,
+    Liquidation,
+    LiquidationCallback,
+    OpenInterest,
+    OpenInterestCallback,
+    FundingRate,
+    FundingRateCallback,
+    ISymbolMetadataProvider,
+    SymbolMetadata
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -42,10 +52,20 @@ const INTERVAL_MAP: Partial<Record<CandleInterval, string>> = {
     '1d': '1D', '1w': '1W', '1M': '1M'
 };
 
+/** Periods of the open interest history, the smallest is 5m and the largest 1D */
+const OPEN_INTEREST_PERIOD_MAP: Record<CandleInterval, string> = {
+    '1s': '5m', '1m': '5m', '3m': '5m', '5m': '5m', '15m': '15m', '30m': '30m',
+    '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '8h': '4H', '12h': '12Hutc',
+    '1d': '1Dutc', '3d': '1Dutc', '1w': '1Dutc', '1M': '1Dutc'
+};
+
+/** Open interest and funding rates have no public stream, they are polled */
+const POLL_INTERVAL = 5000;
+
 /**
  * OKX Futures (Swap/Perpetual) Market Data Provider
  */
-export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider {
+export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider, IDerivativesProvider, ISymbolMetadataProvider {
     readonly name = 'OKX Futures';
     readonly marketType = 'futures' as const;
 
@@ -53,9 +73,19 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
     private _orderbooks: Map<string, Orderbook> = new Map();
     private _orderbookCallbacks: Map<string, OrderbookUpdateCallback[]> = new Map();
     private _candleCallbacks: Map<string, CandleUpdateCallback[]> = new Map();
+    private _liquidationCallbacks: Map<string, LiquidationCallback[]> = new Map();
+    private _oiCallbacks: Map<string, OpenInterestCallback[]> = new Map();
+    private _fundingCallbacks: Map<string, FundingRateCallback[]> = new Map();
+    /** Id of the running poll per `kind:instId` */
+    private _polls: Map<string, number> = new Map();
+    private _pollId: number = 0;
     private _ws: WebSocket | null = null;
     private _subscriptions: Set<string> = new Set();
     private _wsCallbacks: Map<string, (data: any) => void> = new Map();
+    private _wsArgs: Map<string, Record<string, string>> = new Map();
+    private _symbolMetadata: Map<string, SymbolMetadata> = new Map();
+    /** Base currency per contract of each swap, sizes are in contracts */
+    private _contractValues: Map<string, number> = new Map();
 
     constructor(config: OkxFuturesConfig = {}) {
         super();
@@ -80,8 +110,13 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
         this._orderbooks.clear();
         this._orderbookCallbacks.clear();
         this._candleCallbacks.clear();
+        this._liquidationCallbacks.clear();
+        this._oiCallbacks.clear();
+        this._fundingCallbacks.clear();
+        this._polls.clear();
         this._subscriptions.clear();
         this._wsCallbacks.clear();
+        this._wsArgs.clear();
         this.setStatus('disconnected');
     }
 
@@ -188,10 +223,14 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
     // Candles
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 300): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 300, endTime?: number): Promise<Candle[]> {
         const instId = this._toSwapInstId(symbol);
         const bar = INTERVAL_MAP[interval] || '1H';
-        const url = `${OKX_REST_URL}/api/v5/market/candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 300)}`;
+        // The candles endpoint only serves recent bars, older pages come from
+        // history-candles (max 100 per request). `after` is exclusive.
+        const url = endTime !== undefined
+            ? `${OKX_REST_URL}/api/v5/market/history-candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 100)}&after=${endTime}`
+            : `${OKX_REST_URL}/api/v5/market/candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 300)}`;
 
         const response = await fetch(url);
         if (!response.ok) throw new Error(`OKX Futures candle API error: ${response.status}`);
@@ -247,6 +286,232 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
         this._subscriptions.delete(`candle:${key}`);
     }
 
+    // ========================================================================
+    // Derivatives
+    // ========================================================================
+
+    subscribeLiquidations(symbol: string, callback: LiquidationCallback): void {
+        const instId = this._toSwapInstId(symbol);
+        const callbacks = this._liquidationCallbacks.get(instId) || [];
+        callbacks.push(callback);
+        this._liquidationCallbacks.set(instId, callbacks);
+
+        // Sizes are converted with the contract value, loaded before the first event
+        this._getContractValue(instId).catch(e => console.error('OKX Futures instrument error:', e));
+
+        // One channel streams the forced orders of every swap
+        if (!this._subscriptions.has('liquidation')) {
+            this._subscriptions.add('liquidation');
+            this._subscribeWs('liquidation-orders', 'SWAP', (data) => {
+                for (const item of data.data ?? []) {
+                    const cbs = this._liquidationCallbacks.get(item.instId);
+                    if (!cbs) continue;
+                    for (const liquidation of this._toLiquidations(item)) {
+                        cbs.forEach(cb => cb(liquidation));
+                    }
+                }
+            }, 'instType');
+        }
+    }
+
+    unsubscribeLiquidations(symbol: string): void {
+        this._liquidationCallbacks.delete(this._toSwapInstId(symbol));
+    }
+
+    /**
+     * Forced orders of the last days, OKX keeps about a week of them
+     */
+    async getLiquidationHistory(symbol: string, limit: number = 100, endTime?: number): Promise<Liquidation[]> {
+        const instId = this._toSwapInstId(symbol);
+        const uly = instId.replace(/-SWAP$/, '');
+        let url = `${OKX_REST_URL}/api/v5/public/liquidation-orders?instType=SWAP&uly=${uly}&state=filled&limit=${Math.min(limit, 100)}`;
+        if (endTime !== undefined) url += `&after=${endTime}`;
+
+        const [response] = await Promise.all([fetch(url), this._getContractValue(instId)]);
+        if (!response.ok) throw new Error(`OKX Futures liquidation API error: ${response.status}`);
+
+        const data = await response.json();
+        if (data.code !== '0' || !data.data) {
+            throw new Error(`OKX Futures liquidation API error: ${data.msg}`);
+        }
+
+        return data.data
+            .filter((item: any) => item.instId === instId)
+            .flatMap((item: any) => this._toLiquidations(item))
+            .sort((a: Liquidation, b: Liquidation) => a.timestamp - b.timestamp);
+    }
+
+    async getOpenInterest(symbol: string): Promise<OpenInterest> {
+        const instId = this._toSwapInstId(symbol);
+        const data = await this._getPublic(`/api/v5/public/open-interest?instType=SWAP&instId=${instId}`);
+        const oi = data[0];
+        return {
+            symbol,
+            openInterest: parseFloat(oi.oiCcy),
+            openInterestValue: parseFloat(oi.oiUsd),
+            timestamp: parseInt(oi.ts)
+        };
+    }
+
+    /**
+     * Open interest history, in periods of 5m to 1D; other intervals get
+     * the nearest period
+     */
+    async getOpenInterestHistory(symbol: string, interval: CandleInterval, limit: number = 100, endTime?: number): Promise<OpenInterest[]> {
+        const instId = this._toSwapInstId(symbol);
+        const period = OPEN_INTEREST_PERIOD_MAP[interval] || '1H';
+        let path = `/api/v5/rubik/stat/contracts/open-interest-history?instId=${instId}&period=${period}&limit=${Math.min(limit, 100)}`;
+        if (endTime !== undefined) path += `&end=${endTime - 1}`;
+
+        // [ts, oi, oiCcy, oiUsd], newest first
+        const data = await this._getPublic(path);
+        return data.reverse().map((item: string[]) => ({
+            symbol,
+            openInterest: parseFloat(item[2]),
+            openInterestValue: parseFloat(item[3]),
+            timestamp: parseInt(item[0])
+        }));
+    }
+
+    subscribeOpenInterest(symbol: string, callback: OpenInterestCallback): void {
+        const instId = this._toSwapInstId(symbol);
+        const callbacks = this._oiCallbacks.get(instId) || [];
+        callbacks.push(callback);
+        this._oiCallbacks.set(instId, callbacks);
+
+        this._startPoll(`oi:${instId}`, async () => {
+            const oi = await this.getOpenInterest(symbol);
+            this._oiCallbacks.get(instId)?.forEach(cb => cb(oi));
+        });
+    }
+
+    unsubscribeOpenInterest(symbol: string): void {
+        const instId = this._toSwapInstId(symbol);
+        this._oiCallbacks.delete(instId);
+        this._polls.delete(`oi:${instId}`);
+    }
+
+    /** Current funding rate, settled at fundingTime, with the predicted next one */
+    async getFundingRate(symbol: string): Promise<FundingRate> {
+        const instId = this._toSwapInstId(symbol);
+        const data = await this._getPublic(`/api/v5/public/funding-rate?instId=${instId}`);
+        const funding = data[0];
+        const predicted = parseFloat(funding.nextFundingRate);
+        return {
+            symbol,
+            rate: parseFloat(funding.fundingRate),
+            predictedRate: isNaN(predicted) ? undefined : predicted,
+            fundingTime: parseInt(funding.fundingTime),
+            timestamp: parseInt(funding.ts) || Date.now()
+        };
+    }
+
+    async getFundingRateHistory(symbol: string, limit: number = 100, endTime?: number): Promise<FundingRate[]> {
+        const instId = this._toSwapInstId(symbol);
+        let path = `/api/v5/public/funding-rate-history?instId=${instId}&limit=${Math.min(limit, 100)}`;
+        if (endTime !== undefined) path += `&after=${endTime}`;
+
+        const data = await this._getPublic(path);
+        return data.reverse().map((item: any) => {
+            const fundingTime = parseInt(item.fundingTime);
+            return { symbol, rate: parseFloat(item.realizedRate || item.fundingRate), fundingTime, timestamp: fundingTime };
+        });
+    }
+
+    subscribeFundingRate(symbol: string, callback: FundingRateCallback): void {
+        const instId = this._toSwapInstId(symbol);
+        const callbacks = this._fundingCallbacks.get(instId) || [];
+        callbacks.push(callback);
+        this._fundingCallbacks.set(instId, callbacks);
+
+        this._startPoll(`funding:${instId}`, async () => {
+            const funding = await this.getFundingRate(symbol);
+            this._fundingCallbacks.get(instId)?.forEach(cb => cb(funding));
+        });
+    }
+
+    unsubscribeFundingRate(symbol: string): void {
+        const instId = this._toSwapInstId(symbol);
+        this._fundingCallbacks.delete(instId);
+        this._polls.delete(`funding:${instId}`);
+    }
+
+    /** Forced orders of a liquidation-orders entry, sizes in base currency */
+    private _toLiquidations(item: any): Liquidation[] {
+        const contractValue = this._contractValues.get(item.instId);
+        if (contractValue === undefined) return [];
+
+        return (item.details ?? []).map((detail: any) => ({
+            symbol: item.instId,
+            // Net mode has no position side, a forced sell closes a long
+            side: detail.posSide === 'long' || (detail.posSide === 'net' && detail.side === 'sell') ? 'long' : 'short',
+            price: parseFloat(detail.bkPx),
+            quantity: parseFloat(detail.sz) * contractValue,
+            timestamp: parseInt(detail.ts)
+        }));
+    }
+
+    private async _getContractValue(instId: string): Promise<number> {
+        if (!this._contractValues.has(instId)) {
+            await this.getSymbolMetadata(instId);
+        }
+        return this._contractValues.get(instId) ?? 1;
+    }
+
+    private async _getPublic(path: string): Promise<any[]> {
+        const response = await fetch(`${OKX_REST_URL}${path}`);
+        if (!response.ok) throw new Error(`OKX Futures API error: ${response.status}`);
+
+        const data = await response.json();
+        if (data.code !== '0' || !data.data) {
+            throw new Error(`OKX Futures API error: ${data.msg}`);
+        }
+        return data.data;
+    }
+
+    /** Runs the poll until its key is removed, a later start with the same key is ignored */
+    private _startPoll(key: string, poll: () => Promise<void>): void {
+        if (this._polls.has(key)) return;
+        const id = ++this._pollId;
+        this._polls.set(key, id);
+
+        const run = async () => {
+            if (this._polls.get(key) !== id) return;
+            try {
+                await poll();
+            } catch (e) {
+                console.error(`OKX Futures poll error (${key}):`, e);
+            }
+            setTimeout(run, POLL_INTERVAL);
+        };
+        void run();
+    }
+
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        const instId = this._toSwapInstId(symbol);
+        const cached = this._symbolMetadata.get(instId);
+        if (cached) return cached;
+
+        const url = `${OKX_REST_URL}/api/v5/public/instruments?instType=SWAP&instId=${instId}`;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`OKX instruments API error: ${response.status}`);
+
+        const data = await response.json();
+        const info = data.data?.[0];
+        if (data.code !== '0' || !info) return null;
+
+        this._contractValues.set(instId, parseFloat(info.ctVal) || 1);
+
+        // lotSz is in contracts for swaps
+        const metadata = createSymbolMetadata(info.tickSz, info.lotSz ?? 1);
+        if (metadata) this._symbolMetadata.set(instId, metadata);
+        return metadata;
+    }
+
     // ========================================================================
     // Helpers
     // ========================================================================
@@ -266,23 +531,37 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
         return symbol + '-SWAP';
     }
 
-    private _subscribeWs(channel: string, instId: string, onMessage: (data: any) => void): void {
-        const key = `${channel}:${instId}`;
+    /**
+     * @param target - instrument of the channel, or the instrument type for
+     * channels of a whole market (argKey 'instType')
+     */
+    private _subscribeWs(
+        channel: string,
+        target: string,
+        onMessage: (data: any) => void,
+        argKey: 'instId' | 'instType' = 'instId'
+    ): void {
+        const key = `${channel}:${target}`;
         this._wsCallbacks.set(key, onMessage);
+        this._wsArgs.set(key, { channel, [argKey]: target });
 
-        if (!this._ws || this._ws.readyState !== WebSocket.OPEN) {
+        if (!this._ws || this._ws.readyState === WebSocket.CLOSING || this._ws.readyState === WebSocket.CLOSED) {
             this._ws = new WebSocket(OKX_WS_URL);
 
+            // Channels added while connecting are subscribed once open
             this._ws.onopen = () => {
                 this.log('WebSocket connected (Futures/Swap)');
-                this._sendSubscription(channel, instId);
+                for (const arg of this._wsArgs.values()) {
+                    this._sendSubscription(arg);
+                }
             };
 
             this._ws.onmessage = (event) => {
                 try {
                     const data = JSON.parse(event.data);
-                    if (data.arg?.channel && data.arg?.instId) {
-                        const cbKey = `${data.arg.channel}:${data.arg.instId}`;
+                    const messageTarget = data.arg?.instId ?? data.arg?.instType;
+                    if (data.arg?.channel && messageTarget) {
+                        const cbKey = `${data.arg.channel}:${messageTarget}`;
                         const cb = this._wsCallbacks.get(cbKey);
                         if (cb) cb(data);
                     }
@@ -295,15 +574,15 @@ export class OkxFuturesProvider extends BaseDataProvider implements IOrderbookPr
                 console.error('OKX Futures WS error:', e);
             };
         } else {
-            this._sendSubscription(channel, instId);
+            this._sendSubscription(this._wsArgs.get(key)!);
         }
     }
 
-    private _sendSubscription(channel: string, instId: string): void {
+    private _sendSubscription(arg: Record<string, string>): void {
         if (this._ws?.readyState === WebSocket.OPEN) {
             this._ws.send(JSON.stringify({
                 op: 'subscribe',
-                args: [{ channel, instId }]
+                args: [arg]
             }));
         }
     }
@@ -13,8 +13,11 @@ import {
     OrderbookUpdateCallback,
     Candle,
     CandleInterval,
-    CandleUpdateCallback
+    CandleUpdateCallback,
+    ISymbolMetadataProvider,
+    SymbolMetadata
 } from '../../types';
+import { createSymbolMetadata } from '../../symbol-metadata';
 
 // ============================================================================
 // Configuration
@@ -45,7 +48,7 @@ const INTERVAL_MAP: Partial<Record<CandleInterval, string>> = {
 /**
  * OKX Spot Market Data Provider
  */
-export class OkxSpotProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider {
+export class OkxSpotProvider extends BaseDataProvider implements IOrderbookProvider, ICandleProvider, ISymbolMetadataProvider {
     readonly name = 'OKX Spot';
     readonly marketType = 'spot' as const;
 
@@ -56,6 +59,7 @@ export class OkxSpotProvider extends BaseDataProvider implements IOrderbookProvi
     private _ws: WebSocket | null = null;
     private _subscriptions: Set<string> = new Set();
     private _wsCallbacks: Map<string, (data: any) => void> = new Map();
+    private _symbolMetadata: Map<string, SymbolMetadata> = new Map();
 
     constructor(config: OkxSpotConfig = {}) {
         super();
@@ -189,10 +193,14 @@ export class OkxSpotProvider extends BaseDataProvider implements IOrderbookProvi
     // Candles
     // ========================================================================
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 300): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 300, endTime?: number): Promise<Candle[]> {
         const instId = this._toInstId(symbol);
         const bar = INTERVAL_MAP[interval] || '1H';
-        const url = `${OKX_REST_URL}/api/v5/market/candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 300)}`;
+        // The candles endpoint only serves recent bars, older pages come from
+        // history-candles (max 100 per request). `after` is exclusive.
+        const url = endTime !== undefined
+            ? `${OKX_REST_URL}/api/v5/market/history-candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 100)}&after=${endTime}`
+            : `${OKX_REST_URL}/api/v5/market/candles?instId=${instId}&bar=${bar}&limit=${Math.min(limit, 300)}`;
 
         const response = await fetch(url);
         if (!response.ok) throw new Error(`OKX candle API error: ${response.status}`);
@@ -248,6 +256,29 @@ export class OkxSpotProvider extends BaseDataProvider implements IOrderbookProvi
         this._subscriptions.delete(`candle:${key}`);
     }
 
+    // ========================================================================
+    // Symbol Metadata
+    // ========================================================================
+
+    async getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null> {
+        const instId = this._toInstId(symbol);
+        const cached = this._symbolMetadata.get(instId);
+        if (cached) return cached;
+
+        const url = `${OKX_REST_URL}/api/v5/public/instruments?instType=SPOT&instId=${instId}`;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`OKX instruments API error: ${response.status}`);
+
+        const data = await response.json();
+        const info = data.data?.[0];
+        if (data.code !== '0' || !info) return null;
+
+        // lotSz is in contracts for swaps
+        const metadata = createSymbolMetadata(info.tickSz, info.lotSz ?? 1);
+        if (metadata) this._symbolMetadata.set(instId, metadata);
+        return metadata;
+    }
+
     // ========================================================================
     // Helpers
     // ========================================================================
@@ -26,6 +26,35 @@ export * from './types';
 // Base Provider
 export { BaseDataProvider } from './base-provider';
 
+// Custom timeframes
+export {
+    AggregatedCandleProvider,
+    AggregatedCandleProviderOptions,
+    CandleAggregator,
+    CandleAggregatorOptions,
+    CANDLE_INTERVALS,
+    selectBaseInterval,
+} from './candle-aggregator';
+
+// Synthetic symbols (ratios, spreads)
+export {
+    SyntheticCandleProvider,
+    SyntheticSymbol,
+    CandleProviderResolver,
+    ResolvedComponent,
+    perpetualResolver,
+    parseSyntheticSymbol,
+    isSyntheticSymbol,
+    combineCandles,
+} from './synthetic-symbol';
+
+// Tick sizes and precision
+export {
+    BIST_TICK_SIZE_TIERS,
+    createSymbolMetadata,
+    symbolPriceFormat,
+} from './symbol-metadata';
+
 // Crypto Providers
 export * from './crypto';
 
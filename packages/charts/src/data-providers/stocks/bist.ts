@@ -1,5 +1,7 @@
 import {
     ICandleProvider,
+    ISymbolMetadataProvider,
+    SymbolMetadata,
     Candle,
     CandleInterval,
     CandleUpdateCallback,
@@ -9,8 +11,9 @@ import {
 } from '../types';
 
 import { Delegate } from '../../helpers/delegate';
+import { BIST_TICK_SIZE_TIERS, createSymbolMetadata } from '../symbol-metadata';
 
-export class BistDataProvider implements ICandleProvider {
+export class BistDataProvider implements ICandleProvider, ISymbolMetadataProvider {
     readonly name = 'BIST (Delayed)';
     readonly marketType = 'stocks';
 
@@ -48,7 +51,7 @@ export class BistDataProvider implements ICandleProvider {
         this._setStatus('disconnected');
     }
 
-    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200): Promise<Candle[]> {
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 200, endTime?: number): Promise<Candle[]> {
         // Fetch from YOUR Backend
         // Endpoint: GET /history?symbol=THYAO&interval=15m&limit=200
 
@@ -56,7 +59,9 @@ export class BistDataProvider implements ICandleProvider {
         const tf = this._mapInterval(interval);
 
         try {
-            const url = `${this._baseUrl}/history?symbol=${symbol}&interval=${tf}&limit=${limit}`;
+            let url = `${this._baseUrl}/history?symbol=${symbol}&interval=${tf}&limit=${limit}`;
+            // Paging cursor for older history (`to` is inclusive on the backend)
+            if (endTime !== undefined) url += `&to=${endTime - 1}`;
             const response = await fetch(url);
 
             if (!response.ok) {
@@ -100,6 +105,11 @@ export class BistDataProvider implements ICandleProvider {
         }
     }
 
+    // Equities share the exchange's price steps, quantities are whole lots
+    async getSymbolMetadata(_symbol: string): Promise<SymbolMetadata | null> {
+        return createSymbolMetadata(0.01, 1, BIST_TICK_SIZE_TIERS);
+    }
+
     // --- Private Methods ---
 
     private _setStatus(status: ProviderStatus, message?: string) {
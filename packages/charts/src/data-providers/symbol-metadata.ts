@@ -0,0 +1,64 @@
+/**
+ * Symbol Metadata
+ *
+ * Tick size and precision of a symbol from the steps an exchange info
+ * endpoint reports, and the chart price format built from them.
+ *
+ * Usage:
+ * ```typescript
+ * const metadata = await new BinanceSpotProvider().getSymbolMetadata('1000PEPEUSDT');
+ * chart.setSymbolMetadata(metadata); // axis shows 7 decimals, magnet snaps to 0.0000001
+ * ```
+ */
+
+import { SymbolMetadata } from './types';
+import { PriceFormat, TickSizeTier, decimalsOf } from '../helpers/price-format';
+
+/**
+ * Borsa Istanbul equity price steps
+ */
+export const BIST_TICK_SIZE_TIERS: TickSizeTier[] = [
+    { minPrice: 0, tickSize: 0.01 },
+    { minPrice: 20, tickSize: 0.02 },
+    { minPrice: 50, tickSize: 0.05 },
+    { minPrice: 100, tickSize: 0.1 },
+    { minPrice: 250, tickSize: 0.25 },
+    { minPrice: 500, tickSize: 0.5 },
+    { minPrice: 1000, tickSize: 1 },
+    { minPrice: 2500, tickSize: 2.5 },
+];
+
+/**
+ * Metadata from a price step and a quantity step, as strings ('0.00010000')
+ * or numbers
+ * @returns null when the exchange did not send a usable tick size
+ */
+export function createSymbolMetadata(
+    tickSize: number | string,
+    quantityStep: number | string,
+    tickSizeTiers?: TickSizeTier[]
+): SymbolMetadata | null {
+    const tick = typeof tickSize === 'string' ? parseFloat(tickSize) : tickSize;
+    if (!isFinite(tick) || tick <= 0) return null;
+
+    const pricePrecision = decimalsOf(tick);
+    return {
+        tickSize: tick,
+        pricePrecision,
+        quantityPrecision: decimalsOf(quantityStep),
+        minMove: Math.round(tick * Math.pow(10, pricePrecision)),
+        ...(tickSizeTiers ? { tickSizeTiers } : {}),
+    };
+}
+
+/**
+ * Chart price format of a symbol, null without a tick size
+ */
+export function symbolPriceFormat(metadata: Partial<SymbolMetadata> | null): PriceFormat | null {
+    if (!metadata || !metadata.tickSize || metadata.tickSize <= 0) return null;
+    return {
+        precision: metadata.pricePrecision ?? decimalsOf(metadata.tickSize),
+        tickSize: metadata.tickSize,
+        tickSizeTiers: metadata.tickSizeTiers,
+    };
+}
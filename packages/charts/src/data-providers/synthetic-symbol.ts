@@ -0,0 +1,383 @@
+/**
+ * Synthetic Symbols
+ *
+ * Instruments computed from other symbols with an arithmetic expression:
+ * ratios (`BTCUSDT/ETHUSDT`), spreads and basis (`BTCUSDT-BTCUSDT.P`) or any
+ * weighted combination (`2*ETHUSDT-BTCUSDT/20`). Component candles are aligned
+ * by open time, a synthetic bar only exists where every component has one.
+ *
+ * Usage:
+ * ```typescript
+ * const provider = new SyntheticCandleProvider(new BinanceSpotProvider());
+ * const candles = await provider.getCandles('BTCUSDT/ETHUSDT', '1h', 500);
+ * provider.subscribeCandles('BTCUSDT/ETHUSDT', '1h', (candle) => console.log(candle));
+ *
+ * // Basis: perpetuals (`.P`) from the futures provider, the rest from spot
+ * const spot = new BinanceSpotProvider();
+ * const basis = new SyntheticCandleProvider(spot, perpetualResolver(spot, new BinanceFuturesProvider()));
+ * await basis.getCandles('BTCUSDT.P-BTCUSDT', '1h', 500);
+ * ```
+ */
+
+import {
+    ICandleProvider,
+    Candle,
+    CandleInterval,
+    CandleUpdateCallback,
+    MarketType,
+    ProviderStatus,
+    StatusCallback
+} from './types';
+
+type SyntheticNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'symbol'; symbol: string }
+    | { kind: 'negate'; operand: SyntheticNode }
+    | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: SyntheticNode; right: SyntheticNode };
+
+/**
+ * A parsed synthetic symbol
+ */
+export interface SyntheticSymbol {
+    /** Upper case, without whitespace, e.g. `BTCUSDT/ETHUSDT` */
+    readonly expression: string;
+    /** Symbols the expression uses, in order of appearance, without duplicates */
+    readonly components: readonly string[];
+    /** Value of the expression for one price of every component */
+    evaluate(values: Readonly<Record<string, number>>): number;
+}
+
+/** Runs of these characters are symbols (`BTCUSDT.P`, `BINANCE:ETHUSDT`) or numbers */
+const NAME_CHAR = /[A-Z0-9_.:!]/;
+const NUMBER = /^\d+(\.\d+)?$/;
+
+/**
+ * Parse a symbol as an expression of other symbols.
+ * @returns null for plain symbols and for invalid expressions
+ */
+export function parseSyntheticSymbol(symbol: string): SyntheticSymbol | null {
+    const expression = symbol.replace(/\s+/g, '').toUpperCase();
+    const tokenized = tokenize(expression);
+    if (!tokenized || tokenized.length < 2) return null;
+    const tokens = tokenized;
+
+    let pos = 0;
+    const peek = (): string | undefined => tokens[pos];
+
+    const parseFactor = (): SyntheticNode | null => {
+        const token = tokens[pos++];
+        if (token === undefined) return null;
+        if (token === '-') {
+            const operand = parseFactor();
+            return operand && { kind: 'negate', operand };
+        }
+        if (token === '(') {
+            const inner = parseSum();
+            if (!inner || tokens[pos++] !== ')') return null;
+            return inner;
+        }
+        if (NUMBER.test(token)) return { kind: 'number', value: parseFloat(token) };
+        if (NAME_CHAR.test(token[0])) return { kind: 'symbol', symbol: token };
+        return null;
+    };
+
+    const parseProduct = (): SyntheticNode | null => {
+        let left = parseFactor();
+        while (left && (peek() === '*' || peek() === '/')) {
+            const operator = tokens[pos++] as '*' | '/';
+            const right = parseFactor();
+            left = right && { kind: 'binary', operator, left, right };
+        }
+        return left;
+    };
+
+    function parseSum(): SyntheticNode | null {
+        let left = parseProduct();
+        while (left && (peek() === '+' || peek() === '-')) {
+            const operator = tokens[pos++] as '+' | '-';
+            const right = parseProduct();
+            left = right && { kind: 'binary', operator, left, right };
+        }
+        return left;
+    }
+
+    const root = parseSum();
+    if (!root || pos !== tokens.length) return null;
+
+    const components: string[] = [];
+    collectSymbols(root, components);
+    if (components.length === 0) return null;
+
+    return {
+        expression,
+        components,
+        evaluate: (values) => evaluateNode(root, values),
+    };
+}
+
+/**
+ * Whether the symbol is an expression of other symbols rather than an instrument
+ */
+export function isSyntheticSymbol(symbol: string): boolean {
+    return parseSyntheticSymbol(symbol) !== null;
+}
+
+function tokenize(expression: string): string[] | null {
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < expression.length) {
+        const ch = expression[i];
+        if ('+-*/()'.includes(ch)) {
+            tokens.push(ch);
+            i++;
+            continue;
+        }
+        if (!NAME_CHAR.test(ch)) return null;
+
+        let end = i;
+        while (end < expression.length && NAME_CHAR.test(expression[end])) end++;
+        tokens.push(expression.slice(i, end));
+        i = end;
+    }
+    return tokens;
+}
+
+function collectSymbols(node: SyntheticNode, out: string[]): void {
+    switch (node.kind) {
+        case 'symbol':
+            if (!out.includes(node.symbol)) out.push(node.symbol);
+            break;
+        case 'negate':
+            collectSymbols(node.operand, out);
+            break;
+        case 'binary':
+            collectSymbols(node.left, out);
+            collectSymbols(node.right, out);
+            break;
+    }
+}
+
+function evaluateNode(node: SyntheticNode, values: Readonly<Record<string, number>>): number {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'symbol':
+            return values[node.symbol] ?? NaN;
+        case 'negate':
+            return -evaluateNode(node.operand, values);
+        case 'binary': {
+            const left = evaluateNode(node.left, values);
+            const right = evaluateNode(node.right, values);
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right === 0 ? NaN : left / right;
+            }
+        }
+    }
+}
+
+/**
+ * Candle of a synthetic symbol from component candles of the same open time.
+ * The expression is applied to opens and closes; highs and lows are not
+ * known for ratios and spreads, they are the extremes of the expression
+ * over the four prices. Volume is 0.
+ */
+export function combineCandles(synthetic: SyntheticSymbol, candles: Readonly<Record<string, Candle>>): Candle | null {
+    const fields = ['open', 'high', 'low', 'close'] as const;
+    const prices = fields.map(field => {
+        const values: Record<string, number> = {};
+        for (const component of synthetic.components) {
+            values[component] = candles[component][field];
+        }
+        return synthetic.evaluate(values);
+    });
+    if (prices.some(price => !isFinite(price))) return null;
+
+    return {
+        time: candles[synthetic.components[0]].time,
+        open: prices[0],
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close: prices[3],
+        volume: 0,
+    };
+}
+
+interface ComponentSubscription {
+    /** Keyed by the subscribed (synthetic or plain) symbol */
+    listeners: Map<string, (candle: Candle) => void>;
+}
+
+/**
+ * Where the candles of a component symbol come from
+ */
+export interface ResolvedComponent {
+    provider: ICandleProvider;
+    /** Symbol as the provider knows it, e.g. without a market suffix */
+    symbol: string;
+}
+
+export type CandleProviderResolver = (symbol: string) => ResolvedComponent;
+
+/** Suffix of perpetual futures in synthetic expressions, `BTCUSDT.P` */
+const PERPETUAL_SUFFIX = '.P';
+
+/**
+ * Resolver loading `.P` symbols from a futures provider, without the
+ * suffix, and every other symbol from the spot provider
+ */
+export function perpetualResolver(spot: ICandleProvider, futures: ICandleProvider): CandleProviderResolver {
+    return (symbol) => symbol.toUpperCase().endsWith(PERPETUAL_SUFFIX)
+        ? { provider: futures, symbol: symbol.slice(0, -PERPETUAL_SUFFIX.length) }
+        : { provider: spot, symbol };
+}
+
+/**
+ * Candle provider accepting synthetic symbols, built on top of a provider of
+ * the component symbols. Plain symbols are passed through.
+ *
+ * Components of other markets come from the provider the resolver returns for
+ * them; the source provider only serves the rest and reports the status.
+ *
+ * Component streams are shared, so a chart of BTCUSDT and a comparison with
+ * BTCUSDT/ETHUSDT open a single BTCUSDT subscription.
+ */
+export class SyntheticCandleProvider implements ICandleProvider {
+    private readonly _source: ICandleProvider;
+    private readonly _resolve: CandleProviderResolver;
+    private readonly _subscriptions: Map<string, ComponentSubscription> = new Map();
+
+    /**
+     * @param resolve - Provider of each symbol, default the source for every symbol
+     */
+    constructor(source: ICandleProvider, resolve?: CandleProviderResolver) {
+        this._source = source;
+        this._resolve = resolve ?? ((symbol) => ({ provider: source, symbol }));
+    }
+
+    get name(): string {
+        return this._source.name;
+    }
+
+    get marketType(): MarketType {
+        return this._source.marketType;
+    }
+
+    get status(): ProviderStatus {
+        return this._source.status;
+    }
+
+    connect(): Promise<void> {
+        return this._source.connect();
+    }
+
+    disconnect(): void {
+        this._source.disconnect();
+    }
+
+    onStatusChange(callback: StatusCallback): void {
+        this._source.onStatusChange(callback);
+    }
+
+    async getCandles(symbol: string, interval: CandleInterval, limit: number = 500, endTime?: number): Promise<Candle[]> {
+        const synthetic = parseSyntheticSymbol(symbol);
+        if (!synthetic) {
+            const resolved = this._resolve(symbol);
+            return resolved.provider.getCandles(resolved.symbol, interval, limit, endTime);
+        }
+
+        const histories = await Promise.all(
+            synthetic.components.map(component => {
+                const resolved = this._resolve(component);
+                return resolved.provider.getCandles(resolved.symbol, interval, limit, endTime);
+            })
+        );
+
+        // Inner join on open time, driven by the first component
+        const byTime = histories.map(candles => new Map(candles.map(candle => [candle.time, candle])));
+        const result: Candle[] = [];
+        for (const candle of histories[0]) {
+            const aligned: Record<string, Candle> = {};
+            let complete = true;
+            synthetic.components.forEach((component, i) => {
+                const match = byTime[i].get(candle.time);
+                if (match) aligned[component] = match;
+                else complete = false;
+            });
+            if (!complete) continue;
+
+            const combined = combineCandles(synthetic, aligned);
+            if (combined) result.push(combined);
+        }
+        return result.slice(-limit);
+    }
+
+    subscribeCandles(symbol: string, interval: CandleInterval, callback: CandleUpdateCallback): void {
+        const synthetic = parseSyntheticSymbol(symbol);
+        if (!synthetic) {
+            this._addListener(symbol, interval, symbol, callback);
+            return;
+        }
+
+        // Emit once every component has reported the newest bar
+        const latest: Record<string, Candle> = {};
+        for (const component of synthetic.components) {
+            this._addListener(component, interval, synthetic.expression, (candle) => {
+                latest[component] = candle;
+
+                const times = synthetic.components.map(c => latest[c]?.time);
+                if (times.some(time => time !== candle.time)) return;
+
+                const combined = combineCandles(synthetic, latest);
+                if (combined) callback(combined);
+            });
+        }
+    }
+
+    unsubscribeCandles(symbol: string, interval: CandleInterval): void {
+        const synthetic = parseSyntheticSymbol(symbol);
+        if (!synthetic) {
+            this._removeListener(symbol, interval, symbol);
+            return;
+        }
+        for (const component of synthetic.components) {
+            this._removeListener(component, interval, synthetic.expression);
+        }
+    }
+
+    // ========================================================================
+    // Helpers
+    // ========================================================================
+
+    private _addListener(component: string, interval: CandleInterval, owner: string, listener: (candle: Candle) => void): void {
+        const key = `${component}:${interval}`;
+        let subscription = this._subscriptions.get(key);
+
+        if (!subscription) {
+            const created: ComponentSubscription = { listeners: new Map() };
+            subscription = created;
+            this._subscriptions.set(key, created);
+            const resolved = this._resolve(component);
+            resolved.provider.subscribeCandles(resolved.symbol, interval, (candle) => {
+                created.listeners.forEach(fn => fn(candle));
+            });
+        }
+
+        subscription.listeners.set(owner, listener);
+    }
+
+    private _removeListener(component: string, interval: CandleInterval, owner: string): void {
+        const key = `${component}:${interval}`;
+        const subscription = this._subscriptions.get(key);
+        if (!subscription) return;
+
+        subscription.listeners.delete(owner);
+        if (subscription.listeners.size === 0) {
+            this._subscriptions.delete(key);
+            const resolved = this._resolve(component);
+            resolved.provider.unsubscribeCandles(resolved.symbol, interval);
+        }
+    }
+}
@@ -5,6 +5,8 @@
  * whether they are for crypto (Binance, Hyperliquid) or stocks (dxFeed, Matriks).
  */
 
+import { TickSizeTier } from '../helpers/price-format';
+
 // ============================================================================
 // Market Types
 // ============================================================================
@@ -93,6 +95,32 @@ export interface OpenInterest {
 
 export type OpenInterestCallback = (oi: OpenInterest) => void;
 
+// ============================================================================
+// Funding Rate Types (for perpetual swaps)
+// ============================================================================
+
+export interface FundingRate {
+    symbol: string;
+    rate: number;              // Rate of the funding period, 0.0001 is 0.01%
+    predictedRate?: number;    // Rate of the next period, where the exchange publishes it
+    fundingTime: number;       // Settlement time (Unix ms), the next one for live rates
+    timestamp: number;
+}
+
+export type FundingRateCallback = (funding: FundingRate) => void;
+
+// ============================================================================
+// Symbol Metadata (from the exchange info endpoints)
+// ============================================================================
+
+export interface SymbolMetadata {
+    tickSize: number;           // Smallest price step, e.g. 0.01 (lowest tier on tiered markets)
+    pricePrecision: number;     // Decimals prices are quoted with
+    quantityPrecision: number;  // Decimals of order quantities (lot step)
+    minMove: number;            // Tick size in units of the last price decimal (5 for 0.05 at 2 decimals)
+    tickSizeTiers?: TickSizeTier[]; // Price dependent tick sizes, ascending (BIST)
+}
+
 // ============================================================================
 // Provider Status
 // ============================================================================
@@ -138,7 +166,12 @@ export interface IOrderbookProvider extends IDataProvider {
  * Interface for providers that supply candle/OHLCV data
  */
 export interface ICandleProvider extends IDataProvider {
-    getCandles(symbol: string, interval: CandleInterval, limit?: number): Promise<Candle[]>;
+    /**
+     * Fetch historical candles, oldest first.
+     * @param endTime - Optional paging cursor (Unix ms). Only candles opened strictly
+     *                  before this time are returned; omit to fetch the most recent bars.
+     */
+    getCandles(symbol: string, interval: CandleInterval, limit?: number, endTime?: number): Promise<Candle[]>;
     subscribeCandles(symbol: string, interval: CandleInterval, callback: CandleUpdateCallback): void;
     unsubscribeCandles(symbol: string, interval: CandleInterval): void;
 }
@@ -159,8 +192,36 @@ export interface IDerivativesProvider extends IDataProvider {
     unsubscribeLiquidations(symbol: string): void;
 
     getOpenInterest(symbol: string): Promise<OpenInterest>;
+    /**
+     * Fetch historical open interest, oldest first. Optional, not every exchange keeps it.
+     * @param endTime - Optional paging cursor (Unix ms), as in getCandles
+     */
+    getOpenInterestHistory?(symbol: string, interval: CandleInterval, limit?: number, endTime?: number): Promise<OpenInterest[]>;
     subscribeOpenInterest(symbol: string, callback: OpenInterestCallback): void;
     unsubscribeOpenInterest(symbol: string): void;
+
+    /**
+     * Fetch past forced orders, oldest first. Optional, most exchanges only stream them.
+     * @param endTime - Optional paging cursor (Unix ms)
+     */
+    getLiquidationHistory?(symbol: string, limit?: number, endTime?: number): Promise<Liquidation[]>;
+
+    getFundingRate?(symbol: string): Promise<FundingRate>;
+    /**
+     * Fetch settled funding rates, oldest first
+     * @param endTime - Optional paging cursor (Unix ms)
+     */
+    getFundingRateHistory?(symbol: string, limit?: number, endTime?: number): Promise<FundingRate[]>;
+    subscribeFundingRate?(symbol: string, callback: FundingRateCallback): void;
+    unsubscribeFundingRate?(symbol: string): void;
+}
+
+/**
+ * Interface for providers that know the tick size and precision of their symbols
+ */
+export interface ISymbolMetadataProvider {
+    /** @returns null for unknown symbols */
+    getSymbolMetadata(symbol: string): Promise<SymbolMetadata | null>;
 }
 
 /**
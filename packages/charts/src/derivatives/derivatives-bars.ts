@@ -0,0 +1,109 @@
+/**
+ * Derivatives data mapped onto chart bars
+ */
+
+import { BarData } from '../model/data';
+import { OpenInterestSample } from '../model/liquidation-map';
+import { FundingRate, Liquidation, OpenInterest } from '../data-providers/types';
+
+/** Forced orders of one bar, notional in quote currency */
+export interface BarLiquidations {
+    longs: number;
+    shorts: number;
+    /** Volume weighted price of the long liquidations, NaN without any */
+    longPrice: number;
+    shortPrice: number;
+}
+
+/** Funding period assumed before two settlements are loaded */
+const DEFAULT_FUNDING_HOURS = 8;
+
+const HOUR = 3600000;
+
+/** Open interest in quote currency, in contracts where the provider has no value */
+export function toOpenInterestSample(oi: OpenInterest): OpenInterestSample {
+    return {
+        time: oi.timestamp,
+        value: oi.openInterestValue > 0 ? oi.openInterestValue : oi.openInterest,
+    };
+}
+
+/**
+ * Forced orders summed per bar; each goes to the last bar that opened at or
+ * before it, orders before the first bar are dropped
+ * @param liquidations - ascending by time
+ */
+export function liquidationsPerBar(bars: readonly BarData[], liquidations: readonly Liquidation[]): BarLiquidations[] {
+    const result: BarLiquidations[] = bars.map(() => ({ longs: 0, shorts: 0, longPrice: NaN, shortPrice: NaN }));
+    if (bars.length === 0) return result;
+
+    // Price times quantity per side, divided by the notional at the end
+    const longWeighted = new Float64Array(bars.length);
+    const shortWeighted = new Float64Array(bars.length);
+    let index = 0;
+    for (const liquidation of liquidations) {
+        if (liquidation.timestamp < bars[0].time) continue;
+        while (index + 1 < bars.length && bars[index + 1].time <= liquidation.timestamp) {
+            index++;
+        }
+
+        const notional = liquidation.price * liquidation.quantity;
+        if (liquidation.side === 'long') {
+            result[index].longs += notional;
+            longWeighted[index] += liquidation.price * notional;
+        } else {
+            result[index].shorts += notional;
+            shortWeighted[index] += liquidation.price * notional;
+        }
+    }
+
+    for (let i = 0; i < result.length; i++) {
+        const bar = result[i];
+        if (bar.longs > 0) bar.longPrice = longWeighted[i] / bar.longs;
+        if (bar.shorts > 0) bar.shortPrice = shortWeighted[i] / bar.shorts;
+    }
+    return result;
+}
+
+/**
+ * Hours between settlements, from the last two settled rates
+ * @param history - ascending by settlement time
+ */
+export function fundingIntervalHours(history: readonly FundingRate[]): number {
+    if (history.length < 2) return DEFAULT_FUNDING_HOURS;
+    const hours = (history[history.length - 1].fundingTime - history[history.length - 2].fundingTime) / HOUR;
+    return hours > 0 ? hours : DEFAULT_FUNDING_HOURS;
+}
+
+/**
+ * Funding rate of the period each bar closes in: the first settlement at or
+ * after the bar's close, the running rate for bars after the last one. NaN
+ * before the first loaded period.
+ * @param history - settled rates ascending by settlement time
+ * @param current - rate of the running period
+ */
+export function fundingPerBar(
+    bars: readonly BarData[],
+    history: readonly FundingRate[],
+    current: FundingRate | null
+): number[] {
+    const result: number[] = [];
+    const start = history.length > 0
+        ? history[0].fundingTime - fundingIntervalHours(history) * HOUR
+        : current ? current.fundingTime - DEFAULT_FUNDING_HOURS * HOUR : Infinity;
+
+    let next = 0;
+    for (let i = 0; i < bars.length; i++) {
+        const end = i + 1 < bars.length ? bars[i + 1].time : Infinity;
+        if (end <= start) {
+            result.push(NaN);
+            continue;
+        }
+        while (next < history.length && history[next].fundingTime < end) {
+            next++;
+        }
+        const settled = history[next];
+        result.push(settled ? settled.rate : current ? current.rate : NaN);
+    }
+    return result;
+}
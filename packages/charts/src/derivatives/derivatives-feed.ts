@@ -0,0 +1,391 @@
+/**
+ * Derivatives Feed - open interest, funding and liquidations of the chart symbol
+ *
+ * One feed per chart loads the derivatives data of the chart symbol from a
+ * provider and follows it live, shared by the liquidation map and the
+ * derivatives indicators. A stream is only requested while something
+ * retains it.
+ */
+
+import { ChartModel } from '../model/chart-model';
+import { Delegate } from '../helpers/delegate';
+import { toCandleInterval } from '../helpers/timeframe';
+import {
+    FundingRate,
+    IDerivativesProvider,
+    Liquidation,
+    OpenInterest,
+} from '../data-providers/types';
+
+export type DerivativesStream = 'openInterest' | 'funding' | 'liquidations';
+
+export interface DerivativesFeedOptions {
+    /** Records requested per history load (default: 500) */
+    limit?: number;
+}
+
+/** Live forced orders kept, the oldest are dropped beyond this */
+const MAX_LIQUIDATIONS = 50000;
+
+/** Live open interest samples within a minute replace each other */
+const SAMPLE_INTERVAL = 60000;
+
+const STREAM_LABELS: Record<DerivativesStream, string> = {
+    openInterest: 'open interest',
+    funding: 'funding rate',
+    liquidations: 'liquidations',
+};
+
+export class DerivativesFeed {
+    private readonly _model: ChartModel;
+
+    private _provider: IDerivativesProvider | null = null;
+    private _limit: number = 500;
+
+    /** Consumers of each stream */
+    private readonly _retained = new Map<DerivativesStream, number>();
+    /** Symbol each stream is followed live for */
+    private readonly _subscribed = new Map<DerivativesStream, string>();
+    /** Latest load of each stream, drops loads and updates from before a reload */
+    private readonly _requests = new Map<DerivativesStream, number>();
+    private _requestId: number = 0;
+
+    private _openInterest: OpenInterest[] = [];
+    private _fundingHistory: FundingRate[] = [];
+    private _funding: FundingRate | null = null;
+    private _liquidations: Liquidation[] = [];
+
+    private readonly _changed = new Delegate<DerivativesStream>();
+
+    constructor(model: ChartModel) {
+        this._model = model;
+    }
+
+    /** Fired with the stream that was loaded, updated or cleared */
+    get changed(): Delegate<DerivativesStream> {
+        return this._changed;
+    }
+
+    get provider(): IDerivativesProvider | null {
+        return this._provider;
+    }
+
+    /** Open interest samples, oldest first */
+    get openInterest(): readonly OpenInterest[] {
+        return this._openInterest;
+    }
+
+    /** Settled funding rates, oldest first */
+    get fundingHistory(): readonly FundingRate[] {
+        return this._fundingHistory;
+    }
+
+    /** Funding rate of the running period, null until loaded */
+    get funding(): FundingRate | null {
+        return this._funding;
+    }
+
+    /** Forced orders, oldest first */
+    get liquidations(): readonly Liquidation[] {
+        return this._liquidations;
+    }
+
+    // --- Data source ---
+
+    /** Provider the streams load from, retained streams are reloaded from it */
+    setProvider(provider: IDerivativesProvider | null, options: DerivativesFeedOptions = {}): void {
+        this._unsubscribeAll();
+        this._provider = provider;
+        this._limit = options.limit ?? 500;
+        this.reload();
+    }
+
+    /** Start loading a stream for a consumer, pair every call with release */
+    retain(stream: DerivativesStream): void {
+        const count = this._retained.get(stream) ?? 0;
+        this._retained.set(stream, count + 1);
+        if (count === 0) {
+            void this._load(stream);
+        }
+    }
+
+    /** Stop a stream once its last consumer released it */
+    release(stream: DerivativesStream): void {
+        const count = this._retained.get(stream) ?? 0;
+        if (count <= 0) return;
+        if (count > 1) {
+            this._retained.set(stream, count - 1);
+            return;
+        }
+        this._retained.delete(stream);
+        this._reset(stream);
+        this._changed.fire(stream);
+    }
+
+    /** Load the retained streams again, e.g. for a new symbol or timeframe */
+    reload(): void {
+        this._unsubscribeAll();
+        for (const stream of Object.keys(STREAM_LABELS) as DerivativesStream[]) {
+            this._reset(stream);
+            this._changed.fire(stream);
+            if (this._retained.has(stream)) {
+                void this._load(stream);
+            }
+        }
+    }
+
+    /**
+     * Load the history from before endTime (ms) of the retained streams,
+     * called when older bars of the main series were paged in
+     */
+    async loadHistory(endTime: number): Promise<void> {
+        const provider = this._provider;
+        const symbol = this._model.symbol;
+        if (!provider || !symbol) return;
+
+        const loads: Promise<void>[] = [];
+        const firstInterest = this._openInterest[0];
+        if (this._retained.has('openInterest') && provider.getOpenInterestHistory && firstInterest && firstInterest.timestamp > endTime) {
+            loads.push(this._loadOlder('openInterest',
+                () => provider.getOpenInterestHistory!(
+                    symbol, toCandleInterval(this._model.timeframe), this._limit, firstInterest.timestamp),
+                (history) => {
+                    const older = history.filter(oi => oi.timestamp < firstInterest.timestamp);
+                    this._openInterest = [...older, ...this._openInterest];
+                    return older.length > 0;
+                }));
+        }
+
+        const firstFunding = this._fundingHistory[0];
+        if (this._retained.has('funding') && provider.getFundingRateHistory && firstFunding && firstFunding.fundingTime > endTime) {
+            loads.push(this._loadOlder('funding',
+                () => provider.getFundingRateHistory!(symbol, this._limit, firstFunding.fundingTime),
+                (history) => {
+                    const older = history.filter(funding => funding.fundingTime < firstFunding.fundingTime);
+                    this._fundingHistory = [...older, ...this._fundingHistory];
+                    return older.length > 0;
+                }));
+        }
+
+        const firstLiquidation = this._liquidations[0];
+        if (this._retained.has('liquidations') && provider.getLiquidationHistory && firstLiquidation && firstLiquidation.timestamp > endTime) {
+            loads.push(this._loadOlder('liquidations',
+                () => provider.getLiquidationHistory!(symbol, this._limit, firstLiquidation.timestamp),
+                (history) => {
+                    const older = history.filter(liquidation => liquidation.timestamp < firstLiquidation.timestamp);
+                    this._liquidations = [...older, ...this._liquidations];
+                    return older.length > 0;
+                }));
+        }
+
+        await Promise.all(loads);
+    }
+
+    // --- Cleanup ---
+
+    destroy(): void {
+        this._unsubscribeAll();
+        this._requests.clear();
+        this._retained.clear();
+        this._changed.destroy();
+    }
+
+    // --- Private ---
+
+    private async _load(stream: DerivativesStream): Promise<void> {
+        const provider = this._provider;
+        const symbol = this._model.symbol;
+        if (!provider || !symbol) return;
+
+        const requestId = ++this._requestId;
+        this._requests.set(stream, requestId);
+        const current = () => this._requests.get(stream) === requestId;
+
+        try {
+            switch (stream) {
+                case 'openInterest': {
+                    const history = provider.getOpenInterestHistory
+                        ? await provider.getOpenInterestHistory(symbol, toCandleInterval(this._model.timeframe), this._limit)
+                        : [await provider.getOpenInterest(symbol)];
+                    if (!current()) return;
+                    this._openInterest = history.sort((a, b) => a.timestamp - b.timestamp);
+                    this._changed.fire(stream);
+
+                    provider.subscribeOpenInterest(symbol, (oi) => {
+                        if (current()) this._addOpenInterest(oi);
+                    });
+                    break;
+                }
+                case 'funding': {
+                    const [history, funding] = await Promise.all([
+                        provider.getFundingRateHistory?.(symbol, this._limit) ?? [],
+                        provider.getFundingRate?.(symbol) ?? null,
+                    ]);
+                    if (!current()) return;
+                    this._fundingHistory = history.sort((a, b) => a.fundingTime - b.fundingTime);
+                    this._funding = funding;
+                    this._changed.fire(stream);
+
+                    if (!provider.subscribeFundingRate) return;
+                    provider.subscribeFundingRate(symbol, (update) => {
+                        if (current()) this._updateFunding(update);
+                    });
+                    break;
+                }
+                case 'liquidations': {
+                    const history = provider.getLiquidationHistory
+                        ? await provider.getLiquidationHistory(symbol, this._limit)
+                        : [];
+                    if (!current()) return;
+                    this._liquidations = history.sort((a, b) => a.timestamp - b.timestamp);
+                    this._changed.fire(stream);
+
+                    provider.subscribeLiquidations(symbol, (liquidation) => {
+                        if (current()) this._addLiquidation(liquidation);
+                    });
+                    break;
+                }
+            }
+            this._subscribed.set(stream, symbol);
+        } catch (e) {
+            console.error(`Failed to load ${symbol} ${STREAM_LABELS[stream]}:`, e);
+        }
+    }
+
+    /**
+     * Fetch older records and prepend them unless the stream was reloaded
+     * meanwhile; prepend returns whether it added any
+     */
+    private async _loadOlder<T>(
+        stream: DerivativesStream,
+        fetchOlder: () => Promise<T[]>,
+        prepend: (history: T[]) => boolean
+    ): Promise<void> {
+        const requestId = this._requests.get(stream);
+        try {
+            const history = await fetchOlder();
+            if (this._requests.get(stream) !== requestId) return;
+            if (prepend(history)) {
+                this._changed.fire(stream);
+            }
+        } catch (e) {
+            console.error(`Failed to load ${this._model.symbol} ${STREAM_LABELS[stream]} history:`, e);
+        }
+    }
+
+    private _addOpenInterest(oi: OpenInterest): void {
+        const samples = this._openInterest;
+        const last = samples[samples.length - 1];
+        if (last && oi.timestamp <= last.timestamp) return;
+
+        if (last && Math.floor(last.timestamp / SAMPLE_INTERVAL) === Math.floor(oi.timestamp / SAMPLE_INTERVAL)) {
+            samples[samples.length - 1] = oi;
+        } else {
+            samples.push(oi);
+        }
+        this._changed.fire('openInterest');
+    }
+
+    /** A live rate with a later settlement time means the previous period settled */
+    private _updateFunding(funding: FundingRate): void {
+        const previous = this._funding;
+        if (previous && funding.fundingTime > previous.fundingTime) {
+            const last = this._fundingHistory[this._fundingHistory.length - 1];
+            if (!last || last.fundingTime < previous.fundingTime) {
+                this._fundingHistory.push({ ...previous, predictedRate: undefined, timestamp: previous.fundingTime });
+            }
+        }
+        this._funding = funding;
+        this._changed.fire('funding');
+    }
+
+    private _addLiquidation(liquidation: Liquidation): void {
+        this._liquidations.push(liquidation);
+        if (this._liquidations.length > MAX_LIQUIDATIONS) {
+            this._liquidations.splice(0, this._liquidations.length - MAX_LIQUIDATIONS);
+        }
+        this._changed.fire('liquidations');
+    }
+
+    /** Stop following a stream and drop its data */
+    private _reset(stream: DerivativesStream): void {
+        this._unsubscribe(stream);
+        this._requests.delete(stream);
+        switch (stream) {
+            case 'openInterest':
+                this._openInterest = [];
+                break;
+            case 'funding':
+                this._fundingHistory = [];
+                this._funding = null;
+                break;
+            case 'liquidations':
+                this._liquidations = [];
+                break;
+        }
+    }
+
+    private _unsubscribe(stream: DerivativesStream): void {
+        const symbol = this._subscribed.get(stream);
+        if (symbol === undefined) return;
+        this._subscribed.delete(stream);
+
+        const provider = this._provider;
+        if (!provider) return;
+        switch (stream) {
+            case 'openInterest':
+                provider.unsubscribeOpenInterest(symbol);
+                break;
+            case 'funding':
+                provider.unsubscribeFundingRate?.(symbol);
+                break;
+            case 'liquidations':
+                provider.unsubscribeLiquidations(symbol);
+                break;
+        }
+    }
+
+    private _unsubscribeAll(): void {
+        for (const stream of [...this._subscribed.keys()]) {
+            this._unsubscribe(stream);
+        }
+    }
+}
+
+/**
+ * Link of one consumer to a feed: retains the consumer's streams while set
+ * and calls back when one of them changed
+ */
+export class DerivativesFeedLink {
+    private _feed: DerivativesFeed | null = null;
+
+    constructor(
+        private readonly _streams: readonly DerivativesStream[],
+        private readonly _onChanged: () => void
+    ) { }
+
+    get feed(): DerivativesFeed | null {
+        return this._feed;
+    }
+
+    /** Switch to another feed, null releases the streams */
+    setFeed(feed: DerivativesFeed | null): void {
+        if (feed === this._feed) return;
+
+        if (this._feed) {
+            this._feed.changed.unsubscribe(this._handleChanged);
+            this._streams.forEach(stream => this._feed!.release(stream));
+        }
+        this._feed = feed;
+        if (feed) {
+            feed.changed.subscribe(this._handleChanged);
+            this._streams.forEach(stream => feed.retain(stream));
+        }
+    }
+
+    private readonly _handleChanged = (stream: DerivativesStream): void => {
+        if (this._streams.includes(stream)) {
+            this._onChanged();
+        }
+    };
+}
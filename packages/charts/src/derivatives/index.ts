@@ -0,0 +1,6 @@
+/**
+ * Derivatives module - open interest, funding and liquidations of the chart symbol
+ */
+
+export * from './derivatives-feed';
+export * from './derivatives-bars';
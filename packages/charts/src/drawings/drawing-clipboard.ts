@@ -0,0 +1,57 @@
+/**
+ * Drawing Clipboard - copied drawings for pasting on any symbol or timeframe
+ *
+ * Drawings are copied in serialized form, anchored to time and price, so
+ * they paste at the same place on another timeframe. On another symbol the
+ * prices are scaled by the ratio of the two symbols' prices when copied and
+ * pasted: a line 2% under the price stays 2% under the price.
+ */
+
+import { Drawing, SerializedDrawing } from './drawing';
+
+export class DrawingClipboard {
+    private _drawings: SerializedDrawing[] = [];
+    private _symbol: string | null = null;
+    private _referencePrice: number | null = null;
+
+    get isEmpty(): boolean {
+        return this._drawings.length === 0;
+    }
+
+    /**
+     * @param referencePrice - last price of the symbol, to scale prices when pasted on another symbol
+     */
+    copy(drawings: Drawing[], symbol: string, referencePrice: number | null): void {
+        this._drawings = drawings.map(drawing => JSON.parse(JSON.stringify({
+            ...drawing.toJSON(),
+            paneId: drawing.paneId ?? null,
+        })));
+        this._symbol = symbol;
+        this._referencePrice = referencePrice;
+    }
+
+    /**
+     * Copies of the drawings to paste on a symbol, for DrawingManager.addDrawings()
+     * @param referencePrice - last price of the symbol pasted on
+     */
+    contents(symbol: string, referencePrice: number | null): SerializedDrawing[] {
+        const drawings: SerializedDrawing[] = JSON.parse(JSON.stringify(this._drawings));
+        if (symbol === this._symbol || !this._referencePrice || !referencePrice) {
+            return drawings;
+        }
+
+        const ratio = referencePrice / this._referencePrice;
+        for (const drawing of drawings) {
+            for (const point of drawing.points) {
+                point.price *= ratio;
+            }
+        }
+        return drawings;
+    }
+
+    clear(): void {
+        this._drawings = [];
+        this._symbol = null;
+        this._referencePrice = null;
+    }
+}
@@ -2,7 +2,7 @@
  * Drawing Manager - Manages all drawings on the chart
  */
 
-import { Drawing, DrawingType, SerializedDrawing } from './drawing';
+import { Drawing, DrawingType, SerializedDrawing, generateDrawingId } from './drawing';
 import { TrendLineDrawing } from './trend-line-drawing';
 import { HorizontalLineDrawing } from './horizontal-line-drawing';
 import { VerticalLineDrawing } from './vertical-line-drawing';
@@ -43,11 +43,13 @@ import { LongPositionDrawing } from './long-position-drawing';
 import { ShortPositionDrawing } from './short-position-drawing';
 import { PriceRangeDrawing } from './price-range-drawing';
 import { DateRangeDrawing } from './date-range-drawing';
+import { FixedRangeVolumeProfileDrawing } from './fixed-range-volume-profile-drawing';
 import { DatePriceRangeDrawing } from './date-price-range-drawing';
 import { TextDrawing } from './text-drawing';
 import { CalloutDrawing } from './callout-drawing';
 import { PriceLabelDrawing } from './price-label-drawing';
 import { FlagMarkedDrawing } from './flag-marked-drawing';
+import { isVisibleOnTimeframe, normalizeTimeframeVisibility } from './timeframe-visibility';
 import { Delegate } from '../helpers/delegate';
 import { TimeScale } from '../model/time-scale';
 import { PriceScale } from '../model/price-scale';
@@ -70,6 +72,9 @@ export class DrawingManager {
     private _priceScale: PriceScale | null = null;
     private _activePaneId: string | null = null;
 
+    // Chart timeframe, for the timeframe visibility of drawings
+    private _timeframe: string = '';
+
     // Events
     private readonly _drawingsChanged = new Delegate<void>();
     private readonly _modeChanged = new Delegate<DrawingMode>();
@@ -103,6 +108,24 @@ export class DrawingManager {
         return this._selectedDrawing;
     }
 
+    /** All selected drawings, selectedDrawing last */
+    get selectedDrawings(): Drawing[] {
+        const selected = this.drawings.filter(drawing => drawing.state === 'selected' && drawing !== this._selectedDrawing);
+        if (this._selectedDrawing) {
+            selected.push(this._selectedDrawing);
+        }
+        return selected;
+    }
+
+    /** Object tree folders, in the order of their first drawing */
+    get groups(): string[] {
+        const groups = new Set<string>();
+        for (const drawing of this._drawings.values()) {
+            if (drawing.group) groups.add(drawing.group);
+        }
+        return Array.from(groups);
+    }
+
     get drawingsChanged(): Delegate<void> {
         return this._drawingsChanged;
     }
@@ -151,8 +174,7 @@ export class DrawingManager {
         this._isLocked = value;
         // If locked, clear selection
         if (value && this._selectedDrawing) {
-            this._selectedDrawing.state = 'complete';
-            this._selectedDrawing = null;
+            this._deselectAll();
             this._selectionChanged.fire(null);
         }
     }
@@ -193,7 +215,7 @@ export class DrawingManager {
         if (!this._timeScale || !this._priceScale) return;
 
         // Convert pixel to logical coordinates
-        const time = this._pixelToTime(x);
+        const time = this.pixelToTime(x);
         // Use snapped price if provided, otherwise convert from pixel
         const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
 
@@ -355,6 +377,9 @@ export class DrawingManager {
             case 'dateRange':
                 drawing = new DateRangeDrawing();
                 break;
+            case 'fixedRangeVolumeProfile':
+                drawing = new FixedRangeVolumeProfileDrawing();
+                break;
             case 'datePriceRange':
                 drawing = new DatePriceRangeDrawing();
                 break;
@@ -406,7 +431,7 @@ export class DrawingManager {
         if (!this._activeDrawing) return;
         if (!this._timeScale || !this._priceScale) return;
 
-        const time = this._pixelToTime(x);
+        const time = this.pixelToTime(x);
         const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
 
         if (time === null || price === null) return;
@@ -423,7 +448,7 @@ export class DrawingManager {
         if (!this._activeDrawing) return;
         if (!this._timeScale || !this._priceScale) return;
 
-        const time = this._pixelToTime(x);
+        const time = this.pixelToTime(x);
         const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
 
         if (time === null || price === null) return;
@@ -441,6 +466,7 @@ export class DrawingManager {
             this._activeDrawing.type === 'priceRange' ||
             this._activeDrawing.type === 'dateRange' ||
             this._activeDrawing.type === 'datePriceRange' ||
+            this._activeDrawing.type === 'fixedRangeVolumeProfile' ||
             this._activeDrawing.type === 'callout') {
 
             const drawing = this._activeDrawing as any;
@@ -631,10 +657,13 @@ export class DrawingManager {
         this._drawingsChanged.fire();
     }
 
-    /** Select a drawing at the given coordinates */
-    selectDrawingAt(x: number, y: number, paneId: string | null = null): Drawing | null {
-        for (const drawing of this._drawings.values()) {
-            if ((drawing.paneId ?? null) !== paneId) {
+    /**
+     * Select the topmost drawing at the given coordinates
+     * @param additive - add it to the selection (Ctrl/Shift-click) instead of replacing it
+     */
+    selectDrawingAt(x: number, y: number, paneId: string | null = null, additive: boolean = false): Drawing | null {
+        for (const drawing of this.drawings.reverse()) {
+            if ((drawing.paneId ?? null) !== paneId || !drawing.visible || !this.isShownOnTimeframe(drawing)) {
                 continue;
             }
 
@@ -644,7 +673,7 @@ export class DrawingManager {
             }
 
             // Update pixel points for accurate hit testing of position and range drawings
-            if (drawing.type === 'longPosition' || drawing.type === 'shortPosition' || drawing.type === 'priceRange' || drawing.type === 'dateRange' || drawing.type === 'datePriceRange') {
+            if (drawing.type === 'longPosition' || drawing.type === 'shortPosition' || drawing.type === 'priceRange' || drawing.type === 'dateRange' || drawing.type === 'datePriceRange' || drawing.type === 'fixedRangeVolumeProfile') {
                 if (drawing.points.length >= 2) {
                     const p1 = drawing.points[0];
                     const p2 = drawing.points[1];
@@ -659,18 +688,19 @@ export class DrawingManager {
             }
 
             if (drawing.hitTest(x, y, 8)) {
-                this._selectedDrawing = drawing;
-                drawing.state = 'selected';
-                this._selectionChanged.fire(drawing);
+                // Clicking one of several selected drawings keeps them selected, to drag them together
+                if (!additive && drawing.state !== 'selected') {
+                    this._deselectAll();
+                }
+                this._select(drawing);
                 this._drawingsChanged.fire();
                 return drawing;
             }
         }
 
         // No drawing found, clear selection
-        if (this._selectedDrawing) {
-            this._selectedDrawing.state = 'complete';
-            this._selectedDrawing = null;
+        if (this._selectedDrawing && !additive) {
+            this._deselectAll();
             this._selectionChanged.fire(null);
             this._drawingsChanged.fire();
         }
@@ -678,6 +708,112 @@ export class DrawingManager {
         return null;
     }
 
+    /**
+     * Select drawings, e.g. from the object tree; the last one becomes selectedDrawing
+     */
+    selectDrawings(ids: string[]): void {
+        this._deselectAll();
+        const drawings = ids.map(id => this._drawings.get(id)).filter((drawing): drawing is Drawing => !!drawing);
+        drawings.forEach(drawing => this._select(drawing));
+        if (drawings.length === 0) {
+            this._selectionChanged.fire(null);
+        }
+        this._drawingsChanged.fire();
+    }
+
+    getDrawing(id: string): Drawing | null {
+        return this._drawings.get(id) ?? null;
+    }
+
+    /** Name shown in the object tree, an empty name resets it to the type's name */
+    setDrawingName(id: string, name: string): void {
+        const drawing = this._drawings.get(id);
+        if (!drawing) return;
+        drawing.name = name.trim() || undefined;
+        this._drawingsChanged.fire();
+    }
+
+    setDrawingsVisible(ids: string[], visible: boolean): void {
+        this._updateDrawings(ids, drawing => {
+            drawing.visible = visible;
+            // A hidden drawing can't be clicked, it shouldn't stay selected either
+            if (!visible && drawing.state === 'selected') {
+                drawing.state = 'complete';
+                if (this._selectedDrawing === drawing) {
+                    this._selectedDrawing = null;
+                    this._selectionChanged.fire(null);
+                }
+            }
+        });
+    }
+
+    /** Locked drawings can be selected but not moved or edited on the chart */
+    setDrawingsLocked(ids: string[], locked: boolean): void {
+        this._updateDrawings(ids, drawing => drawing.locked = locked);
+    }
+
+    /**
+     * Put drawings in an object tree folder
+     * @param group - folder name, null takes them out of their folder
+     */
+    setDrawingsGroup(ids: string[], group: string | null): void {
+        const name = group?.trim() || undefined;
+        this._updateDrawings(ids, drawing => drawing.group = name);
+    }
+
+    /** Rename a folder, a folder of that name already there is merged */
+    renameGroup(group: string, name: string): void {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed === group) return;
+        this.setDrawingsGroup(this._groupIds(group), trimmed);
+    }
+
+    /** Drawings in a folder, in draw order */
+    getGroupDrawings(group: string): Drawing[] {
+        return this.drawings.filter(drawing => drawing.group === group);
+    }
+
+    /**
+     * Draw on top of all other drawings, keeping their order among each other
+     */
+    bringToFront(ids: string[]): void {
+        const moved = new Set(ids);
+        const drawings = this.drawings;
+        this._reorder([
+            ...drawings.filter(drawing => !moved.has(drawing.id)),
+            ...drawings.filter(drawing => moved.has(drawing.id)),
+        ]);
+    }
+
+    /**
+     * Draw below all other drawings, keeping their order among each other
+     */
+    sendToBack(ids: string[]): void {
+        const moved = new Set(ids);
+        const drawings = this.drawings;
+        this._reorder([
+            ...drawings.filter(drawing => moved.has(drawing.id)),
+            ...drawings.filter(drawing => !moved.has(drawing.id)),
+        ]);
+    }
+
+    deleteDrawings(ids: string[]): void {
+        let deleted = false;
+        for (const id of ids) {
+            const drawing = this._drawings.get(id);
+            if (!drawing) continue;
+            this._drawings.delete(id);
+            deleted = true;
+            if (this._selectedDrawing === drawing) {
+                this._selectedDrawing = null;
+                this._selectionChanged.fire(null);
+            }
+        }
+        if (deleted) {
+            this._drawingsChanged.fire();
+        }
+    }
+
     /** Delete a drawing */
     deleteDrawing(id: string): void {
         const drawing = this._drawings.get(id);
@@ -691,11 +827,9 @@ export class DrawingManager {
         }
     }
 
-    /** Delete selected drawing */
+    /** Delete the selected drawings */
     deleteSelected(): void {
-        if (this._selectedDrawing) {
-            this.deleteDrawing(this._selectedDrawing.id);
-        }
+        this.deleteDrawings(this.selectedDrawings.map(drawing => drawing.id));
     }
 
     /** Delete all drawings */
@@ -761,7 +895,7 @@ export class DrawingManager {
         this._drawingsChanged.fire();
     }
 
-    /** Move the selected drawing by a pixel delta */
+    /** Move the selected drawings by a pixel delta, locked ones stay */
     moveDrawing(deltaX: number, deltaY: number): void {
         if (!this._selectedDrawing) return;
         if (!this._timeScale || !this._priceScale) return;
@@ -792,9 +926,12 @@ export class DrawingManager {
                 const priceDelta = price2 - price1;
 
                 // Apply delta to all points
-                for (const point of this._selectedDrawing.points) {
-                    point.time += timeDelta;
-                    point.price += priceDelta;
+                for (const drawing of this.selectedDrawings) {
+                    if (drawing.locked) continue;
+                    for (const point of drawing.points) {
+                        point.time += timeDelta;
+                        point.price += priceDelta;
+                    }
                 }
 
                 this._drawingsChanged.fire();
@@ -811,13 +948,41 @@ export class DrawingManager {
         this._timestamps = timestamps;
     }
 
+    get timeframe(): string {
+        return this._timeframe;
+    }
+
+    /**
+     * Chart timeframe; drawings not shown on it are left out of
+     * getDrawingsForPane() and can't be selected
+     */
+    setTimeframe(timeframe: string): void {
+        if (timeframe === this._timeframe) return;
+        this._timeframe = timeframe;
+
+        const hidden = this.selectedDrawings.filter(drawing => !this.isShownOnTimeframe(drawing));
+        if (hidden.length > 0) {
+            hidden.forEach(drawing => drawing.state = 'complete');
+            if (this._selectedDrawing && hidden.includes(this._selectedDrawing)) {
+                this._selectedDrawing = null;
+                this._selectionChanged.fire(null);
+            }
+        }
+        this._drawingsChanged.fire();
+    }
+
+    /** Whether the timeframe visibility of the drawing includes the chart timeframe */
+    isShownOnTimeframe(drawing: Drawing): boolean {
+        return isVisibleOnTimeframe(drawing.timeframeVisibility, this._timeframe);
+    }
+
     /** Move a specific control point of the selected drawing to new pixel position */
     moveControlPoint(pointIndex: number, x: number, y: number, snappedPrice?: number): void {
-        if (!this._selectedDrawing) return;
+        if (!this._selectedDrawing || this._selectedDrawing.locked) return;
 
         if (this._selectedDrawing.type === 'longPosition') {
             const posDrawing = this._selectedDrawing as LongPositionDrawing;
-            const time = this._pixelToTime(x);
+            const time = this.pixelToTime(x);
             const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
             if (time === null || price === null) return;
 
@@ -849,7 +1014,7 @@ export class DrawingManager {
 
         if (this._selectedDrawing.type === 'shortPosition') {
             const posDrawing = this._selectedDrawing as ShortPositionDrawing;
-            const time = this._pixelToTime(x);
+            const time = this.pixelToTime(x);
             const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
             if (time === null || price === null) return;
 
@@ -885,7 +1050,7 @@ export class DrawingManager {
 
             if (pointIndex < 0 || pointIndex >= channel.points.length) return;
 
-            const time = this._pixelToTime(x);
+            const time = this.pixelToTime(x);
             const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
             if (time === null || price === null) return;
 
@@ -930,7 +1095,7 @@ export class DrawingManager {
         if (pointIndex < 0 || pointIndex >= this._selectedDrawing.points.length) return;
 
         // Convert pixel to logical coordinates
-        const time = this._pixelToTime(x);
+        const time = this.pixelToTime(x);
         const price = snappedPrice !== undefined ? snappedPrice : this._pixelToPrice(y);
         if (time === null || price === null) return;
 
@@ -984,7 +1149,7 @@ export class DrawingManager {
     }
 
     /** Convert pixel X to time (timestamp) */
-    private _pixelToTime(x: number): number | null {
+    pixelToTime(x: number): number | null {
         if (!this._timeScale || this._timestamps.length === 0) return null;
 
         // Get float bar index from X coordinate (for smooth dragging)
@@ -1126,7 +1291,7 @@ export class DrawingManager {
             if (drawing.state === 'creating') continue;
             serialized.push({
                 ...drawing.toJSON(),
-                paneId: drawing.paneId ?? null,
+                ...this._treeProperties(drawing),
             });
         }
 
@@ -1136,162 +1301,251 @@ export class DrawingManager {
     /** Deserialize drawings from JSON and add them to the chart */
     deserialize(data: SerializedDrawing[]): void {
         // Clear all existing drawings first
+        const hadSelection = this._selectedDrawing !== null;
         this._drawings.clear();
         this._activeDrawing = null;
         this._selectedDrawing = null;
+        if (hadSelection) {
+            this._selectionChanged.fire(null);
+        }
 
         for (const item of data) {
-            let drawing: Drawing | null = null;
-
-            switch (item.type) {
-                case 'trendLine':
-                    drawing = TrendLineDrawing.fromJSON(item);
-                    break;
-                case 'horizontalLine':
-                    drawing = HorizontalLineDrawing.fromJSON(item);
-                    break;
-                case 'verticalLine':
-                    drawing = VerticalLineDrawing.fromJSON(item);
-                    break;
-                case 'fibRetracement':
-                    drawing = FibRetracementDrawing.fromJSON(item);
-                    break;
-                case 'ray':
-                    drawing = RayDrawing.fromJSON(item);
-                    break;
-                case 'infoLine':
-                    drawing = InfoLineDrawing.fromJSON(item);
-                    break;
-                case 'extendedLine':
-                    drawing = ExtendedLineDrawing.fromJSON(item);
-                    break;
-                case 'trendAngle':
-                    drawing = TrendAngleDrawing.fromJSON(item);
-                    break;
-                case 'horizontalRay':
-                    drawing = HorizontalRayDrawing.fromJSON(item);
-                    break;
-                case 'crossLine':
-                    drawing = CrossLineDrawing.fromJSON(item);
-                    break;
-                case 'sticker':
-                    drawing = StickerDrawing.fromJSON(item as any);
-                    break;
-                case 'parallelChannel':
-                    drawing = ParallelChannelDrawing.fromJSON(item);
-                    break;
-                case 'regressionTrend':
-                    drawing = RegressionTrendDrawing.fromJSON(item);
-                    break;
-                case 'fibExtension':
-                    drawing = FibExtensionDrawing.fromJSON(item);
-                    break;
-                case 'fibChannel':
-                    drawing = FibChannelDrawing.fromJSON(item);
-                    break;
-                case 'brush':
-                    drawing = BrushDrawing.fromJSON(item);
-                    break;
-                case 'highlighter':
-                    drawing = HighlighterDrawing.fromJSON(item);
-                    break;
-                case 'arrow':
-                    drawing = ArrowDrawing.fromJSON(item);
-                    break;
-                case 'arrowMarker':
-                    drawing = ArrowMarkerDrawing.fromJSON(item);
-                    break;
-                case 'arrowMarkedUp':
-                case 'arrowMarkedDown':
-                    drawing = ArrowIconDrawing.fromJSON(item);
-                    break;
-                case 'rectangle':
-                    drawing = RectangleDrawing.fromJSON(item);
-                    break;
-                case 'rotatedRectangle':
-                    drawing = RotatedRectangleDrawing.fromJSON(item);
-                    break;
-                case 'ellipse':
-                    drawing = EllipseDrawing.fromJSON(item);
-                    break;
-                case 'triangle':
-                    drawing = TriangleDrawing.fromJSON(item);
-                    break;
-                case 'arc':
-                    drawing = ArcDrawing.fromJSON(item);
-                    break;
-                case 'path':
-                    drawing = PathDrawing.fromJSON(item);
-                    break;
-                case 'circle':
-                    drawing = CircleDrawing.fromJSON(item);
-                    break;
-                case 'polyline':
-                    drawing = PolylineDrawing.fromJSON(item);
-                    break;
-                case 'curve':
-                    drawing = CurveDrawing.fromJSON(item);
-                    break;
-                case 'xabcdPattern':
-                    drawing = XABCDPatternDrawing.fromJSON(item);
-                    break;
-                case 'elliotImpulse':
-                    drawing = ElliottImpulseDrawing.fromJSON(item);
-                    break;
-                case 'elliotCorrection':
-                    drawing = ElliottCorrectionDrawing.fromJSON(item);
-                    break;
-                case 'threeDrives':
-                    drawing = ThreeDrivesDrawing.fromJSON(item);
-                    break;
-                case 'headShoulders':
-                    drawing = HeadShouldersDrawing.fromJSON(item);
-                    break;
-                case 'abcd':
-                    drawing = ABCDPatternDrawing.fromJSON(item);
-                    break;
-                case 'trianglePattern':
-                    drawing = TrianglePatternDrawing.fromJSON(item);
-                    break;
-                case 'longPosition':
-                    drawing = LongPositionDrawing.fromJSON(item);
-                    break;
-                case 'shortPosition':
-                    drawing = ShortPositionDrawing.fromJSON(item);
-                    break;
-                case 'priceRange':
-                    drawing = PriceRangeDrawing.fromJSON(item);
-                    break;
-                case 'dateRange':
-                    drawing = DateRangeDrawing.fromJSON(item);
-                    break;
-                case 'datePriceRange':
-                    drawing = DatePriceRangeDrawing.fromJSON(item);
-                    break;
-                case 'text':
-                    drawing = TextDrawing.fromJSON(item);
-                    break;
-                case 'callout':
-                    drawing = CalloutDrawing.fromJSON(item);
-                    break;
-                case 'priceLabel':
-                    drawing = PriceLabelDrawing.fromJSON(item);
-                    break;
-                case 'flagMarked':
-                    drawing = FlagMarkedDrawing.fromJSON(item);
-                    break;
-                // Add more types as needed...
-                default:
-                    console.warn(`Unknown drawing type: ${item.type}`);
-                    continue;
+            const drawing = this._drawingFromJSON(item);
+            if (drawing) {
+                this._drawings.set(drawing.id, drawing);
             }
+        }
 
+        this._drawingsChanged.fire();
+    }
+
+    /**
+     * Add copies of serialized drawings with new IDs, e.g. pasted ones, and
+     * select them; the last one becomes selectedDrawing
+     * @returns the added drawings
+     */
+    addDrawings(data: SerializedDrawing[]): Drawing[] {
+        const added: Drawing[] = [];
+        for (const item of data) {
+            const drawing = this._drawingFromJSON({ ...item, id: generateDrawingId(), state: 'complete' });
             if (drawing) {
-                drawing.paneId = item.paneId ?? null;
                 this._drawings.set(drawing.id, drawing);
+                added.push(drawing);
             }
         }
+        if (added.length === 0) return added;
 
+        this._deselectAll();
+        added.forEach(drawing => this._select(drawing));
+        this._drawingsChanged.fire();
+        return added;
+    }
+
+    /**
+     * Copy the selected drawings in place and select the copies, so a drag
+     * moves the copies and leaves the originals (Alt-drag)
+     * @returns the copy of selectedDrawing
+     */
+    cloneSelected(): Drawing | null {
+        if (!this._selectedDrawing) return null;
+        const copies = this.addDrawings(this.selectedDrawings.map(drawing => this.serializeDrawing(drawing)));
+        return copies[copies.length - 1] ?? null;
+    }
+
+    /** Deep copy of one drawing as serialize() stores it */
+    serializeDrawing(drawing: Drawing): SerializedDrawing {
+        return JSON.parse(JSON.stringify({
+            ...drawing.toJSON(),
+            ...this._treeProperties(drawing),
+        }));
+    }
+
+    /**
+     * Change serialized properties of a drawing, e.g. apply a template. The
+     * drawing is rebuilt from its serialized form, so anything fromJSON reads
+     * can be changed; the rebuilt drawing keeps the ID and the selection.
+     * @returns the rebuilt drawing
+     */
+    applyProperties(id: string, properties: Partial<SerializedDrawing>): Drawing | null {
+        const current = this._drawings.get(id);
+        if (!current) return null;
+
+        const drawing = this._drawingFromJSON({
+            ...this.serializeDrawing(current),
+            ...JSON.parse(JSON.stringify(properties)),
+            id,
+            type: current.type,
+        });
+        if (!drawing) return null;
+
+        drawing.state = current.state;
+        this._drawings.set(id, drawing);
+        if (this._selectedDrawing === current) {
+            this._selectedDrawing = drawing;
+            this._selectionChanged.fire(drawing);
+        }
+        this._drawingsChanged.fire();
+        return drawing;
+    }
+
+    /** Drawing instance of serialized data, null for unknown types */
+    private _drawingFromJSON(item: SerializedDrawing): Drawing | null {
+        const drawing = this._createFromJSON(item);
+        if (drawing) {
+            drawing.paneId = item.paneId ?? null;
+            drawing.name = item.name;
+            drawing.group = item.group;
+            drawing.timeframeVisibility = normalizeTimeframeVisibility(item.timeframeVisibility);
+        }
+        return drawing;
+    }
+
+    private _createFromJSON(item: SerializedDrawing): Drawing | null {
+        switch (item.type) {
+            case 'trendLine':
+                return TrendLineDrawing.fromJSON(item);
+            case 'horizontalLine':
+                return HorizontalLineDrawing.fromJSON(item);
+            case 'verticalLine':
+                return VerticalLineDrawing.fromJSON(item);
+            case 'fibRetracement':
+                return FibRetracementDrawing.fromJSON(item);
+            case 'ray':
+                return RayDrawing.fromJSON(item);
+            case 'infoLine':
+                return InfoLineDrawing.fromJSON(item);
+            case 'extendedLine':
+                return ExtendedLineDrawing.fromJSON(item);
+            case 'trendAngle':
+                return TrendAngleDrawing.fromJSON(item);
+            case 'horizontalRay':
+                return HorizontalRayDrawing.fromJSON(item);
+            case 'crossLine':
+                return CrossLineDrawing.fromJSON(item);
+            case 'sticker':
+                return StickerDrawing.fromJSON(item as any);
+            case 'parallelChannel':
+                return ParallelChannelDrawing.fromJSON(item);
+            case 'regressionTrend':
+                return RegressionTrendDrawing.fromJSON(item);
+            case 'fibExtension':
+                return FibExtensionDrawing.fromJSON(item);
+            case 'fibChannel':
+                return FibChannelDrawing.fromJSON(item);
+            case 'brush':
+                return BrushDrawing.fromJSON(item);
+            case 'highlighter':
+                return HighlighterDrawing.fromJSON(item);
+            case 'arrow':
+                return ArrowDrawing.fromJSON(item);
+            case 'arrowMarker':
+                return ArrowMarkerDrawing.fromJSON(item);
+            case 'arrowMarkedUp':
+            case 'arrowMarkedDown':
+                return ArrowIconDrawing.fromJSON(item);
+            case 'rectangle':
+                return RectangleDrawing.fromJSON(item);
+            case 'rotatedRectangle':
+                return RotatedRectangleDrawing.fromJSON(item);
+            case 'ellipse':
+                return EllipseDrawing.fromJSON(item);
+            case 'triangle':
+                return TriangleDrawing.fromJSON(item);
+            case 'arc':
+                return ArcDrawing.fromJSON(item);
+            case 'path':
+                return PathDrawing.fromJSON(item);
+            case 'circle':
+                return CircleDrawing.fromJSON(item);
+            case 'polyline':
+                return PolylineDrawing.fromJSON(item);
+            case 'curve':
+                return CurveDrawing.fromJSON(item);
+            case 'xabcdPattern':
+                return XABCDPatternDrawing.fromJSON(item);
+            case 'elliotImpulse':
+                return ElliottImpulseDrawing.fromJSON(item);
+            case 'elliotCorrection':
+                return ElliottCorrectionDrawing.fromJSON(item);
+            case 'threeDrives':
+                return ThreeDrivesDrawing.fromJSON(item);
+            case 'headShoulders':
+                return HeadShouldersDrawing.fromJSON(item);
+            case 'abcd':
+                return ABCDPatternDrawing.fromJSON(item);
+            case 'trianglePattern':
+                return TrianglePatternDrawing.fromJSON(item);
+            case 'longPosition':
+                return LongPositionDrawing.fromJSON(item);
+            case 'shortPosition':
+                return ShortPositionDrawing.fromJSON(item);
+            case 'priceRange':
+                return PriceRangeDrawing.fromJSON(item);
+            case 'dateRange':
+                return DateRangeDrawing.fromJSON(item);
+            case 'fixedRangeVolumeProfile':
+                return FixedRangeVolumeProfileDrawing.fromJSON(item);
+            case 'datePriceRange':
+                return DatePriceRangeDrawing.fromJSON(item);
+            case 'text':
+                return TextDrawing.fromJSON(item);
+            case 'callout':
+                return CalloutDrawing.fromJSON(item);
+            case 'priceLabel':
+                return PriceLabelDrawing.fromJSON(item);
+            case 'flagMarked':
+                return FlagMarkedDrawing.fromJSON(item);
+            // Add more types as needed...
+            default:
+                console.warn(`Unknown drawing type: ${item.type}`);
+                return null;
+        }
+    }
+
+    /** Make a drawing the selectedDrawing, keeping other selected drawings */
+    private _select(drawing: Drawing): void {
+        this._selectedDrawing = drawing;
+        drawing.state = 'selected';
+        this._selectionChanged.fire(drawing);
+    }
+
+    private _deselectAll(): void {
+        for (const drawing of this._drawings.values()) {
+            if (drawing.state === 'selected') drawing.state = 'complete';
+        }
+        this._selectedDrawing = null;
+    }
+
+    /** Drawing properties kept by the manager rather than the drawing's toJSON() */
+    private _treeProperties(drawing: Drawing): Partial<SerializedDrawing> {
+        return {
+            paneId: drawing.paneId ?? null,
+            ...(drawing.name ? { name: drawing.name } : {}),
+            ...(drawing.group ? { group: drawing.group } : {}),
+            ...(drawing.timeframeVisibility ? { timeframeVisibility: drawing.timeframeVisibility } : {}),
+        };
+    }
+
+    private _updateDrawings(ids: string[], update: (drawing: Drawing) => void): void {
+        let updated = false;
+        for (const id of ids) {
+            const drawing = this._drawings.get(id);
+            if (!drawing) continue;
+            update(drawing);
+            updated = true;
+        }
+        if (updated) {
+            this._drawingsChanged.fire();
+        }
+    }
+
+    private _groupIds(group: string): string[] {
+        return this.getGroupDrawings(group).map(drawing => drawing.id);
+    }
+
+    /** Replace the draw order, later drawings are drawn on top */
+    private _reorder(drawings: Drawing[]): void {
+        this._drawings = new Map(drawings.map(drawing => [drawing.id, drawing]));
         this._drawingsChanged.fire();
     }
 
@@ -1300,12 +1554,15 @@ export class DrawingManager {
         return this._drawings.size > 0;
     }
 
+    /** Drawings of a pane that are shown on the chart timeframe */
     getDrawingsForPane(paneId: string | null): Drawing[] {
-        return this.drawings.filter((drawing) => (drawing.paneId ?? null) === paneId);
+        return this.drawings.filter((drawing) =>
+            (drawing.paneId ?? null) === paneId && this.isShownOnTimeframe(drawing));
     }
 
     /**
-     * Apply magnet snap to coordinate - snaps to nearest OHLC value within threshold
+     * Apply magnet snap to coordinate - snaps to nearest OHLC value within threshold,
+     * otherwise to the nearest valid tick when the price scale knows the tick size
      * Returns adjusted y coordinate (pixel), or original y if no snap
      */
     applyMagnet(x: number, y: number, barData: { time: number; open: number; high: number; low: number; close: number }[]): { x: number; y: number; snapped: boolean; snappedPrice?: number; snappedX?: number } {
@@ -1318,7 +1575,7 @@ export class DrawingManager {
         }
 
         // Find the bar at this x position
-        const time = this._pixelToTime(x);
+        const time = this.pixelToTime(x);
         if (time === null) {
             return { x, y, snapped: false };
         }
@@ -1376,7 +1633,18 @@ export class DrawingManager {
             return { x: snappedX, y: closestOhlc.pixelY, snapped: true, snappedPrice: closestOhlc.price, snappedX };
         }
 
-        return { x: snappedX, y, snapped: false, snappedX };
+        return this._snapToTick(snappedX, y);
+    }
+
+    private _snapToTick(x: number, y: number): { x: number; y: number; snapped: boolean; snappedPrice?: number; snappedX?: number } {
+        const price = this._pixelToPrice(y);
+        if (price === null || !this._priceScale?.options.priceFormat) {
+            return { x, y, snapped: false, snappedX: x };
+        }
+
+        const snappedPrice = this._priceScale.roundToTick(price);
+        const snappedY = this.priceToPixel(snappedPrice) ?? y;
+        return { x, y: snappedY, snapped: true, snappedPrice, snappedX: x };
     }
 
     // --- Cleanup ---
@@ -2,6 +2,10 @@
  * Drawing System - Base types and interfaces
  */
 
+import { TimeframeVisibility } from './timeframe-visibility';
+import { VolumeProfileOptions } from '../model/volume-profile';
+import { VolumeProfileStyle } from '../renderers/volume-profile-renderer';
+
 /** Logical point on the chart (time + price) */
 export interface DrawingPoint {
     time: number;      // Unix timestamp in milliseconds
@@ -62,6 +66,7 @@ export type DrawingType =
     | 'priceRange'
     | 'dateRange'
     | 'datePriceRange'
+    | 'fixedRangeVolumeProfile'
     | 'text'
     | 'callout'
     | 'priceLabel'
@@ -94,6 +99,12 @@ export interface SerializedDrawing {
     visible: boolean;
     locked: boolean;
     paneId?: string | null;
+    /** Name given in the object tree */
+    name?: string;
+    /** Object tree folder */
+    group?: string;
+    /** Timeframes the drawing is shown on, every timeframe when not set */
+    timeframeVisibility?: Partial<TimeframeVisibility>;
     // Type-specific properties
     extendLeft?: boolean;
     extendRight?: boolean;
@@ -122,6 +133,8 @@ export interface SerializedDrawing {
     lossColor?: string;
     entryColor?: string;
     fillColor?: string;
+    // Volume profile properties
+    volumeProfile?: Partial<VolumeProfileOptions & VolumeProfileStyle> & { lowerTimeframe?: string; widthPercent?: number };
 }
 
 /** Base drawing interface */
@@ -134,6 +147,12 @@ export interface Drawing {
     visible: boolean;
     locked: boolean;
     paneId?: string | null;
+    /** Name given in the object tree, the type's name when not set */
+    name?: string;
+    /** Object tree folder */
+    group?: string;
+    /** Timeframes the drawing is shown on, every timeframe when not set */
+    timeframeVisibility?: TimeframeVisibility;
 
     /** Add a point to the drawing */
     addPoint(time: number, price: number): void;
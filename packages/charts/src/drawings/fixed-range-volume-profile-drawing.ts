@@ -0,0 +1,371 @@
+/**
+ * Fixed Range Volume Profile Drawing Implementation
+ *
+ * A 2-point drawing tool showing the volume profile of the bars between two
+ * times, drawn from the left edge of the range with the POC and value area
+ * lines across it.
+ *
+ * Points:
+ * - Point 0: Start point (time1, price1)
+ * - Point 1: End point (time2, price2)
+ */
+
+import {
+    Drawing,
+    DrawingPoint,
+    DrawingStyle,
+    DrawingState,
+    DrawingType,
+    DEFAULT_DRAWING_STYLE,
+    generateDrawingId,
+    SerializedDrawing
+} from './drawing';
+
+import {
+    DrawingSettingsProvider,
+    DrawingSettingsConfig,
+    AttributeBarItem,
+    createStyleTab,
+    createVisibilityTab,
+    colorRow,
+    checkboxRow,
+    numberRow,
+    selectRow,
+    toggleColorRow,
+} from './drawing-settings-config';
+
+import { BarData } from '../model/data';
+import {
+    VolumeProfile,
+    VolumeProfileOptions,
+    DEFAULT_VOLUME_PROFILE_OPTIONS,
+    buildVolumeProfile,
+} from '../model/volume-profile';
+import { VolumeProfileStyle, DEFAULT_VOLUME_PROFILE_STYLE } from '../renderers/volume-profile-renderer';
+
+export interface FixedRangeVolumeProfileOptions extends Partial<VolumeProfileOptions>, Partial<VolumeProfileStyle> {
+    /** Timeframe bars are distributed with: 'auto', '' for none, or e.g. '1m' */
+    lowerTimeframe?: string;
+    /** Width of the largest row, percent of the range */
+    widthPercent?: number;
+}
+
+export class FixedRangeVolumeProfileDrawing implements Drawing, DrawingSettingsProvider {
+    readonly id: string;
+    readonly type: DrawingType = 'fixedRangeVolumeProfile';
+
+    points: DrawingPoint[] = [];
+    style: DrawingStyle;
+    state: DrawingState = 'creating';
+    visible: boolean = true;
+    locked: boolean = false;
+
+    private _profileOptions: VolumeProfileOptions = { ...DEFAULT_VOLUME_PROFILE_OPTIONS };
+    private _profileStyle: VolumeProfileStyle = { ...DEFAULT_VOLUME_PROFILE_STYLE };
+    private _lowerTimeframe: string = 'auto';
+    private _widthPercent: number = 30;
+
+    private _profile: VolumeProfile | null = null;
+    /** Bars and options the profile was built from */
+    private _profileKey: string = '';
+
+    // Cached pixel coordinates for hit testing
+    private _pixelPoints: { x: number; y: number }[] = [];
+    /** Vertical extent of the drawn profile (media pixels) */
+    private _profileTop: number = NaN;
+    private _profileBottom: number = NaN;
+
+    constructor(options: FixedRangeVolumeProfileOptions = {}) {
+        this.id = generateDrawingId();
+        this.style = {
+            ...DEFAULT_DRAWING_STYLE,
+            color: '#2196f3',
+            lineWidth: 1,
+        };
+        this._applyOptions(options);
+    }
+
+    // =========================================================================
+    // Property Accessors
+    // =========================================================================
+
+    get profileOptions(): Readonly<VolumeProfileOptions> { return this._profileOptions; }
+    get profileStyle(): Readonly<VolumeProfileStyle> { return this._profileStyle; }
+
+    get lowerTimeframe(): string { return this._lowerTimeframe; }
+    set lowerTimeframe(value: string) {
+        this._lowerTimeframe = value;
+        this._profileKey = '';
+    }
+
+    get widthPercent(): number { return this._widthPercent; }
+    set widthPercent(value: number) { this._widthPercent = value; }
+
+    /** The profile last built by updateProfile */
+    get profile(): VolumeProfile | null { return this._profile; }
+
+    // =========================================================================
+    // DrawingSettingsProvider Implementation
+    // =========================================================================
+
+    getSettingsConfig(): DrawingSettingsConfig {
+        return {
+            tabs: [
+                createStyleTab([
+                    {
+                        title: 'Inputs',
+                        rows: [
+                            selectRow('rowLayout', 'Row Size', [
+                                { value: 'count', label: 'Number of rows' },
+                                { value: 'ticks', label: 'Ticks per row' },
+                            ]),
+                            numberRow('rowSize', 'Rows / Ticks', { min: 1, max: 1000, step: 1 }),
+                            numberRow('valueAreaVolume', 'Value Area Volume %', { min: 1, max: 100, step: 1 }),
+                            selectRow('lowerTimeframe', 'Lower Timeframe', [
+                                { value: 'auto', label: 'Auto' },
+                                { value: '', label: 'None' },
+                                { value: '1m', label: '1m' },
+                                { value: '5m', label: '5m' },
+                                { value: '15m', label: '15m' },
+                                { value: '1h', label: '1h' },
+                            ]),
+                        ]
+                    },
+                    {
+                        title: 'Volume',
+                        rows: [
+                            numberRow('widthPercent', 'Width %', { min: 1, max: 100, step: 1 }),
+                            checkboxRow('showUpDown', 'Up/Down Volume'),
+                            colorRow('upColor', 'Up Volume'),
+                            colorRow('downColor', 'Down Volume'),
+                            colorRow('valueAreaUpColor', 'Value Area Up'),
+                            colorRow('valueAreaDownColor', 'Value Area Down'),
+                        ]
+                    },
+                    {
+                        title: 'Lines',
+                        rows: [
+                            toggleColorRow('POC', 'showPoc', 'pocColor'),
+                            toggleColorRow('Value Area Lines', 'showValueArea', 'valueAreaColor'),
+                        ]
+                    }
+                ]),
+                createVisibilityTab()
+            ]
+        };
+    }
+
+    getAttributeBarItems(): AttributeBarItem[] {
+        return [
+            { type: 'color', key: 'upColor', tooltip: 'Up Volume' },
+            { type: 'color', key: 'downColor', tooltip: 'Down Volume' },
+            { type: 'color', key: 'pocColor', tooltip: 'POC Color' },
+        ];
+    }
+
+    getSettingValue(key: string): any {
+        switch (key) {
+            case 'lowerTimeframe': return this._lowerTimeframe;
+            case 'widthPercent': return this._widthPercent;
+            case 'visible': return this.visible;
+        }
+        if (key in this._profileOptions) return (this._profileOptions as any)[key];
+        if (key in this._profileStyle) return (this._profileStyle as any)[key];
+        return undefined;
+    }
+
+    setSettingValue(key: string, value: any): void {
+        if (key === 'visible') {
+            this.visible = value;
+            return;
+        }
+        this._applyOptions({ [key]: value });
+    }
+
+    // =========================================================================
+    // Drawing Interface Implementation
+    // =========================================================================
+
+    addPoint(time: number, price: number): void {
+        this.points.push({ time, price });
+
+        if (this.points.length >= 2) {
+            this.state = 'complete';
+        }
+    }
+
+    isComplete(): boolean {
+        return this.points.length >= 2;
+    }
+
+    updateLastPoint(time: number, price: number): void {
+        if (this.points.length === 0) return;
+
+        if (this.points.length === 1) {
+            this.points.push({ time, price });
+        } else {
+            this.points[this.points.length - 1] = { time, price };
+        }
+    }
+
+    // =========================================================================
+    // Profile Calculation
+    // =========================================================================
+
+    getStartTime(): number {
+        if (this.points.length < 2) return this.points[0]?.time ?? 0;
+        return Math.min(this.points[0].time, this.points[1].time);
+    }
+
+    getEndTime(): number {
+        if (this.points.length < 2) return this.getStartTime();
+        return Math.max(this.points[0].time, this.points[1].time);
+    }
+
+    /**
+     * Rebuilds the profile of the bars within the range when they or the
+     * options changed since the last call
+     * @param bars - chart bars, oldest first
+     * @param tickSize - price increment for the 'ticks' row layout
+     * @param lowerBars - bars of the lower timeframe, oldest first
+     */
+    updateProfile(bars: readonly BarData[], tickSize: number, lowerBars: readonly BarData[] = []): VolumeProfile | null {
+        const start = this.getStartTime();
+        const end = this.getEndTime();
+        const from = firstIndexAt(bars, start);
+        const to = firstIndexAt(bars, end + 1) - 1;
+        if (to < from) {
+            this._profile = null;
+            this._profileKey = '';
+            return null;
+        }
+
+        // The last bar changes with live updates
+        const last = bars[to];
+        const lowerLast = lowerBars[lowerBars.length - 1];
+        const key = [
+            from, to, bars[from].time, last.time, last.close, last.volume, tickSize,
+            lowerBars.length, lowerLast?.time, lowerLast?.volume,
+            this._profileOptions.rowLayout, this._profileOptions.rowSize, this._profileOptions.valueAreaVolume,
+        ].join(':');
+        if (key !== this._profileKey) {
+            this._profileKey = key;
+            this._profile = buildVolumeProfile(bars.slice(from, to + 1), this._profileOptions, tickSize, lowerBars);
+        }
+        return this._profile;
+    }
+
+    // =========================================================================
+    // Pixel Coordinates
+    // =========================================================================
+
+    setPixelPoints(points: { x: number; y: number }[]): void {
+        this._pixelPoints = [...points];
+    }
+
+    getPixelPoints(): { x: number; y: number }[] {
+        return this._pixelPoints;
+    }
+
+    /** Vertical extent of the drawn profile in media pixels, set by the renderer */
+    setProfileExtent(top: number, bottom: number): void {
+        this._profileTop = top;
+        this._profileBottom = bottom;
+    }
+
+    // =========================================================================
+    // Hit Testing
+    // =========================================================================
+
+    hitTest(x: number, y: number, threshold: number = 8): boolean {
+        const bounds = this.getBounds();
+        if (!bounds) return false;
+
+        return (
+            x >= bounds.x - threshold &&
+            x <= bounds.x + bounds.width + threshold &&
+            y >= bounds.y - threshold &&
+            y <= bounds.y + bounds.height + threshold
+        );
+    }
+
+    getBounds(): { x: number; y: number; width: number; height: number } | null {
+        if (this._pixelPoints.length < 2) return null;
+
+        const p1 = this._pixelPoints[0];
+        const p2 = this._pixelPoints[1];
+
+        // The profile's price span, or the points' while there is none
+        let top = Math.min(p1.y, p2.y);
+        let bottom = Math.max(p1.y, p2.y);
+        if (this._profile && isFinite(this._profileTop) && isFinite(this._profileBottom)) {
+            top = Math.min(top, this._profileTop);
+            bottom = Math.max(bottom, this._profileBottom);
+        }
+
+        const x = Math.min(p1.x, p2.x);
+        return { x, y: top, width: Math.abs(p2.x - p1.x), height: bottom - top };
+    }
+
+    // =========================================================================
+    // Serialization
+    // =========================================================================
+
+    toJSON(): SerializedDrawing {
+        return {
+            id: this.id,
+            type: this.type,
+            points: [...this.points],
+            style: { ...this.style },
+            state: this.state === 'selected' ? 'complete' : this.state,
+            visible: this.visible,
+            locked: this.locked,
+            volumeProfile: {
+                ...this._profileOptions,
+                ...this._profileStyle,
+                lowerTimeframe: this._lowerTimeframe,
+                widthPercent: this._widthPercent,
+            },
+        };
+    }
+
+    static fromJSON(data: SerializedDrawing): FixedRangeVolumeProfileDrawing {
+        const drawing = new FixedRangeVolumeProfileDrawing(data.volumeProfile);
+
+        Object.defineProperty(drawing, 'id', { value: data.id, writable: false });
+        drawing.style = { ...drawing.style, ...data.style };
+        drawing.points = [...data.points];
+        drawing.state = data.state as DrawingState;
+        drawing.visible = data.visible;
+        drawing.locked = data.locked;
+
+        return drawing;
+    }
+
+    // =========================================================================
+    // Private
+    // =========================================================================
+
+    private _applyOptions(options: FixedRangeVolumeProfileOptions): void {
+        for (const [key, value] of Object.entries(options)) {
+            if (value === undefined) continue;
+            if (key === 'lowerTimeframe') this.lowerTimeframe = value;
+            else if (key === 'widthPercent') this._widthPercent = Number(value);
+            else if (key in this._profileOptions) {
+                (this._profileOptions as any)[key] = key === 'rowLayout' ? value : Number(value);
+            } else if (key in this._profileStyle) (this._profileStyle as any)[key] = value;
+        }
+    }
+}
+
+/** First index of the bars at or after the time */
+function firstIndexAt(bars: readonly BarData[], time: number): number {
+    let lo = 0;
+    let hi = bars.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (bars[mid].time < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
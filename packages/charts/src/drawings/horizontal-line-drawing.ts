@@ -162,7 +162,8 @@ export class HorizontalLineDrawing implements Drawing, DrawingSettingsProvider {
         _timeToPixel: (time: number) => number | null,
         priceToPixel: (price: number) => number | null,
         canvasWidth: number,
-        dpr: number = 1
+        dpr: number = 1,
+        formatPrice: (price: number) => string = (price) => price.toFixed(2)
     ): void {
         if (this.points.length === 0 || !this.visible) return;
 
@@ -187,7 +188,7 @@ export class HorizontalLineDrawing implements Drawing, DrawingSettingsProvider {
 
         // Draw price label on the right side
         if (this.showPrice) {
-            const priceText = this.points[0].price.toFixed(2);
+            const priceText = formatPrice(this.points[0].price);
             ctx.font = `${11 * dpr}px Arial`;
             const textMetrics = ctx.measureText(priceText);
             const padding = 4 * dpr;
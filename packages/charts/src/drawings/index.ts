@@ -15,6 +15,8 @@ export * from './trend-angle-drawing';
 export * from './horizontal-ray-drawing';
 export * from './cross-line-drawing';
 export * from './drawing-manager';
+export * from './drawing-clipboard';
+export * from './timeframe-visibility';
 export * from './arrow-drawing';
 export * from './arrow-marker-drawing';
 export * from './arrow-icon-drawing';
@@ -43,8 +45,10 @@ export * from './abcd-pattern-drawing';
 export * from './triangle-pattern-drawing';
 export * from './long-position-drawing';
 export * from './short-position-drawing';
+export * from './position-trade';
 export * from './price-range-drawing';
 export * from './date-range-drawing';
+export * from './fixed-range-volume-profile-drawing';
 export * from './date-price-range-drawing';
 export * from './text-drawing';
 export * from './callout-drawing';
@@ -30,6 +30,8 @@ import {
     createVisibilityTab,
     colorRow,
 } from './drawing-settings-config';
+import { BarData } from '../model/data';
+import { PositionTrade, evaluatePositionTrade } from './position-trade';
 
 export interface LongPositionOptions {
     profitColor?: string;
@@ -63,6 +65,9 @@ export class LongPositionDrawing implements Drawing, DrawingSettingsProvider {
     private _cachedTargetY: number = 0;
     private _cachedStopY: number = 0;
 
+    // Trade progress over the loaded bars, derived so it is not serialized
+    private _trade: PositionTrade | null = null;
+
     constructor(options: LongPositionOptions = {}) {
         this.id = generateDrawingId();
         this.style = {
@@ -281,6 +286,32 @@ export class LongPositionDrawing implements Drawing, DrawingSettingsProvider {
         return loss > 0 ? profit / loss : 0;
     }
 
+    // =========================================================================
+    // Trade Tracking
+    // =========================================================================
+
+    get trade(): PositionTrade | null {
+        return this._trade;
+    }
+
+    /** Follow the trade through the chart bars, called on every data update */
+    updateTrade(bars: readonly BarData[]): void {
+        if (this.points.length < 2) {
+            this._trade = null;
+            return;
+        }
+
+        this._trade = evaluatePositionTrade({
+            isLong: true,
+            entry: this.getEntryPrice(),
+            target: this.getTargetPrice(),
+            stop: this.getStopPrice(),
+            quantity: this._quantity,
+            startTime: Math.min(this.points[0].time, this.points[1].time),
+            endTime: Math.max(this.points[0].time, this.points[1].time),
+        }, bars);
+    }
+
     // =========================================================================
     // Hit Testing
     // =========================================================================
@@ -0,0 +1,76 @@
+/**
+ * Position trade tracking
+ *
+ * Walks the bars inside a Long/Short Position drawing and follows the trade:
+ * filled once price touches the entry, closed when the target or the stop is hit.
+ * While open, P&L is measured at the close of the last bar, so it follows live
+ * updates and bar replay.
+ */
+
+import { BarData } from '../model/data';
+
+/**
+ * - pending: price has not reached the entry yet
+ * - open: filled, neither target nor stop hit
+ * - target / stop: closed at that level
+ */
+export type PositionTradeStatus = 'pending' | 'open' | 'target' | 'stop';
+
+export interface PositionTrade {
+    status: PositionTradeStatus;
+    /** Exit level when closed, the last close while open, null while pending */
+    price: number | null;
+    /** Time of the bar the trade was closed on or last measured at */
+    time: number | null;
+    pnl: number;
+    pnlPercent: number;
+}
+
+export interface PositionLevels {
+    isLong: boolean;
+    entry: number;
+    target: number;
+    stop: number;
+    quantity: number;
+    /** Bars outside [startTime, endTime] are ignored */
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * Follow a position through sorted bars. When a bar reaches both the target
+ * and the stop, the stop is assumed to have been hit first.
+ */
+export function evaluatePositionTrade(levels: PositionLevels, bars: readonly BarData[]): PositionTrade {
+    const { isLong, entry, target, stop, quantity, startTime, endTime } = levels;
+    const direction = isLong ? 1 : -1;
+
+    const result = (status: PositionTradeStatus, price: number | null, time: number | null): PositionTrade => {
+        const pnl = price === null ? 0 : (price - entry) * direction * quantity;
+        const pnlPercent = price === null || entry === 0 ? 0 : (price - entry) / entry * direction * 100;
+        return { status, price, time, pnl, pnlPercent };
+    };
+
+    let filled = false;
+    let last: BarData | null = null;
+
+    for (const bar of bars) {
+        if (bar.time < startTime) continue;
+        if (bar.time > endTime) break;
+        last = bar;
+
+        if (!filled) {
+            if (bar.low > entry || bar.high < entry) continue;
+            filled = true;
+        }
+
+        const stopHit = isLong ? bar.low <= stop : bar.high >= stop;
+        if (stopHit) return result('stop', stop, bar.time);
+
+        const targetHit = isLong ? bar.high >= target : bar.low <= target;
+        if (targetHit) return result('target', target, bar.time);
+    }
+
+    if (!filled || !last) return result('pending', null, null);
+    return result('open', last.close, last.time);
+}
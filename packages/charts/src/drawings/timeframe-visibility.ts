@@ -0,0 +1,120 @@
+/**
+ * Timeframe Visibility - on which chart timeframes a drawing is shown
+ *
+ * A drawing carries one range per timeframe unit, e.g. minutes 1-15: shown
+ * on 1m to 15m charts. Counts past a unit's largest one fall in the next unit,
+ * e.g. 90m in hours as 1.5h. A drawing without rules is shown on every timeframe.
+ */
+
+import { parseTimeframe, timeframeToMs, TimeframeUnit } from '../helpers/timeframe';
+
+export type VisibilityUnit = 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks' | 'months';
+
+export interface TimeframeVisibilityRange {
+    /** Shown on timeframes of this unit at all */
+    enabled: boolean;
+    /** Smallest count shown, e.g. 5 for 5m */
+    min: number;
+    /** Largest count shown */
+    max: number;
+}
+
+export type TimeframeVisibility = Record<VisibilityUnit, TimeframeVisibilityRange>;
+
+/** Units in settings order, with the largest count of each */
+export const VISIBILITY_UNITS: ReadonlyArray<{ unit: VisibilityUnit; label: string; limit: number }> = [
+    { unit: 'seconds', label: 'Seconds', limit: 59 },
+    { unit: 'minutes', label: 'Minutes', limit: 59 },
+    { unit: 'hours', label: 'Hours', limit: 24 },
+    { unit: 'days', label: 'Days', limit: 366 },
+    { unit: 'weeks', label: 'Weeks', limit: 52 },
+    { unit: 'months', label: 'Months', limit: 12 },
+];
+
+const TIMEFRAME_UNITS: Record<TimeframeUnit, VisibilityUnit> = {
+    s: 'seconds',
+    m: 'minutes',
+    h: 'hours',
+    d: 'days',
+    w: 'weeks',
+    M: 'months',
+};
+
+/** One of each unit, to measure timeframes in */
+const UNIT_TIMEFRAMES: Record<VisibilityUnit, string> = {
+    seconds: '1s',
+    minutes: '1m',
+    hours: '1h',
+    days: '1d',
+    weeks: '1w',
+    months: '1M',
+};
+
+/**
+ * Visibility of a drawing shown on every timeframe
+ */
+export function defaultTimeframeVisibility(): TimeframeVisibility {
+    const visibility = {} as TimeframeVisibility;
+    for (const { unit, limit } of VISIBILITY_UNITS) {
+        visibility[unit] = { enabled: true, min: 1, max: limit };
+    }
+    return visibility;
+}
+
+/**
+ * Complete rules from saved ones, units missing from them are shown everywhere.
+ * Returns undefined when the drawing is shown on every timeframe.
+ */
+export function normalizeTimeframeVisibility(
+    visibility: Partial<TimeframeVisibility> | undefined
+): TimeframeVisibility | undefined {
+    if (!visibility) return undefined;
+
+    const normalized = defaultTimeframeVisibility();
+    for (const { unit, limit } of VISIBILITY_UNITS) {
+        const range = visibility[unit];
+        if (!range) continue;
+        const min = clampCount(range.min, limit);
+        normalized[unit] = {
+            enabled: range.enabled !== false,
+            min,
+            max: Math.max(min, clampCount(range.max, limit)),
+        };
+    }
+
+    const everywhere = VISIBILITY_UNITS.every(({ unit, limit }) =>
+        normalized[unit].enabled && normalized[unit].min === 1 && normalized[unit].max === limit);
+    return everywhere ? undefined : normalized;
+}
+
+/**
+ * Whether a drawing with these rules is shown on the timeframe. Timeframes
+ * that can't be parsed show every drawing.
+ */
+export function isVisibleOnTimeframe(visibility: TimeframeVisibility | undefined, timeframe: string): boolean {
+    if (!visibility) return true;
+
+    const parsed = parseTimeframe(timeframe);
+    if (!parsed) return true;
+
+    // Carry counts above the unit's largest one into the next unit, by duration
+    const duration = timeframeToMs(timeframe);
+    let index = VISIBILITY_UNITS.findIndex(({ unit }) => unit === TIMEFRAME_UNITS[parsed.unit]);
+    let count = parsed.count;
+    while (count > VISIBILITY_UNITS[index].limit && index < VISIBILITY_UNITS.length - 1) {
+        index++;
+        count = duration / timeframeToMs(UNIT_TIMEFRAMES[VISIBILITY_UNITS[index].unit]);
+    }
+
+    const { unit, limit } = VISIBILITY_UNITS[index];
+    const range = visibility[unit];
+    if (!range) return true;
+    // Past the largest month count, a range up to it covers them all
+    const max = count > limit && range.max === limit ? count : range.max;
+    return range.enabled && count >= range.min && count <= max;
+}
+
+function clampCount(value: number, limit: number): number {
+    if (!Number.isFinite(value)) return 1;
+    return Math.min(limit, Math.max(1, Math.round(value)));
+}
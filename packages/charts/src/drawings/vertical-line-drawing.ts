@@ -163,7 +163,12 @@ export class VerticalLineDrawing implements Drawing, DrawingSettingsProvider {
         _priceToPixel: (price: number) => number | null,
         _canvasWidth: number,
         canvasHeight: number,
-        dpr: number = 1
+        dpr: number = 1,
+        formatTime: (time: number) => string = (time) => new Date(time).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false
+        })
     ): void {
         if (this.points.length === 0 || !this.visible) return;
 
@@ -188,12 +193,7 @@ export class VerticalLineDrawing implements Drawing, DrawingSettingsProvider {
 
         // Draw time label at the bottom
         if (this.showTime) {
-            const date = new Date(this.points[0].time);
-            const timeText = date.toLocaleTimeString('en-US', {
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-            });
+            const timeText = formatTime(this.points[0].time);
             ctx.font = `${11 * dpr}px Arial`;
             const textMetrics = ctx.measureText(timeText);
             const padding = 4 * dpr;
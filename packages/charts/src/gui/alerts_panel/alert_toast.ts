@@ -0,0 +1,85 @@
+/**
+ * Alert Toast - in-app notification sink for triggered alerts
+ */
+
+import { AlertEvent, NotificationSink } from '../../alerts/alert';
+import { t } from '../../helpers/translations';
+
+export interface ToastNotificationOptions {
+    /** Time before a toast closes by itself, 0 keeps it until clicked */
+    duration?: number;
+}
+
+/**
+ * Shows triggered alerts as toasts in the bottom right corner of the container
+ */
+export class ToastNotificationSink implements NotificationSink {
+    private _host: HTMLElement | null = null;
+    private readonly _duration: number;
+
+    constructor(private readonly _container: HTMLElement, options: ToastNotificationOptions = {}) {
+        this._duration = options.duration ?? 6000;
+    }
+
+    notify(event: AlertEvent): void {
+        const host = this._getHost();
+
+        const toast = document.createElement('div');
+        toast.style.cssText = `
+            background: #ffffff;
+            border-left: 3px solid #2962ff;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            padding: 10px 14px;
+            min-width: 220px;
+            max-width: 320px;
+            cursor: pointer;
+            pointer-events: auto;
+            color: #131722;
+        `;
+
+        const title = document.createElement('div');
+        title.textContent = `${t('Alert')}: ${event.alert.name}`;
+        title.style.cssText = `font-weight: 600; margin-bottom: 4px;`;
+        toast.appendChild(title);
+
+        const message = document.createElement('div');
+        message.textContent = event.message;
+        message.style.cssText = `color: #787b86; font-size: 12px;`;
+        toast.appendChild(message);
+
+        const close = () => toast.parentNode?.removeChild(toast);
+        toast.onclick = close;
+        if (this._duration > 0) {
+            setTimeout(close, this._duration);
+        }
+
+        host.appendChild(toast);
+    }
+
+    dispose(): void {
+        this._host?.parentNode?.removeChild(this._host);
+        this._host = null;
+    }
+
+    private _getHost(): HTMLElement {
+        if (!this._host) {
+            this._host = document.createElement('div');
+            this._host.className = 'chart-alert-toasts';
+            this._host.style.cssText = `
+                position: absolute;
+                right: 16px;
+                bottom: 40px;
+                display: flex;
+                flex-direction: column;
+                gap: 8px;
+                z-index: 10001;
+                pointer-events: none;
+                font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+                font-size: 13px;
+            `;
+            this._container.appendChild(this._host);
+        }
+        return this._host;
+    }
+}
@@ -0,0 +1,456 @@
+/**
+ * Alerts Panel - lists active/triggered alerts and creates new ones
+ */
+
+import { AlertManager } from '../../alerts/alert-manager';
+import {
+    Alert,
+    AlertCondition,
+    AlertFrequency,
+    AlertOperand,
+    AlertOperator,
+    ALERT_DRAWING_NAMES,
+    ALERT_FREQUENCY_LABELS,
+    ALERT_OPERATOR_LABELS
+} from '../../alerts/alert';
+import { DrawingManager } from '../../drawings/drawing-manager';
+import { IndicatorManager } from '../../indicators/indicator-manager';
+import { t } from '../../helpers/translations';
+
+/**
+ * Values to start the create form with
+ */
+export interface AlertFormPreset {
+    source?: AlertOperand;
+    operator?: AlertOperator;
+    target?: AlertOperand;
+    frequency?: AlertFrequency;
+}
+
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+const ICON_PLUS = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>`;
+const ICON_RESTART = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M3 9a6 6 0 1 1 1.5 4" stroke-linecap="round"/><path d="M3 5v4h4" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+const ICON_DELETE = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M3 5h12M7 5V3h4v2M5 5l1 10h6l1-10"/></svg>`;
+
+const FIELD_STYLE = `
+    width: 100%;
+    box-sizing: border-box;
+    background: #f0f3fa;
+    border: 1px solid transparent;
+    border-radius: 6px;
+    padding: 7px 8px;
+    font-size: 13px;
+    color: #131722;
+    outline: none;
+`;
+
+/**
+ * Alerts panel, floats over the top right corner of the chart
+ */
+export class AlertsPanel {
+    private _element: HTMLElement | null = null;
+    private _body: HTMLElement | null = null;
+    private _visible: boolean = false;
+    private _formPreset: AlertFormPreset | null = null;
+    private readonly _onAlertsChanged = () => {
+        if (this._visible && !this._formPreset) this._renderList();
+    };
+
+    constructor(
+        private readonly _container: HTMLElement,
+        private readonly _alertManager: AlertManager,
+        private readonly _drawingManager: DrawingManager,
+        private readonly _indicatorManager: IndicatorManager
+    ) {
+        this._createElement();
+        this._alertManager.alertsChanged.subscribe(this._onAlertsChanged);
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._formPreset = null;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._renderList();
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+        this._formPreset = null;
+    }
+
+    toggle(): void {
+        if (this._visible) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    /** Open the panel on the create form */
+    openCreateForm(preset: AlertFormPreset = {}): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._formPreset = preset;
+        this._renderForm(preset);
+    }
+
+    dispose(): void {
+        this._alertManager.alertsChanged.unsubscribe(this._onAlertsChanged);
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+        this._body = null;
+    }
+
+    // --- Private: Layout ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-alerts-panel';
+        this._element.style.cssText = `
+            position: absolute;
+            top: 48px;
+            right: 64px;
+            width: 300px;
+            max-height: 420px;
+            background: #ffffff;
+            border: 1px solid #e0e3eb;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+        `;
+        // Keep chart interactions from reacting to clicks in the panel
+        this._element.addEventListener('mousedown', e => e.stopPropagation());
+        this._element.addEventListener('wheel', e => e.stopPropagation());
+
+        this._body = document.createElement('div');
+        this._body.style.cssText = `display: flex; flex-direction: column; min-height: 0; flex: 1;`;
+        this._element.appendChild(this._body);
+
+        this._container.appendChild(this._element);
+    }
+
+    private _createHeader(title: string, actions: HTMLElement[]): HTMLElement {
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 10px 12px;
+            border-bottom: 1px solid #e0e3eb;
+        `;
+
+        const label = document.createElement('div');
+        label.textContent = title;
+        label.style.cssText = `flex: 1; font-weight: 600; font-size: 14px;`;
+        header.appendChild(label);
+
+        actions.forEach(action => header.appendChild(action));
+        header.appendChild(this._createIconButton(ICON_CLOSE, t('Close'), () => this.hide()));
+        return header;
+    }
+
+    private _createIconButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.innerHTML = icon;
+        button.title = title;
+        button.style.cssText = `
+            background: none;
+            border: none;
+            cursor: pointer;
+            padding: 4px;
+            border-radius: 4px;
+            display: flex;
+            color: #787b86;
+        `;
+        button.onmouseenter = () => button.style.background = '#f0f3fa';
+        button.onmouseleave = () => button.style.background = 'none';
+        button.onclick = (e) => {
+            e.stopPropagation();
+            onClick();
+        };
+        return button;
+    }
+
+    // --- Private: Alert list ---
+
+    private _renderList(): void {
+        if (!this._body) return;
+        this._body.innerHTML = '';
+
+        const addButton = this._createIconButton(ICON_PLUS, t('Create alert'), () => this.openCreateForm());
+        this._body.appendChild(this._createHeader(t('Alerts'), [addButton]));
+
+        const list = document.createElement('div');
+        list.style.cssText = `overflow-y: auto; padding: 4px 0;`;
+        this._body.appendChild(list);
+
+        const alerts = this._alertManager.alerts;
+        if (alerts.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = t('No alerts');
+            empty.style.cssText = `padding: 24px; text-align: center; color: #787b86;`;
+            list.appendChild(empty);
+            return;
+        }
+
+        // Active alerts first
+        const sorted = [...alerts].sort((a, b) =>
+            (a.status === b.status ? 0 : a.status === 'active' ? -1 : 1) || b.createdAt - a.createdAt);
+        sorted.forEach(alert => list.appendChild(this._createAlertRow(alert)));
+    }
+
+    private _createAlertRow(alert: Alert): HTMLElement {
+        const row = document.createElement('div');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 8px 12px;
+        `;
+        row.onmouseenter = () => row.style.background = '#f0f3fa';
+        row.onmouseleave = () => row.style.background = 'transparent';
+
+        const isActive = alert.status === 'active';
+        const dot = document.createElement('span');
+        dot.title = isActive ? t('Active') : t('Triggered');
+        dot.style.cssText = `
+            width: 8px;
+            height: 8px;
+            border-radius: 50%;
+            flex-shrink: 0;
+            background: ${isActive ? '#26a69a' : '#b2b5be'};
+        `;
+        row.appendChild(dot);
+
+        const text = document.createElement('div');
+        text.style.cssText = `flex: 1; min-width: 0;`;
+
+        const name = document.createElement('div');
+        name.textContent = alert.name;
+        name.style.cssText = `white-space: nowrap; overflow: hidden; text-overflow: ellipsis;`;
+        text.appendChild(name);
+
+        const details = document.createElement('div');
+        const parts = [t(ALERT_FREQUENCY_LABELS[alert.frequency])];
+        if (alert.lastTriggeredAt) {
+            parts.push(`${t('Triggered')} ${new Date(alert.lastTriggeredAt).toLocaleString()}`);
+        }
+        details.textContent = parts.join(' · ');
+        details.style.cssText = `font-size: 11px; color: #787b86;`;
+        text.appendChild(details);
+
+        row.appendChild(text);
+
+        if (!isActive) {
+            row.appendChild(this._createIconButton(ICON_RESTART, t('Restart'), () => {
+                this._alertManager.restartAlert(alert.id);
+            }));
+        }
+        row.appendChild(this._createIconButton(ICON_DELETE, t('Remove'), () => {
+            this._alertManager.removeAlert(alert.id);
+        }));
+
+        return row;
+    }
+
+    // --- Private: Create form ---
+
+    private _renderForm(preset: AlertFormPreset): void {
+        if (!this._body) return;
+        this._body.innerHTML = '';
+        this._body.appendChild(this._createHeader(t('Create alert'), []));
+
+        const form = document.createElement('div');
+        form.style.cssText = `display: flex; flex-direction: column; gap: 10px; padding: 12px; overflow-y: auto;`;
+        this._body.appendChild(form);
+
+        const operands = this._getOperandOptions();
+        const sourceOptions = operands.filter(o => o.operand.type !== 'drawing');
+        const targetOptions = [
+            { key: 'value', label: t('Value'), operand: { type: 'value', value: 0 } as AlertOperand },
+            ...operands,
+        ];
+
+        const source = this._createSelect(sourceOptions.map(o => ({ value: o.key, label: o.label })));
+        source.value = this._operandKey(preset.source ?? { type: 'price' });
+
+        const operator = this._createSelect((Object.keys(ALERT_OPERATOR_LABELS) as AlertOperator[])
+            .map(op => ({ value: op, label: t(ALERT_OPERATOR_LABELS[op]) })));
+        operator.value = preset.operator ?? 'crossing';
+
+        const target = this._createSelect(targetOptions.map(o => ({ value: o.key, label: o.label })));
+        target.value = preset.target ? this._operandKey(preset.target) : 'value';
+
+        const value = document.createElement('input');
+        value.type = 'number';
+        value.step = 'any';
+        value.style.cssText = FIELD_STYLE;
+        value.value = preset.target?.type === 'value' ? String(preset.target.value) : '';
+
+        const frequency = this._createSelect((Object.keys(ALERT_FREQUENCY_LABELS) as AlertFrequency[])
+            .map(f => ({ value: f, label: t(ALERT_FREQUENCY_LABELS[f]) })));
+        frequency.value = preset.frequency ?? 'once';
+
+        const message = document.createElement('input');
+        message.type = 'text';
+        message.placeholder = t('Message');
+        message.style.cssText = FIELD_STYLE;
+
+        const valueField = this._createField(t('Value'), value);
+        const updateValueField = () => {
+            valueField.style.display = target.value === 'value' ? 'flex' : 'none';
+        };
+        target.onchange = updateValueField;
+        updateValueField();
+
+        form.appendChild(this._createField(t('Condition'), source));
+        form.appendChild(this._createField('', operator));
+        form.appendChild(this._createField('', target));
+        form.appendChild(valueField);
+        form.appendChild(this._createField(t('Trigger'), frequency));
+        form.appendChild(this._createField(t('Message'), message));
+
+        const error = document.createElement('div');
+        error.style.cssText = `color: #ef5350; font-size: 12px; display: none;`;
+        form.appendChild(error);
+
+        const buttons = document.createElement('div');
+        buttons.style.cssText = `display: flex; justify-content: flex-end; gap: 8px;`;
+        buttons.appendChild(this._createTextButton(t('Cancel'), false, () => this.show()));
+        buttons.appendChild(this._createTextButton(t('Create'), true, () => {
+            const find = (key: string) => operands.find(o => o.key === key)?.operand;
+            const condition: AlertCondition = {
+                source: find(source.value) ?? { type: 'price' },
+                operator: operator.value as AlertOperator,
+                target: target.value === 'value'
+                    ? { type: 'value', value: parseFloat(value.value) }
+                    : find(target.value) ?? { type: 'price' },
+            };
+
+            if (condition.target.type === 'value' && isNaN(condition.target.value)) {
+                this._showError(error, t('Enter a value'));
+                return;
+            }
+
+            try {
+                this._alertManager.createAlert({
+                    condition,
+                    frequency: frequency.value as AlertFrequency,
+                    message: message.value.trim(),
+                });
+            } catch (e) {
+                this._showError(error, (e as Error).message);
+                return;
+            }
+            this.show();
+        }));
+        form.appendChild(buttons);
+    }
+
+    /** Price, every indicator plot and every drawing an alert can follow */
+    private _getOperandOptions(): { key: string; label: string; operand: AlertOperand }[] {
+        const options: { key: string; label: string; operand: AlertOperand }[] = [
+            { key: 'price', label: t('Price'), operand: { type: 'price' } },
+        ];
+
+        for (const indicator of this._indicatorManager.allIndicators) {
+            const data = indicator.data;
+            const plots = data.length > 0 ? data[data.length - 1].values?.length ?? 0 : 0;
+            if (plots > 1) {
+                for (let plot = 0; plot < plots; plot++) {
+                    const operand: AlertOperand = { type: 'indicator', indicatorId: indicator.id, plot };
+                    options.push({ key: this._operandKey(operand), label: `${indicator.name} #${plot + 1}`, operand });
+                }
+            } else {
+                const operand: AlertOperand = { type: 'indicator', indicatorId: indicator.id };
+                options.push({ key: this._operandKey(operand), label: indicator.name, operand });
+            }
+        }
+
+        let index = 0;
+        for (const drawing of this._drawingManager.drawings) {
+            const name = ALERT_DRAWING_NAMES[drawing.type];
+            if (!name) continue;
+            const operand: AlertOperand = { type: 'drawing', drawingId: drawing.id };
+            options.push({ key: this._operandKey(operand), label: `${t(name)} ${++index}`, operand });
+        }
+
+        return options;
+    }
+
+    private _operandKey(operand: AlertOperand): string {
+        switch (operand.type) {
+            case 'price':
+                return 'price';
+            case 'value':
+                return 'value';
+            case 'drawing':
+                return `drawing:${operand.drawingId}`;
+            case 'indicator':
+                return operand.plot === undefined
+                    ? `indicator:${operand.indicatorId}`
+                    : `indicator:${operand.indicatorId}:${operand.plot}`;
+        }
+    }
+
+    private _createSelect(options: { value: string; label: string }[]): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.style.cssText = FIELD_STYLE;
+        options.forEach(({ value, label }) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            select.appendChild(option);
+        });
+        return select;
+    }
+
+    private _createField(label: string, input: HTMLElement): HTMLElement {
+        const field = document.createElement('div');
+        field.style.cssText = `display: flex; flex-direction: column; gap: 4px;`;
+        if (label) {
+            const text = document.createElement('div');
+            text.textContent = label;
+            text.style.cssText = `font-size: 12px; color: #787b86;`;
+            field.appendChild(text);
+        }
+        field.appendChild(input);
+        return field;
+    }
+
+    private _createTextButton(label: string, primary: boolean, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            border: 1px solid ${primary ? '#2962ff' : '#e0e3eb'};
+            background: ${primary ? '#2962ff' : '#ffffff'};
+            color: ${primary ? '#ffffff' : '#131722'};
+            border-radius: 6px;
+            padding: 6px 14px;
+            font-size: 13px;
+            cursor: pointer;
+        `;
+        button.onclick = onClick;
+        return button;
+    }
+
+    private _showError(element: HTMLElement, message: string): void {
+        element.textContent = message;
+        element.style.display = 'block';
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Alerts Panel Module
+ */
+
+export * from './alerts_panel';
+export * from './alert_toast';
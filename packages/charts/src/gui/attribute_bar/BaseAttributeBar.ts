@@ -6,7 +6,8 @@
 import { Delegate } from '../../helpers/delegate';
 import { Drawing } from '../../drawings';
 import { DrawingType } from '../../drawings/drawing';
-import { createToolbarButton, createSeparator, createColorButton, createLineWidthButton, ICONS } from './components';
+import { ALERT_DRAWING_NAMES } from '../../alerts/alert';
+import { createToolbarButton, createSeparator, createColorButton, createLineWidthButton, createTemplateButton, ICONS } from './components';
 
 /**
  * Events emitted by attribute bar
@@ -19,6 +20,10 @@ export interface AttributeBarEvents {
     lockClicked: Delegate<void>;
     cloneClicked: Delegate<void>;
     settingsClicked: Delegate<void>;
+    alertClicked: Delegate<void>;
+    templateApplied: Delegate<string>;
+    templateSaved: Delegate<string>;
+    templateDeleted: Delegate<string>;
 }
 
 /**
@@ -47,6 +52,14 @@ export class BaseAttributeBar {
     readonly lockClicked = new Delegate<void>();
     readonly cloneClicked = new Delegate<void>();
     readonly settingsClicked = new Delegate<void>();
+    readonly alertClicked = new Delegate<void>();
+    /** Template name, for the selected drawing's type */
+    readonly templateApplied = new Delegate<string>();
+    readonly templateSaved = new Delegate<string>();
+    readonly templateDeleted = new Delegate<string>();
+
+    /** Names of the templates of a drawing type, listed by the template button */
+    templateNames: (type: DrawingType) => string[] = () => [];
 
     constructor(container: HTMLElement) {
         this._boundMouseMove = this._onMouseMove.bind(this);
@@ -104,6 +117,10 @@ export class BaseAttributeBar {
         this.lockClicked.destroy();
         this.cloneClicked.destroy();
         this.settingsClicked.destroy();
+        this.alertClicked.destroy();
+        this.templateApplied.destroy();
+        this.templateSaved.destroy();
+        this.templateDeleted.destroy();
 
         if (this._element?.parentNode) {
             this._element.parentNode.removeChild(this._element);
@@ -168,6 +185,7 @@ export class BaseAttributeBar {
         this._addTextColorButton(); // Text color for line labels
         this._addLineWidthButton();
         this._addSeparator();
+        this._addAlertButton();
         this._addSettingsButton();
         this._addLockButton();
         this._addSeparator();
@@ -176,14 +194,19 @@ export class BaseAttributeBar {
     }
 
     protected _buildSimpleLineBar(): void {
+        this._addTemplateButton();
+        this._addSeparator();
         this._addColorButton();
         this._addLineWidthButton();
         this._addSeparator();
+        this._addAlertButton();
         this._addLockButton();
         this._addDeleteButton();
     }
 
     protected _buildShapeBar(): void {
+        this._addTemplateButton();
+        this._addSeparator();
         // Border color
         this._addColorButton('color', 'Border Color');
         // Fill color
@@ -196,15 +219,20 @@ export class BaseAttributeBar {
     }
 
     protected _buildChannelBar(): void {
+        this._addTemplateButton();
+        this._addSeparator();
         this._addColorButton();
         this._addLineWidthButton();
         this._addSeparator();
+        this._addAlertButton();
         this._addSettingsButton();
         this._addLockButton();
         this._addDeleteButton();
     }
 
     protected _buildDefaultBar(): void {
+        this._addTemplateButton();
+        this._addSeparator();
         this._addColorButton();
         this._addLineWidthButton();
         this._addSeparator();
@@ -232,11 +260,15 @@ export class BaseAttributeBar {
     }
 
     protected _addTemplateButton(): void {
-        if (!this._element) return;
-        const btn = createToolbarButton(
-            { icon: ICONS.template, title: 'Template', theme: this._theme },
-            () => this.settingsClicked.fire()
-        );
+        if (!this._element || !this._currentDrawing) return;
+        const type = this._currentDrawing.type;
+        const btn = createTemplateButton({
+            names: () => this.templateNames(type),
+            onApply: (name) => this.templateApplied.fire(name),
+            onSave: (name) => this.templateSaved.fire(name),
+            onDelete: (name) => this.templateDeleted.fire(name),
+            theme: this._theme,
+        });
         this._element.appendChild(btn);
     }
 
@@ -293,6 +325,16 @@ export class BaseAttributeBar {
         this._element.appendChild(btn);
     }
 
+    /** Only for the drawings an alert can follow */
+    protected _addAlertButton(): void {
+        if (!this._element || !this._currentDrawing || !ALERT_DRAWING_NAMES[this._currentDrawing.type]) return;
+        const btn = createToolbarButton(
+            { icon: ICONS.alert, title: 'Add alert', theme: this._theme },
+            () => this.alertClicked.fire()
+        );
+        this._element.appendChild(btn);
+    }
+
     protected _addLockButton(): void {
         if (!this._element) return;
         const btn = createToolbarButton(
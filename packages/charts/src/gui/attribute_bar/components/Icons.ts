@@ -61,4 +61,9 @@ export const ICONS = {
         <path d="M10.85 19h-1.748l4.216-11h1.364l4.216 11h-1.748l-1.05-2.9h-4.2l-1.05 2.9zm4.15-11.2l-1.65 5.3h3.3l-1.65-5.3z"/>
         <rect x="6" y="22" width="16" height="3" rx="1"/>
     </svg>`,
+
+    alert: `<svg width="25" height="25" viewBox="0 0 28 28" fill="none" stroke="currentColor">
+        <circle cx="14" cy="15" r="8"/>
+        <path d="M14 10v5l3 2M7 6l-2.5 2.5M21 6l2.5 2.5" stroke-linecap="round"/>
+    </svg>`,
 };
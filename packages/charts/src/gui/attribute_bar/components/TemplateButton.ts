@@ -0,0 +1,207 @@
+/**
+ * Template Button Component
+ * Dropdown popup listing the drawing templates of a type, with a field to
+ * save the current drawing's style as a new one
+ */
+
+import { ICONS } from './Icons';
+
+export interface TemplateButtonOptions {
+    /** Names of the saved templates, read each time the popup opens */
+    names: () => string[];
+    onApply: (name: string) => void;
+    onSave: (name: string) => void;
+    onDelete: (name: string) => void;
+    theme?: 'dark' | 'light';
+}
+
+/**
+ * Creates a template button with dropdown popup
+ */
+export function createTemplateButton(options: TemplateButtonOptions): HTMLElement {
+    const isDark = options.theme !== 'light';
+    const textColor = isDark ? '#d1d4dc' : '#131722';
+    const mutedColor = isDark ? '#787b86' : '#131722';
+    const hoverBackground = isDark ? '#2a2e39' : '#f0f3fa';
+
+    const wrapper = document.createElement('div');
+    wrapper.style.cssText = 'position: relative;';
+
+    // Main button
+    const btn = document.createElement('button');
+    btn.innerHTML = ICONS.template;
+    btn.title = 'Template';
+    btn.style.cssText = `
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        width: 28px;
+        height: 28px;
+        background: transparent;
+        border: none;
+        color: ${mutedColor};
+        cursor: pointer;
+        border-radius: 4px;
+        transition: all 0.1s ease;
+    `;
+
+    btn.addEventListener('mouseenter', () => {
+        btn.style.background = isDark ? '#2a2e39' : '#e0e3eb';
+        btn.style.color = isDark ? '#d1d4dc' : '#2962ff';
+    });
+
+    btn.addEventListener('mouseleave', () => {
+        if (!popup) {
+            btn.style.background = 'transparent';
+            btn.style.color = mutedColor;
+        }
+    });
+
+    let popup: HTMLElement | null = null;
+
+    const closePopup = () => {
+        if (popup) {
+            popup.remove();
+            popup = null;
+            btn.style.background = 'transparent';
+            btn.style.color = mutedColor;
+        }
+        document.removeEventListener('click', handleClickOutside);
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+        if (!wrapper.contains(e.target as Node)) {
+            closePopup();
+        }
+    };
+
+    const createOption = (name: string): HTMLElement => {
+        const option = document.createElement('div');
+        option.style.cssText = `
+            display: flex;
+            align-items: center;
+            padding: 6px 8px 6px 12px;
+            cursor: pointer;
+            border-radius: 4px;
+            font-size: 13px;
+            color: ${textColor};
+            gap: 12px;
+        `;
+
+        const label = document.createElement('span');
+        label.textContent = name;
+        label.style.cssText = 'flex: 1; white-space: nowrap;';
+
+        const remove = document.createElement('span');
+        remove.textContent = '×';
+        remove.title = 'Remove template';
+        remove.style.cssText = `color: ${mutedColor}; font-size: 16px; line-height: 1; visibility: hidden;`;
+        remove.addEventListener('click', (e) => {
+            e.stopPropagation();
+            options.onDelete(name);
+            option.remove();
+        });
+
+        option.appendChild(label);
+        option.appendChild(remove);
+
+        option.addEventListener('mouseenter', () => {
+            option.style.background = hoverBackground;
+            remove.style.visibility = 'visible';
+        });
+        option.addEventListener('mouseleave', () => {
+            option.style.background = 'transparent';
+            remove.style.visibility = 'hidden';
+        });
+        option.addEventListener('click', () => {
+            options.onApply(name);
+            closePopup();
+        });
+        return option;
+    };
+
+    btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+
+        if (popup) {
+            closePopup();
+            return;
+        }
+
+        popup = document.createElement('div');
+        popup.style.cssText = `
+            position: absolute;
+            top: 100%;
+            left: 0;
+            margin-top: 8px;
+            min-width: 200px;
+            background: ${isDark ? '#1e222d' : '#ffffff'};
+            border-radius: 8px;
+            padding: 8px;
+            box-shadow: 0 8px 32px rgba(0,0,0,${isDark ? '0.4' : '0.15'});
+            border: ${isDark ? 'none' : '1px solid #e0e3eb'};
+            z-index: 10000;
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+        `;
+
+        // Save as template
+        const saveRow = document.createElement('form');
+        saveRow.style.cssText = 'display: flex; gap: 4px; margin-bottom: 4px;';
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.placeholder = 'Save as template...';
+        input.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            padding: 6px 8px;
+            background: transparent;
+            border: 1px solid ${isDark ? '#363a45' : '#e0e3eb'};
+            border-radius: 4px;
+            color: ${textColor};
+            font-size: 13px;
+            outline: none;
+        `;
+        const save = document.createElement('button');
+        save.type = 'submit';
+        save.textContent = 'Save';
+        save.style.cssText = `
+            padding: 0 10px;
+            background: #2962ff;
+            border: none;
+            border-radius: 4px;
+            color: #fff;
+            font-size: 12px;
+            cursor: pointer;
+        `;
+        saveRow.appendChild(input);
+        saveRow.appendChild(save);
+        saveRow.addEventListener('submit', (ev) => {
+            ev.preventDefault();
+            const name = input.value.trim();
+            if (!name) return;
+            options.onSave(name);
+            closePopup();
+        });
+        popup.appendChild(saveRow);
+
+        const names = options.names();
+        if (names.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = 'No templates';
+            empty.style.cssText = `padding: 6px 12px; font-size: 12px; color: ${mutedColor};`;
+            popup.appendChild(empty);
+        }
+        for (const name of names) {
+            popup.appendChild(createOption(name));
+        }
+
+        wrapper.appendChild(popup);
+        input.focus();
+        setTimeout(() => document.addEventListener('click', handleClickOutside), 10);
+    });
+
+    wrapper.appendChild(btn);
+    return wrapper;
+}
@@ -6,4 +6,5 @@ export { createToolbarButton, ToolbarButtonOptions } from './ToolbarButton';
 export { createSeparator } from './Separator';
 export { createColorButton, ColorButtonOptions } from './ColorButton';
 export { createLineWidthButton } from './LineWidthButton';
+export { createTemplateButton, TemplateButtonOptions } from './TemplateButton';
 export { ICONS } from './Icons';
@@ -7,7 +7,7 @@ export { BaseAttributeBar, AttributeBarEvents } from './BaseAttributeBar';
 
 // Re-export components for external use
 export { ICONS } from './components';
-export { createToolbarButton, createSeparator, createColorButton, createLineWidthButton } from './components';
+export { createToolbarButton, createSeparator, createColorButton, createLineWidthButton, createTemplateButton } from './components';
 
 // Alias for backward compatibility
 export { BaseAttributeBar as FloatingAttributeBar } from './BaseAttributeBar';
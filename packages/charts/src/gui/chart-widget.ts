@@ -1,27 +1,61 @@
-import { ChartModel, ChartModelOptions, InvalidateReason } from '../model/chart-model';
+import { ChartModel, ChartModelOptions, InvalidateReason, SessionOptions } from '../model/chart-model';
 import { Delegate } from '../helpers/delegate';
 import { t, setLanguage, getCurrentLanguage } from '../helpers/translations';
 import { getTheme, ThemeType } from '../helpers/themes';
+import { parseTimeframe, getBarStartTime, getBarEndTime } from '../helpers/timeframe';
+import { exchangeTimeZone } from '../helpers/sessions';
 import { CandlestickSeries, CandlestickSeriesOptions } from '../model/candlestick-series';
 import { LineSeries, LineSeriesOptions } from '../model/line-series';
 import { AreaSeries, AreaSeriesOptions } from '../model/area-series';
+import { BarSeries, BarSeriesOptions } from '../model/bar-series';
+import { HollowCandleSeries, HollowCandleSeriesOptions } from '../model/hollow-candle-series';
+import { BaselineSeries, BaselineSeriesOptions } from '../model/baseline-series';
+import { StepLineSeries, StepLineSeriesOptions } from '../model/step-line-series';
+import { ColumnSeries, ColumnSeriesOptions } from '../model/column-series';
+import { HlcAreaSeries, HlcAreaSeriesOptions } from '../model/hlc-area-series';
 import { HeikenAshiSeries, HeikenAshiSeriesOptions } from '../series/heiken-ashi-series';
+import { TransformedSeries } from '../series/transformed-series';
+import { RenkoSeries, RenkoSeriesOptions } from '../series/renko-series';
+import { RangeSeries, RangeSeriesOptions } from '../series/range-series';
+import { KagiSeries, KagiSeriesOptions } from '../series/kagi-series';
+import { PointFigureSeries, PointFigureSeriesOptions } from '../series/point-figure-series';
+import { LineBreakSeries, LineBreakSeriesOptions } from '../series/line-break-series';
 import { BarData, LineData } from '../model/data';
+import { Series } from '../model/series';
 import { PriceScale, PriceScaleMode } from '../model/price-scale';
+import { coordinate } from '../model/coordinate';
 import { PaneWidget } from './pane-widget';
 import { PriceAxisWidget } from './price-axis-widget';
 import { TimeAxisWidget } from './time-axis-widget';
-import { ContextMenu, ICONS } from './context_menu';
-import { ToolbarWidget, ChartType } from './toolbar';
+import { ContextMenu, ContextMenuItem, ICONS } from './context_menu';
+import { ToolbarWidget, ChartType, PriceScaleModeType } from './toolbar';
 import { SymbolSearch, SymbolInfo } from './symbol_search';
-import { IndicatorPaneWidget, PanelIndicator, IndicatorManager, RSIIndicator, EMAIndicator, SMAIndicator, BBIndicator, MACDIndicator, StochIndicator, ParabolicSARIndicator, SuperTrendIndicator, AlphaTrendIndicator, IchimokuIndicator, ZigZagTrendlineIndicator, TrendlineBreakoutIndicator, VolumeIndicator, HMAIndicator, StochRSIIndicator, HalfTrendIndicator, TdojiOscillatorIndicator, ThunderbirdxIndicator, TdojiSRIndicator, TdojiMomIndicator, ZigZagIndicator, ABCDPatternIndicator, HarmonicPatternIndicator, ChartPatternsIndicator, OverlayIndicator } from '../indicators';
+import { IndicatorPaneWidget, Indicator, IndicatorOptions, PanelIndicator, IndicatorManager, OverlayIndicator, TimeframeDataLoader, createIndicator, VolumeIndicator } from '../indicators';
 import { IndicatorSearchModal } from './indicator_search';
 import { IndicatorSettingsModal } from './indicator_settings';
 import { DrawingToolbarWidget } from './drawing_toolbar';
-import { DrawingManager, DrawingMode } from '../drawings';
+import { Drawing, DrawingManager, DrawingMode, DrawingClipboard, SerializedDrawing } from '../drawings';
 import { FloatingAttributeBar } from './attribute_bar';
 import { createSettingsModal, BaseSettingsModal } from './settings_modal';
-import { ChartStateManager } from '../state';
+import { ChartState, ChartStateManager, DrawingTemplateManager, StorageAdapter } from '../state';
+import { HistoryManager, DrawingHistory, IndicatorHistory } from '../history';
+import { AlertManager } from '../alerts/alert-manager';
+import { AlertsPanel, ToastNotificationSink } from './alerts_panel';
+import { ObjectTreePanel } from './object_tree';
+import { LiquidationPanel } from './liquidation_panel';
+import { ReplayController } from '../replay/replay-controller';
+import { ReplayBar, ReplayStartPicker } from './replay_bar';
+import { ComparisonManager, ComparisonOptions } from '../comparison';
+import { LiquidationManager } from '../liquidations';
+import { DerivativesFeed } from '../derivatives';
+import { TradeFeed } from '../orderflow';
+import { CompareSeries } from '../series/compare-series';
+import { IBroker } from '../trading/broker';
+import { PaperBroker } from '../trading/paper-broker';
+import { AccountPanel, OrderLines } from './trading';
+import { compilePine, PineError } from '../pine';
+import { createPineIndicator, PineIndicator, PineIndicatorOptions, PineOverlayIndicator } from '../indicators/pine-indicator';
+import { PineEditor } from './pine_editor';
 import { AddTextTooltipHelper } from './tooltips';
 import { TechnicalRatingBadge } from './technical-rating-badge';
 import {
@@ -31,10 +65,16 @@ import {
     BybitFuturesProvider,
     OkxSpotProvider,
     OkxFuturesProvider,
-    Orderbook
+    Orderbook,
+    SymbolMetadata,
+    createSymbolMetadata,
+    isSyntheticSymbol,
+    symbolPriceFormat
 } from '../data-providers';
 import { BistDataProvider } from '../data-providers/stocks/bist';
-import { OrderbookHeatmapRenderer } from '../renderers/orderbook-heatmap-renderer';
+import { OrderbookHeatmapRenderer, HeatmapOptions } from '../renderers/orderbook-heatmap-renderer';
+import { OrderbookHistory } from '../model/orderbook-history';
+import { LiquidationHeatmapRenderer, LiquidationHeatmapOptions } from '../renderers/liquidation-heatmap-renderer';
 
 // Type for all orderbook providers
 type OrderbookProvider = BinanceSpotProvider | BinanceFuturesProvider |
@@ -58,6 +98,7 @@ import {
     handleContextFullscreen,
     handleContextResetChart
 } from './chart_widget';
+import { SymbolSettings, PRICE_SCALE_MODES, getPriceScaleModeType } from './chart_widget';
 
 
 /** Disposable interface for cleanup */
@@ -65,6 +106,25 @@ interface Disposable {
     dispose(): void;
 }
 
+/**
+ * Loads bars opened strictly before `endTime` (the first loaded bar's time).
+ * Resolve with an empty array once there is no more history.
+ */
+export type HistoryLoader = (endTime: number) => Promise<BarData[]>;
+
+/** Time and main pane price under the crosshair, shown by linked charts */
+export interface CrosshairSyncPosition {
+    time: number;
+    /** null while the pointer is over an indicator pane */
+    price: number | null;
+}
+
+/** Times of the left and right edges of the chart */
+export interface VisibleTimeRange {
+    from: number;
+    to: number;
+}
+
 /**
  * Chart widget - main UI container
  */
@@ -84,6 +144,8 @@ export class ChartWidget implements Disposable {
     private _symbolSearch: SymbolSearch | null = null;
     private _paneWidget: PaneWidget | null = null;
     private _priceAxisWidget: PriceAxisWidget | null = null;
+    /** Hidden until a series or overlay indicator is on the left scale */
+    private _leftPriceAxisWidget: PriceAxisWidget | null = null;
     private _timeAxisWidget: TimeAxisWidget | null = null;
     private _floatingAttributeBar: FloatingAttributeBar | null = null;
     private _drawingSettingsModal: BaseSettingsModal | null = null;
@@ -106,6 +168,7 @@ export class ChartWidget implements Disposable {
     // Interaction state
     private _isDragging: boolean = false;
     private _isPriceScaleDragging: boolean = false;
+    private _isDraggingBaseline: boolean = false;
     private _lastMouseX: number = 0;
     private _lastMouseY: number = 0;
     private _interactionPaneId: string | null = null;
@@ -114,6 +177,16 @@ export class ChartWidget implements Disposable {
 
     private readonly _symbolChanged = new Delegate<string>();
     private readonly _timeframeChanged = new Delegate<string>();
+    private readonly _crosshairMoved = new Delegate<CrosshairSyncPosition | null>();
+
+    /** Crosshair set with setCrosshairPosition() until the pointer moves over the chart */
+    private _externalCrosshair: boolean = false;
+    private _externalCrosshairY: number | null = null;
+    private _pointerOverChart: boolean = false;
+    private _keyboardEnabled: boolean = true;
+
+    /** Document and window listeners, removed on dispose */
+    private readonly _globalListeners: { target: Document | Window; type: string; listener: (e: any) => void }[] = [];
 
     // Context menu
     private _contextMenu: ContextMenu | null = null;
@@ -131,10 +204,59 @@ export class ChartWidget implements Disposable {
     private _indicatorSearchModal: IndicatorSearchModal | null = null;
     private _indicatorSettingsModal: IndicatorSettingsModal | null = null;
     private _editingIndicator: PanelIndicator | null = null;
+    /** Options of the edited indicator when its settings were opened */
+    private _editingIndicatorOptions: IndicatorOptions | null = null;
+    private _editingSymbol: SymbolSettings | null = null;
 
     // State persistence
     private _chartStateManager: ChartStateManager | null = null;
 
+    // Drawing copy/paste and style templates
+    private readonly _drawingClipboard = new DrawingClipboard();
+    private readonly _drawingTemplates: DrawingTemplateManager;
+
+    // Undo/redo
+    private readonly _history: HistoryManager;
+    private _drawingHistory: DrawingHistory | null = null;
+    private readonly _indicatorHistory: IndicatorHistory;
+
+    // Price alerts
+    private readonly _alertManager: AlertManager;
+    private _alertsPanel: AlertsPanel | null = null;
+    private _objectTreePanel: ObjectTreePanel | null = null;
+    private _alertToasts: ToastNotificationSink | null = null;
+
+    // Bar replay
+    private readonly _replay: ReplayController;
+    private _replayBar: ReplayBar | null = null;
+    private _replayPicker: ReplayStartPicker | null = null;
+    /** Timeframe changed during the replay, comparisons and derivatives reload when it ends */
+    private _replayReloadPending: boolean = false;
+
+    // Compared symbols
+    private readonly _comparisons: ComparisonManager;
+    /** What the next symbol search pick is for */
+    private _symbolSearchTarget: 'symbol' | 'compare' = 'symbol';
+
+    // Open interest, funding and liquidations of the chart symbol
+    private readonly _derivatives: DerivativesFeed;
+
+    // Live trades of the chart symbol for the footprint and order flow indicators
+    private readonly _trades: TradeFeed;
+
+    // Estimated liquidation levels
+    private readonly _liquidations: LiquidationManager;
+    private readonly _liquidationRenderer = new LiquidationHeatmapRenderer();
+    private _liquidationPanel: LiquidationPanel | null = null;
+
+    // Trading
+    private _broker: IBroker | null = null;
+    /** The broker was created by the trading button and is destroyed with the chart */
+    private _ownsBroker: boolean = false;
+    private _orderLines: OrderLines | null = null;
+    private _accountPanel: AccountPanel | null = null;
+    private _pineEditor: PineEditor | null = null;
+
     // Add Text tooltip
     private _addTextTooltipHelper: AddTextTooltipHelper | null = null;
     private _hoveredDrawingForText: string | null = null;
@@ -155,15 +277,31 @@ export class ChartWidget implements Disposable {
     private _currentSymbol: string = '';
     private _currentExchange: string = 'BINANCE';
 
+    // Tick size and precision of the current symbol
+    private _symbolMetadata: SymbolMetadata | null = null;
+    private _symbolMetadataRequest: number = 0;
+
     // Throttling for orderbook updates
     private _lastOrderbookUpdate: number = 0;
+    /** Orderbook snapshots over time, drawn behind the candles by the heatmap */
+    private readonly _orderbookHistory = new OrderbookHistory();
 
     // Auto-resize
     private _resizeObserver: ResizeObserver | null = null;
 
+    // Lazy history loading (scrolling towards the first loaded bar)
+    private _historyLoader: HistoryLoader | null = null;
+    private _historyLoading: boolean = false;
+    private _historyExhausted: boolean = false;
+    private _historyRequestId: number = 0;
 
+    // Last source fed to indicators, scrolling fires Data invalidations too
+    private _indicatorSource: BarData[] | null = null;
+    private _indicatorSourceKey: string = '';
 
-    constructor(container: HTMLElement | string, options: Partial<ChartModelOptions> & { symbol?: string, timeframe?: string, exchange?: string, locale?: string } = {}) {
+
+
+    constructor(container: HTMLElement | string, options: Partial<ChartModelOptions> & { symbol?: string, timeframe?: string, exchange?: string, locale?: string, historyDepth?: number, storage?: StorageAdapter } = {}) {
         // Check localStorage for theme preference
         try {
             const savedTheme = localStorage.getItem('tv-chart-theme');
@@ -199,21 +337,72 @@ export class ChartWidget implements Disposable {
         // Set initial symbol/timeframe in model
         this._model.setSymbol(initialSymbol);
         this._model.setTimeframe(initialTimeframe);
+        this._model.setExchange(initialExchange);
 
         // Initialize indicator manager
         this._indicatorManager = new IndicatorManager();
         this._indicatorManager.onPaneAdded = this._onIndicatorPaneAdded.bind(this);
         this._indicatorManager.onPaneRemoved = this._onIndicatorPaneRemoved.bind(this);
-        this._indicatorManager.onIndicatorAdded = () => this._updateMainLegend();
-        this._indicatorManager.onIndicatorRemoved = () => this._updateMainLegend();
+        this._indicatorManager.onIndicatorAdded = () => this._onOverlayIndicatorsChanged();
+        this._indicatorManager.onIndicatorRemoved = () => this._onOverlayIndicatorsChanged();
+        // Lower timeframe bars of the volume profiles
+        this._indicatorManager.onTimeframeLoaded = () => this._scheduleDraw();
+        this._model.setPriceScaleItems(() => this._indicatorManager.overlayIndicators);
+
+        // Undo/redo of drawing, indicator and chart setting edits
+        this._history = new HistoryManager({ maxDepth: options.historyDepth ?? 100 });
+        this._history.historyChanged.subscribe(() => this._onHistoryChanged());
+        this._indicatorHistory = new IndicatorHistory(this._indicatorManager, this._history, {
+            addIndicator: (indicator) => {
+                if (indicator instanceof OverlayIndicator) {
+                    this.addOverlayIndicator(indicator);
+                } else if (indicator instanceof PanelIndicator) {
+                    this.addIndicator(indicator);
+                }
+            },
+            removeIndicator: (id) => this.removeIndicator(id),
+            indicatorChanged: () => {
+                this._model.recalculateAllPanes();
+                this._updateMainLegend();
+                this._scheduleDraw();
+                this._chartStateManager?.saveState();
+            },
+        });
 
         // Initialize drawing manager
         this._drawingManager = new DrawingManager();
-        this._drawingManager.setScales(this._model.timeScale, this._model.rightPriceScale);
+        this._drawingManager.setScales(this._model.timeScale, this._model.mainPriceScale);
+        this._drawingManager.setTimeframe(initialTimeframe);
+        this._syncOrderbookHistoryTimeframe();
         this._drawingManager.drawingsChanged.subscribe(() => this._scheduleDraw());
 
+        // Initialize alert manager, evaluated on every data update
+        this._alertManager = new AlertManager(this._drawingManager, this._indicatorManager);
+
+        // Initialize bar replay, it drives the main series like a live feed
+        this._replay = new ReplayController(this);
+        this._replay.stateChanged.subscribe(() => this._onReplayStateChanged());
+
+        // Initialize comparisons, loaded from the provider set with comparisons.setProvider()
+        this._comparisons = new ComparisonManager(this._model);
+        this._comparisons.comparisonsChanged.subscribe(() => this._scheduleDraw());
+
+        // Initialize derivatives data, loaded from the provider set with derivatives.setProvider()
+        this._derivatives = new DerivativesFeed(this._model);
+        this._indicatorManager.derivativesFeed = this._derivatives;
+
+        // Initialize the trade feed, streamed from the provider set with trades.setProvider()
+        this._trades = new TradeFeed(this._model);
+        this._indicatorManager.tradeFeed = this._trades;
+
+        // Initialize liquidation levels, estimated from the open interest of the derivatives feed
+        this._liquidations = new LiquidationManager(this._derivatives);
+        this._liquidations.changed.subscribe(() => this._scheduleDraw());
+        this._liquidationRenderer.setMap(this._liquidations.map);
+
         // Initialize chart state manager for per-symbol persistence
-        this._chartStateManager = new ChartStateManager(this._drawingManager, this._indicatorManager);
+        this._chartStateManager = new ChartStateManager(this._drawingManager, this._indicatorManager, options.storage, this._alertManager);
+        this._drawingTemplates = new DrawingTemplateManager(this._chartStateManager.storage);
         // Note: setSymbol is called AFTER _createLayout to ensure UI containers exist
 
         // Subscribe to drawing selection changes - show/hide attribute bar
@@ -228,12 +417,16 @@ export class ChartWidget implements Disposable {
         // Subscribe to invalidation
         this._model.invalidated.subscribe(this._onInvalidated.bind(this));
 
+        // Page in older bars when scrolling towards the first loaded bar
+        this._model.timeScale.leftEdgeApproached.subscribe(() => this._loadMoreHistory());
+
         // Build UI
         this._createLayout();
         this._setupEventListeners();
 
         // Now that UI is created, load saved state for symbol
         this._chartStateManager.setSymbol(initialSymbol);
+        this._drawingHistory = new DrawingHistory(this._drawingManager, this._history);
 
         // Initialize indicator search modal
         this._indicatorSearchModal = new IndicatorSearchModal(this._container);
@@ -246,23 +439,38 @@ export class ChartWidget implements Disposable {
         this._indicatorSettingsModal.settingsChanged.subscribe(() => {
             if (this._editingIndicator) {
                 // The modular modal already applies every changed setting through
-                // setSettingValue(...). Re-running a full recalculation here can
-                // reset live ZigZag-based pattern state and make the signal look
-                // inactive right after changing inputs.
+                // setSettingValue(...). Re-running a full recalculation of every
+                // indicator here can reset live ZigZag-based pattern state and make
+                // the signal look inactive right after changing inputs.
+                // Indicators such as EMA/RSI only report that their inputs changed,
+                // so recalculate just the edited one when asked to.
+                if (this._indicatorSettingsModal?.needsRecalc) {
+                    this._indicatorManager.recalculateIndicator(this._editingIndicator.id);
+                }
+                if (this._editingIndicatorOptions) {
+                    this._indicatorHistory.recordOptionsChanged(this._editingIndicator, this._editingIndicatorOptions);
+                }
 
                 this._updateMainLegend();
                 this._scheduleDraw();
 
                 // Save state after settings change
                 this._chartStateManager?.saveState();
+            } else if (this._editingSymbol) {
+                this._applySymbolSettings(this._editingSymbol);
             }
             this._editingIndicator = null;
+            this._editingIndicatorOptions = null;
+            this._editingSymbol = null;
         });
 
         // Subscribe to price scale changes for Y-axis dragging
         this._model.rightPriceScale.rangeChanged.subscribe(() => {
             this._scheduleDraw();
         });
+        this._model.leftPriceScale.rangeChanged.subscribe(() => {
+            this._scheduleDraw();
+        });
 
         // Initial size
         this._updateSize();
@@ -311,6 +519,7 @@ export class ChartWidget implements Disposable {
         }
 
         this._heatmapRenderer = new OrderbookHeatmapRenderer();
+        this._heatmapRenderer.setHistory(this._orderbookHistory);
         if (this._heatmapRenderer && this._toolbarWidget) {
             this._heatmapRenderer.enabled = this._toolbarWidget.domEnabled;
         }
@@ -319,6 +528,7 @@ export class ChartWidget implements Disposable {
 
         // Subscribe to orderbook if enabled
         this._currentSymbol = this._model.symbol;
+        this._loadSymbolMetadata(this._currentSymbol);
         if (this._toolbarWidget?.domEnabled && this._dataProvider) {
             this._dataProvider.subscribeOrderbook(this._currentSymbol, this._onOrderbookUpdate);
         }
@@ -329,6 +539,7 @@ export class ChartWidget implements Disposable {
      */
     private _onOrderbookUpdate = (orderbook: Orderbook): void => {
         const now = Date.now();
+        this._orderbookHistory.addSnapshot(orderbook, orderbook.timestamp || now);
         if (now - this._lastOrderbookUpdate > 500) {
             this._lastOrderbookUpdate = now;
             this._heatmapRenderer?.updateOrderbook({
@@ -370,6 +581,107 @@ export class ChartWidget implements Disposable {
         return this._timeframeChanged;
     }
 
+    /** Fired while the pointer moves over the chart, null once it leaves */
+    get crosshairMoved(): Delegate<CrosshairSyncPosition | null> {
+        return this._crosshairMoved;
+    }
+
+    get drawings(): DrawingManager {
+        return this._drawingManager;
+    }
+
+    /** Keyboard shortcuts act on this chart; a layout enables them on the active chart only */
+    get keyboardEnabled(): boolean {
+        return this._keyboardEnabled;
+    }
+
+    set keyboardEnabled(enabled: boolean) {
+        this._keyboardEnabled = enabled;
+    }
+
+    /**
+     * Switch the symbol as if it was picked in symbol search. Fires symbolChanged,
+     * the host loads its bars.
+     */
+    setSymbol(symbol: string, exchange?: string): void {
+        if (symbol === this._model.symbol && (!exchange || exchange === this._currentExchange)) return;
+        this._onSymbolChange({ symbol, exchange: exchange ?? this._currentExchange });
+    }
+
+    /** Switch the timeframe as if it was picked in the toolbar */
+    setTimeframe(timeframe: string): void {
+        if (timeframe === this._model.timeframe) return;
+        if (this._toolbarWidget) {
+            this._toolbarWidget.setTimeframe(timeframe);
+        } else {
+            this._onTimeframeChange(timeframe);
+        }
+    }
+
+    /**
+     * Show a crosshair at a time and price, e.g. the crosshair of a linked chart.
+     * The price line is left out when price is null or off the chart.
+     */
+    setCrosshairPosition(position: CrosshairSyncPosition | null): void {
+        const x = position ? this._drawingManager.timeToPixel(position.time) : null;
+        if (x === null || x < 0 || x > this._model.timeScale.width) {
+            this._externalCrosshair = false;
+            this._model.setCrosshairPosition(0, 0, false);
+            return;
+        }
+
+        const y = position!.price !== null ? this._model.mainPriceScale.priceToCoordinate(position!.price) : null;
+        this._externalCrosshair = true;
+        this._externalCrosshairY = y;
+        this._model.setCrosshairPosition(x, y ?? 0, true);
+    }
+
+    /** Times at the chart edges, null before bars are loaded */
+    visibleTimeRange(): VisibleTimeRange | null {
+        const from = this._drawingManager.pixelToTime(0);
+        const to = this._drawingManager.pixelToTime(this._model.timeScale.width - 1);
+        if (from === null || to === null) return null;
+        return { from, to };
+    }
+
+    /** Scroll and zoom to show a time range, e.g. the range of a linked chart */
+    setVisibleTimeRange(range: VisibleTimeRange): void {
+        const fromX = this._drawingManager.timeToPixel(range.from);
+        const toX = this._drawingManager.timeToPixel(range.to);
+        if (fromX === null || toX === null) return;
+
+        const timeScale = this._model.timeScale;
+        timeScale.setVisibleLogicalRange(
+            timeScale.coordinateToFloatIndex(coordinate(fromX)),
+            timeScale.coordinateToFloatIndex(coordinate(toX))
+        );
+        this._model.recalculateAllPanes();
+    }
+
+    /**
+     * Replace the drawings without an undo entry, e.g. with the drawings
+     * of a linked chart
+     */
+    setDrawings(drawings: SerializedDrawing[]): void {
+        this._drawingManager.deserialize(drawings);
+        this._drawingHistory?.reset();
+        this._scheduleDraw();
+    }
+
+    /** Drawings, indicators and alerts of the chart, e.g. to save them with a layout */
+    serializeState(): ChartState | null {
+        return this._chartStateManager?.getState() ?? null;
+    }
+
+    /** Restore a state from serializeState(); edits before it can't be undone */
+    restoreState(state: ChartState): void {
+        this._chartStateManager?.applyState(state);
+        this._history.clear();
+        this._drawingHistory?.reset();
+        this._objectTreePanel?.refresh();
+        this._scheduleDraw();
+    }
+
     resize(width: number, height: number): void {
         this._width = width;
         this._height = height;
@@ -389,35 +701,241 @@ export class ChartWidget implements Disposable {
         return this._model.addAreaSeries(options);
     }
 
+    addBarSeries(options?: Partial<BarSeriesOptions>): BarSeries {
+        return this._model.addBarSeries(options);
+    }
+
+    addHollowCandleSeries(options?: Partial<HollowCandleSeriesOptions>): HollowCandleSeries {
+        return this._model.addHollowCandleSeries(options);
+    }
+
+    addBaselineSeries(options?: Partial<BaselineSeriesOptions>): BaselineSeries {
+        return this._model.addBaselineSeries(options);
+    }
+
+    addStepLineSeries(options?: Partial<StepLineSeriesOptions>): StepLineSeries {
+        return this._model.addStepLineSeries(options);
+    }
+
+    addColumnSeries(options?: Partial<ColumnSeriesOptions>): ColumnSeries {
+        return this._model.addColumnSeries(options);
+    }
+
+    addHlcAreaSeries(options?: Partial<HlcAreaSeriesOptions>): HlcAreaSeries {
+        return this._model.addHlcAreaSeries(options);
+    }
+
     addHeikenAshiSeries(options?: Partial<HeikenAshiSeriesOptions>): HeikenAshiSeries {
         return this._model.addHeikenAshiSeries(options);
     }
 
-    setData(series: CandlestickSeries | LineSeries | AreaSeries | HeikenAshiSeries, data: BarData[] | LineData[]): void {
+    addRenkoSeries(options?: Partial<RenkoSeriesOptions>): RenkoSeries {
+        return this._model.addRenkoSeries(options);
+    }
+
+    addRangeSeries(options?: Partial<RangeSeriesOptions>): RangeSeries {
+        return this._model.addRangeSeries(options);
+    }
+
+    addKagiSeries(options?: Partial<KagiSeriesOptions>): KagiSeries {
+        return this._model.addKagiSeries(options);
+    }
+
+    addPointFigureSeries(options?: Partial<PointFigureSeriesOptions>): PointFigureSeries {
+        return this._model.addPointFigureSeries(options);
+    }
+
+    addLineBreakSeries(options?: Partial<LineBreakSeriesOptions>): LineBreakSeries {
+        return this._model.addLineBreakSeries(options);
+    }
+
+    setData(series: Series, data: BarData[] | LineData[]): void {
+        // New data set, drop any in-flight history page and allow paging again
+        this._historyRequestId++;
+        this._historyLoading = false;
+        this._historyExhausted = false;
+
         series.setData(data as any);
 
-        // Update timestamps
-        this._timestamps = data.map(d => d.time);
+        // Alerts compare with the previous update, which belongs to the old data
+        this._alertManager.resetEvaluation();
+
+        // Update timestamps (of the plotted bars, Renko bricks etc. don't map 1:1 to candles)
+        this._syncTimestamps(series);
+
+        // Update indicators with new data (only for BarData, not LineData)
+        if (data.length > 0 && 'open' in data[0]) {
+            const indicatorData = this._resolveIndicatorSourceData(series, data as BarData[]);
+            this._setIndicatorSource(indicatorData);
+        }
+    }
+
+    /**
+     * Register the loader used to page in older bars when the user scrolls
+     * towards the first loaded bar. Pass null to disable lazy loading.
+     */
+    setHistoryLoader(loader: HistoryLoader | null): void {
+        this._historyLoader = loader;
+        this._historyExhausted = false;
+    }
+
+    /**
+     * Register the loader used by indicators calculated on a higher timeframe
+     * (the indicator's 'timeframe' input). Without a loader their bars are
+     * aggregated from the loaded chart data.
+     */
+    setTimeframeDataLoader(loader: TimeframeDataLoader | null): void {
+        this._indicatorManager.timeframeDataLoader = loader;
+    }
+
+    /**
+     * Orderbook snapshots over time, recorded while the DOM heatmap is on.
+     * setOptions() picks the bucket (one per bar by default) and memory limits.
+     */
+    get orderbookHistory(): OrderbookHistory {
+        return this._orderbookHistory;
+    }
+
+    /** Colors, normalization and history display of the orderbook heatmap */
+    setHeatmapOptions(options: Partial<HeatmapOptions>): void {
+        this._heatmapRenderer?.setOptions(options);
+        this._scheduleDraw();
+    }
+
+    /**
+     * Prepend older bars to a series without moving the viewport.
+     * Bars at or after the first loaded bar are ignored.
+     * @returns number of bars actually prepended
+     */
+    prependData(series: Series, data: BarData[] | LineData[]): number {
+        const firstTime = series.data.length > 0 ? series.data[0].time : Infinity;
+        const older = (data as Array<BarData | LineData>).filter(d => d.time < firstTime);
+        if (older.length === 0) return 0;
+
+        // The time scale is anchored to the last bar, so growing the series on the
+        // left keeps every visible bar at the same x
+        series.prependData(older as any);
+
+        // Drawings are anchored by time, they only need the new index mapping
+        this._syncTimestamps(series);
+
+        if ('open' in older[0]) {
+            if (series instanceof TransformedSeries) {
+                // Transforms are path dependent, older bars change the whole series
+                this._setIndicatorSource(series.plotData as BarData[]);
+            } else {
+                this._indicatorManager.prependData(older as BarData[]);
+                this._indicatorSource = series.data as BarData[];
+                this._indicatorSourceKey = this._getIndicatorSourceKey(this._indicatorSource);
+            }
+        }
+
+        this._model.fullUpdate();
+        return older.length;
+    }
+
+    /** Close of the last bar of the main series, null without bars */
+    private _lastClose(): number | null {
+        const data = this._model.serieses[0]?.data;
+        const last = data?.[data.length - 1] as any;
+        if (!last) return null;
+        return last.close ?? last.value ?? null;
+    }
+
+    /** Point the time axis and drawings at the plotted bars if they changed */
+    private _syncTimestamps(series: Series): void {
+        const plotData = series.plotData;
+        const last = plotData[plotData.length - 1];
+        if (
+            plotData.length === this._timestamps.length &&
+            (!last || last.time === this._timestamps[this._timestamps.length - 1]) &&
+            (plotData.length === 0 || plotData[0].time === this._timestamps[0])
+        ) {
+            return;
+        }
+
+        this._timestamps = plotData.map(d => d.time);
         if (this._timeAxisWidget) {
             this._timeAxisWidget.updateTimestamps(this._timestamps);
         }
 
         // Update drawing manager timestamps for accurate positioning across timeframes
         this._drawingManager.setTimestamps(this._timestamps);
+    }
 
-        // Update indicators with new data (only for BarData, not LineData)
-        if (data.length > 0 && 'open' in data[0]) {
-            const indicatorData = this._resolveIndicatorSourceData(series, data as BarData[]);
-            this._indicatorManager.setData(indicatorData);
+    /** Recalculate indicators unless they were already fed this exact data */
+    private _setIndicatorSource(data: BarData[]): void {
+        this._indicatorManager.setChartContext(this._model.symbol, this._model.timeframe);
+        this._updateIndicatorMarket();
+
+        const key = this._getIndicatorSourceKey(data);
+        if (data === this._indicatorSource && key === this._indicatorSourceKey) return;
+
+        this._indicatorSource = data;
+        this._indicatorSourceKey = key;
+        this._indicatorManager.setData(data);
+
+        // Scales of overlay indicators fit their new values
+        this._model.updatePriceRanges();
+    }
+
+    /** Session, time zone and tick size of the symbol for the volume profiles */
+    private _updateIndicatorMarket(): void {
+        this._indicatorManager.marketContext = {
+            session: this._model.session,
+            timeZone: this._model.timeZone,
+            priceFormat: this._model.priceFormat,
+        };
+    }
+
+    /** Cheap fingerprint catching replaced arrays, appended bars and live last-bar updates */
+    private _getIndicatorSourceKey(data: readonly BarData[]): string {
+        if (data.length === 0) return '0';
+        const first = data[0];
+        const last = data[data.length - 1];
+        return `${data.length}:${first.time}:${last.time}:${last.open}:${last.high}:${last.low}:${last.close}:${last.volume}`;
+    }
+
+    private async _loadMoreHistory(): Promise<void> {
+        if (!this._historyLoader || this._historyLoading || this._historyExhausted) return;
+
+        // Replay owns the series, the bars it hides must not come back through paging
+        if (this._replay.active) return;
+
+        const series = this._model.serieses[0];
+        if (!series || series.data.length === 0) return;
+
+        const requestId = this._historyRequestId;
+        this._historyLoading = true;
+
+        try {
+            const older = await this._historyLoader(series.data[0].time);
+
+            // Data was replaced (symbol/timeframe change) while the page was in flight
+            if (requestId !== this._historyRequestId) return;
+
+            const added = this.prependData(series as any, older);
+            if (added === 0) {
+                this._historyExhausted = true;
+            } else {
+                void this._comparisons.loadHistory(series.data[0].time);
+                void this._derivatives.loadHistory(series.data[0].time);
+            }
+        } catch (e) {
+            console.error('Failed to load history:', e);
+        } finally {
+            if (requestId === this._historyRequestId) {
+                this._historyLoading = false;
+            }
         }
     }
 
     private _resolveIndicatorSourceData(
-        series: CandlestickSeries | LineSeries | AreaSeries | HeikenAshiSeries,
+        series: Series,
         fallbackData: BarData[]
     ): BarData[] {
-        if (series instanceof HeikenAshiSeries) {
-            return series.haData;
+        if (series instanceof TransformedSeries) {
+            return series.plotData as BarData[];
         }
 
         return fallbackData;
@@ -427,8 +945,145 @@ export class ChartWidget implements Disposable {
         return this._model.timeScale;
     }
 
-    priceScale() {
-        return this._model.rightPriceScale;
+    /**
+     * Price scale by id: 'right', 'left' or an overlay scale
+     */
+    priceScale(id: string = 'right') {
+        return this._model.priceScale(id);
+    }
+
+    /**
+     * Public API: Move a series (the main series, a comparison) to the
+     * 'right' or 'left' scale or to an overlay scale of its own
+     */
+    setSeriesPriceScale(series: Series, priceScaleId: string): void {
+        this._model.setSeriesPriceScale(series, priceScaleId);
+        if (series === this._model.serieses[0]) {
+            this._onMainPriceScaleChanged();
+        }
+        this._scheduleDraw();
+    }
+
+    /**
+     * Public API: Move an overlay indicator to the 'right' or 'left' scale
+     * or to an overlay scale, e.g. 'volume' in the bottom 20% of the pane
+     * @returns false when there is no such overlay indicator; panel indicators
+     * keep the scale of their own pane
+     */
+    setIndicatorPriceScale(id: string, priceScaleId: string): boolean {
+        const indicator = this._indicatorManager.getIndicator(id);
+        if (!(indicator instanceof OverlayIndicator)) return false;
+        if (indicator.priceScaleId === priceScaleId) return true;
+
+        indicator.applyOptions({ priceScaleId });
+        this._model.recalculateAllPanes();
+        return true;
+    }
+
+    /**
+     * Public API: Undo/redo stack of drawing, indicator and chart setting edits
+     */
+    get history(): HistoryManager {
+        return this._history;
+    }
+
+    /**
+     * Public API: Revert the last edit (Ctrl+Z)
+     */
+    undo(): void {
+        if (this._history.undo()) {
+            this._scheduleDraw();
+        }
+    }
+
+    /**
+     * Public API: Re-apply the last undone edit (Ctrl+Shift+Z)
+     */
+    redo(): void {
+        if (this._history.redo()) {
+            this._scheduleDraw();
+        }
+    }
+
+    /**
+     * Public API: Copy the selected drawings (Ctrl+C), to paste on this or
+     * another symbol or timeframe
+     * @returns false when no drawing is selected
+     */
+    copySelectedDrawing(): boolean {
+        const selected = this._drawingManager.selectedDrawings;
+        if (selected.length === 0) return false;
+        this._drawingClipboard.copy(selected, this._model.symbol, this._lastClose());
+        return true;
+    }
+
+    /**
+     * Public API: Paste copied drawings (Ctrl+V) and select them.
+     * Drawings copied from an indicator pane this chart doesn't have are skipped.
+     */
+    pasteDrawings(): Drawing[] {
+        const drawings = this._drawingClipboard.contents(this._model.symbol, this._lastClose())
+            .filter(item => !item.paneId || this._indicatorPanes.has(item.paneId));
+        const pasted = this._drawingManager.addDrawings(drawings);
+        if (pasted.length > 0) {
+            this._scheduleDraw();
+        }
+        return pasted;
+    }
+
+    /**
+     * Public API: Named drawing styles, saved per drawing type
+     */
+    get drawingTemplates(): DrawingTemplateManager {
+        return this._drawingTemplates;
+    }
+
+    /**
+     * Public API: Apply a template of its type to the selected drawing
+     * @returns false when no drawing is selected or it has no such template
+     */
+    applyDrawingTemplate(name: string): boolean {
+        const selected = this._drawingManager.selectedDrawing;
+        const template = selected ? this._drawingTemplates.getTemplate(selected.type, name) : null;
+        if (!selected || !template) return false;
+
+        this._drawingManager.applyProperties(selected.id, template.properties);
+        this._scheduleDraw();
+        return true;
+    }
+
+    /**
+     * Public API: Time zone of the time axis, crosshair and drawing labels:
+     * 'local', 'exchange' (UTC for crypto) or an IANA name like 'Europe/Istanbul'
+     */
+    setTimeZone(timeZone: string): void {
+        const before = this._model.options.timeZone;
+        this._model.setTimeZone(timeZone);
+        this._recordSetting('Change time zone', before, timeZone, (value) => this.setTimeZone(value));
+    }
+
+    /**
+     * Public API: Trading session shading and session-break lines
+     */
+    setSessionOptions(options: Partial<SessionOptions>): void {
+        const before = { ...this._model.options.sessions };
+        this._model.setSessionOptions(options);
+        this._recordSetting('Change sessions', before, { ...this._model.options.sessions }, (value) => this.setSessionOptions(value));
+    }
+
+    /**
+     * Public API: Tick size and precision of the symbol, used by the price
+     * axes, crosshair, drawing labels, position tools and the magnet.
+     * Set automatically on symbol change; null guesses decimals from the price.
+     */
+    setSymbolMetadata(metadata: SymbolMetadata | null): void {
+        // Wins over a lookup still in flight
+        this._symbolMetadataRequest++;
+        this._applySymbolMetadata(metadata);
+    }
+
+    get symbolMetadata(): SymbolMetadata | null {
+        return this._symbolMetadata;
     }
 
     /**
@@ -518,6 +1173,7 @@ export class ChartWidget implements Disposable {
         if (this._priceAxisWidget) {
             this._priceAxisWidget.setTheme(theme);
         }
+        this._leftPriceAxisWidget?.setTheme(theme);
 
         // Update main chart pane
         if (this._paneWidget) {
@@ -589,6 +1245,7 @@ export class ChartWidget implements Disposable {
             --tv-drawing-toolbar-width: 48px;
             --tv-time-axis-height: 28px;
             --tv-price-axis-width: 80px;
+            --tv-left-price-axis-width: 0px;
             --tv-content-padding: 12px;
         `;
 
@@ -625,7 +1282,7 @@ export class ChartWidget implements Disposable {
             position: absolute;
             top: 140px;
             /* Using CSS Custom Properties for positioning */
-            left: calc(var(--tv-drawing-toolbar-width) + var(--tv-content-padding));
+            left: calc(var(--tv-drawing-toolbar-width) + var(--tv-left-price-axis-width) + var(--tv-content-padding));
             z-index: 20;
             display: flex;
             flex-direction: column;
@@ -773,7 +1430,7 @@ export class ChartWidget implements Disposable {
                     0 0 20px rgba(41, 98, 255, 0.4),
                     2px 2px 4px rgba(0, 0, 0, 0.5);
                 /* Using CSS Custom Properties for positioning */
-                left: calc(var(--tv-drawing-toolbar-width) + var(--tv-content-padding));
+                left: calc(var(--tv-drawing-toolbar-width) + var(--tv-left-price-axis-width) + var(--tv-content-padding));
                 bottom: calc(var(--tv-time-axis-height) + var(--tv-content-padding));
             `;
 
@@ -811,13 +1468,22 @@ export class ChartWidget implements Disposable {
         // Initialize Symbol Search Modal
         this._symbolSearch = new SymbolSearch();
         this._symbolSearch.symbolSelected.subscribe((symbol: SymbolInfo) => {
-            this._onSymbolChange(symbol);
+            this._onSymbolSearchSelected(symbol);
         });
 
         // Create widgets
         this._paneWidget = new PaneWidget(this._chartRow, this._model);
+        this._paneWidget.setLiquidationRenderer(this._liquidationRenderer);
+        this._paneWidget.setLowerTimeframeSource((timeframe) => this._indicatorManager.lowerTimeframeBars(timeframe));
 
         // Connect overlay indicator action callback
+        this._paneWidget.onComparisonAction = (action, index) => {
+            const series = this._comparisons.comparisons[index];
+            if (action === 'remove' && series) {
+                this._comparisons.remove(series.symbol);
+            }
+        };
+
         this._paneWidget.onOverlayIndicatorAction = (action, index) => {
             const indicators = this._indicatorManager.overlayIndicators;
             if (index < 0 || index >= indicators.length) return;
@@ -825,14 +1491,13 @@ export class ChartWidget implements Disposable {
 
             switch (action) {
                 case 'toggle':
-                    indicator.setVisible(!indicator.visible);
-                    this._scheduleDraw();
+                    this._toggleIndicatorVisible(indicator);
                     break;
                 case 'settings':
                     this._openIndicatorSettings(indicator);
                     break;
                 case 'remove':
-                    this._indicatorManager.removeIndicator(indicator.id);
+                    this.removeIndicator(indicator.id);
                     this._scheduleDraw();
                     break;
             }
@@ -841,6 +1506,15 @@ export class ChartWidget implements Disposable {
             backgroundColor: this._model.options.layout.backgroundColor,
             textColor: this._model.options.layout.textColor,
         });
+        this._leftPriceAxisWidget = new PriceAxisWidget(this._chartRow, this._model.leftPriceScale, {
+            side: 'left',
+            backgroundColor: this._model.options.layout.backgroundColor,
+            textColor: this._model.options.layout.textColor,
+        });
+        this._leftPriceAxisWidget.setVisible(false);
+        if (this._leftPriceAxisWidget.element && this._paneWidget.element) {
+            this._chartRow.insertBefore(this._leftPriceAxisWidget.element, this._paneWidget.element);
+        }
         this._timeAxisWidget = new TimeAxisWidget(this._timeAxisRow, this._model.timeScale, this._timestamps, {
             backgroundColor: this._model.options.layout.backgroundColor,
             textColor: this._model.options.layout.textColor,
@@ -857,12 +1531,15 @@ export class ChartWidget implements Disposable {
             this._floatingAttributeBar?.hide();
         });
         this._floatingAttributeBar.colorChanged.subscribe((_color) => {
+            this._drawingHistory?.checkpoint('drawing-style');
             this._scheduleDraw();  // Refresh to show new color
         });
         this._floatingAttributeBar.lineWidthChanged.subscribe((_width) => {
+            this._drawingHistory?.checkpoint('drawing-style');
             this._scheduleDraw();
         });
         this._floatingAttributeBar.lineStyleChanged.subscribe((_style) => {
+            this._drawingHistory?.checkpoint('drawing-style');
             this._scheduleDraw();
         });
         this._floatingAttributeBar.settingsClicked.subscribe(() => {
@@ -875,11 +1552,66 @@ export class ChartWidget implements Disposable {
                 this._drawingSettingsModal = createSettingsModal(this._element, selectedDrawing);
                 this._drawingSettingsModal.setTheme(this._currentTheme);
                 this._drawingSettingsModal.settingsChanged.subscribe(() => {
+                    this._drawingHistory?.checkpoint();
                     this._scheduleDraw();
                 });
                 this._drawingSettingsModal.show(selectedDrawing);
             }
         });
+        this._floatingAttributeBar.templateNames = (type) =>
+            this._drawingTemplates.templatesFor(type).map(template => template.name);
+        this._floatingAttributeBar.templateApplied.subscribe((name) => {
+            this.applyDrawingTemplate(name);
+        });
+        this._floatingAttributeBar.templateSaved.subscribe((name) => {
+            const selectedDrawing = this._drawingManager.selectedDrawing;
+            if (selectedDrawing) {
+                this._drawingTemplates.saveTemplate(name, selectedDrawing);
+            }
+        });
+        this._floatingAttributeBar.templateDeleted.subscribe((name) => {
+            const selectedDrawing = this._drawingManager.selectedDrawing;
+            if (selectedDrawing) {
+                this._drawingTemplates.deleteTemplate(selectedDrawing.type, name);
+            }
+        });
+        this._floatingAttributeBar.alertClicked.subscribe(() => {
+            const selectedDrawing = this._drawingManager.selectedDrawing;
+            if (!selectedDrawing) return;
+            this._alertsPanel?.openCreateForm({
+                operator: selectedDrawing.type === 'parallelChannel' ? 'enteringChannel' : 'crossing',
+                target: { type: 'drawing', drawingId: selectedDrawing.id },
+            });
+        });
+
+        // Alerts panel and in-app notifications
+        this._alertsPanel = new AlertsPanel(this._element, this._alertManager, this._drawingManager, this._indicatorManager);
+        this._alertToasts = new ToastNotificationSink(this._element);
+        this._alertManager.addSink(this._alertToasts);
+
+        // Object tree of the drawings and indicators
+        this._objectTreePanel = new ObjectTreePanel(this._element, this._drawingManager, this._indicatorManager);
+        this._objectTreePanel.indicatorVisibilityToggled.subscribe(indicator => this._toggleIndicatorVisible(indicator));
+        this._objectTreePanel.indicatorRemoved.subscribe(indicator => {
+            this.removeIndicator(indicator.id);
+            this._scheduleDraw();
+        });
+
+        // Liquidation heatmap settings
+        this._liquidationPanel = new LiquidationPanel(this._element, this._liquidations, this._liquidationRenderer);
+        this._liquidationPanel.changed.subscribe(() => this._scheduleDraw());
+
+        // Bar replay controls and start bar picking
+        this._replayBar = new ReplayBar(this._element, this._replay);
+        this._replayBar.selectClicked.subscribe(() => this._setReplaySelecting(!this._replayPicker?.enabled));
+        this._replayBar.closeClicked.subscribe(() => this._exitReplay());
+        if (this._paneWidget.element) {
+            this._replayPicker = new ReplayStartPicker(this._paneWidget.element, this._model.timeScale, () => this._timestamps);
+            this._replayPicker.picked.subscribe((time) => {
+                this._setReplaySelecting(false);
+                this._replay.start(time);
+            });
+        }
     }
 
     private _updateSize(): void {
@@ -893,6 +1625,7 @@ export class ChartWidget implements Disposable {
         const toolbarHeight = this._toolbarWidget?.height ?? 38;
         const timeAxisHeight = this._timeAxisWidget?.height ?? 28;
         const priceAxisWidth = this._priceAxisWidget?.width ?? 80;
+        const leftPriceAxisWidth = this._leftPriceAxisWidget?.visible ? this._leftPriceAxisWidget.width : 0;
         const drawingToolbarWidth = this._drawingToolbarWidget?.width ?? 48;
 
         // Calculate total indicator pane heights
@@ -901,7 +1634,7 @@ export class ChartWidget implements Disposable {
             indicatorPanesHeight += pane.height;
         }
 
-        const paneWidth = this._width - priceAxisWidth - drawingToolbarWidth;
+        const paneWidth = this._width - priceAxisWidth - leftPriceAxisWidth - drawingToolbarWidth;
         const paneHeight = this._height - timeAxisHeight - toolbarHeight - indicatorPanesHeight;
 
         // Update model
@@ -912,22 +1645,24 @@ export class ChartWidget implements Disposable {
         // Update widgets
         this._paneWidget?.setSize(paneWidth, paneHeight);
         this._priceAxisWidget?.setHeight(paneHeight);
+        this._leftPriceAxisWidget?.setHeight(paneHeight);
         this._timeAxisWidget?.setWidth(paneWidth);
 
-        // Offset chart row for drawing toolbar (using CSS variable reference)
+        // Offset chart row for drawing toolbar (using CSS variable reference),
+        // the chart row holds the left price axis, the rows below line up with the pane
         if (this._chartRow) {
             this._chartRow.style.marginLeft = 'var(--tv-drawing-toolbar-width)';
         }
         if (this._indicatorContainer) {
-            this._indicatorContainer.style.marginLeft = 'var(--tv-drawing-toolbar-width)';
+            this._indicatorContainer.style.marginLeft = 'calc(var(--tv-drawing-toolbar-width) + var(--tv-left-price-axis-width))';
         }
         if (this._timeAxisRow) {
-            this._timeAxisRow.style.marginLeft = 'var(--tv-drawing-toolbar-width)';
+            this._timeAxisRow.style.marginLeft = 'calc(var(--tv-drawing-toolbar-width) + var(--tv-left-price-axis-width))';
         }
 
         // Update indicator pane widths
         for (const pane of this._indicatorPanes.values()) {
-            pane.setWidth(this._width - drawingToolbarWidth);
+            pane.setWidth(this._width - drawingToolbarWidth - leftPriceAxisWidth);
         }
 
         // Update CSS Custom Properties dynamically (for runtime changes)
@@ -936,10 +1671,12 @@ export class ChartWidget implements Disposable {
             this._element.style.setProperty('--tv-drawing-toolbar-width', `${drawingToolbarWidth}px`);
             this._element.style.setProperty('--tv-time-axis-height', `${timeAxisHeight}px`);
             this._element.style.setProperty('--tv-price-axis-width', `${priceAxisWidth}px`);
+            this._element.style.setProperty('--tv-left-price-axis-width', `${leftPriceAxisWidth}px`);
         }
     }
 
     private _onChartTypeChange(type: ChartType): void {
+        this._recordSetting('Change chart type', this._activeChartType, type, (value) => this._setChartType(value));
         this._activeChartType = type;
         console.log('📊 Chart type changed:', type);
 
@@ -948,6 +1685,7 @@ export class ChartWidget implements Disposable {
         if (!currentSeries) return;
 
         const data = currentSeries.data;
+        const priceScaleId = currentSeries.options.priceScaleId;
 
         // Remove old series
         this._model.removeSeries(currentSeries);
@@ -968,6 +1706,24 @@ export class ChartWidget implements Disposable {
                     bottomColor: 'rgba(41, 98, 255, 0)'
                 });
                 break;
+            case 'bars':
+                newSeries = this._model.addBarSeries();
+                break;
+            case 'hollow-candles':
+                newSeries = this._model.addHollowCandleSeries();
+                break;
+            case 'baseline':
+                newSeries = this._model.addBaselineSeries();
+                break;
+            case 'step-line':
+                newSeries = this._model.addStepLineSeries();
+                break;
+            case 'columns':
+                newSeries = this._model.addColumnSeries();
+                break;
+            case 'hlc-area':
+                newSeries = this._model.addHlcAreaSeries();
+                break;
             case 'heiken-ashi':
                 newSeries = this._model.addHeikenAshiSeries({
                     upColor: '#26a69a',
@@ -976,6 +1732,24 @@ export class ChartWidget implements Disposable {
                     wickVisible: true
                 });
                 break;
+            case 'renko':
+                newSeries = this._model.addRenkoSeries();
+                break;
+            case 'range':
+                newSeries = this._model.addRangeSeries();
+                break;
+            case 'kagi':
+                newSeries = this._model.addKagiSeries();
+                break;
+            case 'point-figure':
+                newSeries = this._model.addPointFigureSeries();
+                break;
+            case 'line-break':
+                newSeries = this._model.addLineBreakSeries();
+                break;
+            case 'footprint':
+                newSeries = this._model.addFootprintSeries(this._trades);
+                break;
             case 'candles':
             default:
                 newSeries = this._model.addCandlestickSeries({
@@ -987,44 +1761,244 @@ export class ChartWidget implements Disposable {
                 break;
         }
 
-        // Restore data
-        if (data.length > 0) {
-            this.setData(newSeries as any, data as any);
+        // The new series stays on the scale the old one was moved to
+        newSeries.applyOptions({ priceScaleId });
+
+        // Restore data
+        if (data.length > 0) {
+            this.setData(newSeries as any, data as any);
+        }
+    }
+
+    /**
+     * Open the symbol settings (chart type, its style and inputs like the Renko box size)
+     */
+    private _onChartSettingsClick(): void {
+        const series = this._model.serieses[0];
+        if (!series) return;
+
+        this._editingIndicator = null;
+        const priceScale = this._model.mainPriceScale;
+        this._editingSymbol = new SymbolSettings(
+            series,
+            this._activeChartType,
+            getPriceScaleModeType(priceScale.mode),
+            priceScale.isInverted
+        );
+        this._indicatorSettingsModal?.showForIndicator(this._editingSymbol);
+    }
+
+    private _applySymbolSettings(settings: SymbolSettings): void {
+        const priceScale = this._model.mainPriceScale;
+        if (settings.invertScale !== priceScale.isInverted) {
+            this.setPriceScaleInverted(settings.invertScale);
+        }
+        if (PRICE_SCALE_MODES[settings.scaleMode] !== priceScale.mode) {
+            this.setPriceScaleMode(PRICE_SCALE_MODES[settings.scaleMode]);
+        }
+
+        if (settings.chartType !== this._activeChartType) {
+            this._setChartType(settings.chartType);
+            return;
+        }
+
+        if (this._indicatorSettingsModal?.needsRecalc) {
+            // Box size etc. changed, the bars and everything indexed by them are rebuilt
+            this._syncTimestamps(settings.series);
+            this._model.fullUpdate();
+        } else {
+            this._scheduleDraw();
+        }
+        this._updateLastPriceLabel();
+    }
+
+    /**
+     * Record a chart setting change; apply sets a value back through the
+     * same path the UI uses
+     */
+    private _recordSetting<T>(label: string, before: T, after: T, apply: (value: T) => void): void {
+        if (JSON.stringify(before) === JSON.stringify(after)) return;
+        this._history.push({
+            label,
+            undo: () => apply(before),
+            redo: () => apply(after),
+        });
+    }
+
+    private _onHistoryChanged(): void {
+        this._toolbarWidget?.setHistoryState(
+            this._history.canUndo,
+            this._history.canRedo,
+            this._history.undoLabel,
+            this._history.redoLabel
+        );
+    }
+
+    private _setChartType(type: ChartType): void {
+        // The toolbar fires chartTypeChanged, which replaces the series
+        if (this._toolbarWidget) {
+            this._toolbarWidget.setChartType(type);
+        } else {
+            this._onChartTypeChange(type);
+        }
+    }
+
+    /**
+     * Public API: Set the mode of the main price scale
+     */
+    setPriceScaleMode(mode: PriceScaleMode): void {
+        // The toolbar fires priceScaleModeChanged, which applies it
+        if (this._toolbarWidget) {
+            this._toolbarWidget.setPriceScaleMode(getPriceScaleModeType(mode));
+        } else {
+            this._onPriceScaleModeChange(getPriceScaleModeType(mode));
+        }
+    }
+
+    /**
+     * Public API: Flip the main price scale, high prices at the bottom
+     */
+    setPriceScaleInverted(inverted: boolean): void {
+        this._recordSetting('Invert scale', this._model.mainPriceScale.isInverted, inverted, (value) => this.setPriceScaleInverted(value));
+        this._model.mainPriceScale.setInvertScale(inverted);
+        this._model.fullUpdate();
+    }
+
+    private _onPriceScaleModeChange(mode: PriceScaleModeType): void {
+        const before = getPriceScaleModeType(this._model.mainPriceScale.mode);
+        this._recordSetting('Change scale mode', before, mode, (value) => this.setPriceScaleMode(PRICE_SCALE_MODES[value]));
+        this._model.mainPriceScale.setMode(PRICE_SCALE_MODES[mode]);
+        this._model.mainPriceScale.setAutoScale(true);
+        this._model.recalculateAllPanes();
+        this._model.fullUpdate();
+    }
+
+    private _onTimeframeChange(timeframe: string): void {
+        console.log('📊 Timeframe changed to:', timeframe);
+
+        // Bar replay loads the new timeframe itself, without leaking bars past the replay time
+        if (this._replay.active && !this._replay.canChangeTimeframe(timeframe)) {
+            this._exitReplay();
+        }
+
+        this._model.setTimeframe(timeframe);
+        this._drawingManager.setTimeframe(timeframe);
+        this._syncOrderbookHistoryTimeframe();
+        this._timeframeChanged.fire(timeframe);
+
+        if (this._replay.active) {
+            void this._replay.changeTimeframe(timeframe);
+            // Comparison and derivatives history would reach past the replay time
+            this._replayReloadPending = true;
+        } else {
+            this._comparisons.reload();
+            this._derivatives.reload();
+        }
+
+        // Update technical rating badge
+        this._technicalRatingBadge?.updateRating(this._model.symbol, timeframe, this._currentExchange);
+    }
+
+    // --- Trading ---
+
+    private _onTradingClick(): void {
+        if (!this._broker) {
+            this.setBroker(new PaperBroker());
+            this._ownsBroker = true;
+        }
+        this._accountPanel?.toggle();
+    }
+
+    private _getLastPrice(): number | null {
+        const data = this._model.serieses[0]?.data;
+        if (!data || data.length === 0) return null;
+        const last = data[data.length - 1] as BarData | LineData;
+        return 'close' in last ? last.close : last.value;
+    }
+
+    // --- Bar replay ---
+
+    private _onReplayClick(): void {
+        if (this._replay.active || this._replayPicker?.enabled) {
+            this._exitReplay();
+            return;
         }
+        this._replayBar?.show();
+        this._setReplaySelecting(true);
     }
 
-    private _onPriceScaleModeChange(mode: 'normal' | 'logarithmic'): void {
-        this._model.rightPriceScale.setMode(
-            mode === 'logarithmic' ? PriceScaleMode.Logarithmic : PriceScaleMode.Normal
-        );
-        this._model.rightPriceScale.setAutoScale(true);
-        this._model.recalculateAllPanes();
-        this._model.fullUpdate();
+    private _setReplaySelecting(selecting: boolean): void {
+        if (selecting) {
+            this._replayPicker?.enable();
+        } else {
+            this._replayPicker?.disable();
+        }
+        this._replayBar?.setSelecting(selecting);
+        this._toolbarWidget?.setReplayActive(selecting || this._replay.active);
     }
 
-    private _onTimeframeChange(timeframe: string): void {
-        console.log('📊 Timeframe changed to:', timeframe);
-        this._model.setTimeframe(timeframe);
-        this._timeframeChanged.fire(timeframe);
+    private _exitReplay(): void {
+        this._setReplaySelecting(false);
+        this._replay.stop();
+        this._replayBar?.hide();
+    }
 
-        // Update technical rating badge
-        this._technicalRatingBadge?.updateRating(this._model.symbol, timeframe, this._currentExchange);
+    private _onReplayStateChanged(): void {
+        const selecting = this._replayPicker?.enabled ?? false;
+        this._toolbarWidget?.setReplayActive(this._replay.active || selecting);
+
+        // The replay can end by itself, e.g. when a timeframe can't be loaded
+        if (!this._replay.active && !selecting) {
+            this._replayBar?.hide();
+        }
+
+        if (!this._replay.active && this._replayReloadPending) {
+            this._replayReloadPending = false;
+            this._comparisons.reload();
+            this._derivatives.reload();
+        }
+    }
+
+    /** Per-bar history buckets follow the chart's bars */
+    private _syncOrderbookHistoryTimeframe(): void {
+        this._orderbookHistory.setTimeframe(this._model.timeframe, { timeZone: exchangeTimeZone(this._model.exchange) });
+    }
+
+    private _onSymbolSearchSelected(symbol: SymbolInfo): void {
+        if (this._symbolSearchTarget === 'compare') {
+            this._symbolSearchTarget = 'symbol';
+            this.addComparison(symbol.symbol);
+        } else {
+            this._onSymbolChange(symbol);
+        }
     }
 
-    private _onSymbolChange(symbol: SymbolInfo): void {
+    private _onSymbolChange(symbol: Partial<SymbolInfo> & { symbol: string }): void {
         console.log('🔍 Symbol changed to:', symbol.symbol, '@ Exchange:', symbol.exchange);
 
+        // Replay belongs to the previous symbol's bars
+        this._exitReplay();
+
         // Update state manager - this saves current symbol's drawings and loads new symbol's drawings
         this._chartStateManager?.setSymbol(symbol.symbol);
+        // Edits of the previous symbol's drawings can't be undone on this one
+        this._history.clear();
+        this._drawingHistory?.reset();
 
         this._model.setSymbol(symbol.symbol);
         if (symbol.exchange) {
             this._model.setExchange(symbol.exchange);
         }
+        // The orderbook history is the previous symbol's liquidity
+        this._orderbookHistory.clear();
+        this._syncOrderbookHistoryTimeframe();
+        this._derivatives.reload();
+        // The trades are kept per second, only a new symbol starts them over
+        this._trades.reload();
         this._toolbarWidget?.setSymbol(symbol.symbol);
 
         // Reset price scale auto-scaling to ensure new symbol's price range is visible
-        this._model.rightPriceScale.setAutoScale(true);
+        this._model.mainPriceScale.setAutoScale(true);
 
         // Fire full symbol info including exchange for data fetching
         this._symbolChanged.fire({
@@ -1060,6 +2034,7 @@ export class ChartWidget implements Disposable {
         }
 
         this._currentSymbol = symbol.symbol;
+        this._loadSymbolMetadata(symbol.symbol, symbol);
 
         // Subscribe to orderbook for new symbol
         // Subscribe to orderbook for new symbol - only if enabled
@@ -1068,6 +2043,36 @@ export class ChartWidget implements Disposable {
         }
     }
 
+    /**
+     * Tick size from the search result, otherwise from the exchange info
+     * endpoint of the symbol's provider
+     */
+    private _loadSymbolMetadata(symbol: string, info?: Partial<SymbolMetadata>): void {
+        const request = ++this._symbolMetadataRequest;
+
+        if (info?.tickSize) {
+            const quantityStep = Math.pow(10, -(info.quantityPrecision ?? 0));
+            this._applySymbolMetadata(createSymbolMetadata(info.tickSize, quantityStep, info.tickSizeTiers));
+            return;
+        }
+
+        // Decimals are guessed until the provider answers, and for ratios and spreads
+        this._applySymbolMetadata(null);
+        if (isSyntheticSymbol(symbol)) return;
+
+        this._dataProvider?.getSymbolMetadata(symbol)
+            .then(metadata => {
+                if (request === this._symbolMetadataRequest) this._applySymbolMetadata(metadata);
+            })
+            .catch(e => console.warn(`Failed to load tick size of ${symbol}:`, e));
+    }
+
+    private _applySymbolMetadata(metadata: SymbolMetadata | null): void {
+        this._symbolMetadata = metadata;
+        this._model.setPriceFormat(symbolPriceFormat(metadata));
+        this._scheduleDraw();
+    }
+
     /**
      * Create the appropriate orderbook provider for the given exchange
      */
@@ -1112,7 +2117,7 @@ export class ChartWidget implements Disposable {
         }
 
         // Keyboard shortcuts for drawings (Delete/Backspace to delete selected)
-        document.addEventListener('keydown', this._onKeyDown.bind(this));
+        this._addGlobalListener(document, 'keydown', (e: KeyboardEvent) => this._onKeyDown(e));
 
         const priceAxisElement = this._priceAxisWidget?.element;
         if (priceAxisElement) {
@@ -1138,22 +2143,23 @@ export class ChartWidget implements Disposable {
                 const rect = this._paneWidget?.canvas?.getBoundingClientRect();
                 if (rect) {
                     const y = e.clientY - rect.top;
-                    const price = this._model.rightPriceScale.coordinateToPrice(y as any);
+                    const price = this._model.mainPriceScale.coordinateToPrice(y as any);
                     this._contextMenu?.setCurrentPrice(price);
                 }
+                this._contextMenu?.setSubmenuItems('pin-to-scale', this._createPinToScaleItems());
 
                 this._contextMenu?.show(e.clientX, e.clientY);
                 return false;
             }, true);
         }
 
-        document.addEventListener('mousemove', this._onMouseMove.bind(this));
-        document.addEventListener('mouseup', this._onMouseUp.bind(this));
+        this._addGlobalListener(document, 'mousemove', (e: MouseEvent) => this._onMouseMove(e));
+        this._addGlobalListener(document, 'mouseup', (e: MouseEvent) => this._onMouseUp(e));
 
-        window.addEventListener('resize', this._onResize.bind(this));
+        this._addGlobalListener(window, 'resize', () => this._onResize());
 
         // Handle fullscreen changes - move context menu and modals to correct container
-        document.addEventListener('fullscreenchange', () => {
+        this._addGlobalListener(document, 'fullscreenchange', () => {
             if (document.fullscreenElement === this._element) {
                 // Entering fullscreen - move context menu to chart element
                 this._contextMenu?.setContainer(this._element!);
@@ -1172,13 +2178,31 @@ export class ChartWidget implements Disposable {
     private _onMouseDown(e: MouseEvent): void {
         const pane = this._resolvePaneInteraction(e.currentTarget ?? e.target);
         this._setInteractionPane(pane.paneId, pane.paneCanvas, pane.priceScale);
+        // An Alt-drag copy and its drag are one history entry
+        this._drawingHistory?.pause();
         const stateUpdates = handleMouseDownEvent(e, this._getEventContextForPane(pane.paneId, pane.paneCanvas));
         this._applyEventState(stateUpdates);
+        this._drawingHistory?.resume();
     }
 
     private _onMouseMove(e: MouseEvent): void {
-        const shouldUseActivePane = this._isDragging || this._isDraggingDrawing || this._drawingManager.activeDrawing !== null;
+        const shouldUseActivePane = this._isDragging || this._isDraggingDrawing || this._isDraggingBaseline || this._drawingManager.activeDrawing !== null;
         const hoverTarget = shouldUseActivePane ? null : document.elementFromPoint(e.clientX, e.clientY);
+
+        // The pointer is over another chart of a layout, or elsewhere on the page
+        if (!shouldUseActivePane && !(hoverTarget instanceof Node && this._element?.contains(hoverTarget))) {
+            if (this._pointerOverChart) {
+                this._pointerOverChart = false;
+                this._crosshairMoved.fire(null);
+            }
+            if (!this._externalCrosshair && this._model.crosshairPosition?.visible) {
+                this._model.setCrosshairPosition(0, 0, false);
+            }
+            return;
+        }
+        this._pointerOverChart = true;
+        this._externalCrosshair = false;
+
         const pane = shouldUseActivePane
             ? this._resolvePaneInteraction(null)
             : this._resolvePaneInteraction(hoverTarget ?? e.target);
@@ -1186,9 +2210,23 @@ export class ChartWidget implements Disposable {
         this._drawingManager.setActivePaneId(pane.paneId);
         const stateUpdates = handleMouseMoveEvent(e, this._getEventContextForPane(pane.paneId, pane.paneCanvas));
         this._applyEventState(stateUpdates);
+        this._fireCrosshairMoved(pane.paneId);
+    }
+
+    private _fireCrosshairMoved(paneId: string | null): void {
+        const crosshair = this._model.crosshairPosition;
+        const time = crosshair?.visible ? this._drawingManager.pixelToTime(crosshair.x) : null;
+        if (time === null) {
+            this._crosshairMoved.fire(null);
+            return;
+        }
+
+        const price = paneId === null ? this._model.mainPriceScale.coordinateToPrice(coordinate(crosshair!.y)) : null;
+        this._crosshairMoved.fire({ time, price });
     }
 
     private _onKeyDown(e: KeyboardEvent): void {
+        if (!this._keyboardEnabled) return;
         handleKeyDownEvent(e, this._getEventContextForPane(this._interactionPaneId, this._interactionPaneCanvas));
     }
 
@@ -1202,7 +2240,7 @@ export class ChartWidget implements Disposable {
             return {
                 paneId: null,
                 paneCanvas: mainCanvas,
-                priceScale: this._model.rightPriceScale,
+                priceScale: this._model.mainPriceScale,
             };
         }
 
@@ -1220,7 +2258,7 @@ export class ChartWidget implements Disposable {
         return {
             paneId: this._interactionPaneId,
             paneCanvas: this._interactionPaneCanvas,
-            priceScale: this._interactionPriceScale ?? this._model.rightPriceScale,
+            priceScale: this._interactionPriceScale ?? this._model.mainPriceScale,
         };
     }
 
@@ -1238,8 +2276,8 @@ export class ChartWidget implements Disposable {
         paneCanvas: HTMLCanvasElement | null
     ): ChartWidgetContext {
         const priceScale = paneId === null
-            ? this._model.rightPriceScale
-            : this._indicatorPanes.get(paneId)?.priceScale ?? this._model.rightPriceScale;
+            ? this._model.mainPriceScale
+            : this._indicatorPanes.get(paneId)?.priceScale ?? this._model.mainPriceScale;
 
         return {
             model: this._model,
@@ -1252,6 +2290,7 @@ export class ChartWidget implements Disposable {
             isDraggingDrawing: this._isDraggingDrawing,
             draggingControlPoint: this._draggingControlPoint,
             isPriceScaleDragging: this._isPriceScaleDragging,
+            isDraggingBaseline: this._isDraggingBaseline,
             lastMouseX: this._lastMouseX,
             lastMouseY: this._lastMouseY,
             dragStartX: this._dragStartX,
@@ -1259,7 +2298,7 @@ export class ChartWidget implements Disposable {
             getBarData: () => {
                 const series = this._model.serieses[0];
                 if (!series) return [];
-                return series.data.map((d: any) => ({
+                return series.plotData.map((d: any) => ({
                     time: d.time,
                     open: d.open ?? d.value ?? 0,
                     high: d.high ?? d.value ?? 0,
@@ -1267,16 +2306,29 @@ export class ChartWidget implements Disposable {
                     close: d.close ?? d.value ?? 0
                 }));
             },
-            scheduleDraw: () => this._scheduleDraw()
+            scheduleDraw: () => this._scheduleDraw(),
+            undo: () => this.undo(),
+            redo: () => this.redo(),
+            copyDrawings: () => this.copySelectedDrawing(),
+            pasteDrawings: () => this.pasteDrawings().length > 0,
         };
     }
 
     /** Apply state updates from event handlers */
     private _applyEventState(state: Partial<ChartWidgetContext>): void {
         if (state.isDragging !== undefined) this._isDragging = state.isDragging;
-        if (state.isDraggingDrawing !== undefined) this._isDraggingDrawing = state.isDraggingDrawing;
+        if (state.isDraggingDrawing !== undefined && state.isDraggingDrawing !== this._isDraggingDrawing) {
+            // A drag is one history entry, recorded when it ends
+            if (state.isDraggingDrawing) {
+                this._drawingHistory?.pause();
+            } else {
+                this._drawingHistory?.resume();
+            }
+            this._isDraggingDrawing = state.isDraggingDrawing;
+        }
         if (state.draggingControlPoint !== undefined) this._draggingControlPoint = state.draggingControlPoint;
         if (state.isPriceScaleDragging !== undefined) this._isPriceScaleDragging = state.isPriceScaleDragging;
+        if (state.isDraggingBaseline !== undefined) this._isDraggingBaseline = state.isDraggingBaseline;
         if (state.lastMouseX !== undefined) this._lastMouseX = state.lastMouseX;
         if (state.lastMouseY !== undefined) this._lastMouseY = state.lastMouseY;
         if (state.dragStartX !== undefined) this._dragStartX = state.dragStartX;
@@ -1285,6 +2337,12 @@ export class ChartWidget implements Disposable {
 
     private _onMouseLeave(): void {
         handleMouseLeaveEvent(this._getEventContextForPane(this._interactionPaneId, this._interactionPaneCanvas));
+        this._crosshairMoved.fire(null);
+    }
+
+    private _addGlobalListener(target: Document | Window, type: string, listener: (e: any) => void): void {
+        target.addEventListener(type, listener);
+        this._globalListeners.push({ target, type, listener });
     }
 
     private _onMouseUp(e: MouseEvent): void {
@@ -1297,17 +2355,22 @@ export class ChartWidget implements Disposable {
             this._interactionPaneCanvas = null;
             this._interactionPriceScale = null;
             this._drawingManager.setActivePaneId(null);
-            this._drawingManager.setScales(this._model.timeScale, this._model.rightPriceScale);
+            this._drawingManager.setScales(this._model.timeScale, this._model.mainPriceScale);
         }
     }
 
     private _onPriceAxisMouseDown(e: MouseEvent): void {
-        const stateUpdates = handlePriceAxisMouseDownEvent(e, this._getEventContextForPane(null, this._paneWidget?.canvas ?? null));
+        // The right axis scales the right scale, also when the main series was moved to the left one
+        const paneCanvas = this._paneWidget?.canvas ?? null;
+        this._setInteractionPane(null, paneCanvas, this._model.rightPriceScale);
+        const context = { ...this._getEventContextForPane(null, paneCanvas), priceScale: this._model.rightPriceScale };
+        const stateUpdates = handlePriceAxisMouseDownEvent(e, context);
         this._applyEventState(stateUpdates);
     }
 
     private _onPriceAxisDoubleClick(): void {
-        handlePriceAxisDoubleClickEvent(this._getEventContextForPane(null, this._paneWidget?.canvas ?? null));
+        const context = this._getEventContextForPane(null, this._paneWidget?.canvas ?? null);
+        handlePriceAxisDoubleClickEvent({ ...context, priceScale: this._model.rightPriceScale });
     }
 
     /** Handle mouse move on pane - show Add Text tooltip on line midpoint */
@@ -1403,6 +2466,7 @@ export class ChartWidget implements Disposable {
                         this._drawingSettingsModal = createSettingsModal(this._element, d);
                         this._drawingSettingsModal.setTheme(this._currentTheme);
                         this._drawingSettingsModal.settingsChanged.subscribe(() => {
+                            this._drawingHistory?.checkpoint();
                             this._scheduleDraw();
                         });
                         if (!d.style.text) {
@@ -1603,6 +2667,7 @@ export class ChartWidget implements Disposable {
                 this._drawingSettingsModal = createSettingsModal(this._element, hitDrawing);
                 this._drawingSettingsModal.setTheme(this._currentTheme);
                 this._drawingSettingsModal.settingsChanged.subscribe(() => {
+                    this._drawingHistory?.checkpoint();
                     this._scheduleDraw();
                 });
                 this._drawingSettingsModal.show(hitDrawing);
@@ -1638,13 +2703,13 @@ export class ChartWidget implements Disposable {
     private _hitTestOverlayIndicator(x: number, y: number): any | null {
         const threshold = 8; // pixels
         const timeScale = this._model.timeScale;
-        const priceScale = this._model.rightPriceScale;
         const indicators = [...this._indicatorManager.overlayIndicators].reverse();
 
         for (const indicator of indicators) {
             if (!indicator.visible) {
                 continue;
             }
+            const priceScale = this._model.priceScale(indicator.priceScaleId);
 
             if (typeof (indicator as any).hitTest === 'function') {
                 if ((indicator as any).hitTest(x, y, timeScale, priceScale)) {
@@ -1694,11 +2759,28 @@ export class ChartWidget implements Disposable {
             if (mainSeries) {
                 const data = mainSeries.data;
 
+                // Live updates can add bars (and Renko bricks) without a setData call
+                this._syncTimestamps(mainSeries);
+
                 // Only update indicators if data is BarData (has open/high/low/close)
                 // Indicators typically need OHLC data. Check first element.
                 if (data.length > 0 && 'open' in (data[0] as any)) {
                     const indicatorData = this._resolveIndicatorSourceData(mainSeries as any, data as BarData[]);
-                    this._indicatorManager.setData(indicatorData);
+                    this._setIndicatorSource(indicatorData);
+
+                    // Alerts see the same bars as the indicators. Replayed bars are history,
+                    // they must not notify or use up the live alerts.
+                    if (!this._replay.active) {
+                        this._alertManager.update(indicatorData);
+                    }
+
+                    // Liquidation levels are priced on the traded bars
+                    this._liquidations.update(data as BarData[]);
+
+                    // Paper orders fill against the chart bars, replayed ones included
+                    if (this._broker instanceof PaperBroker) {
+                        this._broker.updateBar(this._model.symbol, data[data.length - 1] as BarData);
+                    }
                 }
             }
         }
@@ -1718,20 +2800,28 @@ export class ChartWidget implements Disposable {
         const crosshair = this._model.crosshairPosition;
         let mainPaneLocalY: number | null = null;
 
-        if (crosshair && crosshair.visible && this._paneWidget?.element && this._lastMouseY !== 0) {
+        if (crosshair && crosshair.visible && this._externalCrosshair) {
+            const height = this._paneWidget?.element?.clientHeight ?? 0;
+            const y = this._externalCrosshairY;
+            mainPaneLocalY = y !== null && y >= 0 && y <= height ? y : null;
+        } else if (crosshair && crosshair.visible && this._paneWidget?.element && this._lastMouseY !== 0) {
             const rect = this._paneWidget.element.getBoundingClientRect();
             if (this._lastMouseY >= rect.top && this._lastMouseY <= rect.bottom) {
                 mainPaneLocalY = this._lastMouseY - rect.top;
             }
         }
 
+        this._syncLeftPriceAxis();
+
         if (crosshair) {
             this._paneWidget?.setCrosshair(crosshair.x, mainPaneLocalY);
             this._priceAxisWidget?.setCrosshair(mainPaneLocalY ?? 0, mainPaneLocalY !== null);
+            this._leftPriceAxisWidget?.setCrosshair(mainPaneLocalY ?? 0, mainPaneLocalY !== null);
             this._timeAxisWidget?.setCrosshair(crosshair.x, crosshair.visible);
         } else {
             this._paneWidget?.setCrosshair(null, null);
             this._priceAxisWidget?.setCrosshair(0, false);
+            this._leftPriceAxisWidget?.setCrosshair(0, false);
         }
 
         this._updateLastPriceLabel();
@@ -1752,9 +2842,17 @@ export class ChartWidget implements Disposable {
             this._drawingManager.hoveredForAddText
         );
 
+        // Order and position lines follow the price scale
+        this._orderLines?.update();
+
         this._priceAxisWidget?.render();
+        this._leftPriceAxisWidget?.render();
+        this._timeAxisWidget?.setTimeZone(this._model.timeZone);
         this._timeAxisWidget?.render();
 
+        // Session, time zone or symbol format changes reach the volume profiles
+        this._updateIndicatorMarket();
+
         // Render indicator panes (RSI, MACD, etc.)
         this._renderIndicatorPanes();
 
@@ -1782,6 +2880,23 @@ export class ChartWidget implements Disposable {
             if (series instanceof CandlestickSeries) {
                 const opts = series.candleOptions;
                 color = price >= open ? opts.upColor : opts.downColor;
+            } else if (series instanceof BarSeries) {
+                const opts = series.barOptions;
+                color = price >= open ? opts.upColor : opts.downColor;
+            } else if (series instanceof HollowCandleSeries) {
+                color = series.getBarStyle(data.length - 1).color;
+            } else if (series instanceof ColumnSeries) {
+                const prev = data[data.length - 2] as BarData | undefined;
+                const opts = series.columnOptions;
+                color = !prev || price >= prev.close ? opts.upColor : opts.downColor;
+            } else if (series instanceof StepLineSeries) {
+                color = series.stepLineOptions.color;
+            } else if (series instanceof BaselineSeries) {
+                const opts = series.baselineOptions;
+                const base = series.basePrice;
+                color = base === null || price >= base ? opts.topLineColor : opts.bottomLineColor;
+            } else if (series instanceof HlcAreaSeries) {
+                color = series.hlcAreaOptions.closeLineColor;
             }
         } else {
             // Line/Area
@@ -1793,11 +2908,32 @@ export class ChartWidget implements Disposable {
             }
         }
 
-        this._priceAxisWidget.setLastValue(price, this._model.rightPriceScale.formatPrice(price), color);
+        // The label goes on the axis of the main series' scale
+        const scaleId = series.options.priceScaleId;
+        const axis = scaleId === 'right' ? this._priceAxisWidget : scaleId === 'left' ? this._leftPriceAxisWidget : null;
+        for (const other of [this._priceAxisWidget, this._leftPriceAxisWidget]) {
+            if (other && other !== axis) {
+                other.clearLastValue();
+                other.setCountdown(null);
+            }
+        }
+        if (!axis) return;
+
+        axis.setLastValue(price, this._model.mainPriceScale.formatPrice(price), color);
 
         // Calculate and set countdown
         const countdown = this._calculateCountdown();
-        this._priceAxisWidget.setCountdown(countdown);
+        axis.setCountdown(countdown);
+    }
+
+    /** Show the left axis while a series or overlay indicator is on the left scale */
+    private _syncLeftPriceAxis(): void {
+        const axis = this._leftPriceAxisWidget;
+        const visible = this._model.isPriceScaleUsed('left');
+        if (!axis || axis.visible === visible) return;
+
+        axis.setVisible(visible);
+        this._updateLayout();
     }
 
     /**
@@ -1805,18 +2941,13 @@ export class ChartWidget implements Disposable {
      */
     private _calculateCountdown(): string | null {
         const timeframe = this._model.timeframe;
-        if (!timeframe) return null;
-
-        // Parse timeframe to milliseconds
-        const intervalMs = this._parseTimeframeToMs(timeframe);
-        if (intervalMs === 0) return null;
+        if (!timeframe || !parseTimeframe(timeframe)) return null;
 
+        // Calculate next candle close time, daily and longer bars open at
+        // midnight of the exchange (UTC for crypto)
         const now = Date.now();
-
-        // Calculate next candle close time
-        const currentCandleStart = Math.floor(now / intervalMs) * intervalMs;
-        const nextCandleStart = currentCandleStart + intervalMs;
-        const remainingMs = nextCandleStart - now;
+        const alignment = { timeZone: exchangeTimeZone(this._model.exchange) };
+        const remainingMs = getBarEndTime(getBarStartTime(now, timeframe, alignment), timeframe, alignment) - now;
 
         if (remainingMs <= 0) return null;
 
@@ -1832,36 +2963,6 @@ export class ChartWidget implements Disposable {
         return `${minutes}:${seconds.toString().padStart(2, '0')}`;
     }
 
-    /**
-     * Parse timeframe string to milliseconds
-     */
-    private _parseTimeframeToMs(tf: string): number {
-        const lower = tf.toLowerCase();
-
-        // Handle formats like "1m", "5m", "15m", "1h", "4h", "1d", "1w"
-        const match = lower.match(/^(\d+)([smhdw])$/);
-        if (match) {
-            const value = parseInt(match[1], 10);
-            const unit = match[2];
-
-            switch (unit) {
-                case 's': return value * 1000;
-                case 'm': return value * 60 * 1000;
-                case 'h': return value * 60 * 60 * 1000;
-                case 'd': return value * 24 * 60 * 60 * 1000;
-                case 'w': return value * 7 * 24 * 60 * 60 * 1000;
-            }
-        }
-
-        // Handle single letter formats
-        if (lower === 'd') return 24 * 60 * 60 * 1000;
-        if (lower === 'w') return 7 * 24 * 60 * 60 * 1000;
-        if (lower === 'm') return 60 * 1000;
-        if (lower === 'h') return 60 * 60 * 1000;
-
-        return 0;
-    }
-
     // --- Context Menu Actions ---
 
     private _onContextSettings(): void {
@@ -1872,6 +2973,14 @@ export class ChartWidget implements Disposable {
         handleContextCopyPrice(this._model);
     }
 
+    private _onContextAddAlert(): void {
+        const price = this._contextMenu?.currentPrice;
+        if (price === undefined || !isFinite(price)) return;
+        this._alertsPanel?.openCreateForm({
+            target: { type: 'value', value: parseFloat(price.toPrecision(8)) },
+        });
+    }
+
     private _onContextScreenshot(): void {
         // Collect indicator panes data for screenshot
         const indicatorPanesData: { canvas: HTMLCanvasElement | null; height: number }[] = [];
@@ -1908,18 +3017,229 @@ export class ChartWidget implements Disposable {
         return this._indicatorManager;
     }
 
+    /**
+     * Get alert manager for creating alerts and adding notification sinks
+     */
+    get alerts(): AlertManager {
+        return this._alertManager;
+    }
+
+    /**
+     * Get bar replay controller. While it is active the app should not feed
+     * live bars or load data on timeframe changes, the replay does.
+     */
+    get replay(): ReplayController {
+        return this._replay;
+    }
+
+    /**
+     * Get the comparisons, set their candle provider with
+     * `comparisons.setProvider()` before adding any
+     */
+    get comparisons(): ComparisonManager {
+        return this._comparisons;
+    }
+
+    /**
+     * Get the derivatives data of the chart symbol: set the provider with
+     * `derivatives.setProvider()` to feed the open interest, funding and
+     * liquidation indicators and the liquidation levels
+     */
+    get derivatives(): DerivativesFeed {
+        return this._derivatives;
+    }
+
+    /**
+     * Get the live trades of the chart symbol: set the provider with
+     * `trades.setProvider()` to feed the footprint chart type and the
+     * order flow indicators
+     */
+    get trades(): TradeFeed {
+        return this._trades;
+    }
+
+    /**
+     * Get the estimated liquidation levels, built on the open interest of
+     * `derivatives`; turn them on with `setEnabled()`
+     */
+    get liquidations(): LiquidationManager {
+        return this._liquidations;
+    }
+
+    /** Display, colors and threshold of the liquidation heatmap */
+    setLiquidationHeatmapOptions(options: Partial<LiquidationHeatmapOptions>): void {
+        this._liquidationRenderer.setOptions(options);
+        this._scheduleDraw();
+    }
+
+    /**
+     * Public API: Overlay another symbol or a synthetic expression
+     * (`BTCUSDT/ETHUSDT`) as a line. Switches the price scale to percentage
+     * so the lines share a scale.
+     */
+    addComparison(symbol: string, options: ComparisonOptions = {}): CompareSeries {
+        const mode = this._model.mainPriceScale.mode;
+        if (mode !== PriceScaleMode.Percentage && mode !== PriceScaleMode.IndexedTo100) {
+            this.setPriceScaleMode(PriceScaleMode.Percentage);
+        }
+        return this._comparisons.add(symbol, options);
+    }
+
+    /**
+     * Public API: Remove a compared symbol
+     * @returns false if the symbol was not compared
+     */
+    removeComparison(symbol: string): boolean {
+        return this._comparisons.remove(symbol);
+    }
+
+    /**
+     * Get the broker orders are placed with, null until trading is opened
+     * or a broker is set
+     */
+    get broker(): IBroker | null {
+        return this._broker;
+    }
+
+    /**
+     * Trade through a broker: its orders and positions are drawn on the chart
+     * and the trading button opens its account panel. A PaperBroker is fed the
+     * chart bars; pass an exchange adapter to trade for real, or null to remove
+     * trading from the chart.
+     */
+    setBroker(broker: IBroker | null): void {
+        if (broker === this._broker) return;
+
+        const panelVisible = this._accountPanel?.visible ?? false;
+        this._orderLines?.dispose();
+        this._orderLines = null;
+        this._accountPanel?.dispose();
+        this._accountPanel = null;
+        if (this._ownsBroker && this._broker instanceof PaperBroker) {
+            this._broker.destroy();
+        }
+
+        this._broker = broker;
+        this._ownsBroker = false;
+        this._toolbarWidget?.setTradingActive(false);
+        if (!broker || !this._element) return;
+
+        this._createOrderLines(broker);
+        this._accountPanel = new AccountPanel(this._element, broker, () => this._model.symbol, () => this._getLastPrice());
+        this._accountPanel.visibilityChanged.subscribe((visible) => this._toolbarWidget?.setTradingActive(visible));
+        if (panelVisible) {
+            this._accountPanel.show();
+        }
+        this._scheduleDraw();
+    }
+
+    private _createOrderLines(broker: IBroker): void {
+        this._orderLines?.dispose();
+        this._orderLines = null;
+        if (this._paneWidget?.element) {
+            this._orderLines = new OrderLines(
+                this._paneWidget.element,
+                this._model.mainPriceScale,
+                broker,
+                () => this._model.symbol
+            );
+        }
+    }
+
+    /** Drawings, order lines and the scale mode follow the main series to its new scale */
+    private _onMainPriceScaleChanged(): void {
+        const priceScale = this._model.mainPriceScale;
+        this._drawingManager.setScales(this._model.timeScale, priceScale);
+        if (this._broker) {
+            this._createOrderLines(this._broker);
+        }
+        this._toolbarWidget?.setPriceScaleMode(getPriceScaleModeType(priceScale.mode));
+        this._updateLastPriceLabel();
+    }
+
+    private _onOverlayIndicatorsChanged(): void {
+        this._updateMainLegend();
+        this._model.recalculateAllPanes();
+    }
+
+    /**
+     * "Pin to scale" entries of the main series, the comparisons and the
+     * overlay indicators
+     */
+    private _createPinToScaleItems(): ContextMenuItem[] {
+        const entries: ContextMenuItem[] = [];
+
+        const main = this._model.serieses[0];
+        if (main) {
+            // The main series always has an axis
+            entries.push(this._createPinToScaleEntry('pin-main', this._model.symbol || t('Symbol'),
+                main.options.priceScaleId, null, (id) => this.setSeriesPriceScale(main, id)));
+        }
+        for (const series of this._comparisons.comparisons) {
+            entries.push(this._createPinToScaleEntry(`pin-compare-${series.symbol}`, series.symbol,
+                series.options.priceScaleId, `compare:${series.symbol}`, (id) => this.setSeriesPriceScale(series, id)));
+        }
+        for (const indicator of this._indicatorManager.overlayIndicators) {
+            const overlayId = indicator instanceof VolumeIndicator ? 'volume' : indicator.id;
+            entries.push(this._createPinToScaleEntry(`pin-${indicator.id}`, indicator.name,
+                indicator.priceScaleId, overlayId, (id) => this.setIndicatorPriceScale(indicator.id, id)));
+        }
+        return entries;
+    }
+
+    /**
+     * @param overlayId Scale for "No scale", null to only offer the axes
+     */
+    private _createPinToScaleEntry(
+        id: string,
+        label: string,
+        current: string,
+        overlayId: string | null,
+        pin: (priceScaleId: string) => void
+    ): ContextMenuItem {
+        const isOverlay = current !== 'right' && current !== 'left';
+        const items: ContextMenuItem[] = [
+            { id: `${id}-right`, label: t('Pin to right scale'), checked: current === 'right', action: () => pin('right') },
+            { id: `${id}-left`, label: t('Pin to left scale'), checked: current === 'left', action: () => pin('left') },
+        ];
+        if (overlayId !== null) {
+            items.push({
+                id: `${id}-overlay`,
+                label: t('No scale (fullscreen)'),
+                checked: isOverlay,
+                action: () => { if (!isOverlay) pin(overlayId); },
+            });
+        }
+        return { id, label, items };
+    }
+
     /**
      * Add a panel indicator (creates a new pane below the main chart)
      */
     addPanelIndicator(indicator: PanelIndicator): void {
         this._indicatorManager.addPanelIndicator(indicator);
+        this._indicatorHistory.recordAdded(indicator);
+        this._objectTreePanel?.refresh();
     }
 
     /**
      * Remove indicator by ID
      */
     removeIndicator(id: string): void {
+        const indicator = this._indicatorManager.getIndicator(id);
+        if (!indicator) return;
+
         this._indicatorManager.removeIndicator(id);
+        this._indicatorHistory.recordRemoved(indicator);
+        this._objectTreePanel?.refresh();
+    }
+
+    private _toggleIndicatorVisible(indicator: Indicator): void {
+        const before = this._indicatorHistory.captureOptions(indicator);
+        indicator.setVisible(!indicator.visible);
+        this._model.recalculateAllPanes();
+        this._indicatorHistory.recordOptionsChanged(indicator, before, indicator.visible ? 'Show indicator' : 'Hide indicator');
+        this._scheduleDraw();
     }
 
     private _onIndicatorPaneAdded(indicator: PanelIndicator): void {
@@ -1954,7 +3274,7 @@ export class ChartWidget implements Disposable {
 
         // Handle indicator removal from pane UI (the legend 'X' button)
         pane.onIndicatorRemoved = (removedIndicator) => {
-            this._indicatorManager.removeIndicator(removedIndicator.id);
+            this.removeIndicator(removedIndicator.id);
         };
 
         // Handle settings button click
@@ -1995,6 +3315,8 @@ export class ChartWidget implements Disposable {
      */
     private _openIndicatorSettings(ind: any): void {
         this._editingIndicator = ind;
+        this._editingIndicatorOptions = this._indicatorHistory.captureOptions(ind);
+        this._editingSymbol = null;
 
         // Check if indicator has modular settings (implements getSettingsConfig)
         if (typeof ind.getSettingsConfig === 'function') {
@@ -2016,7 +3338,7 @@ export class ChartWidget implements Disposable {
                 const paneElement = pane.element;
                 let localY: number | null = null;
 
-                if (paneElement && this._lastMouseY !== 0) {
+                if (paneElement && this._lastMouseY !== 0 && !this._externalCrosshair) {
                     const rect = paneElement.getBoundingClientRect();
                     // Check if mouse Y is within this pane (with a small buffer for borders)
                     if (this._lastMouseY >= rect.top && this._lastMouseY <= rect.bottom) {
@@ -2048,154 +3370,81 @@ export class ChartWidget implements Disposable {
         }
     }
 
-    private _onIndicatorSelected(indicatorId: string): void {
-        // Create and add indicator based on ID
-        switch (indicatorId) {
-            case 'rsi':
-                this.addIndicator(new RSIIndicator({ period: 14 }));
-                break;
-            case 'ema':
-                this.addOverlayIndicator(new EMAIndicator({ period: 20 }));
-                break;
-            case 'sma':
-                this.addOverlayIndicator(new SMAIndicator({ period: 20 }));
-                break;
-            case 'bb':
-                this.addOverlayIndicator(new BBIndicator({ period: 20, stdDev: 2 }));
-                break;
-            case 'macd':
-                this.addIndicator(new MACDIndicator({ fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 }));
-                break;
-            case 'stoch':
-                this.addIndicator(new StochIndicator({ kPeriod: 14, sPeriod: 3, dPeriod: 3 }));
-                break;
-            case 'sar':
-                this.addOverlayIndicator(new ParabolicSARIndicator({ start: 0.02, increment: 0.02, maximum: 0.20 }));
-                break;
-            case 'supertrend':
-                this.addOverlayIndicator(new SuperTrendIndicator({
-                    period: 10,
-                    multiplier: 3,
-                    changeATR: true,
-                    showSignals: true,
-                    highlighting: true,
-                }));
-                break;
-            case 'alphatrend':
-                this.addOverlayIndicator(new AlphaTrendIndicator({
-                    multiplier: 1,
-                    commonPeriod: 14,
-                    showSignals: true,
-                    noVolumeData: false,
-                }));
-                break;
-            case 'ichimoku':
-                this.addOverlayIndicator(new IchimokuIndicator({
-                    conversionPeriods: 9,
-                    basePeriods: 26,
-                    laggingSpan2Periods: 52,
-                    displacement: 26,
-                }));
-                break;
-            case 'halftrend':
-                this.addOverlayIndicator(new HalfTrendIndicator({
-                    amplitude: 2,
-                    channelDeviation: 2,
-                    showArrows: true,
-                    showChannels: true,
-                    showLabels: true,
-                }));
-                break;
-            case 'volume':
-                this.addOverlayIndicator(new VolumeIndicator());
-                break;
-            case 'hma':
-                this.addOverlayIndicator(new HMAIndicator({ period: 9 }));
-                break;
-            case 'stochrsi':
-                this.addIndicator(new StochRSIIndicator({ rsiPeriod: 14, stochPeriod: 14, kPeriod: 3, dPeriod: 3 }));
-                break;
-            case 'tdoji':
-                this.addIndicator(new TdojiOscillatorIndicator({
-                    curveLength: 144,
-                    slopeLength: 5,
-                    signalLength: 21,
-                }));
-                break;
-            case 'thunderbirdx':
-                this.addIndicator(new ThunderbirdxIndicator());
-                break;
-            case 'tdoji-sr':
-                this.addOverlayIndicator(new TdojiSRIndicator());
-                break;
-            case 'tdoji-mom':
-                this.addIndicator(new TdojiMomIndicator({ period: 60 }));
-                break;
-            case 'zigzag':
-                this.addOverlayIndicator(new ZigZagIndicator({
-                    period: 15,
-                }));
-                break;
-            case 'abcd-pattern':
-                this.addOverlayIndicator(new ABCDPatternIndicator({
-                    period: 15,
-                }));
-                break;
-            case 'harmonic-patterns':
-                this.addOverlayIndicator(new HarmonicPatternIndicator({
-                    period: 15,
-                    showABCD: true,
-                    showGartley: true,
-                }));
-                break;
-            case 'chart-patterns':
-                this.addOverlayIndicator(new ChartPatternsIndicator({
-                    period: 15,
-                    showDoubleTop: true,
-                    showDoubleBottom: true,
-                    showBullPennant: true,
-                    showBearPennant: true,
-                    showBullFlag: true,
-                    showBearFlag: true,
-                    showBullWedgeCont: true,
-                    showBearWedgeCont: true,
-                    showBullWedgeRev: true,
-                    showBearWedgeRev: true,
-                    showHeadAndShoulders: true,
-                    showInverseHeadAndShoulders: true,
-                    showCupAndHandle: true,
-                    showAscendingTriangle: true,
-                    showPrediction: true,
-                    showHistory: false,
-                }));
-                break;
-            case 'zigzag-trendline':
-                this.addOverlayIndicator(new ZigZagTrendlineIndicator({
-                    period: 15,
-                    pivotCount: 2,
-                    showHistory: false,
-                }));
-                break;
-            case 'trendline-breakout':
-                this.addOverlayIndicator(new TrendlineBreakoutIndicator({
-                    period: 20,
-                    useLength8: true,
-                    useLength10: true,
-                    useLength15: true,
-                    useLength30: true,
-                    volumeSpikeMultiplier: 1,
-                    showHistory: false,
-                    showBullBreakout: true,
-                    showBearBreakdown: true,
-                }));
-                break;
+    private _onIndicatorSelected(type: string): void {
+        // Pine scripts are written first, the editor adds them
+        if (type === 'Pine') {
+            this.openPineEditor();
+            return;
+        }
 
+        const indicator = createIndicator(type);
+        if (indicator instanceof OverlayIndicator) {
+            this.addOverlayIndicator(indicator);
+        } else if (indicator instanceof PanelIndicator) {
+            this.addIndicator(indicator);
+        } else {
+            console.warn(`Unknown indicator: ${type}`);
+        }
+    }
 
+    /**
+     * Public API: Add a Pine Script indicator, to the chart or its own pane
+     * as the script's indicator() declares
+     * @throws PineError when the script doesn't compile
+     */
+    addPineIndicator(source: string, options: Partial<PineIndicatorOptions> = {}): PineIndicator {
+        const indicator = createPineIndicator(source, options);
+        if (indicator instanceof PineOverlayIndicator) {
+            this.addOverlayIndicator(indicator);
+        } else {
+            this.addIndicator(indicator);
+        }
+        return indicator;
+    }
 
+    /**
+     * Open the Pine Editor on an indicator's script, or on a new script
+     */
+    openPineEditor(indicator: PineIndicator | null = null): void {
+        if (!this._element) return;
+        if (!this._pineEditor) {
+            this._pineEditor = new PineEditor(this._element);
+            this._pineEditor.applyClicked.subscribe((source) => this._applyPineSource(source));
+        }
+        this._pineEditor.setIndicator(indicator);
+        this._pineEditor.show();
+    }
 
-            default:
-                console.warn(`Unknown indicator: ${indicatorId}`);
+    /**
+     * Update the edited indicator, or add a new one. A script switching
+     * between overlay and pane is replaced by a new indicator.
+     */
+    private _applyPineSource(source: string): void {
+        const editor = this._pineEditor;
+        if (!editor) return;
+
+        try {
+            const current = editor.indicator;
+            if (current && this._indicatorManager.hasIndicator(current.id)
+                && compilePine(source).declaration.overlay === current instanceof PineOverlayIndicator) {
+                current.setSource(source);
+                editor.showError(current.error);
+            } else {
+                const indicator = this.addPineIndicator(source);
+                if (current && this._indicatorManager.hasIndicator(current.id)) {
+                    this.removeIndicator(current.id);
+                }
+                editor.setIndicator(indicator);
+            }
+        } catch (error) {
+            if (!(error instanceof PineError)) throw error;
+            editor.showError(error);
+            return;
         }
+
+        this._updateMainLegend();
+        this._scheduleDraw();
+        this._chartStateManager?.saveState();
     }
 
     /**
@@ -2212,6 +3461,9 @@ export class ChartWidget implements Disposable {
                 indicator.calculate(data);
             }
         }
+
+        this._indicatorHistory.recordAdded(indicator);
+        this._objectTreePanel?.refresh();
     }
 
     /**
@@ -2234,6 +3486,9 @@ export class ChartWidget implements Disposable {
             this._scheduleDraw();
         });
 
+        this._indicatorHistory.recordAdded(indicator);
+        this._objectTreePanel?.refresh();
+
         // Trigger redraw
         this._scheduleDraw();
     }
@@ -2241,12 +3496,20 @@ export class ChartWidget implements Disposable {
     // --- Cleanup ---
 
     dispose(): void {
+        for (const { target, type, listener } of this._globalListeners) {
+            target.removeEventListener(type, listener);
+        }
+        this._globalListeners.length = 0;
         this._resizeObserver?.disconnect();
         this._resizeObserver = null;
         this._model.destroy();
         this._symbolChanged.destroy();
         this._timeframeChanged.destroy();
+        this._crosshairMoved.destroy();
         this._indicatorManager.destroy();
+        this._drawingHistory?.destroy();
+        this._history.destroy();
+        this._drawingTemplates.destroy();
 
         // Dispose indicator panes
         for (const pane of this._indicatorPanes.values()) {
@@ -2260,8 +3523,23 @@ export class ChartWidget implements Disposable {
         this._indicatorSearchModal?.dispose();
         this._paneWidget?.dispose();
         this._priceAxisWidget?.dispose();
+        this._leftPriceAxisWidget?.dispose();
         this._timeAxisWidget?.dispose();
         this._contextMenu?.dispose();
+        this._alertsPanel?.dispose();
+        this._objectTreePanel?.dispose();
+        this._liquidationPanel?.dispose();
+        this._pineEditor?.dispose();
+        this._alertToasts?.dispose();
+        this._alertManager.destroy();
+        this._replayPicker?.dispose();
+        this._replayBar?.dispose();
+        this._replay.destroy();
+        this._comparisons.destroy();
+        this._liquidations.destroy();
+        this._derivatives.destroy();
+        this._trades.destroy();
+        this.setBroker(null);
 
         if (this._element && this._element.parentNode) {
             this._element.parentNode.removeChild(this._element);
@@ -2290,6 +3568,17 @@ export class ChartWidget implements Disposable {
                     icon: ICONS.copy,
                     action: () => this._onContextCopyPrice()
                 },
+                {
+                    id: 'add-alert',
+                    label: t('Add alert'),
+                    icon: ICONS.alert,
+                    action: () => this._onContextAddAlert()
+                },
+                {
+                    id: 'pin-to-scale',
+                    label: t('Pin to scale'),
+                    submenu: true
+                },
                 { id: 'sep2', label: '', separator: true },
                 {
                     id: 'screenshot',
@@ -2339,7 +3628,7 @@ export class ChartWidget implements Disposable {
             const oldSearch = this._symbolSearch;
             this._symbolSearch = new SymbolSearch();
             this._symbolSearch.symbolSelected.subscribe((symbol: SymbolInfo) => {
-                this._onSymbolChange(symbol);
+                this._onSymbolSearchSelected(symbol);
             });
             // Remove old modal from DOM if it exists
             oldSearch.hide();
@@ -2360,9 +3649,7 @@ export class ChartWidget implements Disposable {
             timeframe: this._model.timeframe,
             chartType: this._activeChartType,
             locale: getCurrentLanguage(),
-            priceScaleMode: this._model.rightPriceScale.mode === PriceScaleMode.Logarithmic
-                ? 'logarithmic'
-                : 'normal',
+            priceScaleMode: getPriceScaleModeType(this._model.mainPriceScale.mode),
         });
 
         // Listen for language changes
@@ -2372,9 +3659,15 @@ export class ChartWidget implements Disposable {
 
         // Listen for theme changes
         this._toolbarWidget.themeToggled.subscribe((theme: 'dark' | 'light') => {
+            this._recordSetting('Change theme', this._currentTheme, theme, (value) => this.setTheme(value));
             this.setTheme(theme);
         });
 
+        // Undo/redo buttons
+        this._toolbarWidget.undoClicked.subscribe(() => this.undo());
+        this._toolbarWidget.redoClicked.subscribe(() => this.redo());
+        this._onHistoryChanged();
+
         // Connect toolbar events
         this._toolbarWidget.timeframeChanged.subscribe((tf) => {
             this._onTimeframeChange(tf);
@@ -2384,18 +3677,48 @@ export class ChartWidget implements Disposable {
             this._onChartTypeChange(type);
         });
 
+        this._toolbarWidget.chartSettingsClicked.subscribe(() => {
+            this._onChartSettingsClick();
+        });
+
         this._toolbarWidget.priceScaleModeChanged.subscribe((mode) => {
             this._onPriceScaleModeChange(mode);
         });
 
         this._toolbarWidget.symbolClicked.subscribe(() => {
+            this._symbolSearchTarget = 'symbol';
             this._symbolSearch?.show();
         });
 
+        this._toolbarWidget.compareClicked.subscribe(() => {
+            this._symbolSearchTarget = 'compare';
+            this._symbolSearch?.show(t('Compare symbol'), true);
+        });
+
         this._toolbarWidget.indicatorsClicked.subscribe(() => {
             this._indicatorSearchModal?.show();
         });
 
+        this._toolbarWidget.alertsClicked.subscribe(() => {
+            this._alertsPanel?.toggle();
+        });
+
+        this._toolbarWidget.objectTreeClicked.subscribe(() => {
+            this._objectTreePanel?.toggle();
+        });
+
+        this._toolbarWidget.liquidationsClicked.subscribe(() => {
+            this._liquidationPanel?.toggle();
+        });
+
+        this._toolbarWidget.replayClicked.subscribe(() => {
+            this._onReplayClick();
+        });
+
+        this._toolbarWidget.tradingClicked.subscribe(() => {
+            this._onTradingClick();
+        });
+
         // DOM toggle
         this._toolbarWidget.domToggled.subscribe((enabled) => {
             if (this._heatmapRenderer) {
@@ -2470,6 +3793,7 @@ export class ChartWidget implements Disposable {
                 'shortPosition': 'shortPosition',
                 'priceRange': 'priceRange',
                 'dateRange': 'dateRange',
+                'fixedRangeVolumeProfile': 'fixedRangeVolumeProfile',
                 'datePriceRange': 'datePriceRange',
                 'text': 'text',
                 'callout': 'callout',
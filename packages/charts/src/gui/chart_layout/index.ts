@@ -0,0 +1,5 @@
+/**
+ * Chart Layout Module
+ */
+
+export * from './layout_manager';
@@ -0,0 +1,501 @@
+/**
+ * Layout Manager - hosts several charts in a grid with resizable splitters
+ *
+ * Charts are created by the host through createChart(), so each gets its
+ * data loading wired like a single chart. The chart clicked last is the
+ * active one: keyboard shortcuts go to it and charts added to the layout
+ * start with its symbol and timeframe. A badge in the corner of each chart
+ * puts it in a link group, see ChartSync.
+ *
+ * The grid, the charts with their drawings and indicators and the link
+ * groups are saved and restored as one layout.
+ */
+
+import { ChartWidget } from '../chart-widget';
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+import { ChartState, StorageAdapter, LocalStorageAdapter } from '../../state';
+import {
+    ChartSync,
+    LinkGroup,
+    LinkOptions,
+    LINK_GROUPS,
+    LINK_GROUP_COLORS,
+    LayoutSizes,
+    LayoutTemplate,
+    LayoutType,
+    LAYOUT_TEMPLATES,
+    MIN_LAYOUT_FRACTION,
+    defaultLayoutSizes,
+    normalizeLayoutSizes,
+} from '../../layout';
+
+/** Symbol and timeframe a chart of the layout starts with */
+export interface LayoutChartOptions {
+    symbol: string;
+    timeframe: string;
+    exchange: string;
+}
+
+/**
+ * Creates the chart of a layout cell, wired to its data like a single chart
+ * @param index - position of the chart in the layout
+ */
+export type LayoutChartFactory = (container: HTMLElement, options: LayoutChartOptions, index: number) => ChartWidget;
+
+export interface LayoutManagerOptions extends Partial<LayoutChartOptions> {
+    layout?: LayoutType;
+    createChart: LayoutChartFactory;
+    /** Where save() and load() keep the layout, localStorage by default */
+    storage?: StorageAdapter;
+}
+
+export interface SavedLayoutChart extends LayoutChartOptions {
+    linkGroup: LinkGroup | null;
+    state: ChartState | null;
+}
+
+export interface SavedLayout {
+    layout: LayoutType;
+    sizes: LayoutSizes;
+    activeIndex: number;
+    linkOptions: Partial<Record<LinkGroup, LinkOptions>>;
+    charts: SavedLayoutChart[];
+    savedAt: number;
+    version: number;
+}
+
+interface LayoutCellView {
+    element: HTMLElement;
+    frame: HTMLElement;
+    badge: HTMLButtonElement;
+    chart: ChartWidget;
+}
+
+const STORAGE_KEY = '_chart_layout';
+const CURRENT_VERSION = 1;
+const SPLITTER_SIZE = 6;
+const ACTIVE_COLOR = '#2962ff';
+
+const ICON_LINK = `<svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"><path d="M10 14a4 4 0 0 0 5.7 0l3-3a4 4 0 0 0-5.7-5.7l-1 1"/><path d="M14 10a4 4 0 0 0-5.7 0l-3 3a4 4 0 0 0 5.7 5.7l1-1"/></svg>`;
+
+export class LayoutManager {
+    private readonly _container: HTMLElement;
+    private readonly _createChart: LayoutChartFactory;
+    private readonly _storage: StorageAdapter;
+    private readonly _defaults: LayoutChartOptions;
+    private readonly _sync = new ChartSync();
+
+    private _element: HTMLElement;
+    private _layout: LayoutType = '1';
+    private _sizes: LayoutSizes;
+    private _cells: LayoutCellView[] = [];
+    private _splitters: HTMLElement[] = [];
+    private _activeIndex: number = 0;
+
+    private readonly _activeChartChanged = new Delegate<ChartWidget>();
+    private readonly _layoutChanged = new Delegate<LayoutType>();
+
+    private readonly _onMouseDown = (e: MouseEvent) => {
+        const index = this._cells.findIndex(cell => cell.element.contains(e.target as Node));
+        if (index >= 0) {
+            this._setActive(index);
+        }
+    };
+
+    constructor(container: HTMLElement, options: LayoutManagerOptions) {
+        this._container = container;
+        this._createChart = options.createChart;
+        this._storage = options.storage || new LocalStorageAdapter();
+        this._defaults = {
+            symbol: options.symbol || 'BTCUSDT',
+            timeframe: options.timeframe || '1h',
+            exchange: options.exchange || 'BINANCE',
+        };
+
+        this._element = document.createElement('div');
+        this._element.className = 'chart-layout';
+        this._element.style.cssText = 'position: relative; width: 100%; height: 100%; overflow: hidden;';
+        // Capture: charts stop some mousedowns from bubbling
+        this._element.addEventListener('mousedown', this._onMouseDown, true);
+        this._container.appendChild(this._element);
+
+        this._sync.linksChanged.subscribe(() => this._updateBadges());
+
+        const layout = options.layout ?? '1';
+        this._sizes = defaultLayoutSizes(LAYOUT_TEMPLATES[layout]);
+        this.setLayout(layout);
+    }
+
+    /** Fired when another chart is clicked */
+    get activeChartChanged(): Delegate<ChartWidget> {
+        return this._activeChartChanged;
+    }
+
+    /** Fired when the grid changes, also after restore() */
+    get layoutChanged(): Delegate<LayoutType> {
+        return this._layoutChanged;
+    }
+
+    /** Link groups of the charts, e.g. to choose what a group syncs */
+    get sync(): ChartSync {
+        return this._sync;
+    }
+
+    get layout(): LayoutType {
+        return this._layout;
+    }
+
+    /** Charts in layout order */
+    get charts(): ChartWidget[] {
+        return this._cells.map(cell => cell.chart);
+    }
+
+    get activeChart(): ChartWidget {
+        return this._cells[this._activeIndex].chart;
+    }
+
+    /**
+     * Switch the grid. Charts that still fit are kept, new ones start with
+     * the active chart's symbol and timeframe and extra ones are disposed.
+     */
+    setLayout(layout: LayoutType): void {
+        const template = LAYOUT_TEMPLATES[layout];
+        if (!template) {
+            throw new Error(`Unknown layout: ${layout}`);
+        }
+
+        const active = this._cells[this._activeIndex]?.chart;
+        const options = active ? chartOptions(active) : this._defaults;
+
+        while (this._cells.length > template.cells.length) {
+            this._removeCell(this._cells.pop()!);
+        }
+        while (this._cells.length < template.cells.length) {
+            this._cells.push(this._createCell(options, this._cells.length));
+        }
+
+        const changed = layout !== this._layout;
+        this._layout = layout;
+        if (changed || this._sizes.columns.length !== template.columns || this._sizes.rows.length !== template.rows) {
+            this._sizes = defaultLayoutSizes(template);
+        }
+        this._render();
+        this._setActive(Math.min(this._activeIndex, this._cells.length - 1), true);
+        if (changed) {
+            this._layoutChanged.fire(layout);
+        }
+    }
+
+    /** Put the chart at `index` in a link group, null unlinks it */
+    setLinkGroup(index: number, group: LinkGroup | null): void {
+        const cell = this._cells[index];
+        if (cell) {
+            this._sync.setGroup(cell.chart, group);
+        }
+    }
+
+    /** The grid, the charts with their drawings and indicators, and the link groups */
+    serialize(): SavedLayout {
+        const linkOptions: Partial<Record<LinkGroup, LinkOptions>> = {};
+        for (const group of LINK_GROUPS) {
+            linkOptions[group] = this._sync.groupOptions(group);
+        }
+
+        return {
+            layout: this._layout,
+            sizes: { columns: [...this._sizes.columns], rows: [...this._sizes.rows] },
+            activeIndex: this._activeIndex,
+            linkOptions,
+            charts: this._cells.map(cell => ({
+                ...chartOptions(cell.chart),
+                linkGroup: this._sync.group(cell.chart),
+                state: cell.chart.serializeState(),
+            })),
+            savedAt: Date.now(),
+            version: CURRENT_VERSION,
+        };
+    }
+
+    /**
+     * Replace the charts with a layout from serialize(). Every chart is
+     * created anew with its saved symbol, timeframe and state.
+     */
+    restore(saved: SavedLayout): void {
+        const template = LAYOUT_TEMPLATES[saved.layout];
+        if (!template || !Array.isArray(saved.charts)) {
+            throw new Error('Invalid layout format');
+        }
+
+        for (const cell of this._cells) {
+            this._removeCell(cell);
+        }
+        this._cells = [];
+
+        for (const group of LINK_GROUPS) {
+            const options = saved.linkOptions?.[group];
+            if (options) {
+                this._sync.setGroupOptions(group, options);
+            }
+        }
+
+        this._layout = saved.layout;
+        this._sizes = normalizeLayoutSizes(template, saved.sizes);
+        for (let index = 0; index < template.cells.length; index++) {
+            const chart = saved.charts[index] ?? saved.charts[0];
+            const cell = this._createCell(chart ?? this._defaults, index);
+            this._cells.push(cell);
+            if (chart?.state) {
+                cell.chart.restoreState(chart.state);
+            }
+        }
+        this._cells.forEach((cell, index) => this._sync.setGroup(cell.chart, saved.charts[index]?.linkGroup ?? null));
+
+        this._render();
+        const activeIndex = saved.activeIndex >= 0 && saved.activeIndex < this._cells.length ? saved.activeIndex : 0;
+        this._setActive(activeIndex, true);
+        this._layoutChanged.fire(this._layout);
+    }
+
+    /** Save the layout through the storage adapter */
+    save(): void {
+        this._storage.save(STORAGE_KEY, JSON.stringify(this.serialize()));
+    }
+
+    /** @returns false when no layout was saved or it couldn't be restored */
+    load(): boolean {
+        const json = this._storage.load(STORAGE_KEY);
+        if (!json) return false;
+
+        try {
+            this.restore(JSON.parse(json));
+            return true;
+        } catch (e) {
+            console.error('Failed to restore saved layout:', e);
+            return false;
+        }
+    }
+
+    dispose(): void {
+        for (const cell of this._cells) {
+            this._removeCell(cell);
+        }
+        this._cells = [];
+        this._sync.destroy();
+        this._activeChartChanged.destroy();
+        this._layoutChanged.destroy();
+
+        this._element.removeEventListener('mousedown', this._onMouseDown, true);
+        this._element.remove();
+    }
+
+    // --- Private ---
+
+    private _createCell(options: LayoutChartOptions, index: number): LayoutCellView {
+        const element = document.createElement('div');
+        element.className = 'chart-layout-cell';
+        element.style.cssText = 'position: absolute; box-sizing: border-box; overflow: hidden;';
+        this._element.appendChild(element);
+
+        const host = document.createElement('div');
+        host.style.cssText = 'position: absolute; inset: 0;';
+        element.appendChild(host);
+        const { symbol, timeframe, exchange } = options;
+        const chart = this._createChart(host, { symbol, timeframe, exchange }, index);
+
+        // Drawn over the chart to mark the active one
+        const frame = document.createElement('div');
+        frame.style.cssText = `
+            position: absolute; inset: 0; z-index: 5; pointer-events: none;
+            border: 2px solid transparent;
+        `;
+        element.appendChild(frame);
+
+        const badge = document.createElement('button');
+        badge.className = 'chart-layout-link';
+        badge.style.cssText = `
+            position: absolute; right: 4px; bottom: 4px; z-index: 6;
+            width: 20px; height: 20px; padding: 0; border-radius: 50%;
+            display: flex; align-items: center; justify-content: center;
+            font-size: 11px; font-weight: 600; font-family: inherit; cursor: pointer;
+        `;
+        badge.addEventListener('mousedown', (e) => e.stopPropagation());
+        badge.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this._sync.setGroup(chart, nextLinkGroup(this._sync.group(chart)));
+        });
+        element.appendChild(badge);
+
+        const cell: LayoutCellView = { element, frame, badge, chart };
+        this._sync.addChart(chart);
+        this._updateBadge(cell);
+        return cell;
+    }
+
+    private _removeCell(cell: LayoutCellView): void {
+        this._sync.removeChart(cell.chart);
+        cell.chart.dispose();
+        cell.element.remove();
+    }
+
+    private _setActive(index: number, force: boolean = false): void {
+        if (index === this._activeIndex && !force) return;
+        this._activeIndex = index;
+
+        const highlight = this._cells.length > 1;
+        this._cells.forEach((cell, i) => {
+            cell.chart.keyboardEnabled = i === index;
+            cell.frame.style.borderColor = highlight && i === index ? ACTIVE_COLOR : 'transparent';
+        });
+        this._activeChartChanged.fire(this._cells[index].chart);
+    }
+
+    /** Position the cells and the splitters between them */
+    private _render(): void {
+        const template = LAYOUT_TEMPLATES[this._layout];
+        const columnStarts = starts(this._sizes.columns);
+        const rowStarts = starts(this._sizes.rows);
+
+        template.cells.forEach((area, index) => {
+            const style = this._cells[index].element.style;
+            const columnEnd = area.column + (area.columnSpan ?? 1);
+            const rowEnd = area.row + (area.rowSpan ?? 1);
+            style.left = `${columnStarts[area.column] * 100}%`;
+            style.width = `${(columnStarts[columnEnd] - columnStarts[area.column]) * 100}%`;
+            style.top = `${rowStarts[area.row] * 100}%`;
+            style.height = `${(rowStarts[rowEnd] - rowStarts[area.row]) * 100}%`;
+            // Gaps between the charts, where the splitters are
+            style.borderLeft = area.column > 0 ? '1px solid rgba(128, 128, 128, 0.35)' : 'none';
+            style.borderTop = area.row > 0 ? '1px solid rgba(128, 128, 128, 0.35)' : 'none';
+        });
+
+        for (const splitter of this._splitters) {
+            splitter.remove();
+        }
+        this._splitters = [];
+
+        for (let column = 1; column < template.columns; column++) {
+            for (let row = 0; row < template.rows; row++) {
+                if (!separates(template, 'column', column, row)) continue;
+                const splitter = this._createSplitter('column', column);
+                splitter.style.left = `calc(${columnStarts[column] * 100}% - ${SPLITTER_SIZE / 2}px)`;
+                splitter.style.top = `${rowStarts[row] * 100}%`;
+                splitter.style.height = `${this._sizes.rows[row] * 100}%`;
+                splitter.style.width = `${SPLITTER_SIZE}px`;
+            }
+        }
+        for (let row = 1; row < template.rows; row++) {
+            for (let column = 0; column < template.columns; column++) {
+                if (!separates(template, 'row', row, column)) continue;
+                const splitter = this._createSplitter('row', row);
+                splitter.style.top = `calc(${rowStarts[row] * 100}% - ${SPLITTER_SIZE / 2}px)`;
+                splitter.style.left = `${columnStarts[column] * 100}%`;
+                splitter.style.width = `${this._sizes.columns[column] * 100}%`;
+                splitter.style.height = `${SPLITTER_SIZE}px`;
+            }
+        }
+    }
+
+    /**
+     * Splitter on the line before column or row `index`; dragging it resizes
+     * the columns or rows on both sides
+     */
+    private _createSplitter(axis: 'column' | 'row', index: number): HTMLElement {
+        const splitter = document.createElement('div');
+        splitter.className = 'chart-layout-splitter';
+        splitter.style.cssText = `position: absolute; z-index: 7; cursor: ${axis === 'column' ? 'col-resize' : 'row-resize'};`;
+
+        splitter.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const fractions = axis === 'column' ? this._sizes.columns : this._sizes.rows;
+            const before = fractions.slice(0, index - 1).reduce((sum, fraction) => sum + fraction, 0);
+            const pair = fractions[index - 1] + fractions[index];
+
+            const onMove = (event: MouseEvent) => {
+                const rect = this._element.getBoundingClientRect();
+                const position = axis === 'column'
+                    ? (event.clientX - rect.left) / rect.width
+                    : (event.clientY - rect.top) / rect.height;
+                const first = Math.min(pair - MIN_LAYOUT_FRACTION, Math.max(MIN_LAYOUT_FRACTION, position - before));
+                fractions[index - 1] = first;
+                fractions[index] = pair - first;
+                this._render();
+            };
+            const onUp = () => {
+                document.removeEventListener('mousemove', onMove);
+                document.removeEventListener('mouseup', onUp);
+                this._element.style.userSelect = '';
+            };
+
+            this._element.style.userSelect = 'none';
+            document.addEventListener('mousemove', onMove);
+            document.addEventListener('mouseup', onUp);
+        });
+
+        this._element.appendChild(splitter);
+        this._splitters.push(splitter);
+        return splitter;
+    }
+
+    private _updateBadges(): void {
+        for (const cell of this._cells) {
+            this._updateBadge(cell);
+        }
+    }
+
+    private _updateBadge(cell: LayoutCellView): void {
+        const group = this._sync.group(cell.chart);
+        if (group === null) {
+            cell.badge.innerHTML = ICON_LINK;
+            cell.badge.title = t('Not linked');
+            cell.badge.style.color = '#787b86';
+            cell.badge.style.background = 'rgba(255, 255, 255, 0.85)';
+            cell.badge.style.border = '1px solid #d1d4dc';
+        } else {
+            cell.badge.textContent = group.toString();
+            cell.badge.title = `${t('Link group')} ${group}`;
+            cell.badge.style.color = '#ffffff';
+            cell.badge.style.background = LINK_GROUP_COLORS[group];
+            cell.badge.style.border = `1px solid ${LINK_GROUP_COLORS[group]}`;
+        }
+    }
+}
+
+function chartOptions(chart: ChartWidget): LayoutChartOptions {
+    return {
+        symbol: chart.model.symbol,
+        timeframe: chart.model.timeframe,
+        exchange: chart.model.exchange,
+    };
+}
+
+/** The badge cycles through the groups and back to unlinked */
+function nextLinkGroup(group: LinkGroup | null): LinkGroup | null {
+    if (group === null) return LINK_GROUPS[0];
+    const index = LINK_GROUPS.indexOf(group);
+    return index < LINK_GROUPS.length - 1 ? LINK_GROUPS[index + 1] : null;
+}
+
+/** Start of each column or row and the end of the last, as fractions */
+function starts(fractions: number[]): number[] {
+    const result = [0];
+    for (const fraction of fractions) {
+        result.push(result[result.length - 1] + fraction);
+    }
+    return result;
+}
+
+/**
+ * Whether the line before column (or row) `line` separates two cells at
+ * row (or column) `across`, rather than running through a spanning cell
+ */
+function separates(template: LayoutTemplate, axis: 'column' | 'row', line: number, across: number): boolean {
+    return !template.cells.some(cell => {
+        const start = axis === 'column' ? cell.column : cell.row;
+        const span = (axis === 'column' ? cell.columnSpan : cell.rowSpan) ?? 1;
+        const crossStart = axis === 'column' ? cell.row : cell.column;
+        const crossSpan = (axis === 'column' ? cell.rowSpan : cell.columnSpan) ?? 1;
+        return start < line && start + span > line && crossStart <= across && crossStart + crossSpan > across;
+    });
+}
@@ -20,7 +20,7 @@ export function handleContextSettings(): void {
  * Handle copy price context menu action
  */
 export function handleContextCopyPrice(model: ChartModel): void {
-    const priceScale = model.rightPriceScale;
+    const priceScale = model.mainPriceScale;
     const priceRange = priceScale.priceRange;
     if (!priceRange) return;
 
@@ -170,7 +170,9 @@ export function handleContextResetChart(model: ChartModel): void {
     model.timeScale.setBarSpacing(8);
     model.timeScale.setRightOffset(10);
     model.timeScale.scrollToPosition(0, false);
-    model.rightPriceScale.setAutoScale(true);
-    model.rightPriceScale.setPriceRange(null);
+    for (const id of model.priceScaleIds) {
+        model.priceScale(id).setAutoScale(true);
+        model.priceScale(id).setPriceRange(null);
+    }
     model.fullUpdate();
 }
@@ -6,6 +6,8 @@
 import { ChartModel } from '../../model/chart-model';
 import { PriceScale } from '../../model/price-scale';
 import { DrawingManager } from '../../drawings';
+import { BaselineSeries } from '../../model/baseline-series';
+import { coordinate } from '../../model/coordinate';
 
 /**
  * Interface for the chart widget context needed by event handlers
@@ -23,6 +25,7 @@ export interface ChartWidgetContext {
     isDraggingDrawing: boolean;
     draggingControlPoint: number;
     isPriceScaleDragging: boolean;
+    isDraggingBaseline: boolean;
     lastMouseX: number;
     lastMouseY: number;
     dragStartX: number;
@@ -33,6 +36,11 @@ export interface ChartWidgetContext {
 
     // Callbacks
     scheduleDraw: () => void;
+    undo?: () => void;
+    redo?: () => void;
+    copyDrawings?: () => void;
+    /** @returns false when there was nothing to paste */
+    pasteDrawings?: () => boolean;
 }
 
 /**
@@ -88,6 +96,20 @@ export function hitTestControlPoint(x: number, y: number, drawing: any): number
     return -1;
 }
 
+/**
+ * Baseline series of the main pane whose base price line is under y, if any
+ */
+export function hitTestBaseline(y: number, ctx: ChartWidgetContext): BaselineSeries | null {
+    if (ctx.paneId !== null) return null;
+
+    const series = ctx.model.serieses[0];
+    if (!(series instanceof BaselineSeries)) return null;
+
+    const baseY = series.baseCoordinate;
+    const threshold = 5;
+    return baseY !== null && Math.abs(y - baseY) <= threshold ? series : null;
+}
+
 /**
  * Handle mouse down event - returns updated state
  */
@@ -125,6 +147,10 @@ export function handleMouseDown(
             }
 
             if (selected.hitTest(x, y, 8)) {
+                // Alt-drag drags a copy
+                if (e.altKey) {
+                    ctx.drawingManager.cloneSelected();
+                }
                 return {
                     isDraggingDrawing: true,
                     draggingControlPoint: 99,
@@ -135,8 +161,12 @@ export function handleMouseDown(
         }
 
         // Try to select a drawing
-        const hitDrawing = ctx.drawingManager.selectDrawingAt(x, y, ctx.paneId);
+        const additive = e.ctrlKey || e.metaKey || e.shiftKey;
+        const hitDrawing = ctx.drawingManager.selectDrawingAt(x, y, ctx.paneId, additive);
         if (hitDrawing) {
+            if (e.altKey) {
+                ctx.drawingManager.cloneSelected();
+            }
             return {
                 isDraggingDrawing: true,
                 draggingControlPoint: 99,
@@ -179,6 +209,11 @@ export function handleMouseDown(
         return {};
     }
 
+    // Drag the base price of a baseline series
+    if (hitTestBaseline(y, ctx)) {
+        return { isDraggingBaseline: true };
+    }
+
     // Normal panning mode
     const result: Partial<ChartWidgetContext> = {
         isDragging: true,
@@ -252,6 +287,19 @@ export function handleMouseMove(
         return result;
     }
 
+    // Handle base price dragging
+    if (ctx.isDraggingBaseline && paneRect) {
+        const x = e.clientX - paneRect.left;
+        const y = e.clientY - paneRect.top;
+        const series = ctx.model.serieses[0];
+        if (series instanceof BaselineSeries) {
+            series.setBasePrice(ctx.priceScale.coordinateToPrice(coordinate(y)));
+            ctx.scheduleDraw();
+        }
+        ctx.model.setCrosshairPosition(x, y, true);
+        return result;
+    }
+
     // Update drawing preview
     if (paneRect && ctx.drawingManager.activeDrawing) {
         let dx = e.clientX - paneRect.left;
@@ -337,11 +385,40 @@ export function handleKeyDown(
     e: KeyboardEvent,
     ctx: ChartWidgetContext
 ): void {
+    // Typing in a field, e.g. a template name in the attribute bar
+    if (isEditableTarget(e.target)) return;
+
+    if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase();
+        // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y
+        if (key === 'z' || key === 'y') {
+            const redo = key === 'y' || e.shiftKey;
+            const action = redo ? ctx.redo : ctx.undo;
+            if (action) {
+                e.preventDefault();
+                action();
+            }
+            return;
+        }
+
+        // Ctrl+C / Ctrl+V copy and paste drawings; without a selected drawing Ctrl+C is left to the page
+        if (key === 'c' && ctx.copyDrawings && ctx.drawingManager.selectedDrawing) {
+            e.preventDefault();
+            ctx.copyDrawings();
+            return;
+        }
+        if (key === 'v' && ctx.pasteDrawings) {
+            if (ctx.pasteDrawings()) {
+                e.preventDefault();
+            }
+            return;
+        }
+    }
+
     if (e.key === 'Delete' || e.key === 'Backspace') {
-        const selected = ctx.drawingManager.selectedDrawing;
-        if (selected) {
+        if (ctx.drawingManager.selectedDrawing) {
             e.preventDefault();
-            ctx.drawingManager.deleteDrawing(selected.id);
+            ctx.drawingManager.deleteSelected();
             ctx.scheduleDraw();
         }
     }
@@ -369,6 +446,14 @@ export function handleKeyDown(
     }
 }
 
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable
+        || target.tagName === 'INPUT'
+        || target.tagName === 'TEXTAREA'
+        || target.tagName === 'SELECT';
+}
+
 /**
  * Handle mouse leave
  */
@@ -400,6 +485,9 @@ export function handleMouseUp(
         result.isDraggingDrawing = false;
         result.draggingControlPoint = -1;
     }
+    if (ctx.isDraggingBaseline) {
+        result.isDraggingBaseline = false;
+    }
 
     // Finish brush or highlighter drawing on mouse up
     if (paneRect && ctx.drawingManager.activeDrawing &&
@@ -5,3 +5,4 @@
 
 export * from './event-handlers';
 export * from './context-actions';
+export * from './symbol-settings';
@@ -0,0 +1,244 @@
+/**
+ * Chart Widget Symbol Settings
+ * Settings modal provider for the main series: chart type and its style
+ */
+
+import { Series } from '../../model/series';
+import { CandlestickSeries } from '../../model/candlestick-series';
+import { LineSeries } from '../../model/line-series';
+import { AreaSeries } from '../../model/area-series';
+import { BarSeries } from '../../model/bar-series';
+import { HollowCandleSeries } from '../../model/hollow-candle-series';
+import { BaselineSeries } from '../../model/baseline-series';
+import { StepLineSeries } from '../../model/step-line-series';
+import { ColumnSeries } from '../../model/column-series';
+import { HlcAreaSeries } from '../../model/hlc-area-series';
+import { HeikenAshiSeries } from '../../series/heiken-ashi-series';
+import { FootprintSeries } from '../../series/footprint-series';
+import { TransformedSeries } from '../../series/transformed-series';
+import { PriceScaleMode } from '../../model/price-scale';
+import { ChartType, MORE_CHART_TYPES, PriceScaleModeType } from '../toolbar';
+import {
+    IndicatorSettingsProvider,
+    IndicatorSettingsConfig,
+    SettingRow,
+    SettingsTab,
+    selectRow,
+    numberRow,
+    colorRow,
+    checkboxRow,
+    lineWidthRow
+} from '../indicator_settings';
+
+/** Chart types with a toolbar button */
+const BUTTON_CHART_TYPES: { type: ChartType; label: string }[] = [
+    { type: 'candles', label: 'Candlestick' },
+    { type: 'line', label: 'Line' },
+    { type: 'area', label: 'Area' },
+    { type: 'heiken-ashi', label: 'Heiken Ashi' },
+];
+
+const CHART_TYPE_OPTIONS: { value: string; label: string }[] = [
+    ...BUTTON_CHART_TYPES,
+    ...MORE_CHART_TYPES.flatMap(group => group.types),
+].map(({ type, label }) => ({ value: type, label }));
+
+/** Price scale modes by their toolbar name */
+export const PRICE_SCALE_MODES: Record<PriceScaleModeType, PriceScaleMode> = {
+    'normal': PriceScaleMode.Normal,
+    'logarithmic': PriceScaleMode.Logarithmic,
+    'percentage': PriceScaleMode.Percentage,
+    'indexed': PriceScaleMode.IndexedTo100,
+};
+
+export function getPriceScaleModeType(mode: PriceScaleMode): PriceScaleModeType {
+    const entry = Object.entries(PRICE_SCALE_MODES).find(([, value]) => value === mode);
+    return entry ? entry[0] as PriceScaleModeType : 'normal';
+}
+
+const SCALE_MODE_OPTIONS: { value: PriceScaleModeType; label: string }[] = [
+    { value: 'normal', label: 'Regular' },
+    { value: 'logarithmic', label: 'Logarithmic' },
+    { value: 'percentage', label: 'Percent' },
+    { value: 'indexed', label: 'Indexed to 100' },
+];
+
+/**
+ * Style rows of the built-in series, keys are the series option names
+ */
+export function getSeriesStyleRows(series: Series): SettingRow[] {
+    // Before the candles, a footprint series is one
+    if (series instanceof FootprintSeries) {
+        return [
+            colorRow('upColor', 'Up Color'),
+            colorRow('downColor', 'Down Color'),
+            checkboxRow('wickVisible', 'Wick'),
+            numberRow('ticksPerRow', 'Ticks per row', 1, 1000, 1),
+            checkboxRow('showImbalances', 'Show Imbalances'),
+            numberRow('imbalanceRatio', 'Imbalance Ratio', 1, 100, 0.5),
+            numberRow('stackedImbalanceCount', 'Stacked Imbalances', 2, 20, 1),
+            colorRow('buyImbalanceColor', 'Buy Imbalance'),
+            colorRow('sellImbalanceColor', 'Sell Imbalance'),
+            checkboxRow('showDelta', 'Show Delta'),
+            colorRow('pocColor', 'POC Color'),
+            colorRow('textColor', 'Text Color'),
+        ];
+    }
+    if (series instanceof CandlestickSeries || series instanceof HeikenAshiSeries) {
+        return [
+            colorRow('upColor', 'Up Color'),
+            colorRow('downColor', 'Down Color'),
+            checkboxRow('borderVisible', 'Borders'),
+            checkboxRow('wickVisible', 'Wick'),
+        ];
+    }
+    if (series instanceof BarSeries) {
+        return [
+            colorRow('upColor', 'Up Color'),
+            colorRow('downColor', 'Down Color'),
+            checkboxRow('openVisible', 'Show Open'),
+            checkboxRow('thinBars', 'Thin Bars'),
+        ];
+    }
+    if (series instanceof HollowCandleSeries) {
+        return [
+            colorRow('upColor', 'Up Color'),
+            colorRow('downColor', 'Down Color'),
+            checkboxRow('wickVisible', 'Wick'),
+        ];
+    }
+    if (series instanceof LineSeries || series instanceof StepLineSeries) {
+        return [colorRow('color', 'Color'), lineWidthRow('lineWidth')];
+    }
+    if (series instanceof AreaSeries) {
+        return [
+            colorRow('lineColor', 'Line Color'),
+            colorRow('topColor', 'Fill Top'),
+            colorRow('bottomColor', 'Fill Bottom'),
+            lineWidthRow('lineWidth'),
+        ];
+    }
+    if (series instanceof BaselineSeries) {
+        return [
+            colorRow('topLineColor', 'Top Line'),
+            colorRow('topFillColor1', 'Top Fill 1'),
+            colorRow('topFillColor2', 'Top Fill 2'),
+            colorRow('bottomLineColor', 'Bottom Line'),
+            colorRow('bottomFillColor1', 'Bottom Fill 1'),
+            colorRow('bottomFillColor2', 'Bottom Fill 2'),
+            lineWidthRow('lineWidth'),
+        ];
+    }
+    if (series instanceof ColumnSeries) {
+        return [colorRow('upColor', 'Up Color'), colorRow('downColor', 'Down Color')];
+    }
+    if (series instanceof HlcAreaSeries) {
+        return [
+            colorRow('highLineColor', 'High Line'),
+            colorRow('lowLineColor', 'Low Line'),
+            colorRow('closeLineColor', 'Close Line'),
+            colorRow('upFillColor', 'Up Fill'),
+            colorRow('downFillColor', 'Down Fill'),
+            lineWidthRow('lineWidth'),
+        ];
+    }
+    return [];
+}
+
+/**
+ * Symbol settings of the main series.
+ * The chart type and scale rows are only recorded here, the chart widget applies them after Ok.
+ */
+export class SymbolSettings implements IndicatorSettingsProvider {
+    private _chartType: ChartType;
+    private _scaleMode: PriceScaleModeType;
+    private _invertScale: boolean;
+
+    constructor(private readonly _series: Series, chartType: ChartType, scaleMode: PriceScaleModeType, invertScale: boolean) {
+        this._chartType = chartType;
+        this._scaleMode = scaleMode;
+        this._invertScale = invertScale;
+    }
+
+    /** Chart type picked in the modal */
+    get chartType(): ChartType {
+        return this._chartType;
+    }
+
+    get scaleMode(): PriceScaleModeType {
+        return this._scaleMode;
+    }
+
+    get invertScale(): boolean {
+        return this._invertScale;
+    }
+
+    get series(): Series {
+        return this._series;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        const rows: SettingRow[] = [selectRow('chartType', 'Chart Type', CHART_TYPE_OPTIONS)];
+        const tabs: SettingsTab[] = [];
+
+        // Transformed types bring their own tabs, their style rows join the symbol section
+        const ownConfig = this._series instanceof TransformedSeries ? this._series.getSettingsConfig() : null;
+        if (ownConfig) {
+            for (const tab of ownConfig.tabs) {
+                if (tab.id === 'style') {
+                    tab.sections.forEach(section => rows.push(...section.rows));
+                } else {
+                    tabs.push(tab);
+                }
+            }
+        } else {
+            rows.push(...getSeriesStyleRows(this._series));
+        }
+
+        // Uses the 'style' id so color pickers are not clipped by the tab content
+        const scaleRows = [
+            selectRow('scaleMode', 'Scale Mode', SCALE_MODE_OPTIONS),
+            checkboxRow('invertScale', 'Invert Scale'),
+        ];
+
+        return {
+            name: 'Symbol',
+            tabs: [
+                { id: 'style', label: 'Symbol', sections: [{ rows }] },
+                ...tabs,
+                { id: 'scales', label: 'Scales', sections: [{ rows: scaleRows }] },
+            ],
+        };
+    }
+
+    getSettingValue(key: string): any {
+        if (key === 'chartType') return this._chartType;
+        if (key === 'scaleMode') return this._scaleMode;
+        if (key === 'invertScale') return this._invertScale;
+        if (this._series instanceof TransformedSeries) return this._series.getSettingValue(key);
+        return (this._series.options as any)[key];
+    }
+
+    /** Returns true when the plotted bars have to be rebuilt */
+    setSettingValue(key: string, value: any): boolean {
+        if (key === 'chartType') {
+            this._chartType = value as ChartType;
+            return false;
+        }
+        if (key === 'scaleMode') {
+            this._scaleMode = value as PriceScaleModeType;
+            return false;
+        }
+        if (key === 'invertScale') {
+            this._invertScale = Boolean(value);
+            return false;
+        }
+        if (this._series instanceof TransformedSeries) {
+            return this._series.setSettingValue(key, value);
+        }
+        if ((this._series.options as any)[key] !== value) {
+            this._series.applyOptions({ [key]: value });
+        }
+        return false;
+    }
+}
@@ -10,6 +10,10 @@ export interface ContextMenuItem {
     action?: () => void;
     separator?: boolean;
     submenu?: boolean;
+    /** Entries of the submenu, opened on hover */
+    items?: ContextMenuItem[];
+    /** Show a check mark in place of the icon */
+    checked?: boolean;
     disabled?: boolean;
 }
 
@@ -40,6 +44,13 @@ const ICONS = {
         <circle cx="9" cy="9" r="2"/>
         <path d="M9 2v2M9 14v2M2 9h2M14 9h2M4.2 4.2l1.4 1.4M12.4 12.4l1.4 1.4M4.2 13.8l1.4-1.4M12.4 5.6l1.4-1.4"/>
     </svg>`,
+    alert: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5">
+        <circle cx="9" cy="10" r="6"/>
+        <path d="M9 7v3l2 1.5M3.5 3L2 4.5M14.5 3L16 4.5" stroke-linecap="round"/>
+    </svg>`,
+    check: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5">
+        <path d="M4 9.5l3 3 7-7" stroke-linecap="round" stroke-linejoin="round"/>
+    </svg>`,
     chevron: `<svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" stroke-width="1.5">
         <path d="M4 2l4 4-4 4" stroke-linecap="round" stroke-linejoin="round"/>
     </svg>`,
@@ -105,8 +116,11 @@ export class ContextMenu {
     private _renderItems(): void {
         if (!this._element) return;
         this._element.innerHTML = '';
+        this._appendItems(this._element, this._items);
+    }
 
-        this._items.forEach((item) => {
+    private _appendItems(parent: HTMLElement, items: ContextMenuItem[]): void {
+        items.forEach((item) => {
             if (item.separator) {
                 const separator = document.createElement('div');
                 separator.style.cssText = `
@@ -114,7 +128,7 @@ export class ContextMenu {
                     background: #e0e3eb;
                     margin: 6px 0;
                 `;
-                this._element!.appendChild(separator);
+                parent.appendChild(separator);
                 return;
             }
 
@@ -130,6 +144,7 @@ export class ContextMenu {
                 color: ${item.disabled ? '#b2b5be' : '#131722'};
                 transition: background 0.1s;
                 opacity: ${item.disabled ? '0.5' : '1'};
+                position: relative;
             `;
 
             // Icon
@@ -142,7 +157,7 @@ export class ContextMenu {
                 justify-content: center;
                 color: #787b86;
             `;
-            iconSpan.innerHTML = item.icon || '';
+            iconSpan.innerHTML = item.checked ? ICONS.check : item.icon || '';
             menuItem.appendChild(iconSpan);
 
             // Label
@@ -160,24 +175,33 @@ export class ContextMenu {
                 `;
                 shortcutSpan.textContent = item.shortcut;
                 menuItem.appendChild(shortcutSpan);
-            } else if (item.submenu) {
+            } else if (item.submenu || item.items) {
                 const arrowSpan = document.createElement('span');
                 arrowSpan.style.cssText = `color: #787b86;`;
                 arrowSpan.innerHTML = ICONS.chevron;
                 menuItem.appendChild(arrowSpan);
             }
 
+            const submenu = item.items && item.items.length > 0 ? this._createSubmenu(item.items) : null;
+            if (submenu) {
+                menuItem.appendChild(submenu);
+            }
+
             if (!item.disabled) {
                 menuItem.addEventListener('mouseenter', () => {
                     menuItem.style.background = '#f0f3fa';
+                    if (submenu) this._openSubmenu(submenu);
                 });
 
                 menuItem.addEventListener('mouseleave', () => {
                     menuItem.style.background = 'transparent';
+                    if (submenu) submenu.style.display = 'none';
                 });
 
                 menuItem.addEventListener('click', (e) => {
                     e.stopPropagation();
+                    // Entries with a submenu only open it
+                    if (submenu) return;
                     if (item.action) {
                         item.action();
                     }
@@ -185,10 +209,46 @@ export class ContextMenu {
                 });
             }
 
-            this._element!.appendChild(menuItem);
+            parent.appendChild(menuItem);
         });
     }
 
+    private _createSubmenu(items: ContextMenuItem[]): HTMLElement {
+        const submenu = document.createElement('div');
+        submenu.className = 'chart-context-submenu';
+        submenu.style.cssText = `
+            position: absolute;
+            left: 100%;
+            top: -6px;
+            background: #ffffff;
+            border: 1px solid #e0e3eb;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            min-width: 200px;
+            padding: 6px 0;
+            display: none;
+            cursor: default;
+        `;
+        this._appendItems(submenu, items);
+        return submenu;
+    }
+
+    /** Opens to the left of its entry when there is no room on the right */
+    private _openSubmenu(submenu: HTMLElement): void {
+        submenu.style.left = '100%';
+        submenu.style.right = '';
+        submenu.style.display = 'block';
+        if (submenu.getBoundingClientRect().right > window.innerWidth) {
+            submenu.style.left = '';
+            submenu.style.right = '100%';
+        }
+    }
+
+    /** Price at the right-click position */
+    get currentPrice(): number {
+        return this._currentPrice;
+    }
+
     setCurrentPrice(price: number): void {
         this._currentPrice = price;
         // Update copy price label dynamically
@@ -199,6 +259,17 @@ export class ContextMenu {
         }
     }
 
+    /**
+     * Replace the submenu of an entry, e.g. with entries for what is on the chart
+     */
+    setSubmenuItems(id: string, items: ContextMenuItem[]): void {
+        const item = this._items.find(i => i.id === id);
+        if (!item) return;
+        item.items = items;
+        item.disabled = items.length === 0;
+        this._renderItems();
+    }
+
     show(x: number, y: number): void {
         if (!this._element) return;
 
@@ -3,210 +3,7 @@
  */
 
 import { Delegate } from '../../helpers/delegate';
-
-export interface IndicatorItem {
-    id: string;
-    name: string;
-    shortName: string;
-    description: string;
-    category: 'standard' | 'custom' | 'pattern';
-    type: 'overlay' | 'panel';
-}
-
-const AVAILABLE_INDICATORS: IndicatorItem[] = [
-    {
-        id: 'ema',
-        name: 'Exponential Moving Average',
-        shortName: 'EMA',
-        description: 'Trend-following indicator that gives more weight to recent prices',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'rsi',
-        name: 'Relative Strength Index',
-        shortName: 'RSI',
-        description: 'Momentum oscillator measuring speed and change of price movements',
-        category: 'standard',
-        type: 'panel'
-    },
-    {
-        id: 'sma',
-        name: 'Simple Moving Average',
-        shortName: 'SMA',
-        description: 'Average price over a specified period',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'bb',
-        name: 'Bollinger Bands',
-        shortName: 'BB',
-        description: 'Volatility bands placed above and below a moving average',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'macd',
-        name: 'MACD',
-        shortName: 'MACD',
-        description: 'Trend-following momentum indicator showing relationship between two EMAs',
-        category: 'standard',
-        type: 'panel'
-    },
-    {
-        id: 'stoch',
-        name: 'Stochastic',
-        shortName: 'STOCH',
-        description: 'Momentum indicator comparing closing price to price range',
-        category: 'standard',
-        type: 'panel'
-    },
-    {
-        id: 'sar',
-        name: 'Parabolic SAR',
-        shortName: 'SAR',
-        description: 'Stop and Reverse indicator that identifies potential trend reversals',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'halftrend',
-        name: 'HalfTrend',
-        shortName: 'HT',
-        description: 'Trend reversal overlay with ATR channels and buy/sell signals',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'supertrend',
-        name: 'SuperTrend',
-        shortName: 'ST',
-        description: 'ATR tabanli trend takip overlay indikatori',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'alphatrend',
-        name: 'AlphaTrend',
-        shortName: 'AT',
-        description: 'ATR ve RSI/MFI tabanli trend overlay indikatori',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'ichimoku',
-        name: 'Ichimoku Cloud',
-        shortName: 'ICHI',
-        description: 'Conversion, base, lagging spans and kumo cloud overlay',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'volume',
-        name: 'Volume',
-        shortName: 'Vol',
-        description: 'Measures the number of shares or contracts traded in a security or market during a given period',
-        category: 'standard',
-        type: 'panel'
-    },
-    {
-        id: 'hma',
-        name: 'Hull Moving Average',
-        shortName: 'HMA',
-        description: 'Modified moving average with reduced lag and increased smoothness',
-        category: 'standard',
-        type: 'overlay'
-    },
-    {
-        id: 'stochrsi',
-        name: 'Stochastic RSI',
-        shortName: 'StochRSI',
-        description: 'Combines Stochastic oscillator with RSI to identify overbought/oversold levels of the RSI',
-        category: 'standard',
-        type: 'panel'
-    },
-    {
-        id: 'tdoji',
-        name: 'Tdoji Oscilator',
-        shortName: 'TDOJI',
-        description: 'Linear regression slope oscillator with EMA smoothing, SMA signal, and zero-line context',
-        category: 'custom',
-        type: 'panel'
-    },
-    {
-        id: 'thunderbirdx',
-        name: 'Thunderbirdx',
-        shortName: 'TBX',
-        description: 'Sinc momentum, MA and convergence-divergence histogram oscillator',
-        category: 'custom',
-        type: 'panel'
-    },
-    {
-        id: 'tdoji-sr',
-        name: 'TDOJI-SR',
-        shortName: 'SR',
-        description: 'Prev close based support and resistance ladder with labels and level notes',
-        category: 'custom',
-        type: 'overlay'
-    },
-    {
-        id: 'tdoji-mom',
-        name: 'TDOJI MOM',
-        shortName: 'MOM',
-        description: 'EMA(60) tabanli close farkini kolon histogram olarak gosterir',
-        category: 'custom',
-        type: 'panel'
-    },
-    {
-        id: 'zigzag',
-        name: 'ZigZag',
-        shortName: 'ZZ',
-        description: 'Pivot high ve low noktalarini deviation filtresi ile birlestiren formasyon indikatori',
-        category: 'pattern',
-        type: 'overlay'
-    },
-    {
-        id: 'abcd-pattern',
-        name: 'ABCD Pattern',
-        shortName: 'ABCD',
-        description: 'ZigZag pivotlarindan bullish veya bearish ABCD harmonic formasyonu tespit eder',
-        category: 'pattern',
-        type: 'overlay'
-    },
-    {
-        id: 'harmonic-patterns',
-        name: 'Harmonic Patterns',
-        shortName: 'HARM',
-        description: 'ABCD ve Gartley patternlerini ortak zigzag pivotlariyla tespit eder',
-        category: 'pattern',
-        type: 'overlay'
-    },
-    {
-        id: 'chart-patterns',
-        name: 'Chart Patterns',
-        shortName: 'CHART',
-        description: 'Cifte tepe, cifte dip, flama ve bayrak gibi klasik grafik formasyonlarini tespit eder',
-        category: 'pattern',
-        type: 'overlay'
-    },
-    {
-        id: 'zigzag-trendline',
-        name: 'Trendline',
-        shortName: 'TL',
-        description: 'ZigZag pivotlarindan otomatik trendline cizer',
-        category: 'pattern',
-        type: 'overlay'
-    },
-    {
-        id: 'trendline-breakout',
-        name: 'Trendline Breakout',
-        shortName: 'TL BO',
-        description: 'Alcalan veya yukselen zigzag trendline kirilimlarini tespit eder',
-        category: 'pattern',
-        type: 'overlay'
-    },
-];
+import { IndicatorDefinition, getIndicatorDefinitions } from '../../indicators/indicator-registry';
 
 export class IndicatorSearchModal {
     private _element: HTMLElement | null = null;
@@ -222,6 +19,7 @@ export class IndicatorSearchModal {
         this._createElement();
     }
 
+    /** Fires the registered type of the picked indicator */
     get indicatorSelected(): Delegate<string> {
         return this._indicatorSelected;
     }
@@ -470,16 +268,16 @@ export class IndicatorSearchModal {
 
     private _filterIndicators(): void {
         const query = this._searchInput?.value.toLowerCase() || '';
-        const filtered = AVAILABLE_INDICATORS.filter(ind =>
+        const filtered = getIndicatorDefinitions().filter(ind =>
             ind.name.toLowerCase().includes(query) ||
-            ind.shortName.toLowerCase().includes(query) ||
-            ind.description.toLowerCase().includes(query)
+            (ind.shortName ?? '').toLowerCase().includes(query) ||
+            (ind.description ?? '').toLowerCase().includes(query)
         ).filter(ind => ind.category === this._activeCategory);
 
         this._renderResults(filtered);
     }
 
-    private _renderResults(indicators: IndicatorItem[]): void {
+    private _renderResults(indicators: IndicatorDefinition[]): void {
         if (!this._resultsList) return;
 
         this._resultsList.innerHTML = '';
@@ -514,7 +312,7 @@ export class IndicatorSearchModal {
 
             // Icon based on type
             const icon = document.createElement('div');
-            icon.innerHTML = ind.type === 'overlay'
+            icon.innerHTML = ind.overlay
                 ? `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#2962ff" stroke-width="2"><path d="M3 17l6-6 4 4 8-8"/></svg>`
                 : `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#ff6d00" stroke-width="2"><rect x="3" y="10" width="4" height="10"/><rect x="10" y="6" width="4" height="14"/><rect x="17" y="2" width="4" height="18"/></svg>`;
             icon.style.cssText = `
@@ -523,7 +321,7 @@ export class IndicatorSearchModal {
                 display: flex;
                 align-items: center;
                 justify-content: center;
-                background: ${ind.type === 'overlay' ? 'rgba(41, 98, 255, 0.1)' : 'rgba(255, 109, 0, 0.1)'};
+                background: ${ind.overlay ? 'rgba(41, 98, 255, 0.1)' : 'rgba(255, 109, 0, 0.1)'};
                 border-radius: 8px;
                 flex-shrink: 0;
             `;
@@ -559,7 +357,7 @@ export class IndicatorSearchModal {
             nameRow.appendChild(name);
 
             const badge = document.createElement('span');
-            badge.textContent = ind.shortName;
+            badge.textContent = ind.shortName ?? ind.name;
             badge.style.cssText = `
                 font-size: 11px;
                 font-weight: 600;
@@ -592,7 +390,7 @@ export class IndicatorSearchModal {
             row.appendChild(addIcon);
 
             row.onclick = () => {
-                this._indicatorSelected.fire(ind.id);
+                this._indicatorSelected.fire(ind.type);
                 this.hide();
             };
 
@@ -11,8 +11,11 @@ import {
     NumberSettingRow,
     CheckboxSettingRow,
     LineWidthSettingRow,
-    SliderSettingRow
+    SliderSettingRow,
+    SelectSettingRow,
+    TextSettingRow
 } from '../../../drawings/drawing-settings-config';
+import { IndicatorSettingsConfig } from './types';
 
 // ============================================================================
 // Tab Helpers
@@ -69,3 +72,55 @@ export function lineWidthRow(key: string, label: string = 'Line Width'): LineWid
 export function sliderRow(key: string, label: string, min: number, max: number, step?: number): SliderSettingRow {
     return { type: 'slider', key, label, min, max, step };
 }
+
+/** Select row */
+export function selectRow(key: string, label: string, options: { value: string; label: string }[], defaultValue?: string): SelectSettingRow {
+    return { type: 'select', key, label, options, defaultValue };
+}
+
+/** Text input row */
+export function textRow(key: string, label: string, defaultValue?: string): TextSettingRow {
+    return { type: 'text', key, label, defaultValue };
+}
+
+/** Timeframes offered by the indicator 'timeframe' input, '' keeps the chart timeframe */
+export const INDICATOR_TIMEFRAMES: { value: string; label: string }[] = [
+    { value: '', label: 'Chart' },
+    { value: '5m', label: '5 minutes' },
+    { value: '15m', label: '15 minutes' },
+    { value: '30m', label: '30 minutes' },
+    { value: '1h', label: '1 hour' },
+    { value: '2h', label: '2 hours' },
+    { value: '4h', label: '4 hours' },
+    { value: '12h', label: '12 hours' },
+    { value: 'D', label: '1 day' },
+    { value: 'W', label: '1 week' },
+    { value: '1M', label: '1 month' },
+];
+
+/** Indicator calculation timeframe row */
+export function timeframeRow(key: string = 'timeframe', label: string = 'Timeframe'): SelectSettingRow {
+    return selectRow(key, label, INDICATOR_TIMEFRAMES, '');
+}
+
+// ============================================================================
+// Config Helpers
+// ============================================================================
+
+/** Prepend the timeframe row to the Inputs tab, adding the tab if the config has none */
+export function withTimeframeRow(config: IndicatorSettingsConfig): IndicatorSettingsConfig {
+    const row = timeframeRow();
+    const inputsTab = config.tabs.find(tab => tab.id === 'inputs');
+
+    if (!inputsTab) {
+        return { ...config, tabs: [createInputsTab([{ rows: [row] }]), ...config.tabs] };
+    }
+
+    const [first, ...rest] = inputsTab.sections;
+    const sections = first ? [{ ...first, rows: [row, ...first.rows] }, ...rest] : [{ rows: [row] }];
+
+    return {
+        ...config,
+        tabs: config.tabs.map(tab => (tab === inputsTab ? { ...inputsTab, sections } : tab)),
+    };
+}
@@ -25,6 +25,9 @@ export interface IndicatorSettingsProvider {
 
     /** Apply a setting value. Returns true if recalculation is needed. */
     setSettingValue(key: string, value: any): boolean;
+
+    /** Whether the modal should offer the 'timeframe' input */
+    readonly supportsTimeframe?: boolean;
 }
 
 /** Collected settings from modal */
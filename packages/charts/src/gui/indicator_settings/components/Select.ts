@@ -0,0 +1,39 @@
+/**
+ * Select Component
+ */
+
+import { t } from '../../../helpers/translations';
+
+export function createSelect(
+    value: string,
+    options: { value: string; label: string }[],
+    onChange: (value: string) => void
+): HTMLElement {
+    const select = document.createElement('select');
+
+    options.forEach(option => {
+        const optionEl = document.createElement('option');
+        optionEl.value = option.value;
+        optionEl.textContent = t(option.label);
+        select.appendChild(optionEl);
+    });
+    select.value = value ?? options[0]?.value ?? '';
+
+    select.style.cssText = `
+        min-width: 120px;
+        background: white;
+        border: 1px solid #e0e3eb;
+        border-radius: 6px;
+        padding: 8px 12px;
+        color: #131722;
+        font-size: 14px;
+        outline: none;
+        cursor: pointer;
+    `;
+
+    select.addEventListener('focus', () => select.style.borderColor = '#2962ff');
+    select.addEventListener('blur', () => select.style.borderColor = '#e0e3eb');
+    select.addEventListener('change', () => onChange(select.value));
+
+    return select;
+}
@@ -0,0 +1,31 @@
+/**
+ * Text Input Component
+ */
+
+export function createTextInput(
+    value: string,
+    placeholder: string,
+    onChange: (value: string) => void
+): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.value = value ?? '';
+    input.placeholder = placeholder;
+
+    input.style.cssText = `
+        width: 160px;
+        background: white;
+        border: 1px solid #e0e3eb;
+        border-radius: 6px;
+        padding: 8px 12px;
+        color: #131722;
+        font-size: 14px;
+        outline: none;
+    `;
+
+    input.addEventListener('focus', () => input.style.borderColor = '#2962ff');
+    input.addEventListener('blur', () => input.style.borderColor = '#e0e3eb');
+    input.addEventListener('input', () => onChange(input.value));
+
+    return input;
+}
@@ -7,3 +7,5 @@ export { createColorInput } from './ColorInput';
 export { createCheckbox } from './Checkbox';
 export { createLineWidthSelect } from './LineWidthSelect';
 export { createSliderInput } from './SliderInput';
+export { createSelect } from './Select';
+export { createTextInput } from './TextInput';
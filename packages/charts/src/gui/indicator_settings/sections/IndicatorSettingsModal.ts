@@ -8,7 +8,8 @@ import { Delegate } from '../../../helpers/delegate';
 import {
     IndicatorSettingsConfig,
     IndicatorSettingsProvider,
-    IndicatorSettings
+    IndicatorSettings,
+    withTimeframeRow
 } from '../base';
 import { renderSection, SectionContext } from '../sections';
 import { t } from '../../../helpers/translations';
@@ -21,6 +22,7 @@ export class IndicatorSettingsModal {
     private _provider: IndicatorSettingsProvider | null = null;
     private _activeTabId: string = 'inputs';
     private _collectedSettings: IndicatorSettings = {};
+    private _needsRecalc: boolean = false;
     private _dragCleanup: (() => void) | null = null;
 
     private readonly _settingsChanged = new Delegate<IndicatorSettings>();
@@ -33,12 +35,18 @@ export class IndicatorSettingsModal {
     get settingsChanged(): Delegate<IndicatorSettings> { return this._settingsChanged; }
     get closed(): Delegate<void> { return this._closed; }
 
+    /** Whether any setting applied on the last Ok reported that a recalculation is needed */
+    get needsRecalc(): boolean { return this._needsRecalc; }
+
     /**
      * Show modal for an indicator with settings provider
      */
     showForIndicator(provider: IndicatorSettingsProvider): void {
         this._provider = provider;
         this._config = provider.getSettingsConfig();
+        if (provider.supportsTimeframe) {
+            this._config = withTimeframeRow(this._config);
+        }
         this._activeTabId = this._config.tabs[0]?.id || 'inputs';
 
         // Collect current values from provider
@@ -205,9 +213,14 @@ export class IndicatorSettingsModal {
         okBtn.textContent = t('Ok');
         okBtn.style.cssText = `background: #131722; border: none; border-radius: 6px; padding: 10px 24px; color: white; font-size: 14px; font-weight: 500; cursor: pointer;`;
         okBtn.addEventListener('click', () => {
+            this._needsRecalc = false;
             if (this._provider) {
                 Object.entries(this._collectedSettings).forEach(([key, value]) => {
-                    this._provider!.setSettingValue(key, value);
+                    // Indicators don't treat the injected timeframe input as a calculation input
+                    const timeframeChanged = key === 'timeframe' && value !== this._provider!.getSettingValue(key);
+                    if (this._provider!.setSettingValue(key, value) || timeframeChanged) {
+                        this._needsRecalc = true;
+                    }
                 });
             }
             this._settingsChanged.fire(this._collectedSettings);
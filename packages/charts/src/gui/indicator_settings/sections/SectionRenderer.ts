@@ -10,7 +10,9 @@ import {
     createColorInput,
     createCheckbox,
     createLineWidthSelect,
-    createSliderInput
+    createSliderInput,
+    createSelect,
+    createTextInput
 } from '../components';
 import { t } from '../../../helpers/translations';
 
@@ -122,6 +124,34 @@ function renderRow(row: SettingRow, context: SectionContext): HTMLElement {
             break;
         }
 
+        case 'select': {
+            const label = document.createElement('label');
+            label.textContent = row.label ? t(row.label) : '';
+            label.style.cssText = `color: #131722; font-size: 14px;`;
+            rowEl.appendChild(label);
+
+            rowEl.appendChild(createSelect(
+                currentValue as string ?? row.defaultValue ?? '',
+                row.options,
+                (value) => context.setValue(row.key, value)
+            ));
+            break;
+        }
+
+        case 'text': {
+            const label = document.createElement('label');
+            label.textContent = row.label ? t(row.label) : '';
+            label.style.cssText = `color: #131722; font-size: 14px;`;
+            rowEl.appendChild(label);
+
+            rowEl.appendChild(createTextInput(
+                currentValue as string ?? row.defaultValue ?? '',
+                row.placeholder ?? '',
+                (value) => context.setValue(row.key, value)
+            ));
+            break;
+        }
+
         default: {
             const label = document.createElement('label');
             label.textContent = row.label ? t(row.label) : '';
@@ -0,0 +1,5 @@
+/**
+ * Liquidation Panel Module
+ */
+
+export * from './liquidation_panel';
@@ -0,0 +1,298 @@
+/**
+ * Liquidation Panel - turns the liquidation heatmap on and sets up its estimate
+ */
+
+import { LiquidationManager } from '../../liquidations/liquidation-manager';
+import { DEFAULT_LEVERAGE_TIERS, LeverageTier } from '../../model/liquidation-map';
+import {
+    LiquidationDisplay,
+    LiquidationHeatmapRenderer,
+} from '../../renderers/liquidation-heatmap-renderer';
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+
+const DISPLAY_LABELS: Record<LiquidationDisplay, string> = {
+    heatmap: 'Heatmap',
+    levels: 'Levels',
+    both: 'Heatmap and levels',
+};
+
+const FIELD_STYLE = `
+    width: 100%;
+    box-sizing: border-box;
+    background: #f0f3fa;
+    border: 1px solid transparent;
+    border-radius: 6px;
+    padding: 6px 8px;
+    font-size: 13px;
+    color: #131722;
+    outline: none;
+`;
+
+/**
+ * Liquidation heatmap settings, floats over the top right corner of the chart
+ */
+export class LiquidationPanel {
+    private _element: HTMLElement | null = null;
+    private _body: HTMLElement | null = null;
+    private _visible: boolean = false;
+
+    private readonly _changed = new Delegate<void>();
+
+    constructor(
+        private readonly _container: HTMLElement,
+        private readonly _manager: LiquidationManager,
+        private readonly _renderer: LiquidationHeatmapRenderer
+    ) {
+        this._createElement();
+    }
+
+    /** Fired when a setting changed, the chart redraws */
+    get changed(): Delegate<void> {
+        return this._changed;
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._render();
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+    }
+
+    toggle(): void {
+        if (this._visible) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    dispose(): void {
+        this._changed.destroy();
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+        this._body = null;
+    }
+
+    // --- Private: Layout ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-liquidation-panel';
+        this._element.style.cssText = `
+            position: absolute;
+            top: 48px;
+            right: 64px;
+            width: 280px;
+            max-height: 480px;
+            background: #ffffff;
+            border: 1px solid #e0e3eb;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+        `;
+        // Keep chart interactions from reacting to clicks in the panel
+        this._element.addEventListener('mousedown', e => e.stopPropagation());
+        this._element.addEventListener('wheel', e => e.stopPropagation());
+
+        this._body = document.createElement('div');
+        this._body.style.cssText = `display: flex; flex-direction: column; min-height: 0; flex: 1;`;
+        this._element.appendChild(this._body);
+
+        this._container.appendChild(this._element);
+    }
+
+    private _render(): void {
+        if (!this._body) return;
+        this._body.innerHTML = '';
+        this._body.appendChild(this._createHeader());
+
+        const content = document.createElement('div');
+        content.style.cssText = `overflow-y: auto; padding: 8px 12px 12px; display: flex; flex-direction: column; gap: 10px;`;
+        this._body.appendChild(content);
+
+        const options = this._manager.map.options;
+
+        const enabled = document.createElement('input');
+        enabled.type = 'checkbox';
+        enabled.checked = this._manager.enabled;
+        enabled.onchange = () => {
+            this._manager.setEnabled(enabled.checked);
+            this._changed.fire();
+        };
+        content.appendChild(this._createRow(t('Show'), enabled));
+
+        const display = document.createElement('select');
+        display.style.cssText = FIELD_STYLE;
+        (Object.keys(DISPLAY_LABELS) as LiquidationDisplay[]).forEach(value => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = t(DISPLAY_LABELS[value]);
+            option.selected = value === this._renderer.options.display;
+            display.appendChild(option);
+        });
+        display.onchange = () => {
+            this._renderer.setOptions({ display: display.value as LiquidationDisplay });
+            this._changed.fire();
+        };
+        content.appendChild(this._createRow(t('Display'), display));
+
+        content.appendChild(this._createRow(t('Maintenance margin %'), this._createNumberField(
+            options.maintenanceMargin * 100, 0, 50, 0.05,
+            value => this._manager.setOptions({ maintenanceMargin: value / 100 }))));
+
+        content.appendChild(this._createRow(t('Fade half-life (bars)'), this._createNumberField(
+            options.halfLife, 0, 10000, 1,
+            value => this._manager.setOptions({ halfLife: Math.round(value) }))));
+
+        content.appendChild(this._createTiers(options.tiers));
+
+        const reset = document.createElement('button');
+        reset.textContent = t('Reset');
+        reset.style.cssText = `
+            align-self: flex-start;
+            background: none;
+            border: 1px solid #e0e3eb;
+            border-radius: 4px;
+            padding: 5px 12px;
+            cursor: pointer;
+            font-size: 13px;
+            color: #131722;
+        `;
+        reset.onclick = () => {
+            this._manager.setOptions({ tiers: DEFAULT_LEVERAGE_TIERS, maintenanceMargin: 0.004, halfLife: 0 });
+            this._changed.fire();
+            this._render();
+        };
+        content.appendChild(reset);
+    }
+
+    private _createHeader(): HTMLElement {
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 10px 12px;
+            border-bottom: 1px solid #e0e3eb;
+        `;
+
+        const label = document.createElement('div');
+        label.textContent = t('Liquidation heatmap');
+        label.style.cssText = `flex: 1; font-weight: 600; font-size: 14px;`;
+        header.appendChild(label);
+
+        const close = document.createElement('button');
+        close.innerHTML = ICON_CLOSE;
+        close.title = t('Close');
+        close.style.cssText = `
+            background: none;
+            border: none;
+            cursor: pointer;
+            padding: 4px;
+            border-radius: 4px;
+            display: flex;
+            color: #787b86;
+        `;
+        close.onclick = (e) => {
+            e.stopPropagation();
+            this.hide();
+        };
+        header.appendChild(close);
+        return header;
+    }
+
+    /** Leverage and weight of every tier, weights as a share of new positions */
+    private _createTiers(tiers: readonly LeverageTier[]): HTMLElement {
+        const section = document.createElement('div');
+        section.style.cssText = `display: flex; flex-direction: column; gap: 6px;`;
+
+        const title = document.createElement('div');
+        title.textContent = t('Leverage weights');
+        title.style.cssText = `font-size: 11px; font-weight: 600; color: #787b86; text-transform: uppercase;`;
+        section.appendChild(title);
+
+        tiers.forEach((tier, index) => {
+            const update = (change: Partial<LeverageTier>) => {
+                const updated = this._manager.map.options.tiers.map((current, i) => i === index ? { ...current, ...change } : current);
+                this._manager.setOptions({ tiers: updated });
+            };
+
+            const row = document.createElement('div');
+            row.style.cssText = `display: grid; grid-template-columns: 1fr 1fr; gap: 8px; align-items: center;`;
+            const leverage = this._createNumberField(tier.leverage, 1, 200, 1, value => update({ leverage: value }), 'x');
+            const weight = this._createNumberField(tier.weight * 100, 0, 100, 1, value => update({ weight: value / 100 }), '%');
+            row.appendChild(leverage);
+            row.appendChild(weight);
+            section.appendChild(row);
+        });
+        return section;
+    }
+
+    private _createRow(label: string, control: HTMLElement): HTMLElement {
+        const row = document.createElement('label');
+        row.style.cssText = `display: grid; grid-template-columns: 1fr 110px; gap: 8px; align-items: center;`;
+        const text = document.createElement('span');
+        text.textContent = label;
+        text.style.color = '#787b86';
+        row.appendChild(text);
+        row.appendChild(control);
+        return row;
+    }
+
+    private _createNumberField(
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        onChange: (value: number) => void,
+        suffix: string = ''
+    ): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.style.cssText = `display: flex; align-items: center; gap: 4px;`;
+
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = min.toString();
+        input.max = max.toString();
+        input.step = step.toString();
+        input.value = parseFloat(value.toFixed(4)).toString();
+        input.style.cssText = FIELD_STYLE;
+        input.onchange = () => {
+            let parsed = parseFloat(input.value);
+            if (isNaN(parsed)) parsed = min;
+            parsed = Math.max(min, Math.min(max, parsed));
+            input.value = parsed.toString();
+            onChange(parsed);
+            this._changed.fire();
+        };
+        wrapper.appendChild(input);
+
+        if (suffix) {
+            const unit = document.createElement('span');
+            unit.textContent = suffix;
+            unit.style.color = '#787b86';
+            wrapper.appendChild(unit);
+        }
+        return wrapper;
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * Object Tree Module
+ */
+
+export * from './object_tree_panel';
@@ -0,0 +1,542 @@
+/**
+ * Object Tree Panel - lists the drawings and indicators of the chart
+ *
+ * Drawings are listed topmost first, drawings of a group under their folder.
+ * Click selects, Ctrl/Cmd-click adds to the selection and Shift-click selects
+ * a range. Row actions apply to the whole selection when the row is selected.
+ */
+
+import { Drawing } from '../../drawings/drawing';
+import { DrawingManager } from '../../drawings/drawing-manager';
+import { Indicator } from '../../indicators/indicator';
+import { IndicatorManager } from '../../indicators/indicator-manager';
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+import { TOOL_GROUPS } from '../drawing_toolbar/groups';
+
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+const ICON_EYE = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M1.5 9s2.7-5 7.5-5 7.5 5 7.5 5-2.7 5-7.5 5-7.5-5-7.5-5z"/><circle cx="9" cy="9" r="2.25"/></svg>`;
+const ICON_EYE_OFF = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M1.5 9s2.7-5 7.5-5 7.5 5 7.5 5-2.7 5-7.5 5-7.5-5-7.5-5z"/><line x1="3" y1="15" x2="15" y2="3"/></svg>`;
+const ICON_LOCK = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><rect x="4" y="8" width="10" height="7" rx="1"/><path d="M6 8V6a3 3 0 0 1 6 0v2"/></svg>`;
+const ICON_UNLOCK = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><rect x="4" y="8" width="10" height="7" rx="1"/><path d="M6 8V6a3 3 0 0 1 5.8-1"/></svg>`;
+const ICON_FRONT = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M9 14V4M5 8l4-4 4 4" stroke-linecap="round" stroke-linejoin="round"/><line x1="4" y1="2" x2="14" y2="2"/></svg>`;
+const ICON_BACK = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M9 4v10M5 10l4 4 4-4" stroke-linecap="round" stroke-linejoin="round"/><line x1="4" y1="16" x2="14" y2="16"/></svg>`;
+const ICON_DELETE = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M3 5h12M7 5V3h4v2M5 5l1 10h6l1-10"/></svg>`;
+const ICON_FOLDER = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M2 5a1 1 0 0 1 1-1h4l2 2h6a1 1 0 0 1 1 1v7a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1z"/></svg>`;
+const ICON_GROUP = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M2 5a1 1 0 0 1 1-1h4l2 2h6a1 1 0 0 1 1 1v7a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1z"/><path d="M9 8.5v4M7 10.5h4"/></svg>`;
+const ICON_UNGROUP = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M2 5a1 1 0 0 1 1-1h4l2 2h6a1 1 0 0 1 1 1v7a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1z"/><path d="M7 10.5h4"/></svg>`;
+const ICON_CARET = `<svg width="10" height="10" viewBox="0 0 10 10" fill="currentColor"><path d="M3 2l4 3-4 3z"/></svg>`;
+const ICON_INDICATOR = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5"><path d="M2 13l4-5 3 3 3-6 4 5" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+
+/** Name and icon of every drawing tool, by drawing type */
+const DRAWING_TOOLS = new Map(TOOL_GROUPS.flatMap(group => group.tools).map(tool => [tool.id, tool]));
+
+/**
+ * Object tree panel, floats over the top right corner of the chart
+ */
+export class ObjectTreePanel {
+    private _element: HTMLElement | null = null;
+    private _body: HTMLElement | null = null;
+    private _visible: boolean = false;
+    private _collapsedGroups = new Set<string>();
+    /** Drawing IDs in list order, for Shift-click ranges */
+    private _rowOrder: string[] = [];
+    private _anchorId: string | null = null;
+    private _renaming: boolean = false;
+
+    private readonly _indicatorVisibilityToggled = new Delegate<Indicator>();
+    private readonly _indicatorRemoved = new Delegate<Indicator>();
+
+    private readonly _onDrawingsChanged = () => this.refresh();
+
+    constructor(
+        private readonly _container: HTMLElement,
+        private readonly _drawingManager: DrawingManager,
+        private readonly _indicatorManager: IndicatorManager
+    ) {
+        this._createElement();
+        this._drawingManager.drawingsChanged.subscribe(this._onDrawingsChanged);
+    }
+
+    /** Eye button of an indicator, the chart toggles it */
+    get indicatorVisibilityToggled(): Delegate<Indicator> {
+        return this._indicatorVisibilityToggled;
+    }
+
+    /** Remove button of an indicator, the chart removes it */
+    get indicatorRemoved(): Delegate<Indicator> {
+        return this._indicatorRemoved;
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._render();
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+    }
+
+    toggle(): void {
+        if (this._visible) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    /** Re-render the lists, e.g. after an indicator was added */
+    refresh(): void {
+        if (this._visible && !this._renaming) this._render();
+    }
+
+    dispose(): void {
+        this._drawingManager.drawingsChanged.unsubscribe(this._onDrawingsChanged);
+        this._indicatorVisibilityToggled.destroy();
+        this._indicatorRemoved.destroy();
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+        this._body = null;
+    }
+
+    // --- Private: Layout ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-object-tree-panel';
+        this._element.style.cssText = `
+            position: absolute;
+            top: 48px;
+            right: 64px;
+            width: 300px;
+            max-height: 480px;
+            background: #ffffff;
+            border: 1px solid #e0e3eb;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+            user-select: none;
+        `;
+        // Keep chart interactions from reacting to clicks in the panel
+        this._element.addEventListener('mousedown', e => e.stopPropagation());
+        this._element.addEventListener('wheel', e => e.stopPropagation());
+
+        this._body = document.createElement('div');
+        this._body.style.cssText = `display: flex; flex-direction: column; min-height: 0; flex: 1;`;
+        this._element.appendChild(this._body);
+
+        this._container.appendChild(this._element);
+    }
+
+    private _createHeader(title: string, actions: HTMLElement[]): HTMLElement {
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 10px 12px;
+            border-bottom: 1px solid #e0e3eb;
+        `;
+
+        const label = document.createElement('div');
+        label.textContent = title;
+        label.style.cssText = `flex: 1; font-weight: 600; font-size: 14px;`;
+        header.appendChild(label);
+
+        actions.forEach(action => header.appendChild(action));
+        header.appendChild(this._createIconButton(ICON_CLOSE, t('Close'), () => this.hide()));
+        return header;
+    }
+
+    private _createSectionTitle(title: string): HTMLElement {
+        const element = document.createElement('div');
+        element.textContent = title;
+        element.style.cssText = `
+            padding: 8px 12px 4px;
+            font-size: 11px;
+            font-weight: 600;
+            text-transform: uppercase;
+            color: #787b86;
+        `;
+        return element;
+    }
+
+    private _createIconButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.innerHTML = icon;
+        button.title = title;
+        button.style.cssText = `
+            background: none;
+            border: none;
+            cursor: pointer;
+            padding: 4px;
+            border-radius: 4px;
+            display: flex;
+            color: #787b86;
+        `;
+        button.onmouseenter = () => button.style.background = '#e0e3eb';
+        button.onmouseleave = () => button.style.background = 'none';
+        button.onclick = (e) => {
+            e.stopPropagation();
+            onClick();
+        };
+        return button;
+    }
+
+    /**
+     * Row with an icon, a name and action buttons shown on hover.
+     * Buttons in `pinned` stay visible, e.g. the eye of a hidden drawing.
+     */
+    private _createRow(options: {
+        icon: string;
+        name: string;
+        indent: number;
+        selected: boolean;
+        muted: boolean;
+        actions: HTMLElement[];
+        pinned?: HTMLElement[];
+        onClick?: (e: MouseEvent) => void;
+        onRename?: (name: string) => void;
+    }): HTMLElement {
+        const background = options.selected ? '#e3effd' : 'transparent';
+        const row = document.createElement('div');
+        row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            height: 30px;
+            padding: 0 8px 0 ${12 + options.indent}px;
+            cursor: pointer;
+            background: ${background};
+        `;
+
+        const icon = document.createElement('span');
+        icon.innerHTML = options.icon;
+        icon.style.cssText = `display: flex; flex-shrink: 0; color: #787b86; opacity: ${options.muted ? 0.5 : 1};`;
+        row.appendChild(icon);
+
+        const name = document.createElement('span');
+        name.textContent = options.name;
+        name.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            opacity: ${options.muted ? 0.5 : 1};
+        `;
+        row.appendChild(name);
+
+        const actions = document.createElement('div');
+        actions.style.cssText = `display: none; align-items: center;`;
+        options.actions.forEach(action => actions.appendChild(action));
+        row.appendChild(actions);
+
+        const pinned = document.createElement('div');
+        pinned.style.cssText = `display: flex; align-items: center;`;
+        (options.pinned ?? []).forEach(action => pinned.appendChild(action));
+        row.appendChild(pinned);
+
+        row.onmouseenter = () => {
+            if (!options.selected) row.style.background = '#f0f3fa';
+            actions.style.display = 'flex';
+        };
+        row.onmouseleave = () => {
+            row.style.background = background;
+            actions.style.display = 'none';
+        };
+        if (options.onClick) {
+            row.onclick = options.onClick;
+        }
+        if (options.onRename) {
+            const onRename = options.onRename;
+            name.ondblclick = (e) => {
+                e.stopPropagation();
+                this._startRename(name, options.name, onRename);
+            };
+        }
+        return row;
+    }
+
+    /** Replace the name with an input, Enter or leaving it applies, Escape cancels */
+    private _startRename(label: HTMLElement, current: string, onRename: (name: string) => void): void {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.value = current;
+        input.style.cssText = `
+            flex: 1;
+            min-width: 0;
+            padding: 2px 4px;
+            border: 1px solid #2962ff;
+            border-radius: 4px;
+            font-size: 13px;
+            color: #131722;
+            outline: none;
+        `;
+
+        let done = false;
+        const finish = (apply: boolean) => {
+            if (done) return;
+            done = true;
+            this._renaming = false;
+            if (apply && input.value.trim() !== current) {
+                onRename(input.value);
+            }
+            this._render();
+        };
+        input.onkeydown = (e) => {
+            if (e.key === 'Enter') finish(true);
+            if (e.key === 'Escape') finish(false);
+        };
+        input.onblur = () => finish(true);
+        input.onclick = e => e.stopPropagation();
+
+        this._renaming = true;
+        label.replaceWith(input);
+        input.focus();
+        input.select();
+    }
+
+    // --- Private: Lists ---
+
+    private _render(): void {
+        if (!this._body) return;
+        this._body.innerHTML = '';
+
+        const drawings = this._drawingManager.drawings;
+        const selected = this._drawingManager.selectedDrawings;
+        const allLocked = drawings.length > 0 && drawings.every(drawing => drawing.locked);
+        const allHidden = drawings.length > 0 && drawings.every(drawing => !drawing.visible);
+        const ids = drawings.map(drawing => drawing.id);
+
+        const actions: HTMLElement[] = [];
+        if (selected.length > 0) {
+            actions.push(this._createIconButton(ICON_GROUP, t('Create group'), () => this._groupSelection()));
+        }
+        if (drawings.length > 0) {
+            actions.push(this._createIconButton(allLocked ? ICON_UNLOCK : ICON_LOCK, allLocked ? t('Unlock all') : t('Lock all'),
+                () => this._drawingManager.setDrawingsLocked(ids, !allLocked)));
+            actions.push(this._createIconButton(allHidden ? ICON_EYE : ICON_EYE_OFF, allHidden ? t('Show all') : t('Hide all'),
+                () => this._drawingManager.setDrawingsVisible(ids, allHidden)));
+        }
+        this._body.appendChild(this._createHeader(t('Object tree'), actions));
+
+        const list = document.createElement('div');
+        list.style.cssText = `overflow-y: auto; padding-bottom: 4px;`;
+        this._body.appendChild(list);
+
+        list.appendChild(this._createSectionTitle(t('Drawings')));
+        this._renderDrawings(list, drawings);
+
+        const indicators = this._indicatorManager.allIndicators;
+        if (indicators.length > 0) {
+            list.appendChild(this._createSectionTitle(t('Indicators')));
+            indicators.forEach(indicator => list.appendChild(this._createIndicatorRow(indicator)));
+        }
+    }
+
+    private _renderDrawings(list: HTMLElement, drawings: Drawing[]): void {
+        this._rowOrder = [];
+        if (drawings.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = t('No drawings');
+            empty.style.cssText = `padding: 12px; text-align: center; color: #787b86;`;
+            list.appendChild(empty);
+            return;
+        }
+
+        // Topmost first; a folder is listed where its topmost drawing is
+        const topmostFirst = [...drawings].reverse();
+        const listedGroups = new Set<string>();
+        for (const drawing of topmostFirst) {
+            if (!drawing.group) {
+                this._rowOrder.push(drawing.id);
+                list.appendChild(this._createDrawingRow(drawing, 0));
+                continue;
+            }
+            if (listedGroups.has(drawing.group)) continue;
+            listedGroups.add(drawing.group);
+
+            const members = topmostFirst.filter(member => member.group === drawing.group);
+            list.appendChild(this._createGroupRow(drawing.group, members));
+            if (this._collapsedGroups.has(drawing.group)) continue;
+            for (const member of members) {
+                this._rowOrder.push(member.id);
+                list.appendChild(this._createDrawingRow(member, 20));
+            }
+        }
+    }
+
+    private _createGroupRow(group: string, members: Drawing[]): HTMLElement {
+        const ids = members.map(drawing => drawing.id);
+        const hidden = members.every(drawing => !drawing.visible);
+        const locked = members.every(drawing => drawing.locked);
+        const collapsed = this._collapsedGroups.has(group);
+
+        const caret = document.createElement('span');
+        caret.innerHTML = ICON_CARET;
+        caret.style.cssText = `display: flex; color: #787b86; transform: rotate(${collapsed ? 0 : 90}deg);`;
+
+        const row = this._createRow({
+            icon: ICON_FOLDER,
+            name: group,
+            indent: 0,
+            selected: members.every(drawing => drawing.state === 'selected'),
+            muted: hidden,
+            actions: [
+                this._createIconButton(ICON_UNGROUP, t('Ungroup'), () => this._drawingManager.setDrawingsGroup(ids, null)),
+                this._createIconButton(ICON_DELETE, t('Remove'), () => this._drawingManager.deleteDrawings(ids)),
+            ],
+            pinned: [
+                this._createIconButton(locked ? ICON_LOCK : ICON_UNLOCK, locked ? t('Unlock') : t('Lock'),
+                    () => this._drawingManager.setDrawingsLocked(ids, !locked)),
+                this._createIconButton(hidden ? ICON_EYE_OFF : ICON_EYE, hidden ? t('Show') : t('Hide'),
+                    () => this._drawingManager.setDrawingsVisible(ids, hidden)),
+            ],
+            onClick: () => this._drawingManager.selectDrawings(ids.filter(id => this._drawingManager.getDrawing(id)?.visible)),
+            onRename: name => {
+                this._drawingManager.renameGroup(group, name);
+                if (collapsed) {
+                    this._collapsedGroups.delete(group);
+                    this._collapsedGroups.add(name.trim());
+                }
+            },
+        });
+        row.style.fontWeight = '600';
+        caret.onclick = (e) => {
+            e.stopPropagation();
+            if (collapsed) {
+                this._collapsedGroups.delete(group);
+            } else {
+                this._collapsedGroups.add(group);
+            }
+            this._render();
+        };
+        row.insertBefore(caret, row.firstChild);
+        row.style.paddingLeft = '4px';
+        return row;
+    }
+
+    private _createDrawingRow(drawing: Drawing, indent: number): HTMLElement {
+        const targets = () => this._targetIds(drawing);
+        const setVisible = (visible: boolean) => this._drawingManager.setDrawingsVisible(targets(), visible);
+        const setLocked = (locked: boolean) => this._drawingManager.setDrawingsLocked(targets(), locked);
+
+        // Lock and eye are pinned when they show a non-default state
+        const lockButton = this._createIconButton(drawing.locked ? ICON_LOCK : ICON_UNLOCK,
+            drawing.locked ? t('Unlock') : t('Lock'), () => setLocked(!drawing.locked));
+        const eyeButton = this._createIconButton(drawing.visible ? ICON_EYE : ICON_EYE_OFF,
+            drawing.visible ? t('Hide') : t('Show'), () => setVisible(!drawing.visible));
+
+        const actions: HTMLElement[] = [
+            this._createIconButton(ICON_FRONT, t('Bring to front'), () => this._drawingManager.bringToFront(targets())),
+            this._createIconButton(ICON_BACK, t('Send to back'), () => this._drawingManager.sendToBack(targets())),
+            this._createIconButton(ICON_DELETE, t('Remove'), () => this._drawingManager.deleteDrawings(targets())),
+        ];
+        const pinned: HTMLElement[] = [];
+        (drawing.locked ? pinned : actions).push(lockButton);
+        (drawing.visible ? actions : pinned).push(eyeButton);
+
+        return this._createRow({
+            icon: DRAWING_TOOLS.get(drawing.type)?.icon ?? ICON_FOLDER,
+            name: this._drawingName(drawing),
+            indent,
+            selected: drawing.state === 'selected',
+            // Also hidden by its timeframe visibility
+            muted: !drawing.visible || !this._drawingManager.isShownOnTimeframe(drawing),
+            actions,
+            pinned,
+            onClick: e => this._onDrawingClick(drawing, e),
+            onRename: name => this._drawingManager.setDrawingName(drawing.id, name),
+        });
+    }
+
+    private _createIndicatorRow(indicator: Indicator): HTMLElement {
+        const eyeButton = this._createIconButton(indicator.visible ? ICON_EYE : ICON_EYE_OFF,
+            indicator.visible ? t('Hide') : t('Show'), () => {
+                this._indicatorVisibilityToggled.fire(indicator);
+                this._render();
+            });
+        const removeButton = this._createIconButton(ICON_DELETE, t('Remove'), () => {
+            this._indicatorRemoved.fire(indicator);
+            this._render();
+        });
+
+        return this._createRow({
+            icon: ICON_INDICATOR,
+            name: indicator.name,
+            indent: 0,
+            selected: false,
+            muted: !indicator.visible,
+            actions: indicator.visible ? [eyeButton, removeButton] : [removeButton],
+            pinned: indicator.visible ? [] : [eyeButton],
+        });
+    }
+
+    // --- Private: Actions ---
+
+    private _drawingName(drawing: Drawing): string {
+        if (drawing.name) return drawing.name;
+        const tool = DRAWING_TOOLS.get(drawing.type);
+        return tool ? t(tool.name) : drawing.type;
+    }
+
+    /** The selection when the drawing is part of it, otherwise the drawing alone */
+    private _targetIds(drawing: Drawing): string[] {
+        if (drawing.state !== 'selected') return [drawing.id];
+        return this._drawingManager.selectedDrawings.map(selected => selected.id);
+    }
+
+    private _onDrawingClick(drawing: Drawing, e: MouseEvent): void {
+        // Hidden drawings can't be selected on the chart either
+        if (!drawing.visible) return;
+
+        const selectedIds = this._drawingManager.selectedDrawings.map(selected => selected.id);
+
+        if (e.shiftKey && this._anchorId && this._rowOrder.includes(this._anchorId)) {
+            const from = this._rowOrder.indexOf(this._anchorId);
+            const to = this._rowOrder.indexOf(drawing.id);
+            const range = this._rowOrder.slice(Math.min(from, to), Math.max(from, to) + 1)
+                .filter(id => this._drawingManager.getDrawing(id)?.visible);
+            // Clicked drawing last, it becomes the primary selection
+            this._drawingManager.selectDrawings([...range.filter(id => id !== drawing.id), drawing.id]);
+            return;
+        }
+
+        this._anchorId = drawing.id;
+        if (e.ctrlKey || e.metaKey) {
+            const ids = selectedIds.includes(drawing.id)
+                ? selectedIds.filter(id => id !== drawing.id)
+                : [...selectedIds, drawing.id];
+            this._drawingManager.selectDrawings(ids);
+        } else {
+            this._drawingManager.selectDrawings([drawing.id]);
+        }
+    }
+
+    /** Put the selected drawings in a new folder, named 'Group 1', 'Group 2', ... */
+    private _groupSelection(): void {
+        const ids = this._drawingManager.selectedDrawings.map(drawing => drawing.id);
+        if (ids.length === 0) return;
+
+        const groups = this._drawingManager.groups;
+        let index = 1;
+        while (groups.includes(`${t('Group')} ${index}`)) index++;
+        this._drawingManager.setDrawingsGroup(ids, `${t('Group')} ${index}`);
+    }
+}
@@ -3,17 +3,34 @@ import { Series, SeriesType } from '../model/series';
 import { CandlestickSeries } from '../model/candlestick-series';
 import { LineSeries } from '../model/line-series';
 import { AreaSeries } from '../model/area-series';
-import { HeikenAshiSeries } from '../series/heiken-ashi-series';
+import { BarSeries } from '../model/bar-series';
+import { HollowCandleSeries } from '../model/hollow-candle-series';
+import { BaselineSeries } from '../model/baseline-series';
+import { StepLineSeries } from '../model/step-line-series';
+import { ColumnSeries } from '../model/column-series';
+import { HlcAreaSeries } from '../model/hlc-area-series';
 import { CandlestickRenderer } from '../renderers/candlestick-renderer';
 import { LineRenderer } from '../renderers/line-renderer';
 import { AreaRenderer } from '../renderers/area-renderer';
+import { BarRenderer } from '../renderers/bar-renderer';
+import { HollowCandleRenderer } from '../renderers/hollow-candle-renderer';
+import { BaselineRenderer } from '../renderers/baseline-renderer';
+import { StepLineRenderer } from '../renderers/step-line-renderer';
+import { ColumnRenderer } from '../renderers/column-renderer';
+import { HlcAreaRenderer } from '../renderers/hlc-area-renderer';
 import { GridRenderer } from '../renderers/grid-renderer';
 import { WatermarkRenderer } from '../renderers/watermark-renderer';
+import { SessionRenderer } from '../renderers/session-renderer';
 import { TimePointIndex, coordinate } from '../model/coordinate';
-import { isBarData } from '../model/data';
+import { BarData, isBarData, isLineData } from '../model/data';
+import { CompareSeries } from '../series/compare-series';
 import { OverlayIndicatorRenderer } from '../indicators/overlay-indicator-renderer';
 import { OverlayIndicator } from '../indicators/indicator';
 import { OrderbookHeatmapRenderer } from '../renderers/orderbook-heatmap-renderer';
+import { LiquidationHeatmapRenderer } from '../renderers/liquidation-heatmap-renderer';
+import { resolveLowerTimeframe } from '../model/volume-profile';
+import { tickSizeAt } from '../helpers/price-format';
+import { timeframeToMs } from '../helpers/timeframe';
 import {
     drawPatternWave,
     drawRectangle,
@@ -44,6 +61,7 @@ import {
     drawPriceRange,
     drawDateRange,
     drawDatePriceRange,
+    drawFixedRangeVolumeProfile,
     drawText,
     drawCallout,
     drawPriceLabel,
@@ -87,6 +105,7 @@ import {
     PriceRangeDrawing,
     DateRangeDrawing,
     DatePriceRangeDrawing,
+    FixedRangeVolumeProfileDrawing,
     TextDrawing,
     CalloutDrawing,
     PriceLabelDrawing,
@@ -108,6 +127,12 @@ export interface BitmapCoordinatesScope {
     readonly verticalPixelRatio: number;
 }
 
+/** Built-in renderers picked by series type */
+type SeriesRenderer =
+    | CandlestickRenderer | LineRenderer | AreaRenderer
+    | BarRenderer | HollowCandleRenderer | BaselineRenderer
+    | StepLineRenderer | ColumnRenderer | HlcAreaRenderer;
+
 /**
  * Pane widget - renders a single chart pane with series
  */
@@ -122,21 +147,27 @@ export class PaneWidget implements Disposable {
     private _legendElement: HTMLElement | null = null;
     private _loadingElement: HTMLElement | null = null;
     private readonly _gridRenderer: GridRenderer;
+    private readonly _sessionRenderer: SessionRenderer = new SessionRenderer();
     private readonly _watermarkRenderer: WatermarkRenderer;
-    private readonly _seriesRenderers: Map<Series, CandlestickRenderer | LineRenderer | AreaRenderer> = new Map();
+    private readonly _seriesRenderers: Map<Series, SeriesRenderer> = new Map();
     private readonly _overlayRenderer: OverlayIndicatorRenderer;
     private _heatmapRenderer: OrderbookHeatmapRenderer | null = null;
+    private _liquidationRenderer: LiquidationHeatmapRenderer | null = null;
+    private _lowerTimeframeSource: ((timeframe: string) => readonly BarData[] | null) | null = null;
     private _crosshairX: number | null = null;
     private _crosshairY: number | null = null;
 
 
     // Callback for overlay indicator actions (toggle, settings, remove)
     public onOverlayIndicatorAction: ((action: string, index: number) => void) | null = null;
+    /** Legend buttons of compared symbols, index into the model's compare series */
+    public onComparisonAction: ((action: string, index: number) => void) | null = null;
 
     // Cache to prevent unnecessary legend rebuilds (causes flickering)
     private _lastOverlayIndicatorCount: number = -1;
     private _lastVisibilityState: string = '';
     private _lastIndicatorNames: string = '';
+    private _lastComparisons: string = '';
     private _lastSymbol: string = '';
     private _lastTimeframe: string = '';
 
@@ -175,6 +206,21 @@ export class PaneWidget implements Disposable {
         this._heatmapRenderer = renderer;
     }
 
+    /**
+     * Set renderer of the estimated liquidation levels, drawn behind the series
+     */
+    setLiquidationRenderer(renderer: LiquidationHeatmapRenderer | null): void {
+        this._liquidationRenderer = renderer;
+    }
+
+    /**
+     * Set source of lower timeframe bars for the volume profile drawings,
+     * null while the bars of a timeframe are loading
+     */
+    setLowerTimeframeSource(source: ((timeframe: string) => readonly BarData[] | null) | null): void {
+        this._lowerTimeframeSource = source;
+    }
+
 
     /**
      * Show or hide loading overlay
@@ -253,7 +299,7 @@ export class PaneWidget implements Disposable {
         if (!visibleRange) return;
 
         // Draw grid
-        const priceMarks = this._model.rightPriceScale.marks();
+        const priceMarks = this._model.mainPriceScale.marks();
         this._gridRenderer.drawHorizontalLines(scope, priceMarks);
 
         // Calculate vertical grid x positions (every N bars)
@@ -265,9 +311,20 @@ export class PaneWidget implements Disposable {
         }
         this._gridRenderer.drawVerticalLines(scope, verticalXCoords as any);
 
+        // Out-of-session shading and session breaks, intraday only
+        this._renderSessions(scope, visibleRange.from, visibleRange.to);
+
+        // Orderbook history (liquidity over time) and liquidation levels, behind the series
+        if (this._heatmapRenderer || this._liquidationRenderer) {
+            const times = (this._model.serieses[0]?.data ?? []).map(item => item.time);
+            this._heatmapRenderer?.drawHistory(scope, this._model.timeScale, times, this._model.mainPriceScale);
+            this._liquidationRenderer?.draw(scope, this._model.timeScale, times, this._model.mainPriceScale);
+        }
+
         // Render background overlay indicators (Histogram style like Volume)
         // These stay BEHIND the candles
-        this._overlayRenderer.draw(scope, this._model.timeScale, this._model.rightPriceScale, 'histogram');
+        const priceScaleOf = (indicator: OverlayIndicator) => this._model.priceScale(indicator.priceScaleId);
+        this._overlayRenderer.draw(scope, this._model.timeScale, priceScaleOf, 'histogram');
 
         // Render each series (Candles, Lines, etc.)
         for (const series of this._model.serieses) {
@@ -276,13 +333,13 @@ export class PaneWidget implements Disposable {
 
         // Render foreground overlay indicators (EMA, SMA, Bollinger Bands, SAR, etc.)
         // These stay ON TOP of the candles
-        this._overlayRenderer.draw(scope, this._model.timeScale, this._model.rightPriceScale, 'non-histogram');
+        this._overlayRenderer.draw(scope, this._model.timeScale, priceScaleOf, 'non-histogram');
 
         // Render orderbook heatmap (liquidity visualization on right side)
         if (this._heatmapRenderer) {
             this._heatmapRenderer.drawOnChart(
                 scope.context,
-                this._model.rightPriceScale,
+                this._model.mainPriceScale,
                 width,
                 height,
                 dpr
@@ -339,6 +396,15 @@ export class PaneWidget implements Disposable {
         this._updateLegend();
     }
 
+    private _renderSessions(scope: BitmapCoordinatesScope, from: TimePointIndex, to: TimePointIndex): void {
+        const session = this._model.session;
+        const barMs = timeframeToMs(this._model.timeframe);
+        if (!session || barMs <= 0 || barMs >= timeframeToMs('1d')) return;
+
+        const times = (this._model.serieses[0]?.data ?? []).map(item => item.time);
+        this._sessionRenderer.draw(scope, this._model.timeScale, times, from, to, session, this._model.options.sessions);
+    }
+
     private _renderSeries(
         scope: BitmapCoordinatesScope,
         series: Series,
@@ -348,7 +414,7 @@ export class PaneWidget implements Disposable {
         // Calculate coordinates
         const bars = series.calculateCoordinates(
             this._model.timeScale,
-            this._model.rightPriceScale,
+            this._model.priceScale(series.options.priceScaleId),
             from,
             to
         );
@@ -372,7 +438,7 @@ export class PaneWidget implements Disposable {
         }
     }
 
-    private _createRenderer(series: Series): CandlestickRenderer | LineRenderer | AreaRenderer | null {
+    private _createRenderer(series: Series): SeriesRenderer | null {
         // Check if series provides its own renderer (e.g. Heiken Ashi)
         if ('getRenderer' in series && typeof (series as any).getRenderer === 'function') {
             return (series as any).getRenderer();
@@ -385,6 +451,18 @@ export class PaneWidget implements Disposable {
                 return new LineRenderer(series as LineSeries);
             case SeriesType.Area:
                 return new AreaRenderer(series as AreaSeries);
+            case SeriesType.Bar:
+                return new BarRenderer(series as BarSeries);
+            case SeriesType.HollowCandle:
+                return new HollowCandleRenderer(series as HollowCandleSeries);
+            case SeriesType.Baseline:
+                return new BaselineRenderer(series as BaselineSeries);
+            case SeriesType.StepLine:
+                return new StepLineRenderer(series as StepLineSeries);
+            case SeriesType.Histogram:
+                return new ColumnRenderer(series as ColumnSeries);
+            case SeriesType.HlcArea:
+                return new HlcAreaRenderer(series as HlcAreaSeries);
             default:
                 return null;
         }
@@ -409,6 +487,15 @@ export class PaneWidget implements Disposable {
         ctx.setTransform(1, 0, 0, 1, 0, 0);
         const canvasWidth = this._canvas.width;
         const canvasHeight = this._canvas.height;
+        const priceScale = this._model.mainPriceScale;
+        const formatPrice = (price: number) => priceScale.formatPrice(price);
+        const timeZone = this._model.timeZone;
+        const formatTime = (time: number) => new Date(time).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false,
+            timeZone,
+        });
 
         ctx.save();
 
@@ -476,13 +563,13 @@ export class PaneWidget implements Disposable {
 
             // Handle single-point drawings (HorizontalLine, VerticalLine)
             if (drawing instanceof HorizontalLineDrawing) {
-                drawing.render(ctx, timeToPixel, priceToPixel, canvasWidth / dpr, dpr);
+                drawing.render(ctx, timeToPixel, priceToPixel, canvasWidth / dpr, dpr, formatPrice);
                 continue;
             }
 
             if (drawing instanceof VerticalLineDrawing) {
                 const canvasHeight = this._canvas.height / dpr;
-                drawing.render(ctx, timeToPixel, priceToPixel, canvasWidth / dpr, canvasHeight, dpr);
+                drawing.render(ctx, timeToPixel, priceToPixel, canvasWidth / dpr, canvasHeight, dpr, formatTime);
                 continue;
             }
 
@@ -548,7 +635,7 @@ export class PaneWidget implements Disposable {
                     priceLabelDrawing.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
 
                     const isSelected = drawing.state === 'selected' || drawing.state === 'creating';
-                    drawPriceLabel(ctx, priceLabelDrawing, pixelPoints[0], drawing.points[0].price, dpr, isSelected);
+                    drawPriceLabel(ctx, priceLabelDrawing, pixelPoints[0], drawing.points[0].price, dpr, isSelected, formatPrice);
                 }
                 continue;
             }
@@ -599,8 +686,8 @@ export class PaneWidget implements Disposable {
                     // Get bar interval from chart data (difference between 2 consecutive bars)
                     let barIntervalMs = 60000; // Default 1 minute
                     const mainSeries = this._model.serieses[0];
-                    if (mainSeries && mainSeries.data.length >= 2) {
-                        const data = mainSeries.data;
+                    if (mainSeries && mainSeries.plotData.length >= 2) {
+                        const data = mainSeries.plotData;
                         // Calculate average interval from last few bars
                         const t1 = data[data.length - 2].time;
                         const t2 = data[data.length - 1].time;
@@ -614,11 +701,11 @@ export class PaneWidget implements Disposable {
                     );
                 }
                 const showInfoLinePoints = drawing.state === 'selected' || drawing.state === 'creating';
-                drawInfoLine(ctx, pixelPoints, infoLine, dpr, showInfoLinePoints);
+                drawInfoLine(ctx, pixelPoints, infoLine, dpr, showInfoLinePoints, formatPrice);
             } else if (drawing.type === 'fibRetracement') {
-                drawFibRetracement(ctx, drawing as FibRetracementDrawing, pixelPoints, canvasWidth, dpr, drawing.state === 'selected');
+                drawFibRetracement(ctx, drawing as FibRetracementDrawing, pixelPoints, canvasWidth, dpr, drawing.state === 'selected', formatPrice);
             } else if (drawing.type === 'fibExtension') {
-                drawFibExtension(ctx, drawing as FibExtensionDrawing, pixelPoints, canvasWidth, dpr, drawing.state === 'selected');
+                drawFibExtension(ctx, drawing as FibExtensionDrawing, pixelPoints, canvasWidth, dpr, drawing.state === 'selected', formatPrice);
             } else if (drawing.type === 'fibChannel') {
                 drawFibChannel(ctx, drawing as FibChannelDrawing, pixelPoints, canvasWidth, dpr, drawing.state === 'selected');
             } else if (drawing.type === 'parallelChannel') {
@@ -635,7 +722,7 @@ export class PaneWidget implements Disposable {
                     const regressionTrend = drawing as RegressionTrendDrawing;
                     regressionTrend.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
                     const showControlPoints = drawing.state === 'selected' || drawing.state === 'creating';
-                    drawRegressionTrend(ctx, pixelPoints, regressionTrend, dpr, showControlPoints, canvasWidth, timeToPixel, priceToPixel, [...(this._model.serieses[0]?.data || [])]);
+                    drawRegressionTrend(ctx, pixelPoints, regressionTrend, dpr, showControlPoints, canvasWidth, timeToPixel, priceToPixel, [...(this._model.serieses[0]?.plotData || [])]);
                 }
             } else if (drawing.type === 'brush') {
                 if (pixelPoints.length >= 2) {
@@ -730,21 +817,27 @@ export class PaneWidget implements Disposable {
                     const positionDrawing = drawing as LongPositionDrawing;
                     positionDrawing.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
                     const showControlPoints = drawing.state === 'selected' || drawing.state === 'creating';
-                    drawLongPosition(ctx, positionDrawing, pixelPoints, dpr, showControlPoints, priceToPixel);
+
+                    // Follow the trade up to the last bar (the replay cursor during bar replay)
+                    positionDrawing.updateTrade(this._getPriceBars());
+                    drawLongPosition(ctx, positionDrawing, pixelPoints, dpr, showControlPoints, priceToPixel, formatPrice);
                 }
             } else if (drawing.type === 'shortPosition') {
                 if (pixelPoints.length >= 2) {
                     const positionDrawing = drawing as ShortPositionDrawing;
                     positionDrawing.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
                     const showControlPoints = drawing.state === 'selected' || drawing.state === 'creating';
-                    drawShortPosition(ctx, positionDrawing, pixelPoints, dpr, showControlPoints, priceToPixel);
+
+                    // Follow the trade up to the last bar (the replay cursor during bar replay)
+                    positionDrawing.updateTrade(this._getPriceBars());
+                    drawShortPosition(ctx, positionDrawing, pixelPoints, dpr, showControlPoints, priceToPixel, formatPrice);
                 }
             } else if (drawing.type === 'priceRange') {
                 if (pixelPoints.length >= 2) {
                     const priceRangeDrawing = drawing as PriceRangeDrawing;
                     priceRangeDrawing.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
                     const showControlPoints = drawing.state === 'selected' || drawing.state === 'creating';
-                    drawPriceRange(ctx, priceRangeDrawing, pixelPoints, dpr, showControlPoints);
+                    drawPriceRange(ctx, priceRangeDrawing, pixelPoints, dpr, showControlPoints, formatPrice);
                 }
             } else if (drawing.type === 'dateRange') {
                 if (pixelPoints.length >= 2) {
@@ -754,7 +847,7 @@ export class PaneWidget implements Disposable {
 
                     // Calculate bar count and volume
                     const mainSeries = this._model.serieses[0];
-                    if (mainSeries && mainSeries.data.length > 0) {
+                    if (mainSeries && mainSeries.plotData.length > 0) {
                         const p1 = drawing.points[0];
                         const p2 = drawing.points[1];
                         const startTime = Math.min(p1.time, p2.time);
@@ -762,7 +855,7 @@ export class PaneWidget implements Disposable {
 
                         let barCount = 0;
                         let totalVolume = 0;
-                        for (const item of mainSeries.data) {
+                        for (const item of mainSeries.plotData) {
                             if (item.time >= startTime && item.time <= endTime) {
                                 barCount++;
                                 totalVolume += (item as any).volume || 0;
@@ -774,6 +867,22 @@ export class PaneWidget implements Disposable {
 
                     drawDateRange(ctx, dateRangeDrawing, pixelPoints, dpr, showControlPoints);
                 }
+            } else if (drawing.type === 'fixedRangeVolumeProfile') {
+                if (pixelPoints.length >= 2) {
+                    const profileDrawing = drawing as FixedRangeVolumeProfileDrawing;
+                    profileDrawing.setPixelPoints(pixelPoints.map(p => ({ x: p.x / dpr, y: p.y / dpr })));
+                    const showControlPoints = drawing.state === 'selected' || drawing.state === 'creating';
+
+                    const bars = this._getPriceBars();
+                    const format = this._model.priceFormat;
+                    const last = bars[bars.length - 1];
+                    const tickSize = format && last ? tickSizeAt(format, last.close) : 0;
+                    const lowerTimeframe = resolveLowerTimeframe(profileDrawing.lowerTimeframe, this._model.timeframe);
+                    const lowerBars = lowerTimeframe ? this._lowerTimeframeSource?.(lowerTimeframe) ?? [] : [];
+                    profileDrawing.updateProfile(bars, tickSize, lowerBars);
+
+                    drawFixedRangeVolumeProfile(ctx, profileDrawing, pixelPoints, dpr, showControlPoints, priceToPixel);
+                }
             } else if (drawing.type === 'datePriceRange') {
                 if (pixelPoints.length >= 2) {
                     const datePriceRangeDrawing = drawing as DatePriceRangeDrawing;
@@ -782,7 +891,7 @@ export class PaneWidget implements Disposable {
 
                     // Calculate bar count and volume
                     const mainSeries = this._model.serieses[0];
-                    if (mainSeries && mainSeries.data.length > 0) {
+                    if (mainSeries && mainSeries.plotData.length > 0) {
                         const p1 = drawing.points[0];
                         const p2 = drawing.points[1];
                         const startTime = Math.min(p1.time, p2.time);
@@ -790,7 +899,7 @@ export class PaneWidget implements Disposable {
 
                         let barCount = 0;
                         let totalVolume = 0;
-                        for (const item of mainSeries.data) {
+                        for (const item of mainSeries.plotData) {
                             if (item.time >= startTime && item.time <= endTime) {
                                 barCount++;
                                 totalVolume += (item as any).volume || 0;
@@ -800,7 +909,7 @@ export class PaneWidget implements Disposable {
                         datePriceRangeDrawing.volume = totalVolume;
                     }
 
-                    drawDatePriceRange(ctx, datePriceRangeDrawing, pixelPoints, dpr, showControlPoints);
+                    drawDatePriceRange(ctx, datePriceRangeDrawing, pixelPoints, dpr, showControlPoints, formatPrice);
                 }
             }
         }
@@ -829,6 +938,12 @@ export class PaneWidget implements Disposable {
 
     private _currentTheme: 'dark' | 'light' = 'dark';
 
+    /** OHLC bars of the main series, empty for line data */
+    private _getPriceBars(): BarData[] {
+        const data = this._model.serieses[0]?.data ?? [];
+        return data.length > 0 && isBarData(data[0]) ? data as BarData[] : [];
+    }
+
     private _updateLegend(): void {
         if (!this._legendElement) return;
 
@@ -844,10 +959,10 @@ export class PaneWidget implements Disposable {
         // Find main series for OHLC
         const mainSeries = this._model.serieses[0];
         let ohlcText = '';
+        let barIndex: TimePointIndex | null = null;
 
         if (mainSeries) {
             const crosshair = this._model.crosshairPosition;
-            let barIndex: TimePointIndex | null = null;
 
             if (crosshair && crosshair.visible) {
                 barIndex = this._model.timeScale.coordinateToIndex(coordinate(crosshair.x));
@@ -856,12 +971,13 @@ export class PaneWidget implements Disposable {
                 barIndex = (this._model.timeScale.pointsCount - 1) as TimePointIndex;
             }
 
-            const mainSeriesData = mainSeries instanceof HeikenAshiSeries ? mainSeries.haData : mainSeries.data;
+            const mainSeriesData = mainSeries.plotData;
             const bar = mainSeriesData[barIndex];
             const prevBar = barIndex > 0 ? mainSeriesData[barIndex - 1] : null;
 
             if (bar && 'open' in bar) {
-                const format = (v: number) => v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+                const decimals = this._model.priceFormat?.precision ?? 2;
+                const format = (v: number) => v.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
                 const formatVol = (v: number) => {
                     if (v >= 1000000) return (v / 1000000).toFixed(2) + 'M';
                     if (v >= 1000) return (v / 1000).toFixed(2) + 'K';
@@ -892,11 +1008,32 @@ export class PaneWidget implements Disposable {
             }
         }
 
+        // Compared symbols, listed above the overlay indicators
+        const comparisons = this._model.serieses.filter((s): s is CompareSeries => s instanceof CompareSeries);
+        const comparisonValue = (series: CompareSeries): string => {
+            const item = barIndex !== null ? series.plotData[barIndex] : undefined;
+            return item && isLineData(item) ? item.value.toFixed(2) : '';
+        };
+        let comparisonsHtml = '';
+        comparisons.forEach((series, i) => {
+            const color = series.lineOptions.color;
+            comparisonsHtml += `
+                <div class="overlay-indicator-row" style="display: flex; align-items: center; font-size: 12px; height: 20px; pointer-events: auto; cursor: default;">
+                    <div style="width: 8px; height: 8px; border-radius: 50%; background: ${color}; margin-right: 6px;"></div>
+                    <span style="color: ${textColor}; font-weight: 500;">${series.symbol}</span>
+                    <span class="comparison-value" data-index="${i}" style="color: ${color}; margin-left: 6px;">${comparisonValue(series)}</span>
+                    <div class="overlay-btn-group" style="visibility: hidden; display: flex; align-items: center; gap: 4px; margin-left: 8px;">
+                        <button class="comparison-btn" data-action="remove" data-index="${i}" style="background: none; border: none; cursor: pointer; color: ${secondaryColor}; padding: 2px; display: flex; align-items: center;" title="Remove"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 18 18" width="16" height="16"><path fill="currentColor" d="M7.5 4a.5.5 0 0 0-.5.5V5h4v-.5a.5.5 0 0 0-.5-.5h-3ZM12 5h3v1h-1.05l-.85 7.67A1.5 1.5 0 0 1 11.6 15H6.4a1.5 1.5 0 0 1-1.5-1.33L4.05 6H3V5h3v-.5C6 3.67 6.67 3 7.5 3h3c.83 0 1.5.67 1.5 1.5V5ZM5.06 6l.84 7.56a.5.5 0 0 0 .5.44h5.2a.5.5 0 0 0 .5-.44L12.94 6H5.06Z"></path></svg></button>
+                    </div>
+                </div>
+            `;
+        });
+
         // Build overlay indicator labels - TradingView style (vertical list with action buttons)
         let overlayIndicatorsHtml = '';
         const overlayIndicators = this._overlayRenderer.indicators;
-        if (overlayIndicators.length > 0) {
-            overlayIndicatorsHtml = '<div style="margin-top: 32px; display: flex; flex-direction: column;">';
+        if (overlayIndicators.length > 0 || comparisons.length > 0) {
+            overlayIndicatorsHtml = `<div style="margin-top: 32px; display: flex; flex-direction: column;">${comparisonsHtml}`;
             for (let i = 0; i < overlayIndicators.length; i++) {
                 const indicator = overlayIndicators[i];
                 const name = indicator.name || indicator.options.name || 'Indicator';
@@ -936,9 +1073,11 @@ export class PaneWidget implements Disposable {
         const currentCount = overlayIndicators.length;
         const currentVisibilityState = overlayIndicators.map(i => i.visible ? '1' : '0').join('');
         const currentNames = overlayIndicators.map(i => i.name || i.options.name || '').join('|');
+        const currentComparisons = comparisons.map(s => `${s.symbol}:${s.lineOptions.color}`).join('|');
         const needsOverlayRebuild = currentCount !== this._lastOverlayIndicatorCount ||
             currentVisibilityState !== this._lastVisibilityState ||
             currentNames !== this._lastIndicatorNames ||
+            currentComparisons !== this._lastComparisons ||
             symbol !== this._lastSymbol ||
             timeframe !== this._lastTimeframe;
 
@@ -946,6 +1085,7 @@ export class PaneWidget implements Disposable {
             this._lastOverlayIndicatorCount = currentCount;
             this._lastVisibilityState = currentVisibilityState;
             this._lastIndicatorNames = currentNames;
+            this._lastComparisons = currentComparisons;
             this._lastSymbol = symbol;
             this._lastTimeframe = timeframe;
 
@@ -974,6 +1114,17 @@ export class PaneWidget implements Disposable {
                 });
             });
 
+            this._legendElement.querySelectorAll('.comparison-btn').forEach((btn) => {
+                btn.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    const action = (btn as HTMLElement).dataset.action;
+                    const index = parseInt((btn as HTMLElement).dataset.index || '0', 10);
+                    if (action && this.onComparisonAction) {
+                        this.onComparisonAction(action, index);
+                    }
+                });
+            });
+
             // Add hover event listeners to show/hide button group
             const rows = this._legendElement.querySelectorAll('.overlay-indicator-row');
             rows.forEach((row) => {
@@ -994,6 +1145,13 @@ export class PaneWidget implements Disposable {
                 ohlcSpan.innerHTML = ohlcText;
             }
 
+            this._legendElement.querySelectorAll('.comparison-value').forEach((span) => {
+                const series = comparisons[Number((span as HTMLElement).dataset.index ?? -1)];
+                if (series) {
+                    (span as HTMLElement).textContent = comparisonValue(series);
+                }
+            });
+
             const valueSpans = this._legendElement.querySelectorAll('.overlay-indicator-value');
             valueSpans.forEach((span) => {
                 const index = Number((span as HTMLElement).dataset.index ?? -1);
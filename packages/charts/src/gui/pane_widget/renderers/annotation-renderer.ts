@@ -8,7 +8,7 @@ import { CalloutDrawing } from '../../../drawings/callout-drawing';
 import { PriceLabelDrawing } from '../../../drawings/price-label-drawing';
 import { FlagMarkedDrawing } from '../../../drawings/flag-marked-drawing';
 import { StickerDrawing } from '../../../drawings/sticker-drawing';
-import { fillWithOpacity } from './utils';
+import { fillWithOpacity, PriceFormatter, defaultPriceFormatter } from './utils';
 
 /**
  * Draw a Text label
@@ -274,13 +274,14 @@ export function drawPriceLabel(
     pixelPoint: { x: number; y: number },
     price: number,
     dpr: number,
-    isSelected: boolean
+    isSelected: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     const { fontSize, style, backgroundColor, bold } = drawing;
 
     ctx.save();
 
-    const text = price.toFixed(2);
+    const text = formatPrice(price);
     const fontWeight = bold ? 'bold' : 'normal';
     ctx.font = `${fontWeight} ${fontSize * dpr}px -apple-system, BlinkMacSystemFont, sans-serif`;
 
@@ -13,7 +13,7 @@ import { BrushDrawing } from '../../../drawings/brush-drawing';
 import { ArrowMarkerDrawing } from '../../../drawings/arrow-marker-drawing';
 import { ArrowIconDrawing } from '../../../drawings/arrow-icon-drawing';
 import { ArrowDrawing } from '../../../drawings/arrow-drawing';
-import { hexToRgba } from './utils';
+import { hexToRgba, PriceFormatter, defaultPriceFormatter } from './utils';
 
 /**
  * Draws Fibonacci Retracement levels
@@ -24,7 +24,8 @@ export function drawFibRetracement(
     pixelPoints: { x: number; y: number }[],
     canvasWidth: number,
     dpr: number,
-    isSelected: boolean
+    isSelected: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     if (pixelPoints.length < 2) return;
 
@@ -74,7 +75,7 @@ export function drawFibRetracement(
 
         if (drawing.showLabels) {
             const labelText = drawing.showPrices
-                ? `${level.label} (${level.price.toFixed(2)})`
+                ? `${level.label} (${formatPrice(level.price)})`
                 : level.label;
 
             ctx.font = `${11 * dpr}px -apple-system, BlinkMacSystemFont, sans-serif`;
@@ -121,7 +122,8 @@ export function drawFibExtension(
     pixelPoints: { x: number; y: number }[],
     canvasWidth: number,
     dpr: number,
-    isSelected: boolean
+    isSelected: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     const style = drawing.style;
     const levelData = drawing.getLevelData();
@@ -157,7 +159,7 @@ export function drawFibExtension(
         ctx.stroke();
 
         if (drawing.showLabels) {
-            const label = drawing.showPrices ? `${level.label} (${level.price.toFixed(2)})` : level.label;
+            const label = drawing.showPrices ? `${level.label} (${formatPrice(level.price)})` : level.label;
             ctx.font = `${11 * dpr}px -apple-system, BlinkMacSystemFont, sans-serif`;
             ctx.fillStyle = level.color;
             ctx.textAlign = 'left';
@@ -24,3 +24,6 @@ export * from './position-renderer';
 
 // Measurement renderer (Price Range)
 export * from './measurement-renderer';
+
+// Volume profile renderer (Fixed Range Volume Profile)
+export * from './volume-profile-renderer';
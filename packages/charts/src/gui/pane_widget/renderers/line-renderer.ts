@@ -4,6 +4,7 @@
  */
 
 import { InfoLineDrawing } from '../../../drawings/info-line-drawing';
+import { PriceFormatter, defaultPriceFormatter } from './utils';
 
 /**
  * Draws a trend line with optional text and extensions
@@ -362,7 +363,8 @@ export function drawInfoLine(
     points: { x: number; y: number }[],
     drawing: InfoLineDrawing,
     dpr: number,
-    _isSelected: boolean
+    _isSelected: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     if (points.length < 2) return;
 
@@ -397,7 +399,7 @@ export function drawInfoLine(
     const priceSign = m.priceChange >= 0 ? '+' : '';
     const priceColor = m.priceChange >= 0 ? '#26a69a' : '#ef5350';
 
-    const line1 = `${priceSign}${m.priceChange.toFixed(2)} (${m.priceChangePercent.toFixed(2)}%)`;
+    const line1 = `${priceSign}${formatPrice(m.priceChange)} (${m.priceChangePercent.toFixed(2)}%)`;
     const line2 = `${m.barCount} bar, ${m.timeDuration}`;
     const line3 = `${m.angle.toFixed(2)}°`;
 
@@ -6,6 +6,7 @@
 import { PriceRangeDrawing } from '../../../drawings/price-range-drawing';
 import { DateRangeDrawing } from '../../../drawings/date-range-drawing';
 import { DatePriceRangeDrawing } from '../../../drawings/date-price-range-drawing';
+import { PriceFormatter, defaultPriceFormatter } from './utils';
 
 /**
  * Draw a Price Range measurement
@@ -15,7 +16,8 @@ export function drawPriceRange(
     drawing: PriceRangeDrawing,
     pixelPoints: { x: number; y: number }[],
     dpr: number,
-    showControlPoints: boolean
+    showControlPoints: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     if (pixelPoints.length < 2) return;
 
@@ -76,7 +78,7 @@ export function drawPriceRange(
         const percentChange = drawing.getPercentageChange();
 
         // Format label text: "Diff (Percent%) Ticks"
-        const priceText = `${priceDiff.toFixed(2)} (${(percentChange >= 0 ? '+' : '')}${percentChange.toFixed(2)}%)`;
+        const priceText = `${formatPrice(priceDiff)} (${(percentChange >= 0 ? '+' : '')}${percentChange.toFixed(2)}%)`;
 
         ctx.font = `bold ${12 * dpr}px Arial`;
         const textWidth = ctx.measureText(priceText).width;
@@ -261,7 +263,8 @@ export function drawDatePriceRange(
     drawing: DatePriceRangeDrawing,
     pixelPoints: { x: number; y: number }[],
     dpr: number,
-    showControlPoints: boolean
+    showControlPoints: boolean,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
     if (pixelPoints.length < 2) return;
 
@@ -324,7 +327,7 @@ export function drawDatePriceRange(
         const durationText = drawing.getDurationText();
         const volValue = drawing.volume;
 
-        const line1 = `${priceDiff.toFixed(2)} (${(percentChange >= 0 ? '+' : '')}${percentChange.toFixed(2)}%)`;
+        const line1 = `${formatPrice(priceDiff)} (${(percentChange >= 0 ? '+' : '')}${percentChange.toFixed(2)}%)`;
         const line2 = `${barCount} bars, ${durationText}`;
         const line3 = volValue > 0 ? `Vol ${formatVolume(volValue)}` : '';
 
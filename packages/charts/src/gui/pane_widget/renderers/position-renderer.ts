@@ -5,7 +5,7 @@
 
 import { LongPositionDrawing } from '../../../drawings/long-position-drawing';
 import { ShortPositionDrawing } from '../../../drawings/short-position-drawing';
-import { fillWithOpacity } from './utils';
+import { fillWithOpacity, PriceFormatter, defaultPriceFormatter } from './utils';
 
 /**
  * Draw a Long Position projection
@@ -16,9 +16,10 @@ export function drawLongPosition(
     pixelPoints: { x: number; y: number }[],
     dpr: number,
     showControlPoints: boolean,
-    priceToPixel: (price: number) => number | null
+    priceToPixel: (price: number) => number | null,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
-    renderPosition(ctx, drawing, pixelPoints, dpr, showControlPoints, priceToPixel, true);
+    renderPosition(ctx, drawing, pixelPoints, dpr, showControlPoints, priceToPixel, true, formatPrice);
 }
 
 /**
@@ -30,9 +31,10 @@ export function drawShortPosition(
     pixelPoints: { x: number; y: number }[],
     dpr: number,
     showControlPoints: boolean,
-    priceToPixel: (price: number) => number | null
+    priceToPixel: (price: number) => number | null,
+    formatPrice: PriceFormatter = defaultPriceFormatter
 ): void {
-    renderPosition(ctx, drawing, pixelPoints, dpr, showControlPoints, priceToPixel, false);
+    renderPosition(ctx, drawing, pixelPoints, dpr, showControlPoints, priceToPixel, false, formatPrice);
 }
 
 /**
@@ -45,7 +47,8 @@ function renderPosition(
     dpr: number,
     showControlPoints: boolean,
     priceToPixel: (price: number) => number | null,
-    isLong: boolean
+    isLong: boolean,
+    formatPrice: PriceFormatter
 ): void {
     if (pixelPoints.length < 2) return;
 
@@ -115,6 +118,46 @@ function renderPosition(
     ctx.lineTo(right, entryY);
     ctx.stroke();
 
+    // Trade progress: current (or exit) price and P&L, follows live data and bar replay
+    const trade = drawing.trade;
+    if (trade && trade.price !== null) {
+        const tradeYRaw = priceToPixel(trade.price);
+        if (tradeYRaw !== null) {
+            const tradeY = tradeYRaw * dpr;
+            const color = trade.pnl >= 0 ? '#26a69a' : '#ef5350';
+
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1 * dpr;
+            ctx.setLineDash([4 * dpr, 3 * dpr]);
+            ctx.beginPath();
+            ctx.moveTo(left, tradeY);
+            ctx.lineTo(right, tradeY);
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            const sign = trade.pnl >= 0 ? '+' : '';
+            const prefix = trade.status === 'target' ? 'Target hit' : trade.status === 'stop' ? 'Stop hit' : 'Open P&L';
+            const tradeText = `${prefix}: ${sign}${trade.pnl.toFixed(2)} (${sign}${trade.pnlPercent.toFixed(2)}%)`;
+
+            ctx.font = `${11 * dpr}px Arial`;
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'middle';
+
+            const padding = 6 * dpr;
+            const height = 18 * dpr;
+            const tradeTextWidth = ctx.measureText(tradeText).width + padding * 2;
+            const labelX = right + 4 * dpr;
+
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.roundRect(labelX, tradeY - height / 2, tradeTextWidth, height, 4 * dpr);
+            ctx.fill();
+
+            ctx.fillStyle = '#ffffff';
+            ctx.fillText(tradeText, labelX + padding, tradeY);
+        }
+    }
+
     // Draw Labels (only when selected or being created)
     if (showControlPoints || drawing.state === 'selected') {
         ctx.font = `bold ${11 * dpr}px Arial`;
@@ -127,7 +170,7 @@ function renderPosition(
         // Target Label (top or bottom depending on position type)
         const profitPercent = drawing.profitPercent;
         const profitAmount = drawing.getProfitAmount();
-        const targetText = `Target: ${targetPrice.toFixed(2)} (+${profitPercent.toFixed(1)}%) $${profitAmount.toFixed(2)}`;
+        const targetText = `Target: ${formatPrice(targetPrice)} (+${profitPercent.toFixed(1)}%) $${profitAmount.toFixed(2)}`;
 
         const targetTextWidth = ctx.measureText(targetText).width + boxPadding * 2;
 
@@ -145,7 +188,7 @@ function renderPosition(
         // Stop Label
         const lossPercent = drawing.stopPercent;
         const lossAmount = drawing.getLossAmount();
-        const stopText = `Stop: ${stopPrice.toFixed(2)} (-${lossPercent.toFixed(1)}%) $${lossAmount.toFixed(2)}`;
+        const stopText = `Stop: ${formatPrice(stopPrice)} (-${lossPercent.toFixed(1)}%) $${lossAmount.toFixed(2)}`;
 
         const stopTextWidth = ctx.measureText(stopText).width + boxPadding * 2;
         const stopLabelY = isLong ? stopY + boxHeight / 2 + 5 * dpr : stopY - boxHeight / 2 - 5 * dpr;
@@ -161,7 +204,7 @@ function renderPosition(
         // Entry Label (middle)
         const riskReward = drawing.getRiskRewardRatio();
         const quantity = drawing.quantity;
-        const entryText = `Entry: ${entryPrice.toFixed(2)} | Qty: ${quantity}`;
+        const entryText = `Entry: ${formatPrice(entryPrice)} | Qty: ${quantity}`;
         const rrText = `R/R: ${riskReward.toFixed(2)}`;
 
         const entryTextWidth = Math.max(
@@ -3,6 +3,14 @@
  * Shared utility functions for drawing renderers
  */
 
+/**
+ * Formats prices shown on drawings, the pane passes the price scale's formatter
+ */
+export type PriceFormatter = (price: number) => string;
+
+/** Formatter of drawings rendered without a price scale */
+export const defaultPriceFormatter: PriceFormatter = (price) => price.toFixed(2);
+
 /**
  * Convert hex color to rgba with alpha
  */
@@ -0,0 +1,92 @@
+/**
+ * Volume Profile Renderer
+ * Renders the Fixed Range Volume Profile tool
+ */
+
+import { FixedRangeVolumeProfileDrawing } from '../../../drawings/fixed-range-volume-profile-drawing';
+import { VolumeProfileRenderer } from '../../../renderers/volume-profile-renderer';
+import { hexToRgba } from './utils';
+
+const profileRenderer = new VolumeProfileRenderer();
+
+/**
+ * Draw a Fixed Range Volume Profile, its profile built beforehand with updateProfile
+ * @param priceToPixel - media y of a price
+ */
+export function drawFixedRangeVolumeProfile(
+    ctx: CanvasRenderingContext2D,
+    drawing: FixedRangeVolumeProfileDrawing,
+    pixelPoints: { x: number; y: number }[],
+    dpr: number,
+    showControlPoints: boolean,
+    priceToPixel: (price: number) => number | null
+): void {
+    if (pixelPoints.length < 2) return;
+
+    const p1 = pixelPoints[0];
+    const p2 = pixelPoints[1];
+    const left = Math.min(p1.x, p2.x);
+    const right = Math.max(p1.x, p2.x);
+    const priceToY = (price: number) => (priceToPixel(price) ?? NaN) * dpr;
+
+    ctx.save();
+
+    // The profile's price span, or the points' while there is none
+    const profile = drawing.profile;
+    const top = profile ? priceToY(profile.rows[profile.rows.length - 1].high) : Math.min(p1.y, p2.y);
+    const bottom = profile ? priceToY(profile.rows[0].low) : Math.max(p1.y, p2.y);
+
+    if (profile) {
+        drawing.setProfileExtent(top / dpr, bottom / dpr);
+
+        // Range of the profile while it's being placed or selected
+        if (showControlPoints) {
+            ctx.fillStyle = hexToRgba(drawing.style.color, 0.1);
+            ctx.fillRect(left, top, right - left, bottom - top);
+        }
+
+        profileRenderer.setStyle(drawing.profileStyle);
+        profileRenderer.draw(
+            ctx,
+            profile,
+            {
+                x: left,
+                width: (right - left) * drawing.widthPercent / 100,
+                align: 'left',
+                lineFrom: left,
+                lineTo: right,
+            },
+            priceToY,
+            dpr
+        );
+    }
+
+    // Range bounds
+    if (showControlPoints || !profile) {
+        ctx.strokeStyle = drawing.style.color;
+        ctx.lineWidth = 1 * dpr;
+        ctx.beginPath();
+        ctx.moveTo(Math.round(left) + 0.5, top);
+        ctx.lineTo(Math.round(left) + 0.5, bottom);
+        ctx.moveTo(Math.round(right) + 0.5, top);
+        ctx.lineTo(Math.round(right) + 0.5, bottom);
+        ctx.stroke();
+    }
+
+    // Control Points
+    if (showControlPoints) {
+        ctx.fillStyle = '#ffffff';
+        ctx.strokeStyle = drawing.style.color;
+        ctx.lineWidth = 1.5 * dpr;
+        const radius = 4 * dpr;
+
+        [p1, p2].forEach(p => {
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        });
+    }
+
+    ctx.restore();
+}
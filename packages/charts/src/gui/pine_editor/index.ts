@@ -0,0 +1,5 @@
+/**
+ * Pine Editor Module
+ */
+
+export * from './pine_editor';
@@ -0,0 +1,309 @@
+/**
+ * Pine Editor - script editor for Pine indicators, floats over the bottom
+ * left of the chart and shows compile and runtime errors under the source
+ */
+
+import { PineError } from '../../pine';
+import { PineIndicator } from '../../indicators/pine-indicator';
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+
+const NEW_SCRIPT = `//@version=5
+indicator("My script")
+plot(close)
+`;
+
+const EDITOR_FONT = `13px/20px Menlo, Consolas, 'Liberation Mono', monospace`;
+const ERROR_COLOR = '#f23645';
+
+export class PineEditor {
+    private _element: HTMLElement | null = null;
+    private _textarea: HTMLTextAreaElement | null = null;
+    private _gutter: HTMLElement | null = null;
+    private _errorBar: HTMLElement | null = null;
+    private _applyButton: HTMLButtonElement | null = null;
+    private _visible: boolean = false;
+    private _indicator: PineIndicator | null = null;
+    private _error: PineError | null = null;
+
+    private readonly _applyClicked = new Delegate<string>();
+
+    private readonly _onIndicatorChanged = () => this.showError(this._indicator?.error ?? null);
+
+    constructor(private readonly _container: HTMLElement) {
+        this._createElement();
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    /** Fired with the source when "Add to chart" / "Update on chart" is clicked */
+    get applyClicked(): Delegate<string> {
+        return this._applyClicked;
+    }
+
+    /** The indicator the editor updates, null when it adds a new one */
+    get indicator(): PineIndicator | null {
+        return this._indicator;
+    }
+
+    get source(): string {
+        return this._textarea?.value ?? '';
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._textarea?.focus();
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+    }
+
+    /**
+     * Edit an indicator's script, or start a new script when null.
+     * Runtime errors of the indicator show up as it recalculates.
+     */
+    setIndicator(indicator: PineIndicator | null): void {
+        this._indicator?.dataChanged.unsubscribe(this._onIndicatorChanged);
+        this._indicator = indicator;
+        indicator?.dataChanged.subscribe(this._onIndicatorChanged);
+
+        if (this._textarea) {
+            this._textarea.value = indicator ? indicator.script.source : NEW_SCRIPT;
+        }
+        if (this._applyButton) {
+            this._applyButton.textContent = indicator ? t('Update on chart') : t('Add to chart');
+        }
+        this._renderGutter();
+        this.showError(indicator?.error ?? null);
+    }
+
+    showError(error: PineError | null): void {
+        this._error = error;
+        this._renderGutter();
+
+        if (!this._errorBar) return;
+        if (!error) {
+            this._errorBar.style.display = 'none';
+            return;
+        }
+
+        const kind = error.kind === 'syntax' ? t('Syntax error') : t('Runtime error');
+        const position = error.line > 0 ? ` ${t('at line')} ${error.line}:${error.column}` : '';
+        this._errorBar.textContent = `${kind}${position}: ${error.description}`;
+        this._errorBar.style.display = 'block';
+    }
+
+    dispose(): void {
+        this._indicator?.dataChanged.unsubscribe(this._onIndicatorChanged);
+        this._indicator = null;
+        this._applyClicked.destroy();
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+        this._textarea = null;
+        this._gutter = null;
+        this._errorBar = null;
+        this._applyButton = null;
+    }
+
+    // --- Private: Layout ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-pine-editor';
+        this._element.style.cssText = `
+            position: absolute;
+            left: 56px;
+            bottom: 40px;
+            width: 560px;
+            height: 380px;
+            max-width: calc(100% - 80px);
+            max-height: calc(100% - 96px);
+            background: #ffffff;
+            border: 1px solid #e0e3eb;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+        `;
+        // Keep chart interactions and shortcuts from reacting to the editor
+        this._element.addEventListener('mousedown', e => e.stopPropagation());
+        this._element.addEventListener('wheel', e => e.stopPropagation());
+        this._element.addEventListener('keydown', e => e.stopPropagation());
+
+        this._element.appendChild(this._createHeader());
+
+        const body = document.createElement('div');
+        body.style.cssText = `display: flex; flex: 1; min-height: 0; border-bottom: 1px solid #e0e3eb;`;
+
+        this._gutter = document.createElement('div');
+        this._gutter.style.cssText = `
+            padding: 8px 8px 8px 12px;
+            min-width: 28px;
+            text-align: right;
+            font: ${EDITOR_FONT};
+            color: #b2b5be;
+            background: #f8f9fd;
+            overflow: hidden;
+            user-select: none;
+        `;
+        body.appendChild(this._gutter);
+
+        this._textarea = document.createElement('textarea');
+        this._textarea.spellcheck = false;
+        this._textarea.wrap = 'off';
+        this._textarea.style.cssText = `
+            flex: 1;
+            resize: none;
+            border: none;
+            outline: none;
+            padding: 8px 12px;
+            font: ${EDITOR_FONT};
+            color: #131722;
+            white-space: pre;
+            tab-size: 4;
+        `;
+        this._textarea.value = NEW_SCRIPT;
+        this._textarea.addEventListener('input', () => this._renderGutter());
+        this._textarea.addEventListener('scroll', () => {
+            if (this._gutter && this._textarea) this._gutter.scrollTop = this._textarea.scrollTop;
+        });
+        this._textarea.addEventListener('keydown', e => this._onKeyDown(e));
+        body.appendChild(this._textarea);
+
+        this._element.appendChild(body);
+
+        this._errorBar = document.createElement('div');
+        this._errorBar.style.cssText = `
+            display: none;
+            padding: 8px 12px;
+            color: ${ERROR_COLOR};
+            background: rgba(242, 54, 69, 0.06);
+            cursor: pointer;
+            white-space: pre-wrap;
+        `;
+        this._errorBar.title = t('Go to line');
+        this._errorBar.onclick = () => this._selectErrorLine();
+        this._element.appendChild(this._errorBar);
+
+        this._renderGutter();
+        this._container.appendChild(this._element);
+    }
+
+    private _createHeader(): HTMLElement {
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 8px 12px;
+            border-bottom: 1px solid #e0e3eb;
+        `;
+
+        const label = document.createElement('div');
+        label.textContent = t('Pine Editor');
+        label.style.cssText = `flex: 1; font-weight: 600; font-size: 14px;`;
+        header.appendChild(label);
+
+        this._applyButton = document.createElement('button');
+        this._applyButton.textContent = t('Add to chart');
+        this._applyButton.style.cssText = `
+            background: #2962ff;
+            color: #ffffff;
+            border: none;
+            border-radius: 4px;
+            padding: 5px 12px;
+            font-size: 13px;
+            cursor: pointer;
+        `;
+        this._applyButton.onclick = (e) => {
+            e.stopPropagation();
+            this._applyClicked.fire(this.source);
+        };
+        header.appendChild(this._applyButton);
+
+        const close = document.createElement('button');
+        close.innerHTML = ICON_CLOSE;
+        close.title = t('Close');
+        close.style.cssText = `
+            background: none;
+            border: none;
+            cursor: pointer;
+            padding: 4px;
+            border-radius: 4px;
+            display: flex;
+            color: #787b86;
+        `;
+        close.onmouseenter = () => close.style.background = '#f0f3fa';
+        close.onmouseleave = () => close.style.background = 'none';
+        close.onclick = (e) => {
+            e.stopPropagation();
+            this.hide();
+        };
+        header.appendChild(close);
+
+        return header;
+    }
+
+    // --- Private: Editing ---
+
+    private _renderGutter(): void {
+        if (!this._gutter || !this._textarea) return;
+
+        const lines = this._textarea.value.split('\n').length;
+        const errorLine = this._error?.line ?? 0;
+        let html = '';
+        for (let line = 1; line <= lines; line++) {
+            html += line === errorLine
+                ? `<div style="color: ${ERROR_COLOR}; font-weight: 600;">${line}</div>`
+                : `<div>${line}</div>`;
+        }
+        this._gutter.innerHTML = html;
+        this._gutter.scrollTop = this._textarea.scrollTop;
+    }
+
+    /** Tab indents by 4 spaces (Pine blocks), Ctrl/Cmd+Enter applies */
+    private _onKeyDown(e: KeyboardEvent): void {
+        const textarea = this._textarea;
+        if (!textarea) return;
+
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            this._applyClicked.fire(this.source);
+            return;
+        }
+
+        if (e.key === 'Tab') {
+            e.preventDefault();
+            const { selectionStart, selectionEnd, value } = textarea;
+            textarea.value = value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd);
+            textarea.selectionStart = textarea.selectionEnd = selectionStart + 4;
+            this._renderGutter();
+        }
+    }
+
+    private _selectErrorLine(): void {
+        const textarea = this._textarea;
+        if (!textarea || !this._error || this._error.line <= 0) return;
+
+        const lines = textarea.value.split('\n');
+        const start = lines.slice(0, this._error.line - 1).reduce((sum, line) => sum + line.length + 1, 0);
+        const end = start + (lines[this._error.line - 1]?.length ?? 0);
+        textarea.focus();
+        textarea.setSelectionRange(start, end);
+    }
+}
@@ -10,6 +10,8 @@ interface Disposable {
  * Price axis widget options
  */
 export interface PriceAxisWidgetOptions {
+    /** Side of the pane the axis is on, labels face the pane */
+    side: 'left' | 'right';
     width: number;
     backgroundColor: string;
     textColor: string;
@@ -18,6 +20,7 @@ export interface PriceAxisWidgetOptions {
 }
 
 const defaultPriceAxisOptions: PriceAxisWidgetOptions = {
+    side: 'right',
     width: 80,
     backgroundColor: '#16213e',  // Darker navy (original panel bg)
     textColor: 'rgba(255, 255, 255, 0.5)',
@@ -35,6 +38,7 @@ export class PriceAxisWidget implements Disposable {
     private _canvas: HTMLCanvasElement | null = null;
     private _ctx: CanvasRenderingContext2D | null = null;
     private _height: number = 0;
+    private _visible: boolean = true;
 
     constructor(
         container: HTMLElement,
@@ -58,6 +62,17 @@ export class PriceAxisWidget implements Disposable {
         return this._options.width;
     }
 
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    setVisible(visible: boolean): void {
+        this._visible = visible;
+        if (this._element) {
+            this._element.style.display = visible ? '' : 'none';
+        }
+    }
+
     setHeight(height: number): void {
         if (this._height === height) return;
         this._height = height;
@@ -73,11 +88,14 @@ export class PriceAxisWidget implements Disposable {
     }
 
     render(): void {
-        if (!this._ctx || !this._canvas) return;
+        if (!this._ctx || !this._canvas || !this._visible) return;
 
         const dpr = window.devicePixelRatio || 1;
         const width = this._options.width;
         const height = this._height;
+        const isLeft = this._options.side === 'left';
+        // x of the edge next to the pane
+        const paneEdge = isLeft ? width : 0;
 
         // Clear
         this._ctx.setTransform(1, 0, 0, 1, 0, 0);
@@ -89,15 +107,15 @@ export class PriceAxisWidget implements Disposable {
         this._ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
         this._ctx.lineWidth = 1;
         this._ctx.beginPath();
-        this._ctx.moveTo(0.5, 0);
-        this._ctx.lineTo(0.5, height);
+        this._ctx.moveTo(isLeft ? width - 0.5 : 0.5, 0);
+        this._ctx.lineTo(isLeft ? width - 0.5 : 0.5, height);
         this._ctx.stroke();
 
         // Draw price labels
         const marks = this._priceScale.marks();
         this._ctx.fillStyle = this._options.textColor;
         this._ctx.font = `${this._options.fontSize}px ${this._options.fontFamily}`;
-        this._ctx.textAlign = 'right';
+        this._ctx.textAlign = isLeft ? 'left' : 'right';
         this._ctx.textBaseline = 'middle';
 
         // Draw marks
@@ -106,25 +124,27 @@ export class PriceAxisWidget implements Disposable {
             if (y < 10 || y > height - 10) continue;
 
             this._ctx.fillStyle = this._options.textColor; // Reset fill style
-            this._ctx.fillText(mark.label, width - 8, y);
+            this._ctx.fillText(mark.label, isLeft ? 8 : width - 8, y);
 
             // Small tick mark
             this._ctx.beginPath();
-            this._ctx.moveTo(0, y);
-            this._ctx.lineTo(4, y);
+            this._ctx.moveTo(paneEdge, y);
+            this._ctx.lineTo(isLeft ? width - 4 : 4, y);
             this._ctx.stroke();
         }
 
         // Draw last value label
         if (this._lastValue) {
-            const y = this._priceScale.priceToCoordinate(this._lastValue.price);
-            this._drawLabel(y, this._lastValue.text, this._lastValue.color, true);
+            const { price, text, color } = this._lastValue;
+            const y = this._priceScale.priceToCoordinate(price);
+            // Relative labels follow the base value, which moves with scrolling
+            this._drawLabel(y, this._priceScale.isRelative ? this._priceScale.formatLabel(price) : text, color, true);
         }
 
         if (this._crosshairY !== null) {
             const price = this._priceScale.coordinateToPrice(coordinate(this._crosshairY));
             // Use price scale formatter
-            const text = this._priceScale.formatPrice(price);
+            const text = this._priceScale.formatLabel(price);
             this._drawLabel(this._crosshairY, text, '#2962ff', false);
         }
     }
@@ -146,7 +166,8 @@ export class PriceAxisWidget implements Disposable {
         const boxHeight = hasCountdown ? 34 : 20;
         const boxWidth = Math.max(textWidth + (padding * 2), hasCountdown ? 70 : 0);
         const boxY = y - (boxHeight / 2);
-        const boxX = width - boxWidth;
+        const isLeft = this._options.side === 'left';
+        const boxX = isLeft ? 0 : width - boxWidth;
 
         // Background
         this._ctx.fillStyle = color;
@@ -171,8 +192,8 @@ export class PriceAxisWidget implements Disposable {
             this._ctx.strokeStyle = color;
             this._ctx.lineWidth = 1;
             this._ctx.setLineDash([2, 2]);
-            this._ctx.moveTo(0, y);
-            this._ctx.lineTo(boxX, y);
+            this._ctx.moveTo(isLeft ? width : 0, y);
+            this._ctx.lineTo(isLeft ? boxWidth : boxX, y);
             this._ctx.stroke();
             this._ctx.setLineDash([]);
         }
@@ -186,6 +207,10 @@ export class PriceAxisWidget implements Disposable {
         this._lastValue = { price, text, color };
     }
 
+    clearLastValue(): void {
+        this._lastValue = null;
+    }
+
     /**
      * Set countdown text to show below price label
      * @param countdown Format: "mm:ss" or "hh:mm:ss" or null to hide
@@ -0,0 +1,6 @@
+/**
+ * Replay Bar Module
+ */
+
+export * from './replay_bar';
+export * from './replay_start_picker';
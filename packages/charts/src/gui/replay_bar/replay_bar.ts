@@ -0,0 +1,230 @@
+/**
+ * Replay Bar - controls for bar replay, floats over the bottom of the chart
+ */
+
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+import { ReplayController, REPLAY_SPEEDS } from '../../replay/replay-controller';
+
+const ICON_SELECT = `<svg width="16" height="16" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"><path d="M9 2v14"/><path d="M5 6 2 9l3 3M13 6l3 3-3 3"/></svg>`;
+const ICON_BACK = `<svg width="16" height="16" viewBox="0 0 18 18" fill="currentColor"><path d="M4 4h2v10H4zM15 4v10L7 9z"/></svg>`;
+const ICON_PLAY = `<svg width="16" height="16" viewBox="0 0 18 18" fill="currentColor"><path d="M5 3v12l10-6z"/></svg>`;
+const ICON_PAUSE = `<svg width="16" height="16" viewBox="0 0 18 18" fill="currentColor"><path d="M4 3h3v12H4zM11 3h3v12h-3z"/></svg>`;
+const ICON_FORWARD = `<svg width="16" height="16" viewBox="0 0 18 18" fill="currentColor"><path d="M3 4v10l8-5zM12 4h2v10h-2z"/></svg>`;
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+
+const BUTTON_STYLE = `
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    gap: 6px;
+    height: 28px;
+    min-width: 28px;
+    padding: 0 6px;
+    background: transparent;
+    border: none;
+    border-radius: 4px;
+    color: #131722;
+    font-size: 13px;
+    cursor: pointer;
+`;
+
+/**
+ * Replay control bar: pick the start bar, step, play/pause, speed and exit
+ */
+export class ReplayBar {
+    private _element: HTMLElement | null = null;
+    private _selectButton: HTMLButtonElement | null = null;
+    private _backButton: HTMLButtonElement | null = null;
+    private _playButton: HTMLButtonElement | null = null;
+    private _forwardButton: HTMLButtonElement | null = null;
+    private _speedSelect: HTMLSelectElement | null = null;
+    private _status: HTMLElement | null = null;
+    private _visible: boolean = false;
+    private _selecting: boolean = false;
+
+    private readonly _selectClicked = new Delegate<void>();
+    private readonly _closeClicked = new Delegate<void>();
+    private readonly _onStateChanged = () => this._update();
+
+    constructor(
+        private readonly _container: HTMLElement,
+        private readonly _replay: ReplayController
+    ) {
+        this._createElement();
+        this._replay.stateChanged.subscribe(this._onStateChanged);
+    }
+
+    /** "Select bar" was clicked, the chart starts picking a start bar */
+    get selectClicked(): Delegate<void> {
+        return this._selectClicked;
+    }
+
+    get closeClicked(): Delegate<void> {
+        return this._closeClicked;
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._update();
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+    }
+
+    /** Highlight "Select bar" while a start bar is being picked */
+    setSelecting(selecting: boolean): void {
+        this._selecting = selecting;
+        this._update();
+    }
+
+    dispose(): void {
+        this._replay.stateChanged.unsubscribe(this._onStateChanged);
+        this._selectClicked.destroy();
+        this._closeClicked.destroy();
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+    }
+
+    // --- Private ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-replay-bar';
+        this._element.style.cssText = `
+            position: absolute;
+            left: 50%;
+            bottom: 44px;
+            transform: translateX(-50%);
+            display: none;
+            align-items: center;
+            gap: 2px;
+            padding: 4px 6px;
+            background: #ffffff;
+            border-radius: 6px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08);
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+            white-space: nowrap;
+        `;
+
+        this._selectButton = this._createButton(ICON_SELECT, t('Select bar'), () => this._selectClicked.fire());
+        const selectLabel = document.createElement('span');
+        selectLabel.textContent = t('Select bar');
+        this._selectButton.appendChild(selectLabel);
+
+        this._createDivider();
+
+        this._backButton = this._createButton(ICON_BACK, t('Step back'), () => this._replay.stepBack());
+        this._playButton = this._createButton(ICON_PLAY, t('Play'), () => this._replay.togglePlay());
+        this._forwardButton = this._createButton(ICON_FORWARD, t('Step forward'), () => void this._replay.stepForward());
+
+        this._speedSelect = document.createElement('select');
+        this._speedSelect.title = t('Speed');
+        this._speedSelect.style.cssText = `
+            height: 28px;
+            background: transparent;
+            border: none;
+            border-radius: 4px;
+            color: #131722;
+            font-size: 13px;
+            cursor: pointer;
+            outline: none;
+        `;
+        for (const speed of REPLAY_SPEEDS) {
+            const option = document.createElement('option');
+            option.value = String(speed);
+            option.textContent = `${speed}x`;
+            this._speedSelect.appendChild(option);
+        }
+        this._speedSelect.onchange = () => this._replay.setSpeed(Number(this._speedSelect!.value));
+        this._element.appendChild(this._speedSelect);
+
+        this._createDivider();
+
+        this._status = document.createElement('span');
+        this._status.style.cssText = `padding: 0 8px; color: #787b86; min-width: 140px;`;
+        this._element.appendChild(this._status);
+
+        this._createButton(ICON_CLOSE, t('Exit replay'), () => this._closeClicked.fire());
+
+        this._container.appendChild(this._element);
+    }
+
+    private _createButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+        const btn = document.createElement('button');
+        btn.title = title;
+        btn.innerHTML = icon;
+        btn.style.cssText = BUTTON_STYLE;
+        btn.onmouseenter = () => {
+            if (!btn.disabled) btn.style.background = '#f0f3fa';
+        };
+        btn.onmouseleave = () => {
+            btn.style.background = btn === this._selectButton && this._selecting ? 'rgba(41, 98, 255, 0.12)' : 'transparent';
+        };
+        btn.onclick = onClick;
+        this._element!.appendChild(btn);
+        return btn;
+    }
+
+    private _createDivider(): void {
+        const divider = document.createElement('div');
+        divider.style.cssText = `width: 1px; height: 20px; margin: 0 4px; background: #e0e3eb;`;
+        this._element!.appendChild(divider);
+    }
+
+    private _update(): void {
+        if (!this._visible) return;
+
+        const replay = this._replay;
+        const setEnabled = (btn: HTMLButtonElement | null, enabled: boolean) => {
+            if (!btn) return;
+            btn.disabled = !enabled;
+            btn.style.opacity = enabled ? '1' : '0.4';
+            btn.style.cursor = enabled ? 'pointer' : 'default';
+        };
+
+        setEnabled(this._backButton, replay.canStepBack && !replay.loading);
+        setEnabled(this._playButton, replay.active);
+        setEnabled(this._forwardButton, replay.canStepForward && !replay.loading);
+
+        if (this._playButton) {
+            this._playButton.innerHTML = replay.playing ? ICON_PAUSE : ICON_PLAY;
+            this._playButton.title = replay.playing ? t('Pause') : t('Play');
+        }
+        if (this._speedSelect) {
+            this._speedSelect.value = String(replay.speed);
+            this._speedSelect.disabled = !replay.active;
+        }
+        if (this._selectButton) {
+            this._selectButton.style.background = this._selecting ? 'rgba(41, 98, 255, 0.12)' : 'transparent';
+            this._selectButton.style.color = this._selecting ? '#2962ff' : '#131722';
+        }
+
+        if (this._status) {
+            const bar = replay.currentBar;
+            if (this._selecting) {
+                this._status.textContent = t('Click a bar to start the replay');
+            } else if (replay.loading) {
+                this._status.textContent = t('Loading...');
+            } else if (bar) {
+                this._status.textContent = `${new Date(bar.time).toLocaleString()} · ${replay.timeframe}`;
+            } else {
+                this._status.textContent = '';
+            }
+        }
+    }
+}
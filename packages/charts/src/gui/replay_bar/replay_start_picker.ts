@@ -0,0 +1,110 @@
+/**
+ * Replay Start Picker - vertical line following the mouse over the main pane,
+ * a click picks the bar the replay starts from
+ */
+
+import { Delegate } from '../../helpers/delegate';
+import { TimeScale } from '../../model/time-scale';
+import { coordinate, timePointIndex } from '../../model/coordinate';
+
+export class ReplayStartPicker {
+    private _line: HTMLElement | null = null;
+    private _enabled: boolean = false;
+    private _index: number = -1;
+
+    private readonly _picked = new Delegate<number>();
+
+    private readonly _onMouseMove = (e: MouseEvent) => {
+        if (!this._enabled) return;
+        this._moveTo(e.clientX);
+    };
+
+    private readonly _onMouseLeave = () => {
+        if (this._line) this._line.style.display = 'none';
+    };
+
+    /** Runs in the capture phase so the click doesn't start a drawing or a pan */
+    private readonly _onMouseDown = (e: MouseEvent) => {
+        if (!this._enabled || e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        this._moveTo(e.clientX);
+        const time = this._getTimes()[this._index];
+        if (time !== undefined) {
+            this._picked.fire(time);
+        }
+    };
+
+    constructor(
+        private readonly _pane: HTMLElement,
+        private readonly _timeScale: TimeScale,
+        /** Times of the plotted bars, index-aligned with the time scale */
+        private readonly _getTimes: () => readonly number[]
+    ) {
+        this._pane.addEventListener('mousemove', this._onMouseMove);
+        this._pane.addEventListener('mouseleave', this._onMouseLeave);
+        this._pane.addEventListener('mousedown', this._onMouseDown, true);
+    }
+
+    /** Fired with the time of the picked bar */
+    get picked(): Delegate<number> {
+        return this._picked;
+    }
+
+    get enabled(): boolean {
+        return this._enabled;
+    }
+
+    enable(): void {
+        this._enabled = true;
+        this._pane.style.cursor = 'crosshair';
+    }
+
+    disable(): void {
+        this._enabled = false;
+        this._pane.style.cursor = '';
+        if (this._line) this._line.style.display = 'none';
+    }
+
+    dispose(): void {
+        this._pane.removeEventListener('mousemove', this._onMouseMove);
+        this._pane.removeEventListener('mouseleave', this._onMouseLeave);
+        this._pane.removeEventListener('mousedown', this._onMouseDown, true);
+        this._picked.destroy();
+        this._line?.parentNode?.removeChild(this._line);
+        this._line = null;
+    }
+
+    private _moveTo(clientX: number): void {
+        const times = this._getTimes();
+        if (times.length === 0) return;
+
+        const rect = this._pane.getBoundingClientRect();
+        const index = this._timeScale.coordinateToIndex(coordinate(clientX - rect.left));
+        this._index = Math.max(0, Math.min(times.length - 1, index));
+
+        const line = this._getLine();
+        line.style.left = `${this._timeScale.indexToCoordinate(timePointIndex(this._index))}px`;
+        line.style.display = 'block';
+    }
+
+    private _getLine(): HTMLElement {
+        if (!this._line) {
+            this._line = document.createElement('div');
+            this._line.className = 'chart-replay-picker';
+            this._line.style.cssText = `
+                position: absolute;
+                top: 0;
+                bottom: 0;
+                width: 0;
+                border-left: 2px solid #2962ff;
+                pointer-events: none;
+                z-index: 20;
+                display: none;
+            `;
+            this._pane.appendChild(this._line);
+        }
+        return this._line;
+    }
+}
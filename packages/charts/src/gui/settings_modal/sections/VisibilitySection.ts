@@ -1,21 +1,31 @@
 /**
  * Visibility Section Component
- * Reusable section for visibility settings (visible, locked)
+ * Reusable section for visibility settings (visible, locked, timeframes)
  */
 
-import { Drawing } from '../../../drawings';
+import {
+    Drawing,
+    VISIBILITY_UNITS,
+    VisibilityUnit,
+    defaultTimeframeVisibility,
+    normalizeTimeframeVisibility,
+} from '../../../drawings';
 import { createCheckbox } from '../components/Checkbox';
+import { createNumberInput } from '../components/NumberInput';
 import { createSection, createSettingsRow } from '../base/SettingsComponents';
 import { t } from '../../../helpers/translations';
 
 /**
- * Creates a visibility settings section with visible and locked checkboxes
+ * Creates a visibility settings section with visible and locked checkboxes,
+ * followed by the timeframe ranges the drawing is shown on
  */
 export function createVisibilitySection(
     drawing: Drawing,
     onChanged: () => void
 ): HTMLElement {
-    return createSection(t('Display'), (content) => {
+    const container = document.createElement('div');
+
+    container.appendChild(createSection(t('Display'), (content) => {
         // Visible
         const visibleRow = createSettingsRow(t('Visible'),
             createCheckbox(drawing.visible, '', (checked: boolean) => {
@@ -33,5 +43,56 @@ export function createVisibilitySection(
             })
         );
         content.appendChild(lockedRow);
-    });
+    }));
+
+    container.appendChild(createSection(t('Timeframes'), (content) => {
+        for (const { unit, label, limit } of VISIBILITY_UNITS) {
+            content.appendChild(createSettingsRow(t(label), createTimeframeRange(drawing, unit, limit, onChanged)));
+        }
+    }));
+
+    return container;
+}
+
+/**
+ * Checkbox and min/max inputs of one timeframe unit
+ */
+function createTimeframeRange(
+    drawing: Drawing,
+    unit: VisibilityUnit,
+    limit: number,
+    onChanged: () => void
+): HTMLElement {
+    const range = (drawing.timeframeVisibility ?? defaultTimeframeVisibility())[unit];
+
+    const control = document.createElement('div');
+    control.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+
+    const update = (change: Partial<typeof range>) => {
+        const visibility = drawing.timeframeVisibility ?? defaultTimeframeVisibility();
+        visibility[unit] = { ...visibility[unit], ...change };
+        drawing.timeframeVisibility = normalizeTimeframeVisibility(visibility);
+
+        // Show the range as stored, e.g. max raised to a larger min
+        const stored = (drawing.timeframeVisibility ?? defaultTimeframeVisibility())[unit];
+        minInput.value = stored.min.toString();
+        maxInput.value = stored.max.toString();
+        inputs.style.opacity = stored.enabled ? '1' : '0.4';
+        onChanged();
+    };
+
+    const minInput = createNumberInput(range.min, 1, limit, 1, (value) => update({ min: value })) as HTMLInputElement;
+    const maxInput = createNumberInput(range.max, 1, limit, 1, (value) => update({ max: value })) as HTMLInputElement;
+
+    const inputs = document.createElement('div');
+    inputs.style.cssText = `display: flex; align-items: center; gap: 6px; opacity: ${range.enabled ? 1 : 0.4};`;
+    const dash = document.createElement('span');
+    dash.textContent = '–';
+    inputs.appendChild(minInput);
+    inputs.appendChild(dash);
+    inputs.appendChild(maxInput);
+
+    control.appendChild(createCheckbox(range.enabled, '', (checked: boolean) => update({ enabled: checked })));
+    control.appendChild(inputs);
+    return control;
 }
@@ -5,11 +5,15 @@
  * - Category tabs (All, Stocks, Futures, Forex, Crypto, Indices, etc.)
  * - Dropdown filters (Country, Type, Sector)
  * - Real-time search
+ * - Synthetic symbols typed as expressions (BTCUSDT/ETHUSDT) when searching a comparison
  * - Integration with data providers
  */
 
 import { Delegate } from '../../helpers/delegate';
 import { t } from '../../helpers/translations';
+import { parseSyntheticSymbol } from '../../data-providers/synthetic-symbol';
+import { SymbolMetadata } from '../../data-providers/types';
+import { createSymbolMetadata } from '../../data-providers/symbol-metadata';
 
 // ============================================================================
 // Types
@@ -17,7 +21,11 @@ import { t } from '../../helpers/translations';
 
 export type SymbolType = 'all' | 'stocks' | 'funds' | 'futures' | 'forex' | 'crypto' | 'indices' | 'bonds' | 'economy' | 'options';
 
-export interface SymbolInfo {
+/**
+ * Tick size and precision fields are set for symbols listed from the
+ * exchange info endpoints; without them the chart asks the provider.
+ */
+export interface SymbolInfo extends Partial<SymbolMetadata> {
     symbol: string;
     full_name: string;
     description: string;
@@ -122,12 +130,17 @@ export class SymbolSearch {
     private _tabsContainer: HTMLElement | null = null;
     private _listContainer: HTMLElement | null = null;
     private _searchInput: HTMLInputElement | null = null;
+    private _title: HTMLElement | null = null;
     private _symbols: SymbolInfo[] = [];
+    /** Rows currently listed, Enter picks the first */
+    private _listed: SymbolInfo[] = [];
     private _activeCategory: SymbolType = 'all';
     private _cryptoExchange: string = 'all';  // 'all', 'BINANCE', 'BINANCE-FUTURES'
     private _exchangeDropdown: HTMLSelectElement | null = null;
     private _isLoading: boolean = false;
     private _symbolsFetched: boolean = false;  // Cache flag
+    /** Typed expressions are listed as synthetic symbols */
+    private _allowSynthetic: boolean = false;
     private readonly _symbolSelected = new Delegate<SymbolInfo>();
 
     constructor(config: SymbolSearchConfig = {}) {
@@ -160,7 +173,14 @@ export class SymbolSearch {
         this._applyFilters();
     }
 
-    show(): void {
+    /**
+     * @param title - Dialog title, default "Symbol Search" (e.g. "Compare symbol")
+     * @param allowSynthetic - List typed expressions as synthetic symbols; only
+     * comparisons load them, through a SyntheticCandleProvider
+     */
+    show(title: string = t('Symbol Search'), allowSynthetic: boolean = false): void {
+        if (this._title) this._title.textContent = title;
+        this._allowSynthetic = allowSynthetic;
         if (this._overlay) {
             this._overlay.style.display = 'flex';
             this._searchInput?.focus();
@@ -253,10 +273,18 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['BINANCE'],
                 logo_color: this._getRandomColor(s.baseAsset),
-                provider: 'binance'
+                provider: 'binance',
+                ...this._binanceMetadata(s)
             }));
     }
 
+    private _binanceMetadata(s: any): SymbolMetadata | null {
+        const filters: any[] = s.filters ?? [];
+        const priceFilter = filters.find(f => f.filterType === 'PRICE_FILTER');
+        const lotSize = filters.find(f => f.filterType === 'LOT_SIZE');
+        return priceFilter ? createSymbolMetadata(priceFilter.tickSize, lotSize?.stepSize ?? 1) : null;
+    }
+
     private async _fetchBinanceFuturesSymbols(): Promise<SymbolInfo[]> {
         const response = await fetch('https://fapi.binance.com/fapi/v1/exchangeInfo');
         if (!response.ok) throw new Error('Binance Futures API error');
@@ -272,7 +300,8 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['BINANCE-FUTURES'],
                 logo_color: this._getRandomColor(s.baseAsset),
-                provider: 'binance-futures'
+                provider: 'binance-futures',
+                ...this._binanceMetadata(s)
             }));
     }
 
@@ -297,7 +326,8 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['OKX'],
                 logo_color: this._getRandomColor(s.baseCcy),
-                provider: 'okx'
+                provider: 'okx',
+                ...createSymbolMetadata(s.tickSz, s.lotSz)
             }));
     }
 
@@ -318,7 +348,8 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['OKX-FUTURES'],
                 logo_color: this._getRandomColor(s.ctValCcy),
-                provider: 'okx-futures'
+                provider: 'okx-futures',
+                ...createSymbolMetadata(s.tickSz, s.lotSz)
             }));
     }
 
@@ -343,7 +374,8 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['BYBIT'],
                 logo_color: this._getRandomColor(s.baseCoin),
-                provider: 'bybit'
+                provider: 'bybit',
+                ...createSymbolMetadata(s.priceFilter?.tickSize, s.lotSizeFilter?.basePrecision ?? 1)
             }));
     }
 
@@ -364,7 +396,8 @@ export class SymbolSearch {
                 type: 'crypto',
                 logo_url: SymbolSearch.EXCHANGE_LOGOS['BYBIT-FUTURES'],
                 logo_color: this._getRandomColor(s.baseCoin),
-                provider: 'bybit-futures'
+                provider: 'bybit-futures',
+                ...createSymbolMetadata(s.priceFilter?.tickSize, s.lotSizeFilter?.qtyStep ?? 1)
             }));
     }
 
@@ -478,6 +511,7 @@ export class SymbolSearch {
             color: #d1d4dc;
         `;
         header.appendChild(title);
+        this._title = title;
 
         const closeBtn = document.createElement('button');
         closeBtn.innerHTML = '×';
@@ -531,6 +565,11 @@ export class SymbolSearch {
             font-family: inherit;
         `;
         this._searchInput.addEventListener('input', () => this._applyFilters());
+        this._searchInput.addEventListener('keydown', (e) => {
+            if (e.key !== 'Enter' || this._listed.length === 0) return;
+            this._symbolSelected.fire(this._listed[0]);
+            this.hide();
+        });
         searchRow.appendChild(this._searchInput);
 
         this._dialog!.appendChild(searchRow);
@@ -798,6 +837,13 @@ export class SymbolSearch {
     private _applyFilters(): void {
         const query = this._searchInput?.value.toLowerCase() || '';
 
+        // An expression lists the synthetic symbol only, it matches no instrument
+        const synthetic = this._createSyntheticSymbol(this._searchInput?.value || '');
+        if (synthetic) {
+            this._renderList([synthetic]);
+            return;
+        }
+
         let filtered = this._symbols;
 
         // Category filter
@@ -822,7 +868,33 @@ export class SymbolSearch {
         this._renderList(filtered);
     }
 
+    /**
+     * Symbol for a typed expression, listed with the exchange and provider of
+     * its first component so the app loads the components from the same place
+     */
+    private _createSyntheticSymbol(query: string): SymbolInfo | null {
+        if (!this._allowSynthetic) return null;
+        const synthetic = parseSyntheticSymbol(query);
+        if (!synthetic) return null;
+
+        const first = synthetic.components[0];
+        const component = this._symbols.find(s =>
+            s.symbol === first && (this._cryptoExchange === 'all' || s.exchange === this._cryptoExchange)
+        );
+
+        return {
+            symbol: synthetic.expression,
+            full_name: synthetic.expression,
+            description: t('Synthetic'),
+            exchange: component?.exchange ?? 'SYNTHETIC',
+            type: component?.type ?? 'all',
+            logo_color: '#2962ff',
+            provider: component?.provider,
+        };
+    }
+
     private _renderList(symbols: SymbolInfo[]): void {
+        this._listed = symbols;
         if (!this._listContainer) return;
         this._listContainer.innerHTML = '';
 
@@ -1,4 +1,5 @@
 import { TimeScale } from '../model/time-scale';
+import { localTimeZone, toZonedTime } from '../helpers/timezone';
 
 /** Disposable interface for cleanup */
 interface Disposable {
@@ -35,6 +36,7 @@ export class TimeAxisWidget implements Disposable {
     private _canvas: HTMLCanvasElement | null = null;
     private _ctx: CanvasRenderingContext2D | null = null;
     private _width: number = 0;
+    private _timeZone: string = localTimeZone();
 
     constructor(
         container: HTMLElement,
@@ -74,6 +76,13 @@ export class TimeAxisWidget implements Disposable {
         }
     }
 
+    /**
+     * IANA time zone labels are shown in
+     */
+    setTimeZone(timeZone: string): void {
+        this._timeZone = timeZone;
+    }
+
     updateTimestamps(timestamps: number[]): void {
         (this as any)._timestamps = timestamps;
     }
@@ -196,8 +205,15 @@ export class TimeAxisWidget implements Disposable {
         this._ctx = null;
     }
 
+    /**
+     * Wall clock of the time zone, read with the getUTC* methods
+     */
+    private _zonedDate(timestamp: number): Date {
+        return new Date(toZonedTime(timestamp, this._timeZone));
+    }
+
     private _formatTime(timestamp: number, index: number): string {
-        const date = new Date(timestamp);
+        const date = this._zonedDate(timestamp);
 
         // Check if this is a new day (compare with previous bar)
         const prevTimestamp = index > 0 ? this._timestamps[index - 1] : null;
@@ -223,50 +239,50 @@ export class TimeAxisWidget implements Disposable {
 
     private _isDayChange(current: number, previous: number | null): boolean {
         if (previous === null) return true;
-        const currentDate = new Date(current);
-        const prevDate = new Date(previous);
-        return currentDate.getDate() !== prevDate.getDate() ||
-            currentDate.getMonth() !== prevDate.getMonth() ||
-            currentDate.getFullYear() !== prevDate.getFullYear();
+        const currentDate = this._zonedDate(current);
+        const prevDate = this._zonedDate(previous);
+        return currentDate.getUTCDate() !== prevDate.getUTCDate() ||
+            currentDate.getUTCMonth() !== prevDate.getUTCMonth() ||
+            currentDate.getUTCFullYear() !== prevDate.getUTCFullYear();
     }
 
     private _isMonthChange(current: number, previous: number | null): boolean {
         if (previous === null) return true;
-        const currentDate = new Date(current);
-        const prevDate = new Date(previous);
-        return currentDate.getMonth() !== prevDate.getMonth() ||
-            currentDate.getFullYear() !== prevDate.getFullYear();
+        const currentDate = this._zonedDate(current);
+        const prevDate = this._zonedDate(previous);
+        return currentDate.getUTCMonth() !== prevDate.getUTCMonth() ||
+            currentDate.getUTCFullYear() !== prevDate.getUTCFullYear();
     }
 
     private _isYearChange(current: number, previous: number | null): boolean {
         if (previous === null) return true;
-        const currentDate = new Date(current);
-        const prevDate = new Date(previous);
-        return currentDate.getFullYear() !== prevDate.getFullYear();
+        const currentDate = this._zonedDate(current);
+        const prevDate = this._zonedDate(previous);
+        return currentDate.getUTCFullYear() !== prevDate.getUTCFullYear();
     }
 
     private _formatFullDate(date: Date): string {
-        const day = date.getDate();
-        const month = this._getMonthShort(date.getMonth());
-        const year = date.getFullYear().toString().slice(-2);
+        const day = date.getUTCDate();
+        const month = this._getMonthShort(date.getUTCMonth());
+        const year = date.getUTCFullYear().toString().slice(-2);
         return `${day} ${month} '${year}`;
     }
 
     private _formatMonthDay(date: Date): string {
-        const day = date.getDate();
-        const month = this._getMonthShort(date.getMonth());
+        const day = date.getUTCDate();
+        const month = this._getMonthShort(date.getUTCMonth());
         return `${day} ${month}`;
     }
 
     private _formatDayOnly(date: Date): string {
-        const day = date.getDate();
-        const month = this._getMonthShort(date.getMonth());
+        const day = date.getUTCDate();
+        const month = this._getMonthShort(date.getUTCMonth());
         return `${day} ${month}`;
     }
 
     private _formatTimeOnly(date: Date): string {
-        const hours = date.getHours().toString().padStart(2, '0');
-        const minutes = date.getMinutes().toString().padStart(2, '0');
+        const hours = date.getUTCHours().toString().padStart(2, '0');
+        const minutes = date.getUTCMinutes().toString().padStart(2, '0');
         return `${hours}:${minutes}`;
     }
 
@@ -277,12 +293,12 @@ export class TimeAxisWidget implements Disposable {
     }
 
     private _formatCrosshairTime(timestamp: number): string {
-        const date = new Date(timestamp);
-        const day = date.getDate();
-        const month = this._getMonthShort(date.getMonth());
-        const year = date.getFullYear();
-        const hours = date.getHours().toString().padStart(2, '0');
-        const minutes = date.getMinutes().toString().padStart(2, '0');
+        const date = this._zonedDate(timestamp);
+        const day = date.getUTCDate();
+        const month = this._getMonthShort(date.getUTCMonth());
+        const year = date.getUTCFullYear();
+        const hours = date.getUTCHours().toString().padStart(2, '0');
+        const minutes = date.getUTCMinutes().toString().padStart(2, '0');
         return `${day} ${month} ${year}, ${hours}:${minutes}`;
     }
 
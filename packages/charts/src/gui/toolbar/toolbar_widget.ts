@@ -4,6 +4,7 @@
 
 import { Delegate } from '../../helpers/delegate';
 import { t } from '../../helpers/translations';
+import { normalizeTimeframe } from '../../helpers/timeframe';
 
 // SVG Icons for toolbar
 const TOOLBAR_ICONS = {
@@ -22,9 +23,40 @@ const TOOLBAR_ICONS = {
         <path d="M9 2v6M9 12v1" stroke-linecap="round"/>
         <circle cx="9" cy="9" r="7"/>
     </svg>`,
+    replay: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M8.5 4 3.5 9l5 5"/>
+        <path d="M14.5 4 9.5 9l5 5"/>
+    </svg>`,
+    trading: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round">
+        <path d="M2 9h14"/>
+        <path d="M2 4.5h6M2 13.5h9" stroke-dasharray="2 2"/>
+        <path d="M13 2.5l2.5 2-2.5 2"/>
+    </svg>`,
+    undo: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M6 4 3 7l3 3"/>
+        <path d="M3 7h8a4 4 0 0 1 0 8H8"/>
+    </svg>`,
+    redo: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+        <path d="m12 4 3 3-3 3"/>
+        <path d="M15 7H7a4 4 0 0 0 0 8h3"/>
+    </svg>`,
+    objectTree: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round">
+        <path d="M3 3h4M5 7h10M5 11h10M5 15h10"/>
+        <path d="M3 5v8h2M3 15V13"/>
+    </svg>`,
     dropdown: `<svg width="10" height="10" viewBox="0 0 10 10" fill="currentColor">
         <path d="M2 3.5L5 6.5L8 3.5" stroke="currentColor" stroke-width="1.5" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
     </svg>`,
+    settings: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28" width="18" height="18" fill="none" stroke="currentColor">
+        <circle cx="14" cy="14" r="3"/>
+        <path d="M14 4.5v3M14 20.5v3M4.5 14h3M20.5 14h3M7.3 7.3l2.1 2.1M18.6 18.6l2.1 2.1M7.3 20.7l2.1-2.1M18.6 9.4l2.1-2.1"/>
+    </svg>`,
+    liquidations: `<svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round">
+        <path d="M2 4h6M10 4h6" opacity="0.4"/>
+        <path d="M2 7.5h9" opacity="0.7"/>
+        <path d="M4 11h12"/>
+        <path d="M2 14.5h5M9 14.5h4" opacity="0.5"/>
+    </svg>`,
     dom: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28" width="18" height="18" fill="currentColor">
         <rect x="4" y="4" width="8" height="2" rx="0.5" opacity="0.3"/>
         <rect x="4" y="8" width="12" height="2" rx="0.5" opacity="0.5"/>
@@ -35,7 +67,49 @@ const TOOLBAR_ICONS = {
     </svg>`,
 };
 
-export type ChartType = 'candles' | 'line' | 'area' | 'heiken-ashi';
+export type ChartType =
+    | 'candles' | 'line' | 'area' | 'heiken-ashi'
+    | 'bars' | 'hollow-candles' | 'baseline' | 'step-line' | 'columns' | 'hlc-area'
+    | 'renko' | 'range' | 'kagi' | 'point-figure' | 'line-break'
+    | 'footprint';
+
+export type PriceScaleModeType = 'normal' | 'logarithmic' | 'percentage' | 'indexed';
+
+export interface ChartTypeGroup {
+    label: string;
+    types: { type: ChartType; label: string }[];
+}
+
+/** Chart types without a toolbar button, offered in the chart type dropdown */
+export const MORE_CHART_TYPES: ChartTypeGroup[] = [
+    {
+        label: 'Bar styles',
+        types: [
+            { type: 'bars', label: 'Bars' },
+            { type: 'hollow-candles', label: 'Hollow Candles' },
+            { type: 'baseline', label: 'Baseline' },
+            { type: 'step-line', label: 'Step Line' },
+            { type: 'columns', label: 'Columns' },
+            { type: 'hlc-area', label: 'HLC Area' },
+        ],
+    },
+    {
+        label: 'Non-time-based',
+        types: [
+            { type: 'renko', label: 'Renko' },
+            { type: 'range', label: 'Range' },
+            { type: 'kagi', label: 'Kagi' },
+            { type: 'point-figure', label: 'Point & Figure' },
+            { type: 'line-break', label: 'Line Break' },
+        ],
+    },
+    {
+        label: 'Order flow',
+        types: [
+            { type: 'footprint', label: 'Footprint' },
+        ],
+    },
+];
 
 export interface ToolbarOptions {
     symbol?: string;
@@ -43,7 +117,7 @@ export interface ToolbarOptions {
     chartType?: ChartType;
     timeframes?: string[];
     locale?: string;
-    priceScaleMode?: 'normal' | 'logarithmic';
+    priceScaleMode?: PriceScaleModeType;
 }
 
 const defaultToolbarOptions: ToolbarOptions = {
@@ -63,18 +137,29 @@ export class ToolbarWidget {
     private _options: ToolbarOptions;
     private _activeTimeframe: string;
     private _activeChartType: ChartType;
-    private _activePriceScaleMode: 'normal' | 'logarithmic';
+    private _activePriceScaleMode: PriceScaleModeType;
 
     // Events
     private readonly _symbolClicked = new Delegate<void>();
+    private readonly _compareClicked = new Delegate<void>();
     private readonly _timeframeChanged = new Delegate<string>();
     private readonly _chartTypeChanged = new Delegate<ChartType>();
+    private readonly _chartSettingsClicked = new Delegate<void>();
     private readonly _indicatorsClicked = new Delegate<void>();
+    private readonly _alertsClicked = new Delegate<void>();
+    private readonly _objectTreeClicked = new Delegate<void>();
+    private readonly _replayClicked = new Delegate<void>();
+    private readonly _tradingClicked = new Delegate<void>();
     private readonly _domToggled = new Delegate<boolean>();
+    private readonly _liquidationsClicked = new Delegate<void>();
     private readonly _languageChanged = new Delegate<string>();
     private readonly _themeToggled = new Delegate<'dark' | 'light'>();
-    private readonly _priceScaleModeChanged = new Delegate<'normal' | 'logarithmic'>();
+    private readonly _priceScaleModeChanged = new Delegate<PriceScaleModeType>();
+    private readonly _undoClicked = new Delegate<void>();
+    private readonly _redoClicked = new Delegate<void>();
     private _domEnabled: boolean = false;
+    private _replayActive: boolean = false;
+    private _tradingActive: boolean = false;
     private _currentTheme: 'dark' | 'light' = 'dark';
 
     constructor(container: HTMLElement, options: Partial<ToolbarOptions> = {}) {
@@ -99,6 +184,10 @@ export class ToolbarWidget {
         return this._symbolClicked;
     }
 
+    get compareClicked(): Delegate<void> {
+        return this._compareClicked;
+    }
+
     get timeframeChanged(): Delegate<string> {
         return this._timeframeChanged;
     }
@@ -107,14 +196,38 @@ export class ToolbarWidget {
         return this._chartTypeChanged;
     }
 
+    get chartSettingsClicked(): Delegate<void> {
+        return this._chartSettingsClicked;
+    }
+
     get indicatorsClicked(): Delegate<void> {
         return this._indicatorsClicked;
     }
 
+    get alertsClicked(): Delegate<void> {
+        return this._alertsClicked;
+    }
+
+    get objectTreeClicked(): Delegate<void> {
+        return this._objectTreeClicked;
+    }
+
+    get replayClicked(): Delegate<void> {
+        return this._replayClicked;
+    }
+
+    get tradingClicked(): Delegate<void> {
+        return this._tradingClicked;
+    }
+
     get domToggled(): Delegate<boolean> {
         return this._domToggled;
     }
 
+    get liquidationsClicked(): Delegate<void> {
+        return this._liquidationsClicked;
+    }
+
     get languageChanged(): Delegate<string> {
         return this._languageChanged;
     }
@@ -123,10 +236,18 @@ export class ToolbarWidget {
         return this._themeToggled;
     }
 
-    get priceScaleModeChanged(): Delegate<'normal' | 'logarithmic'> {
+    get priceScaleModeChanged(): Delegate<PriceScaleModeType> {
         return this._priceScaleModeChanged;
     }
 
+    get undoClicked(): Delegate<void> {
+        return this._undoClicked;
+    }
+
+    get redoClicked(): Delegate<void> {
+        return this._redoClicked;
+    }
+
     get domEnabled(): boolean {
         return this._domEnabled;
     }
@@ -141,13 +262,57 @@ export class ToolbarWidget {
         }
     }
 
+    /** Highlight the replay button while bar replay is running or a start bar is being picked */
+    setReplayActive(active: boolean): void {
+        this._replayActive = active;
+        const btn = this._element?.querySelector('.toolbar-replay') as HTMLElement | null;
+        if (btn) {
+            btn.style.background = active ? 'rgba(41, 98, 255, 0.15)' : 'transparent';
+            btn.style.color = active ? '#2962ff' : '#787b86';
+        }
+    }
+
+    /** Highlight the trading button while the account panel is open */
+    setTradingActive(active: boolean): void {
+        this._tradingActive = active;
+        const btn = this._element?.querySelector('.toolbar-trading') as HTMLElement | null;
+        if (btn) {
+            btn.style.background = active ? 'rgba(41, 98, 255, 0.15)' : 'transparent';
+            btn.style.color = active ? '#2962ff' : '#787b86';
+        }
+    }
+
+    /**
+     * Enable the undo/redo buttons and name the edit they revert or re-apply
+     */
+    setHistoryState(canUndo: boolean, canRedo: boolean, undoLabel: string | null, redoLabel: string | null): void {
+        this._updateHistoryButton('.toolbar-undo', canUndo, t('Undo'), undoLabel);
+        this._updateHistoryButton('.toolbar-redo', canRedo, t('Redo'), redoLabel);
+    }
+
     setTimeframe(timeframe: string): void {
         if (this._activeTimeframe === timeframe) return;
         this._activeTimeframe = timeframe;
+        this.addTimeframe(timeframe);
         this._updateTimeframeButtons();
         this._timeframeChanged.fire(timeframe);
     }
 
+    /**
+     * Add a timeframe button (e.g. a custom '45m' or '2D') if it isn't listed yet
+     */
+    addTimeframe(timeframe: string): void {
+        if (this._options.timeframes!.includes(timeframe)) return;
+        this._options.timeframes!.push(timeframe);
+
+        const container = this._element?.querySelector('.toolbar-timeframes');
+        const addButton = container?.querySelector('.toolbar-timeframe-add');
+        if (container) {
+            container.insertBefore(this._createTimeframeButton(timeframe), addButton ?? null);
+            this._updateTimeframeButtons();
+        }
+    }
+
     setChartType(type: ChartType): void {
         if (this._activeChartType === type) return;
         this._activeChartType = type;
@@ -155,7 +320,7 @@ export class ToolbarWidget {
         this._chartTypeChanged.fire(type);
     }
 
-    setPriceScaleMode(mode: 'normal' | 'logarithmic'): void {
+    setPriceScaleMode(mode: PriceScaleModeType): void {
         if (this._activePriceScaleMode === mode) return;
         this._activePriceScaleMode = mode;
         this._updatePriceScaleButtons();
@@ -183,6 +348,9 @@ export class ToolbarWidget {
         // Symbol section
         this._createSymbolSection();
 
+        // Compare symbol button
+        this._createCompareButton();
+
         // Separator
         this._createSeparator();
 
@@ -204,12 +372,33 @@ export class ToolbarWidget {
         // Separator
         this._createSeparator();
 
+        // Undo / redo buttons
+        this._createHistoryButtons();
+
+        // Separator
+        this._createSeparator();
+
         // Indicators button
         this._createIndicatorsButton();
 
+        // Alerts button
+        this._createAlertsButton();
+
+        // Object tree button
+        this._createObjectTreeButton();
+
+        // Bar replay button
+        this._createReplayButton();
+
+        // Paper trading button
+        this._createTradingButton();
+
         // DOM (Orderbook) toggle button
         this._createDomButton();
 
+        // Liquidation heatmap settings
+        this._createLiquidationsButton();
+
         // Language Selector
         this._createLanguageSelector();
 
@@ -279,6 +468,38 @@ export class ToolbarWidget {
         this._element!.appendChild(symbolSection);
     }
 
+    private _createCompareButton(): void {
+        const btn = document.createElement('button');
+        btn.className = 'toolbar-compare';
+        btn.title = t('Compare or Add Symbol');
+        btn.style.cssText = `
+            display: flex;
+            align-items: center;
+            padding: 6px;
+            background: transparent;
+            border: none;
+            border-radius: 4px;
+            color: #787b86;
+            cursor: pointer;
+            transition: background 0.15s, color 0.15s;
+        `;
+        btn.innerHTML = TOOLBAR_ICONS.compare;
+
+        btn.addEventListener('mouseenter', () => {
+            btn.style.background = '#2a2e39';
+            btn.style.color = '#d1d4dc';
+        });
+        btn.addEventListener('mouseleave', () => {
+            btn.style.background = 'transparent';
+            btn.style.color = '#787b86';
+        });
+        btn.addEventListener('click', () => {
+            this._compareClicked.fire();
+        });
+
+        this._element!.appendChild(btn);
+    }
+
     private _createSeparator(): void {
         const separator = document.createElement('div');
         separator.style.cssText = `
@@ -299,20 +520,83 @@ export class ToolbarWidget {
             gap: 2px;
         `;
 
+        // Keep a custom initial timeframe selectable
+        if (!this._options.timeframes!.includes(this._activeTimeframe)) {
+            this._options.timeframes = [...this._options.timeframes!, this._activeTimeframe];
+        }
+
         this._options.timeframes!.forEach(tf => {
-            const isActive = tf === this._activeTimeframe;
-            const btn = this._createButton(t(tf), isActive);
-            btn.dataset.timeframe = tf;
-            btn.dataset.active = isActive.toString();
-            btn.addEventListener('click', () => {
-                this.setTimeframe(tf);
-            });
-            container.appendChild(btn);
+            container.appendChild(this._createTimeframeButton(tf));
+        });
+
+        // Custom timeframe entry
+        const addBtn = this._createButton('+');
+        addBtn.className = 'toolbar-timeframe-add';
+        addBtn.title = t('Add custom interval');
+        addBtn.addEventListener('click', () => {
+            this._showCustomTimeframeInput(container, addBtn);
         });
+        container.appendChild(addBtn);
 
         this._element!.appendChild(container);
     }
 
+    private _createTimeframeButton(tf: string): HTMLButtonElement {
+        const isActive = tf === this._activeTimeframe;
+        const btn = this._createButton(t(tf), isActive);
+        btn.dataset.timeframe = tf;
+        btn.dataset.active = isActive.toString();
+        btn.addEventListener('click', () => {
+            this.setTimeframe(tf);
+        });
+        return btn;
+    }
+
+    private _showCustomTimeframeInput(container: HTMLElement, addBtn: HTMLButtonElement): void {
+        if (container.querySelector('.toolbar-timeframe-input')) return;
+
+        const isDark = this._currentTheme === 'dark';
+        const input = document.createElement('input');
+        input.className = 'toolbar-timeframe-input';
+        input.placeholder = '45m, 3h, 2D';
+        input.style.cssText = `
+            width: 72px;
+            padding: 3px 6px;
+            background: ${isDark ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.05)'};
+            border: 1px solid ${isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)'};
+            border-radius: 4px;
+            color: ${isDark ? '#d1d4dc' : '#131722'};
+            font-size: 12px;
+            outline: none;
+        `;
+
+        const close = () => input.remove();
+
+        input.addEventListener('keydown', (e) => {
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                close();
+                return;
+            }
+            if (e.key !== 'Enter') return;
+
+            const timeframe = normalizeTimeframe(input.value);
+            if (!timeframe) {
+                input.style.borderColor = '#ef5350';
+                return;
+            }
+
+            // Reuse an existing button for equivalent spellings ('1d' -> 'D')
+            const existing = this._options.timeframes!.find(tf => normalizeTimeframe(tf) === timeframe);
+            close();
+            this.setTimeframe(existing ?? timeframe);
+        });
+        input.addEventListener('blur', close);
+
+        container.insertBefore(input, addBtn);
+        input.focus();
+    }
+
     private _createChartTypeButtons(): void {
         const container = document.createElement('div');
         container.className = 'toolbar-chart-types';
@@ -344,9 +628,70 @@ export class ToolbarWidget {
             container.appendChild(btn);
         });
 
+        container.appendChild(this._createMoreChartTypesSelect());
+
+        const settingsBtn = this._createIconButton(TOOLBAR_ICONS.settings, false, t('Symbol settings'));
+        settingsBtn.classList.add('toolbar-chart-settings');
+        settingsBtn.addEventListener('click', () => {
+            this._chartSettingsClicked.fire();
+        });
+        container.appendChild(settingsBtn);
+
         this._element!.appendChild(container);
     }
 
+    private _createMoreChartTypesSelect(): HTMLSelectElement {
+        const isDark = this._currentTheme === 'dark';
+
+        const select = document.createElement('select');
+        select.className = 'toolbar-chart-type-select';
+        select.title = t('More chart types');
+        select.style.cssText = `
+            background: transparent;
+            border: 1px solid ${isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)'};
+            color: #787b86;
+            border-radius: 4px;
+            padding: 4px;
+            font-size: 12px;
+            outline: none;
+            cursor: pointer;
+        `;
+
+        const placeholder = document.createElement('option');
+        placeholder.value = '';
+        placeholder.textContent = t('More');
+        placeholder.disabled = true;
+        select.appendChild(placeholder);
+
+        MORE_CHART_TYPES.forEach(group => {
+            const optgroup = document.createElement('optgroup');
+            optgroup.label = t(group.label);
+            group.types.forEach(({ type, label }) => {
+                const opt = document.createElement('option');
+                opt.value = type;
+                opt.textContent = t(label);
+                optgroup.appendChild(opt);
+            });
+            select.appendChild(optgroup);
+        });
+
+        select.addEventListener('change', () => {
+            if (select.value) {
+                this.setChartType(select.value as ChartType);
+            }
+        });
+
+        this._syncMoreChartTypesSelect(select);
+        return select;
+    }
+
+    private _syncMoreChartTypesSelect(select: HTMLSelectElement): void {
+        const isActive = MORE_CHART_TYPES.some(group => group.types.some(({ type }) => type === this._activeChartType));
+        select.value = isActive ? this._activeChartType : '';
+        select.style.background = isActive ? '#2962ff' : 'transparent';
+        select.style.color = isActive ? '#fff' : '#787b86';
+    }
+
     private _createPriceScaleButtons(): void {
         const container = document.createElement('div');
         container.className = 'toolbar-price-scale-modes';
@@ -356,9 +701,11 @@ export class ToolbarWidget {
             gap: 2px;
         `;
 
-        const modes: { mode: 'normal' | 'logarithmic'; label: string; title: string }[] = [
+        const modes: { mode: PriceScaleModeType; label: string; title: string }[] = [
             { mode: 'normal', label: 'LIN', title: t('Linear scale') },
             { mode: 'logarithmic', label: 'LOG', title: t('Logarithmic scale') },
+            { mode: 'percentage', label: '%', title: t('Percentage scale') },
+            { mode: 'indexed', label: 'IDX', title: t('Indexed to 100 scale') },
         ];
 
         modes.forEach(({ mode, label, title }) => {
@@ -417,6 +764,150 @@ export class ToolbarWidget {
         this._element!.appendChild(btn);
     }
 
+    private _createAlertsButton(): void {
+        const btn = document.createElement('button');
+        btn.className = 'toolbar-alerts';
+        btn.title = t('Alerts');
+        btn.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 12px;
+            background: transparent;
+            border: none;
+            border-radius: 4px;
+            color: #787b86;
+            font-size: 13px;
+            cursor: pointer;
+            transition: background 0.15s, color 0.15s;
+        `;
+
+        const icon = document.createElement('span');
+        icon.innerHTML = TOOLBAR_ICONS.alert;
+        icon.style.display = 'flex';
+        btn.appendChild(icon);
+
+        const label = document.createElement('span');
+        label.textContent = t('Alert');
+        btn.appendChild(label);
+
+        btn.addEventListener('mouseenter', () => {
+            btn.style.background = '#2a2e39';
+            btn.style.color = '#d1d4dc';
+        });
+        btn.addEventListener('mouseleave', () => {
+            btn.style.background = 'transparent';
+            btn.style.color = '#787b86';
+        });
+        btn.addEventListener('click', () => {
+            this._alertsClicked.fire();
+        });
+
+        this._element!.appendChild(btn);
+    }
+
+    private _createObjectTreeButton(): void {
+        const btn = this._createIconButton(TOOLBAR_ICONS.objectTree, false, t('Object tree'));
+        btn.className = 'toolbar-object-tree';
+        btn.addEventListener('click', () => this._objectTreeClicked.fire());
+        this._element!.appendChild(btn);
+    }
+
+    private _createLiquidationsButton(): void {
+        const btn = this._createIconButton(TOOLBAR_ICONS.liquidations, false, t('Liquidation heatmap'));
+        btn.className = 'toolbar-liquidations';
+        btn.addEventListener('click', () => this._liquidationsClicked.fire());
+        this._element!.appendChild(btn);
+    }
+
+    private _createReplayButton(): void {
+        const btn = document.createElement('button');
+        btn.className = 'toolbar-replay';
+        btn.title = t('Bar Replay');
+        btn.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 12px;
+            background: transparent;
+            border: none;
+            border-radius: 4px;
+            color: #787b86;
+            font-size: 13px;
+            cursor: pointer;
+            transition: background 0.15s, color 0.15s;
+        `;
+
+        const icon = document.createElement('span');
+        icon.innerHTML = TOOLBAR_ICONS.replay;
+        icon.style.display = 'flex';
+        btn.appendChild(icon);
+
+        const label = document.createElement('span');
+        label.textContent = t('Replay');
+        btn.appendChild(label);
+
+        btn.addEventListener('mouseenter', () => {
+            if (!this._replayActive) {
+                btn.style.background = '#2a2e39';
+                btn.style.color = '#d1d4dc';
+            }
+        });
+        btn.addEventListener('mouseleave', () => {
+            btn.style.background = this._replayActive ? 'rgba(41, 98, 255, 0.15)' : 'transparent';
+            btn.style.color = this._replayActive ? '#2962ff' : '#787b86';
+        });
+        btn.addEventListener('click', () => {
+            this._replayClicked.fire();
+        });
+
+        this._element!.appendChild(btn);
+    }
+
+    private _createTradingButton(): void {
+        const btn = document.createElement('button');
+        btn.className = 'toolbar-trading';
+        btn.title = t('Paper Trading');
+        btn.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 12px;
+            background: transparent;
+            border: none;
+            border-radius: 4px;
+            color: #787b86;
+            font-size: 13px;
+            cursor: pointer;
+            transition: background 0.15s, color 0.15s;
+        `;
+
+        const icon = document.createElement('span');
+        icon.innerHTML = TOOLBAR_ICONS.trading;
+        icon.style.display = 'flex';
+        btn.appendChild(icon);
+
+        const label = document.createElement('span');
+        label.textContent = t('Trading');
+        btn.appendChild(label);
+
+        btn.addEventListener('mouseenter', () => {
+            if (!this._tradingActive) {
+                btn.style.background = '#2a2e39';
+                btn.style.color = '#d1d4dc';
+            }
+        });
+        btn.addEventListener('mouseleave', () => {
+            btn.style.background = this._tradingActive ? 'rgba(41, 98, 255, 0.15)' : 'transparent';
+            btn.style.color = this._tradingActive ? '#2962ff' : '#787b86';
+        });
+        btn.addEventListener('click', () => {
+            this._tradingClicked.fire();
+        });
+
+        this._element!.appendChild(btn);
+    }
+
     private _createDomButton(): void {
         const btn = document.createElement('button');
         btn.className = 'toolbar-dom';
@@ -600,6 +1091,29 @@ export class ToolbarWidget {
         return btn;
     }
 
+    private _createHistoryButtons(): void {
+        const undoBtn = this._createIconButton(TOOLBAR_ICONS.undo, false, t('Undo'));
+        undoBtn.className = 'toolbar-undo';
+        undoBtn.addEventListener('click', () => this._undoClicked.fire());
+
+        const redoBtn = this._createIconButton(TOOLBAR_ICONS.redo, false, t('Redo'));
+        redoBtn.className = 'toolbar-redo';
+        redoBtn.addEventListener('click', () => this._redoClicked.fire());
+
+        this._element!.appendChild(undoBtn);
+        this._element!.appendChild(redoBtn);
+        this.setHistoryState(false, false, null, null);
+    }
+
+    private _updateHistoryButton(selector: string, enabled: boolean, action: string, label: string | null): void {
+        const btn = this._element?.querySelector(selector) as HTMLButtonElement | null;
+        if (!btn) return;
+        btn.disabled = !enabled;
+        btn.style.opacity = enabled ? '1' : '0.4';
+        btn.style.cursor = enabled ? 'pointer' : 'default';
+        btn.title = label ? `${action} ${t(label)}` : action;
+    }
+
     private _createIconButton(icon: string, active: boolean = false, title: string = ''): HTMLButtonElement {
         const btn = document.createElement('button');
         btn.innerHTML = icon;
@@ -642,7 +1156,7 @@ export class ToolbarWidget {
     }
 
     private _updateTimeframeButtons(): void {
-        const buttons = this._element?.querySelectorAll('.toolbar-timeframes button');
+        const buttons = this._element?.querySelectorAll('.toolbar-timeframes button[data-timeframe]');
         buttons?.forEach(btn => {
             const htmlBtn = btn as HTMLButtonElement;
             const isActive = htmlBtn.dataset.timeframe === this._activeTimeframe;
@@ -654,7 +1168,12 @@ export class ToolbarWidget {
     }
 
     private _updateChartTypeButtons(): void {
-        const buttons = this._element?.querySelectorAll('.toolbar-chart-types button');
+        const select = this._element?.querySelector('.toolbar-chart-type-select') as HTMLSelectElement | null;
+        if (select) {
+            this._syncMoreChartTypesSelect(select);
+        }
+
+        const buttons = this._element?.querySelectorAll('.toolbar-chart-types button[data-chart-type]');
         buttons?.forEach(btn => {
             const htmlBtn = btn as HTMLButtonElement;
             const isActive = htmlBtn.dataset.chartType === this._activeChartType;
@@ -734,13 +1253,22 @@ export class ToolbarWidget {
 
     dispose(): void {
         this._symbolClicked.destroy();
+        this._compareClicked.destroy();
         this._timeframeChanged.destroy();
         this._chartTypeChanged.destroy();
+        this._chartSettingsClicked.destroy();
         this._indicatorsClicked.destroy();
+        this._alertsClicked.destroy();
+        this._objectTreeClicked.destroy();
+        this._replayClicked.destroy();
+        this._tradingClicked.destroy();
         this._domToggled.destroy();
+        this._liquidationsClicked.destroy();
         this._languageChanged.destroy();
         this._themeToggled.destroy();
         this._priceScaleModeChanged.destroy();
+        this._undoClicked.destroy();
+        this._redoClicked.destroy();
 
         if (this._element && this._element.parentNode) {
             this._element.parentNode.removeChild(this._element);
@@ -0,0 +1,530 @@
+/**
+ * Account Panel - paper trading account, order ticket, positions and orders,
+ * docked over the bottom of the chart
+ */
+
+import { IBroker, Order, OrderRequest, OrderSide, isOpenOrder } from '../../trading/broker';
+import { Delegate } from '../../helpers/delegate';
+import { t } from '../../helpers/translations';
+
+type TicketType = 'market' | 'limit' | 'stop' | 'oco';
+
+const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
+
+const BUY_COLOR = '#2962ff';
+const SELL_COLOR = '#f23645';
+const PROFIT_COLOR = '#089981';
+const LOSS_COLOR = '#f23645';
+
+const FIELD_STYLE = `
+    width: 100%;
+    box-sizing: border-box;
+    background: #f0f3fa;
+    border: 1px solid transparent;
+    border-radius: 6px;
+    padding: 5px 8px;
+    font-size: 13px;
+    color: #131722;
+    outline: none;
+`;
+
+const CELL_STYLE = `padding: 4px 8px; text-align: left; white-space: nowrap;`;
+
+export class AccountPanel {
+    private _element: HTMLElement | null = null;
+    private _summary: HTMLElement | null = null;
+    private _positions: HTMLElement | null = null;
+    private _orders: HTMLElement | null = null;
+    private _error: HTMLElement | null = null;
+    private _visible: boolean = false;
+    private _side: OrderSide = 'buy';
+
+    private readonly _visibilityChanged = new Delegate<boolean>();
+
+    private readonly _onAccountChanged = () => this._renderSummary();
+    private readonly _onPositionsChanged = () => this._renderPositions();
+    private readonly _onOrdersChanged = () => this._renderOrders();
+
+    constructor(
+        private readonly _container: HTMLElement,
+        private readonly _broker: IBroker,
+        private readonly _getSymbol: () => string,
+        /** Prefills the ticket price */
+        private readonly _getLastPrice: () => number | null
+    ) {
+        this._createElement();
+        this._broker.accountChanged.subscribe(this._onAccountChanged);
+        this._broker.positionsChanged.subscribe(this._onPositionsChanged);
+        this._broker.ordersChanged.subscribe(this._onOrdersChanged);
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    /** Fired on show and hide, including the panel's own close button */
+    get visibilityChanged(): Delegate<boolean> {
+        return this._visibilityChanged;
+    }
+
+    show(): void {
+        if (!this._element) return;
+        this._element.style.display = 'flex';
+        this._visible = true;
+        this._render();
+        this._visibilityChanged.fire(true);
+    }
+
+    hide(): void {
+        if (!this._element) return;
+        this._element.style.display = 'none';
+        this._visible = false;
+        this._visibilityChanged.fire(false);
+    }
+
+    toggle(): void {
+        if (this._visible) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    dispose(): void {
+        this._broker.accountChanged.unsubscribe(this._onAccountChanged);
+        this._broker.positionsChanged.unsubscribe(this._onPositionsChanged);
+        this._broker.ordersChanged.unsubscribe(this._onOrdersChanged);
+        this._visibilityChanged.destroy();
+        if (this._element?.parentNode) {
+            this._element.parentNode.removeChild(this._element);
+        }
+        this._element = null;
+    }
+
+    // --- Private: Layout ---
+
+    private _createElement(): void {
+        this._element = document.createElement('div');
+        this._element.className = 'chart-account-panel';
+        this._element.style.cssText = `
+            position: absolute;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            height: 220px;
+            background: #ffffff;
+            border-top: 1px solid #e0e3eb;
+            box-shadow: 0 -4px 16px rgba(0,0,0,0.08);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 13px;
+            color: #131722;
+        `;
+        // Keep chart interactions from reacting to clicks in the panel
+        this._element.addEventListener('mousedown', e => e.stopPropagation());
+        this._element.addEventListener('wheel', e => e.stopPropagation());
+
+        const header = document.createElement('div');
+        header.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            padding: 6px 12px;
+            border-bottom: 1px solid #e0e3eb;
+        `;
+
+        const title = document.createElement('div');
+        title.textContent = t('Paper Trading');
+        title.style.cssText = `font-weight: 600; font-size: 14px;`;
+        header.appendChild(title);
+
+        this._summary = document.createElement('div');
+        this._summary.style.cssText = `flex: 1; display: flex; gap: 16px; overflow: hidden;`;
+        header.appendChild(this._summary);
+
+        const closeButton = document.createElement('button');
+        closeButton.innerHTML = ICON_CLOSE;
+        closeButton.title = t('Close');
+        closeButton.style.cssText = `
+            background: none;
+            border: none;
+            cursor: pointer;
+            padding: 4px;
+            border-radius: 4px;
+            display: flex;
+            color: #787b86;
+        `;
+        closeButton.onmouseenter = () => closeButton.style.background = '#f0f3fa';
+        closeButton.onmouseleave = () => closeButton.style.background = 'none';
+        closeButton.onclick = () => this.hide();
+        header.appendChild(closeButton);
+
+        this._element.appendChild(header);
+
+        const body = document.createElement('div');
+        body.style.cssText = `flex: 1; display: flex; min-height: 0;`;
+        body.appendChild(this._createTicket());
+
+        const tables = document.createElement('div');
+        tables.style.cssText = `flex: 1; display: flex; flex-direction: column; min-width: 0; overflow-y: auto;`;
+        this._positions = document.createElement('div');
+        this._orders = document.createElement('div');
+        tables.appendChild(this._positions);
+        tables.appendChild(this._orders);
+        body.appendChild(tables);
+
+        this._element.appendChild(body);
+        this._container.appendChild(this._element);
+    }
+
+    // --- Private: Order ticket ---
+
+    private _createTicket(): HTMLElement {
+        const ticket = document.createElement('div');
+        ticket.style.cssText = `
+            width: 240px;
+            flex-shrink: 0;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 8px 12px;
+            border-right: 1px solid #e0e3eb;
+            overflow-y: auto;
+        `;
+
+        const sides = document.createElement('div');
+        sides.style.cssText = `display: flex; gap: 6px;`;
+        const buy = this._createSideButton(t('Buy'), BUY_COLOR);
+        const sell = this._createSideButton(t('Sell'), SELL_COLOR);
+        const updateSides = () => {
+            buy.style.opacity = this._side === 'buy' ? '1' : '0.4';
+            sell.style.opacity = this._side === 'sell' ? '1' : '0.4';
+        };
+        buy.onclick = () => { this._side = 'buy'; updateSides(); };
+        sell.onclick = () => { this._side = 'sell'; updateSides(); };
+        updateSides();
+        sides.appendChild(buy);
+        sides.appendChild(sell);
+        ticket.appendChild(sides);
+
+        const type = document.createElement('select');
+        type.style.cssText = FIELD_STYLE;
+        const types: { value: TicketType; label: string }[] = [
+            { value: 'market', label: t('Market') },
+            { value: 'limit', label: t('Limit') },
+            { value: 'stop', label: t('Stop') },
+            { value: 'oco', label: t('OCO') },
+        ];
+        for (const { value, label } of types) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            type.appendChild(option);
+        }
+
+        const quantity = this._createInput(t('Quantity'));
+        const price = this._createInput(t('Price'));
+        const secondPrice = this._createInput(t('Stop price'));
+        const takeProfit = this._createInput(t('Take profit'));
+        const stopLoss = this._createInput(t('Stop loss'));
+
+        const row = (...inputs: HTMLElement[]) => {
+            const element = document.createElement('div');
+            element.style.cssText = `display: flex; gap: 6px;`;
+            inputs.forEach(input => element.appendChild(input));
+            return element;
+        };
+
+        const priceRow = row(price, secondPrice);
+        const bracketRow = row(takeProfit, stopLoss);
+        const updateFields = () => {
+            const ticketType = type.value as TicketType;
+            priceRow.style.display = ticketType === 'market' ? 'none' : 'flex';
+            price.placeholder = ticketType === 'oco' ? t('Limit price') : t('Price');
+            secondPrice.style.display = ticketType === 'oco' ? 'block' : 'none';
+            bracketRow.style.display = ticketType === 'oco' ? 'none' : 'flex';
+            if (ticketType !== 'market' && !price.value) {
+                const last = this._getLastPrice();
+                if (last !== null) price.value = String(last);
+            }
+        };
+        type.onchange = updateFields;
+
+        ticket.appendChild(row(type, quantity));
+        ticket.appendChild(priceRow);
+        ticket.appendChild(bracketRow);
+        updateFields();
+
+        this._error = document.createElement('div');
+        this._error.style.cssText = `color: #ef5350; font-size: 12px; display: none;`;
+        ticket.appendChild(this._error);
+
+        const place = document.createElement('button');
+        place.textContent = t('Place order');
+        place.style.cssText = `
+            border: 1px solid #2962ff;
+            background: #2962ff;
+            color: #ffffff;
+            border-radius: 6px;
+            padding: 6px 14px;
+            font-size: 13px;
+            cursor: pointer;
+        `;
+        place.onclick = () => {
+            const ticketType = type.value as TicketType;
+            const base = {
+                symbol: this._getSymbol(),
+                side: this._side,
+                quantity: parseFloat(quantity.value),
+            };
+            const optional = (input: HTMLInputElement) => input.value ? parseFloat(input.value) : undefined;
+
+            if (isNaN(base.quantity)) {
+                this._showError(t('Enter a quantity'));
+                return;
+            }
+
+            let request: Promise<unknown>;
+            if (ticketType === 'oco') {
+                // Take profit as a limit, the other leg as a stop on the same side
+                request = this._broker.placeOcoOrder(
+                    { ...base, type: 'limit', price: optional(price) },
+                    { ...base, type: 'stop', price: optional(secondPrice) }
+                );
+            } else {
+                const order: OrderRequest = {
+                    ...base,
+                    type: ticketType,
+                    price: ticketType === 'market' ? undefined : optional(price),
+                    takeProfit: optional(takeProfit),
+                    stopLoss: optional(stopLoss),
+                };
+                request = this._broker.placeOrder(order);
+            }
+
+            request
+                .then(() => this._showError(''))
+                .catch(e => this._showError((e as Error).message));
+        };
+        ticket.appendChild(place);
+
+        return ticket;
+    }
+
+    private _createSideButton(label: string, color: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            flex: 1;
+            border: none;
+            background: ${color};
+            color: #ffffff;
+            border-radius: 6px;
+            padding: 6px 0;
+            font-size: 13px;
+            font-weight: 600;
+            cursor: pointer;
+        `;
+        return button;
+    }
+
+    private _createInput(placeholder: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.step = 'any';
+        input.min = '0';
+        input.placeholder = placeholder;
+        input.title = placeholder;
+        input.style.cssText = FIELD_STYLE;
+        return input;
+    }
+
+    private _showError(message: string): void {
+        if (!this._error) return;
+        this._error.textContent = message;
+        this._error.style.display = message ? 'block' : 'none';
+    }
+
+    // --- Private: Account state ---
+
+    private _render(): void {
+        this._renderSummary();
+        this._renderPositions();
+        this._renderOrders();
+    }
+
+    private _renderSummary(): void {
+        if (!this._summary || !this._visible) return;
+        const account = this._broker.account;
+        this._summary.innerHTML = '';
+
+        const items: [string, number, boolean][] = [
+            [t('Balance'), account.balance, false],
+            [t('Equity'), account.equity, false],
+            [t('Unrealized P&L'), account.unrealizedPnl, true],
+            [t('Realized P&L'), account.realizedPnl, true],
+            [t('Fees'), account.fees, false],
+            [t('Funding'), account.funding, false],
+        ];
+        for (const [label, value, colored] of items) {
+            const item = document.createElement('div');
+            item.style.cssText = `white-space: nowrap;`;
+
+            const name = document.createElement('span');
+            name.textContent = `${label} `;
+            name.style.color = '#787b86';
+            item.appendChild(name);
+
+            const amount = document.createElement('span');
+            amount.textContent = `${formatMoney(value)} ${account.currency}`;
+            if (colored && value !== 0) {
+                amount.style.color = value > 0 ? PROFIT_COLOR : LOSS_COLOR;
+            }
+            item.appendChild(amount);
+
+            this._summary.appendChild(item);
+        }
+    }
+
+    private _renderPositions(): void {
+        if (!this._positions || !this._visible) return;
+        this._renderSummary();
+
+        const rows = this._broker.positions.map(position => {
+            const pnl = position.unrealizedPnl;
+            const pnlCell = document.createElement('span');
+            pnlCell.textContent = formatMoney(pnl);
+            pnlCell.style.color = pnl >= 0 ? PROFIT_COLOR : LOSS_COLOR;
+
+            return [
+                position.symbol,
+                sideCell(position.quantity > 0 ? 'buy' : 'sell', position.quantity > 0 ? t('Long') : t('Short')),
+                formatNumber(Math.abs(position.quantity)),
+                formatNumber(position.averagePrice),
+                formatNumber(position.lastPrice),
+                pnlCell,
+                this._createRowButton(t('Close'), () => this._broker.closePosition(position.symbol)),
+            ];
+        });
+
+        this._renderTable(this._positions, t('Positions'),
+            [t('Symbol'), t('Side'), t('Quantity'), t('Avg. price'), t('Last price'), t('Unrealized P&L'), ''],
+            rows, t('No open positions'));
+    }
+
+    private _renderOrders(): void {
+        if (!this._orders || !this._visible) return;
+
+        const orders = this._broker.orders.filter(isOpenOrder);
+        const rows = orders.map((order: Order) => [
+            order.symbol,
+            sideCell(order.side, order.side === 'buy' ? t('Buy') : t('Sell')),
+            this._orderType(order),
+            formatNumber(order.quantity),
+            order.price !== undefined ? formatNumber(order.price) : '—',
+            order.status === 'pending' ? t('Waiting for entry') : t('Working'),
+            this._createRowButton(t('Cancel'), () => this._broker.cancelOrder(order.id)),
+        ]);
+
+        this._renderTable(this._orders, t('Orders'),
+            [t('Symbol'), t('Side'), t('Type'), t('Quantity'), t('Price'), t('Status'), ''],
+            rows, t('No open orders'));
+    }
+
+    private _orderType(order: Order): string {
+        const type = order.type === 'market' ? t('Market') : order.type === 'limit' ? t('Limit') : t('Stop');
+        if (order.parentId) {
+            return `${type} (${order.type === 'limit' ? t('Take profit') : t('Stop loss')})`;
+        }
+        return order.ocoGroup ? `${type} (${t('OCO')})` : type;
+    }
+
+    private _renderTable(
+        container: HTMLElement,
+        title: string,
+        columns: string[],
+        rows: (string | HTMLElement)[][],
+        emptyText: string
+    ): void {
+        container.innerHTML = '';
+
+        const heading = document.createElement('div');
+        heading.textContent = `${title} (${rows.length})`;
+        heading.style.cssText = `padding: 8px 12px 4px; font-weight: 600;`;
+        container.appendChild(heading);
+
+        if (rows.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = emptyText;
+            empty.style.cssText = `padding: 4px 12px 8px; color: #787b86;`;
+            container.appendChild(empty);
+            return;
+        }
+
+        const table = document.createElement('table');
+        table.style.cssText = `width: 100%; border-collapse: collapse; padding: 0 4px;`;
+
+        const head = document.createElement('tr');
+        for (const column of columns) {
+            const cell = document.createElement('th');
+            cell.textContent = column;
+            cell.style.cssText = `${CELL_STYLE} font-weight: normal; font-size: 12px; color: #787b86;`;
+            head.appendChild(cell);
+        }
+        table.appendChild(head);
+
+        for (const values of rows) {
+            const row = document.createElement('tr');
+            row.onmouseenter = () => row.style.background = '#f0f3fa';
+            row.onmouseleave = () => row.style.background = 'transparent';
+            for (const value of values) {
+                const cell = document.createElement('td');
+                cell.style.cssText = CELL_STYLE;
+                if (typeof value === 'string') {
+                    cell.textContent = value;
+                } else {
+                    cell.appendChild(value);
+                }
+                row.appendChild(cell);
+            }
+            table.appendChild(row);
+        }
+
+        container.appendChild(table);
+    }
+
+    private _createRowButton(label: string, onClick: () => Promise<void>): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = `
+            border: 1px solid #e0e3eb;
+            background: #ffffff;
+            color: #131722;
+            border-radius: 4px;
+            padding: 2px 10px;
+            font-size: 12px;
+            cursor: pointer;
+        `;
+        button.onclick = () => {
+            onClick().catch(e => this._showError((e as Error).message));
+        };
+        return button;
+    }
+}
+
+function sideCell(side: OrderSide, label: string): HTMLElement {
+    const cell = document.createElement('span');
+    cell.textContent = label;
+    cell.style.color = side === 'buy' ? BUY_COLOR : SELL_COLOR;
+    return cell;
+}
+
+function formatNumber(value: number): string {
+    return String(parseFloat(value.toPrecision(8)));
+}
+
+function formatMoney(value: number): string {
+    return value.toFixed(2);
+}
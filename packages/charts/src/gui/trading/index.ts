@@ -0,0 +1,6 @@
+/**
+ * Trading Module
+ */
+
+export * from './order_lines';
+export * from './account_panel';
@@ -0,0 +1,257 @@
+/**
+ * Order Lines - open orders and positions of the broker as lines over the main pane
+ *
+ * Order labels can be dragged vertically to move the order, × cancels the
+ * order or closes the position.
+ */
+
+import { IBroker, Order, Position, isOpenOrder } from '../../trading/broker';
+import { PriceScale } from '../../model/price-scale';
+import { coordinate } from '../../model/coordinate';
+import { t } from '../../helpers/translations';
+
+const BUY_COLOR = '#2962ff';
+const SELL_COLOR = '#f23645';
+const PROFIT_COLOR = '#089981';
+const LOSS_COLOR = '#f23645';
+
+interface LineElements {
+    root: HTMLElement;
+    line: HTMLElement;
+    label: HTMLElement;
+    text: HTMLElement;
+}
+
+interface DragState {
+    order: Order;
+    elements: LineElements;
+    startY: number;
+    startTop: number;
+    price: number;
+}
+
+export class OrderLines {
+    private _container: HTMLElement | null = null;
+    private _lines: Map<string, LineElements> = new Map();
+    private _drag: DragState | null = null;
+
+    private readonly _onBrokerChanged = () => this.update();
+
+    private readonly _onMouseMove = (e: MouseEvent) => {
+        const drag = this._drag;
+        if (!drag) return;
+
+        const y = drag.startTop + e.clientY - drag.startY;
+        drag.price = this._priceScale.coordinateToPrice(coordinate(y));
+        drag.elements.root.style.top = `${y}px`;
+        drag.elements.text.textContent = this._orderText(drag.order, drag.price);
+    };
+
+    private readonly _onMouseUp = () => {
+        const drag = this._drag;
+        if (!drag) return;
+        this._drag = null;
+        document.removeEventListener('mousemove', this._onMouseMove);
+        document.removeEventListener('mouseup', this._onMouseUp);
+
+        if (drag.price > 0 && drag.price !== drag.order.price) {
+            this._broker.modifyOrder(drag.order.id, { price: drag.price })
+                .catch(e => console.warn('Failed to modify order:', e))
+                .finally(() => this.update());
+        } else {
+            this.update();
+        }
+    };
+
+    constructor(
+        private readonly _pane: HTMLElement,
+        private readonly _priceScale: PriceScale,
+        private readonly _broker: IBroker,
+        /** Only orders and positions of the chart symbol are shown */
+        private readonly _getSymbol: () => string
+    ) {
+        this._container = document.createElement('div');
+        this._container.className = 'chart-order-lines';
+        this._container.style.cssText = `
+            position: absolute;
+            inset: 0;
+            overflow: hidden;
+            pointer-events: none;
+            z-index: 15;
+        `;
+        this._pane.appendChild(this._container);
+
+        this._broker.ordersChanged.subscribe(this._onBrokerChanged);
+        this._broker.positionsChanged.subscribe(this._onBrokerChanged);
+    }
+
+    /** Move the lines to the current price scale, called on every chart draw */
+    update(): void {
+        if (!this._container) return;
+
+        const symbol = this._getSymbol();
+        const seen = new Set<string>();
+
+        for (const position of this._broker.positions) {
+            if (position.symbol !== symbol) continue;
+            const key = `position:${symbol}`;
+            seen.add(key);
+            this._updatePositionLine(key, position);
+        }
+
+        for (const order of this._broker.orders) {
+            if (order.symbol !== symbol || order.price === undefined || order.status !== 'working') continue;
+            seen.add(order.id);
+            // Leave the line being dragged where the mouse is
+            if (this._drag?.order.id === order.id) continue;
+            this._updateOrderLine(order);
+        }
+
+        for (const [key, elements] of this._lines) {
+            if (!seen.has(key)) {
+                elements.root.remove();
+                this._lines.delete(key);
+            }
+        }
+    }
+
+    dispose(): void {
+        this._broker.ordersChanged.unsubscribe(this._onBrokerChanged);
+        this._broker.positionsChanged.unsubscribe(this._onBrokerChanged);
+        document.removeEventListener('mousemove', this._onMouseMove);
+        document.removeEventListener('mouseup', this._onMouseUp);
+        this._container?.remove();
+        this._container = null;
+        this._lines.clear();
+        this._drag = null;
+    }
+
+    // --- Private ---
+
+    private _updateOrderLine(order: Order): void {
+        const color = order.side === 'buy' ? BUY_COLOR : SELL_COLOR;
+        const elements = this._lines.get(order.id) ?? this._createLine(order.id, true, () => {
+            this._broker.cancelOrder(order.id).catch(e => console.warn('Failed to cancel order:', e));
+        }, t('Cancel order'));
+
+        elements.line.style.borderTop = `1px dashed ${color}`;
+        elements.label.style.borderColor = color;
+        elements.label.style.color = color;
+        elements.label.onmousedown = (e) => this._startDrag(e, order, elements);
+        elements.text.textContent = this._orderText(order, order.price!);
+        this._place(elements, order.price!);
+    }
+
+    private _updatePositionLine(key: string, position: Position): void {
+        const elements = this._lines.get(key) ?? this._createLine(key, false, () => {
+            this._broker.closePosition(position.symbol).catch(e => console.warn('Failed to close position:', e));
+        }, t('Close position'));
+
+        const color = position.unrealizedPnl >= 0 ? PROFIT_COLOR : LOSS_COLOR;
+        const side = position.quantity > 0 ? t('Long') : t('Short');
+        const pnl = position.unrealizedPnl;
+
+        elements.line.style.borderTop = `1px solid ${color}`;
+        elements.label.style.borderColor = color;
+        elements.label.style.color = color;
+        elements.text.textContent =
+            `${side} ${formatQuantity(Math.abs(position.quantity))} · ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}`;
+        this._place(elements, position.averagePrice);
+    }
+
+    private _createLine(key: string, draggable: boolean, onClose: () => void, closeTitle: string): LineElements {
+        const root = document.createElement('div');
+        root.style.cssText = `
+            position: absolute;
+            left: 0;
+            right: 0;
+            height: 0;
+        `;
+
+        const line = document.createElement('div');
+        line.style.cssText = `position: absolute; left: 0; right: 0; top: 0;`;
+        root.appendChild(line);
+
+        const label = document.createElement('div');
+        label.style.cssText = `
+            position: absolute;
+            right: 8px;
+            top: -10px;
+            height: 20px;
+            display: flex;
+            align-items: center;
+            background: #ffffff;
+            border: 1px solid;
+            border-radius: 3px;
+            font-family: -apple-system, BlinkMacSystemFont, 'Trebuchet MS', Roboto, Ubuntu, sans-serif;
+            font-size: 11px;
+            white-space: nowrap;
+            pointer-events: auto;
+            cursor: ${draggable ? 'ns-resize' : 'default'};
+            user-select: none;
+        `;
+        // Keep the chart from panning or drawing under the label
+        label.addEventListener('mousedown', e => e.stopPropagation());
+        label.addEventListener('wheel', e => e.stopPropagation());
+
+        const text = document.createElement('span');
+        text.style.cssText = `padding: 0 6px;`;
+        label.appendChild(text);
+
+        const close = document.createElement('span');
+        close.textContent = '×';
+        close.title = closeTitle;
+        close.style.cssText = `
+            padding: 0 6px;
+            border-left: 1px solid currentColor;
+            font-size: 14px;
+            line-height: 18px;
+            cursor: pointer;
+        `;
+        close.addEventListener('mousedown', e => e.stopPropagation());
+        close.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClose();
+        });
+        label.appendChild(close);
+
+        root.appendChild(label);
+        this._container!.appendChild(root);
+
+        const elements = { root, line, label, text };
+        this._lines.set(key, elements);
+        return elements;
+    }
+
+    private _place(elements: LineElements, price: number): void {
+        const y = this._priceScale.priceToCoordinate(price);
+        elements.root.style.top = `${y}px`;
+        elements.root.style.display = isFinite(y) ? 'block' : 'none';
+    }
+
+    private _startDrag(e: MouseEvent, order: Order, elements: LineElements): void {
+        if (e.button !== 0 || !isOpenOrder(order)) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        this._drag = {
+            order,
+            elements,
+            startY: e.clientY,
+            startTop: parseFloat(elements.root.style.top) || 0,
+            price: order.price!,
+        };
+        document.addEventListener('mousemove', this._onMouseMove);
+        document.addEventListener('mouseup', this._onMouseUp);
+    }
+
+    private _orderText(order: Order, price: number): string {
+        const side = order.side === 'buy' ? t('Buy') : t('Sell');
+        const type = order.type === 'limit' ? t('Limit') : t('Stop');
+        return `${side} ${type} ${formatQuantity(order.quantity)} @ ${this._priceScale.formatPrice(price)}`;
+    }
+}
+
+function formatQuantity(quantity: number): string {
+    return String(parseFloat(quantity.toPrecision(8)));
+}
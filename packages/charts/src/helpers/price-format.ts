@@ -0,0 +1,67 @@
+/**
+ * Price format helpers: decimals and tick rounding from exchange tick sizes
+ */
+
+/**
+ * Tick size of prices from minPrice on (BIST style price tiers)
+ */
+export interface TickSizeTier {
+    minPrice: number;
+    tickSize: number;
+}
+
+/**
+ * How prices of an instrument are shown and rounded
+ */
+export interface PriceFormat {
+    /** Decimals of formatted prices */
+    precision: number;
+    /** Smallest price step */
+    tickSize: number;
+    /** Larger tick sizes for higher prices, ascending by minPrice */
+    tickSizeTiers?: readonly TickSizeTier[];
+}
+
+/**
+ * Decimals of a step as exchanges send it: '0.00010000' and 0.0001 give 4
+ */
+export function decimalsOf(step: number | string): number {
+    const value = typeof step === 'string' ? parseFloat(step) : step;
+    if (!isFinite(value) || value <= 0) return 0;
+
+    // toFixed avoids the exponent notation of small numbers (1e-7)
+    const text = value.toFixed(12).replace(/0+$/, '');
+    const dot = text.indexOf('.');
+    return dot === -1 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Tick size that applies at a price
+ */
+export function tickSizeAt(format: PriceFormat, price: number): number {
+    let tickSize = format.tickSize;
+    for (const tier of format.tickSizeTiers ?? []) {
+        if (Math.abs(price) >= tier.minPrice) tickSize = tier.tickSize;
+    }
+    return tickSize;
+}
+
+/**
+ * Nearest valid price, without float noise (0.1 + 0.2 stays 0.3)
+ */
+export function roundToTick(price: number, format: PriceFormat): number {
+    const tickSize = tickSizeAt(format, price);
+    if (!(tickSize > 0) || !isFinite(price)) return price;
+
+    const rounded = Math.round(price / tickSize) * tickSize;
+    return parseFloat(rounded.toFixed(Math.max(format.precision, decimalsOf(tickSize))));
+}
+
+/**
+ * Price with the format's decimals
+ */
+export function formatPriceWith(price: number, format: PriceFormat): string {
+    const text = price.toFixed(format.precision);
+    // -0.00 reads as a negative price
+    return parseFloat(text) === 0 ? (0).toFixed(format.precision) : text;
+}
@@ -0,0 +1,113 @@
+/**
+ * Trading sessions and exchange time zones
+ *
+ * A session is a daily open/close wall clock time in the exchange's time
+ * zone. Bars outside it can be shaded and the first bar of every session
+ * marked with a session-break line.
+ */
+
+import { toZonedTime } from './timezone';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Daily trading hours, e.g. BIST 10:00-18:00 Europe/Istanbul.
+ * A close before the open is an overnight session (18:00-03:00).
+ */
+export interface TradingSession {
+    /** Wall clock open, 'HH:mm' */
+    open: string;
+    /** Wall clock close, 'HH:mm' */
+    close: string;
+    /** IANA time zone of open and close */
+    timeZone: string;
+    /** Trading days of the week, 0 = Sunday (default: Monday to Friday) */
+    days?: readonly number[];
+}
+
+const WEEKDAYS: readonly number[] = [1, 2, 3, 4, 5];
+
+/**
+ * Time zones of exchanges that do not trade in UTC
+ */
+export const EXCHANGE_TIME_ZONES: Record<string, string> = {
+    BIST: 'Europe/Istanbul',
+    NASDAQ: 'America/New_York',
+    NYSE: 'America/New_York',
+};
+
+/**
+ * Regular sessions of exchanges with trading hours, crypto exchanges trade around the clock
+ */
+export const EXCHANGE_SESSIONS: Record<string, TradingSession> = {
+    BIST: { open: '10:00', close: '18:00', timeZone: 'Europe/Istanbul' },
+    NASDAQ: { open: '09:30', close: '16:00', timeZone: 'America/New_York' },
+    NYSE: { open: '09:30', close: '16:00', timeZone: 'America/New_York' },
+};
+
+/**
+ * Time zone of an exchange, UTC for crypto exchanges
+ */
+export function exchangeTimeZone(exchange: string): string {
+    return EXCHANGE_TIME_ZONES[exchange] ?? 'UTC';
+}
+
+/**
+ * Regular session of an exchange, null when it trades around the clock
+ */
+export function exchangeSession(exchange: string): TradingSession | null {
+    return EXCHANGE_SESSIONS[exchange] ?? null;
+}
+
+/**
+ * Minutes after midnight of an 'HH:mm' time, NaN when malformed
+ */
+export function parseSessionTime(time: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    if (!match) return NaN;
+
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 24 || minutes > 59) return NaN;
+    return hours * 60 + minutes;
+}
+
+/**
+ * Trading day of the session a time (ms) falls in, as days since the epoch
+ * on the session's wall clock. Overnight sessions belong to the day they
+ * opened on.
+ * @returns null outside the session or on a non-trading day
+ */
+export function sessionDayOf(time: number, session: TradingSession): number | null {
+    const open = parseSessionTime(session.open);
+    const close = parseSessionTime(session.close);
+    if (isNaN(open) || isNaN(close) || open === close) return null;
+
+    const zoned = toZonedTime(time, session.timeZone);
+    const day = Math.floor(zoned / DAY);
+    const minute = Math.floor((zoned - day * DAY) / MINUTE);
+
+    let sessionDay: number;
+    if (open < close) {
+        if (minute < open || minute >= close) return null;
+        sessionDay = day;
+    } else if (minute >= open) {
+        sessionDay = day;
+    } else if (minute < close) {
+        sessionDay = day - 1;
+    } else {
+        return null;
+    }
+
+    // 1970-01-01 was a Thursday
+    const weekday = ((sessionDay + 4) % 7 + 7) % 7;
+    return (session.days ?? WEEKDAYS).includes(weekday) ? sessionDay : null;
+}
+
+/**
+ * Whether a time (ms) is within the session
+ */
+export function isInSession(time: number, session: TradingSession): boolean {
+    return sessionDayOf(time, session) !== null;
+}
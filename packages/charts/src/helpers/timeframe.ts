@@ -0,0 +1,203 @@
+/**
+ * Timeframe helpers
+ *
+ * Timeframes are strings like '1m', '15m', '4h', 'D', '1W' or '1M'.
+ * A lowercase 'm' means minutes, an uppercase 'M' means months and a missing
+ * count means 1. Bar boundaries are aligned to UTC unless a time zone is given,
+ * weeks start on Monday.
+ */
+
+import { BarData } from '../model/data';
+import { CandleInterval } from '../data-providers/types';
+import { isUtcTimeZone, toZonedTime, fromZonedTime } from './timezone';
+
+export type TimeframeUnit = 's' | 'm' | 'h' | 'd' | 'w' | 'M';
+
+export interface ParsedTimeframe {
+    count: number;
+    unit: TimeframeUnit;
+}
+
+/**
+ * Bar boundary alignment
+ */
+export interface TimeframeAlignment {
+    /** IANA time zone the bars are aligned to, e.g. exchange-local weeks. Default UTC. */
+    timeZone?: string;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/** 1970-01-01 was a Thursday, the first Monday is 4 days later */
+const FIRST_MONDAY = 4 * DAY;
+
+const UNIT_MS: Record<Exclude<TimeframeUnit, 'M'>, number> = {
+    s: SECOND,
+    m: MINUTE,
+    h: HOUR,
+    d: DAY,
+    w: WEEK,
+};
+
+/**
+ * Parse a timeframe string, returns null for unknown formats
+ */
+export function parseTimeframe(tf: string): ParsedTimeframe | null {
+    const match = tf.trim().match(/^(\d*)([smhdwHDWM])$/);
+    if (!match) return null;
+
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    if (count <= 0) return null;
+
+    const unit = (match[2] === 'M' ? 'M' : match[2].toLowerCase()) as TimeframeUnit;
+    return { count, unit };
+}
+
+/**
+ * Canonical form of a timeframe ('2d' -> '2D', '1w' -> 'W', '1M' stays months),
+ * null for unknown formats
+ */
+export function normalizeTimeframe(tf: string): string | null {
+    const parsed = parseTimeframe(tf);
+    if (!parsed) return null;
+
+    if (parsed.unit === 'd' || parsed.unit === 'w') {
+        const unit = parsed.unit.toUpperCase();
+        return parsed.count === 1 ? unit : `${parsed.count}${unit}`;
+    }
+    return `${parsed.count}${parsed.unit}`;
+}
+
+/** Chart timeframes ('4h', 'D', '2W') as provider intervals ('4h', '1d', '2w') */
+export function toCandleInterval(timeframe: string): CandleInterval {
+    const parsed = parseTimeframe(timeframe);
+    if (!parsed) return timeframe as CandleInterval;
+    return `${parsed.count}${parsed.unit}` as CandleInterval;
+}
+
+/**
+ * Nominal duration of a timeframe in milliseconds (months count as 30 days).
+ * Returns 0 for unknown formats.
+ */
+export function timeframeToMs(tf: string): number {
+    const parsed = parseTimeframe(tf);
+    if (!parsed) return 0;
+    if (parsed.unit === 'M') return parsed.count * 30 * DAY;
+    return parsed.count * UNIT_MS[parsed.unit];
+}
+
+/**
+ * Open time of the timeframe bar containing the given time
+ */
+export function getBarStartTime(time: number, tf: string, alignment?: TimeframeAlignment): number {
+    const parsed = parseTimeframe(tf);
+    if (!parsed) return time;
+
+    const timeZone = alignment?.timeZone;
+    if (isUtcTimeZone(timeZone)) return utcBarStartTime(time, parsed);
+
+    return fromZonedTime(utcBarStartTime(toZonedTime(time, timeZone), parsed), timeZone);
+}
+
+/**
+ * Close time of the timeframe bar that opened at the given time
+ */
+export function getBarEndTime(startTime: number, tf: string, alignment?: TimeframeAlignment): number {
+    const parsed = parseTimeframe(tf);
+    if (!parsed) return startTime;
+
+    const timeZone = alignment?.timeZone;
+    if (isUtcTimeZone(timeZone)) return utcBarEndTime(startTime, parsed);
+
+    return fromZonedTime(utcBarEndTime(toZonedTime(startTime, timeZone), parsed), timeZone);
+}
+
+function utcBarStartTime(time: number, parsed: ParsedTimeframe): number {
+    if (parsed.unit === 'M') {
+        const date = new Date(time);
+        const months = date.getUTCFullYear() * 12 + date.getUTCMonth();
+        const start = months - (months % parsed.count);
+        return Date.UTC(Math.floor(start / 12), start % 12, 1);
+    }
+
+    const ms = parsed.count * UNIT_MS[parsed.unit];
+    const origin = parsed.unit === 'w' ? FIRST_MONDAY : 0;
+    return Math.floor((time - origin) / ms) * ms + origin;
+}
+
+function utcBarEndTime(startTime: number, parsed: ParsedTimeframe): number {
+    if (parsed.unit === 'M') {
+        const date = new Date(startTime);
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + parsed.count, 1);
+    }
+
+    return startTime + parsed.count * UNIT_MS[parsed.unit];
+}
+
+/**
+ * Merge sorted bars into bars of a higher timeframe.
+ * The first and last buckets may be partial if the input does not cover them.
+ */
+export function aggregateBars(bars: readonly BarData[], tf: string, alignment?: TimeframeAlignment): BarData[] {
+    const result: BarData[] = [];
+    let current: BarData | null = null;
+
+    for (const bar of bars) {
+        const start = getBarStartTime(bar.time, tf, alignment);
+
+        if (current && current.time === start) {
+            current.high = Math.max(current.high, bar.high);
+            current.low = Math.min(current.low, bar.low);
+            current.close = bar.close;
+            current.volume = (current.volume ?? 0) + (bar.volume ?? 0);
+            continue;
+        }
+
+        current = {
+            time: start,
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            volume: bar.volume ?? 0,
+        };
+        result.push(current);
+    }
+
+    return result;
+}
+
+/**
+ * For every chart bar, find the latest higher timeframe bar that has closed
+ * by the time the chart bar closes. A higher timeframe bar is therefore only
+ * visible from the chart bar that completes it onwards, never earlier.
+ * @returns indices into timeframeBars, -1 where no bar has closed yet
+ */
+export function mapToChartBars(
+    chartBars: readonly BarData[],
+    chartTimeframe: string,
+    timeframeBars: readonly BarData[],
+    timeframe: string
+): number[] {
+    const indexMap: number[] = new Array(chartBars.length);
+    let j = -1;
+
+    for (let i = 0; i < chartBars.length; i++) {
+        const chartClose = getBarEndTime(getBarStartTime(chartBars[i].time, chartTimeframe), chartTimeframe);
+
+        while (
+            j + 1 < timeframeBars.length &&
+            getBarEndTime(timeframeBars[j + 1].time, timeframe) <= chartClose
+        ) {
+            j++;
+        }
+
+        indexMap[i] = j;
+    }
+
+    return indexMap;
+}
@@ -0,0 +1,69 @@
+/**
+ * Time zone helpers based on Intl (IANA names like 'America/New_York')
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Whether the time zone is UTC (or not set)
+ */
+export function isUtcTimeZone(timeZone: string | undefined): boolean {
+    return !timeZone || timeZone === 'UTC' || timeZone === 'Etc/UTC';
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in ms (e.g. +3h for Europe/Istanbul)
+ */
+export function getTimeZoneOffset(time: number, timeZone: string | undefined): number {
+    if (isUtcTimeZone(timeZone)) return 0;
+
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone!).formatToParts(new Date(time))) {
+        if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+    }
+
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Shift a UTC instant to the wall clock time of the zone, expressed as a UTC timestamp
+ */
+export function toZonedTime(time: number, timeZone: string | undefined): number {
+    return time + getTimeZoneOffset(time, timeZone);
+}
+
+/**
+ * Inverse of toZonedTime. Wall clock times skipped by a DST change resolve to the later offset.
+ */
+export function fromZonedTime(zonedTime: number, timeZone: string | undefined): number {
+    if (isUtcTimeZone(timeZone)) return zonedTime;
+
+    const guess = zonedTime - getTimeZoneOffset(zonedTime, timeZone);
+    return zonedTime - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * IANA name of the browser's time zone, 'UTC' where Intl cannot tell
+ */
+export function localTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
@@ -21,12 +21,211 @@ const TRANSLATIONS: Record<LanguageCode, Record<string, string>> = {
         'Search for symbol...': 'Sembol ara...',
         'No symbols found': 'Sembol bulunamadı',
         'No symbols match your search': 'Aramanızla eşleşen sembol bulunamadı',
+        'Add custom interval': 'Özel aralık ekle',
 
         // Chart Types
         'Candlestick': 'Mum',
         'Line': 'Çizgi',
         'Area': 'Alan',
         'Heiken Ashi': 'Heiken Ashi',
+        'Renko': 'Renko',
+        'Range': 'Aralık',
+        'Kagi': 'Kagi',
+        'Point & Figure': 'Nokta ve Şekil',
+        'Line Break': 'Çizgi Kırılımı',
+        'More': 'Diğer',
+        'More chart types': 'Diğer grafik tipleri',
+        'Symbol settings': 'Sembol ayarları',
+        'Chart Type': 'Grafik Tipi',
+        'Bar styles': 'Çubuk stilleri',
+        'Non-time-based': 'Zamandan bağımsız',
+        'Bars': 'Çubuklar',
+        'Hollow Candles': 'İçi Boş Mumlar',
+        'Baseline': 'Taban Çizgisi',
+        'Step Line': 'Basamaklı Çizgi',
+        'Columns': 'Sütunlar',
+        'HLC Area': 'YDK Alanı',
+        'Show Open': 'Açılışı Göster',
+        'Thin Bars': 'İnce Çubuklar',
+        'Wick': 'Fitil',
+        'Fill Top': 'Dolgu Üst',
+        'Fill Bottom': 'Dolgu Alt',
+        'Top Line': 'Üst Çizgi',
+        'Top Fill 1': 'Üst Dolgu 1',
+        'Top Fill 2': 'Üst Dolgu 2',
+        'Bottom Line': 'Alt Çizgi',
+        'Bottom Fill 1': 'Alt Dolgu 1',
+        'Bottom Fill 2': 'Alt Dolgu 2',
+        'High Line': 'Yüksek Çizgisi',
+        'Low Line': 'Düşük Çizgisi',
+        'Close Line': 'Kapanış Çizgisi',
+        'Up Fill': 'Yükseliş Dolgusu',
+        'Down Fill': 'Düşüş Dolgusu',
+        'Box Size': 'Kutu Boyutu',
+        'Box Size Assignment Method': 'Kutu Boyutu Yöntemi',
+        'ATR Length': 'ATR Uzunluğu',
+        'Reversal Amount': 'Dönüş Miktarı',
+        'Number Of Lines': 'Çizgi Sayısı',
+
+        // Alerts
+        'Alert': 'Alarm',
+        'Alerts': 'Alarmlar',
+        'Add alert': 'Alarm ekle',
+        'Create alert': 'Alarm oluştur',
+        'No alerts': 'Alarm yok',
+        'Active': 'Aktif',
+        'Triggered': 'Tetiklendi',
+        'Restart': 'Yeniden başlat',
+        'Remove': 'Kaldır',
+        'Close': 'Kapat',
+        'Value': 'Değer',
+        'Condition': 'Koşul',
+        'Trigger': 'Tetikleme',
+        'Message': 'Mesaj',
+        'Create': 'Oluştur',
+        'Enter a value': 'Bir değer girin',
+        'Price': 'Fiyat',
+        'Crossing': 'Kesişim',
+        'Crossing Up': 'Yukarı Kesişim',
+        'Crossing Down': 'Aşağı Kesişim',
+        'Greater Than': 'Büyüktür',
+        'Less Than': 'Küçüktür',
+        'Entering Channel': 'Kanala Giriş',
+        'Exiting Channel': 'Kanaldan Çıkış',
+        'Only Once': 'Yalnızca Bir Kez',
+        'Once Per Bar': 'Çubuk Başına Bir Kez',
+        'Once Per Bar Close': 'Çubuk Kapanışında Bir Kez',
+
+        // Bar Replay
+        'Bar Replay': 'Bar Tekrarı',
+        'Replay': 'Tekrar',
+        'Select bar': 'Bar seç',
+        'Click a bar to start the replay': 'Tekrarı başlatmak için bir bara tıklayın',
+        'Step back': 'Geri',
+        'Step forward': 'İleri',
+        'Play': 'Oynat',
+        'Pause': 'Duraklat',
+        'Speed': 'Hız',
+        'Exit replay': 'Tekrardan çık',
+
+        // Paper Trading
+        'Paper Trading': 'Kağıt Üzerinde İşlem',
+        'Trading': 'İşlem',
+        'Market': 'Piyasa',
+        'Limit': 'Limit',
+        'Stop': 'Stop',
+        'OCO': 'OCO',
+        'Quantity': 'Miktar',
+        'Limit price': 'Limit fiyatı',
+        'Stop price': 'Stop fiyatı',
+        'Take profit': 'Kâr al',
+        'Stop loss': 'Zarar durdur',
+        'Place order': 'Emir gönder',
+        'Enter a quantity': 'Bir miktar girin',
+        'Balance': 'Bakiye',
+        'Equity': 'Varlık',
+        'Unrealized P&L': 'Gerçekleşmemiş K/Z',
+        'Realized P&L': 'Gerçekleşen K/Z',
+        'Fees': 'Komisyonlar',
+        'Funding': 'Fonlama',
+        'Positions': 'Pozisyonlar',
+        'Orders': 'Emirler',
+        'No open positions': 'Açık pozisyon yok',
+        'No open orders': 'Açık emir yok',
+        'Side': 'Yön',
+        'Type': 'Tür',
+        'Status': 'Durum',
+        'Avg. price': 'Ort. fiyat',
+        'Last price': 'Son fiyat',
+        'Long': 'Uzun',
+        'Short': 'Kısa',
+        'Working': 'Bekliyor',
+        'Waiting for entry': 'Giriş bekleniyor',
+        'Cancel order': 'Emri iptal et',
+        'Close position': 'Pozisyonu kapat',
+
+        // Price Scale
+        'Linear scale': 'Doğrusal ölçek',
+        'Logarithmic scale': 'Logaritmik ölçek',
+        'Percentage scale': 'Yüzde ölçeği',
+        'Indexed to 100 scale': '100\'e endeksli ölçek',
+        'Scales': 'Ölçekler',
+        'Scale Mode': 'Ölçek Modu',
+        'Invert Scale': 'Ölçeği Ters Çevir',
+        'Regular': 'Normal',
+        'Logarithmic': 'Logaritmik',
+        'Percent': 'Yüzde',
+        'Indexed to 100': '100\'e endeksli',
+
+        // Compare
+        'Compare or Add Symbol': 'Sembol Karşılaştır veya Ekle',
+        'Compare symbol': 'Sembol karşılaştır',
+        'Synthetic': 'Sentetik',
+
+        // Price scales
+        'Pin to scale': 'Ölçeğe sabitle',
+        'Pin to right scale': 'Sağ ölçeğe sabitle',
+        'Pin to left scale': 'Sol ölçeğe sabitle',
+        'No scale (fullscreen)': 'Ölçek yok (tam ekran)',
+
+        // Undo / Redo
+        'Undo': 'Geri al',
+        'Redo': 'Yinele',
+        'Create drawing': 'Çizim oluştur',
+        'Create drawings': 'Çizimler oluştur',
+        'Delete drawing': 'Çizimi sil',
+        'Delete drawings': 'Çizimleri sil',
+        'Edit drawings': 'Çizimleri düzenle',
+        'Move drawing': 'Çizimi taşı',
+        'Change drawing style': 'Çizim stilini değiştir',
+        'Edit drawing': 'Çizimi düzenle',
+        'Add indicator': 'Gösterge ekle',
+        'Remove indicator': 'Göstergeyi kaldır',
+        'Change indicator settings': 'Gösterge ayarlarını değiştir',
+        'Show indicator': 'Göstergeyi göster',
+        'Hide indicator': 'Göstergeyi gizle',
+        'Change chart type': 'Grafik tipini değiştir',
+        'Change scale mode': 'Ölçek modunu değiştir',
+        'Invert scale': 'Ölçeği ters çevir',
+        'Change theme': 'Temayı değiştir',
+        'Change time zone': 'Saat dilimini değiştir',
+        'Change sessions': 'Seansları değiştir',
+        'Change drawing order': 'Çizim sırasını değiştir',
+        'Show drawing': 'Çizimi göster',
+        'Hide drawing': 'Çizimi gizle',
+        'Lock drawing': 'Çizimi kilitle',
+        'Unlock drawing': 'Çizimin kilidini aç',
+        'Rename drawing': 'Çizimi yeniden adlandır',
+        'Group drawings': 'Çizimleri grupla',
+
+        // Object Tree
+        'Object tree': 'Nesne ağacı',
+        'Link group': 'Bağlantı grubu',
+        'Not linked': 'Bağlı değil',
+        'Drawings': 'Çizimler',
+        'No drawings': 'Çizim yok',
+        'Group': 'Grup',
+        'Create group': 'Grup oluştur',
+        'Ungroup': 'Grubu çöz',
+        'Lock': 'Kilitle',
+        'Unlock': 'Kilidi aç',
+        'Lock all': 'Tümünü kilitle',
+        'Unlock all': 'Tümünün kilidini aç',
+        'Show': 'Göster',
+        'Hide': 'Gizle',
+        'Show all': 'Tümünü göster',
+        'Hide all': 'Tümünü gizle',
+        'Bring to front': 'En öne getir',
+        'Send to back': 'En arkaya gönder',
+
+        // Pine Script
+        'Pine Editor': 'Pine Editörü',
+        'Add to chart': 'Grafiğe ekle',
+        'Update on chart': 'Grafikte güncelle',
+        'Syntax error': 'Sözdizimi hatası',
+        'Runtime error': 'Çalışma hatası',
+        'at line': 'satır',
+        'Go to line': 'Satıra git',
 
         // Technical Rating
         'Strong Buy': 'Güçlü Al',
@@ -40,6 +239,70 @@ const TRANSLATIONS: Record<LanguageCode, Record<string, string>> = {
         // Orderbook
         'Real-time Data': 'Canlı Veri',
 
+        // Liquidations
+        'Liquidation heatmap': 'Likidasyon ısı haritası',
+        'Heatmap': 'Isı haritası',
+        'Levels': 'Seviyeler',
+        'Heatmap and levels': 'Isı haritası ve seviyeler',
+        'Maintenance margin %': 'Sürdürme marjı %',
+        'Fade half-life (bars)': 'Sönümlenme yarı ömrü (bar)',
+        'Leverage weights': 'Kaldıraç ağırlıkları',
+        'Reset': 'Sıfırla',
+
+        // Derivatives
+        'Open interest': 'Açık pozisyon',
+        'Change per bar': 'Bar başına değişim',
+        'Increase Color': 'Artış Rengi',
+        'Decrease Color': 'Azalış Rengi',
+        'Annualized': 'Yıllık',
+        'Positive Color': 'Pozitif Renk',
+        'Negative Color': 'Negatif Renk',
+        'Long Liquidations': 'Long Likidasyonları',
+        'Short Liquidations': 'Short Likidasyonları',
+        'Minimum Notional': 'Minimum Hacim',
+        'Maximum Radius': 'Maksimum Yarıçap',
+        'Long Color': 'Long Rengi',
+        'Short Color': 'Short Rengi',
+
+        // Volume Profile
+        'Row Size': 'Satır Boyutu',
+        'Number of rows': 'Satır sayısı',
+        'Ticks per row': 'Satır başına tick',
+        'Rows / Ticks': 'Satır / Tick',
+        'Value Area Volume %': 'Değer Alanı Hacmi %',
+        'Lower Timeframe': 'Alt Zaman Dilimi',
+        'Auto': 'Otomatik',
+        'None': 'Yok',
+        'Width %': 'Genişlik %',
+        'Up/Down Volume': 'Yükseliş/Düşüş Hacmi',
+        'Up Volume': 'Yükseliş Hacmi',
+        'Down Volume': 'Düşüş Hacmi',
+        'Value Area Up': 'Değer Alanı Yükseliş',
+        'Value Area Down': 'Değer Alanı Düşüş',
+        'POC': 'POC',
+        'POC Color': 'POC Rengi',
+        'Value Area Lines': 'Değer Alanı Çizgileri',
+        'Value Area Color': 'Değer Alanı Rengi',
+        'Placement': 'Konum',
+        'Right': 'Sağ',
+        'Left': 'Sol',
+        'Session': 'Seans',
+        'Day': 'Gün',
+        'Week': 'Hafta',
+
+        // Order Flow
+        'Order flow': 'Emir akışı',
+        'Footprint': 'Footprint',
+        'Show Imbalances': 'Dengesizlikleri Göster',
+        'Imbalance Ratio': 'Dengesizlik Oranı',
+        'Stacked Imbalances': 'Ardışık Dengesizlikler',
+        'Buy Imbalance': 'Alış Dengesizliği',
+        'Sell Imbalance': 'Satış Dengesizliği',
+        'Show Delta': 'Deltayı Göster',
+        'Text Color': 'Metin Rengi',
+        'Anchor': 'Sıfırlama',
+        'Candles': 'Mumlar',
+
         // Drawing Tools
         'Cursor': 'İmleç',
         'Crosshair': 'Artı',
@@ -89,6 +352,7 @@ const TRANSLATIONS: Record<LanguageCode, Record<string, string>> = {
         'Price Range': 'Fiyat Aralığı',
         'Date Range': 'Tarih Aralığı',
         'Date and Price Range': 'Tarih ve Fiyat Aralığı',
+        'Fixed Range Volume Profile': 'Sabit Aralık Hacim Profili',
         'Annotation': 'Not',
         'Text': 'Metin',
         'Callout': 'Çağrı Balonu',
@@ -155,6 +419,13 @@ const TRANSLATIONS: Record<LanguageCode, Record<string, string>> = {
         'Display': 'Görünüm',
         'Visible': 'Görünür',
         'Locked': 'Kilitli',
+        'Timeframes': 'Zaman Dilimleri',
+        'Seconds': 'Saniye',
+        'Minutes': 'Dakika',
+        'Hours': 'Saat',
+        'Days': 'Gün',
+        'Weeks': 'Hafta',
+        'Months': 'Ay',
         'Line Color': 'Çizgi Rengi',
         'Line Width': 'Çizgi Kalınlığı',
         'Line Style': 'Çizgi Stili',
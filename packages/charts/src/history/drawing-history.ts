@@ -0,0 +1,134 @@
+/**
+ * Drawing History - records drawing edits as history commands
+ *
+ * Keeps a snapshot of the serialized drawings and compares it with the
+ * drawings whenever they change. A difference becomes one command that
+ * restores the snapshot before or after it, so creating, moving, editing,
+ * restyling and deleting drawings are undoable whichever code path made them.
+ *
+ * Drags are coalesced: between pause() and resume() nothing is recorded and
+ * the whole drag becomes a single entry when it ends.
+ */
+
+import { DrawingManager } from '../drawings/drawing-manager';
+import { SerializedDrawing } from '../drawings/drawing';
+import { HistoryManager } from './history-manager';
+
+export class DrawingHistory {
+    private readonly _drawingManager: DrawingManager;
+    private readonly _history: HistoryManager;
+
+    /** Deep copy of the drawings as last recorded */
+    private _snapshot: SerializedDrawing[] = [];
+    private _snapshotJson: string = '[]';
+    private _pauseCount: number = 0;
+
+    private readonly _onDrawingsChanged = () => this.checkpoint();
+
+    constructor(drawingManager: DrawingManager, history: HistoryManager) {
+        this._drawingManager = drawingManager;
+        this._history = history;
+        this.reset();
+        this._drawingManager.drawingsChanged.subscribe(this._onDrawingsChanged);
+    }
+
+    /** Stop recording, e.g. while a drawing is dragged */
+    pause(): void {
+        this._pauseCount++;
+    }
+
+    /** Record what changed since pause() as one entry */
+    resume(): void {
+        if (this._pauseCount === 0) return;
+        this._pauseCount--;
+        this.checkpoint();
+    }
+
+    /**
+     * Record the drawings if they differ from the last snapshot. Called on
+     * every drawingsChanged; edits that change a drawing in place (style
+     * from the attribute bar or the settings modal) call it themselves.
+     * @param mergeKey - merges quick successive edits, e.g. picking colors
+     */
+    checkpoint(mergeKey?: string): void {
+        if (this._pauseCount > 0 || this._history.isApplying) return;
+        // A drawing in progress is recorded once it is finished
+        if (this._drawingManager.activeDrawing !== null) return;
+
+        const json = this._serialize();
+        if (json === this._snapshotJson) return;
+
+        const before = this._snapshot;
+        const after: SerializedDrawing[] = JSON.parse(json);
+        this._snapshot = after;
+        this._snapshotJson = json;
+
+        this._history.push({
+            label: describeChange(before, after),
+            undo: () => this._restore(before),
+            redo: () => this._restore(after),
+            mergeKey,
+        });
+    }
+
+    /**
+     * Take the current drawings as the snapshot without recording them,
+     * e.g. after the drawings of another symbol were loaded
+     */
+    reset(): void {
+        this._snapshotJson = this._serialize();
+        this._snapshot = JSON.parse(this._snapshotJson);
+    }
+
+    destroy(): void {
+        this._drawingManager.drawingsChanged.unsubscribe(this._onDrawingsChanged);
+    }
+
+    // --- Private ---
+
+    /**
+     * Drawings as JSON; selecting a drawing is not an edit, and some drawings
+     * save their selected state
+     */
+    private _serialize(): string {
+        return JSON.stringify(this._drawingManager.serialize()
+            .map(drawing => ({ ...drawing, state: 'complete' })));
+    }
+
+    private _restore(drawings: SerializedDrawing[]): void {
+        // fromJSON keeps the point objects, moving the drawing would change the snapshot
+        this._drawingManager.deserialize(JSON.parse(JSON.stringify(drawings)));
+        this.reset();
+    }
+}
+
+/**
+ * Label of the difference between two snapshots
+ */
+function describeChange(before: SerializedDrawing[], after: SerializedDrawing[]): string {
+    const beforeById = new Map(before.map(drawing => [drawing.id, drawing]));
+    const afterIds = new Set(after.map(drawing => drawing.id));
+
+    const created = after.filter(drawing => !beforeById.has(drawing.id)).length;
+    const deleted = before.filter(drawing => !afterIds.has(drawing.id)).length;
+    if (created > 0 && deleted === 0) return created === 1 ? 'Create drawing' : 'Create drawings';
+    if (deleted > 0 && created === 0) return deleted === 1 ? 'Delete drawing' : 'Delete drawings';
+    if (created > 0) return 'Edit drawings';
+
+    if (after.some((drawing, index) => before[index].id !== drawing.id)) return 'Change drawing order';
+
+    const changed = (key: keyof SerializedDrawing) => after.filter(drawing => {
+        const previous = beforeById.get(drawing.id);
+        return previous !== undefined && JSON.stringify(previous[key]) !== JSON.stringify(drawing[key]);
+    });
+    if (changed('points').length > 0) return 'Move drawing';
+    if (changed('style').length > 0) return 'Change drawing style';
+
+    const hidden = changed('visible');
+    if (hidden.length > 0) return hidden[0].visible ? 'Show drawing' : 'Hide drawing';
+    const locked = changed('locked');
+    if (locked.length > 0) return locked[0].locked ? 'Lock drawing' : 'Unlock drawing';
+    if (changed('name').length > 0) return 'Rename drawing';
+    if (changed('group').length > 0) return 'Group drawings';
+    return 'Edit drawing';
+}
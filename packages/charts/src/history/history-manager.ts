@@ -0,0 +1,190 @@
+/**
+ * History Manager - Undo/redo stack of chart edits
+ *
+ * Every edit is pushed as a command that knows how to revert and re-apply
+ * itself. Commands pushed while an undo or redo runs are ignored, so the
+ * code paths that apply a change can record it without checking who called.
+ *
+ * Usage:
+ * ```typescript
+ * history.push({
+ *     label: 'Change theme',
+ *     undo: () => chart.setTheme('dark'),
+ *     redo: () => chart.setTheme('light'),
+ * });
+ * history.undo();
+ * ```
+ */
+
+import { Delegate } from '../helpers/delegate';
+
+/**
+ * A reversible edit
+ */
+export interface HistoryCommand {
+    /** Shown on the undo/redo buttons, e.g. 'Move drawing' */
+    readonly label: string;
+    undo(): void;
+    redo(): void;
+    /**
+     * Commands with the same key pushed within the merge window of each
+     * other become one entry, e.g. the steps of a color picker drag
+     */
+    readonly mergeKey?: string;
+}
+
+export interface HistoryOptions {
+    /** Entries kept on the undo stack (default: 100) */
+    maxDepth: number;
+    /** Time in ms within which commands with the same merge key are merged (default: 1000) */
+    mergeWindow: number;
+}
+
+const defaultHistoryOptions: HistoryOptions = {
+    maxDepth: 100,
+    mergeWindow: 1000,
+};
+
+interface HistoryEntry {
+    command: HistoryCommand;
+    time: number;
+}
+
+export class HistoryManager {
+    private _options: HistoryOptions;
+    private _undoStack: HistoryEntry[] = [];
+    private _redoStack: HistoryEntry[] = [];
+    private _applying: boolean = false;
+
+    private readonly _historyChanged = new Delegate<void>();
+
+    constructor(options: Partial<HistoryOptions> = {}) {
+        this._options = { ...defaultHistoryOptions, ...options };
+    }
+
+    /** Fired when an entry is pushed, undone or redone, and on clear */
+    get historyChanged(): Delegate<void> {
+        return this._historyChanged;
+    }
+
+    get canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this._redoStack.length > 0;
+    }
+
+    /** Label of the entry undo() reverts, null when there is none */
+    get undoLabel(): string | null {
+        return this._undoStack[this._undoStack.length - 1]?.command.label ?? null;
+    }
+
+    /** Label of the entry redo() re-applies, null when there is none */
+    get redoLabel(): string | null {
+        return this._redoStack[this._redoStack.length - 1]?.command.label ?? null;
+    }
+
+    /** Whether an undo or redo is running */
+    get isApplying(): boolean {
+        return this._applying;
+    }
+
+    get maxDepth(): number {
+        return this._options.maxDepth;
+    }
+
+    /**
+     * Entries kept on the undo stack, the oldest are dropped first
+     */
+    setMaxDepth(depth: number): void {
+        this._options.maxDepth = Math.max(0, Math.floor(depth));
+        this._trim();
+        this._historyChanged.fire();
+    }
+
+    /**
+     * Record an edit that was already applied. Clears the redo stack.
+     */
+    push(command: HistoryCommand): void {
+        if (this._applying || this._options.maxDepth === 0) return;
+
+        const now = Date.now();
+        const top = this._undoStack[this._undoStack.length - 1];
+        if (top && command.mergeKey !== undefined && top.command.mergeKey === command.mergeKey
+            && now - top.time <= this._options.mergeWindow) {
+            const first = top.command;
+            top.command = {
+                label: command.label,
+                mergeKey: command.mergeKey,
+                undo: () => first.undo(),
+                redo: () => command.redo(),
+            };
+            top.time = now;
+        } else {
+            this._undoStack.push({ command, time: now });
+            this._trim();
+        }
+
+        this._redoStack = [];
+        this._historyChanged.fire();
+    }
+
+    /** @returns false when there was nothing to undo */
+    undo(): boolean {
+        const entry = this._undoStack.pop();
+        if (!entry) return false;
+
+        this._apply(() => entry.command.undo());
+        this._redoStack.push(entry);
+        // Edits after an undo or redo never merge into the entry on top
+        const top = this._undoStack[this._undoStack.length - 1];
+        if (top) top.time = 0;
+        this._historyChanged.fire();
+        return true;
+    }
+
+    /** @returns false when there was nothing to redo */
+    redo(): boolean {
+        const entry = this._redoStack.pop();
+        if (!entry) return false;
+
+        this._apply(() => entry.command.redo());
+        entry.time = 0;
+        this._undoStack.push(entry);
+        this._historyChanged.fire();
+        return true;
+    }
+
+    /** Forget every entry, e.g. when the chart switches to another symbol */
+    clear(): void {
+        if (this._undoStack.length === 0 && this._redoStack.length === 0) return;
+        this._undoStack = [];
+        this._redoStack = [];
+        this._historyChanged.fire();
+    }
+
+    destroy(): void {
+        this._undoStack = [];
+        this._redoStack = [];
+        this._historyChanged.destroy();
+    }
+
+    // --- Private ---
+
+    private _apply(action: () => void): void {
+        this._applying = true;
+        try {
+            action();
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private _trim(): void {
+        const excess = this._undoStack.length - this._options.maxDepth;
+        if (excess > 0) {
+            this._undoStack.splice(0, excess);
+        }
+    }
+}
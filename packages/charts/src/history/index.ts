@@ -0,0 +1,7 @@
+/**
+ * History module - undo/redo of drawing, indicator and chart setting edits
+ */
+
+export * from './history-manager';
+export * from './drawing-history';
+export * from './indicator-history';
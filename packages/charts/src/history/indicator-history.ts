@@ -0,0 +1,101 @@
+/**
+ * Indicator History - history commands for adding, removing and changing indicators
+ *
+ * Removed indicators are restored from their serialized form with the same
+ * ID, the way saved layouts are loaded, so anything following the ID (alerts,
+ * drawings in the indicator's pane) finds them again.
+ */
+
+import { Indicator, IndicatorOptions } from '../indicators/indicator';
+import { IndicatorManager, SerializedIndicator } from '../indicators/indicator-manager';
+import { HistoryManager } from './history-manager';
+
+/**
+ * What undo and redo need from the chart
+ */
+export interface IndicatorHistoryHost {
+    /** Put a restored indicator on the chart (main pane or its own pane) */
+    addIndicator(indicator: Indicator): void;
+    removeIndicator(id: string): void;
+    /** Options of the indicator were restored */
+    indicatorChanged(indicator: Indicator): void;
+}
+
+export class IndicatorHistory {
+    private readonly _manager: IndicatorManager;
+    private readonly _history: HistoryManager;
+    private readonly _host: IndicatorHistoryHost;
+
+    constructor(manager: IndicatorManager, history: HistoryManager, host: IndicatorHistoryHost) {
+        this._manager = manager;
+        this._history = history;
+        this._host = host;
+    }
+
+    recordAdded(indicator: Indicator): void {
+        const item = clone(this._manager.serializeIndicator(indicator));
+        this._history.push({
+            label: 'Add indicator',
+            undo: () => this._host.removeIndicator(item.id),
+            redo: () => this._restore(item),
+        });
+    }
+
+    /** Call after the indicator was removed */
+    recordRemoved(indicator: Indicator): void {
+        const item = clone(this._manager.serializeIndicator(indicator));
+        this._history.push({
+            label: 'Remove indicator',
+            undo: () => this._restore(item),
+            redo: () => this._host.removeIndicator(item.id),
+        });
+    }
+
+    /**
+     * Copy of the options to pass to recordOptionsChanged, taken before a change
+     */
+    captureOptions(indicator: Indicator): IndicatorOptions {
+        return clone(indicator.options);
+    }
+
+    /**
+     * Record a settings change (inputs, style, visibility)
+     * @param before - captureOptions() from before the change
+     */
+    recordOptionsChanged(indicator: Indicator, before: IndicatorOptions, label: string = 'Change indicator settings'): void {
+        const after = clone(indicator.options);
+        if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+        const id = indicator.id;
+        this._history.push({
+            label,
+            undo: () => this._applyOptions(id, before),
+            redo: () => this._applyOptions(id, after),
+        });
+    }
+
+    // --- Private ---
+
+    private _restore(item: SerializedIndicator): void {
+        if (this._manager.hasIndicator(item.id)) return;
+
+        const indicator = this._manager.createFromSerialized(clone(item));
+        if (indicator) {
+            this._host.addIndicator(indicator);
+        }
+    }
+
+    private _applyOptions(id: string, options: IndicatorOptions): void {
+        // Looked up by ID, a removed and restored indicator is a new instance
+        const indicator = this._manager.getIndicator(id);
+        if (!indicator) return;
+
+        indicator.applyOptions(clone(options));
+        this._manager.recalculateIndicator(id);
+        this._host.indicatorChanged(indicator);
+    }
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
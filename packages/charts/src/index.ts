@@ -1,11 +1,37 @@
 // Model exports
-export { ChartModel, ChartModelOptions, LayoutOptions, GridOptions, CrosshairOptions } from './model/chart-model';
+export { ChartModel, ChartModelOptions, LayoutOptions, GridOptions, CrosshairOptions, SessionOptions, PriceScaleItem } from './model/chart-model';
 export { TimeScale, TimeScaleOptions, VisibleRange } from './model/time-scale';
 export { PriceScale, PriceScaleOptions, PriceScaleMode, PriceScaleMargins, PriceMark, PriceRange } from './model/price-scale';
 export { Series, SeriesType, SeriesOptionsBase, BarWithCoordinates } from './model/series';
 export { CandlestickSeries, CandlestickSeriesOptions } from './model/candlestick-series';
 export { LineSeries, LineSeriesOptions } from './model/line-series';
 export { AreaSeries, AreaSeriesOptions } from './model/area-series';
+export { BarSeries, BarSeriesOptions } from './model/bar-series';
+export { HollowCandleSeries, HollowCandleSeriesOptions } from './model/hollow-candle-series';
+export { BaselineSeries, BaselineSeriesOptions } from './model/baseline-series';
+export { StepLineSeries, StepLineSeriesOptions } from './model/step-line-series';
+export { ColumnSeries, ColumnSeriesOptions } from './model/column-series';
+export { HlcAreaSeries, HlcAreaSeriesOptions } from './model/hlc-area-series';
+export { OrderbookHistory, OrderbookHistoryOptions, OrderbookHistoryColumn } from './model/orderbook-history';
+export {
+    LiquidationMap,
+    LiquidationMapOptions,
+    LiquidationColumn,
+    LiquidationLevel,
+    LeverageTier,
+    OpenInterestSample,
+    DEFAULT_LEVERAGE_TIERS,
+} from './model/liquidation-map';
+
+// Transformed series (Heiken Ashi and non-time-based chart types)
+export { TransformedSeries, BoxSizeMethod } from './series/transformed-series';
+export { HeikenAshiSeries, HeikenAshiSeriesOptions } from './series/heiken-ashi-series';
+export { RenkoSeries, RenkoSeriesOptions } from './series/renko-series';
+export { CompareSeries, CompareSeriesOptions } from './series/compare-series';
+export { RangeSeries, RangeSeriesOptions } from './series/range-series';
+export { KagiSeries, KagiSeriesOptions, KagiBar, KagiReversalMethod } from './series/kagi-series';
+export { PointFigureSeries, PointFigureSeriesOptions, PointFigureColumn } from './series/point-figure-series';
+export { LineBreakSeries, LineBreakSeriesOptions } from './series/line-break-series';
 
 // Data types
 export { BarData, LineData, WhitespaceData, SeriesDataItem, BarCoordinates, isBarData, isLineData } from './model/data';
@@ -15,17 +41,41 @@ export { Coordinate, TimePointIndex, BarPrice, coordinate, timePointIndex, barPr
 export { CandlestickRenderer } from './renderers/candlestick-renderer';
 export { LineRenderer } from './renderers/line-renderer';
 export { AreaRenderer } from './renderers/area-renderer';
+export { BarRenderer } from './renderers/bar-renderer';
+export { HollowCandleRenderer } from './renderers/hollow-candle-renderer';
+export { BaselineRenderer } from './renderers/baseline-renderer';
+export { StepLineRenderer } from './renderers/step-line-renderer';
+export { ColumnRenderer } from './renderers/column-renderer';
+export { HlcAreaRenderer } from './renderers/hlc-area-renderer';
 export { GridRenderer } from './renderers/grid-renderer';
+export { SessionRenderer } from './renderers/session-renderer';
+export { OrderbookHeatmapRenderer, HeatmapOptions } from './renderers/orderbook-heatmap-renderer';
+export {
+    LiquidationHeatmapRenderer,
+    LiquidationHeatmapOptions,
+    LiquidationDisplay,
+} from './renderers/liquidation-heatmap-renderer';
 
 // GUI Widgets
-export { ChartWidget, createChart } from './gui/chart-widget';
+export { ChartWidget, createChart, HistoryLoader, CrosshairSyncPosition, VisibleTimeRange } from './gui/chart-widget';
 export { PaneWidget } from './gui/pane-widget';
-export { PriceAxisWidget } from './gui/price-axis-widget';
+export { PriceAxisWidget, PriceAxisWidgetOptions } from './gui/price-axis-widget';
 export { TimeAxisWidget } from './gui/time-axis-widget';
 
 // Helpers
 export { Delegate } from './helpers/delegate';
 export { clamp, lerp, isInteger, roundTo, niceNumber, generateAxisValues } from './helpers/math';
+export { PriceFormat, TickSizeTier, decimalsOf, tickSizeAt, roundToTick, formatPriceWith } from './helpers/price-format';
+export { localTimeZone, toZonedTime, fromZonedTime } from './helpers/timezone';
+export {
+    TradingSession,
+    EXCHANGE_TIME_ZONES,
+    EXCHANGE_SESSIONS,
+    exchangeTimeZone,
+    exchangeSession,
+    sessionDayOf,
+    isInSession,
+} from './helpers/sessions';
 export { ensureNotNull, ensureDefined, assert } from './helpers/assertions';
 
 // Indicators
@@ -38,6 +88,16 @@ export {
     IndicatorDataPoint,
     IndicatorRange,
     IndicatorManager,
+    TimeframeDataLoader,
+    IndicatorMarketContext,
+    DerivativesConsumer,
+    isDerivativesConsumer,
+    TradeConsumer,
+    isTradeConsumer,
+    MarketContextConsumer,
+    isMarketContextConsumer,
+    LowerTimeframeConsumer,
+    isLowerTimeframeConsumer,
     IndicatorPaneWidget,
     IndicatorPaneOptions,
     OverlayIndicatorRenderer,
@@ -45,6 +105,14 @@ export {
     RSIIndicatorOptions,
     ZigZagIndicator,
     ZigZagIndicatorOptions,
+    IndicatorCategory,
+    IndicatorDefinition,
+    registerIndicator,
+    unregisterIndicator,
+    getIndicatorDefinition,
+    getIndicatorDefinitions,
+    createIndicator,
+    getIndicatorType,
 } from './indicators';
 
 export * from './patterns';
@@ -60,13 +128,200 @@ export {
     TrendLineDrawing,
     DrawingManager,
     DrawingMode,
+    DrawingClipboard,
+    PositionTrade,
+    PositionTradeStatus,
 } from './drawings';
 
+// Alerts
+export {
+    Alert,
+    AlertCondition,
+    AlertEvent,
+    AlertFrequency,
+    AlertOperand,
+    AlertOperator,
+    AlertOptions,
+    AlertStatus,
+    SerializedAlert,
+    NotificationSink,
+    AlertManager,
+    CallbackNotificationSink,
+    WebhookNotificationSink,
+    WebhookNotificationOptions,
+} from './alerts';
+export { ToastNotificationSink, ToastNotificationOptions } from './gui/alerts_panel';
+
+// Bar Replay
+export {
+    ReplayController,
+    ReplayHost,
+    ReplayProviderOptions,
+    REPLAY_SPEEDS,
+} from './replay';
+
+// Comparisons
+export {
+    ComparisonManager,
+    ComparisonOptions,
+    ComparisonProviderOptions,
+    COMPARISON_COLORS,
+} from './comparison';
+
+// Derivatives
+export {
+    DerivativesFeed,
+    DerivativesFeedLink,
+    DerivativesFeedOptions,
+    DerivativesStream,
+    BarLiquidations,
+    liquidationsPerBar,
+    fundingPerBar,
+    fundingIntervalHours,
+} from './derivatives';
+export {
+    OpenInterestIndicator,
+    OpenInterestIndicatorOptions,
+    OpenInterestDisplay,
+    FundingRateIndicator,
+    FundingRateIndicatorOptions,
+    LiquidationsIndicator,
+    LiquidationsIndicatorOptions,
+    LiquidationBubblesIndicator,
+    LiquidationBubblesIndicatorOptions,
+} from './indicators';
+
+// Liquidations
+export { LiquidationManager, LiquidationProviderOptions } from './liquidations';
+export { LiquidationPanel } from './gui/liquidation_panel';
+
+// Volume Profile
+export {
+    VolumeProfile,
+    VolumeProfileOptions,
+    VolumeProfileRow,
+    VolumeProfileRowLayout,
+    VolumeProfilePeriod,
+    buildVolumeProfile,
+    profilePeriods,
+    autoLowerTimeframe,
+    resolveLowerTimeframe,
+} from './model/volume-profile';
+export { VolumeProfileRenderer, VolumeProfileStyle, VolumeProfileArea } from './renderers/volume-profile-renderer';
+export {
+    VolumeProfileIndicator,
+    VolumeProfileIndicatorOptions,
+    VisibleRangeVolumeProfileIndicator,
+    VisibleRangeVolumeProfileIndicatorOptions,
+    SessionVolumeProfileIndicator,
+    SessionVolumeProfileIndicatorOptions,
+} from './indicators';
+export { FixedRangeVolumeProfileDrawing, FixedRangeVolumeProfileOptions } from './drawings';
+
+// Order Flow
+export {
+    TradeFeed,
+    TradeFeedLink,
+    TradeBucket,
+    TradeVolume,
+    TRADE_BUCKET_MS,
+    FootprintBar,
+    FootprintLevel,
+    FootprintImbalances,
+    BarDelta,
+    buildFootprintBar,
+    footprintImbalances,
+    deltaPerBar,
+} from './orderflow';
+export { FootprintSeries, FootprintSeriesOptions, defaultFootprintOptions } from './series/footprint-series';
+export { FootprintRenderer } from './renderers/footprint-renderer';
+export {
+    CumulativeVolumeDeltaIndicator,
+    CumulativeVolumeDeltaIndicatorOptions,
+    CumulativeVolumeDeltaAnchor,
+    CumulativeVolumeDeltaDisplay,
+} from './indicators';
+
+// Layouts
+export {
+    LayoutType,
+    LayoutTemplate,
+    LayoutCell,
+    LayoutSizes,
+    LAYOUT_TEMPLATES,
+    ChartSync,
+    LinkGroup,
+    LinkOptions,
+    LINK_GROUPS,
+    LINK_GROUP_COLORS,
+    DEFAULT_LINK_OPTIONS,
+} from './layout';
+export {
+    LayoutManager,
+    LayoutManagerOptions,
+    LayoutChartOptions,
+    LayoutChartFactory,
+    SavedLayout,
+    SavedLayoutChart,
+} from './gui/chart_layout';
+
+// Undo / Redo
+export {
+    HistoryManager,
+    HistoryCommand,
+    HistoryOptions,
+    DrawingHistory,
+    IndicatorHistory,
+    IndicatorHistoryHost,
+} from './history';
+
+// Trading
+export {
+    IBroker,
+    Order,
+    OrderSide,
+    OrderType,
+    OrderStatus,
+    OrderRequest,
+    OrderModification,
+    Position,
+    Execution,
+    AccountState,
+    PaperBroker,
+    PaperBrokerOptions,
+    isOpenOrder,
+} from './trading';
+
+// Pine Script
+export {
+    PineScript,
+    PineError,
+    PineErrorKind,
+    PineBar,
+    PineDeclaration,
+    PineInputDefinition,
+    PineInputValue,
+    PineOutput,
+    compilePine,
+} from './pine';
+export {
+    PineOverlayIndicator,
+    PinePanelIndicator,
+    PineIndicator,
+    PineIndicatorOptions,
+    createPineIndicator,
+} from './indicators';
+export { PineEditor } from './gui/pine_editor';
+
 // State Management
 export {
     ChartStateManager,
     ChartState,
     StorageAdapter,
+    DrawingTemplateManager,
+    DrawingTemplate,
+    DrawingTemplateProperties,
+    drawingTemplateProperties,
 } from './state';
 
 // Data Providers (Modular data source system)
@@ -40,6 +40,11 @@ export class ABCDPatternIndicator extends OverlayIndicator {
         this._abcdOptions = { ...defaultABCDPatternIndicatorOptions, ...this._options } as ABCDPatternIndicatorOptions;
     }
 
+    /** Patterns are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._abcdOptions };
     }
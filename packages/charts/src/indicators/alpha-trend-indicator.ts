@@ -220,6 +220,35 @@ export class AlphaTrendIndicator extends OverlayIndicator {
         }));
     }
 
+    /**
+     * Higher timeframe states onto the chart bars: each bar keeps the state of
+     * the last closed timeframe bar, signals only show on the bar it closed on
+     */
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+
+        const states = this._states;
+        this._states = indexMap.map((j, i) => {
+            const time = sourceData[i].time;
+            const state = j >= 0 ? states[j] : undefined;
+            if (!state) {
+                return {
+                    time, index: i, alpha: NaN, alpha2: NaN, fillColor: this._alphaTrendOptions.bearishFillColor,
+                    buySignal: false, sellSignal: false, validBuySignal: false, validSellSignal: false,
+                    buyPrice: null, sellPrice: null,
+                };
+            }
+            if (i === 0 || indexMap[i - 1] !== j) {
+                return { ...state, time, index: i };
+            }
+            return {
+                ...state, time, index: i,
+                buySignal: false, sellSignal: false, validBuySignal: false, validSellSignal: false,
+                buyPrice: null, sellPrice: null,
+            };
+        });
+    }
+
     getRange(): IndicatorRange {
         if (this._states.length === 0) {
             return { min: 0, max: 100 };
@@ -229,6 +258,8 @@ export class AlphaTrendIndicator extends OverlayIndicator {
         let max = -Infinity;
 
         for (const state of this._states) {
+            // Bars before the first closed higher timeframe bar have no value
+            if (!Number.isFinite(state.alpha)) continue;
             min = Math.min(min, state.alpha);
             max = Math.max(max, state.alpha);
             if (Number.isFinite(state.alpha2)) {
@@ -245,7 +276,7 @@ export class AlphaTrendIndicator extends OverlayIndicator {
             }
         }
 
-        return { min, max };
+        return min === Infinity ? { min: 0, max: 100 } : { min, max };
     }
 
     getDescription(index?: number): string {
@@ -81,6 +81,10 @@ export class BBIndicator extends OverlayIndicator {
         }
     }
 
+    protected _getWarmupBars(): number {
+        return this._bbOptions.period - 1;
+    }
+
     calculate(sourceData: BarData[]): void {
         this._data = [];
         const period = this._bbOptions.period;
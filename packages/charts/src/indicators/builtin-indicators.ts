@@ -0,0 +1,438 @@
+/**
+ * Built-in indicator types
+ *
+ * The types are the ids saved charts use since before the registry existed.
+ */
+
+import { IndicatorDefinition } from './indicator-registry';
+import { EMAIndicator } from './ema-indicator';
+import { RSIIndicator } from './rsi-indicator';
+import { SMAIndicator } from './sma-indicator';
+import { BBIndicator } from './bb-indicator';
+import { MACDIndicator } from './macd-indicator';
+import { StochIndicator } from './stoch-indicator';
+import { ParabolicSARIndicator } from './parabolic-sar-indicator';
+import { HalfTrendIndicator } from './halftrend-indicator';
+import { SuperTrendIndicator } from './supertrend-indicator';
+import { AlphaTrendIndicator } from './alpha-trend-indicator';
+import { IchimokuIndicator } from './ichimoku-indicator';
+import { VolumeIndicator } from './volume-indicator';
+import { HMAIndicator } from './hma-indicator';
+import { StochRSIIndicator } from './stoch-rsi-indicator';
+import { TdojiOscillatorIndicator } from './tdoji-oscillator-indicator';
+import { ThunderbirdxIndicator } from './thunderbirdx-indicator';
+import { TdojiSRIndicator } from './tdoji-sr-indicator';
+import { TdojiMomIndicator } from './tdoji-mom-indicator';
+import { PineOverlayIndicator, PinePanelIndicator, createPineIndicator } from './pine-indicator';
+import { ZigZagIndicator } from './zigzag-indicator';
+import { ABCDPatternIndicator } from './abcd-pattern-indicator';
+import { HarmonicPatternIndicator } from './harmonic-pattern-indicator';
+import { ChartPatternsIndicator } from './chart-patterns-indicator';
+import { ZigZagTrendlineIndicator } from './zigzag-trendline-indicator';
+import { TrendlineBreakoutIndicator } from './trendline-breakout-indicator';
+import { OpenInterestIndicator } from './open-interest-indicator';
+import { FundingRateIndicator } from './funding-rate-indicator';
+import { LiquidationsIndicator } from './liquidations-indicator';
+import { CumulativeVolumeDeltaIndicator } from './cvd-indicator';
+import { LiquidationBubblesIndicator } from './liquidation-bubbles-indicator';
+import { VisibleRangeVolumeProfileIndicator } from './visible-range-volume-profile-indicator';
+import { SessionVolumeProfileIndicator } from './session-volume-profile-indicator';
+
+export const BUILTIN_INDICATORS: IndicatorDefinition<any>[] = [
+    {
+        type: 'EMA',
+        name: 'Exponential Moving Average',
+        shortName: 'EMA',
+        description: 'Trend-following indicator that gives more weight to recent prices',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new EMAIndicator(options),
+        defaults: { period: 20 },
+        matches: (indicator) => indicator instanceof EMAIndicator,
+    },
+    {
+        type: 'RSI',
+        name: 'Relative Strength Index',
+        shortName: 'RSI',
+        description: 'Momentum oscillator measuring speed and change of price movements',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new RSIIndicator(options),
+        defaults: { period: 14 },
+        matches: (indicator) => indicator instanceof RSIIndicator,
+    },
+    {
+        type: 'SMA',
+        name: 'Simple Moving Average',
+        shortName: 'SMA',
+        description: 'Average price over a specified period',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new SMAIndicator(options),
+        defaults: { period: 20 },
+        matches: (indicator) => indicator instanceof SMAIndicator,
+    },
+    {
+        type: 'BollingerBands',
+        name: 'Bollinger Bands',
+        shortName: 'BB',
+        description: 'Volatility bands placed above and below a moving average',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new BBIndicator(options),
+        defaults: { period: 20, stdDev: 2 },
+        matches: (indicator) => indicator instanceof BBIndicator,
+    },
+    {
+        type: 'MACD',
+        name: 'MACD',
+        shortName: 'MACD',
+        description: 'Trend-following momentum indicator showing relationship between two EMAs',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new MACDIndicator(options),
+        defaults: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+        matches: (indicator) => indicator instanceof MACDIndicator,
+    },
+    {
+        type: 'Stochastic',
+        name: 'Stochastic',
+        shortName: 'STOCH',
+        description: 'Momentum indicator comparing closing price to price range',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new StochIndicator(options),
+        defaults: { kPeriod: 14, sPeriod: 3, dPeriod: 3 },
+        matches: (indicator) => indicator instanceof StochIndicator,
+    },
+    {
+        type: 'SAR',
+        name: 'Parabolic SAR',
+        shortName: 'SAR',
+        description: 'Stop and Reverse indicator that identifies potential trend reversals',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new ParabolicSARIndicator(options),
+        defaults: { start: 0.02, increment: 0.02, maximum: 0.20 },
+        matches: (indicator) => indicator instanceof ParabolicSARIndicator,
+    },
+    {
+        type: 'HalfTrend',
+        name: 'HalfTrend',
+        shortName: 'HT',
+        description: 'Trend reversal overlay with ATR channels and buy/sell signals',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new HalfTrendIndicator(options),
+        defaults: {
+            amplitude: 2,
+            channelDeviation: 2,
+            showArrows: true,
+            showChannels: true,
+            showLabels: true,
+        },
+        matches: (indicator) => indicator instanceof HalfTrendIndicator,
+    },
+    {
+        type: 'SuperTrend',
+        name: 'SuperTrend',
+        shortName: 'ST',
+        description: 'ATR tabanli trend takip overlay indikatori',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new SuperTrendIndicator(options),
+        defaults: {
+            period: 10,
+            multiplier: 3,
+            changeATR: true,
+            showSignals: true,
+            highlighting: true,
+        },
+        matches: (indicator) => indicator instanceof SuperTrendIndicator,
+    },
+    {
+        type: 'AlphaTrend',
+        name: 'AlphaTrend',
+        shortName: 'AT',
+        description: 'ATR ve RSI/MFI tabanli trend overlay indikatori',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new AlphaTrendIndicator(options),
+        defaults: {
+            multiplier: 1,
+            commonPeriod: 14,
+            showSignals: true,
+            noVolumeData: false,
+        },
+        matches: (indicator) => indicator instanceof AlphaTrendIndicator,
+    },
+    {
+        type: 'Ichimoku',
+        name: 'Ichimoku Cloud',
+        shortName: 'ICHI',
+        description: 'Conversion, base, lagging spans and kumo cloud overlay',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new IchimokuIndicator(options),
+        defaults: {
+            conversionPeriods: 9,
+            basePeriods: 26,
+            laggingSpan2Periods: 52,
+            displacement: 26,
+        },
+        matches: (indicator) => indicator instanceof IchimokuIndicator,
+    },
+    {
+        type: 'Volume',
+        name: 'Volume',
+        shortName: 'Vol',
+        description: 'Measures the number of shares or contracts traded in a security or market during a given period',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new VolumeIndicator(options),
+        matches: (indicator) => indicator instanceof VolumeIndicator,
+    },
+    {
+        type: 'HMA',
+        name: 'Hull Moving Average',
+        shortName: 'HMA',
+        description: 'Modified moving average with reduced lag and increased smoothness',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new HMAIndicator(options),
+        defaults: { period: 9 },
+        matches: (indicator) => indicator instanceof HMAIndicator,
+    },
+    {
+        type: 'StochasticRSI',
+        name: 'Stochastic RSI',
+        shortName: 'StochRSI',
+        description: 'Combines Stochastic oscillator with RSI to identify overbought/oversold levels of the RSI',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new StochRSIIndicator(options),
+        defaults: { rsiPeriod: 14, stochPeriod: 14, kPeriod: 3, dPeriod: 3 },
+        matches: (indicator) => indicator instanceof StochRSIIndicator,
+    },
+    {
+        type: 'OpenInterest',
+        name: 'Open Interest',
+        shortName: 'OI',
+        description: 'Open interest of the futures contract, as a line or its change per bar',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new OpenInterestIndicator(options),
+        defaults: { display: 'value' },
+        matches: (indicator) => indicator instanceof OpenInterestIndicator,
+    },
+    {
+        type: 'FundingRate',
+        name: 'Funding Rate',
+        shortName: 'Funding',
+        description: 'Perpetual funding rate per period or annualized, with the predicted next rate',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new FundingRateIndicator(options),
+        defaults: { annualized: false },
+        matches: (indicator) => indicator instanceof FundingRateIndicator,
+    },
+    {
+        type: 'Liquidations',
+        name: 'Liquidations',
+        shortName: 'Liq',
+        description: 'Long and short liquidation notional per bar',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new LiquidationsIndicator(options),
+        matches: (indicator) => indicator instanceof LiquidationsIndicator,
+    },
+    {
+        type: 'LiquidationBubbles',
+        name: 'Liquidation Bubbles',
+        shortName: 'Liq Bubbles',
+        description: 'Liquidations on the price chart, sized by notional',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new LiquidationBubblesIndicator(options),
+        defaults: { minNotional: 10000 },
+        matches: (indicator) => indicator instanceof LiquidationBubblesIndicator,
+    },
+    {
+        type: 'VisibleRangeVolumeProfile',
+        name: 'Visible Range Volume Profile',
+        shortName: 'VRVP',
+        description: 'Volume at price of the bars in view, with point of control and value area',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new VisibleRangeVolumeProfileIndicator(options),
+        matches: (indicator) => indicator instanceof VisibleRangeVolumeProfileIndicator,
+    },
+    {
+        type: 'SessionVolumeProfile',
+        name: 'Session Volume Profile',
+        shortName: 'SVP',
+        description: 'Volume at price of each trading session, day or week',
+        category: 'standard',
+        overlay: true,
+        factory: (options) => new SessionVolumeProfileIndicator(options),
+        matches: (indicator) => indicator instanceof SessionVolumeProfileIndicator,
+    },
+    {
+        type: 'CumulativeVolumeDelta',
+        name: 'Cumulative Volume Delta',
+        shortName: 'CVD',
+        description: 'Running buy minus sell volume of the live trades, optionally reset each session, day or week',
+        category: 'standard',
+        overlay: false,
+        factory: (options) => new CumulativeVolumeDeltaIndicator(options),
+        defaults: { anchor: 'none' },
+        matches: (indicator) => indicator instanceof CumulativeVolumeDeltaIndicator,
+    },
+    {
+        type: 'TdojiOscillator',
+        name: 'Tdoji Oscilator',
+        shortName: 'TDOJI',
+        description: 'Linear regression slope oscillator with EMA smoothing, SMA signal, and zero-line context',
+        category: 'custom',
+        overlay: false,
+        factory: (options) => new TdojiOscillatorIndicator(options),
+        defaults: { curveLength: 144, slopeLength: 5, signalLength: 21 },
+        matches: (indicator) => indicator instanceof TdojiOscillatorIndicator,
+    },
+    {
+        type: 'Thunderbirdx',
+        name: 'Thunderbirdx',
+        shortName: 'TBX',
+        description: 'Sinc momentum, MA and convergence-divergence histogram oscillator',
+        category: 'custom',
+        overlay: false,
+        factory: (options) => new ThunderbirdxIndicator(options),
+        matches: (indicator) => indicator instanceof ThunderbirdxIndicator,
+    },
+    {
+        type: 'TdojiSR',
+        name: 'TDOJI-SR',
+        shortName: 'SR',
+        description: 'Prev close based support and resistance ladder with labels and level notes',
+        category: 'custom',
+        overlay: true,
+        factory: (options) => new TdojiSRIndicator(options),
+        matches: (indicator) => indicator instanceof TdojiSRIndicator,
+    },
+    {
+        type: 'TdojiMom',
+        name: 'TDOJI MOM',
+        shortName: 'MOM',
+        description: 'EMA(60) tabanli close farkini kolon histogram olarak gosterir',
+        category: 'custom',
+        overlay: false,
+        factory: (options) => new TdojiMomIndicator(options),
+        defaults: { period: 60 },
+        matches: (indicator) => indicator instanceof TdojiMomIndicator,
+    },
+    {
+        type: 'Pine',
+        name: 'Pine Script',
+        shortName: 'PINE',
+        description: 'Write your own indicator in Pine Script v5',
+        category: 'custom',
+        overlay: true,
+        // Its editor opens from the indicator search, see ChartWidget.openPineEditor()
+        factory: (options) => createPineIndicator(options.source ?? '', options),
+        matches: (indicator) => indicator instanceof PineOverlayIndicator || indicator instanceof PinePanelIndicator,
+    },
+    {
+        type: 'ZigZag',
+        name: 'ZigZag',
+        shortName: 'ZZ',
+        description: 'Pivot high ve low noktalarini deviation filtresi ile birlestiren formasyon indikatori',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new ZigZagIndicator(options),
+        defaults: { period: 15 },
+        matches: (indicator) => indicator instanceof ZigZagIndicator,
+    },
+    {
+        type: 'ABCDPattern',
+        name: 'ABCD Pattern',
+        shortName: 'ABCD',
+        description: 'ZigZag pivotlarindan bullish veya bearish ABCD harmonic formasyonu tespit eder',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new ABCDPatternIndicator(options),
+        defaults: { period: 15 },
+        matches: (indicator) => indicator instanceof ABCDPatternIndicator,
+    },
+    {
+        type: 'HarmonicPattern',
+        name: 'Harmonic Patterns',
+        shortName: 'HARM',
+        description: 'ABCD ve Gartley patternlerini ortak zigzag pivotlariyla tespit eder',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new HarmonicPatternIndicator(options),
+        defaults: { period: 15, showABCD: true, showGartley: true },
+        matches: (indicator) => indicator instanceof HarmonicPatternIndicator,
+    },
+    {
+        type: 'ChartPatterns',
+        name: 'Chart Patterns',
+        shortName: 'CHART',
+        description: 'Cifte tepe, cifte dip, flama ve bayrak gibi klasik grafik formasyonlarini tespit eder',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new ChartPatternsIndicator(options),
+        defaults: {
+            period: 15,
+            showDoubleTop: true,
+            showDoubleBottom: true,
+            showBullPennant: true,
+            showBearPennant: true,
+            showBullFlag: true,
+            showBearFlag: true,
+            showBullWedgeCont: true,
+            showBearWedgeCont: true,
+            showBullWedgeRev: true,
+            showBearWedgeRev: true,
+            showHeadAndShoulders: true,
+            showInverseHeadAndShoulders: true,
+            showCupAndHandle: true,
+            showAscendingTriangle: true,
+            showPrediction: true,
+            showHistory: false,
+        },
+        matches: (indicator) => indicator instanceof ChartPatternsIndicator,
+    },
+    {
+        type: 'ZigZagTrendline',
+        name: 'Trendline',
+        shortName: 'TL',
+        description: 'ZigZag pivotlarindan otomatik trendline cizer',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new ZigZagTrendlineIndicator(options),
+        defaults: { period: 15, pivotCount: 2, showHistory: false },
+        matches: (indicator) => indicator instanceof ZigZagTrendlineIndicator,
+    },
+    {
+        type: 'TrendlineBreakout',
+        name: 'Trendline Breakout',
+        shortName: 'TL BO',
+        description: 'Alcalan veya yukselen zigzag trendline kirilimlarini tespit eder',
+        category: 'pattern',
+        overlay: true,
+        factory: (options) => new TrendlineBreakoutIndicator(options),
+        defaults: {
+            period: 20,
+            useLength8: true,
+            useLength10: true,
+            useLength15: true,
+            useLength30: true,
+            volumeSpikeMultiplier: 1,
+            showHistory: false,
+            showBullBreakout: true,
+            showBearBreakdown: true,
+        },
+        matches: (indicator) => indicator instanceof TrendlineBreakoutIndicator,
+    },
+];
@@ -70,6 +70,11 @@ export class ChartPatternsIndicator extends OverlayIndicator {
         this._optionsEx = { ...defaults, ...this._options } as ChartPatternsIndicatorOptions;
     }
 
+    /** Patterns are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._optionsEx };
     }
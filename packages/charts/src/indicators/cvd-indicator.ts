@@ -0,0 +1,246 @@
+/**
+ * Cumulative Volume Delta Indicator
+ *
+ * Running sum of the aggressive buy minus sell volume of the live trades,
+ * as candles of each bar's delta or a line of their closes. The sum can start
+ * over every session, day or week. Bars from before the trade feed started
+ * have no value.
+ */
+
+import { PanelIndicator, IndicatorOptions, IndicatorRange } from './indicator';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { TimePointIndex } from '../model/coordinate';
+import { VolumeProfilePeriod, profilePeriods } from '../model/volume-profile';
+import { TradeFeed, TradeFeedLink } from '../orderflow/trade-feed';
+import { deltaPerBar } from '../orderflow/footprint';
+import { IndicatorMarketContext, MarketContextConsumer, TradeConsumer } from './indicator-manager';
+import { drawLevel, drawLine, formatCompact } from './derivatives-renderer';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    createVisibilityTab,
+    colorRow,
+    lineWidthRow,
+    selectRow,
+} from '../gui/indicator_settings';
+
+export type CumulativeVolumeDeltaAnchor = 'none' | VolumeProfilePeriod;
+export type CumulativeVolumeDeltaDisplay = 'candles' | 'line';
+
+/**
+ * Cumulative Volume Delta indicator options
+ */
+export interface CumulativeVolumeDeltaIndicatorOptions extends IndicatorOptions {
+    /** Period the sum starts over on, 'none' sums all trades */
+    anchor: CumulativeVolumeDeltaAnchor;
+    display: CumulativeVolumeDeltaDisplay;
+    upColor: string;
+    downColor: string;
+}
+
+const defaultCvdOptions: Partial<CumulativeVolumeDeltaIndicatorOptions> = {
+    name: 'Cumulative Volume Delta',
+    anchor: 'none',
+    display: 'candles',
+    color: '#2962ff',
+    lineWidth: 1.5,
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+};
+
+/** CVD of one bar */
+interface CvdBar {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+export class CumulativeVolumeDeltaIndicator extends PanelIndicator implements TradeConsumer, MarketContextConsumer {
+    private _cvdOptions: CumulativeVolumeDeltaIndicatorOptions;
+    private _market: IndicatorMarketContext = { session: null, timeZone: 'UTC', priceFormat: null };
+    private readonly _link = new TradeFeedLink(() => this._invalidate());
+    private _bars: (CvdBar | null)[] = [];
+    /** Trades changed since the last calculation, recalculated when drawn */
+    private _stale: boolean = false;
+
+    constructor(options: Partial<CumulativeVolumeDeltaIndicatorOptions> = {}) {
+        const mergedOptions = { ...defaultCvdOptions, ...options };
+        super(mergedOptions);
+        this._cvdOptions = { ...defaultCvdOptions, ...this._options } as CumulativeVolumeDeltaIndicatorOptions;
+        this._paneHeight = 100;
+    }
+
+    /** Trades are summed on the chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Feed the trades come from, set by the indicator manager */
+    setTradeFeed(feed: TradeFeed | null): void {
+        this._link.setFeed(feed);
+        this._refresh();
+    }
+
+    /** Session and time zone the anchor periods follow, set by the indicator manager */
+    setMarketContext(context: IndicatorMarketContext): void {
+        this._market = context;
+        this._refresh();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._cvdOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: this.name,
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('anchor', 'Anchor', [
+                            { value: 'none', label: 'None' },
+                            { value: 'session', label: 'Session' },
+                            { value: 'day', label: 'Day' },
+                            { value: 'week', label: 'Week' },
+                        ], this._cvdOptions.anchor),
+                        selectRow('display', 'Display', [
+                            { value: 'candles', label: 'Candles' },
+                            { value: 'line', label: 'Line' },
+                        ], this._cvdOptions.display),
+                    ],
+                }]),
+                createStyleTab([{
+                    rows: [
+                        colorRow('upColor', 'Up Color', this._cvdOptions.upColor),
+                        colorRow('downColor', 'Down Color', this._cvdOptions.downColor),
+                        colorRow('color', 'Line Color', this._cvdOptions.color),
+                        lineWidthRow('lineWidth', 'Line Width'),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<CumulativeVolumeDeltaIndicatorOptions>): boolean {
+        const needsRecalc = newOptions.anchor !== undefined && newOptions.anchor !== this._cvdOptions.anchor;
+        Object.assign(this._cvdOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        if (needsRecalc && this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+        return needsRecalc;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    calculate(sourceData: BarData[]): void {
+        this._stale = false;
+        const deltas = deltaPerBar(sourceData, this._link.feed?.buckets ?? []);
+
+        // Bars the sum starts over on
+        const resets = new Set<number>();
+        const anchor = this._cvdOptions.anchor;
+        if (anchor !== 'none') {
+            for (const { from } of profilePeriods(sourceData, anchor, this._market.session, this._market.timeZone)) {
+                resets.add(from);
+            }
+        }
+
+        let sum = 0;
+        this._bars = deltas.map((delta, i) => {
+            if (resets.has(i)) sum = 0;
+            if (!delta) return null;
+            const open = sum;
+            sum += delta.delta;
+            return { open, high: open + delta.high, low: open + delta.low, close: sum };
+        });
+        this._data = sourceData.map((bar, i) => ({ time: bar.time, value: this._bars[i]?.close ?? NaN }));
+    }
+
+    getRange(): IndicatorRange {
+        this._update();
+        let min = Infinity;
+        let max = -Infinity;
+        for (const bar of this._bars) {
+            if (!bar) continue;
+            min = Math.min(min, bar.low);
+            max = Math.max(max, bar.high);
+        }
+        if (min === Infinity) return { min: -1, max: 1 };
+        return min === max ? { min: min - 1, max: max + 1 } : { min, max };
+    }
+
+    getDescription(index?: number): string {
+        this._update();
+        const bar = index !== undefined ? this._bars[index] : this._bars[this._bars.length - 1];
+        return `CVD ${formatCompact(bar?.close ?? NaN)}`;
+    }
+
+    drawPanel(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        visibleRange: { from: number; to: number },
+        mediaSize: { width: number; height: number }
+    ): void {
+        this._update();
+        drawLevel(ctx, priceScale, 0, mediaSize.width, 'rgba(120, 123, 134, 0.5)');
+
+        if (this._cvdOptions.display === 'line') {
+            drawLine(ctx, timeScale, priceScale, visibleRange, (i) => this._bars[i]?.close ?? NaN,
+                this._bars.length, this._cvdOptions.color, this._cvdOptions.lineWidth);
+            return;
+        }
+
+        const bodyWidth = Math.max(1, 0.6 * timeScale.barSpacing);
+        const from = Math.max(0, Math.floor(visibleRange.from));
+        const to = Math.min(this._bars.length - 1, Math.ceil(visibleRange.to));
+        for (let i = from; i <= to; i++) {
+            const bar = this._bars[i];
+            if (!bar) continue;
+
+            const x = timeScale.indexToCoordinate(i as TimePointIndex);
+            const openY = priceScale.priceToCoordinate(bar.open);
+            const closeY = priceScale.priceToCoordinate(bar.close);
+            ctx.fillStyle = bar.close >= bar.open ? this._cvdOptions.upColor : this._cvdOptions.downColor;
+            const highY = priceScale.priceToCoordinate(bar.high);
+            ctx.fillRect(Math.round(x) - 0.5, highY, 1, priceScale.priceToCoordinate(bar.low) - highY);
+            ctx.fillRect(x - bodyWidth / 2, Math.min(openY, closeY), bodyWidth, Math.max(1, Math.abs(closeY - openY)));
+        }
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        this._bars = [];
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    /** Trades arrive many times a second, the sums are rebuilt once per draw */
+    private _invalidate(): void {
+        this._stale = true;
+        this._dataChanged.fire();
+    }
+
+    private _update(): void {
+        if (this._stale && this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+    }
+
+    private _refresh(): void {
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+}
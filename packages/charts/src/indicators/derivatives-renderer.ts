@@ -0,0 +1,111 @@
+/**
+ * Derivatives Renderer - plots and labels shared by the derivatives indicators
+ */
+
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { TimePointIndex } from '../model/coordinate';
+
+/**
+ * Bars from zero, one per chart bar; NaN and zero values are skipped
+ */
+export function drawBars(
+    ctx: CanvasRenderingContext2D,
+    timeScale: TimeScale,
+    priceScale: PriceScale,
+    visibleRange: { from: number; to: number },
+    valueAt: (index: number) => number,
+    colorAt: (index: number, value: number) => string,
+    count: number
+): void {
+    const barWidth = Math.max(1, 0.6 * timeScale.barSpacing);
+    const zeroY = priceScale.priceToCoordinate(0);
+    const from = Math.max(0, Math.floor(visibleRange.from));
+    const to = Math.min(count - 1, Math.ceil(visibleRange.to));
+
+    for (let i = from; i <= to; i++) {
+        const value = valueAt(i);
+        if (isNaN(value) || value === 0) continue;
+
+        const x = timeScale.indexToCoordinate(i as TimePointIndex);
+        const y = priceScale.priceToCoordinate(value);
+        ctx.fillStyle = colorAt(i, value);
+        ctx.fillRect(x - barWidth / 2, Math.min(y, zeroY), barWidth, Math.max(1, Math.abs(y - zeroY)));
+    }
+}
+
+/**
+ * Line through the values, broken at NaN
+ */
+export function drawLine(
+    ctx: CanvasRenderingContext2D,
+    timeScale: TimeScale,
+    priceScale: PriceScale,
+    visibleRange: { from: number; to: number },
+    valueAt: (index: number) => number,
+    count: number,
+    color: string,
+    lineWidth: number
+): void {
+    const from = Math.max(0, Math.floor(visibleRange.from) - 1);
+    const to = Math.min(count - 1, Math.ceil(visibleRange.to) + 1);
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    let started = false;
+    for (let i = from; i <= to; i++) {
+        const value = valueAt(i);
+        if (isNaN(value)) {
+            started = false;
+            continue;
+        }
+        const x = timeScale.indexToCoordinate(i as TimePointIndex);
+        const y = priceScale.priceToCoordinate(value);
+        if (started) {
+            ctx.lineTo(x, y);
+        } else {
+            ctx.moveTo(x, y);
+            started = true;
+        }
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+/**
+ * Dashed line across the pane at a value
+ */
+export function drawLevel(
+    ctx: CanvasRenderingContext2D,
+    priceScale: PriceScale,
+    value: number,
+    width: number,
+    color: string
+): void {
+    const y = Math.round(priceScale.priceToCoordinate(value)) + 0.5;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.restore();
+}
+
+/**
+ * Notional or open interest with a K, M or B suffix
+ */
+export function formatCompact(value: number): string {
+    if (isNaN(value)) return '-';
+    const abs = Math.abs(value);
+    if (abs >= 1e9) return (value / 1e9).toFixed(2) + 'B';
+    if (abs >= 1e6) return (value / 1e6).toFixed(2) + 'M';
+    if (abs >= 1e3) return (value / 1e3).toFixed(2) + 'K';
+    return value.toFixed(2);
+}
@@ -112,6 +112,11 @@ export class EMAIndicator extends OverlayIndicator {
 
     // --- Abstract implementations ---
 
+    /** EMA has infinite memory, after 10 periods the seed's influence is negligible */
+    protected _getWarmupBars(): number {
+        return this._emaOptions.period * 10;
+    }
+
     /**
      * Calculate EMA values from source data
      */
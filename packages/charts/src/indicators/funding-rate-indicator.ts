@@ -0,0 +1,178 @@
+/**
+ * Funding Rate Indicator
+ *
+ * Funding rate of the period each bar closes in, in percent, per period or
+ * annualized. The legend shows the running rate and, where the exchange
+ * publishes it, the predicted next one. Needs a derivatives provider with
+ * funding rates on the chart feed.
+ */
+
+import { PanelIndicator, IndicatorOptions, IndicatorRange } from './indicator';
+import { DerivativesConsumer } from './indicator-manager';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { DerivativesFeed, DerivativesFeedLink } from '../derivatives/derivatives-feed';
+import { fundingIntervalHours, fundingPerBar } from '../derivatives/derivatives-bars';
+import { drawBars, drawLevel } from './derivatives-renderer';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    createVisibilityTab,
+    checkboxRow,
+    colorRow,
+} from '../gui/indicator_settings';
+
+/**
+ * Funding Rate indicator options
+ */
+export interface FundingRateIndicatorOptions extends IndicatorOptions {
+    /** Rate per year instead of per funding period */
+    annualized: boolean;
+    positiveColor: string;
+    negativeColor: string;
+}
+
+const defaultFundingRateOptions: Partial<FundingRateIndicatorOptions> = {
+    name: 'Funding Rate',
+    annualized: false,
+    color: '#787b86',
+    lineWidth: 1,
+    positiveColor: 'rgba(38, 166, 154, 0.7)',
+    negativeColor: 'rgba(239, 83, 80, 0.7)',
+};
+
+export class FundingRateIndicator extends PanelIndicator implements DerivativesConsumer {
+    private _fundingOptions: FundingRateIndicatorOptions;
+    private readonly _link = new DerivativesFeedLink(['funding'], () => this._refresh());
+
+    constructor(options: Partial<FundingRateIndicatorOptions> = {}) {
+        const mergedOptions = { ...defaultFundingRateOptions, ...options };
+        super(mergedOptions);
+        this._fundingOptions = { ...defaultFundingRateOptions, ...this._options } as FundingRateIndicatorOptions;
+        this._paneHeight = 80;
+    }
+
+    /** Funding settles on its own schedule, not per bar of another timeframe */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Feed the funding rates come from, set by the indicator manager */
+    setDerivativesFeed(feed: DerivativesFeed | null): void {
+        this._link.setFeed(feed);
+        this._refresh();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._fundingOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: this.name,
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        checkboxRow('annualized', 'Annualized', this._fundingOptions.annualized),
+                    ],
+                }]),
+                createStyleTab([{
+                    rows: [
+                        colorRow('positiveColor', 'Positive Color', this._fundingOptions.positiveColor),
+                        colorRow('negativeColor', 'Negative Color', this._fundingOptions.negativeColor),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<FundingRateIndicatorOptions>): boolean {
+        const needsRecalc = newOptions.annualized !== undefined && newOptions.annualized !== this._fundingOptions.annualized;
+        Object.assign(this._fundingOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        if (needsRecalc && this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+        return needsRecalc;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    calculate(sourceData: BarData[]): void {
+        const feed = this._link.feed;
+        const history = feed?.fundingHistory ?? [];
+        const rates = fundingPerBar(sourceData, history, feed?.funding ?? null);
+        const scale = this._percentScale();
+        this._data = sourceData.map((bar, i) => ({ time: bar.time, value: rates[i] * scale }));
+    }
+
+    getRange(): IndicatorRange {
+        let absMax = 0;
+        for (const point of this._data) {
+            if (!isNaN(point.value)) absMax = Math.max(absMax, Math.abs(point.value));
+        }
+        absMax = absMax > 0 ? absMax : this._percentScale() * 0.0001;
+        return { min: -absMax, max: absMax };
+    }
+
+    getDescription(index?: number): string {
+        const suffix = this._fundingOptions.annualized ? '%/y' : '%';
+        const digits = this._fundingOptions.annualized ? 2 : 4;
+        const format = (value: number) => isNaN(value) ? '-' : `${value.toFixed(digits)}${suffix}`;
+
+        // The legend of the last bar shows the running and predicted rates
+        const last = index === undefined || index === this._data.length - 1;
+        const funding = this._link.feed?.funding;
+        if (last && funding) {
+            const scale = this._percentScale();
+            const predicted = funding.predictedRate !== undefined
+                ? ` · next ${format(funding.predictedRate * scale)}`
+                : '';
+            return `Funding ${format(funding.rate * scale)}${predicted}`;
+        }
+
+        const point = index !== undefined ? this._data[index] : undefined;
+        return `Funding ${format(point?.value ?? NaN)}`;
+    }
+
+    drawPanel(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        visibleRange: { from: number; to: number },
+        mediaSize: { width: number; height: number }
+    ): void {
+        drawLevel(ctx, priceScale, 0, mediaSize.width, 'rgba(120, 123, 134, 0.5)');
+        drawBars(ctx, timeScale, priceScale, visibleRange,
+            (i) => this._data[i]?.value ?? NaN,
+            (_, value) => value >= 0 ? this._fundingOptions.positiveColor : this._fundingOptions.negativeColor,
+            this._data.length);
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    /** Rate to percent, per period or per year of funding periods */
+    private _percentScale(): number {
+        if (!this._fundingOptions.annualized) return 100;
+        const periodsPerDay = 24 / fundingIntervalHours(this._link.feed?.fundingHistory ?? []);
+        return periodsPerDay * 365 * 100;
+    }
+
+    private _refresh(): void {
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+}
@@ -217,6 +217,34 @@ export class HalfTrendIndicator extends OverlayIndicator {
         }));
     }
 
+    /**
+     * Higher timeframe states onto the chart bars: each bar keeps the state of
+     * the last closed timeframe bar, signals only show on the bar it closed on
+     */
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+
+        const states = this._states;
+        this._states = indexMap.map((j, i) => {
+            const time = sourceData[i].time;
+            const state = j >= 0 ? states[j] : undefined;
+            if (!state) {
+                return {
+                    time, index: i, ht: NaN, atrHigh: NaN, atrLow: NaN, trend: 0,
+                    buySignal: false, sellSignal: false, arrowUp: null, arrowDown: null,
+                };
+            }
+            const closed = i === 0 || indexMap[i - 1] !== j;
+            return {
+                ...state,
+                time,
+                index: i,
+                buySignal: state.buySignal && closed,
+                sellSignal: state.sellSignal && closed,
+            };
+        });
+    }
+
     getRange(): IndicatorRange {
         if (this._states.length === 0) {
             return { min: 0, max: 100 };
@@ -225,11 +253,13 @@ export class HalfTrendIndicator extends OverlayIndicator {
         let min = Infinity;
         let max = -Infinity;
         for (const state of this._states) {
+            // Bars before the first closed higher timeframe bar have no value
+            if (!Number.isFinite(state.ht)) continue;
             min = Math.min(min, state.ht, state.atrHigh, state.atrLow);
             max = Math.max(max, state.ht, state.atrHigh, state.atrLow);
         }
 
-        return { min, max };
+        return min === Infinity ? { min: 0, max: 100 } : { min, max };
     }
 
     getDescription(index?: number): string {
@@ -259,7 +289,8 @@ export class HalfTrendIndicator extends OverlayIndicator {
 
         const startIndex = visibleRange ? Math.max(0, Math.floor(visibleRange.from) - 1) : 0;
         const endIndex = visibleRange ? Math.min(this._states.length - 1, Math.ceil(visibleRange.to) + 1) : this._states.length - 1;
-        const visibleStates = this._states.slice(startIndex, endIndex + 1);
+        // Bars before the first closed higher timeframe bar have no state
+        const visibleStates = this._states.slice(startIndex, endIndex + 1).filter(state => Number.isFinite(state.ht));
 
         if (visibleStates.length === 0) {
             return;
@@ -55,6 +55,11 @@ export class HarmonicPatternIndicator extends OverlayIndicator {
         this._optionsEx = { ...defaults, ...this._options } as HarmonicPatternIndicatorOptions;
     }
 
+    /** Patterns are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._optionsEx };
     }
@@ -109,6 +109,10 @@ export class HMAIndicator extends OverlayIndicator {
         return result;
     }
 
+    protected _getWarmupBars(): number {
+        return this._hmaOptions.period + Math.ceil(Math.sqrt(this._hmaOptions.period));
+    }
+
     calculate(sourceData: BarData[]): void {
         this._data = [];
         const n = this._hmaOptions.period;
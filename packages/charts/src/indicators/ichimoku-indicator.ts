@@ -1,5 +1,6 @@
 import { OverlayIndicator, IndicatorOptions } from './indicator';
 import { BarData } from '../model/data';
+import { timeframeToMs } from '../helpers/timeframe';
 import {
     IndicatorSettingsConfig,
     createInputsTab,
@@ -55,6 +56,8 @@ const defaultIchimokuOptions: Partial<IchimokuIndicatorOptions> = {
 export class IchimokuIndicator extends OverlayIndicator {
     private _ichimokuOptions: IchimokuIndicatorOptions;
     private _states: IchimokuState[] = [];
+    /** Chart bars per calculated bar, the displacement is in calculated bars */
+    private _barsPerStep: number = 1;
 
     constructor(options: Partial<IchimokuIndicatorOptions> = {}) {
         const mergedOptions = { ...defaultIchimokuOptions, ...options };
@@ -148,6 +151,29 @@ export class IchimokuIndicator extends OverlayIndicator {
         }
     }
 
+    setData(sourceData: BarData[]): void {
+        this._barsPerStep = 1;
+        super.setData(sourceData);
+    }
+
+    setTimeframeData(sourceData: BarData[], timeframeData: BarData[], timeframe: string, chartTimeframe: string): void {
+        this._barsPerStep = Math.max(1, timeframeToMs(timeframe) / timeframeToMs(chartTimeframe));
+        super.setTimeframeData(sourceData, timeframeData, timeframe, chartTimeframe);
+    }
+
+    /** Higher timeframe lines onto the chart bars, each bar keeps the last closed timeframe bar's values */
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+
+        const states = this._states;
+        this._states = indexMap.map((j, i) => {
+            const state = j >= 0 ? states[j] : undefined;
+            return state
+                ? { ...state, index: i }
+                : { index: i, conversionLine: NaN, baseLine: NaN, laggingSpan: NaN, leadLine1: NaN, leadLine2: NaN };
+        });
+    }
+
     getDescription(index?: number): string {
         const dataIndex = index !== undefined && index >= 0 && index < this._states.length
             ? index
@@ -177,8 +203,11 @@ export class IchimokuIndicator extends OverlayIndicator {
             return;
         }
 
-        const startIndex = visibleRange ? Math.max(0, Math.floor(visibleRange.from) - this._ichimokuOptions.displacement - 2) : 0;
-        const endIndex = visibleRange ? Math.min(this._states.length - 1, Math.ceil(visibleRange.to) + this._ichimokuOptions.displacement + 2) : this._states.length - 1;
+        // Displacement in chart bars, a higher timeframe's bars span several
+        const displacement = Math.round(this._ichimokuOptions.displacement * this._barsPerStep);
+        const shift = Math.round((this._ichimokuOptions.displacement - 1) * this._barsPerStep);
+        const startIndex = visibleRange ? Math.max(0, Math.floor(visibleRange.from) - displacement - 2) : 0;
+        const endIndex = visibleRange ? Math.min(this._states.length - 1, Math.ceil(visibleRange.to) + displacement + 2) : this._states.length - 1;
         const states = this._states.slice(startIndex, endIndex + 1);
         if (states.length === 0) {
             return;
@@ -188,12 +217,12 @@ export class IchimokuIndicator extends OverlayIndicator {
         ctx.lineCap = 'round';
         ctx.lineJoin = 'round';
 
-        this._drawCloud(ctx, states, timeScale, priceScale, hpr, vpr);
+        this._drawCloud(ctx, states, timeScale, priceScale, hpr, vpr, shift);
         this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.conversionLine, 0, this._ichimokuOptions.conversionColor);
         this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.baseLine, 0, this._ichimokuOptions.baseColor);
-        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.laggingSpan, -this._ichimokuOptions.displacement + 1, this._ichimokuOptions.laggingColor);
-        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.leadLine1, this._ichimokuOptions.displacement - 1, this._ichimokuOptions.leadingSpanAColor);
-        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.leadLine2, this._ichimokuOptions.displacement - 1, this._ichimokuOptions.leadingSpanBColor);
+        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.laggingSpan, -shift, this._ichimokuOptions.laggingColor);
+        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.leadLine1, shift, this._ichimokuOptions.leadingSpanAColor);
+        this._drawShiftedLine(ctx, states, timeScale, priceScale, hpr, vpr, (state) => state.leadLine2, shift, this._ichimokuOptions.leadingSpanBColor);
 
         ctx.restore();
     }
@@ -241,9 +270,9 @@ export class IchimokuIndicator extends OverlayIndicator {
         timeScale: any,
         priceScale: any,
         hpr: number,
-        vpr: number
+        vpr: number,
+        shift: number
     ): void {
-        const shift = this._ichimokuOptions.displacement - 1;
         for (let i = 1; i < states.length; i++) {
             const prev = states[i - 1];
             const curr = states[i];
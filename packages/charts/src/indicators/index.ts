@@ -16,7 +16,19 @@ export {
 } from './indicator';
 
 // Manager
-export { IndicatorManager } from './indicator-manager';
+export {
+    IndicatorManager,
+    TimeframeDataLoader,
+    IndicatorMarketContext,
+    DerivativesConsumer,
+    isDerivativesConsumer,
+    TradeConsumer,
+    isTradeConsumer,
+    MarketContextConsumer,
+    isMarketContextConsumer,
+    LowerTimeframeConsumer,
+    isLowerTimeframeConsumer,
+} from './indicator-manager';
 
 // Widgets
 export { IndicatorPaneWidget, IndicatorPaneOptions } from './indicator-pane-widget';
@@ -49,3 +61,38 @@ export { ABCDPatternIndicator, ABCDPatternIndicatorOptions } from './abcd-patter
 export { HarmonicPatternIndicator, HarmonicPatternIndicatorOptions } from './harmonic-pattern-indicator';
 export { ChartPatternsIndicator, ChartPatternsIndicatorOptions } from './chart-patterns-indicator';
 export { TrendlineBreakoutIndicator, TrendlineBreakoutIndicatorOptions } from './trendline-breakout-indicator';
+export { OpenInterestIndicator, OpenInterestIndicatorOptions, OpenInterestDisplay } from './open-interest-indicator';
+export { FundingRateIndicator, FundingRateIndicatorOptions } from './funding-rate-indicator';
+export { LiquidationsIndicator, LiquidationsIndicatorOptions } from './liquidations-indicator';
+export { LiquidationBubblesIndicator, LiquidationBubblesIndicatorOptions } from './liquidation-bubbles-indicator';
+export { VolumeProfileIndicator, VolumeProfileIndicatorOptions } from './volume-profile-indicator';
+export { VisibleRangeVolumeProfileIndicator, VisibleRangeVolumeProfileIndicatorOptions } from './visible-range-volume-profile-indicator';
+export { SessionVolumeProfileIndicator, SessionVolumeProfileIndicatorOptions } from './session-volume-profile-indicator';
+export {
+    CumulativeVolumeDeltaIndicator,
+    CumulativeVolumeDeltaIndicatorOptions,
+    CumulativeVolumeDeltaAnchor,
+    CumulativeVolumeDeltaDisplay,
+} from './cvd-indicator';
+
+// Pine Script indicators
+export {
+    PineOverlayIndicator,
+    PinePanelIndicator,
+    PineIndicator,
+    PineIndicatorOptions,
+    createPineIndicator,
+} from './pine-indicator';
+export { drawPineOutput, getPineOutputRange, PineDrawTarget } from './pine-renderer';
+
+// Registry
+export {
+    IndicatorCategory,
+    IndicatorDefinition,
+    registerIndicator,
+    unregisterIndicator,
+    getIndicatorDefinition,
+    getIndicatorDefinitions,
+    createIndicator,
+    getIndicatorType,
+} from './indicator-registry';
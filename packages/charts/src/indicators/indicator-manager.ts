@@ -7,34 +7,13 @@
 
 import { Indicator, OverlayIndicator, PanelIndicator, IndicatorType } from './indicator';
 import { BarData } from '../model/data';
-import { RSIIndicator } from './rsi-indicator';
-import { EMAIndicator } from './ema-indicator';
-import { SMAIndicator } from './sma-indicator';
-import { BBIndicator } from './bb-indicator';
-import { MACDIndicator } from './macd-indicator';
-import { StochIndicator } from './stoch-indicator';
-import { ParabolicSARIndicator } from './parabolic-sar-indicator';
-import { SuperTrendIndicator } from './supertrend-indicator';
-import { AlphaTrendIndicator } from './alpha-trend-indicator';
-import { IchimokuIndicator } from './ichimoku-indicator';
-import { ZigZagTrendlineIndicator } from './zigzag-trendline-indicator';
-import { VolumeIndicator } from './volume-indicator';
-import { HMAIndicator } from './hma-indicator';
-import { StochRSIIndicator } from './stoch-rsi-indicator';
-import { HalfTrendIndicator } from './halftrend-indicator';
-import { TdojiOscillatorIndicator } from './tdoji-oscillator-indicator';
-import { ThunderbirdxIndicator } from './thunderbirdx-indicator';
-import { TdojiSRIndicator } from './tdoji-sr-indicator';
-import { TdojiMomIndicator } from './tdoji-mom-indicator';
-import { ZigZagIndicator } from './zigzag-indicator';
-import { ABCDPatternIndicator } from './abcd-pattern-indicator';
-import { HarmonicPatternIndicator } from './harmonic-pattern-indicator';
-import { ChartPatternsIndicator } from './chart-patterns-indicator';
-import { TrendlineBreakoutIndicator } from './trendline-breakout-indicator';
-
-
-
-
+import { aggregateBars, timeframeToMs } from '../helpers/timeframe';
+import { createIndicator, getIndicatorDefinition, getIndicatorType } from './indicator-registry';
+import { DerivativesFeed } from '../derivatives/derivatives-feed';
+import { TradeFeed } from '../orderflow/trade-feed';
+import { TradingSession } from '../helpers/sessions';
+import { PriceFormat } from '../helpers/price-format';
+import { resolveLowerTimeframe } from '../model/volume-profile';
 
 /**
  * Indicator manager events
@@ -46,6 +25,72 @@ export interface IndicatorManagerEvents {
     paneRemoved: (indicator: PanelIndicator) => void;
 }
 
+/**
+ * Loads bars (time in ms) of another timeframe for the current chart symbol
+ */
+export type TimeframeDataLoader = (timeframe: string) => Promise<BarData[]>;
+
+/**
+ * Trading hours and price increments of the chart symbol, for indicators
+ * grouping bars by session or prices by tick
+ */
+export interface IndicatorMarketContext {
+    session: TradingSession | null;
+    /** IANA time zone days are counted in */
+    timeZone: string;
+    priceFormat: PriceFormat | null;
+}
+
+/**
+ * Indicator drawing open interest, funding or liquidations of the chart symbol
+ */
+export interface DerivativesConsumer {
+    /** Feed of the chart symbol, null when the chart has none */
+    setDerivativesFeed(feed: DerivativesFeed | null): void;
+}
+
+export function isDerivativesConsumer(indicator: Indicator): indicator is Indicator & DerivativesConsumer {
+    return typeof (indicator as Partial<DerivativesConsumer>).setDerivativesFeed === 'function';
+}
+
+/**
+ * Indicator summing the live trades of the chart symbol
+ */
+export interface TradeConsumer {
+    /** Feed of the chart symbol, null when the chart has none */
+    setTradeFeed(feed: TradeFeed | null): void;
+}
+
+export function isTradeConsumer(indicator: Indicator): indicator is Indicator & TradeConsumer {
+    return typeof (indicator as Partial<TradeConsumer>).setTradeFeed === 'function';
+}
+
+/**
+ * Indicator grouping bars by session or prices by tick of the chart symbol
+ */
+export interface MarketContextConsumer {
+    setMarketContext(context: IndicatorMarketContext): void;
+}
+
+export function isMarketContextConsumer(indicator: Indicator): indicator is Indicator & MarketContextConsumer {
+    return typeof (indicator as Partial<MarketContextConsumer>).setMarketContext === 'function';
+}
+
+/**
+ * Indicator distributing the chart bars with bars of a lower timeframe
+ */
+export interface LowerTimeframeConsumer {
+    /** Timeframe to load, 'auto' picks one for the chart timeframe */
+    readonly lowerTimeframe: string;
+    /** Bars of the lower timeframe, empty until they arrive */
+    setLowerTimeframeData(bars: readonly BarData[]): void;
+}
+
+export function isLowerTimeframeConsumer(indicator: Indicator): indicator is Indicator & LowerTimeframeConsumer {
+    const consumer = indicator as Partial<LowerTimeframeConsumer>;
+    return typeof consumer.setLowerTimeframeData === 'function' && typeof consumer.lowerTimeframe === 'string';
+}
+
 /**
  * Serialized indicator data for persistence
  */
@@ -65,12 +110,28 @@ export class IndicatorManager {
     private _overlayIndicators: OverlayIndicator[] = [];
     private _panelIndicators: PanelIndicator[] = [];
     private _sourceData: BarData[] = [];
+    /** Saved indicators of types not registered, kept so saving doesn't drop them */
+    private _unresolved: SerializedIndicator[] = [];
+
+    // Multi-timeframe inputs
+    private _chartSymbol: string = '';
+    private _chartTimeframe: string = '';
+    private _timeframeLoader: TimeframeDataLoader | null = null;
+    private _timeframeBars: Map<string, BarData[]> = new Map();
+    private _timeframeRequests: Set<string> = new Set();
+
+    /** Open interest, funding and liquidations for the indicators that read them */
+    private _derivativesFeed: DerivativesFeed | null = null;
+    /** Live trades for the order flow indicators */
+    private _tradeFeed: TradeFeed | null = null;
+    private _marketContext: IndicatorMarketContext = { session: null, timeZone: 'UTC', priceFormat: null };
 
     // Event callbacks
     private _onIndicatorAdded: ((indicator: Indicator) => void) | null = null;
     private _onIndicatorRemoved: ((indicator: Indicator) => void) | null = null;
     private _onPaneAdded: ((indicator: PanelIndicator) => void) | null = null;
     private _onPaneRemoved: ((indicator: PanelIndicator) => void) | null = null;
+    private _onTimeframeLoaded: ((timeframe: string) => void) | null = null;
 
     constructor() { }
 
@@ -106,6 +167,67 @@ export class IndicatorManager {
         this._onPaneRemoved = callback;
     }
 
+    /** Called when bars of another timeframe were fetched */
+    set onTimeframeLoaded(callback: (timeframe: string) => void) {
+        this._onTimeframeLoaded = callback;
+    }
+
+    /**
+     * Loader for indicators calculated on a higher timeframe.
+     * Without a loader those indicators use bars aggregated from the chart data.
+     */
+    set timeframeDataLoader(loader: TimeframeDataLoader | null) {
+        this._timeframeLoader = loader;
+        this._timeframeBars.clear();
+        this._timeframeRequests.clear();
+
+        if (this._sourceData.length === 0) return;
+        for (const indicator of this.allIndicators) {
+            if (this._getCalculationTimeframe(indicator)) {
+                this._feedIndicator(indicator, this._sourceData);
+            }
+        }
+    }
+
+    /**
+     * Derivatives data of the chart symbol, handed to the indicators built on
+     * open interest, funding or liquidations
+     */
+    set derivativesFeed(feed: DerivativesFeed | null) {
+        this._derivativesFeed = feed;
+        for (const indicator of this.allIndicators) {
+            this._connectDerivatives(indicator);
+        }
+    }
+
+    /**
+     * Live trades of the chart symbol, handed to the indicators built on
+     * the aggressor side of the trades
+     */
+    set tradeFeed(feed: TradeFeed | null) {
+        this._tradeFeed = feed;
+        for (const indicator of this.allIndicators) {
+            this._connectTrades(indicator);
+        }
+    }
+
+    /**
+     * Session, time zone and price format of the chart symbol, handed to the
+     * indicators with a setMarketContext() method
+     */
+    set marketContext(context: IndicatorMarketContext) {
+        const current = this._marketContext;
+        if (context.session === current.session && context.timeZone === current.timeZone &&
+            context.priceFormat === current.priceFormat) {
+            return;
+        }
+
+        this._marketContext = context;
+        for (const indicator of this.allIndicators) {
+            this._connectMarket(indicator);
+        }
+    }
+
     // --- Indicator management ---
 
     /**
@@ -113,10 +235,15 @@ export class IndicatorManager {
      */
     addOverlayIndicator(indicator: OverlayIndicator): void {
         this._overlayIndicators.push(indicator);
+        // Resolve its type now, it is saved with it even if the type is unregistered later
+        getIndicatorType(indicator);
+        this._connectDerivatives(indicator);
+        this._connectTrades(indicator);
+        this._connectMarket(indicator);
 
         // Calculate with current data
         if (this._sourceData.length > 0) {
-            indicator.setData(this._sourceData);
+            this._feedIndicator(indicator, this._sourceData);
         }
 
         this._onIndicatorAdded?.(indicator);
@@ -127,10 +254,15 @@ export class IndicatorManager {
      */
     addPanelIndicator(indicator: PanelIndicator): void {
         this._panelIndicators.push(indicator);
+        // Resolve its type now, it is saved with it even if the type is unregistered later
+        getIndicatorType(indicator);
+        this._connectDerivatives(indicator);
+        this._connectTrades(indicator);
+        this._connectMarket(indicator);
 
         // Calculate with current data
         if (this._sourceData.length > 0) {
-            indicator.setData(this._sourceData);
+            this._feedIndicator(indicator, this._sourceData);
         }
 
         this._onIndicatorAdded?.(indicator);
@@ -184,6 +316,19 @@ export class IndicatorManager {
 
     // --- Data management ---
 
+    /**
+     * Set the symbol and timeframe of the chart data.
+     * Fetched higher timeframe bars are dropped when either changes.
+     */
+    setChartContext(symbol: string, timeframe: string): void {
+        if (symbol === this._chartSymbol && timeframe === this._chartTimeframe) return;
+
+        this._chartSymbol = symbol;
+        this._chartTimeframe = timeframe;
+        this._timeframeBars.clear();
+        this._timeframeRequests.clear();
+    }
+
     /**
      * Update source data for all indicators
      */
@@ -192,11 +337,36 @@ export class IndicatorManager {
 
         // Recalculate all indicators
         for (const indicator of this._overlayIndicators) {
-            indicator.setData(data);
+            this._feedIndicator(indicator, data);
         }
 
         for (const indicator of this._panelIndicators) {
-            indicator.setData(data);
+            this._feedIndicator(indicator, data);
+        }
+    }
+
+    /**
+     * Prepend older history without recalculating every indicator from scratch
+     */
+    prependData(olderData: BarData[]): void {
+        if (olderData.length === 0) return;
+        this._sourceData = olderData.concat(this._sourceData);
+
+        for (const indicator of this._overlayIndicators) {
+            this._prependIndicator(indicator, olderData);
+        }
+
+        for (const indicator of this._panelIndicators) {
+            this._prependIndicator(indicator, olderData);
+        }
+    }
+
+    private _prependIndicator(indicator: Indicator, olderData: BarData[]): void {
+        // Higher timeframe values are mapped onto the chart bars, remap them all
+        if (this._getCalculationTimeframe(indicator)) {
+            this._feedIndicator(indicator, this._sourceData);
+        } else {
+            indicator.prependData(olderData);
         }
     }
 
@@ -213,7 +383,139 @@ export class IndicatorManager {
     recalculateIndicator(id: string): void {
         const indicator = this.getIndicator(id);
         if (indicator && this._sourceData.length > 0) {
-            indicator.setData(this._sourceData);
+            this._feedIndicator(indicator, this._sourceData);
+        }
+    }
+
+    // --- Multi-timeframe ---
+
+    private _connectDerivatives(indicator: Indicator): void {
+        if (isDerivativesConsumer(indicator)) {
+            indicator.setDerivativesFeed(this._derivativesFeed);
+        }
+    }
+
+    private _connectTrades(indicator: Indicator): void {
+        if (isTradeConsumer(indicator)) {
+            indicator.setTradeFeed(this._tradeFeed);
+        }
+    }
+
+    private _connectMarket(indicator: Indicator): void {
+        if (isMarketContextConsumer(indicator)) {
+            indicator.setMarketContext(this._marketContext);
+        }
+    }
+
+    /**
+     * Calculate an indicator on the chart bars or on its own higher timeframe
+     */
+    private _feedIndicator(indicator: Indicator, data: BarData[]): void {
+        this._feedLowerTimeframe(indicator);
+
+        const timeframe = this._getCalculationTimeframe(indicator);
+        if (!timeframe) {
+            indicator.setData(data);
+            return;
+        }
+
+        indicator.setTimeframeData(data, this._getTimeframeBars(timeframe, data), timeframe, this._chartTimeframe);
+    }
+
+    /**
+     * Timeframe the indicator is calculated on, or null when it uses the chart bars.
+     * Lower timeframes than the chart's cannot be mapped onto chart bars and are ignored.
+     */
+    private _getCalculationTimeframe(indicator: Indicator): string | null {
+        const timeframe = indicator.timeframe;
+        if (!timeframe || !indicator.supportsTimeframe || !this._chartTimeframe) return null;
+
+        const timeframeMs = timeframeToMs(timeframe);
+        const chartMs = timeframeToMs(this._chartTimeframe);
+        if (timeframeMs === 0 || chartMs === 0 || timeframeMs <= chartMs) return null;
+
+        return timeframe;
+    }
+
+    /**
+     * Lower timeframe an indicator distributes the chart bars with, from its
+     * lowerTimeframe property ('auto' picks one for the chart timeframe)
+     */
+    private _getLowerTimeframe(indicator: Indicator): string | null {
+        if (!isLowerTimeframeConsumer(indicator)) return null;
+        return resolveLowerTimeframe(indicator.lowerTimeframe, this._chartTimeframe);
+    }
+
+    /**
+     * Hand an indicator the fetched bars of its lower timeframe, empty until they arrive.
+     * Set before its data, so it calculates once with both.
+     */
+    private _feedLowerTimeframe(indicator: Indicator): void {
+        if (!isLowerTimeframeConsumer(indicator)) return;
+
+        const timeframe = this._getLowerTimeframe(indicator);
+        indicator.setLowerTimeframeData(timeframe ? this.lowerTimeframeBars(timeframe) ?? [] : []);
+    }
+
+    /**
+     * Fetched bars of a timeframe below the chart's, requested on first use.
+     * Null until they arrive or without a loader; onTimeframeLoaded is called then.
+     */
+    lowerTimeframeBars(timeframe: string): readonly BarData[] | null {
+        const fetched = this._timeframeBars.get(timeframe);
+        if (fetched) return fetched;
+
+        void this._requestTimeframeBars(timeframe);
+        return null;
+    }
+
+    /**
+     * Higher timeframe bars covering the chart data.
+     * Fetched bars provide the history, bars aggregated from the chart data keep the
+     * most recent (live) ones current. Until a fetch completes, only aggregated bars are used.
+     */
+    private _getTimeframeBars(timeframe: string, data: BarData[]): BarData[] {
+        const aggregated = aggregateBars(data, timeframe);
+        const fetched = this._timeframeBars.get(timeframe);
+
+        if (!fetched) {
+            this._requestTimeframeBars(timeframe);
+            return aggregated;
+        }
+
+        // The first aggregated bar is usually partial, the chart data starts mid-bar
+        const cutoff = aggregated.length > 1 ? aggregated[1].time : Infinity;
+        return fetched.filter(bar => bar.time < cutoff).concat(aggregated.filter(bar => bar.time >= cutoff));
+    }
+
+    private async _requestTimeframeBars(timeframe: string): Promise<void> {
+        if (!this._timeframeLoader || this._timeframeRequests.has(timeframe)) return;
+
+        // Failed requests stay registered so live updates don't retry on every tick
+        this._timeframeRequests.add(timeframe);
+        const loader = this._timeframeLoader;
+        const symbol = this._chartSymbol;
+        const chartTimeframe = this._chartTimeframe;
+
+        try {
+            const bars = await loader(timeframe);
+
+            // Chart switched symbol or timeframe while loading
+            if (symbol !== this._chartSymbol || chartTimeframe !== this._chartTimeframe || loader !== this._timeframeLoader) {
+                return;
+            }
+
+            this._timeframeBars.set(timeframe, bars);
+
+            for (const indicator of this.allIndicators) {
+                if (this._getCalculationTimeframe(indicator) === timeframe ||
+                    this._getLowerTimeframe(indicator) === timeframe) {
+                    this._feedIndicator(indicator, this._sourceData);
+                }
+            }
+            this._onTimeframeLoaded?.(timeframe);
+        } catch (error) {
+            console.error(`Failed to load ${timeframe} bars:`, error);
         }
     }
 
@@ -225,50 +527,23 @@ export class IndicatorManager {
      * Serialize all indicators to JSON
      */
     serialize(): SerializedIndicator[] {
-        const serialized: SerializedIndicator[] = [];
-
-        for (const indicator of this.allIndicators) {
-            let typeId = 'Unknown';
-            if (indicator instanceof RSIIndicator) typeId = 'RSI';
-            else if (indicator instanceof EMAIndicator) typeId = 'EMA';
-            else if (indicator instanceof SMAIndicator) typeId = 'SMA';
-            else if (indicator instanceof BBIndicator) typeId = 'BollingerBands';
-            else if (indicator instanceof MACDIndicator) typeId = 'MACD';
-            else if (indicator instanceof StochIndicator) typeId = 'Stochastic';
-            else if (indicator instanceof ParabolicSARIndicator) typeId = 'SAR';
-            else if (indicator instanceof SuperTrendIndicator) typeId = 'SuperTrend';
-            else if (indicator instanceof AlphaTrendIndicator) typeId = 'AlphaTrend';
-            else if (indicator instanceof IchimokuIndicator) typeId = 'Ichimoku';
-            else if (indicator instanceof ZigZagTrendlineIndicator) typeId = 'ZigZagTrendline';
-            else if (indicator instanceof VolumeIndicator) typeId = 'Volume';
-            else if (indicator instanceof HMAIndicator) typeId = 'HMA';
-            else if (indicator instanceof StochRSIIndicator) typeId = 'StochasticRSI';
-            else if (indicator instanceof HalfTrendIndicator) typeId = 'HalfTrend';
-            else if (indicator instanceof TdojiOscillatorIndicator) typeId = 'TdojiOscillator';
-            else if (indicator instanceof ThunderbirdxIndicator) typeId = 'Thunderbirdx';
-            else if (indicator instanceof TdojiSRIndicator) typeId = 'TdojiSR';
-            else if (indicator instanceof TdojiMomIndicator) typeId = 'TdojiMom';
-            else if (indicator instanceof ZigZagIndicator) typeId = 'ZigZag';
-            else if (indicator instanceof ABCDPatternIndicator) typeId = 'ABCDPattern';
-            else if (indicator instanceof HarmonicPatternIndicator) typeId = 'HarmonicPattern';
-            else if (indicator instanceof ChartPatternsIndicator) typeId = 'ChartPatterns';
-            else if (indicator instanceof TrendlineBreakoutIndicator) typeId = 'TrendlineBreakout';
-
-
-
-
-
-            serialized.push({
-                id: indicator.id,
-                type: indicator.type,
-                typeId: typeId,
-                name: indicator.name,
-                options: { ...indicator.options },
-                isOverlay: indicator.type === 'overlay' // or simple check
-            });
-        }
+        return this.allIndicators
+            .map(indicator => this.serializeIndicator(indicator))
+            .concat(this._unresolved);
+    }
 
-        return serialized;
+    /**
+     * Serialize one indicator, e.g. to restore it after removal
+     */
+    serializeIndicator(indicator: Indicator): SerializedIndicator {
+        return {
+            id: indicator.id,
+            type: indicator.type,
+            typeId: getIndicatorType(indicator) ?? 'Unknown',
+            name: indicator.name,
+            options: { ...indicator.options },
+            isOverlay: indicator.type === 'overlay' // or simple check
+        };
     }
 
     /**
@@ -277,6 +552,7 @@ export class IndicatorManager {
     deserialize(data: SerializedIndicator[]): void {
         // Clear existing indicators
         this.clear();
+        this._unresolved = [];
 
         for (const item of data) {
             this._createIndicatorFromSerialized(item);
@@ -287,109 +563,37 @@ export class IndicatorManager {
      * Create indicator from serialized data
      */
     private _createIndicatorFromSerialized(item: SerializedIndicator): void {
-        let indicator: Indicator | null = null;
-
-        // Use typeId to instantiate correct class
-        // Fallback to type logic if typeId is missing (backward compatibility if needed)
-        const typeId = item.typeId;
-
-        switch (typeId) {
-            case 'RSI':
-                indicator = new RSIIndicator(item.options as any);
-                break;
-            case 'EMA':
-                indicator = new EMAIndicator(item.options as any);
-                break;
-            case 'SMA':
-                indicator = new SMAIndicator(item.options as any);
-                break;
-            case 'BollingerBands':
-                indicator = new BBIndicator(item.options as any);
-                break;
-            case 'MACD':
-                indicator = new MACDIndicator(item.options as any);
-                break;
-            case 'Stochastic':
-                indicator = new StochIndicator(item.options as any);
-                break;
-            case 'SAR':
-                indicator = new ParabolicSARIndicator(item.options as any);
-                break;
-            case 'SuperTrend':
-                indicator = new SuperTrendIndicator(item.options as any);
-                break;
-            case 'AlphaTrend':
-                indicator = new AlphaTrendIndicator(item.options as any);
-                break;
-            case 'Ichimoku':
-                indicator = new IchimokuIndicator(item.options as any);
-                break;
-            case 'ZigZagTrendline':
-                indicator = new ZigZagTrendlineIndicator(item.options as any);
-                break;
-            case 'Volume':
-                indicator = new VolumeIndicator(item.options as any);
-                break;
-            case 'HMA':
-                indicator = new HMAIndicator(item.options as any);
-                break;
-            case 'StochasticRSI':
-                indicator = new StochRSIIndicator(item.options as any);
-                break;
-            case 'HalfTrend':
-                indicator = new HalfTrendIndicator(item.options as any);
-                break;
-            case 'TdojiOscillator':
-                indicator = new TdojiOscillatorIndicator(item.options as any);
-                break;
-            case 'Thunderbirdx':
-                indicator = new ThunderbirdxIndicator(item.options as any);
-                break;
-            case 'TdojiSR':
-                indicator = new TdojiSRIndicator(item.options as any);
-                break;
-            case 'TdojiMom':
-                indicator = new TdojiMomIndicator(item.options as any);
-                break;
-            case 'ZigZag':
-                indicator = new ZigZagIndicator(item.options as any);
-                break;
-            case 'ABCDPattern':
-                indicator = new ABCDPatternIndicator(item.options as any);
-                break;
-            case 'HarmonicPattern':
-                indicator = new HarmonicPatternIndicator(item.options as any);
-                break;
-            case 'ChartPatterns':
-                indicator = new ChartPatternsIndicator(item.options as any);
-                break;
-            case 'TrendlineBreakout':
-                indicator = new TrendlineBreakoutIndicator(item.options as any);
-                break;
-
-
-
-
-            default:
-                console.warn(`Unknown indicator typeId: ${typeId}`);
-                return;
+        if (!getIndicatorDefinition(item.typeId)) {
+            console.warn(`Unknown indicator typeId: ${item.typeId}`);
+            this._unresolved.push(item);
+            return;
+        }
+
+        const indicator = this.createFromSerialized(item);
+        if (indicator instanceof OverlayIndicator) {
+            this.addOverlayIndicator(indicator);
+        } else if (indicator instanceof PanelIndicator) {
+            this.addPanelIndicator(indicator);
         }
+    }
 
-        if (!indicator) return;
+    /**
+     * Indicator of a serialized entry, with its saved ID, not added yet
+     * @returns null for unknown types and options the type rejects
+     */
+    createFromSerialized(item: SerializedIndicator): Indicator | null {
+        let indicator: Indicator | null;
+        try {
+            indicator = createIndicator(item.typeId, item.options);
+        } catch (error) {
+            console.warn(`Indicator ${item.id} (${item.typeId}) could not be restored:`, error);
+            return null;
+        }
+        if (!indicator) return null;
 
         // Restore ID
         Object.defineProperty(indicator, 'id', { value: item.id, writable: false });
-
-        // Add to appropriate collection based on indicator's inherent type
-        if (indicator.type === 'overlay') {
-            if (indicator instanceof OverlayIndicator) {
-                this.addOverlayIndicator(indicator);
-            }
-        } else {
-            if (indicator instanceof PanelIndicator) {
-                this.addPanelIndicator(indicator);
-            }
-        }
+        return indicator;
     }
 
     // --- Cleanup ---
@@ -420,9 +624,16 @@ export class IndicatorManager {
     destroy(): void {
         this.clear();
         this._sourceData = [];
+        this._unresolved = [];
+        this._timeframeLoader = null;
+        this._timeframeBars.clear();
+        this._timeframeRequests.clear();
+        this._derivativesFeed = null;
+        this._tradeFeed = null;
         this._onIndicatorAdded = null;
         this._onIndicatorRemoved = null;
         this._onPaneAdded = null;
         this._onPaneRemoved = null;
+        this._onTimeframeLoaded = null;
     }
 }
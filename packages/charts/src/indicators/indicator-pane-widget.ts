@@ -339,6 +339,13 @@ export class IndicatorPaneWidget implements Disposable {
 
         if (!visibleRange || data.length === 0) return;
 
+        // Indicators drawing their own plots (Pine scripts)
+        if (typeof (indicator as any).drawPanel === 'function') {
+            (indicator as any).drawPanel(ctx, this._timeScale, this._priceScale, visibleRange, mediaSize);
+            this._drawIndicatorLabel(ctx, indicator);
+            return;
+        }
+
         const options = indicator.options;
 
         // Draw level lines if available (e.g., RSI overbought/oversold)
@@ -0,0 +1,108 @@
+/**
+ * Indicator Registry
+ *
+ * Indicators the chart can create by type: they are listed in the indicator
+ * search, saved with their type in the chart state and restored from it.
+ * The built-in indicators are registered in builtin-indicators.ts, other
+ * packages add theirs with registerIndicator().
+ */
+
+import { Indicator, IndicatorOptions } from './indicator';
+import { BUILTIN_INDICATORS } from './builtin-indicators';
+
+/**
+ * Tab of the indicator search the indicator is listed under
+ */
+export type IndicatorCategory = 'standard' | 'custom' | 'pattern';
+
+/**
+ * An indicator type for registerIndicator()
+ */
+export interface IndicatorDefinition<TOptions extends IndicatorOptions = IndicatorOptions> {
+    /** Unique id, stored in saved charts so it must not change between versions */
+    type: string;
+    name: string;
+    /** Defaults to the name */
+    shortName?: string;
+    description?: string;
+    category: IndicatorCategory;
+    /** Drawn over the price chart (true) or in its own pane */
+    overlay: boolean;
+    /** Create an indicator; gets the defaults merged with the saved or given options */
+    factory: (options: Partial<TOptions>) => Indicator;
+    /** Options of an indicator added from the indicator search */
+    defaults?: Partial<TOptions>;
+    /**
+     * Recognize indicators created without the registry (e.g. `new MyIndicator()`)
+     * so they are saved with this type
+     */
+    matches?: (indicator: Indicator) => boolean;
+}
+
+const _definitions = new Map<string, IndicatorDefinition<any>>(
+    BUILTIN_INDICATORS.map(definition => [definition.type, definition])
+);
+
+/** Type of every indicator created through createIndicator() or recognized by `matches` */
+const _indicatorTypes = new WeakMap<Indicator, string>();
+
+/**
+ * Register an indicator type
+ * @throws Error if the type is already registered
+ */
+export function registerIndicator<TOptions extends IndicatorOptions>(definition: IndicatorDefinition<TOptions>): void {
+    if (_definitions.has(definition.type)) {
+        throw new Error(`Indicator type '${definition.type}' is already registered`);
+    }
+    _definitions.set(definition.type, definition);
+}
+
+/**
+ * Remove an indicator type. Indicators already on a chart stay there and
+ * saved charts keep them until the type is registered again.
+ * @returns false if the type was not registered
+ */
+export function unregisterIndicator(type: string): boolean {
+    return _definitions.delete(type);
+}
+
+export function getIndicatorDefinition(type: string): IndicatorDefinition<any> | null {
+    return _definitions.get(type) ?? null;
+}
+
+/**
+ * All registered types, in registration order
+ */
+export function getIndicatorDefinitions(): IndicatorDefinition<any>[] {
+    return Array.from(_definitions.values());
+}
+
+/**
+ * Create an indicator of a registered type with its defaults overridden by `options`
+ * @returns null if the type is not registered
+ */
+export function createIndicator(type: string, options: Partial<IndicatorOptions> & Record<string, any> = {}): Indicator | null {
+    const definition = _definitions.get(type);
+    if (!definition) return null;
+
+    const indicator = definition.factory({ ...definition.defaults, ...options });
+    _indicatorTypes.set(indicator, type);
+    return indicator;
+}
+
+/**
+ * Registered type of an indicator, null if no registered type claims it.
+ * The type is kept once found, so the indicator keeps it when unregistered.
+ */
+export function getIndicatorType(indicator: Indicator): string | null {
+    const known = _indicatorTypes.get(indicator);
+    if (known !== undefined) return known;
+
+    for (const definition of _definitions.values()) {
+        if (definition.matches?.(indicator)) {
+            _indicatorTypes.set(indicator, definition.type);
+            return definition.type;
+        }
+    }
+    return null;
+}
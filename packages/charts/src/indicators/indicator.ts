@@ -9,6 +9,7 @@
 
 import { BarData } from '../model/data';
 import { Delegate } from '../helpers/delegate';
+import { mapToChartBars } from '../helpers/timeframe';
 
 /**
  * Indicator data point
@@ -47,6 +48,8 @@ export interface IndicatorOptions {
     color: string;
     lineWidth: number;
     style: IndicatorStyle;  // Plot style (line, dots, etc.)
+    timeframe: string;      // Calculation timeframe ('' = chart timeframe)
+    priceScaleId: string;   // Scale of overlay indicators: 'right', 'left' or an overlay scale id
 }
 
 /**
@@ -60,6 +63,8 @@ export const defaultIndicatorOptions: IndicatorOptions = {
     color: '#2962ff',
     lineWidth: 2,
     style: IndicatorStyle.Line,
+    timeframe: '',
+    priceScaleId: 'right',
 };
 
 /**
@@ -118,6 +123,23 @@ export abstract class Indicator {
         return this._options.visible;
     }
 
+    get timeframe(): string {
+        return this._options.timeframe ?? '';
+    }
+
+    get priceScaleId(): string {
+        return this._options.priceScaleId ?? 'right';
+    }
+
+    /**
+     * Whether the indicator can be calculated on another timeframe.
+     * Indicators that draw patterns opt out; per-bar state is re-indexed in
+     * _remapToChartBars.
+     */
+    get supportsTimeframe(): boolean {
+        return true;
+    }
+
     // --- Settings Provider Methods (IndicatorSettingsProvider interface) ---
 
     /**
@@ -243,6 +265,81 @@ export abstract class Indicator {
         this._dataChanged.fire();
     }
 
+    /**
+     * Calculate on bars of a higher timeframe and map the values back onto the chart bars.
+     * Each chart bar shows the last higher timeframe value that was final when it closed.
+     */
+    setTimeframeData(sourceData: BarData[], timeframeData: BarData[], timeframe: string, chartTimeframe: string): void {
+        this.calculate(timeframeData);
+        this._sourceData = sourceData;
+        this._remapToChartBars(mapToChartBars(sourceData, chartTimeframe, timeframeData, timeframe), sourceData);
+        this._dataChanged.fire();
+    }
+
+    /**
+     * Re-index values calculated on timeframe bars to the chart bars.
+     * Subclasses keeping additional per-bar arrays remap those as well.
+     */
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        const points = this._data;
+        const template = points.find(p => p.values)?.values;
+
+        this._data = indexMap.map((j, i) => {
+            const point = j >= 0 ? points[j] : undefined;
+            if (point) {
+                return { ...point, time: sourceData[i].time };
+            }
+            return { time: sourceData[i].time, value: NaN, values: template?.map(() => NaN) };
+        });
+    }
+
+    /**
+     * Re-index an additional per-bar array, fill is used before the first closed timeframe bar
+     */
+    protected _remapArray<T>(items: T[], indexMap: number[], fill: T): T[] {
+        return indexMap.map(j => (j >= 0 && j < items.length ? items[j] : fill));
+    }
+
+    /**
+     * Prepend older source bars (lazy-loaded history).
+     * Indicators that declare a warm-up only recalculate the new bars plus an overlap
+     * into the already loaded range; the rest of the existing values are kept.
+     */
+    prependData(olderData: BarData[]): void {
+        if (olderData.length === 0) return;
+
+        const combined = olderData.concat(this._sourceData);
+        const warmup = this._getWarmupBars();
+
+        // Partial update relies on values being index-aligned with the source bars
+        if (warmup === null || this._data.length !== this._sourceData.length) {
+            this.setData(combined);
+            return;
+        }
+
+        const existingData = this._data;
+        const overlap = Math.min(warmup, this._sourceData.length);
+        const headLength = olderData.length + overlap;
+
+        this.calculate(combined.slice(0, headLength));
+        if (this._data.length !== headLength) {
+            this.setData(combined);
+            return;
+        }
+
+        this._sourceData = combined;
+        this._data = this._data.concat(existingData.slice(overlap));
+        this._dataChanged.fire();
+    }
+
+    /**
+     * Number of preceding bars a value depends on, used by prependData.
+     * null means the whole series has to be recalculated (stateful indicators).
+     */
+    protected _getWarmupBars(): number | null {
+        return null;
+    }
+
     /**
      * Show/hide indicator
      */
@@ -305,6 +402,34 @@ export abstract class OverlayIndicator extends Indicator {
 
         return { min, max };
     }
+
+    /**
+     * Value range over the bar indexes, scales without series auto-scale to it.
+     * Histograms are drawn from zero, so their range includes it.
+     */
+    getPriceRange(from: number, to: number): { min: number; max: number } | null {
+        const start = Math.max(0, Math.floor(from));
+        const end = Math.min(this._data.length - 1, Math.ceil(to));
+
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = start; i <= end; i++) {
+            const point = this._data[i];
+            const values = point.values && point.values.length > 1 ? point.values : [point.value];
+            for (const value of values) {
+                if (value === undefined || !isFinite(value)) continue;
+                if (value < min) min = value;
+                if (value > max) max = value;
+            }
+        }
+
+        if (min === Infinity) return null;
+        if (this._options.style === IndicatorStyle.Histogram) {
+            min = Math.min(min, 0);
+            max = Math.max(max, 0);
+        }
+        return { min, max };
+    }
 }
 
 /**
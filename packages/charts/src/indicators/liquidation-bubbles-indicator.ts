@@ -0,0 +1,198 @@
+/**
+ * Liquidation Bubbles Indicator
+ *
+ * Forced orders on the price pane: one bubble per bar and side at the volume
+ * weighted liquidation price, its area proportional to the notional.
+ */
+
+import { OverlayIndicator, IndicatorOptions, IndicatorRange } from './indicator';
+import { DerivativesConsumer } from './indicator-manager';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { TimePointIndex } from '../model/coordinate';
+import { DerivativesFeed, DerivativesFeedLink } from '../derivatives/derivatives-feed';
+import { BarLiquidations, liquidationsPerBar } from '../derivatives/derivatives-bars';
+import { formatCompact } from './derivatives-renderer';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    createVisibilityTab,
+    checkboxRow,
+    colorRow,
+    numberRow,
+} from '../gui/indicator_settings';
+
+/**
+ * Liquidation Bubbles indicator options
+ */
+export interface LiquidationBubblesIndicatorOptions extends IndicatorOptions {
+    /** Bubbles below this notional are not drawn */
+    minNotional: number;
+    /** Radius of the largest bubble in view, px */
+    maxRadius: number;
+    showLongs: boolean;
+    showShorts: boolean;
+    longColor: string;
+    shortColor: string;
+}
+
+const defaultLiquidationBubblesOptions: Partial<LiquidationBubblesIndicatorOptions> = {
+    name: 'Liquidation Bubbles',
+    minNotional: 10000,
+    maxRadius: 24,
+    showLongs: true,
+    showShorts: true,
+    color: '#787b86',
+    lineWidth: 1,
+    longColor: 'rgba(242, 54, 69, 0.5)',
+    shortColor: 'rgba(8, 153, 129, 0.5)',
+};
+
+/** Smallest bubble radius, px */
+const MIN_RADIUS = 2;
+
+export class LiquidationBubblesIndicator extends OverlayIndicator implements DerivativesConsumer {
+    private _bubbleOptions: LiquidationBubblesIndicatorOptions;
+    private readonly _link = new DerivativesFeedLink(['liquidations'], () => this._refresh());
+    private _bars: BarLiquidations[] = [];
+
+    constructor(options: Partial<LiquidationBubblesIndicatorOptions> = {}) {
+        const mergedOptions = { ...defaultLiquidationBubblesOptions, ...options };
+        super(mergedOptions);
+        this._bubbleOptions = { ...defaultLiquidationBubblesOptions, ...this._options } as LiquidationBubblesIndicatorOptions;
+    }
+
+    /** Forced orders are placed on the chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Feed the forced orders come from, set by the indicator manager */
+    setDerivativesFeed(feed: DerivativesFeed | null): void {
+        this._link.setFeed(feed);
+        this._refresh();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._bubbleOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: this.name,
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        numberRow('minNotional', 'Minimum Notional', 0, 1e9, 1000),
+                        checkboxRow('showLongs', 'Long Liquidations', this._bubbleOptions.showLongs),
+                        checkboxRow('showShorts', 'Short Liquidations', this._bubbleOptions.showShorts),
+                    ],
+                }]),
+                createStyleTab([{
+                    rows: [
+                        numberRow('maxRadius', 'Maximum Radius', 4, 80, 1),
+                        colorRow('longColor', 'Long Color', this._bubbleOptions.longColor),
+                        colorRow('shortColor', 'Short Color', this._bubbleOptions.shortColor),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<LiquidationBubblesIndicatorOptions>): boolean {
+        Object.assign(this._bubbleOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        this._dataChanged.fire();
+        return false;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    /** The bubbles are drawn at their own prices, data points carry no value to scale to */
+    calculate(sourceData: BarData[]): void {
+        this._bars = liquidationsPerBar(sourceData, this._link.feed?.liquidations ?? []);
+        this._data = sourceData.map(bar => ({ time: bar.time, value: NaN }));
+    }
+
+    getRange(): IndicatorRange {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const bar of this._bars) {
+            for (const price of [bar.longPrice, bar.shortPrice]) {
+                if (isNaN(price)) continue;
+                min = Math.min(min, price);
+                max = Math.max(max, price);
+            }
+        }
+        return min === Infinity ? { min: 0, max: 100 } : { min, max };
+    }
+
+    getDescription(index?: number): string {
+        const bar = index !== undefined ? this._bars[index] : this._bars[this._bars.length - 1];
+        if (!bar) return 'Liquidations';
+        return `Liq L ${formatCompact(bar.longs)} S ${formatCompact(bar.shorts)}`;
+    }
+
+    drawOverlay(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        hpr: number,
+        vpr: number,
+        visibleRange: { from: number; to: number }
+    ): void {
+        const options = this._bubbleOptions;
+        const from = Math.max(0, Math.floor(visibleRange.from));
+        const to = Math.min(this._bars.length - 1, Math.ceil(visibleRange.to));
+        if (to < from) return;
+
+        // Sized against the largest bubble in view
+        let largest = 0;
+        for (let i = from; i <= to; i++) {
+            const bar = this._bars[i];
+            if (options.showLongs) largest = Math.max(largest, bar.longs);
+            if (options.showShorts) largest = Math.max(largest, bar.shorts);
+        }
+        if (largest < options.minNotional || largest <= 0) return;
+
+        const ratio = Math.min(hpr, vpr);
+        ctx.save();
+        const drawBubble = (index: number, notional: number, price: number, color: string) => {
+            if (notional < options.minNotional || notional <= 0 || isNaN(price)) return;
+            const radius = Math.max(MIN_RADIUS, Math.sqrt(notional / largest) * options.maxRadius) * ratio;
+            const x = timeScale.indexToCoordinate(index as TimePointIndex) * hpr;
+            const y = priceScale.priceToCoordinate(price) * vpr;
+
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.arc(x, y, radius, 0, Math.PI * 2);
+            ctx.fill();
+        };
+        for (let i = from; i <= to; i++) {
+            const bar = this._bars[i];
+            if (options.showLongs) drawBubble(i, bar.longs, bar.longPrice, options.longColor);
+            if (options.showShorts) drawBubble(i, bar.shorts, bar.shortPrice, options.shortColor);
+        }
+        ctx.restore();
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        this._bars = [];
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    private _refresh(): void {
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+}
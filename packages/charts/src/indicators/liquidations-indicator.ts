@@ -0,0 +1,146 @@
+/**
+ * Liquidations Indicator
+ *
+ * Notional of the forced orders per bar: short liquidations above zero,
+ * long liquidations below. Built from the live liquidation stream plus the
+ * history the provider keeps, so bars from before the chart was opened stay
+ * empty on exchanges that only stream them.
+ */
+
+import { PanelIndicator, IndicatorOptions, IndicatorRange } from './indicator';
+import { DerivativesConsumer } from './indicator-manager';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { DerivativesFeed, DerivativesFeedLink } from '../derivatives/derivatives-feed';
+import { BarLiquidations, liquidationsPerBar } from '../derivatives/derivatives-bars';
+import { drawBars, drawLevel, formatCompact } from './derivatives-renderer';
+import {
+    IndicatorSettingsConfig,
+    createStyleTab,
+    createVisibilityTab,
+    colorRow,
+} from '../gui/indicator_settings';
+
+/**
+ * Liquidations indicator options
+ */
+export interface LiquidationsIndicatorOptions extends IndicatorOptions {
+    longColor: string;
+    shortColor: string;
+}
+
+const defaultLiquidationsOptions: Partial<LiquidationsIndicatorOptions> = {
+    name: 'Liquidations',
+    color: '#787b86',
+    lineWidth: 1,
+    longColor: 'rgba(242, 54, 69, 0.8)',
+    shortColor: 'rgba(8, 153, 129, 0.8)',
+};
+
+export class LiquidationsIndicator extends PanelIndicator implements DerivativesConsumer {
+    private _liquidationOptions: LiquidationsIndicatorOptions;
+    private readonly _link = new DerivativesFeedLink(['liquidations'], () => this._refresh());
+    private _bars: BarLiquidations[] = [];
+
+    constructor(options: Partial<LiquidationsIndicatorOptions> = {}) {
+        const mergedOptions = { ...defaultLiquidationsOptions, ...options };
+        super(mergedOptions);
+        this._liquidationOptions = { ...defaultLiquidationsOptions, ...this._options } as LiquidationsIndicatorOptions;
+        this._paneHeight = 100;
+    }
+
+    /** Forced orders are summed on the chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Feed the forced orders come from, set by the indicator manager */
+    setDerivativesFeed(feed: DerivativesFeed | null): void {
+        this._link.setFeed(feed);
+        this._refresh();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._liquidationOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: this.name,
+            tabs: [
+                createStyleTab([{
+                    rows: [
+                        colorRow('longColor', 'Long Liquidations', this._liquidationOptions.longColor),
+                        colorRow('shortColor', 'Short Liquidations', this._liquidationOptions.shortColor),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<LiquidationsIndicatorOptions>): boolean {
+        Object.assign(this._liquidationOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        this._dataChanged.fire();
+        return false;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    calculate(sourceData: BarData[]): void {
+        this._bars = liquidationsPerBar(sourceData, this._link.feed?.liquidations ?? []);
+        this._data = sourceData.map((bar, i) => ({
+            time: bar.time,
+            value: this._bars[i].longs + this._bars[i].shorts,
+        }));
+    }
+
+    getRange(): IndicatorRange {
+        let max = 0;
+        for (const bar of this._bars) {
+            max = Math.max(max, bar.longs, bar.shorts);
+        }
+        max = max > 0 ? max : 1;
+        return { min: -max, max };
+    }
+
+    getDescription(index?: number): string {
+        const bar = index !== undefined ? this._bars[index] : this._bars[this._bars.length - 1];
+        if (!bar) return 'Liquidations';
+        return `Liq L ${formatCompact(bar.longs)} S ${formatCompact(bar.shorts)}`;
+    }
+
+    drawPanel(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        visibleRange: { from: number; to: number },
+        mediaSize: { width: number; height: number }
+    ): void {
+        const count = this._bars.length;
+        drawLevel(ctx, priceScale, 0, mediaSize.width, 'rgba(120, 123, 134, 0.5)');
+        drawBars(ctx, timeScale, priceScale, visibleRange,
+            (i) => this._bars[i]?.shorts ?? NaN, () => this._liquidationOptions.shortColor, count);
+        drawBars(ctx, timeScale, priceScale, visibleRange,
+            (i) => -(this._bars[i]?.longs ?? NaN), () => this._liquidationOptions.longColor, count);
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        this._bars = [];
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    private _refresh(): void {
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+}
@@ -128,6 +128,11 @@ export class MACDIndicator extends PanelIndicator {
         }
     }
 
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+        this._histogramData = this._remapArray(this._histogramData, indexMap, NaN);
+    }
+
     getRange(): IndicatorRange {
         if (this._data.length === 0) return { min: -1, max: 1 };
 
@@ -135,6 +140,9 @@ export class MACDIndicator extends PanelIndicator {
         let max = -Infinity;
 
         for (const point of this._data) {
+            // Bars before the first closed higher timeframe bar have no value
+            if (isNaN(point.value)) continue;
+
             const hist = point.value;
             const macd = point.values![0];
             const signal = point.values![1];
@@ -143,6 +151,8 @@ export class MACDIndicator extends PanelIndicator {
             max = Math.max(max, hist, macd, signal);
         }
 
+        if (min === Infinity) return { min: -1, max: 1 };
+
         return { min, max };
     }
 
@@ -0,0 +1,186 @@
+/**
+ * Open Interest Indicator
+ *
+ * Open interest of the chart symbol at the close of each bar, or its change
+ * per bar as a histogram. Needs a derivatives provider on the chart feed.
+ */
+
+import { PanelIndicator, IndicatorOptions, IndicatorRange } from './indicator';
+import { DerivativesConsumer } from './indicator-manager';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { openInterestPerBar } from '../model/liquidation-map';
+import { DerivativesFeed, DerivativesFeedLink } from '../derivatives/derivatives-feed';
+import { toOpenInterestSample } from '../derivatives/derivatives-bars';
+import { drawBars, drawLevel, drawLine, formatCompact } from './derivatives-renderer';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    createVisibilityTab,
+    colorRow,
+    lineWidthRow,
+    selectRow,
+} from '../gui/indicator_settings';
+
+export type OpenInterestDisplay = 'value' | 'delta';
+
+/**
+ * Open Interest indicator options
+ */
+export interface OpenInterestIndicatorOptions extends IndicatorOptions {
+    display: OpenInterestDisplay;
+    upColor: string;
+    downColor: string;
+}
+
+const defaultOpenInterestOptions: Partial<OpenInterestIndicatorOptions> = {
+    name: 'Open Interest',
+    display: 'value',
+    color: '#ff9800',
+    lineWidth: 1.5,
+    upColor: 'rgba(38, 166, 154, 0.7)',
+    downColor: 'rgba(239, 83, 80, 0.7)',
+};
+
+export class OpenInterestIndicator extends PanelIndicator implements DerivativesConsumer {
+    private _oiOptions: OpenInterestIndicatorOptions;
+    private readonly _link = new DerivativesFeedLink(['openInterest'], () => this._refresh());
+
+    constructor(options: Partial<OpenInterestIndicatorOptions> = {}) {
+        const mergedOptions = { ...defaultOpenInterestOptions, ...options };
+        super(mergedOptions);
+        this._oiOptions = { ...defaultOpenInterestOptions, ...this._options } as OpenInterestIndicatorOptions;
+        this._paneHeight = 100;
+    }
+
+    /** Bars of another timeframe have no open interest of their own */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Feed the open interest comes from, set by the indicator manager */
+    setDerivativesFeed(feed: DerivativesFeed | null): void {
+        this._link.setFeed(feed);
+        this._refresh();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._oiOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: this.name,
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('display', 'Display', [
+                            { value: 'value', label: 'Open interest' },
+                            { value: 'delta', label: 'Change per bar' },
+                        ], this._oiOptions.display),
+                    ],
+                }]),
+                createStyleTab([{
+                    rows: [
+                        colorRow('color', 'Line Color', this._oiOptions.color),
+                        lineWidthRow('lineWidth', 'Line Width'),
+                        colorRow('upColor', 'Increase Color', this._oiOptions.upColor),
+                        colorRow('downColor', 'Decrease Color', this._oiOptions.downColor),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<OpenInterestIndicatorOptions>): boolean {
+        const needsRecalc = newOptions.display !== undefined && newOptions.display !== this._oiOptions.display;
+        Object.assign(this._oiOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        if (needsRecalc && this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+        return needsRecalc;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    calculate(sourceData: BarData[]): void {
+        const samples = (this._link.feed?.openInterest ?? []).map(toOpenInterestSample);
+        const perBar = openInterestPerBar(sourceData, samples);
+        const delta = this._oiOptions.display === 'delta';
+
+        // Bars before the first sample have no value, delta needs two
+        this._data = sourceData.map((bar, i) => {
+            const value = perBar[i];
+            const previous = i > 0 ? perBar[i - 1] : null;
+            if (value === null || (delta && previous === null)) {
+                return { time: bar.time, value: NaN };
+            }
+            return { time: bar.time, value: delta ? value - previous! : value };
+        });
+    }
+
+    getRange(): IndicatorRange {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const point of this._data) {
+            if (isNaN(point.value)) continue;
+            min = Math.min(min, point.value);
+            max = Math.max(max, point.value);
+        }
+        if (min === Infinity) return { min: 0, max: 1 };
+
+        if (this._oiOptions.display === 'delta') {
+            const absMax = Math.max(Math.abs(min), Math.abs(max), 1e-6);
+            return { min: -absMax, max: absMax };
+        }
+        return min === max ? { min: min * 0.99, max: max * 1.01 } : { min, max };
+    }
+
+    getDescription(index?: number): string {
+        const point = index !== undefined ? this._data[index] : this._data[this._data.length - 1];
+        const value = point?.value ?? NaN;
+        if (this._oiOptions.display === 'delta') {
+            return `OI Δ ${!isNaN(value) && value > 0 ? '+' : ''}${formatCompact(value)}`;
+        }
+        return `OI ${formatCompact(value)}`;
+    }
+
+    drawPanel(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        visibleRange: { from: number; to: number },
+        mediaSize: { width: number; height: number }
+    ): void {
+        const valueAt = (i: number) => this._data[i]?.value ?? NaN;
+        if (this._oiOptions.display === 'delta') {
+            drawLevel(ctx, priceScale, 0, mediaSize.width, 'rgba(120, 123, 134, 0.5)');
+            drawBars(ctx, timeScale, priceScale, visibleRange, valueAt,
+                (_, value) => value >= 0 ? this._oiOptions.upColor : this._oiOptions.downColor, this._data.length);
+            return;
+        }
+        drawLine(ctx, timeScale, priceScale, visibleRange, valueAt, this._data.length,
+            this._oiOptions.color, this._oiOptions.lineWidth);
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    private _refresh(): void {
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+}
@@ -44,12 +44,13 @@ export class OverlayIndicatorRenderer {
 
     /**
      * Draw all overlay indicators
+     * @param priceScaleOf Scale of an indicator, see IndicatorOptions.priceScaleId
      * @param styleFilter Optional filter to draw ONLY specific styles (e.g. 'histogram' for background, or 'line' for foreground)
      */
     draw(
         scope: BitmapCoordinatesScope,
         timeScale: TimeScale,
-        priceScale: PriceScale,
+        priceScaleOf: (indicator: OverlayIndicator) => PriceScale,
         styleFilter?: 'histogram' | 'non-histogram'
     ): void {
         const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
@@ -65,6 +66,8 @@ export class OverlayIndicatorRenderer {
             if (styleFilter === 'histogram' && !isHistogram) continue;
             if (styleFilter === 'non-histogram' && isHistogram) continue;
 
+            const priceScale = priceScaleOf(indicator);
+
             if (typeof (indicator as any).drawOverlay === 'function') {
                 (indicator as any).drawOverlay(
                     ctx,
@@ -156,12 +159,18 @@ export class OverlayIndicatorRenderer {
         indicator: OverlayIndicator,
         data: readonly { time: number; value: number; values?: number[] }[],
         timeScale: TimeScale,
-        _priceScale: PriceScale,
+        priceScale: PriceScale,
         startIndex: number,
         endIndex: number,
         hpr: number,
         vpr: number
     ): void {
+        if (indicator.priceScaleId !== 'right') {
+            this._drawScaledHistogram(ctx, indicator, data, timeScale, priceScale, startIndex, endIndex, hpr, vpr);
+            return;
+        }
+
+        // On the main price scale the bars keep to the bottom of the pane
         const h = ctx.canvas.height / vpr;
         const volumeHeightRatio = 0.15; // Reduced further as per user request
         const barWidth = 0.8 * timeScale.barSpacing; // Match candle body width better
@@ -200,6 +209,42 @@ export class OverlayIndicatorRenderer {
         }
     }
 
+    /**
+     * Histogram on its own scale, bars grow from zero
+     */
+    private _drawScaledHistogram(
+        ctx: CanvasRenderingContext2D,
+        indicator: OverlayIndicator,
+        data: readonly { time: number; value: number; values?: number[] }[],
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        startIndex: number,
+        endIndex: number,
+        hpr: number,
+        vpr: number
+    ): void {
+        const barWidth = 0.8 * timeScale.barSpacing;
+        const upColor = (indicator.options as any).upColor || indicator.options.color;
+        const downColor = (indicator.options as any).downColor || indicator.options.color;
+        const zeroY = priceScale.priceToCoordinate(0);
+
+        for (let i = startIndex; i <= endIndex; i++) {
+            const point = data[i];
+            if (point === undefined || point.value === undefined || isNaN(point.value) || point.value === 0) continue;
+
+            const x = timeScale.indexToCoordinate(i as any) * hpr;
+            const y = priceScale.priceToCoordinate(point.value);
+
+            ctx.fillStyle = (point.values && point.values[0] === -1) ? downColor : upColor;
+            ctx.fillRect(
+                x - (barWidth / 2) * hpr,
+                Math.min(y, zeroY) * vpr,
+                barWidth * hpr,
+                Math.abs(zeroY - y) * vpr
+            );
+        }
+    }
+
     private _drawDots(
         ctx: CanvasRenderingContext2D,
         indicator: OverlayIndicator,
@@ -0,0 +1,412 @@
+/**
+ * Pine Script Indicators
+ *
+ * User-defined indicators running a Pine Script. The script's inputs become
+ * rows of the settings modal; syntax errors are thrown by createPineIndicator()
+ * and setSource(), runtime errors are kept in `error` and leave the indicator
+ * empty instead of throwing.
+ */
+
+import { OverlayIndicator, PanelIndicator, IndicatorOptions, IndicatorRange, IndicatorDataPoint } from './indicator';
+import { BarData } from '../model/data';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { compilePine, PineError, PineInputDefinition, PineInputValue, PineOutput, PineScript, PINE_SOURCES } from '../pine';
+import { drawPineOutput, getPineOutputRange } from './pine-renderer';
+import {
+    IndicatorSettingsConfig,
+    SettingRow,
+    createInputsTab,
+    createVisibilityTab,
+    numberRow,
+    colorRow,
+    checkboxRow,
+    selectRow,
+    textRow
+} from '../gui/indicator_settings';
+
+/**
+ * Pine indicator options
+ */
+export interface PineIndicatorOptions extends IndicatorOptions {
+    /** Pine Script source */
+    source: string;
+    /** Input values by input id, missing ones use the script's defaults */
+    inputs: Record<string, PineInputValue>;
+}
+
+export type PineIndicator = PineOverlayIndicator | PinePanelIndicator;
+
+/**
+ * Compile a script into an overlay or panel indicator, as its indicator() declares
+ * @throws PineError when the script doesn't compile
+ */
+export function createPineIndicator(source: string, options: Partial<PineIndicatorOptions> = {}): PineIndicator {
+    const script = compilePine(source);
+    return script.declaration.overlay
+        ? new PineOverlayIndicator(script, options)
+        : new PinePanelIndicator(script, options);
+}
+
+/**
+ * Script, last run and settings shared by both indicator kinds
+ */
+class PineRunner {
+    script: PineScript;
+    output: PineOutput | null = null;
+    error: PineError | null = null;
+
+    /** Options are read through the indicator, applyOptions() replaces its object */
+    constructor(script: PineScript, private readonly _getOptions: () => PineIndicatorOptions) {
+        this.script = script;
+        this.options.source = script.source;
+        this.options.inputs = { ...this.options.inputs };
+    }
+
+    get options(): PineIndicatorOptions {
+        return this._getOptions();
+    }
+
+    /** Run the script, returns the first plot as value and all plots as values */
+    run(sourceData: BarData[]): IndicatorDataPoint[] {
+        this.output = null;
+        this.error = null;
+
+        try {
+            this.output = this.script.run(sourceData, this.options.inputs);
+        } catch (error) {
+            if (!(error instanceof PineError)) throw error;
+            this.error = error;
+            return [];
+        }
+
+        const plots = this.output.plots;
+        return sourceData.map((bar, i) => ({
+            time: bar.time,
+            value: plots.length > 0 ? plots[0].values[i] : NaN,
+            values: plots.map(plot => plot.values[i]),
+        }));
+    }
+
+    /** Recompile, keeping the values of inputs that still exist with the same type */
+    setSource(source: string): PineScript {
+        const script = compilePine(source);
+        const inputs: Record<string, PineInputValue> = {};
+        for (const input of script.inputs) {
+            const previous = this.script.inputs.find(item => item.id === input.id);
+            if (previous && previous.type === input.type && this.options.inputs[input.id] !== undefined) {
+                inputs[input.id] = this.options.inputs[input.id];
+            }
+        }
+
+        this.script = script;
+        this.options.source = source;
+        this.options.inputs = inputs;
+        this.options.name = script.declaration.shortTitle;
+        return script;
+    }
+
+    getInput(key: string): PineInputDefinition | undefined {
+        return this.script.inputs.find(input => input.id === key);
+    }
+
+    inputValue(input: PineInputDefinition): PineInputValue {
+        return this.options.inputs[input.id] ?? input.defval;
+    }
+
+    /** @returns true if the value changed */
+    setInput(input: PineInputDefinition, value: any): boolean {
+        let parsed: PineInputValue;
+        switch (input.type) {
+            case 'int':
+            case 'float':
+                parsed = Number(value);
+                if (isNaN(parsed)) return false;
+                break;
+            case 'bool':
+                parsed = Boolean(value);
+                break;
+            default:
+                parsed = String(value);
+        }
+
+        if (this.inputValue(input) === parsed) return false;
+        this.options.inputs[input.id] = parsed;
+        return true;
+    }
+
+    settingsConfig(name: string): IndicatorSettingsConfig {
+        const rows = this.script.inputs.map(input => this._inputRow(input));
+        return {
+            name,
+            tabs: [
+                ...(rows.length > 0 ? [createInputsTab([{ rows }])] : []),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    description(index?: number): string {
+        const { shortTitle, precision } = this.script.declaration;
+        const inputs = this.script.inputs
+            .filter(input => input.type !== 'bool' && input.type !== 'color')
+            .map(input => String(this.inputValue(input)));
+        const title = inputs.length > 0 ? `${shortTitle} (${inputs.join(', ')})` : shortTitle;
+
+        if (this.error) {
+            return `${title}: ${this.error.description}`;
+        }
+        if (!this.output) {
+            return title;
+        }
+
+        const bar = index ?? this.output.times.length - 1;
+        const values = this.output.plots.map(plot => {
+            const value = plot.values[bar];
+            return value === undefined || isNaN(value) ? '-' : value.toFixed(precision ?? 2);
+        });
+        return values.length > 0 ? `${title}: ${values.join(' ')}` : title;
+    }
+
+    /** Last color of each plot, for the price axis label */
+    lineColors(fallback: string): string[] {
+        return (this.output?.plots ?? []).map(plot => {
+            for (let i = plot.colors.length - 1; i >= 0; i--) {
+                if (plot.colors[i]) return plot.colors[i]!;
+            }
+            return fallback;
+        });
+    }
+
+    private _inputRow(input: PineInputDefinition): SettingRow {
+        if (input.options) {
+            const options = input.options.map(option => ({ value: String(option), label: String(option) }));
+            return selectRow(input.id, input.title, options, String(input.defval));
+        }
+
+        switch (input.type) {
+            case 'int':
+                return numberRow(input.id, input.title, input.minval, input.maxval, input.step ?? 1);
+            case 'float':
+                return numberRow(input.id, input.title, input.minval, input.maxval, input.step);
+            case 'bool':
+                return checkboxRow(input.id, input.title, input.defval as boolean);
+            case 'color':
+                return colorRow(input.id, input.title, input.defval as string);
+            case 'source':
+                return selectRow(input.id, input.title, PINE_SOURCES.map(source => ({ value: source, label: source })), input.defval as string);
+            default:
+                return textRow(input.id, input.title, input.defval as string);
+        }
+    }
+}
+
+function _pineOptions(script: PineScript, options: Partial<PineIndicatorOptions>): Partial<PineIndicatorOptions> {
+    return {
+        inputs: {},
+        ...options,
+        name: script.declaration.shortTitle,
+    };
+}
+
+/**
+ * Pine indicator declared with overlay=true, drawn on the price chart
+ */
+export class PineOverlayIndicator extends OverlayIndicator {
+    private readonly _runner: PineRunner;
+
+    constructor(script: PineScript, options: Partial<PineIndicatorOptions> = {}) {
+        super(_pineOptions(script, options));
+        this._runner = new PineRunner(script, () => this._options as PineIndicatorOptions);
+    }
+
+    get script(): PineScript {
+        return this._runner.script;
+    }
+
+    /** Runtime error of the last calculation */
+    get error(): PineError | null {
+        return this._runner.error;
+    }
+
+    get output(): PineOutput | null {
+        return this._runner.output;
+    }
+
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /**
+     * Replace the script
+     * @throws PineError when the script doesn't compile
+     */
+    setSource(source: string): void {
+        this._runner.setSource(source);
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+
+    calculate(sourceData: BarData[]): void {
+        this._data = this._runner.run(sourceData);
+    }
+
+    getDescription(index?: number): string {
+        return this._runner.description(index);
+    }
+
+    getLineColors(): string[] {
+        return this._runner.lineColors(this._options.color);
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return this._runner.settingsConfig(this.name);
+    }
+
+    getSettingValue(key: string): any {
+        const input = this._runner.getInput(key);
+        return input ? this._runner.inputValue(input) : super.getSettingValue(key);
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        const input = this._runner.getInput(key);
+        if (!input) {
+            return super.setSettingValue(key, value);
+        }
+        const changed = this._runner.setInput(input, value);
+        if (changed) {
+            this._dataChanged.fire();
+        }
+        return changed;
+    }
+
+    drawOverlay(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        hpr: number,
+        vpr: number,
+        visibleRange: { from: number; to: number },
+        scope: { mediaSize: { width: number; height: number } }
+    ): void {
+        const output = this._runner.output;
+        if (!output) return;
+
+        ctx.save();
+        ctx.scale(hpr, vpr);
+        drawPineOutput(output, {
+            ctx,
+            timeScale,
+            priceScale,
+            bars: this._sourceData,
+            from: visibleRange.from,
+            to: visibleRange.to,
+            width: scope.mediaSize.width,
+            height: scope.mediaSize.height,
+        });
+        ctx.restore();
+    }
+}
+
+/**
+ * Pine indicator drawn in its own pane
+ */
+export class PinePanelIndicator extends PanelIndicator {
+    private readonly _runner: PineRunner;
+
+    constructor(script: PineScript, options: Partial<PineIndicatorOptions> = {}) {
+        super(_pineOptions(script, options));
+        this._runner = new PineRunner(script, () => this._options as PineIndicatorOptions);
+    }
+
+    get script(): PineScript {
+        return this._runner.script;
+    }
+
+    /** Runtime error of the last calculation */
+    get error(): PineError | null {
+        return this._runner.error;
+    }
+
+    get output(): PineOutput | null {
+        return this._runner.output;
+    }
+
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /**
+     * Replace the script
+     * @throws PineError when the script doesn't compile
+     */
+    setSource(source: string): void {
+        this._runner.setSource(source);
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+
+    calculate(sourceData: BarData[]): void {
+        this._data = this._runner.run(sourceData);
+    }
+
+    getRange(): IndicatorRange {
+        const output = this._runner.output;
+        return (output && getPineOutputRange(output)) ?? { min: 0, max: 100 };
+    }
+
+    getDescription(index?: number): string {
+        return this._runner.description(index);
+    }
+
+    getLineColors(): string[] {
+        return this._runner.lineColors(this._options.color);
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return this._runner.settingsConfig(this.name);
+    }
+
+    getSettingValue(key: string): any {
+        const input = this._runner.getInput(key);
+        return input ? this._runner.inputValue(input) : super.getSettingValue(key);
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        const input = this._runner.getInput(key);
+        if (!input) {
+            return super.setSettingValue(key, value);
+        }
+        const changed = this._runner.setInput(input, value);
+        if (changed) {
+            this._dataChanged.fire();
+        }
+        return changed;
+    }
+
+    drawPanel(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        visibleRange: { from: number; to: number },
+        mediaSize: { width: number; height: number }
+    ): void {
+        const output = this._runner.output;
+        if (!output) return;
+
+        drawPineOutput(output, {
+            ctx,
+            timeScale,
+            priceScale,
+            bars: this._sourceData,
+            from: visibleRange.from,
+            to: visibleRange.to,
+            width: mediaSize.width,
+            height: mediaSize.height,
+        });
+    }
+}
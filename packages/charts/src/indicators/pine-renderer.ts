@@ -0,0 +1,411 @@
+/**
+ * Pine Renderer
+ *
+ * Draws the output of a Pine Script run (plots, shapes, hlines, fills and
+ * background colors) in media coordinates, for overlays and panes alike.
+ */
+
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { BarData } from '../model/data';
+import { timePointIndex } from '../model/coordinate';
+import { PineFill, PineOutput, PineOutputRef, PinePlot, PineShapes } from '../pine';
+
+export interface PineDrawTarget {
+    ctx: CanvasRenderingContext2D;
+    timeScale: TimeScale;
+    priceScale: PriceScale;
+    /** The bars the script ran on, for shapes above and below bars */
+    bars: readonly BarData[];
+    /** Visible bar indices */
+    from: number;
+    to: number;
+    width: number;
+    height: number;
+}
+
+const SHAPE_SIZES: Record<PineShapes['size'], number> = {
+    auto: 8,
+    tiny: 6,
+    small: 8,
+    normal: 12,
+    large: 16,
+    huge: 24,
+};
+
+/** Gap between a bar and a shape placed above or below it */
+const SHAPE_MARGIN = 4;
+
+const LINE_DASHES: Record<string, number[]> = {
+    solid: [],
+    dotted: [2, 2],
+    dashed: [6, 4],
+};
+
+/**
+ * Draw everything a script plotted, backgrounds first and shapes last
+ */
+export function drawPineOutput(output: PineOutput, target: PineDrawTarget): void {
+    const { ctx } = target;
+    ctx.save();
+
+    for (const background of output.backgrounds) {
+        _drawBackground(target, background.colors, background.offset);
+    }
+    for (const fill of output.fills) {
+        _drawFill(target, output, fill);
+    }
+    for (const line of output.hlines) {
+        if (isNaN(line.price) || !line.color) continue;
+        const y = target.priceScale.priceToCoordinate(line.price);
+        ctx.strokeStyle = line.color;
+        ctx.lineWidth = line.linewidth;
+        ctx.setLineDash(LINE_DASHES[line.linestyle] ?? []);
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(target.width, y);
+        ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    for (const plot of output.plots) {
+        _drawPlot(target, plot);
+    }
+    for (const shapes of output.shapes) {
+        _drawShapes(target, shapes);
+    }
+
+    ctx.restore();
+}
+
+/**
+ * Value range of the plots and hlines over all bars
+ */
+export function getPineOutputRange(output: PineOutput): { min: number; max: number } | null {
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (const plot of output.plots) {
+        for (const value of plot.values) {
+            if (isNaN(value)) continue;
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+    }
+    for (const line of output.hlines) {
+        if (isNaN(line.price)) continue;
+        min = Math.min(min, line.price);
+        max = Math.max(max, line.price);
+    }
+
+    return min <= max ? { min, max } : null;
+}
+
+function _x(target: PineDrawTarget, index: number): number {
+    return target.timeScale.indexToCoordinate(timePointIndex(index));
+}
+
+/** Indices of the visible bars for a series shifted by offset */
+function _range(target: PineDrawTarget, length: number, offset: number): [number, number] {
+    const from = Math.max(0, Math.floor(target.from) - offset - 1);
+    const to = Math.min(length - 1, Math.ceil(target.to) - offset + 1);
+    return [from, to];
+}
+
+function _drawBackground(target: PineDrawTarget, colors: (string | null)[], offset: number): void {
+    const { ctx } = target;
+    const width = target.timeScale.barSpacing;
+    const [from, to] = _range(target, colors.length, offset);
+
+    for (let i = from; i <= to; i++) {
+        const color = colors[i];
+        if (!color) continue;
+        ctx.fillStyle = color;
+        ctx.fillRect(_x(target, i + offset) - width / 2, 0, width, target.height);
+    }
+}
+
+function _drawFill(target: PineDrawTarget, output: PineOutput, fill: PineFill): void {
+    const { ctx } = target;
+
+    if (fill.from.type === 'hline') {
+        const from = output.hlines[fill.from.index];
+        const to = output.hlines[fill.to.index];
+        const color = _lastColor(fill.colors);
+        if (!from || !to || !color || isNaN(from.price) || isNaN(to.price)) return;
+
+        const y1 = target.priceScale.priceToCoordinate(from.price);
+        const y2 = target.priceScale.priceToCoordinate(to.price);
+        ctx.fillStyle = color;
+        ctx.fillRect(0, Math.min(y1, y2), target.width, Math.abs(y2 - y1));
+        return;
+    }
+
+    const from = _plotValues(output, fill.from);
+    const to = _plotValues(output, fill.to);
+    if (!from || !to) return;
+
+    const [start, end] = _range(target, fill.colors.length, 0);
+    for (let i = Math.max(start, 1); i <= end; i++) {
+        const color = fill.colors[i];
+        if (!color || isNaN(from[i - 1]) || isNaN(to[i - 1]) || isNaN(from[i]) || isNaN(to[i])) continue;
+
+        const x1 = _x(target, i - 1);
+        const x2 = _x(target, i);
+        ctx.beginPath();
+        ctx.moveTo(x1, target.priceScale.priceToCoordinate(from[i - 1]));
+        ctx.lineTo(x2, target.priceScale.priceToCoordinate(from[i]));
+        ctx.lineTo(x2, target.priceScale.priceToCoordinate(to[i]));
+        ctx.lineTo(x1, target.priceScale.priceToCoordinate(to[i - 1]));
+        ctx.closePath();
+        ctx.fillStyle = color;
+        ctx.fill();
+    }
+}
+
+function _plotValues(output: PineOutput, ref: PineOutputRef): number[] | null {
+    return ref.type === 'plot' ? output.plots[ref.index]?.values ?? null : null;
+}
+
+function _lastColor(colors: (string | null)[]): string | null {
+    for (let i = colors.length - 1; i >= 0; i--) {
+        if (colors[i]) return colors[i];
+    }
+    return null;
+}
+
+function _drawPlot(target: PineDrawTarget, plot: PinePlot): void {
+    const { ctx, priceScale } = target;
+    const [from, to] = _range(target, plot.values.length, plot.offset);
+    const barWidth = Math.max(1, target.timeScale.barSpacing * 0.6);
+    const zeroY = priceScale.priceToCoordinate(0);
+
+    ctx.lineWidth = plot.linewidth;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    let previous: { x: number; y: number } | null = null;
+
+    for (let i = from; i <= to; i++) {
+        const value = plot.values[i];
+        const color = plot.colors[i];
+
+        if (isNaN(value)) {
+            // linebr and areabr break at na, the other line styles connect over it
+            if (plot.style === 'linebr' || plot.style === 'areabr') previous = null;
+            continue;
+        }
+
+        const x = _x(target, i + plot.offset);
+        const y = priceScale.priceToCoordinate(value);
+
+        switch (plot.style) {
+            case 'histogram':
+                if (color) {
+                    ctx.strokeStyle = color;
+                    ctx.beginPath();
+                    ctx.moveTo(x, zeroY);
+                    ctx.lineTo(x, y);
+                    ctx.stroke();
+                }
+                continue;
+            case 'columns':
+                if (color) {
+                    ctx.fillStyle = color;
+                    ctx.fillRect(x - barWidth / 2, Math.min(y, zeroY), barWidth, Math.max(1, Math.abs(zeroY - y)));
+                }
+                continue;
+            case 'circles':
+                if (color) {
+                    ctx.fillStyle = color;
+                    ctx.beginPath();
+                    ctx.arc(x, y, plot.linewidth + 1, 0, Math.PI * 2);
+                    ctx.fill();
+                }
+                continue;
+            case 'cross':
+                if (color) {
+                    const size = plot.linewidth + 3;
+                    ctx.strokeStyle = color;
+                    ctx.beginPath();
+                    ctx.moveTo(x - size, y);
+                    ctx.lineTo(x + size, y);
+                    ctx.moveTo(x, y - size);
+                    ctx.lineTo(x, y + size);
+                    ctx.stroke();
+                }
+                continue;
+        }
+
+        if (previous && color) {
+            if (plot.style === 'area' || plot.style === 'areabr') {
+                ctx.fillStyle = color;
+                ctx.globalAlpha = 0.3;
+                ctx.beginPath();
+                ctx.moveTo(previous.x, zeroY);
+                ctx.lineTo(previous.x, previous.y);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x, zeroY);
+                ctx.closePath();
+                ctx.fill();
+                ctx.globalAlpha = 1;
+            }
+
+            ctx.strokeStyle = color;
+            ctx.beginPath();
+            ctx.moveTo(previous.x, previous.y);
+            if (plot.style === 'stepline') {
+                ctx.lineTo(x, previous.y);
+            }
+            ctx.lineTo(x, y);
+            ctx.stroke();
+        }
+
+        previous = { x, y };
+    }
+}
+
+function _drawShapes(target: PineDrawTarget, shapes: PineShapes): void {
+    const { ctx, priceScale } = target;
+    const [from, to] = _range(target, shapes.values.length, shapes.offset);
+    const size = SHAPE_SIZES[shapes.size];
+
+    ctx.textAlign = 'center';
+    ctx.font = `${Math.max(10, size)}px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
+
+    for (let i = from; i <= to; i++) {
+        const value = shapes.values[i];
+        const color = shapes.colors[i];
+        if (isNaN(value) || !color) continue;
+
+        const bar = target.bars[i];
+        const x = _x(target, i + shapes.offset);
+        let y: number;
+        let above = true;
+        switch (shapes.location) {
+            case 'abovebar':
+                if (!bar) continue;
+                y = priceScale.priceToCoordinate(bar.high) - SHAPE_MARGIN - size / 2;
+                break;
+            case 'belowbar':
+                if (!bar) continue;
+                y = priceScale.priceToCoordinate(bar.low) + SHAPE_MARGIN + size / 2;
+                above = false;
+                break;
+            case 'top':
+                y = SHAPE_MARGIN + size / 2;
+                break;
+            case 'bottom':
+                y = target.height - SHAPE_MARGIN - size / 2;
+                above = false;
+                break;
+            default:
+                y = priceScale.priceToCoordinate(value);
+        }
+
+        ctx.fillStyle = color;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+
+        if (shapes.style === 'char') {
+            ctx.textBaseline = 'middle';
+            ctx.fillText(shapes.char, x, y);
+        } else {
+            _drawShape(ctx, shapes.style, x, y, size);
+        }
+
+        if (shapes.text) {
+            ctx.textBaseline = above ? 'bottom' : 'top';
+            shapes.text.split('\n').forEach((line, n, lines) => {
+                const shift = above ? -(lines.length - 1 - n) : n;
+                ctx.fillText(line, x, y + (above ? -size : size) / 2 + shift * (size + 2));
+            });
+        }
+    }
+}
+
+function _drawShape(ctx: CanvasRenderingContext2D, style: string, x: number, y: number, size: number): void {
+    const half = size / 2;
+    ctx.beginPath();
+
+    switch (style) {
+        case 'triangleup':
+        case 'labelup':
+            ctx.moveTo(x, y - half);
+            ctx.lineTo(x + half, y + half);
+            ctx.lineTo(x - half, y + half);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'triangledown':
+        case 'labeldown':
+            ctx.moveTo(x, y + half);
+            ctx.lineTo(x + half, y - half);
+            ctx.lineTo(x - half, y - half);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'arrowup':
+            ctx.moveTo(x, y - half);
+            ctx.lineTo(x + half, y);
+            ctx.lineTo(x + half / 3, y);
+            ctx.lineTo(x + half / 3, y + half);
+            ctx.lineTo(x - half / 3, y + half);
+            ctx.lineTo(x - half / 3, y);
+            ctx.lineTo(x - half, y);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'arrowdown':
+            ctx.moveTo(x, y + half);
+            ctx.lineTo(x + half, y);
+            ctx.lineTo(x + half / 3, y);
+            ctx.lineTo(x + half / 3, y - half);
+            ctx.lineTo(x - half / 3, y - half);
+            ctx.lineTo(x - half / 3, y);
+            ctx.lineTo(x - half, y);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'circle':
+            ctx.arc(x, y, half, 0, Math.PI * 2);
+            ctx.fill();
+            return;
+        case 'square':
+            ctx.fillRect(x - half, y - half, size, size);
+            return;
+        case 'diamond':
+            ctx.moveTo(x, y - half);
+            ctx.lineTo(x + half, y);
+            ctx.lineTo(x, y + half);
+            ctx.lineTo(x - half, y);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'flag':
+            ctx.moveTo(x - half, y + half);
+            ctx.lineTo(x - half, y - half);
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.moveTo(x - half, y - half);
+            ctx.lineTo(x + half, y - half / 2);
+            ctx.lineTo(x - half, y);
+            ctx.closePath();
+            ctx.fill();
+            return;
+        case 'cross':
+            ctx.moveTo(x - half, y);
+            ctx.lineTo(x + half, y);
+            ctx.moveTo(x, y - half);
+            ctx.lineTo(x, y + half);
+            ctx.stroke();
+            return;
+        default:
+            // xcross
+            ctx.moveTo(x - half, y - half);
+            ctx.lineTo(x + half, y + half);
+            ctx.moveTo(x + half, y - half);
+            ctx.lineTo(x - half, y + half);
+            ctx.stroke();
+    }
+}
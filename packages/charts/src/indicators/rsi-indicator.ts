@@ -158,6 +158,11 @@ export class RSIIndicator extends PanelIndicator {
 
     // --- Abstract implementations ---
 
+    /** Wilder smoothing has infinite memory, after 10 periods the seed's influence is negligible */
+    protected _getWarmupBars(): number {
+        return this._rsiOptions.period * 10;
+    }
+
     /**
      * Calculate RSI values from source data
      */
@@ -0,0 +1,117 @@
+/**
+ * Session Volume Profile Indicator
+ *
+ * One volume profile per trading session, day or week, drawn over the bars
+ * of its period. Sessions follow the chart symbol's trading hours and fall
+ * back to days for symbols trading around the clock.
+ */
+
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { TimePointIndex } from '../model/coordinate';
+import { BarData } from '../model/data';
+import { VolumeProfile, VolumeProfilePeriod, profilePeriods } from '../model/volume-profile';
+import {
+    VolumeProfileIndicator,
+    VolumeProfileIndicatorOptions,
+    defaultVolumeProfileOptions,
+} from './volume-profile-indicator';
+import { SettingRow, selectRow } from '../gui/indicator_settings';
+
+/**
+ * Session Volume Profile indicator options
+ */
+export interface SessionVolumeProfileIndicatorOptions extends VolumeProfileIndicatorOptions {
+    period: VolumeProfilePeriod;
+}
+
+const defaultSessionOptions: Partial<SessionVolumeProfileIndicatorOptions> = {
+    ...defaultVolumeProfileOptions,
+    name: 'Session Volume Profile',
+    period: 'session',
+    widthPercent: 70,
+};
+
+interface PeriodProfile {
+    /** Bar indexes of the period, inclusive */
+    from: number;
+    to: number;
+    profile: VolumeProfile | null;
+}
+
+export class SessionVolumeProfileIndicator extends VolumeProfileIndicator<SessionVolumeProfileIndicatorOptions> {
+    private _profiles: PeriodProfile[] = [];
+
+    constructor(options: Partial<SessionVolumeProfileIndicatorOptions> = {}) {
+        super(defaultSessionOptions, options);
+    }
+
+    /** Profiles of the periods, oldest first */
+    get profiles(): readonly PeriodProfile[] {
+        return this._profiles;
+    }
+
+    calculate(sourceData: BarData[]): void {
+        super.calculate(sourceData);
+        const periods = profilePeriods(sourceData, this._vpOptions.period, this._market.session, this._market.timeZone);
+        this._profiles = periods.map(({ from, to }) => ({
+            from,
+            to,
+            profile: this._buildProfile(sourceData.slice(from, to + 1)),
+        }));
+    }
+
+    getDescription(index?: number): string {
+        const target = index ?? this._sourceData.length - 1;
+        const period = this._profiles.find(item => item.from <= target && target <= item.to);
+        return this._describe('SVP', period?.profile ?? null);
+    }
+
+    drawOverlay(
+        ctx: CanvasRenderingContext2D,
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        hpr: number,
+        vpr: number,
+        visibleRange: { from: number; to: number }
+    ): void {
+        const halfBar = timeScale.barSpacing / 2;
+        const priceToY = (price: number) => priceScale.priceToCoordinate(price) * vpr;
+
+        for (const { from, to, profile } of this._profiles) {
+            if (!profile || to < visibleRange.from - 1 || from > visibleRange.to + 1) continue;
+
+            const left = (timeScale.indexToCoordinate(from as TimePointIndex) - halfBar) * hpr;
+            const right = (timeScale.indexToCoordinate(to as TimePointIndex) + halfBar) * hpr;
+            this._renderer.draw(
+                ctx,
+                profile,
+                {
+                    x: left,
+                    width: (right - left) * this._vpOptions.widthPercent / 100,
+                    align: 'left',
+                    lineFrom: left,
+                    lineTo: right,
+                },
+                priceToY,
+                hpr
+            );
+        }
+    }
+
+    // --- Protected ---
+
+    protected _profileKeys(): string[] {
+        return [...super._profileKeys(), 'period'];
+    }
+
+    protected _inputRows(): SettingRow[] {
+        return [
+            selectRow('period', 'Period', [
+                { value: 'session', label: 'Session' },
+                { value: 'day', label: 'Day' },
+                { value: 'week', label: 'Week' },
+            ], this._vpOptions.period),
+        ];
+    }
+}
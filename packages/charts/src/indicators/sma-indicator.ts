@@ -93,6 +93,10 @@ export class SMAIndicator extends OverlayIndicator {
         }
     }
 
+    protected _getWarmupBars(): number {
+        return this._smaOptions.period - 1;
+    }
+
     calculate(sourceData: BarData[]): void {
         this._data = [];
         const period = this._smaOptions.period;
@@ -175,6 +175,36 @@ export class SuperTrendIndicator extends OverlayIndicator {
         }));
     }
 
+    /**
+     * Higher timeframe states onto the chart bars: each bar keeps the state of
+     * the last closed timeframe bar, a flip only shows on the bar it closed on
+     */
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+
+        const states = this._states;
+        this._states = indexMap.map((j, i) => {
+            const bar = sourceData[i];
+            const ohlc4 = (bar.open + bar.high + bar.low + bar.close) / 4;
+            const state = j >= 0 ? states[j] : undefined;
+            if (!state) {
+                return {
+                    time: bar.time, index: i, trend: 1, up: NaN, dn: NaN, lineValue: NaN,
+                    ohlc4, buySignal: false, sellSignal: false,
+                };
+            }
+            const closed = i === 0 || indexMap[i - 1] !== j;
+            return {
+                ...state,
+                time: bar.time,
+                index: i,
+                ohlc4,
+                buySignal: state.buySignal && closed,
+                sellSignal: state.sellSignal && closed,
+            };
+        });
+    }
+
     getRange(): IndicatorRange {
         if (this._states.length === 0) {
             return { min: 0, max: 100 };
@@ -183,10 +213,14 @@ export class SuperTrendIndicator extends OverlayIndicator {
         let min = Infinity;
         let max = -Infinity;
         for (const state of this._states) {
-            min = Math.min(min, state.up, state.dn, state.ohlc4);
-            max = Math.max(max, state.up, state.dn, state.ohlc4);
+            // Bars before the first closed higher timeframe bar have no bands
+            for (const value of [state.up, state.dn, state.ohlc4]) {
+                if (!Number.isFinite(value)) continue;
+                min = Math.min(min, value);
+                max = Math.max(max, value);
+            }
         }
-        return { min, max };
+        return min === Infinity ? { min: 0, max: 100 } : { min, max };
     }
 
     getDescription(index?: number): string {
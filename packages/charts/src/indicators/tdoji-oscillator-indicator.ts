@@ -128,6 +128,11 @@ export class TdojiOscillatorIndicator extends PanelIndicator {
         }
     }
 
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+        this._lineColors = this._remapArray(this._lineColors, indexMap, this._tdojiOptions.neutralColor);
+    }
+
     getRange(): IndicatorRange {
         if (this._data.length === 0) {
             return { min: -1, max: 1 };
@@ -72,6 +72,11 @@ export class TdojiSRIndicator extends OverlayIndicator {
         this._srOptions = { ...defaultTdojiSROptions, ...this._options } as TdojiSRIndicatorOptions;
     }
 
+    /** Levels are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return {
             ...this._srOptions,
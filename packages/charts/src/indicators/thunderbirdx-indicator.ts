@@ -196,6 +196,17 @@ export class ThunderbirdxIndicator extends PanelIndicator {
         return { min: min - padding, max: max + padding };
     }
 
+    protected _remapToChartBars(indexMap: number[], sourceData: BarData[]): void {
+        super._remapToChartBars(indexMap, sourceData);
+        this._histogram = this._remapArray(this._histogram, indexMap, NaN);
+        this._histogramColors = this._remapArray(this._histogramColors, indexMap, this._tbxOptions.histUpStrong);
+        this._fillColors = this._remapArray(
+            this._fillColors,
+            indexMap,
+            withAlpha(this._tbxOptions.neutralFillColor, this._tbxOptions.fillOpacity)
+        );
+    }
+
     getDescription(index?: number): string {
         const dataIndex = index !== undefined && index >= 0 && index < this._data.length
             ? index
@@ -54,6 +54,11 @@ export class TrendlineBreakoutIndicator extends OverlayIndicator {
         this._optionsEx = { ...defaults, ...this._options } as TrendlineBreakoutIndicatorOptions;
     }
 
+    /** Trendlines are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._optionsEx };
     }
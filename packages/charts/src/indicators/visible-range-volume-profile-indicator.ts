@@ -0,0 +1,102 @@
+/**
+ * Visible Range Volume Profile Indicator
+ *
+ * Volume profile of the bars in view, rebuilt when the chart is scrolled or
+ * zoomed, drawn at the right or left edge of the pane.
+ */
+
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { BarData } from '../model/data';
+import { VolumeProfile } from '../model/volume-profile';
+import { BitmapCoordinatesScope } from '../renderers/grid-renderer';
+import {
+    VolumeProfileIndicator,
+    VolumeProfileIndicatorOptions,
+    defaultVolumeProfileOptions,
+} from './volume-profile-indicator';
+import { SettingRow, selectRow } from '../gui/indicator_settings';
+
+/**
+ * Visible Range Volume Profile indicator options
+ */
+export interface VisibleRangeVolumeProfileIndicatorOptions extends VolumeProfileIndicatorOptions {
+    /** Pane edge the profile is drawn at */
+    placement: 'right' | 'left';
+}
+
+const defaultVisibleRangeOptions: Partial<VisibleRangeVolumeProfileIndicatorOptions> = {
+    ...defaultVolumeProfileOptions,
+    name: 'Visible Range Volume Profile',
+    placement: 'right',
+};
+
+export class VisibleRangeVolumeProfileIndicator extends VolumeProfileIndicator<VisibleRangeVolumeProfileIndicatorOptions> {
+    private _profile: VolumeProfile | null = null;
+    /** Bars and options the profile was built from */
+    private _profileKey: string = '';
+
+    constructor(options: Partial<VisibleRangeVolumeProfileIndicatorOptions> = {}) {
+        super(defaultVisibleRangeOptions, options);
+    }
+
+    /** The profile of the bars last drawn */
+    get profile(): VolumeProfile | null {
+        return this._profile;
+    }
+
+    calculate(sourceData: BarData[]): void {
+        super.calculate(sourceData);
+        this._profileKey = '';
+    }
+
+    getDescription(): string {
+        return this._describe('VRVP', this._profile);
+    }
+
+    drawOverlay(
+        ctx: CanvasRenderingContext2D,
+        _timeScale: TimeScale,
+        priceScale: PriceScale,
+        hpr: number,
+        vpr: number,
+        visibleRange: { from: number; to: number },
+        scope: BitmapCoordinatesScope
+    ): void {
+        const bars = this._sourceData;
+        const from = Math.max(0, Math.floor(visibleRange.from));
+        const to = Math.min(bars.length - 1, Math.ceil(visibleRange.to));
+        if (to < from) return;
+
+        // The last bar changes with live updates
+        const last = bars[to];
+        const key = `${from}:${to}:${bars[from].time}:${last.time}:${last.close}:${last.volume}`;
+        if (key !== this._profileKey) {
+            this._profileKey = key;
+            this._profile = this._buildProfile(bars.slice(from, to + 1));
+        }
+        if (!this._profile) return;
+
+        const paneWidth = scope.bitmapSize.width;
+        const width = paneWidth * this._vpOptions.widthPercent / 100;
+        const right = this._vpOptions.placement !== 'left';
+        this._renderer.draw(
+            ctx,
+            this._profile,
+            { x: right ? paneWidth - width : 0, width, align: right ? 'right' : 'left' },
+            (price) => priceScale.priceToCoordinate(price) * vpr,
+            hpr
+        );
+    }
+
+    // --- Protected ---
+
+    protected _inputRows(): SettingRow[] {
+        return [
+            selectRow('placement', 'Placement', [
+                { value: 'right', label: 'Right' },
+                { value: 'left', label: 'Left' },
+            ], this._vpOptions.placement),
+        ];
+    }
+}
@@ -1,7 +1,8 @@
 /**
  * Volume Indicator
  * 
- * Displays the trading volume for each bar as a histogram at the bottom of the main chart.
+ * Displays the trading volume for each bar as a histogram at the bottom of the main chart,
+ * on its own 'volume' overlay scale.
  */
 
 import { OverlayIndicator, IndicatorOptions, IndicatorStyle } from './indicator';
@@ -25,6 +26,7 @@ const defaultVolumeOptions: Partial<VolumeIndicatorOptions> = {
     color: '#787b86',
     lineWidth: 1,
     style: IndicatorStyle.Histogram,
+    priceScaleId: 'volume',
 };
 
 /**
@@ -36,6 +38,10 @@ export class VolumeIndicator extends OverlayIndicator {
         super(mergedOptions);
     }
 
+    protected _getWarmupBars(): number {
+        return 0;
+    }
+
     /**
      * Calculate Volume histogram data
      */
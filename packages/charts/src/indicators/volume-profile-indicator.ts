@@ -0,0 +1,223 @@
+/**
+ * Volume Profile Indicator - base of the volume profile overlays
+ *
+ * Holds the row layout, value area and colors shared by the visible range
+ * and session profiles. Rows in ticks use the price format of the chart
+ * symbol; with a timeframe loader on the chart, bars are distributed with
+ * bars of the lower timeframe.
+ */
+
+import { OverlayIndicator, IndicatorOptions, IndicatorRange, IndicatorStyle } from './indicator';
+import { BarData } from '../model/data';
+import {
+    VolumeProfile,
+    VolumeProfileRowLayout,
+    DEFAULT_VOLUME_PROFILE_OPTIONS,
+    buildVolumeProfile,
+} from '../model/volume-profile';
+import {
+    VolumeProfileRenderer,
+    VolumeProfileStyle,
+    DEFAULT_VOLUME_PROFILE_STYLE,
+} from '../renderers/volume-profile-renderer';
+import { IndicatorMarketContext, MarketContextConsumer, LowerTimeframeConsumer } from './indicator-manager';
+import { tickSizeAt } from '../helpers/price-format';
+import {
+    IndicatorSettingsConfig,
+    SettingRow,
+    createInputsTab,
+    createStyleTab,
+    createVisibilityTab,
+    checkboxRow,
+    colorRow,
+    numberRow,
+    selectRow,
+} from '../gui/indicator_settings';
+
+/**
+ * Options shared by the volume profile indicators
+ */
+export interface VolumeProfileIndicatorOptions extends IndicatorOptions, VolumeProfileStyle {
+    rowLayout: VolumeProfileRowLayout;
+    /** Number of rows, or ticks per row */
+    rowSize: number;
+    /** Share of the volume in the value area, percent */
+    valueAreaVolume: number;
+    /** Timeframe bars are distributed with: 'auto', '' for none, or e.g. '1m' */
+    lowerTimeframe: string;
+    /** Width of the largest row, percent of the space the profile is drawn in */
+    widthPercent: number;
+}
+
+export const defaultVolumeProfileOptions: Partial<VolumeProfileIndicatorOptions> = {
+    ...DEFAULT_VOLUME_PROFILE_OPTIONS,
+    ...DEFAULT_VOLUME_PROFILE_STYLE,
+    lowerTimeframe: 'auto',
+    widthPercent: 30,
+    color: '#2962ff',
+    lineWidth: 1,
+    // Drawn in the histogram pass, behind the candles
+    style: IndicatorStyle.Histogram,
+};
+
+const PROFILE_KEYS = ['rowLayout', 'rowSize', 'valueAreaVolume', 'lowerTimeframe'];
+
+const STYLE_KEYS: (keyof VolumeProfileStyle)[] = [
+    'upColor', 'downColor', 'valueAreaUpColor', 'valueAreaDownColor',
+    'showUpDown', 'showPoc', 'pocColor', 'showValueArea', 'valueAreaColor',
+];
+
+export abstract class VolumeProfileIndicator<T extends VolumeProfileIndicatorOptions = VolumeProfileIndicatorOptions> extends OverlayIndicator
+    implements MarketContextConsumer, LowerTimeframeConsumer {
+    protected _vpOptions: T;
+    protected readonly _renderer = new VolumeProfileRenderer();
+    protected _market: IndicatorMarketContext = { session: null, timeZone: 'UTC', priceFormat: null };
+    protected _lowerBars: readonly BarData[] = [];
+
+    constructor(defaults: Partial<T>, options: Partial<T>) {
+        const mergedOptions = { ...defaults, ...options };
+        super(mergedOptions);
+        this._vpOptions = { ...defaults, ...this._options } as T;
+        this._renderer.setStyle(this._pickStyle(this._vpOptions));
+    }
+
+    /** Profiles are built from the chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
+    /** Lower timeframe the indicator manager loads bars of, see VolumeProfileIndicatorOptions */
+    get lowerTimeframe(): string {
+        return this._vpOptions.lowerTimeframe;
+    }
+
+    /** Lower timeframe bars, set by the indicator manager before the chart bars */
+    setLowerTimeframeData(bars: readonly BarData[]): void {
+        this._lowerBars = bars;
+    }
+
+    /** Session and price format of the chart symbol, set by the indicator manager */
+    setMarketContext(context: IndicatorMarketContext): void {
+        this._market = context;
+        if (this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+    }
+
+    protected _getAllOptions(): Record<string, any> {
+        return { ...this._vpOptions };
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        const options = this._vpOptions;
+        return {
+            name: this.name,
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('rowLayout', 'Row Size', [
+                            { value: 'count', label: 'Number of rows' },
+                            { value: 'ticks', label: 'Ticks per row' },
+                        ], options.rowLayout),
+                        numberRow('rowSize', 'Rows / Ticks', 1, 1000, 1),
+                        numberRow('valueAreaVolume', 'Value Area Volume %', 1, 100, 1),
+                        selectRow('lowerTimeframe', 'Lower Timeframe', [
+                            { value: 'auto', label: 'Auto' },
+                            { value: '', label: 'None' },
+                            { value: '1m', label: '1m' },
+                            { value: '5m', label: '5m' },
+                            { value: '15m', label: '15m' },
+                            { value: '1h', label: '1h' },
+                        ], options.lowerTimeframe),
+                        ...this._inputRows(),
+                    ],
+                }]),
+                createStyleTab([{
+                    rows: [
+                        numberRow('widthPercent', 'Width %', 1, 100, 1),
+                        checkboxRow('showUpDown', 'Up/Down Volume', options.showUpDown),
+                        colorRow('upColor', 'Up Volume', options.upColor),
+                        colorRow('downColor', 'Down Volume', options.downColor),
+                        colorRow('valueAreaUpColor', 'Value Area Up', options.valueAreaUpColor),
+                        colorRow('valueAreaDownColor', 'Value Area Down', options.valueAreaDownColor),
+                        checkboxRow('showPoc', 'POC', options.showPoc),
+                        colorRow('pocColor', 'POC Color', options.pocColor),
+                        checkboxRow('showValueArea', 'Value Area Lines', options.showValueArea),
+                        colorRow('valueAreaColor', 'Value Area Color', options.valueAreaColor),
+                    ],
+                }]),
+                createVisibilityTab(),
+            ],
+        };
+    }
+
+    updateOptions(newOptions: Partial<T>): boolean {
+        const profileKeys = this._profileKeys();
+        const needsRecalc = Object.keys(newOptions).some(key =>
+            profileKeys.includes(key) && (newOptions as any)[key] !== (this._vpOptions as any)[key]);
+        Object.assign(this._vpOptions, newOptions);
+        Object.assign(this._options, newOptions);
+        this._renderer.setStyle(this._pickStyle(this._vpOptions));
+        if (needsRecalc && this._sourceData.length > 0) {
+            this.calculate(this._sourceData);
+        }
+        this._dataChanged.fire();
+        return needsRecalc;
+    }
+
+    setSettingValue(key: string, value: any): boolean {
+        return this.updateOptions({ [key]: value } as any);
+    }
+
+    /** The profiles are drawn at their own prices, data points carry no value to scale to */
+    calculate(sourceData: BarData[]): void {
+        this._data = sourceData.map(bar => ({ time: bar.time, value: NaN }));
+    }
+
+    getRange(): IndicatorRange {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const bar of this._sourceData) {
+            min = Math.min(min, bar.low);
+            max = Math.max(max, bar.high);
+        }
+        return min === Infinity ? { min: 0, max: 100 } : { min, max };
+    }
+
+    // --- Protected ---
+
+    /** Options that change the profiles, the others only how they are drawn */
+    protected _profileKeys(): string[] {
+        return PROFILE_KEYS;
+    }
+
+    /** Extra rows of the inputs tab */
+    protected _inputRows(): SettingRow[] {
+        return [];
+    }
+
+    protected _buildProfile(bars: readonly BarData[]): VolumeProfile | null {
+        const format = this._market.priceFormat;
+        const last = bars[bars.length - 1];
+        const tickSize = format && last ? tickSizeAt(format, last.close) : 0;
+        return buildVolumeProfile(bars, this._vpOptions, tickSize, this._lowerBars);
+    }
+
+    protected _describe(prefix: string, profile: VolumeProfile | null): string {
+        if (!profile) return prefix;
+        const precision = this._market.priceFormat?.precision ?? 2;
+        const format = (price: number) => price.toFixed(precision);
+        return `${prefix} POC ${format(profile.poc)} VAH ${format(profile.valueAreaHigh)} VAL ${format(profile.valueAreaLow)}`;
+    }
+
+    // --- Private ---
+
+    private _pickStyle(options: T): Partial<VolumeProfileStyle> {
+        const style: Partial<VolumeProfileStyle> = {};
+        for (const key of STYLE_KEYS) {
+            if (options[key] !== undefined) (style as any)[key] = options[key];
+        }
+        return style;
+    }
+}
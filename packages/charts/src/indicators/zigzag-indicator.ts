@@ -33,6 +33,11 @@ export class ZigZagIndicator extends OverlayIndicator {
         this._zigZagOptions = { ...defaultZigZagIndicatorOptions, ...this._options } as ZigZagIndicatorOptions;
     }
 
+    /** Pivots are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._zigZagOptions };
     }
@@ -59,6 +59,11 @@ export class ZigZagTrendlineIndicator extends OverlayIndicator {
         this._trendlineOptions = { ...defaultTrendlineOptions, ...this._options } as ZigZagTrendlineIndicatorOptions;
     }
 
+    /** Pivots are anchored to chart bars */
+    get supportsTimeframe(): boolean {
+        return false;
+    }
+
     protected _getAllOptions(): Record<string, any> {
         return { ...this._trendlineOptions };
     }
@@ -0,0 +1,248 @@
+/**
+ * Chart Sync - link groups of charts that follow each other
+ *
+ * Each chart is in at most one of five link groups. What a group syncs is
+ * set per group: symbol, interval, crosshair, visible time range and
+ * drawings. A change on one chart of a group is applied to the others the
+ * way a user would make it there, so every chart still loads its own bars
+ * through symbolChanged and timeframeChanged.
+ *
+ * Drawings are only synced between charts of the same symbol, they are
+ * anchored to its prices.
+ */
+
+import { ChartWidget, CrosshairSyncPosition } from '../gui/chart-widget';
+import { Delegate } from '../helpers/delegate';
+
+export type LinkGroup = 1 | 2 | 3 | 4 | 5;
+
+export const LINK_GROUPS: LinkGroup[] = [1, 2, 3, 4, 5];
+
+export const LINK_GROUP_COLORS: Record<LinkGroup, string> = {
+    1: '#2962ff',
+    2: '#f23645',
+    3: '#089981',
+    4: '#ff9800',
+    5: '#9c27b0',
+};
+
+/** What the charts of a link group sync */
+export interface LinkOptions {
+    symbol: boolean;
+    interval: boolean;
+    crosshair: boolean;
+    /** Visible time range, scrolling and zooming */
+    time: boolean;
+    drawings: boolean;
+}
+
+export const DEFAULT_LINK_OPTIONS: LinkOptions = {
+    symbol: true,
+    interval: false,
+    crosshair: true,
+    time: false,
+    drawings: false,
+};
+
+interface SyncedChart {
+    chart: ChartWidget;
+    group: LinkGroup | null;
+    /** Drawings as last synced, to skip selection changes */
+    drawingsJson: string;
+    unsubscribe: () => void;
+}
+
+export class ChartSync {
+    private _charts: SyncedChart[] = [];
+    private readonly _options = new Map<LinkGroup, LinkOptions>();
+    /** Set while a change is applied to linked charts, their own events are not synced back */
+    private _applying: boolean = false;
+
+    private readonly _linksChanged = new Delegate<void>();
+
+    /** Fired when a chart changes group or a group its options */
+    get linksChanged(): Delegate<void> {
+        return this._linksChanged;
+    }
+
+    addChart(chart: ChartWidget, group: LinkGroup | null = null): void {
+        if (this._entry(chart)) return;
+
+        const entry: SyncedChart = { chart, group: null, drawingsJson: drawingsJson(chart), unsubscribe: () => {} };
+        const onSymbolChanged = () => this._onSymbolChanged(entry);
+        const onTimeframeChanged = () => this._onTimeframeChanged(entry);
+        const onCrosshairMoved = (position: CrosshairSyncPosition | null) => this._onCrosshairMoved(entry, position);
+        const onVisibleRangeChanged = () => this._onVisibleRangeChanged(entry);
+        const onDrawingsChanged = () => this._onDrawingsChanged(entry);
+
+        chart.symbolChanged.subscribe(onSymbolChanged);
+        chart.timeframeChanged.subscribe(onTimeframeChanged);
+        chart.crosshairMoved.subscribe(onCrosshairMoved);
+        chart.model.timeScale.visibleRangeChanged.subscribe(onVisibleRangeChanged);
+        chart.drawings.drawingsChanged.subscribe(onDrawingsChanged);
+        entry.unsubscribe = () => {
+            chart.symbolChanged.unsubscribe(onSymbolChanged);
+            chart.timeframeChanged.unsubscribe(onTimeframeChanged);
+            chart.crosshairMoved.unsubscribe(onCrosshairMoved);
+            chart.model.timeScale.visibleRangeChanged.unsubscribe(onVisibleRangeChanged);
+            chart.drawings.drawingsChanged.unsubscribe(onDrawingsChanged);
+        };
+
+        this._charts.push(entry);
+        if (group !== null) {
+            this.setGroup(chart, group);
+        }
+    }
+
+    /** Stop syncing a chart, e.g. before it is disposed */
+    removeChart(chart: ChartWidget): void {
+        const entry = this._entry(chart);
+        if (!entry) return;
+
+        entry.unsubscribe();
+        this._charts = this._charts.filter(c => c !== entry);
+        if (entry.group !== null) {
+            this._linksChanged.fire();
+        }
+    }
+
+    /**
+     * Move a chart to a link group, null unlinks it. A chart joining a group
+     * takes the symbol, interval and time range of the group's charts.
+     */
+    setGroup(chart: ChartWidget, group: LinkGroup | null): void {
+        const entry = this._entry(chart);
+        if (!entry || entry.group === group) return;
+
+        const source = group !== null ? this._charts.find(c => c.group === group) : undefined;
+        entry.group = group;
+        if (source) {
+            this._align(entry, source);
+        }
+        this._linksChanged.fire();
+    }
+
+    group(chart: ChartWidget): LinkGroup | null {
+        return this._entry(chart)?.group ?? null;
+    }
+
+    groupOptions(group: LinkGroup): LinkOptions {
+        return { ...(this._options.get(group) ?? DEFAULT_LINK_OPTIONS) };
+    }
+
+    setGroupOptions(group: LinkGroup, options: Partial<LinkOptions>): void {
+        this._options.set(group, { ...this.groupOptions(group), ...options });
+        this._linksChanged.fire();
+    }
+
+    /** Other charts in the group of a chart */
+    linkedCharts(chart: ChartWidget): ChartWidget[] {
+        const entry = this._entry(chart);
+        if (!entry) return [];
+        return this._linked(entry).map(c => c.chart);
+    }
+
+    destroy(): void {
+        for (const entry of this._charts) {
+            entry.unsubscribe();
+        }
+        this._charts = [];
+        this._linksChanged.destroy();
+    }
+
+    // --- Private ---
+
+    private _entry(chart: ChartWidget): SyncedChart | undefined {
+        return this._charts.find(c => c.chart === chart);
+    }
+
+    private _linked(entry: SyncedChart): SyncedChart[] {
+        if (entry.group === null) return [];
+        return this._charts.filter(c => c !== entry && c.group === entry.group);
+    }
+
+    /**
+     * Apply a change to the charts linked to `source` for one option
+     */
+    private _apply(source: SyncedChart, option: keyof LinkOptions, apply: (target: SyncedChart) => void): void {
+        if (this._applying || source.group === null) return;
+        if (!this.groupOptions(source.group)[option]) return;
+
+        this._applying = true;
+        try {
+            for (const target of this._linked(source)) {
+                apply(target);
+            }
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private _align(entry: SyncedChart, source: SyncedChart): void {
+        const options = this.groupOptions(entry.group!);
+        this._applying = true;
+        try {
+            if (options.symbol) {
+                entry.chart.setSymbol(source.chart.model.symbol, source.chart.model.exchange);
+            }
+            if (options.interval) {
+                entry.chart.setTimeframe(source.chart.model.timeframe);
+            }
+            const range = options.time ? source.chart.visibleTimeRange() : null;
+            if (range) {
+                entry.chart.setVisibleTimeRange(range);
+            }
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private _onSymbolChanged(source: SyncedChart): void {
+        const { symbol, exchange } = source.chart.model;
+        this._apply(source, 'symbol', target => target.chart.setSymbol(symbol, exchange));
+        // The drawings of the new symbol were loaded
+        source.drawingsJson = drawingsJson(source.chart);
+    }
+
+    private _onTimeframeChanged(source: SyncedChart): void {
+        const timeframe = source.chart.model.timeframe;
+        this._apply(source, 'interval', target => target.chart.setTimeframe(timeframe));
+    }
+
+    private _onCrosshairMoved(source: SyncedChart, position: CrosshairSyncPosition | null): void {
+        this._apply(source, 'crosshair', target => target.chart.setCrosshairPosition(position));
+    }
+
+    private _onVisibleRangeChanged(source: SyncedChart): void {
+        if (this._applying) return;
+        const range = source.chart.visibleTimeRange();
+        if (!range) return;
+        this._apply(source, 'time', target => target.chart.setVisibleTimeRange(range));
+    }
+
+    private _onDrawingsChanged(source: SyncedChart): void {
+        if (this._applying) return;
+        // A drawing in progress is synced once it is finished
+        if (source.chart.drawings.activeDrawing !== null) return;
+
+        const json = drawingsJson(source.chart);
+        if (json === source.drawingsJson) return;
+        source.drawingsJson = json;
+
+        const symbol = source.chart.model.symbol;
+        this._apply(source, 'drawings', target => {
+            if (target.chart.model.symbol !== symbol) return;
+            target.chart.setDrawings(JSON.parse(json));
+            target.drawingsJson = json;
+        });
+    }
+}
+
+/**
+ * Drawings of a chart as JSON; selecting a drawing is not synced, and some
+ * drawings save their selected state
+ */
+function drawingsJson(chart: ChartWidget): string {
+    return JSON.stringify(chart.drawings.serialize()
+        .map(drawing => ({ ...drawing, state: 'complete' })));
+}
@@ -0,0 +1,6 @@
+/**
+ * Layout module - grids of charts and the link groups that sync them
+ */
+
+export * from './layout-templates';
+export * from './chart-sync';
@@ -0,0 +1,96 @@
+/**
+ * Layout Templates - predefined grids of charts
+ *
+ * A template divides the layout into columns and rows and places one chart
+ * per cell; a cell may span several columns or rows, e.g. the large chart
+ * of '1+3'. Column widths and row heights are fractions of the layout,
+ * changed by dragging the splitters between them.
+ */
+
+export type LayoutType = '1' | '2h' | '2v' | '3h' | '3v' | '1+2' | '1+3' | '2x2' | '2x3' | '3x3';
+
+export interface LayoutCell {
+    column: number;
+    row: number;
+    columnSpan?: number;
+    rowSpan?: number;
+}
+
+export interface LayoutTemplate {
+    columns: number;
+    rows: number;
+    /** One cell per chart, in chart order */
+    cells: LayoutCell[];
+}
+
+/** Column widths and row heights as fractions adding up to 1 */
+export interface LayoutSizes {
+    columns: number[];
+    rows: number[];
+}
+
+function grid(columns: number, rows: number): LayoutTemplate {
+    const cells: LayoutCell[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            cells.push({ column, row });
+        }
+    }
+    return { columns, rows, cells };
+}
+
+export const LAYOUT_TEMPLATES: Record<LayoutType, LayoutTemplate> = {
+    '1': grid(1, 1),
+    '2h': grid(2, 1),
+    '2v': grid(1, 2),
+    '3h': grid(3, 1),
+    '3v': grid(1, 3),
+    // One large chart on the left, the others stacked on the right
+    '1+2': {
+        columns: 2,
+        rows: 2,
+        cells: [{ column: 0, row: 0, rowSpan: 2 }, { column: 1, row: 0 }, { column: 1, row: 1 }],
+    },
+    // One large chart on top, the others in a row below it
+    '1+3': {
+        columns: 3,
+        rows: 2,
+        cells: [{ column: 0, row: 0, columnSpan: 3 }, { column: 0, row: 1 }, { column: 1, row: 1 }, { column: 2, row: 1 }],
+    },
+    '2x2': grid(2, 2),
+    '2x3': grid(2, 3),
+    '3x3': grid(3, 3),
+};
+
+/** Smallest column width or row height, as a fraction of the layout */
+export const MIN_LAYOUT_FRACTION = 0.1;
+
+/**
+ * Equal column widths and row heights of a template
+ */
+export function defaultLayoutSizes(template: LayoutTemplate): LayoutSizes {
+    return {
+        columns: new Array(template.columns).fill(1 / template.columns),
+        rows: new Array(template.rows).fill(1 / template.rows),
+    };
+}
+
+/**
+ * Saved sizes if they fit the template, otherwise equal ones
+ */
+export function normalizeLayoutSizes(template: LayoutTemplate, sizes: LayoutSizes | undefined): LayoutSizes {
+    const fits = (fractions: number[] | undefined, count: number) =>
+        Array.isArray(fractions)
+        && fractions.length === count
+        && fractions.every(fraction => Number.isFinite(fraction) && fraction >= MIN_LAYOUT_FRACTION);
+
+    if (!sizes || !fits(sizes.columns, template.columns) || !fits(sizes.rows, template.rows)) {
+        return defaultLayoutSizes(template);
+    }
+
+    const scale = (fractions: number[]) => {
+        const total = fractions.reduce((sum, fraction) => sum + fraction, 0);
+        return fractions.map(fraction => fraction / total);
+    };
+    return { columns: scale(sizes.columns), rows: scale(sizes.rows) };
+}
@@ -0,0 +1,5 @@
+/**
+ * Liquidations module - estimated liquidation levels from open interest
+ */
+
+export * from './liquidation-manager';
@@ -0,0 +1,151 @@
+/**
+ * Liquidation Manager - estimates the liquidation map from the open interest
+ *
+ * Takes the open interest of the chart symbol from the derivatives feed and
+ * estimates the liquidation levels over the main series bars whenever
+ * either changes. The open interest is only requested while the map is on.
+ */
+
+import { BarData } from '../model/data';
+import {
+    LiquidationMap,
+    LiquidationMapOptions,
+    OpenInterestSample,
+} from '../model/liquidation-map';
+import { Delegate } from '../helpers/delegate';
+import { DerivativesFeed, DerivativesFeedLink, DerivativesFeedOptions } from '../derivatives/derivatives-feed';
+import { toOpenInterestSample } from '../derivatives/derivatives-bars';
+import { IDerivativesProvider } from '../data-providers/types';
+
+/** Options of the open interest loads, those of the derivatives feed */
+export type LiquidationProviderOptions = DerivativesFeedOptions;
+
+export class LiquidationManager {
+    private readonly _feed: DerivativesFeed;
+    private readonly _link = new DerivativesFeedLink(['openInterest'], () => this._onOpenInterest());
+    private readonly _map = new LiquidationMap();
+
+    private _enabled: boolean = false;
+
+    private _bars: readonly BarData[] = [];
+    private _samples: OpenInterestSample[] = [];
+    /** Inputs of the last calculation, repeated updates are skipped */
+    private _inputKey: string = '';
+    private _inputBars: readonly BarData[] | null = null;
+
+    private readonly _changed = new Delegate<void>();
+
+    constructor(feed: DerivativesFeed) {
+        this._feed = feed;
+    }
+
+    /** Fired when the levels were recalculated or turned on or off */
+    get changed(): Delegate<void> {
+        return this._changed;
+    }
+
+    get map(): LiquidationMap {
+        return this._map;
+    }
+
+    get enabled(): boolean {
+        return this._enabled;
+    }
+
+    /** Open interest samples the levels are estimated from, oldest first */
+    get openInterest(): readonly OpenInterestSample[] {
+        return this._samples;
+    }
+
+    // --- Data source ---
+
+    /**
+     * Provider open interest is loaded from. The open interest comes from the
+     * derivatives feed, so this sets the provider of the feed and with it of
+     * the derivatives indicators.
+     */
+    setProvider(provider: IDerivativesProvider | null, options: LiquidationProviderOptions = {}): void {
+        this._feed.setProvider(provider, options);
+    }
+
+    /** Load the open interest again, e.g. for a new symbol or timeframe */
+    reload(): void {
+        this._feed.reload();
+    }
+
+    /**
+     * Load open interest from before endTime (ms), called when older bars
+     * of the main series were paged in
+     */
+    loadHistory(endTime: number): Promise<void> {
+        return this._feed.loadHistory(endTime);
+    }
+
+    setEnabled(enabled: boolean): void {
+        if (enabled === this._enabled) return;
+        this._enabled = enabled;
+        this._link.setFeed(enabled ? this._feed : null);
+        if (enabled) {
+            this._onOpenInterest();
+        } else {
+            this._samples = [];
+            this._inputKey = '';
+            this._map.clear();
+        }
+        this._changed.fire();
+    }
+
+    /** Leverage tiers, maintenance margin, price step and fading of the estimate */
+    setOptions(options: Partial<LiquidationMapOptions>): void {
+        this._map.setOptions(options);
+        this._recalculate(true);
+    }
+
+    /**
+     * Bars the levels are estimated over, the main series bars. Called on
+     * every data change; unchanged bars are not recalculated.
+     */
+    update(bars: readonly BarData[]): void {
+        this._bars = bars;
+        this._recalculate(false);
+    }
+
+    // --- Cleanup ---
+
+    destroy(): void {
+        this._link.setFeed(null);
+        this._changed.destroy();
+    }
+
+    // --- Private ---
+
+    private _onOpenInterest(): void {
+        this._samples = this._feed.openInterest.map(toOpenInterestSample);
+        if (this._samples.length === 0) {
+            this._inputKey = '';
+            this._map.clear();
+            this._changed.fire();
+            return;
+        }
+        this._recalculate(false);
+    }
+
+    private _recalculate(force: boolean): void {
+        if (!this._enabled) return;
+
+        const bars = this._bars;
+        const last = bars[bars.length - 1];
+        const first = this._samples[0];
+        const sample = this._samples[this._samples.length - 1];
+        const key = last
+            ? [bars.length, bars[0].time, last.time, last.high, last.low, last.close,
+                this._samples.length, first?.time, sample?.time, sample?.value].join()
+            : '';
+        if (!force && bars === this._inputBars && key === this._inputKey) return;
+        this._inputKey = key;
+        this._inputBars = bars;
+
+        this._map.setData(bars, this._samples);
+        this._changed.fire();
+    }
+}
@@ -0,0 +1,48 @@
+import { BarData } from './data';
+import { Series, SeriesType, SeriesOptionsBase } from './series';
+
+/**
+ * OHLC bar series options
+ */
+export interface BarSeriesOptions extends SeriesOptionsBase {
+    upColor: string;
+    downColor: string;
+    /** Draw the open tick on the left of the bar */
+    openVisible: boolean;
+    /** 1px bars regardless of zoom */
+    thinBars: boolean;
+}
+
+/**
+ * Default OHLC bar options
+ */
+export const defaultBarOptions: BarSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    openVisible: true,
+    thinBars: false,
+};
+
+/**
+ * OHLC bar series
+ */
+export class BarSeries extends Series<BarData> {
+    private _barOptions: BarSeriesOptions;
+
+    constructor(options: Partial<BarSeriesOptions> = {}) {
+        super(SeriesType.Bar, options);
+        this._barOptions = { ...defaultBarOptions, ...options };
+        this._options = this._barOptions;
+    }
+
+    get barOptions(): Readonly<BarSeriesOptions> {
+        return this._barOptions;
+    }
+
+    applyOptions(options: Partial<BarSeriesOptions>): void {
+        this._barOptions = { ...this._barOptions, ...options };
+        this._options = this._barOptions;
+    }
+}
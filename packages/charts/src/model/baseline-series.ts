@@ -0,0 +1,98 @@
+import { LineData } from './data';
+import { Series, SeriesType, SeriesOptionsBase, BarWithCoordinates } from './series';
+import { TimeScale } from './time-scale';
+import { PriceScale } from './price-scale';
+import { Coordinate } from './coordinate';
+
+/**
+ * Baseline series options
+ */
+export interface BaselineSeriesOptions extends SeriesOptionsBase {
+    /** Base price, null places it in the middle of the visible range */
+    basePrice: number | null;
+    topLineColor: string;
+    topFillColor1: string;
+    topFillColor2: string;
+    bottomLineColor: string;
+    bottomFillColor1: string;
+    bottomFillColor2: string;
+    lineWidth: number;
+}
+
+/**
+ * Default baseline options
+ */
+export const defaultBaselineOptions: BaselineSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    basePrice: null,
+    topLineColor: '#26a69a',
+    topFillColor1: 'rgba(38, 166, 154, 0.28)',
+    topFillColor2: 'rgba(38, 166, 154, 0.05)',
+    bottomLineColor: '#ef5350',
+    bottomFillColor1: 'rgba(239, 83, 80, 0.05)',
+    bottomFillColor2: 'rgba(239, 83, 80, 0.28)',
+    lineWidth: 2,
+};
+
+/**
+ * Baseline series
+ * Line filled towards a base price, with separate colors above and below it.
+ */
+export class BaselineSeries extends Series<LineData> {
+    private _baselineOptions: BaselineSeriesOptions;
+
+    // Resolved on the last coordinate pass
+    private _resolvedBasePrice: number | null = null;
+    private _baseCoordinate: Coordinate | null = null;
+
+    constructor(options: Partial<BaselineSeriesOptions> = {}) {
+        super(SeriesType.Baseline, options);
+        this._baselineOptions = { ...defaultBaselineOptions, ...options };
+        this._options = this._baselineOptions;
+    }
+
+    get baselineOptions(): Readonly<BaselineSeriesOptions> {
+        return this._baselineOptions;
+    }
+
+    /** Base price in use (the fixed one or the visible range middle) */
+    get basePrice(): number | null {
+        return this._resolvedBasePrice;
+    }
+
+    /** Y of the base price in media pixels, null before the first render */
+    get baseCoordinate(): Coordinate | null {
+        return this._baseCoordinate;
+    }
+
+    applyOptions(options: Partial<BaselineSeriesOptions>): void {
+        this._baselineOptions = { ...this._baselineOptions, ...options };
+        this._options = this._baselineOptions;
+    }
+
+    /**
+     * Fix the base price (e.g. while it is dragged)
+     */
+    setBasePrice(price: number | null): void {
+        this.applyOptions({ basePrice: price });
+    }
+
+    override calculateCoordinates(
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        from: number,
+        to: number
+    ): BarWithCoordinates[] {
+        let base = this._baselineOptions.basePrice;
+        if (base === null) {
+            const range = this.getPriceRange(from, to);
+            base = range ? (range.min + range.max) / 2 : null;
+        }
+
+        this._resolvedBasePrice = base;
+        this._baseCoordinate = base !== null ? priceScale.priceToCoordinate(base) : null;
+
+        return super.calculateCoordinates(timeScale, priceScale, from, to);
+    }
+}
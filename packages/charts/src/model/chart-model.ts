@@ -1,11 +1,28 @@
 import { TimeScale, TimeScaleOptions } from './time-scale';
-import { PriceScale, PriceScaleOptions } from './price-scale';
+import { PriceScale, PriceScaleOptions, PriceScaleMargins, PriceRange } from './price-scale';
 import { Series } from './series';
 import { CandlestickSeries, CandlestickSeriesOptions } from './candlestick-series';
 import { LineSeries, LineSeriesOptions } from './line-series';
 import { AreaSeries, AreaSeriesOptions } from './area-series';
+import { BarSeries, BarSeriesOptions } from './bar-series';
+import { HollowCandleSeries, HollowCandleSeriesOptions } from './hollow-candle-series';
+import { BaselineSeries, BaselineSeriesOptions } from './baseline-series';
+import { StepLineSeries, StepLineSeriesOptions } from './step-line-series';
+import { ColumnSeries, ColumnSeriesOptions } from './column-series';
+import { HlcAreaSeries, HlcAreaSeriesOptions } from './hlc-area-series';
 import { HeikenAshiSeries, HeikenAshiSeriesOptions } from '../series/heiken-ashi-series';
+import { RenkoSeries, RenkoSeriesOptions } from '../series/renko-series';
+import { RangeSeries, RangeSeriesOptions } from '../series/range-series';
+import { KagiSeries, KagiSeriesOptions } from '../series/kagi-series';
+import { PointFigureSeries, PointFigureSeriesOptions } from '../series/point-figure-series';
+import { LineBreakSeries, LineBreakSeriesOptions } from '../series/line-break-series';
+import { CompareSeries, CompareSeriesOptions } from '../series/compare-series';
+import { FootprintSeries, FootprintSeriesOptions } from '../series/footprint-series';
+import { TradeFeed } from '../orderflow/trade-feed';
 import { Delegate } from '../helpers/delegate';
+import { PriceFormat } from '../helpers/price-format';
+import { localTimeZone } from '../helpers/timezone';
+import { TradingSession, exchangeSession, exchangeTimeZone } from '../helpers/sessions';
 
 /**
  * Layout options
@@ -69,6 +86,20 @@ export interface WatermarkOptions {
     vertAlign: 'top' | 'middle' | 'bottom';
 }
 
+/**
+ * Trading session options
+ */
+export interface SessionOptions {
+    /** 'exchange' for the regular session of the chart's exchange, null for none */
+    session: TradingSession | 'exchange' | null;
+    /** Shade bars outside the session (intraday timeframes) */
+    shadeOutOfSession: boolean;
+    outOfSessionColor: string;
+    /** Vertical line before the first bar of every session (intraday timeframes) */
+    showSessionBreaks: boolean;
+    sessionBreakColor: string;
+}
+
 /**
  * Chart model options
  */
@@ -85,6 +116,9 @@ export interface ChartModelOptions {
     locale: 'en' | 'tr';
     branding: BrandingOptions;
     theme: 'dark' | 'light';
+    /** Time zone of axis labels: 'local', 'exchange' or an IANA name like 'Europe/Istanbul' */
+    timeZone: string;
+    sessions: SessionOptions;
 }
 
 /**
@@ -161,6 +195,33 @@ export const defaultChartOptions: ChartModelOptions = {
         },
     },
     theme: 'light',
+    timeZone: 'local',
+    sessions: {
+        session: 'exchange',
+        shadeOutOfSession: false,
+        outOfSessionColor: 'rgba(41, 98, 255, 0.05)',
+        showSessionBreaks: false,
+        sessionBreakColor: 'rgba(41, 98, 255, 0.4)',
+    },
+};
+
+/**
+ * Something other than a series drawn against a price scale of the main
+ * pane, e.g. an overlay indicator
+ */
+export interface PriceScaleItem {
+    readonly priceScaleId: string;
+    readonly visible: boolean;
+    /** Value range over the bar indexes, null when there is nothing to show */
+    getPriceRange(from: number, to: number): PriceRange | null;
+}
+
+/**
+ * Margins of overlay scales that have a fixed place in the pane,
+ * other overlay scales use the default margins
+ */
+const OVERLAY_SCALE_MARGINS: Record<string, PriceScaleMargins> = {
+    volume: { top: 0.8, bottom: 0 },
 };
 
 /**
@@ -180,7 +241,12 @@ export class ChartModel {
     private readonly _timeScale: TimeScale;
     private readonly _rightPriceScale: PriceScale;
     private readonly _leftPriceScale: PriceScale;
+    /** Scales without an axis, by id, created on first use */
+    private readonly _overlayPriceScales = new Map<string, PriceScale>();
+    private _priceScaleItems: () => readonly PriceScaleItem[] = () => [];
     private _serieses: Series[] = [];
+    /** Symbol price format, applied to the main series' scale only */
+    private _priceFormat: PriceFormat | null = null;
 
     private readonly _invalidated = new Delegate<InvalidateReason>();
     private _crosshairPosition: { x: number; y: number; visible: boolean } | null = null;
@@ -192,6 +258,10 @@ export class ChartModel {
 
     constructor(options: Partial<ChartModelOptions> = {}) {
         this._options = this._mergeOptions(defaultChartOptions, options);
+        // A session replaces the default instead of being merged into it
+        if (options.sessions?.session !== undefined) {
+            this._options.sessions.session = options.sessions.session;
+        }
 
         this._timeScale = new TimeScale(this._options.timeScale);
         this._rightPriceScale = new PriceScale(this._options.rightPriceScale);
@@ -242,6 +312,51 @@ export class ChartModel {
         return this._marketType;
     }
 
+    /**
+     * Decimals and tick size of the symbol on the main series' scale, null to
+     * guess decimals from the price. Other scales format what they host.
+     */
+    setPriceFormat(format: PriceFormat | null): void {
+        this._priceFormat = format;
+        this._syncPriceFormat();
+        this._invalidated.fire(InvalidateReason.Layout);
+    }
+
+    get priceFormat(): PriceFormat | null {
+        return this._priceFormat;
+    }
+
+    /**
+     * Time zone of axis labels: 'local', 'exchange' or an IANA name
+     */
+    setTimeZone(timeZone: string): void {
+        this._options.timeZone = timeZone;
+        this._invalidated.fire(InvalidateReason.Layout);
+    }
+
+    /**
+     * IANA name of the time zone axis labels are shown in
+     */
+    get timeZone(): string {
+        const timeZone = this._options.timeZone;
+        if (timeZone === 'local') return localTimeZone();
+        if (timeZone === 'exchange') return exchangeTimeZone(this._exchange);
+        return timeZone;
+    }
+
+    setSessionOptions(options: Partial<SessionOptions>): void {
+        this._options.sessions = { ...this._options.sessions, ...options };
+        this._invalidated.fire(InvalidateReason.Layout);
+    }
+
+    /**
+     * Session shown on the chart, null when there is none
+     */
+    get session(): TradingSession | null {
+        const session = this._options.sessions.session;
+        return session === 'exchange' ? exchangeSession(this._exchange) : session;
+    }
+
     /** Get human-readable exchange name */
     get exchangeDisplayName(): string {
         const names: Record<string, string> = {
@@ -287,6 +402,75 @@ export class ChartModel {
         return this._serieses;
     }
 
+    /**
+     * Price scale by id: 'right' and 'left' have an axis, any other id is an
+     * overlay scale that only positions what is on it (e.g. 'volume' in the
+     * bottom 20% of the pane)
+     */
+    priceScale(id: string): PriceScale {
+        if (id === 'right') return this._rightPriceScale;
+        if (id === 'left') return this._leftPriceScale;
+
+        let priceScale = this._overlayPriceScales.get(id);
+        if (!priceScale) {
+            const margins = OVERLAY_SCALE_MARGINS[id];
+            priceScale = new PriceScale(margins ? { scaleMargins: { ...margins } } : {});
+            priceScale.setHeight(this._rightPriceScale.height);
+            this._overlayPriceScales.set(id, priceScale);
+        }
+        return priceScale;
+    }
+
+    /**
+     * Scale of the main series; drawings, order lines and the price scale
+     * mode settings work on it
+     */
+    get mainPriceScale(): PriceScale {
+        return this.priceScale(this._serieses[0]?.options.priceScaleId ?? 'right');
+    }
+
+    /**
+     * Ids of the axis scales and of every overlay scale in use
+     */
+    get priceScaleIds(): string[] {
+        const ids = new Set(['right', 'left', ...this._overlayPriceScales.keys()]);
+        for (const series of this._serieses) {
+            ids.add(series.options.priceScaleId);
+        }
+        for (const item of this._priceScaleItems()) {
+            ids.add(item.priceScaleId);
+        }
+        return Array.from(ids);
+    }
+
+    /**
+     * Whether a series or item is on the scale, e.g. to show the left axis
+     */
+    isPriceScaleUsed(id: string): boolean {
+        return this._serieses.some(series => series.options.priceScaleId === id)
+            || this._priceScaleItems().some(item => item.priceScaleId === id);
+    }
+
+    /**
+     * Items auto-scaled along with the series, read on every price range
+     * update. A scale with series on it fits the series only.
+     */
+    setPriceScaleItems(items: () => readonly PriceScaleItem[]): void {
+        this._priceScaleItems = items;
+        this._updatePriceRange();
+    }
+
+    /**
+     * Move a series to another scale ('right', 'left' or an overlay scale id)
+     */
+    setSeriesPriceScale(series: Series, priceScaleId: string): void {
+        if (series.options.priceScaleId === priceScaleId) return;
+        series.applyOptions({ priceScaleId });
+        this._syncPriceFormat();
+        this._updatePriceRange();
+        this._invalidated.fire(InvalidateReason.Layout);
+    }
+
     // --- Events ---
 
     get invalidated(): Delegate<InvalidateReason> {
@@ -313,27 +497,131 @@ export class ChartModel {
         return series;
     }
 
+    addBarSeries(options?: Partial<BarSeriesOptions>): BarSeries {
+        const series = new BarSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addHollowCandleSeries(options?: Partial<HollowCandleSeriesOptions>): HollowCandleSeries {
+        const series = new HollowCandleSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addBaselineSeries(options?: Partial<BaselineSeriesOptions>): BaselineSeries {
+        const series = new BaselineSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addStepLineSeries(options?: Partial<StepLineSeriesOptions>): StepLineSeries {
+        const series = new StepLineSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addColumnSeries(options?: Partial<ColumnSeriesOptions>): ColumnSeries {
+        const series = new ColumnSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addHlcAreaSeries(options?: Partial<HlcAreaSeriesOptions>): HlcAreaSeries {
+        const series = new HlcAreaSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
     addHeikenAshiSeries(options?: Partial<HeikenAshiSeriesOptions>): HeikenAshiSeries {
         const series = new HeikenAshiSeries(this, options);
         this._addSeries(series);
         return series;
     }
 
+    addRenkoSeries(options?: Partial<RenkoSeriesOptions>): RenkoSeries {
+        const series = new RenkoSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addRangeSeries(options?: Partial<RangeSeriesOptions>): RangeSeries {
+        const series = new RangeSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addKagiSeries(options?: Partial<KagiSeriesOptions>): KagiSeries {
+        const series = new KagiSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addPointFigureSeries(options?: Partial<PointFigureSeriesOptions>): PointFigureSeries {
+        const series = new PointFigureSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    addLineBreakSeries(options?: Partial<LineBreakSeriesOptions>): LineBreakSeries {
+        const series = new LineBreakSeries(options);
+        this._addSeries(series);
+        return series;
+    }
+
+    /**
+     * Footprint of the trades of a trade feed, see FootprintSeries
+     */
+    addFootprintSeries(trades: TradeFeed, options?: Partial<FootprintSeriesOptions>): FootprintSeries {
+        const series = new FootprintSeries(this, trades, options);
+        this._addSeries(series);
+        return series;
+    }
+
+    /**
+     * Line of another symbol over the main series, see CompareSeries.
+     * Compare series stay after the main series when it is replaced.
+     */
+    addCompareSeries(options: Partial<CompareSeriesOptions> & { symbol: string }): CompareSeries {
+        const series = new CompareSeries(this, options);
+        this._addSeries(series);
+        return series;
+    }
+
     removeSeries(series: Series): void {
         const index = this._serieses.indexOf(series);
         if (index >= 0) {
             this._serieses.splice(index, 1);
             series.destroy();
+            this._syncPriceFormat();
             this._invalidated.fire(InvalidateReason.Data);
         }
     }
 
     private _addSeries(series: Series): void {
-        this._serieses.push(series);
+        // serieses[0] is the main series, keep new chart types in front of the compare lines
+        const firstCompare = this._serieses.findIndex(s => s instanceof CompareSeries);
+        if (series instanceof CompareSeries || firstCompare < 0) {
+            this._serieses.push(series);
+        } else {
+            this._serieses.splice(firstCompare, 0, series);
+        }
         series.dataChanged.subscribe(() => this._onSeriesDataChanged());
+        this._syncPriceFormat();
         this._invalidated.fire(InvalidateReason.Data);
     }
 
+    /** Symbol price format on the main series' scale, the other scales guess decimals */
+    private _syncPriceFormat(): void {
+        const main = this.mainPriceScale;
+        for (const priceScale of [this._rightPriceScale, this._leftPriceScale, ...this._overlayPriceScales.values()]) {
+            const format = priceScale === main ? this._priceFormat : null;
+            if (priceScale.options.priceFormat !== format) {
+                priceScale.applyOptions({ priceFormat: format });
+            }
+        }
+    }
+
     private _onSeriesDataChanged(): void {
         this._updateTimeScalePoints();
         this._updatePriceRange();
@@ -350,6 +638,9 @@ export class ChartModel {
         const priceScaleHeight = height;
         this._rightPriceScale.setHeight(priceScaleHeight);
         this._leftPriceScale.setHeight(priceScaleHeight);
+        for (const priceScale of this._overlayPriceScales.values()) {
+            priceScale.setHeight(priceScaleHeight);
+        }
 
         this._invalidated.fire(InvalidateReason.Layout);
     }
@@ -362,10 +653,10 @@ export class ChartModel {
     // --- Updates ---
 
     private _updateTimeScalePoints(): void {
-        // Find max data points across all series
+        // Find max plotted points across all series (transformed series plot their own bars)
         let maxPoints = 0;
         for (const series of this._serieses) {
-            maxPoints = Math.max(maxPoints, series.data.length);
+            maxPoints = Math.max(maxPoints, series.plotData.length);
         }
         this._timeScale.setPointsCount(maxPoints);
     }
@@ -373,23 +664,46 @@ export class ChartModel {
     private _updatePriceRange(): void {
         const visibleRange = this._timeScale.visibleRange();
         if (!visibleRange) return;
+        const { from, to } = visibleRange;
+
+        // Every scale fits its own series, scales without series fit their items
+        for (const id of this.priceScaleIds) {
+            const priceScale = this.priceScale(id);
+            const serieses = this._serieses.filter(series => series.options.priceScaleId === id);
+            const ranges = serieses.length > 0
+                ? serieses.map(series => series.getPriceRange(from, to))
+                : this._priceScaleItems()
+                    .filter(item => item.visible && item.priceScaleId === id)
+                    .map(item => item.getPriceRange(from, to));
+
+            let min = Infinity;
+            let max = -Infinity;
+            for (const range of ranges) {
+                if (range) {
+                    min = Math.min(min, range.min);
+                    max = Math.max(max, range.max);
+                }
+            }
 
-        let min = Infinity;
-        let max = -Infinity;
-
-        for (const series of this._serieses) {
-            const range = series.getPriceRange(visibleRange.from, visibleRange.to);
-            if (range) {
-                min = Math.min(min, range.min);
-                max = Math.max(max, range.max);
+            if (min !== Infinity) {
+                priceScale.updatePriceRange(min, max);
+            } else if (ranges.length === 0 && priceScale.priceRange !== null) {
+                // Nothing left on the scale, e.g. the main series was moved to the left
+                priceScale.setPriceRange(null);
             }
-        }
 
-        if (min !== Infinity) {
-            this._rightPriceScale.updatePriceRange(min, max);
+            // Percentage and indexed modes are relative to the first series on the scale
+            priceScale.setBaseValue(serieses.length > 0 ? serieses[0].getFirstValue(from, to) : null);
         }
     }
 
+    /**
+     * Auto-scale every price scale again, e.g. after overlay indicators were recalculated
+     */
+    updatePriceRanges(): void {
+        this._updatePriceRange();
+    }
+
     recalculateAllPanes(): void {
         this._updatePriceRange();
         this._invalidated.fire(InvalidateReason.Data);
@@ -434,6 +748,10 @@ export class ChartModel {
         this._timeScale.destroy();
         this._rightPriceScale.destroy();
         this._leftPriceScale.destroy();
+        for (const priceScale of this._overlayPriceScales.values()) {
+            priceScale.destroy();
+        }
+        this._overlayPriceScales.clear();
         this._invalidated.destroy();
     }
 }
@@ -0,0 +1,43 @@
+import { LineData } from './data';
+import { Series, SeriesType, SeriesOptionsBase } from './series';
+
+/**
+ * Column series options
+ */
+export interface ColumnSeriesOptions extends SeriesOptionsBase {
+    upColor: string;
+    downColor: string;
+}
+
+/**
+ * Default column options
+ */
+export const defaultColumnOptions: ColumnSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: 'rgba(38, 166, 154, 0.5)',
+    downColor: 'rgba(239, 83, 80, 0.5)',
+};
+
+/**
+ * Column series
+ * Columns rise from the bottom of the pane to the value, colored by the change from the previous value.
+ */
+export class ColumnSeries extends Series<LineData> {
+    private _columnOptions: ColumnSeriesOptions;
+
+    constructor(options: Partial<ColumnSeriesOptions> = {}) {
+        super(SeriesType.Histogram, options);
+        this._columnOptions = { ...defaultColumnOptions, ...options };
+        this._options = this._columnOptions;
+    }
+
+    get columnOptions(): Readonly<ColumnSeriesOptions> {
+        return this._columnOptions;
+    }
+
+    applyOptions(options: Partial<ColumnSeriesOptions>): void {
+        this._columnOptions = { ...this._columnOptions, ...options };
+        this._options = this._columnOptions;
+    }
+}
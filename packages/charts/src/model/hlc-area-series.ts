@@ -0,0 +1,53 @@
+import { BarData } from './data';
+import { Series, SeriesType, SeriesOptionsBase } from './series';
+
+/**
+ * High-low-close area series options
+ */
+export interface HlcAreaSeriesOptions extends SeriesOptionsBase {
+    highLineColor: string;
+    lowLineColor: string;
+    closeLineColor: string;
+    /** Fill between high and close */
+    upFillColor: string;
+    /** Fill between close and low */
+    downFillColor: string;
+    lineWidth: number;
+}
+
+/**
+ * Default HLC area options
+ */
+export const defaultHlcAreaOptions: HlcAreaSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    highLineColor: '#26a69a',
+    lowLineColor: '#ef5350',
+    closeLineColor: '#868993',
+    upFillColor: 'rgba(38, 166, 154, 0.2)',
+    downFillColor: 'rgba(239, 83, 80, 0.2)',
+    lineWidth: 2,
+};
+
+/**
+ * High-low-close area series
+ * High, low and close lines with the band split at the close.
+ */
+export class HlcAreaSeries extends Series<BarData> {
+    private _hlcAreaOptions: HlcAreaSeriesOptions;
+
+    constructor(options: Partial<HlcAreaSeriesOptions> = {}) {
+        super(SeriesType.HlcArea, options);
+        this._hlcAreaOptions = { ...defaultHlcAreaOptions, ...options };
+        this._options = this._hlcAreaOptions;
+    }
+
+    get hlcAreaOptions(): Readonly<HlcAreaSeriesOptions> {
+        return this._hlcAreaOptions;
+    }
+
+    applyOptions(options: Partial<HlcAreaSeriesOptions>): void {
+        this._hlcAreaOptions = { ...this._hlcAreaOptions, ...options };
+        this._options = this._hlcAreaOptions;
+    }
+}
@@ -0,0 +1,58 @@
+import { BarData } from './data';
+import { Series, SeriesType, SeriesOptionsBase } from './series';
+
+/**
+ * Hollow candle series options
+ */
+export interface HollowCandleSeriesOptions extends SeriesOptionsBase {
+    upColor: string;
+    downColor: string;
+    wickVisible: boolean;
+}
+
+/**
+ * Default hollow candle options
+ */
+export const defaultHollowCandleOptions: HollowCandleSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    wickVisible: true,
+};
+
+/**
+ * Hollow candle series
+ * Color follows the close vs. the previous close, the body is hollow when close > open.
+ */
+export class HollowCandleSeries extends Series<BarData> {
+    private _hollowOptions: HollowCandleSeriesOptions;
+
+    constructor(options: Partial<HollowCandleSeriesOptions> = {}) {
+        super(SeriesType.HollowCandle, options);
+        this._hollowOptions = { ...defaultHollowCandleOptions, ...options };
+        this._options = this._hollowOptions;
+    }
+
+    get hollowCandleOptions(): Readonly<HollowCandleSeriesOptions> {
+        return this._hollowOptions;
+    }
+
+    applyOptions(options: Partial<HollowCandleSeriesOptions>): void {
+        this._hollowOptions = { ...this._hollowOptions, ...options };
+        this._options = this._hollowOptions;
+    }
+
+    /**
+     * Get style for the bar at an index
+     */
+    getBarStyle(index: number): { color: string; hollow: boolean } {
+        const bar = this._data[index];
+        const prev = this._data[index - 1];
+        const isUp = bar.close >= (prev ? prev.close : bar.open);
+        return {
+            color: isUp ? this._hollowOptions.upColor : this._hollowOptions.downColor,
+            hollow: bar.close > bar.open,
+        };
+    }
+}
@@ -0,0 +1,357 @@
+/**
+ * Liquidation Map - estimated liquidation levels from open interest changes
+ *
+ * Open interest added in a bar is taken as positions opened at the bar's
+ * typical price: longs when the price rose, shorts when it fell. The
+ * notional is split over leverage tiers, and each tier puts it at its
+ * isolated-margin liquidation price:
+ *
+ *   long:  entry * (1 - 1 / leverage + mmr)
+ *   short: entry * (1 + 1 / leverage - mmr)
+ *
+ * Open interest leaving in a bar closes positions of the side the move went
+ * against: shorts on a rise, longs on a fall. A level is liquidated, and
+ * dropped, once a bar trades through it; untouched levels fade with a
+ * half-life in bars.
+ *
+ * One column per bar keeps the levels as they were at its close, the
+ * heatmap draws them over time.
+ */
+
+import { BarData } from './data';
+import { niceNumber } from '../helpers/math';
+
+export interface LeverageTier {
+    leverage: number;
+    /** Share of new positions opened at this leverage, tiers are normalized */
+    weight: number;
+}
+
+export interface LiquidationMapOptions {
+    tiers: LeverageTier[];
+    /** Maintenance margin ratio, 0.004 is 0.4% */
+    maintenanceMargin: number;
+    /** Height of a price row; 0 picks one from the price of the last bar */
+    priceStep: number;
+    /** Bars an untouched level takes to fade to half, 0 keeps it until price reaches it */
+    halfLife: number;
+}
+
+/** Open interest at a time, in quote currency */
+export interface OpenInterestSample {
+    /** ms */
+    time: number;
+    value: number;
+}
+
+export interface LiquidationColumn {
+    /** Open time of the bar (ms) */
+    time: number;
+    /** Price row of each level, the price is row * priceStep */
+    rows: Int32Array;
+    /** Notional of long positions liquidated at the row */
+    longs: Float32Array;
+    /** Notional of short positions liquidated at the row */
+    shorts: Float32Array;
+    maxValue: number;
+}
+
+export interface LiquidationLevel {
+    price: number;
+    side: 'long' | 'short';
+    /** Estimated notional liquidated at the price */
+    value: number;
+    /** Open time of the bar the level was first added in (ms) */
+    since: number;
+}
+
+/** Levels of one price row */
+interface RowState {
+    longs: number;
+    shorts: number;
+    longSince: number;
+    shortSince: number;
+}
+
+/** State after the closed bars, the last bar is recalculated from it on updates */
+interface ClosedState {
+    bars: readonly BarData[];
+    key: string;
+    rows: Map<number, RowState>;
+    columns: LiquidationColumn[];
+    openInterest: number | null;
+    close: number | null;
+}
+
+export const DEFAULT_LEVERAGE_TIERS: LeverageTier[] = [
+    { leverage: 10, weight: 0.1 },
+    { leverage: 25, weight: 0.3 },
+    { leverage: 50, weight: 0.4 },
+    { leverage: 100, weight: 0.2 },
+];
+
+const defaultOptions: LiquidationMapOptions = {
+    tiers: DEFAULT_LEVERAGE_TIERS,
+    maintenanceMargin: 0.004,
+    priceStep: 0,
+    halfLife: 0,
+};
+
+/** Auto price step as a fraction of the price (10 bp) */
+const AUTO_STEP_FRACTION = 0.001;
+/** Levels below this fraction of the largest one are dropped */
+const PRUNE_FRACTION = 1e-4;
+
+export class LiquidationMap {
+    private _options: LiquidationMapOptions;
+    private _priceStep: number = 0;
+
+    private _columns: LiquidationColumn[] = [];
+    private _rows = new Map<number, RowState>();
+    private _closed: ClosedState | null = null;
+    private _maxValue: number = 0;
+    private _version: number = 0;
+
+    constructor(options: Partial<LiquidationMapOptions> = {}) {
+        this._options = { ...defaultOptions, ...options };
+    }
+
+    get options(): Readonly<LiquidationMapOptions> {
+        return this._options;
+    }
+
+    /** Takes effect on the next setData() */
+    setOptions(options: Partial<LiquidationMapOptions>): void {
+        this._options = { ...this._options, ...options };
+        this._closed = null;
+    }
+
+    /** Height of a price row, 0 before the first bars */
+    get priceStep(): number {
+        return this._priceStep;
+    }
+
+    /** Changes whenever the levels do, for caching what is drawn from them */
+    get version(): number {
+        return this._version;
+    }
+
+    /** Largest row notional of any column */
+    get maxValue(): number {
+        return this._maxValue;
+    }
+
+    /** One column per bar, oldest first */
+    columns(): readonly LiquidationColumn[] {
+        return this._columns;
+    }
+
+    /** Levels still open after the last bar, largest first */
+    levels(): LiquidationLevel[] {
+        const levels: LiquidationLevel[] = [];
+        for (const [row, state] of this._rows) {
+            const price = row * this._priceStep;
+            if (state.longs > 0) levels.push({ price, side: 'long', value: state.longs, since: state.longSince });
+            if (state.shorts > 0) levels.push({ price, side: 'short', value: state.shorts, since: state.shortSince });
+        }
+        return levels.sort((a, b) => b.value - a.value);
+    }
+
+    /**
+     * Estimate the levels over the bars. Only the last bar is recalculated
+     * when the same array is passed again with the earlier bars and their
+     * open interest unchanged, as on a live update of the series.
+     * @param openInterest - samples ascending by time
+     */
+    setData(bars: readonly BarData[], openInterest: readonly OpenInterestSample[]): void {
+        if (bars.length === 0) {
+            this.clear();
+            return;
+        }
+
+        const step = this._options.priceStep > 0
+            ? this._options.priceStep
+            : this._priceStep > 0 && this._closed ? this._priceStep : autoStep(bars[bars.length - 1].close);
+        const lastIndex = bars.length - 1;
+        const perBar = openInterestPerBar(bars, openInterest);
+
+        const key = [
+            step, bars.length, bars[0].time, bars[lastIndex].time,
+            openInterest[0]?.time, perBar[lastIndex - 1] ?? null,
+        ].join();
+        if (!this._closed || this._closed.bars !== bars || this._closed.key !== key || step !== this._priceStep) {
+            this._priceStep = step;
+            const rows = new Map<number, RowState>();
+            const columns: LiquidationColumn[] = [];
+            let previousInterest: number | null = null;
+            let previousClose: number | null = null;
+            for (let i = 0; i < lastIndex; i++) {
+                this._addBar(rows, bars[i], previousInterest, perBar[i], previousClose);
+                columns.push(this._column(rows, bars[i].time));
+                previousInterest = perBar[i] ?? previousInterest;
+                previousClose = bars[i].close;
+            }
+            this._closed = { bars, key, rows, columns, openInterest: previousInterest, close: previousClose };
+        }
+
+        // The last bar is still forming, its levels start from the closed state
+        const closed = this._closed;
+        const rows = new Map<number, RowState>();
+        for (const [row, state] of closed.rows) {
+            rows.set(row, { ...state });
+        }
+        const last = bars[lastIndex];
+        this._addBar(rows, last, closed.openInterest, perBar[lastIndex], closed.close);
+
+        this._rows = rows;
+        this._columns = [...closed.columns, this._column(rows, last.time)];
+        this._maxValue = this._columns.reduce((max, column) => Math.max(max, column.maxValue), 0);
+        this._version++;
+    }
+
+    clear(): void {
+        this._columns = [];
+        this._rows = new Map();
+        this._closed = null;
+        this._maxValue = 0;
+        this._priceStep = 0;
+        this._version++;
+    }
+
+    // --- Private ---
+
+    /**
+     * Sweep the levels the bar traded through, fade the rest, then add or
+     * close the positions of its open interest change
+     */
+    private _addBar(
+        rows: Map<number, RowState>,
+        bar: BarData,
+        previousInterest: number | null,
+        interest: number | null,
+        previousClose: number | null
+    ): void {
+        const step = this._priceStep;
+        const fade = this._options.halfLife > 0 ? Math.pow(0.5, 1 / this._options.halfLife) : 1;
+
+        for (const [row, state] of rows) {
+            const price = row * step;
+            if (state.longs > 0 && bar.low <= price) state.longs = 0;
+            if (state.shorts > 0 && bar.high >= price) state.shorts = 0;
+            state.longs *= fade;
+            state.shorts *= fade;
+        }
+
+        const change = previousInterest !== null && interest !== null ? interest - previousInterest : 0;
+        const rising = bar.close >= (previousClose ?? bar.open);
+        if (change > 0) {
+            this._open(rows, bar, change, rising ? 'long' : 'short');
+        } else if (change < 0) {
+            closePositions(rows, -change, rising ? 'short' : 'long');
+        }
+
+        let largest = 0;
+        for (const state of rows.values()) {
+            largest = Math.max(largest, state.longs, state.shorts);
+        }
+        const floor = largest * PRUNE_FRACTION;
+        for (const [row, state] of rows) {
+            if (state.longs <= floor) state.longs = 0;
+            if (state.shorts <= floor) state.shorts = 0;
+            if (state.longs === 0 && state.shorts === 0) rows.delete(row);
+        }
+    }
+
+    /** Put new positions at the liquidation price of each leverage tier */
+    private _open(rows: Map<number, RowState>, bar: BarData, notional: number, side: 'long' | 'short'): void {
+        const tiers = this._options.tiers.filter(tier => tier.leverage > 0 && tier.weight > 0);
+        const totalWeight = tiers.reduce((sum, tier) => sum + tier.weight, 0);
+        if (totalWeight <= 0) return;
+
+        const entry = (bar.high + bar.low + bar.close) / 3;
+        const mmr = this._options.maintenanceMargin;
+        for (const tier of tiers) {
+            const price = side === 'long'
+                ? entry * (1 - 1 / tier.leverage + mmr)
+                : entry * (1 + 1 / tier.leverage - mmr);
+            if (price <= 0) continue;
+
+            const row = Math.round(price / this._priceStep);
+            let state = rows.get(row);
+            if (!state) {
+                state = { longs: 0, shorts: 0, longSince: bar.time, shortSince: bar.time };
+                rows.set(row, state);
+            }
+            const value = notional * tier.weight / totalWeight;
+            if (side === 'long') {
+                if (state.longs === 0) state.longSince = bar.time;
+                state.longs += value;
+            } else {
+                if (state.shorts === 0) state.shortSince = bar.time;
+                state.shorts += value;
+            }
+        }
+    }
+
+    private _column(rows: Map<number, RowState>, time: number): LiquidationColumn {
+        const keys = Array.from(rows.keys()).sort((a, b) => a - b);
+        const column: LiquidationColumn = {
+            time,
+            rows: new Int32Array(keys),
+            longs: new Float32Array(keys.length),
+            shorts: new Float32Array(keys.length),
+            maxValue: 0,
+        };
+        keys.forEach((row, i) => {
+            const state = rows.get(row)!;
+            column.longs[i] = state.longs;
+            column.shorts[i] = state.shorts;
+            column.maxValue = Math.max(column.maxValue, state.longs, state.shorts);
+        });
+        return column;
+    }
+}
+
+/**
+ * Close positions of one side in proportion to their size
+ */
+function closePositions(rows: Map<number, RowState>, notional: number, side: 'long' | 'short'): void {
+    let total = 0;
+    for (const state of rows.values()) {
+        total += side === 'long' ? state.longs : state.shorts;
+    }
+    if (total <= 0) return;
+
+    const remaining = Math.max(0, 1 - notional / total);
+    for (const state of rows.values()) {
+        if (side === 'long') {
+            state.longs *= remaining;
+        } else {
+            state.shorts *= remaining;
+        }
+    }
+}
+
+/**
+ * Open interest at the close of each bar: the last sample before the next
+ * bar opened, null before the first sample
+ */
+export function openInterestPerBar(bars: readonly BarData[], samples: readonly OpenInterestSample[]): (number | null)[] {
+    const result: (number | null)[] = [];
+    let next = 0;
+    let value: number | null = null;
+    for (let i = 0; i < bars.length; i++) {
+        const end = i + 1 < bars.length ? bars[i + 1].time : Infinity;
+        while (next < samples.length && samples[next].time < end) {
+            value = samples[next].value;
+            next++;
+        }
+        result.push(value);
+    }
+    return result;
+}
+
+function autoStep(price: number): number {
+    const value = Math.abs(price) * AUTO_STEP_FRACTION;
+    return value > 0 ? niceNumber(value, false) : 1;
+}
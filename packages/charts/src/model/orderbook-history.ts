@@ -0,0 +1,314 @@
+/**
+ * Orderbook History - orderbook snapshots over time for the liquidity heatmap
+ *
+ * Snapshots are bucketed into columns, one per chart bar or per fixed
+ * timeframe such as '5s'. Prices are grouped into rows of `priceStep`; a
+ * column keeps the average bid and ask notional of each row over the
+ * snapshots of its bucket, and how long the row had been in the book.
+ *
+ * Columns live in a ring buffer: past `maxColumns` the oldest is dropped, and
+ * a column keeps at most `maxRowsPerColumn` rows, the ones nearest the mid price.
+ */
+
+import { getBarStartTime, getBarEndTime, TimeframeAlignment } from '../helpers/timeframe';
+
+export interface OrderbookHistoryOptions {
+    /** Timeframe of one column, e.g. '5s'; null for one column per chart bar */
+    bucket: string | null;
+    /** Columns kept, the oldest are dropped first */
+    maxColumns: number;
+    /** Price rows kept per column, nearest the mid price */
+    maxRowsPerColumn: number;
+    /** Height of a price row; 0 picks one from the mid price of the first snapshot */
+    priceStep: number;
+}
+
+export interface OrderbookHistoryColumn {
+    /** Open time of the bucket (ms) */
+    time: number;
+    /** Close time of the bucket (ms) */
+    endTime: number;
+    /** Price row of each level, the price is row * priceStep */
+    rows: Int32Array;
+    /** Average bid notional (price * quantity) of each row */
+    bids: Float32Array;
+    /** Average ask notional of each row */
+    asks: Float32Array;
+    /** Seconds each row had been in the book at the last snapshot */
+    ages: Float32Array;
+    maxNotional: number;
+}
+
+interface OrderbookSnapshot {
+    bids: ReadonlyArray<{ price: number; quantity: number }>;
+    asks: ReadonlyArray<{ price: number; quantity: number }>;
+}
+
+/** Bucket being filled by the current snapshots */
+interface OpenColumn {
+    time: number;
+    endTime: number;
+    snapshots: number;
+    midPrice: number;
+    bids: Map<number, number>;
+    asks: Map<number, number>;
+    ages: Map<number, number>;
+}
+
+const defaultOptions: OrderbookHistoryOptions = {
+    bucket: null,
+    maxColumns: 2000,
+    maxRowsPerColumn: 400,
+    priceStep: 0,
+};
+
+/** Auto price step as a fraction of the mid price (1 bp) */
+const AUTO_STEP_FRACTION = 0.0001;
+/** Bytes of one stored row: row index, bid, ask and age */
+const ROW_BYTES = 16;
+const MAX_TRACKED_ROWS = 10000;
+
+export class OrderbookHistory {
+    private _options: OrderbookHistoryOptions;
+    private _timeframe: string = '1m';
+    private _alignment: TimeframeAlignment | undefined;
+
+    /** Ring buffer of closed columns, oldest at _head */
+    private _columns: (OrderbookHistoryColumn | undefined)[] = [];
+    private _head: number = 0;
+    private _count: number = 0;
+    private _open: OpenColumn | null = null;
+    private _openFrozen: OrderbookHistoryColumn | null = null;
+
+    private _priceStep: number = 0;
+    /** First time each row was seen in the book, reset when it leaves */
+    private readonly _rowBirth = new Map<number, number>();
+    private _version: number = 0;
+
+    constructor(options: Partial<OrderbookHistoryOptions> = {}) {
+        this._options = { ...defaultOptions, ...options };
+        this._priceStep = this._options.priceStep;
+    }
+
+    get options(): Readonly<OrderbookHistoryOptions> {
+        return this._options;
+    }
+
+    /** Bucketing and price step changes start a new history */
+    setOptions(options: Partial<OrderbookHistoryOptions>): void {
+        const previous = this._options;
+        this._options = { ...this._options, ...options };
+        if (previous.bucket !== this._options.bucket || previous.priceStep !== this._options.priceStep
+            || previous.maxColumns !== this._options.maxColumns) {
+            this.clear();
+        }
+    }
+
+    /**
+     * Timeframe of the chart bars, the bucket when no fixed one is set.
+     * Columns of the previous timeframe stay, they cover their own time span.
+     */
+    setTimeframe(timeframe: string, alignment?: TimeframeAlignment): void {
+        if (timeframe === this._timeframe && alignment?.timeZone === this._alignment?.timeZone) return;
+        this._timeframe = timeframe;
+        this._alignment = alignment;
+        if (this._options.bucket === null) {
+            this._closeOpenColumn();
+        }
+    }
+
+    /** Height of a price row, 0 until the first snapshot with auto step */
+    get priceStep(): number {
+        return this._priceStep;
+    }
+
+    /** Changes with every snapshot, for caching what is drawn from the history */
+    get version(): number {
+        return this._version;
+    }
+
+    get columnCount(): number {
+        return this._count + (this._open ? 1 : 0);
+    }
+
+    /** Approximate size of the stored columns */
+    get memoryBytes(): number {
+        let rows = 0;
+        this._forEachClosed(column => { rows += column.rows.length; });
+        return rows * ROW_BYTES;
+    }
+
+    /** Largest row notional of any column */
+    get maxNotional(): number {
+        let max = 0;
+        this._forEachClosed(column => { max = Math.max(max, column.maxNotional); });
+        const open = this._frozenOpen();
+        return open ? Math.max(max, open.maxNotional) : max;
+    }
+
+    /**
+     * Add an orderbook snapshot
+     * @param time - time of the snapshot (ms)
+     */
+    addSnapshot(orderbook: OrderbookSnapshot, time: number): void {
+        if (orderbook.bids.length === 0 && orderbook.asks.length === 0) return;
+
+        const midPrice = orderbook.bids.length > 0 && orderbook.asks.length > 0
+            ? (orderbook.bids[0].price + orderbook.asks[0].price) / 2
+            : (orderbook.bids[0] ?? orderbook.asks[0]).price;
+        if (this._priceStep <= 0) {
+            this._priceStep = niceStep(midPrice * AUTO_STEP_FRACTION);
+        }
+
+        const bucket = this._options.bucket ?? this._timeframe;
+        if (!this._open || time >= this._open.endTime) {
+            this._closeOpenColumn();
+            const start = getBarStartTime(time, bucket, this._alignment);
+            this._open = {
+                time: start,
+                endTime: Math.max(getBarEndTime(start, bucket, this._alignment), start + 1),
+                snapshots: 0,
+                midPrice,
+                bids: new Map(),
+                asks: new Map(),
+                ages: new Map(),
+            };
+        }
+
+        const open = this._open;
+        open.snapshots++;
+        open.midPrice = midPrice;
+
+        const seen = new Set<number>();
+        const add = (levels: OrderbookSnapshot['bids'], target: Map<number, number>) => {
+            for (const level of levels) {
+                const row = Math.round(level.price / this._priceStep);
+                target.set(row, (target.get(row) ?? 0) + level.price * level.quantity);
+                seen.add(row);
+            }
+        };
+        add(orderbook.bids, open.bids);
+        add(orderbook.asks, open.asks);
+
+        // Age of each row, as the heatmap strip tracks it per price
+        for (const row of seen) {
+            if (!this._rowBirth.has(row)) {
+                this._rowBirth.set(row, time);
+            }
+            open.ages.set(row, (time - this._rowBirth.get(row)!) / 1000);
+        }
+        if (this._rowBirth.size > MAX_TRACKED_ROWS) {
+            this._rowBirth.clear();
+        } else {
+            for (const row of this._rowBirth.keys()) {
+                if (!seen.has(row)) this._rowBirth.delete(row);
+            }
+        }
+
+        this._openFrozen = null;
+        this._version++;
+    }
+
+    /** Columns oldest first, including the bucket being filled */
+    columns(): OrderbookHistoryColumn[] {
+        const columns: OrderbookHistoryColumn[] = [];
+        this._forEachClosed(column => columns.push(column));
+        const open = this._frozenOpen();
+        if (open) columns.push(open);
+        return columns;
+    }
+
+    /** Drop the history, e.g. on symbol change */
+    clear(): void {
+        this._columns = [];
+        this._head = 0;
+        this._count = 0;
+        this._open = null;
+        this._openFrozen = null;
+        this._rowBirth.clear();
+        this._priceStep = this._options.priceStep;
+        this._version++;
+    }
+
+    // --- Private ---
+
+    private _forEachClosed(callback: (column: OrderbookHistoryColumn) => void): void {
+        const capacity = this._columns.length;
+        for (let i = 0; i < this._count; i++) {
+            callback(this._columns[(this._head + i) % capacity]!);
+        }
+    }
+
+    private _closeOpenColumn(): void {
+        const column = this._frozenOpen();
+        this._open = null;
+        this._openFrozen = null;
+        if (!column) return;
+
+        const capacity = Math.max(1, this._options.maxColumns);
+        if (this._columns.length !== capacity) {
+            // Capacity changed: keep the newest columns in order
+            const closed = this.columns();
+            const kept = closed.slice(Math.max(0, closed.length - (capacity - 1)));
+            this._columns = new Array(capacity);
+            kept.forEach((c, i) => { this._columns[i] = c; });
+            this._head = 0;
+            this._count = kept.length;
+        }
+
+        if (this._count < capacity) {
+            this._columns[(this._head + this._count) % capacity] = column;
+            this._count++;
+        } else {
+            this._columns[this._head] = column;
+            this._head = (this._head + 1) % capacity;
+        }
+    }
+
+    /** The open bucket as a column, cached until the next snapshot */
+    private _frozenOpen(): OrderbookHistoryColumn | null {
+        if (!this._open) return null;
+        if (this._openFrozen) return this._openFrozen;
+
+        const open = this._open;
+        const midRow = open.midPrice / this._priceStep;
+        let rows = Array.from(new Set([...open.bids.keys(), ...open.asks.keys()]));
+        if (rows.length > this._options.maxRowsPerColumn) {
+            rows.sort((a, b) => Math.abs(a - midRow) - Math.abs(b - midRow));
+            rows = rows.slice(0, this._options.maxRowsPerColumn);
+        }
+        rows.sort((a, b) => a - b);
+
+        const column: OrderbookHistoryColumn = {
+            time: open.time,
+            endTime: open.endTime,
+            rows: new Int32Array(rows),
+            bids: new Float32Array(rows.length),
+            asks: new Float32Array(rows.length),
+            ages: new Float32Array(rows.length),
+            maxNotional: 0,
+        };
+        rows.forEach((row, i) => {
+            // Averaged over the bucket's snapshots, a level seen once shows faint
+            column.bids[i] = (open.bids.get(row) ?? 0) / open.snapshots;
+            column.asks[i] = (open.asks.get(row) ?? 0) / open.snapshots;
+            column.ages[i] = open.ages.get(row) ?? 0;
+            column.maxNotional = Math.max(column.maxNotional, column.bids[i], column.asks[i]);
+        });
+
+        this._openFrozen = column;
+        return column;
+    }
+}
+
+/**
+ * Smallest 1, 2 or 5 times a power of ten at least `value`
+ */
+function niceStep(value: number): number {
+    if (!(value > 0)) return 1;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    for (const factor of [1, 2, 5, 10]) {
+        if (value <= factor * magnitude) return factor * magnitude;
+    }
+    return 10 * magnitude;
+}
@@ -1,6 +1,7 @@
 import { Coordinate, BarPrice, coordinate, barPrice } from './coordinate';
 import { Delegate } from '../helpers/delegate';
 import { clamp, generateAxisValues } from '../helpers/math';
+import { PriceFormat, formatPriceWith, roundToTick } from '../helpers/price-format';
 
 /**
  * Price scale mode
@@ -38,6 +39,8 @@ export interface PriceScaleOptions {
     borderColor: string;
     /** Minimum width */
     minimumWidth: number;
+    /** Decimals and tick size of the symbol, null guesses decimals from the price */
+    priceFormat: PriceFormat | null;
 }
 
 /**
@@ -51,6 +54,7 @@ export const defaultPriceScaleOptions: PriceScaleOptions = {
     borderVisible: true,
     borderColor: '#2B2B43',
     minimumWidth: 0,
+    priceFormat: null,
 };
 
 /**
@@ -78,6 +82,7 @@ export class PriceScale {
     private _height: number = 0;
     private _priceRange: PriceRange | null = null;
     private _isAutoScale: boolean;
+    private _baseValue: number | null = null;
 
     private readonly _modeChanged = new Delegate<PriceScaleMode>();
     private readonly _rangeChanged = new Delegate<PriceRange | null>();
@@ -109,6 +114,27 @@ export class PriceScale {
         return this._options.mode;
     }
 
+    get isInverted(): boolean {
+        return this._options.invertScale;
+    }
+
+    /**
+     * Price the Percentage and IndexedTo100 modes are relative to,
+     * the first visible value of the main series
+     */
+    get baseValue(): number | null {
+        return this._baseValue;
+    }
+
+    /**
+     * Labels show the change from the base value (Percentage, IndexedTo100).
+     * Prices and coordinates stay in price units, only the marks and labels change.
+     */
+    get isRelative(): boolean {
+        return this._baseValue !== null
+            && (this._options.mode === PriceScaleMode.Percentage || this._options.mode === PriceScaleMode.IndexedTo100);
+    }
+
     // --- Events ---
 
     get modeChanged(): Delegate<PriceScaleMode> {
@@ -163,6 +189,31 @@ export class PriceScale {
         this._modeChanged.fire(mode);
     }
 
+    setInvertScale(inverted: boolean): void {
+        if (this._options.invertScale === inverted) return;
+        this._options.invertScale = inverted;
+        this._rangeChanged.fire(this._priceRange);
+    }
+
+    /**
+     * Update options, e.g. the margins of an overlay scale
+     */
+    applyOptions(options: Partial<PriceScaleOptions>): void {
+        const { mode, ...rest } = options;
+        this._options = { ...this._options, ...rest };
+        if (options.autoScale !== undefined) {
+            this._isAutoScale = options.autoScale;
+        }
+        if (mode !== undefined) {
+            this.setMode(mode);
+        }
+        this._rangeChanged.fire(this._priceRange);
+    }
+
+    setBaseValue(value: number | null): void {
+        this._baseValue = value !== null && Number.isFinite(value) && value !== 0 ? value : null;
+    }
+
     setPriceRange(range: PriceRange | null): void {
         this._priceRange = range ? this._normalizeRangeForMode(range) : null;
         this._rangeChanged.fire(this._priceRange);
@@ -269,17 +320,26 @@ export class PriceScale {
 
         const targetCount = Math.max(3, Math.floor(this._height / 30));
 
-        const values = this._options.mode === PriceScaleMode.Logarithmic && priceMin > 0 && priceMax > 0
-            ? this._generateLogAxisValues(priceMin, priceMax, targetCount)
-            : generateAxisValues(priceMin, priceMax, targetCount);
+        let values: number[];
+        if (this.isRelative) {
+            // Round values of the percent / index, not of the price
+            values = generateAxisValues(this._toRelative(priceMin), this._toRelative(priceMax), targetCount)
+                .map(value => this._fromRelative(value));
+        } else if (this._options.mode === PriceScaleMode.Logarithmic && priceMin > 0 && priceMax > 0) {
+            values = this._generateLogAxisValues(priceMin, priceMax, targetCount);
+        } else {
+            values = generateAxisValues(priceMin, priceMax, targetCount);
+        }
 
         return values
             .map(price => ({
                 price,
                 coord: this.priceToCoordinate(price),
-                label: this.formatPrice(price),
+                label: this.formatLabel(price),
             }))
-            .filter(mark => mark.coord >= 0 && mark.coord <= this._height);
+            .filter(mark => mark.coord >= 0 && mark.coord <= this._height)
+            // Zoomed in below the tick size, neighbouring marks share a label
+            .filter((mark, i, all) => i === 0 || mark.label !== all[i - 1].label);
     }
 
     // --- Scaling interactions ---
@@ -382,6 +442,10 @@ export class PriceScale {
     // --- Public: Formatting ---
 
     formatPrice(price: number): string {
+        if (this._options.priceFormat) {
+            return formatPriceWith(price, this._options.priceFormat);
+        }
+
         const absPrice = Math.abs(price);
         let decimals: number;
 
@@ -397,6 +461,37 @@ export class PriceScale {
         return price.toFixed(decimals);
     }
 
+    /**
+     * Nearest price the symbol can trade at, the price itself without a price format
+     */
+    roundToTick(price: number): number {
+        return this._options.priceFormat ? roundToTick(price, this._options.priceFormat) : price;
+    }
+
+    /**
+     * Axis label of a price: the price, or in the relative modes the
+     * percent change / index from the base value
+     */
+    formatLabel(price: number): string {
+        if (!this.isRelative) {
+            return this.formatPrice(price);
+        }
+        const value = this._toRelative(price);
+        return this._options.mode === PriceScaleMode.Percentage
+            ? `${value.toFixed(2)}%`
+            : value.toFixed(2);
+    }
+
+    private _toRelative(price: number): number {
+        const ratio = price / this._baseValue!;
+        return this._options.mode === PriceScaleMode.Percentage ? (ratio - 1) * 100 : ratio * 100;
+    }
+
+    private _fromRelative(value: number): number {
+        const ratio = this._options.mode === PriceScaleMode.Percentage ? value / 100 + 1 : value / 100;
+        return ratio * this._baseValue!;
+    }
+
     private _priceToLogical(price: number): number {
         if (this._options.mode === PriceScaleMode.Logarithmic && price > 0) {
             return Math.log(price);
@@ -13,6 +13,10 @@ export enum SeriesType {
     Area = 'Area',
     Bar = 'Bar',
     Histogram = 'Histogram',
+    HollowCandle = 'HollowCandle',
+    Baseline = 'Baseline',
+    StepLine = 'StepLine',
+    HlcArea = 'HlcArea',
 }
 
 /**
@@ -68,6 +72,14 @@ export abstract class Series<TData extends SeriesDataItem = SeriesDataItem> {
         return this._data;
     }
 
+    /**
+     * Items as plotted, index-aligned with the time scale.
+     * Same as data unless the series transforms it (Heiken Ashi, Renko, ...).
+     */
+    get plotData(): readonly SeriesDataItem[] {
+        return this._data;
+    }
+
     get options(): Readonly<SeriesOptionsBase> {
         return this._options;
     }
@@ -83,6 +95,18 @@ export abstract class Series<TData extends SeriesDataItem = SeriesDataItem> {
         this._dataChanged.fire();
     }
 
+    /**
+     * Prepend older bars (lazy-loaded history).
+     * Bars at or after the first loaded time are ignored.
+     */
+    prependData(data: TData[]): void {
+        const firstTime = this._data.length > 0 ? this._data[0].time : Infinity;
+        const older = data.filter(d => d.time < firstTime);
+        if (older.length === 0) return;
+        this._data = older.concat(this._data);
+        this._dataChanged.fire();
+    }
+
     updateData(data: TData): void {
         // Find existing data point by time
         const index = this._data.findIndex(d => d.time === data.time);
@@ -106,16 +130,17 @@ export abstract class Series<TData extends SeriesDataItem = SeriesDataItem> {
      * Get min/max price for visible range
      */
     getPriceRange(from: number, to: number): { min: number; max: number } | null {
-        if (this._data.length === 0) return null;
+        const data = this.plotData;
+        if (data.length === 0) return null;
 
         let min = Infinity;
         let max = -Infinity;
 
         const startIndex = Math.max(0, Math.floor(from));
-        const endIndex = Math.min(this._data.length - 1, Math.ceil(to));
+        const endIndex = Math.min(data.length - 1, Math.ceil(to));
 
         for (let i = startIndex; i <= endIndex; i++) {
-            const item = this._data[i];
+            const item = data[i];
             if (isBarData(item)) {
                 min = Math.min(min, item.low);
                 max = Math.max(max, item.high);
@@ -128,6 +153,22 @@ export abstract class Series<TData extends SeriesDataItem = SeriesDataItem> {
         return min === Infinity ? null : { min, max };
     }
 
+    /**
+     * Close (or value) of the first item in the range, what percentage scales are relative to
+     */
+    getFirstValue(from: number, to: number): number | null {
+        const data = this.plotData;
+        const startIndex = Math.max(0, Math.floor(from));
+        const endIndex = Math.min(data.length - 1, Math.ceil(to));
+
+        for (let i = startIndex; i <= endIndex; i++) {
+            const item = data[i];
+            if (isBarData(item)) return item.close;
+            if (isLineData(item)) return item.value;
+        }
+        return null;
+    }
+
     // --- Coordinate calculation ---
 
     /**
@@ -140,12 +181,13 @@ export abstract class Series<TData extends SeriesDataItem = SeriesDataItem> {
         to: number
     ): BarWithCoordinates[] {
         const result: BarWithCoordinates[] = [];
+        const data = this.plotData;
 
         const startIndex = Math.max(0, Math.floor(from));
-        const endIndex = Math.min(this._data.length - 1, Math.ceil(to));
+        const endIndex = Math.min(data.length - 1, Math.ceil(to));
 
         for (let i = startIndex; i <= endIndex; i++) {
-            const item = this._data[i];
+            const item = data[i];
             const x = timeScale.indexToCoordinate(i as TimePointIndex);
 
             if (isBarData(item)) {
@@ -0,0 +1,44 @@
+import { LineData } from './data';
+import { Series, SeriesType, SeriesOptionsBase } from './series';
+
+/**
+ * Step line series options
+ */
+export interface StepLineSeriesOptions extends SeriesOptionsBase {
+    color: string;
+    lineWidth: number;
+    lineStyle: 'solid' | 'dashed' | 'dotted';
+}
+
+/**
+ * Default step line options
+ */
+export const defaultStepLineOptions: StepLineSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    color: '#2962ff',
+    lineWidth: 2,
+    lineStyle: 'solid',
+};
+
+/**
+ * Step line series (value holds until the next point, then jumps vertically)
+ */
+export class StepLineSeries extends Series<LineData> {
+    private _stepLineOptions: StepLineSeriesOptions;
+
+    constructor(options: Partial<StepLineSeriesOptions> = {}) {
+        super(SeriesType.StepLine, options);
+        this._stepLineOptions = { ...defaultStepLineOptions, ...options };
+        this._options = this._stepLineOptions;
+    }
+
+    get stepLineOptions(): Readonly<StepLineSeriesOptions> {
+        return this._stepLineOptions;
+    }
+
+    applyOptions(options: Partial<StepLineSeriesOptions>): void {
+        this._stepLineOptions = { ...this._stepLineOptions, ...options };
+        this._options = this._stepLineOptions;
+    }
+}
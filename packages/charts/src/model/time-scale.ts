@@ -18,6 +18,8 @@ export interface TimeScaleOptions {
     fixLeftEdge: boolean;
     /** Fix right edge (prevent scrolling past last bar) */
     fixRightEdge: boolean;
+    /** Distance in bars from the first loaded bar at which leftEdgeApproached fires */
+    leftEdgeThreshold: number;
 }
 
 /**
@@ -30,6 +32,7 @@ export const defaultTimeScaleOptions: TimeScaleOptions = {
     maxBarSpacing: 50,
     fixLeftEdge: false,
     fixRightEdge: false,
+    leftEdgeThreshold: 50,
 };
 
 /**
@@ -54,6 +57,7 @@ export class TimeScale {
 
     private readonly _sizeChanged = new Delegate<void>();
     private readonly _visibleRangeChanged = new Delegate<VisibleRange>();
+    private readonly _leftEdgeApproached = new Delegate<void>();
 
     constructor(options: Partial<TimeScaleOptions> = {}) {
         this._options = { ...defaultTimeScaleOptions, ...options };
@@ -93,12 +97,18 @@ export class TimeScale {
         return this._visibleRangeChanged;
     }
 
+    /** Fired when the viewport gets close to (or past) the first loaded bar */
+    get leftEdgeApproached(): Delegate<void> {
+        return this._leftEdgeApproached;
+    }
+
     // --- Configuration ---
 
     setWidth(width: number): void {
         if (this._width === width) return;
         this._width = width;
         this._sizeChanged.fire();
+        this._notifyVisibleRange();
     }
 
     setBarSpacing(spacing: number): void {
@@ -174,12 +184,28 @@ export class TimeScale {
     scrollToPosition(position: number, _animated: boolean = false): void {
         this._scrollOffset = position;
         this._correctOffset();
+        this._notifyVisibleRange();
+    }
+
+    /**
+     * Fit the bars between two float indexes to the width, e.g. to show the
+     * time range of a linked chart
+     */
+    setVisibleLogicalRange(from: number, to: number): void {
+        if (this._baseIndex === null || this._width <= 1 || to <= from) return;
+
+        // `from` at x = 0 and `to` at the right edge, x = width - 1, see coordinateToFloatIndex()
+        this.setBarSpacing((this._width - 1) / (to - from));
+        this._scrollOffset = this._baseIndex + this._rightOffset + 0.5 - to;
+        this._correctOffset();
+        this._notifyVisibleRange();
     }
 
     scrollBy(deltaPixels: number): void {
         const deltaBars = deltaPixels / this._barSpacing;
         this._scrollOffset += deltaBars;
         this._correctOffset();
+        this._notifyVisibleRange();
     }
 
     // --- Zooming ---
@@ -201,6 +227,7 @@ export class TimeScale {
         const newFloatIndexAtZoomPoint = this.coordinateToFloatIndex(zoomPoint);
         this._scrollOffset += newFloatIndexAtZoomPoint - floatIndexAtZoomPoint;
         this._correctOffset();
+        this._notifyVisibleRange();
     }
 
     /**
@@ -222,6 +249,24 @@ export class TimeScale {
 
     // --- Private ---
 
+    /**
+     * Fire range events after the viewport moved.
+     * Bars are indexed from the left, so prepending history only shifts the base index
+     * and the viewport (anchored to the right edge) stays where it is.
+     */
+    private _notifyVisibleRange(): void {
+        const range = this.visibleRange();
+        if (!range) return;
+
+        this._visibleRangeChanged.fire(range);
+
+        const barsCount = this._width / this._barSpacing;
+        const firstVisibleIndex = this._baseIndex! + this._rightOffset - this._scrollOffset - barsCount;
+        if (firstVisibleIndex <= this._options.leftEdgeThreshold) {
+            this._leftEdgeApproached.fire();
+        }
+    }
+
     private _correctOffset(): void {
         const pointsCount = this._pointsCount;
         if (pointsCount === 0) {
@@ -259,5 +304,6 @@ export class TimeScale {
     destroy(): void {
         this._sizeChanged.destroy();
         this._visibleRangeChanged.destroy();
+        this._leftEdgeApproached.destroy();
     }
 }
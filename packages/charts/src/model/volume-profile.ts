@@ -0,0 +1,305 @@
+/**
+ * Volume Profile - traded volume per price row over a range of bars
+ *
+ * A bar's volume is spread evenly over its high-low range, split into up
+ * volume (close at or above open) and down volume. With bars of a lower
+ * timeframe, each chart bar they cover is distributed through them instead,
+ * and volume the lower bars don't account for (e.g. of the live bar) is
+ * spread over the chart bar's range.
+ *
+ * The point of control (POC) is the row with the most volume. The value
+ * area grows from it, one row at a time towards the side with more volume,
+ * until it holds the configured share of the total.
+ */
+
+import { BarData } from './data';
+import { TradingSession, sessionDayOf } from '../helpers/sessions';
+import { toZonedTime } from '../helpers/timezone';
+import { timeframeToMs } from '../helpers/timeframe';
+
+/** Rows of a fixed count spanning the range, or of a number of ticks each */
+export type VolumeProfileRowLayout = 'count' | 'ticks';
+
+export interface VolumeProfileOptions {
+    rowLayout: VolumeProfileRowLayout;
+    /** Number of rows, or ticks per row */
+    rowSize: number;
+    /** Share of the volume in the value area, percent */
+    valueAreaVolume: number;
+}
+
+export const DEFAULT_VOLUME_PROFILE_OPTIONS: VolumeProfileOptions = {
+    rowLayout: 'count',
+    rowSize: 24,
+    valueAreaVolume: 70,
+};
+
+export interface VolumeProfileRow {
+    low: number;
+    high: number;
+    up: number;
+    down: number;
+}
+
+export interface VolumeProfile {
+    /** Open time of the first and last bar (ms) */
+    startTime: number;
+    endTime: number;
+    /** Rows from the lowest price up */
+    rows: VolumeProfileRow[];
+    totalVolume: number;
+    /** Largest row volume */
+    maxVolume: number;
+    /** Index of the point of control row */
+    pocIndex: number;
+    poc: number;
+    valueAreaHigh: number;
+    valueAreaLow: number;
+}
+
+/** Rows a profile is limited to, a larger tick layout gets taller rows */
+const MAX_ROWS = 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Profile of the bars; lowerBars (oldest first) are distributed instead of
+ * the chart bars they cover.
+ * @param tickSize - price increment for the 'ticks' layout, the count layout is used without one
+ * @returns null when the bars have no volume
+ */
+export function buildVolumeProfile(
+    bars: readonly BarData[],
+    options: VolumeProfileOptions,
+    tickSize: number = 0,
+    lowerBars: readonly BarData[] = []
+): VolumeProfile | null {
+    if (bars.length === 0) return null;
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const bar of bars) {
+        min = Math.min(min, bar.low);
+        max = Math.max(max, bar.high);
+    }
+    if (!isFinite(min) || !isFinite(max)) return null;
+
+    const { base, rowHeight, count } = rowGrid(min, max, options, tickSize);
+    const up = new Float64Array(count);
+    const down = new Float64Array(count);
+
+    const add = (low: number, high: number, volume: number, rising: boolean) => {
+        if (!(volume > 0)) return;
+        spread(rising ? up : down, base, rowHeight, Math.max(low, min), Math.min(high, max), volume);
+    };
+
+    const step = barStep(bars);
+    const lowerStart = lowerBars.length > 0 ? lowerBars[0].time : Infinity;
+    let lower = lowerIndex(lowerBars, bars[0].time);
+    for (let i = 0; i < bars.length; i++) {
+        const bar = bars[i];
+        const end = i + 1 < bars.length ? bars[i + 1].time : bar.time + step;
+        const volume = bar.volume ?? 0;
+
+        // Lower bars within the chart bar, the rest of its volume is spread over its range
+        let distributed = 0;
+        if (lowerStart <= bar.time) {
+            while (lower < lowerBars.length && lowerBars[lower].time < bar.time) lower++;
+            while (lower < lowerBars.length && lowerBars[lower].time < end) {
+                const item = lowerBars[lower++];
+                const itemVolume = item.volume ?? 0;
+                add(item.low, item.high, itemVolume, item.close >= item.open);
+                distributed += itemVolume;
+            }
+        }
+        add(bar.low, bar.high, volume - distributed, bar.close >= bar.open);
+    }
+
+    const rows: VolumeProfileRow[] = [];
+    let totalVolume = 0;
+    let maxVolume = 0;
+    let pocIndex = 0;
+    for (let r = 0; r < count; r++) {
+        const total = up[r] + down[r];
+        rows.push({ low: base + r * rowHeight, high: base + (r + 1) * rowHeight, up: up[r], down: down[r] });
+        totalVolume += total;
+        if (total > maxVolume) {
+            maxVolume = total;
+            pocIndex = r;
+        }
+    }
+    if (totalVolume <= 0) return null;
+
+    const [vaLow, vaHigh] = valueArea(rows, pocIndex, totalVolume * options.valueAreaVolume / 100);
+    return {
+        startTime: bars[0].time,
+        endTime: bars[bars.length - 1].time,
+        rows,
+        totalVolume,
+        maxVolume,
+        pocIndex,
+        poc: (rows[pocIndex].low + rows[pocIndex].high) / 2,
+        valueAreaHigh: rows[vaHigh].high,
+        valueAreaLow: rows[vaLow].low,
+    };
+}
+
+/**
+ * Period the session volume profile starts a new profile on
+ */
+export type VolumeProfilePeriod = 'session' | 'day' | 'week';
+
+/**
+ * Index ranges (inclusive) of the bars of each period, oldest first.
+ * 'session' uses the trading session and leaves out bars outside it, or
+ * falls back to days when there is none. Days and weeks (from Monday) are
+ * on the wall clock of the time zone.
+ */
+export function profilePeriods(
+    bars: readonly BarData[],
+    period: VolumeProfilePeriod,
+    session: TradingSession | null,
+    timeZone: string
+): { from: number; to: number }[] {
+    const keyOf = (time: number): number | null => {
+        if (period === 'session' && session) return sessionDayOf(time, session);
+        const day = Math.floor(toZonedTime(time, timeZone) / DAY);
+        // 1970-01-01 was a Thursday, the first Monday is day 4
+        return period === 'week' ? Math.floor((day - 4) / 7) : day;
+    };
+
+    const periods: { from: number; to: number }[] = [];
+    let current: number | null = null;
+    for (let i = 0; i < bars.length; i++) {
+        const key = keyOf(bars[i].time);
+        if (key === null) {
+            current = null;
+            continue;
+        }
+        if (key !== current || periods.length === 0) {
+            periods.push({ from: i, to: i });
+            current = key;
+        } else {
+            periods[periods.length - 1].to = i;
+        }
+    }
+    return periods;
+}
+
+/**
+ * Lower timeframe to distribute bars of the chart timeframe with,
+ * '' when the chart timeframe is too low for one
+ */
+export function autoLowerTimeframe(chartTimeframe: string): string {
+    const ms = timeframeToMs(chartTimeframe);
+    const minute = 60 * 1000;
+    if (ms <= minute) return '';
+    if (ms <= 60 * minute) return '1m';
+    if (ms <= 4 * 60 * minute) return '5m';
+    if (ms <= DAY) return '15m';
+    return '1h';
+}
+
+/**
+ * Lower timeframe a profile setting asks for on the chart timeframe:
+ * 'auto' picks one, '' is none
+ * @returns null when there is none or it isn't below the chart timeframe
+ */
+export function resolveLowerTimeframe(requested: string, chartTimeframe: string): string | null {
+    if (!requested || !chartTimeframe) return null;
+
+    const timeframe = requested === 'auto' ? autoLowerTimeframe(chartTimeframe) : requested;
+    const timeframeMs = timeframeToMs(timeframe);
+    if (timeframeMs === 0 || timeframeMs >= timeframeToMs(chartTimeframe)) return null;
+
+    return timeframe;
+}
+
+// --- Private ---
+
+function rowGrid(
+    min: number,
+    max: number,
+    options: VolumeProfileOptions,
+    tickSize: number
+): { base: number; rowHeight: number; count: number } {
+    const range = max - min;
+    if (options.rowLayout === 'ticks' && tickSize > 0) {
+        let rowHeight = tickSize * Math.max(1, Math.round(options.rowSize));
+        const base = Math.floor(min / rowHeight) * rowHeight;
+        let count = Math.max(1, Math.ceil((max - base) / rowHeight));
+        if (count > MAX_ROWS) {
+            rowHeight *= Math.ceil(count / MAX_ROWS);
+            count = Math.max(1, Math.ceil((max - base) / rowHeight));
+        }
+        return { base, rowHeight, count };
+    }
+
+    const count = Math.min(MAX_ROWS, Math.max(1, Math.round(options.rowSize)));
+    if (range <= 0) {
+        const rowHeight = tickSize > 0 ? tickSize : Math.max(Math.abs(min) * 0.001, 1e-8);
+        return { base: min - rowHeight / 2, rowHeight, count: 1 };
+    }
+    return { base: min, rowHeight: range / count, count };
+}
+
+/** Adds volume evenly over [low, high] to the rows it covers */
+function spread(target: Float64Array, base: number, rowHeight: number, low: number, high: number, volume: number): void {
+    const last = target.length - 1;
+    const first = Math.min(last, Math.max(0, Math.floor((low - base) / rowHeight)));
+    const top = Math.min(last, Math.max(0, Math.floor((high - base) / rowHeight)));
+    if (first === top || high <= low) {
+        target[first] += volume;
+        return;
+    }
+
+    const range = high - low;
+    for (let r = first; r <= top; r++) {
+        const rowLow = base + r * rowHeight;
+        const overlap = Math.min(high, rowLow + rowHeight) - Math.max(low, rowLow);
+        if (overlap > 0) target[r] += volume * overlap / range;
+    }
+}
+
+/** Row indices of the value area bounds, [low, high] */
+function valueArea(rows: readonly VolumeProfileRow[], pocIndex: number, target: number): [number, number] {
+    const volumeAt = (r: number) => rows[r].up + rows[r].down;
+    let low = pocIndex;
+    let high = pocIndex;
+    let volume = volumeAt(pocIndex);
+
+    while (volume < target && (low > 0 || high < rows.length - 1)) {
+        const above = high < rows.length - 1 ? volumeAt(high + 1) : -1;
+        const below = low > 0 ? volumeAt(low - 1) : -1;
+        if (above >= below) {
+            volume += above;
+            high++;
+        } else {
+            volume += below;
+            low--;
+        }
+    }
+    return [low, high];
+}
+
+/** Shortest time between bars, the duration of the last bar */
+function barStep(bars: readonly BarData[]): number {
+    let step = Infinity;
+    for (let i = 1; i < Math.min(bars.length, 50); i++) {
+        const gap = bars[i].time - bars[i - 1].time;
+        if (gap > 0) step = Math.min(step, gap);
+    }
+    return isFinite(step) ? step : 60 * 1000;
+}
+
+/** First index at or after the time */
+function lowerIndex(bars: readonly BarData[], time: number): number {
+    let lo = 0;
+    let hi = bars.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (bars[mid].time < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
@@ -0,0 +1,179 @@
+/**
+ * Footprint - trades of the trade feed mapped onto chart bars
+ *
+ * A footprint bar holds the volume that hit the bid (aggressive sells) and
+ * lifted the ask (aggressive buys) at each price row of a bar. Imbalances
+ * compare diagonally, as the ask trades at a price against the bid trades
+ * one row below: a buy imbalance is ask volume at least `ratio` times the
+ * bid volume below it, a sell imbalance bid volume at least `ratio` times
+ * the ask volume above it.
+ */
+
+import { BarData } from '../model/data';
+import { TradeBucket } from './trade-feed';
+
+export interface FootprintLevel {
+    /** Low of the row */
+    price: number;
+    /** Aggressive sells */
+    bid: number;
+    /** Aggressive buys */
+    ask: number;
+}
+
+export interface FootprintBar {
+    /** Open time of the bar (ms) */
+    time: number;
+    rowHeight: number;
+    /** Rows from the lowest price up, rows without trades included */
+    levels: FootprintLevel[];
+    bid: number;
+    ask: number;
+    /** Ask minus bid volume */
+    delta: number;
+    /** Index of the row with the most volume */
+    pocIndex: number;
+    /** Volume of the largest row */
+    maxVolume: number;
+}
+
+/** Imbalanced rows of a footprint bar */
+export interface FootprintImbalances {
+    buy: boolean[];
+    sell: boolean[];
+    /** Runs of at least the stacked count imbalanced rows, inclusive row indices */
+    stackedBuy: { from: number; to: number }[];
+    stackedSell: { from: number; to: number }[];
+}
+
+/** Delta of one bar */
+export interface BarDelta {
+    buy: number;
+    sell: number;
+    delta: number;
+    /** Highest and lowest running delta within the bar, per second */
+    high: number;
+    low: number;
+}
+
+/**
+ * Footprint of the trades from time up to endTime (exclusive)
+ * @param buckets - ascending by time
+ * @param first - index of the first bucket at or after time
+ * @returns null without trades in the bar
+ */
+export function buildFootprintBar(
+    buckets: readonly TradeBucket[],
+    first: number,
+    time: number,
+    endTime: number,
+    rowHeight: number
+): FootprintBar | null {
+    if (!(rowHeight > 0)) return null;
+
+    const rows = new Map<number, FootprintLevel>();
+    let minRow = Infinity;
+    let maxRow = -Infinity;
+    let bid = 0;
+    let ask = 0;
+    for (let i = first; i < buckets.length && buckets[i].time < endTime; i++) {
+        if (buckets[i].time < time) continue;
+        for (const [price, volume] of buckets[i].levels) {
+            // The epsilon keeps prices on a row boundary in their row despite float noise
+            const row = Math.floor(price / rowHeight + 1e-9);
+            let level = rows.get(row);
+            if (!level) {
+                level = { price: row * rowHeight, bid: 0, ask: 0 };
+                rows.set(row, level);
+                minRow = Math.min(minRow, row);
+                maxRow = Math.max(maxRow, row);
+            }
+            level.bid += volume.sell;
+            level.ask += volume.buy;
+            bid += volume.sell;
+            ask += volume.buy;
+        }
+    }
+    if (rows.size === 0) return null;
+
+    const levels: FootprintLevel[] = [];
+    let pocIndex = 0;
+    let maxVolume = 0;
+    for (let row = minRow; row <= maxRow; row++) {
+        const level = rows.get(row) ?? { price: row * rowHeight, bid: 0, ask: 0 };
+        const volume = level.bid + level.ask;
+        if (volume > maxVolume) {
+            maxVolume = volume;
+            pocIndex = levels.length;
+        }
+        levels.push(level);
+    }
+
+    return { time, rowHeight, levels, bid, ask, delta: ask - bid, pocIndex, maxVolume };
+}
+
+/**
+ * Diagonal imbalances of a footprint bar; rows against an empty row count
+ * when they have volume, the lowest ask and highest bid have nothing to
+ * compare with
+ * @param ratio - e.g. 3 for 300%
+ * @param stackedCount - imbalanced rows in a row that make a stacked imbalance
+ */
+export function footprintImbalances(bar: FootprintBar, ratio: number, stackedCount: number): FootprintImbalances {
+    const levels = bar.levels;
+    const buy = levels.map((level, i) => i > 0 && level.ask > 0 && level.ask >= ratio * levels[i - 1].bid);
+    const sell = levels.map((level, i) => i < levels.length - 1 && level.bid > 0 && level.bid >= ratio * levels[i + 1].ask);
+    return {
+        buy,
+        sell,
+        stackedBuy: runs(buy, stackedCount),
+        stackedSell: runs(sell, stackedCount),
+    };
+}
+
+/**
+ * Delta of each bar; bars before the first trade are null
+ * @param buckets - ascending by time
+ */
+export function deltaPerBar(bars: readonly BarData[], buckets: readonly TradeBucket[]): (BarDelta | null)[] {
+    const result: (BarDelta | null)[] = bars.map(() => null);
+    if (bars.length === 0 || buckets.length === 0) return result;
+
+    const start = buckets[0].time;
+    let index = 0;
+    for (let i = 0; i < bars.length; i++) {
+        const end = i + 1 < bars.length ? bars[i + 1].time : Infinity;
+        if (end <= start) continue;
+
+        const delta: BarDelta = { buy: 0, sell: 0, delta: 0, high: 0, low: 0 };
+        while (index < buckets.length && buckets[index].time < bars[i].time) index++;
+        while (index < buckets.length && buckets[index].time < end) {
+            const bucket = buckets[index++];
+            delta.buy += bucket.buy;
+            delta.sell += bucket.sell;
+            delta.delta = delta.buy - delta.sell;
+            delta.high = Math.max(delta.high, delta.delta);
+            delta.low = Math.min(delta.low, delta.delta);
+        }
+        result[i] = delta;
+    }
+    return result;
+}
+
+// --- Private ---
+
+function runs(flags: readonly boolean[], minLength: number): { from: number; to: number }[] {
+    const result: { from: number; to: number }[] = [];
+    let from = -1;
+    for (let i = 0; i <= flags.length; i++) {
+        if (i < flags.length && flags[i]) {
+            if (from < 0) from = i;
+            continue;
+        }
+        if (from >= 0 && i - from >= Math.max(1, minLength)) {
+            result.push({ from, to: i - 1 });
+        }
+        from = -1;
+    }
+    return result;
+}
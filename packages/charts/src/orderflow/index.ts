@@ -0,0 +1,6 @@
+/**
+ * Order flow module - live trades of the chart symbol and the footprints built from them
+ */
+
+export * from './trade-feed';
+export * from './footprint';
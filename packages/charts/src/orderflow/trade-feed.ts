@@ -0,0 +1,235 @@
+/**
+ * Trade Feed - live trades of the chart symbol, aggregated per second
+ *
+ * One feed per chart follows the trade stream of the chart symbol while
+ * something retains it and sums the aggressive buy and sell volume per
+ * second and trade price. The seconds are independent of the chart
+ * timeframe, so footprints and deltas of any timeframe are rebuilt from
+ * them after a timeframe switch; a new symbol starts over.
+ */
+
+import { ChartModel } from '../model/chart-model';
+import { Delegate } from '../helpers/delegate';
+import { ITradeProvider, Trade } from '../data-providers/types';
+
+/** Aggressive volume: buys lifted the ask, sells hit the bid */
+export interface TradeVolume {
+    buy: number;
+    sell: number;
+}
+
+/** Trades of one second */
+export interface TradeBucket {
+    /** Start of the second (ms) */
+    time: number;
+    buy: number;
+    sell: number;
+    /** Volume by trade price */
+    levels: Map<number, TradeVolume>;
+}
+
+/** Length of a bucket */
+export const TRADE_BUCKET_MS = 1000;
+
+/** Seconds kept, the oldest are dropped beyond this (a day) */
+const MAX_BUCKETS = 86400;
+
+export class TradeFeed {
+    private readonly _model: ChartModel;
+
+    private _provider: ITradeProvider | null = null;
+    /** Consumers of the stream */
+    private _retained: number = 0;
+    /** Symbol the stream is followed for */
+    private _subscribed: string | null = null;
+    /** Latest subscription, drops trades of an earlier one */
+    private _requestId: number = 0;
+
+    private _buckets: TradeBucket[] = [];
+
+    private readonly _changed = new Delegate<number>();
+
+    constructor(model: ChartModel) {
+        this._model = model;
+    }
+
+    /**
+     * Fired with the earliest time (ms) whose trades changed,
+     * -Infinity when the trades were cleared
+     */
+    get changed(): Delegate<number> {
+        return this._changed;
+    }
+
+    get provider(): ITradeProvider | null {
+        return this._provider;
+    }
+
+    /** Trades per second, oldest first */
+    get buckets(): readonly TradeBucket[] {
+        return this._buckets;
+    }
+
+    // --- Data source ---
+
+    /** Provider the trades stream from, a retained stream is resubscribed to it */
+    setProvider(provider: ITradeProvider | null): void {
+        this._unsubscribe();
+        this._provider = provider;
+        this.reload();
+    }
+
+    /** Start following the trades for a consumer, pair every call with release */
+    retain(): void {
+        this._retained++;
+        if (this._retained === 1) {
+            this._subscribe();
+        }
+    }
+
+    /** Stop following the trades once the last consumer released them */
+    release(): void {
+        if (this._retained <= 0) return;
+        this._retained--;
+        if (this._retained === 0) {
+            this._unsubscribe();
+            this.clear();
+        }
+    }
+
+    /** Start over on the chart symbol, e.g. after a symbol change */
+    reload(): void {
+        this._unsubscribe();
+        this.clear();
+        if (this._retained > 0) {
+            this._subscribe();
+        }
+    }
+
+    /** Drop the trades collected so far */
+    clear(): void {
+        this._buckets = [];
+        this._changed.fire(-Infinity);
+    }
+
+    /**
+     * Add a trade of the chart symbol; trades from the provider come through
+     * here, others can be added e.g. from an own stream
+     */
+    addTrade(trade: Trade): void {
+        if (!(trade.quantity > 0) || !isFinite(trade.price)) return;
+
+        const time = Math.floor(trade.timestamp / TRADE_BUCKET_MS) * TRADE_BUCKET_MS;
+        const bucket = this._bucketAt(time);
+        const volume = bucket.levels.get(trade.price);
+        const isBuy = trade.side === 'buy';
+        if (volume) {
+            if (isBuy) volume.buy += trade.quantity;
+            else volume.sell += trade.quantity;
+        } else {
+            bucket.levels.set(trade.price, isBuy ? { buy: trade.quantity, sell: 0 } : { buy: 0, sell: trade.quantity });
+        }
+        if (isBuy) bucket.buy += trade.quantity;
+        else bucket.sell += trade.quantity;
+
+        if (this._buckets.length > MAX_BUCKETS) {
+            this._buckets.splice(0, this._buckets.length - MAX_BUCKETS);
+        }
+        this._changed.fire(time);
+    }
+
+    /** Index of the first bucket at or after the time */
+    indexAt(time: number): number {
+        const buckets = this._buckets;
+        let lo = 0;
+        let hi = buckets.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (buckets[mid].time < time) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
+    }
+
+    // --- Cleanup ---
+
+    destroy(): void {
+        this._unsubscribe();
+        this._retained = 0;
+        this._buckets = [];
+        this._changed.destroy();
+    }
+
+    // --- Private ---
+
+    /** Bucket of the second, created in time order; trades arrive in order, so mostly the last one */
+    private _bucketAt(time: number): TradeBucket {
+        const buckets = this._buckets;
+        const last = buckets[buckets.length - 1];
+        if (last && last.time === time) return last;
+
+        const index = !last || last.time < time ? buckets.length : this.indexAt(time);
+        if (buckets[index]?.time === time) return buckets[index];
+
+        const bucket: TradeBucket = { time, buy: 0, sell: 0, levels: new Map() };
+        buckets.splice(index, 0, bucket);
+        return bucket;
+    }
+
+    private _subscribe(): void {
+        const provider = this._provider;
+        const symbol = this._model.symbol;
+        if (!provider || !symbol) return;
+
+        const requestId = ++this._requestId;
+        try {
+            provider.subscribeTrades(symbol, (trade) => {
+                if (requestId === this._requestId) this.addTrade(trade);
+            });
+            this._subscribed = symbol;
+        } catch (e) {
+            console.error(`Failed to subscribe to ${symbol} trades:`, e);
+        }
+    }
+
+    private _unsubscribe(): void {
+        this._requestId++;
+        const symbol = this._subscribed;
+        if (symbol === null) return;
+        this._subscribed = null;
+        this._provider?.unsubscribeTrades(symbol);
+    }
+}
+
+/**
+ * Link of one consumer to a feed: retains the trades while set and calls
+ * back with the earliest time that changed
+ */
+export class TradeFeedLink {
+    private _feed: TradeFeed | null = null;
+
+    constructor(private readonly _onChanged: (time: number) => void) { }
+
+    get feed(): TradeFeed | null {
+        return this._feed;
+    }
+
+    /** Switch to another feed, null releases the trades */
+    setFeed(feed: TradeFeed | null): void {
+        if (feed === this._feed) return;
+
+        if (this._feed) {
+            this._feed.changed.unsubscribe(this._handleChanged);
+            this._feed.release();
+        }
+        this._feed = feed;
+        if (feed) {
+            feed.changed.subscribe(this._handleChanged);
+            feed.retain();
+        }
+    }
+
+    private readonly _handleChanged = (time: number): void => {
+        this._onChanged(time);
+    };
+}
@@ -0,0 +1,11 @@
+/**
+ * Pine Script - a subset of Pine v5 interpreted for user-defined indicators
+ */
+
+export * from './pine-ast';
+export * from './pine-error';
+export * from './pine-lexer';
+export * from './pine-parser';
+export * from './pine-output';
+export * from './pine-builtins';
+export * from './pine-runtime';
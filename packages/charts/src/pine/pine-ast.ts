@@ -0,0 +1,198 @@
+/**
+ * Pine Script syntax tree
+ *
+ * Produced by the parser, executed bar by bar by the runtime. Every node keeps
+ * its source position for error messages.
+ */
+
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+// --- Expressions ---
+
+export interface NumberLiteral extends SourcePosition {
+    kind: 'number';
+    value: number;
+}
+
+export interface StringLiteral extends SourcePosition {
+    kind: 'string';
+    value: string;
+}
+
+export interface BoolLiteral extends SourcePosition {
+    kind: 'bool';
+    value: boolean;
+}
+
+/** #RRGGBB or #RRGGBBAA */
+export interface ColorLiteral extends SourcePosition {
+    kind: 'color';
+    value: string;
+}
+
+export interface NaLiteral extends SourcePosition {
+    kind: 'na';
+}
+
+/** Variable or namespaced constant, e.g. `close`, `color.red`, `plot.style_line` */
+export interface Identifier extends SourcePosition {
+    kind: 'identifier';
+    name: string;
+}
+
+/** `x[1]` */
+export interface HistoryExpression extends SourcePosition {
+    kind: 'history';
+    target: Expression;
+    offset: Expression;
+}
+
+export interface CallExpression extends SourcePosition {
+    kind: 'call';
+    /** Unique per call site, keys the state of ta.* functions and plots */
+    id: number;
+    callee: string;
+    args: Expression[];
+    namedArgs: Record<string, Expression>;
+}
+
+export interface UnaryExpression extends SourcePosition {
+    kind: 'unary';
+    operator: '-' | '+' | 'not';
+    operand: Expression;
+}
+
+export type BinaryOperator =
+    | '+' | '-' | '*' | '/' | '%'
+    | '==' | '!=' | '<' | '<=' | '>' | '>='
+    | 'and' | 'or';
+
+export interface BinaryExpression extends SourcePosition {
+    kind: 'binary';
+    operator: BinaryOperator;
+    left: Expression;
+    right: Expression;
+}
+
+export interface TernaryExpression extends SourcePosition {
+    kind: 'ternary';
+    condition: Expression;
+    consequent: Expression;
+    alternate: Expression;
+}
+
+/** `[a, b]`, the return value of multi-output functions */
+export interface TupleExpression extends SourcePosition {
+    kind: 'tuple';
+    elements: Expression[];
+}
+
+export type Expression =
+    | NumberLiteral
+    | StringLiteral
+    | BoolLiteral
+    | ColorLiteral
+    | NaLiteral
+    | Identifier
+    | HistoryExpression
+    | CallExpression
+    | UnaryExpression
+    | BinaryExpression
+    | TernaryExpression
+    | TupleExpression;
+
+// --- Statements ---
+
+/** `[var] [type] name = value` */
+export interface Declaration extends SourcePosition {
+    kind: 'declaration';
+    id: number;
+    name: string;
+    /** var keeps the value across bars, initialized on the first one */
+    persistent: boolean;
+    value: Expression;
+}
+
+/** `[a, b] = f()` */
+export interface TupleDeclaration extends SourcePosition {
+    kind: 'tupleDeclaration';
+    id: number;
+    names: string[];
+    value: Expression;
+}
+
+export type AssignmentOperator = ':=' | '+=' | '-=' | '*=' | '/=' | '%=';
+
+export interface Assignment extends SourcePosition {
+    kind: 'assignment';
+    name: string;
+    operator: AssignmentOperator;
+    value: Expression;
+}
+
+export interface ExpressionStatement extends SourcePosition {
+    kind: 'expression';
+    expression: Expression;
+}
+
+export interface IfStatement extends SourcePosition {
+    kind: 'if';
+    condition: Expression;
+    consequent: Statement[];
+    /** `else if` is an if statement as the only alternate statement */
+    alternate: Statement[] | null;
+}
+
+/** `for i = from to to [by step]` */
+export interface ForStatement extends SourcePosition {
+    kind: 'for';
+    id: number;
+    variable: string;
+    from: Expression;
+    to: Expression;
+    step: Expression | null;
+    body: Statement[];
+}
+
+export interface WhileStatement extends SourcePosition {
+    kind: 'while';
+    condition: Expression;
+    body: Statement[];
+}
+
+export interface BreakStatement extends SourcePosition {
+    kind: 'break';
+}
+
+export interface ContinueStatement extends SourcePosition {
+    kind: 'continue';
+}
+
+/** `name(a, b) => body`, the value of the last statement is returned */
+export interface FunctionDeclaration extends SourcePosition {
+    kind: 'function';
+    name: string;
+    params: { name: string; defaultValue: Expression | null }[];
+    body: Statement[];
+}
+
+export type Statement =
+    | Declaration
+    | TupleDeclaration
+    | Assignment
+    | ExpressionStatement
+    | IfStatement
+    | ForStatement
+    | WhileStatement
+    | BreakStatement
+    | ContinueStatement
+    | FunctionDeclaration;
+
+export interface Program {
+    body: Statement[];
+    /** `//@version=N`, 0 when missing */
+    version: number;
+}
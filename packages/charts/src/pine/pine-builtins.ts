@@ -0,0 +1,882 @@
+/**
+ * Pine Script built-in variables, constants and functions
+ *
+ * na is NaN for every type. Functions keeping series state (ta.*) push their
+ * inputs once per bar into the CallState of their call site.
+ */
+
+import { CallExpression } from './pine-ast';
+import { PineError } from './pine-error';
+import {
+    PineBar,
+    PineLineStyle,
+    PineOutput,
+    PineOutputRef,
+    PinePlotStyle,
+    PineShapeLocation,
+    PineShapeSize,
+} from './pine-output';
+
+export type PineValue = number | boolean | string | PineOutputRef | PineValue[];
+
+/**
+ * Series of one call site. Values are pushed once per bar; calling the site
+ * again on the same bar replaces what the previous call pushed.
+ */
+export class CallState {
+    private _bar: number = -1;
+    private readonly _series = new Map<string, number[]>();
+    private _pushed: number[][] = [];
+
+    begin(bar: number): void {
+        if (bar === this._bar) {
+            for (const series of this._pushed) {
+                series.pop();
+            }
+        }
+        this._pushed = [];
+        this._bar = bar;
+    }
+
+    push(name: string, value: number): number[] {
+        const series = this.series(name);
+        series.push(value);
+        this._pushed.push(series);
+        return series;
+    }
+
+    series(name: string): number[] {
+        let series = this._series.get(name);
+        if (!series) {
+            series = [];
+            this._series.set(name, series);
+        }
+        return series;
+    }
+}
+
+/** What a built-in function sees of the running script */
+export interface BuiltinContext {
+    readonly bar: number;
+    readonly bars: readonly PineBar[];
+    readonly call: CallExpression;
+    readonly output: PineOutput;
+    /** State of the call site, call once per invocation */
+    state(): CallState;
+    /** Index of the plot, hline... the call site writes to */
+    outputIndex(): number;
+    /** Current value of the input the call site declares */
+    inputValue(): PineValue;
+}
+
+type Argument = PineValue | undefined;
+
+export interface BuiltinFunction {
+    /** Names in positional order, used to place named arguments */
+    params: string[];
+    /** Accepts any number of positional arguments */
+    variadic?: boolean;
+    call(args: Argument[], context: BuiltinContext): PineValue;
+}
+
+// --- Values ---
+
+export function isNa(value: Argument): boolean {
+    return value === undefined || (typeof value === 'number' && isNaN(value));
+}
+
+export function toNumber(value: Argument): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return NaN;
+}
+
+export function toBool(value: Argument): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return !isNaN(value) && value !== 0;
+    return value !== undefined;
+}
+
+export function toColor(value: Argument): string | null {
+    return typeof value === 'string' ? value : null;
+}
+
+function toText(value: Argument, fallback: string = ''): string {
+    return typeof value === 'string' ? value : fallback;
+}
+
+/** Infinity from x / 0 is na in Pine */
+export function finite(value: number): number {
+    return isFinite(value) ? value : NaN;
+}
+
+function fail(context: BuiltinContext, message: string): never {
+    throw new PineError('runtime', message, context.call.line, context.call.column);
+}
+
+function length(context: BuiltinContext, value: Argument, name: string = 'length'): number {
+    const result = Math.floor(toNumber(value));
+    if (!(result > 0)) {
+        fail(context, `'${name}' must be greater than 0, got ${toNumber(value)}`);
+    }
+    return result;
+}
+
+export function sourceValue(bar: PineBar, source: string): number {
+    switch (source) {
+        case 'open': return bar.open;
+        case 'high': return bar.high;
+        case 'low': return bar.low;
+        case 'volume': return bar.volume ?? NaN;
+        case 'hl2': return (bar.high + bar.low) / 2;
+        case 'hlc3': return (bar.high + bar.low + bar.close) / 3;
+        case 'ohlc4': return (bar.open + bar.high + bar.low + bar.close) / 4;
+        case 'hlcc4': return (bar.high + bar.low + bar.close * 2) / 4;
+        default: return bar.close;
+    }
+}
+
+// --- Colors ---
+
+/** [r, g, b, a] of #RRGGBB, #RRGGBBAA or rgba() */
+export function parseColor(color: string): [number, number, number, number] | null {
+    const hex = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(color);
+    if (hex) {
+        const value = parseInt(hex[1], 16);
+        const alpha = hex[2] ? parseInt(hex[2], 16) / 255 : 1;
+        return [(value >> 16) & 255, (value >> 8) & 255, value & 255, alpha];
+    }
+    const rgba = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color);
+    if (rgba) {
+        return [Number(rgba[1]), Number(rgba[2]), Number(rgba[3]), rgba[4] === undefined ? 1 : Number(rgba[4])];
+    }
+    return null;
+}
+
+function rgba(r: number, g: number, b: number, a: number): string {
+    const channel = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+    const alpha = Math.round(Math.min(1, Math.max(0, a)) * 1000) / 1000;
+    return `rgba(${channel(r)}, ${channel(g)}, ${channel(b)}, ${alpha})`;
+}
+
+/** Pine's transparency is 0 (opaque) to 100 */
+function opacity(transparency: Argument): number {
+    const value = toNumber(transparency);
+    return isNaN(value) ? 1 : 1 - value / 100;
+}
+
+const COLORS: Record<string, string> = {
+    aqua: '#00BCD4',
+    black: '#363A45',
+    blue: '#2196F3',
+    fuchsia: '#E040FB',
+    gray: '#787B86',
+    green: '#4CAF50',
+    lime: '#00E676',
+    maroon: '#880E4F',
+    navy: '#311B92',
+    olive: '#808000',
+    orange: '#FF9800',
+    purple: '#9C27B0',
+    red: '#FF5252',
+    silver: '#B2B5BE',
+    teal: '#00897B',
+    white: '#FFFFFF',
+    yellow: '#FFEB3B',
+};
+
+const DEFAULT_PLOT_COLOR = '#2962FF';
+const DEFAULT_HLINE_COLOR = '#787B86';
+const DEFAULT_FILL_COLOR = 'rgba(41, 98, 255, 0.1)';
+
+// --- Constants ---
+
+const PLOT_STYLES: PinePlotStyle[] = ['line', 'linebr', 'stepline', 'histogram', 'columns', 'circles', 'cross', 'area', 'areabr'];
+const SHAPES = ['xcross', 'cross', 'circle', 'triangleup', 'triangledown', 'flag', 'arrowup', 'arrowdown', 'square', 'diamond', 'labelup', 'labeldown'];
+const LOCATIONS: PineShapeLocation[] = ['abovebar', 'belowbar', 'top', 'bottom', 'absolute'];
+const SIZES: PineShapeSize[] = ['auto', 'tiny', 'small', 'normal', 'large', 'huge'];
+const LINE_STYLES: PineLineStyle[] = ['solid', 'dotted', 'dashed'];
+
+/** Namespaced constants such as color.red or plot.style_histogram */
+export const CONSTANTS = new Map<string, PineValue>([
+    ...Object.entries(COLORS).map(([name, value]): [string, PineValue] => [`color.${name}`, value]),
+    ...PLOT_STYLES.map((style): [string, PineValue] => [`plot.style_${style}`, style]),
+    ...SHAPES.map((shape): [string, PineValue] => [`shape.${shape}`, shape]),
+    ...LOCATIONS.map((location): [string, PineValue] => [`location.${location}`, location]),
+    ...SIZES.map((size): [string, PineValue] => [`size.${size}`, size]),
+    ...LINE_STYLES.map((style): [string, PineValue] => [`hline.style_${style}`, style]),
+    ['display.all', 'all'],
+    ['display.none', 'none'],
+    ['format.inherit', 'inherit'],
+    ['format.price', 'price'],
+    ['format.percent', 'percent'],
+    ['format.volume', 'volume'],
+    ['scale.right', 'right'],
+    ['scale.left', 'left'],
+    ['scale.none', 'none'],
+    ['math.pi', Math.PI],
+    ['math.e', Math.E],
+    ['math.phi', (1 + Math.sqrt(5)) / 2],
+    ['math.rphi', 2 / (1 + Math.sqrt(5))],
+]);
+
+// --- Variables ---
+
+function trueRange(bars: readonly PineBar[], bar: number, handleNa: boolean): number {
+    const current = bars[bar];
+    if (bar === 0) {
+        return handleNa ? current.high - current.low : NaN;
+    }
+    const previousClose = bars[bar - 1].close;
+    return Math.max(
+        current.high - current.low,
+        Math.abs(current.high - previousClose),
+        Math.abs(current.low - previousClose)
+    );
+}
+
+/** Built-in series, read at any bar so `close[1]` needs no history of its own */
+export const VARIABLES = new Map<string, (bars: readonly PineBar[], bar: number) => PineValue>([
+    ['open', (bars, bar) => bars[bar].open],
+    ['high', (bars, bar) => bars[bar].high],
+    ['low', (bars, bar) => bars[bar].low],
+    ['close', (bars, bar) => bars[bar].close],
+    ['volume', (bars, bar) => bars[bar].volume ?? NaN],
+    ['time', (bars, bar) => bars[bar].time],
+    ['hl2', (bars, bar) => sourceValue(bars[bar], 'hl2')],
+    ['hlc3', (bars, bar) => sourceValue(bars[bar], 'hlc3')],
+    ['ohlc4', (bars, bar) => sourceValue(bars[bar], 'ohlc4')],
+    ['hlcc4', (bars, bar) => sourceValue(bars[bar], 'hlcc4')],
+    ['bar_index', (_, bar) => bar],
+    ['last_bar_index', bars => bars.length - 1],
+    ['barstate.isfirst', (_, bar) => bar === 0],
+    ['barstate.islast', (bars, bar) => bar === bars.length - 1],
+    ['barstate.isconfirmed', () => true],
+    ['ta.tr', (bars, bar) => trueRange(bars, bar, false)],
+]);
+
+// --- Series helpers ---
+
+/** Last `size` values, null when there are fewer or one is na */
+function window(series: number[], size: number): number[] | null {
+    if (series.length < size) return null;
+    const values = series.slice(series.length - size);
+    return values.some(value => isNaN(value)) ? null : values;
+}
+
+function average(values: number[]): number {
+    let sum = 0;
+    for (const value of values) sum += value;
+    return sum / values.length;
+}
+
+function weightedAverage(values: number[] | null): number {
+    if (!values) return NaN;
+    let sum = 0;
+    let weights = 0;
+    for (let i = 0; i < values.length; i++) {
+        sum += values[i] * (i + 1);
+        weights += i + 1;
+    }
+    return sum / weights;
+}
+
+/** Population variance when biased (Pine's default), sample variance (n - 1) otherwise */
+function variance(values: number[], biased: boolean = true): number {
+    const mean = average(values);
+    let sum = 0;
+    for (const value of values) sum += (value - mean) * (value - mean);
+    return sum / (biased ? values.length : values.length - 1);
+}
+
+function meanDeviation(values: number[]): number {
+    const mean = average(values);
+    let sum = 0;
+    for (const value of values) sum += Math.abs(value - mean);
+    return sum / values.length;
+}
+
+/** Value `offset` bars back in a series pushed once per bar */
+function back(series: number[], offset: number): number {
+    const index = series.length - 1 - offset;
+    return index >= 0 ? series[index] : NaN;
+}
+
+/**
+ * Exponential smoothing seeded with the SMA of the first `size` values,
+ * used by ta.ema (alpha 2 / (length + 1)) and ta.rma (alpha 1 / length)
+ */
+function smoothed(state: CallState, name: string, value: number, size: number, alpha: number): number {
+    const inputs = state.push(name, value);
+    const outputs = state.series(`${name}.out`);
+    const previous = back(outputs, 0);
+
+    let result: number;
+    if (isNaN(value)) {
+        result = NaN;
+    } else if (!isNaN(previous)) {
+        result = previous + alpha * (value - previous);
+    } else {
+        const values = window(inputs, size);
+        result = values ? average(values) : NaN;
+    }
+
+    state.push(`${name}.out`, result);
+    return result;
+}
+
+/** Index from the end of the highest (sign 1) or lowest (sign -1) value, -1 when na */
+function extremeOffset(values: number[] | null, sign: number): number {
+    if (!values) return -1;
+    let best = values.length - 1;
+    for (let i = values.length - 2; i >= 0; i--) {
+        if ((values[i] - values[best]) * sign > 0) best = i;
+    }
+    return values.length - 1 - best;
+}
+
+function pivot(args: Argument[], context: BuiltinContext, source: 'high' | 'low', sign: number): number {
+    const withSource = args[2] !== undefined;
+    const value = withSource ? toNumber(args[0]) : context.bars[context.bar][source];
+    const left = Math.max(0, Math.floor(toNumber(withSource ? args[1] : args[0])));
+    const right = Math.max(0, Math.floor(toNumber(withSource ? args[2] : args[1])));
+
+    const values = window(context.state().push('src', value), left + right + 1);
+    if (!values) return NaN;
+
+    const candidate = values[left];
+    for (let i = 0; i < values.length; i++) {
+        if (i !== left && (values[i] - candidate) * sign >= 0) return NaN;
+    }
+    return candidate;
+}
+
+function cross(context: BuiltinContext, a: Argument, b: Argument): { above: boolean; below: boolean } {
+    const state = context.state();
+    const first = state.push('a', toNumber(a));
+    const second = state.push('b', toNumber(b));
+    const diff = back(first, 0) - back(second, 0);
+    const previousDiff = back(first, 1) - back(second, 1);
+    return {
+        above: diff > 0 && previousDiff <= 0,
+        below: diff < 0 && previousDiff >= 0,
+    };
+}
+
+// --- Functions ---
+
+const SOURCE_LENGTH = ['source', 'length'];
+
+const OUTPUT_PARAMS = {
+    plot: ['series', 'title', 'color', 'linewidth', 'style', 'trackprice', 'histbase', 'offset', 'join', 'editable', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    plotshape: ['series', 'title', 'style', 'location', 'color', 'offset', 'text', 'textcolor', 'editable', 'size', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    plotchar: ['series', 'title', 'char', 'location', 'color', 'offset', 'text', 'textcolor', 'editable', 'size', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    hline: ['price', 'title', 'color', 'linestyle', 'linewidth', 'editable', 'display'],
+    fill: ['hline1', 'hline2', 'color', 'title', 'editable', 'fillgaps', 'display'],
+    bgcolor: ['color', 'offset', 'editable', 'show_last', 'title', 'display', 'force_overlay'],
+};
+
+const INPUT_PARAMS = {
+    'input': ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display'],
+    'input.int': ['defval', 'title', 'minval', 'maxval', 'step', 'tooltip', 'inline', 'group', 'confirm', 'options', 'display'],
+    'input.float': ['defval', 'title', 'minval', 'maxval', 'step', 'tooltip', 'inline', 'group', 'confirm', 'options', 'display'],
+    'input.bool': ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display'],
+    'input.string': ['defval', 'title', 'options', 'tooltip', 'inline', 'group', 'confirm', 'display'],
+    'input.source': ['defval', 'title', 'tooltip', 'inline', 'group', 'display'],
+    'input.color': ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display'],
+};
+
+export const INPUT_FUNCTIONS: Record<string, string[]> = INPUT_PARAMS;
+
+export const DECLARATION_PARAMS = ['title', 'shorttitle', 'overlay', 'format', 'precision', 'scale', 'max_bars_back', 'timeframe', 'timeframe_gaps', 'explicit_plot_zorder', 'max_lines_count', 'max_labels_count', 'max_boxes_count', 'max_polylines_count', 'calc_bars_count', 'dynamic_requests', 'behind_chart'];
+
+function math1(fn: (x: number) => number): BuiltinFunction {
+    return { params: ['number'], call: args => finite(fn(toNumber(args[0]))) };
+}
+
+function variadic(fn: (values: number[]) => number): BuiltinFunction {
+    return { params: [], variadic: true, call: args => finite(fn(args.map(toNumber))) };
+}
+
+export const FUNCTIONS = new Map<string, BuiltinFunction>([
+    // Declarations are read when the script compiles
+    ['indicator', { params: DECLARATION_PARAMS, call: () => NaN }],
+    ['study', { params: DECLARATION_PARAMS, call: () => NaN }],
+
+    ...Object.entries(INPUT_PARAMS).map(([name, params]): [string, BuiltinFunction] => [
+        name,
+        { params, call: (_, context) => context.inputValue() },
+    ]),
+
+    // --- Outputs ---
+
+    ['plot', {
+        params: OUTPUT_PARAMS.plot,
+        call: (args, context) => {
+            const index = context.outputIndex();
+            const plot = context.output.plots[index];
+            plot.values[context.bar] = toNumber(args[0]);
+            plot.colors[context.bar] = args[2] === undefined ? DEFAULT_PLOT_COLOR : toColor(args[2]);
+            plot.title = toText(args[1], plot.title);
+            plot.linewidth = args[3] === undefined ? plot.linewidth : Math.max(1, toNumber(args[3]) || 1);
+            plot.style = PLOT_STYLES.includes(args[4] as PinePlotStyle) ? args[4] as PinePlotStyle : plot.style;
+            plot.offset = Math.floor(toNumber(args[7])) || 0;
+            return { type: 'plot', index };
+        },
+    }],
+    ['plotshape', {
+        params: OUTPUT_PARAMS.plotshape,
+        call: (args, context) => {
+            const shapes = context.output.shapes[context.outputIndex()];
+            shapes.style = SHAPES.includes(args[2] as string) ? args[2] as string : shapes.style;
+            writeShape(shapes, args[0], args[1], args[3], args[4], args[5], args[6], args[9], context);
+            return NaN;
+        },
+    }],
+    ['plotchar', {
+        params: OUTPUT_PARAMS.plotchar,
+        call: (args, context) => {
+            const shapes = context.output.shapes[context.outputIndex()];
+            shapes.style = 'char';
+            shapes.char = toText(args[2], shapes.char) || shapes.char;
+            writeShape(shapes, args[0], args[1], args[3], args[4], args[5], args[6], args[9], context);
+            return NaN;
+        },
+    }],
+    ['hline', {
+        params: OUTPUT_PARAMS.hline,
+        call: (args, context) => {
+            const index = context.outputIndex();
+            const line = context.output.hlines[index];
+            line.price = toNumber(args[0]);
+            line.title = toText(args[1], line.title);
+            line.color = args[2] === undefined ? DEFAULT_HLINE_COLOR : toColor(args[2]);
+            line.linestyle = LINE_STYLES.includes(args[3] as PineLineStyle) ? args[3] as PineLineStyle : line.linestyle;
+            line.linewidth = args[4] === undefined ? line.linewidth : Math.max(1, toNumber(args[4]) || 1);
+            return { type: 'hline', index };
+        },
+    }],
+    ['fill', {
+        params: OUTPUT_PARAMS.fill,
+        call: (args, context) => {
+            const from = args[0];
+            const to = args[1];
+            if (!isOutputRef(from) || !isOutputRef(to) || from.type !== to.type) {
+                fail(context, 'fill() connects two plots or two hlines');
+            }
+            const fill = context.output.fills[context.outputIndex()];
+            fill.from = from;
+            fill.to = to;
+            fill.title = toText(args[3], fill.title);
+            fill.colors[context.bar] = args[2] === undefined ? DEFAULT_FILL_COLOR : toColor(args[2]);
+            return NaN;
+        },
+    }],
+    ['bgcolor', {
+        params: OUTPUT_PARAMS.bgcolor,
+        call: (args, context) => {
+            const background = context.output.backgrounds[context.outputIndex()];
+            background.colors[context.bar] = toColor(args[0]);
+            background.offset = Math.floor(toNumber(args[1])) || 0;
+            return NaN;
+        },
+    }],
+
+    // --- na handling and conversions ---
+
+    ['na', { params: ['x'], call: args => isNa(args[0]) }],
+    ['nz', {
+        params: ['source', 'replacement'],
+        call: args => (isNa(args[0]) ? (args[1] === undefined ? 0 : args[1]) : args[0]!),
+    }],
+    ['fixnan', {
+        params: ['source'],
+        call: (args, context) => {
+            const last = context.state().push('last', NaN);
+            const value = toNumber(args[0]);
+            last[last.length - 1] = isNaN(value) ? back(last, 1) : value;
+            return last[last.length - 1];
+        },
+    }],
+    ['int', { params: ['x'], call: args => Math.trunc(toNumber(args[0])) }],
+    ['float', { params: ['x'], call: args => toNumber(args[0]) }],
+    ['bool', { params: ['x'], call: args => toBool(args[0]) }],
+    ['str.tostring', { params: ['value', 'format'], call: args => formatValue(args[0], args[1]) }],
+
+    // --- Colors ---
+
+    ['color.new', {
+        params: ['color', 'transp'],
+        call: args => {
+            const color = typeof args[0] === 'string' ? parseColor(args[0]) : null;
+            return color ? rgba(color[0], color[1], color[2], opacity(args[1])) : NaN;
+        },
+    }],
+    ['color.rgb', {
+        params: ['red', 'green', 'blue', 'transp'],
+        call: args => rgba(toNumber(args[0]), toNumber(args[1]), toNumber(args[2]), opacity(args[3])),
+    }],
+    ['color.from_gradient', {
+        params: ['value', 'bottom_value', 'top_value', 'bottom_color', 'top_color'],
+        call: args => {
+            const bottom = typeof args[3] === 'string' ? parseColor(args[3]) : null;
+            const top = typeof args[4] === 'string' ? parseColor(args[4]) : null;
+            const value = toNumber(args[0]);
+            if (!bottom || !top || isNaN(value)) return NaN;
+            const range = toNumber(args[2]) - toNumber(args[1]);
+            const t = range === 0 ? 1 : Math.min(1, Math.max(0, (value - toNumber(args[1])) / range));
+            return rgba(
+                bottom[0] + (top[0] - bottom[0]) * t,
+                bottom[1] + (top[1] - bottom[1]) * t,
+                bottom[2] + (top[2] - bottom[2]) * t,
+                bottom[3] + (top[3] - bottom[3]) * t
+            );
+        },
+    }],
+
+    // --- math.* ---
+
+    ['math.abs', math1(Math.abs)],
+    ['math.sqrt', math1(Math.sqrt)],
+    ['math.log', math1(Math.log)],
+    ['math.log10', math1(Math.log10)],
+    ['math.exp', math1(Math.exp)],
+    ['math.floor', math1(Math.floor)],
+    ['math.ceil', math1(Math.ceil)],
+    ['math.sign', math1(Math.sign)],
+    ['math.sin', math1(Math.sin)],
+    ['math.cos', math1(Math.cos)],
+    ['math.tan', math1(Math.tan)],
+    ['math.asin', math1(Math.asin)],
+    ['math.acos', math1(Math.acos)],
+    ['math.atan', math1(Math.atan)],
+    ['math.todegrees', math1(x => x * 180 / Math.PI)],
+    ['math.toradians', math1(x => x * Math.PI / 180)],
+    ['math.pow', { params: ['base', 'exponent'], call: args => finite(Math.pow(toNumber(args[0]), toNumber(args[1]))) }],
+    ['math.round', {
+        params: ['number', 'precision'],
+        call: args => {
+            const factor = Math.pow(10, Math.floor(toNumber(args[1])) || 0);
+            return Math.round(toNumber(args[0]) * factor) / factor;
+        },
+    }],
+    ['math.max', variadic(values => Math.max(...values))],
+    ['math.min', variadic(values => Math.min(...values))],
+    ['math.avg', variadic(average)],
+    ['math.sum', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            return values ? values.reduce((sum, value) => sum + value, 0) : NaN;
+        },
+    }],
+
+    // --- ta.* ---
+
+    ['ta.sma', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            return values ? average(values) : NaN;
+        },
+    }],
+    ['ta.ema', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            return smoothed(context.state(), 'ema', toNumber(args[0]), size, 2 / (size + 1));
+        },
+    }],
+    ['ta.rma', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            return smoothed(context.state(), 'rma', toNumber(args[0]), size, 1 / size);
+        },
+    }],
+    ['ta.wma', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => weightedAverage(window(context.state().push('src', toNumber(args[0])), length(context, args[1]))),
+    }],
+    ['ta.vwma', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            const state = context.state();
+            const volume = context.bars[context.bar].volume ?? NaN;
+            const weighted = window(state.push('pv', toNumber(args[0]) * volume), size);
+            const volumes = window(state.push('v', volume), size);
+            if (!weighted || !volumes) return NaN;
+            return finite(weighted.reduce((a, b) => a + b, 0) / volumes.reduce((a, b) => a + b, 0));
+        },
+    }],
+    ['ta.hma', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            if (size < 2) fail(context, `'length' must be at least 2, got ${size}`);
+            const state = context.state();
+            const source = state.push('src', toNumber(args[0]));
+            const half = weightedAverage(window(source, Math.floor(size / 2)));
+            const full = weightedAverage(window(source, size));
+            const diff = state.push('diff', 2 * half - full);
+            return weightedAverage(window(diff, Math.floor(Math.sqrt(size))));
+        },
+    }],
+    ['ta.rsi', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            const state = context.state();
+            const source = state.push('src', toNumber(args[0]));
+            const change = back(source, 0) - back(source, 1);
+            const up = smoothed(state, 'up', Math.max(change, 0), size, 1 / size);
+            const down = smoothed(state, 'down', Math.max(-change, 0), size, 1 / size);
+            if (isNaN(up) || isNaN(down)) return NaN;
+            if (down === 0) return 100;
+            if (up === 0) return 0;
+            return 100 - 100 / (1 + up / down);
+        },
+    }],
+    ['ta.tr', {
+        params: ['handle_na'],
+        call: (args, context) => trueRange(context.bars, context.bar, toBool(args[0])),
+    }],
+    ['ta.atr', {
+        params: ['length'],
+        call: (args, context) => {
+            const size = length(context, args[0]);
+            return smoothed(context.state(), 'atr', trueRange(context.bars, context.bar, true), size, 1 / size);
+        },
+    }],
+    ['ta.stdev', {
+        params: [...SOURCE_LENGTH, 'biased'],
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            return values ? Math.sqrt(variance(values, args[2] === undefined || toBool(args[2]))) : NaN;
+        },
+    }],
+    ['ta.variance', {
+        params: [...SOURCE_LENGTH, 'biased'],
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            return values ? variance(values, args[2] === undefined || toBool(args[2])) : NaN;
+        },
+    }],
+    ['ta.dev', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            return values ? meanDeviation(values) : NaN;
+        },
+    }],
+    ['ta.highest', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const [source, size] = args[1] === undefined ? [context.bars[context.bar].high, args[0]] : [args[0], args[1]];
+            const values = window(context.state().push('src', toNumber(source)), length(context, size));
+            return values ? Math.max(...values) : NaN;
+        },
+    }],
+    ['ta.lowest', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const [source, size] = args[1] === undefined ? [context.bars[context.bar].low, args[0]] : [args[0], args[1]];
+            const values = window(context.state().push('src', toNumber(source)), length(context, size));
+            return values ? Math.min(...values) : NaN;
+        },
+    }],
+    ['ta.highestbars', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const [source, size] = args[1] === undefined ? [context.bars[context.bar].high, args[0]] : [args[0], args[1]];
+            const offset = extremeOffset(window(context.state().push('src', toNumber(source)), length(context, size)), 1);
+            return offset < 0 ? NaN : -offset;
+        },
+    }],
+    ['ta.lowestbars', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const [source, size] = args[1] === undefined ? [context.bars[context.bar].low, args[0]] : [args[0], args[1]];
+            const offset = extremeOffset(window(context.state().push('src', toNumber(source)), length(context, size)), -1);
+            return offset < 0 ? NaN : -offset;
+        },
+    }],
+    ['ta.change', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = args[1] === undefined ? 1 : length(context, args[1]);
+            const source = context.state().push('src', toNumber(args[0]));
+            return back(source, 0) - back(source, size);
+        },
+    }],
+    ['ta.mom', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            const source = context.state().push('src', toNumber(args[0]));
+            return back(source, 0) - back(source, size);
+        },
+    }],
+    ['ta.roc', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const size = length(context, args[1]);
+            const source = context.state().push('src', toNumber(args[0]));
+            const previous = back(source, size);
+            return finite(100 * (back(source, 0) - previous) / previous);
+        },
+    }],
+    ['ta.cum', {
+        params: ['source'],
+        call: (args, context) => {
+            const state = context.state();
+            const total = back(state.series('sum'), 0);
+            const value = toNumber(args[0]);
+            return back(state.push('sum', (isNaN(total) ? 0 : total) + (isNaN(value) ? 0 : value)), 0);
+        },
+    }],
+    ['ta.crossover', { params: ['source1', 'source2'], call: (args, context) => cross(context, args[0], args[1]).above }],
+    ['ta.crossunder', { params: ['source1', 'source2'], call: (args, context) => cross(context, args[0], args[1]).below }],
+    ['ta.cross', {
+        params: ['source1', 'source2'],
+        call: (args, context) => {
+            const result = cross(context, args[0], args[1]);
+            return result.above || result.below;
+        },
+    }],
+    ['ta.rising', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]) + 1);
+            return values !== null && values.slice(0, -1).every(value => values[values.length - 1] > value);
+        },
+    }],
+    ['ta.falling', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]) + 1);
+            return values !== null && values.slice(0, -1).every(value => values[values.length - 1] < value);
+        },
+    }],
+    ['ta.macd', {
+        params: ['source', 'fastlen', 'slowlen', 'siglen'],
+        call: (args, context) => {
+            const fast = length(context, args[1], 'fastlen');
+            const slow = length(context, args[2], 'slowlen');
+            const signalLength = length(context, args[3], 'siglen');
+            const state = context.state();
+            const source = toNumber(args[0]);
+            const macd = smoothed(state, 'fast', source, fast, 2 / (fast + 1)) - smoothed(state, 'slow', source, slow, 2 / (slow + 1));
+            const signal = smoothed(state, 'signal', macd, signalLength, 2 / (signalLength + 1));
+            return [macd, signal, macd - signal];
+        },
+    }],
+    ['ta.bb', {
+        params: ['series', 'length', 'mult'],
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            if (!values) return [NaN, NaN, NaN];
+            const basis = average(values);
+            const deviation = Math.sqrt(variance(values)) * toNumber(args[2]);
+            return [basis, basis + deviation, basis - deviation];
+        },
+    }],
+    ['ta.stoch', {
+        params: ['source', 'high', 'low', 'length'],
+        call: (args, context) => {
+            const size = length(context, args[3]);
+            const state = context.state();
+            const highs = window(state.push('high', toNumber(args[1])), size);
+            const lows = window(state.push('low', toNumber(args[2])), size);
+            if (!highs || !lows) return NaN;
+            const lowest = Math.min(...lows);
+            return finite(100 * (toNumber(args[0]) - lowest) / (Math.max(...highs) - lowest));
+        },
+    }],
+    ['ta.cci', {
+        params: SOURCE_LENGTH,
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            if (!values) return NaN;
+            return finite((values[values.length - 1] - average(values)) / (0.015 * meanDeviation(values)));
+        },
+    }],
+    ['ta.barssince', {
+        params: ['condition'],
+        call: (args, context) => {
+            const state = context.state();
+            const previous = back(state.series('count'), 0);
+            return back(state.push('count', toBool(args[0]) ? 0 : previous + 1), 0);
+        },
+    }],
+    ['ta.valuewhen', {
+        params: ['condition', 'source', 'occurrence'],
+        call: (args, context) => {
+            const state = context.state();
+            const hits = toBool(args[0]) ? state.push('hits', toNumber(args[1])) : state.series('hits');
+            return back(hits, Math.max(0, Math.floor(toNumber(args[2])) || 0));
+        },
+    }],
+    ['ta.pivothigh', { params: ['source', 'leftbars', 'rightbars'], call: (args, context) => pivot(args, context, 'high', 1) }],
+    ['ta.pivotlow', { params: ['source', 'leftbars', 'rightbars'], call: (args, context) => pivot(args, context, 'low', -1) }],
+    ['ta.linreg', {
+        params: ['source', 'length', 'offset'],
+        call: (args, context) => {
+            const values = window(context.state().push('src', toNumber(args[0])), length(context, args[1]));
+            if (!values) return NaN;
+            const n = values.length;
+            let sumX = 0;
+            let sumY = 0;
+            let sumXY = 0;
+            let sumXX = 0;
+            for (let i = 0; i < n; i++) {
+                sumX += i;
+                sumY += values[i];
+                sumXY += i * values[i];
+                sumXX += i * i;
+            }
+            const slope = finite((n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX)) || 0;
+            const intercept = (sumY - slope * sumX) / n;
+            return intercept + slope * (n - 1 - (toNumber(args[2]) || 0));
+        },
+    }],
+]);
+
+function isOutputRef(value: Argument): value is PineOutputRef {
+    return typeof value === 'object' && !Array.isArray(value) && (value.type === 'plot' || value.type === 'hline');
+}
+
+function writeShape(
+    shapes: PineOutput['shapes'][number],
+    series: Argument,
+    title: Argument,
+    location: Argument,
+    color: Argument,
+    offset: Argument,
+    text: Argument,
+    size: Argument,
+    context: BuiltinContext
+): void {
+    shapes.title = toText(title, shapes.title);
+    shapes.location = LOCATIONS.includes(location as PineShapeLocation) ? location as PineShapeLocation : shapes.location;
+    shapes.size = SIZES.includes(size as PineShapeSize) ? size as PineShapeSize : shapes.size;
+    shapes.text = toText(text, shapes.text);
+    shapes.offset = Math.floor(toNumber(offset)) || 0;
+
+    const shown = typeof series === 'boolean' ? series : !isNa(series);
+    shapes.values[context.bar] = !shown ? NaN : shapes.location === 'absolute' ? toNumber(series) : 1;
+    shapes.colors[context.bar] = color === undefined ? DEFAULT_PLOT_COLOR : toColor(color);
+}
+
+function formatValue(value: Argument, format: Argument): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return String(value);
+    const number = toNumber(value);
+    if (isNaN(number)) return 'NaN';
+    if (typeof format === 'string') {
+        const decimals = /\.([#0]+)/.exec(format);
+        return number.toFixed(decimals ? decimals[1].length : 0);
+    }
+    return String(Math.round(number * 1e8) / 1e8);
+}
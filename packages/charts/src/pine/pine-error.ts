@@ -0,0 +1,23 @@
+/**
+ * Pine Script error with the source position it refers to
+ */
+
+export type PineErrorKind = 'syntax' | 'runtime';
+
+export class PineError extends Error {
+    readonly kind: PineErrorKind;
+    /** The message without the position */
+    readonly description: string;
+    /** 1-based, 0 when the error has no position */
+    readonly line: number;
+    readonly column: number;
+
+    constructor(kind: PineErrorKind, description: string, line: number = 0, column: number = 0) {
+        super(line > 0 ? `${description} (line ${line}:${column})` : description);
+        this.name = 'PineError';
+        this.kind = kind;
+        this.description = description;
+        this.line = line;
+        this.column = column;
+    }
+}
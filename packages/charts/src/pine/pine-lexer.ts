@@ -0,0 +1,217 @@
+/**
+ * Pine Script tokenizer
+ *
+ * Blocks are indentation based like Python: a deeper line (by a multiple of 4
+ * spaces or a tab) opens a block, a line indented by anything else or
+ * following an operator, comma or open bracket continues the previous line.
+ */
+
+import { PineError } from './pine-error';
+
+export type TokenType =
+    | 'number'
+    | 'string'
+    | 'color'
+    | 'identifier'
+    | 'keyword'
+    | 'operator'
+    | 'newline'
+    | 'indent'
+    | 'dedent'
+    | 'eof';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    line: number;
+    column: number;
+}
+
+export interface LexResult {
+    tokens: Token[];
+    /** `//@version=N`, 0 when missing */
+    version: number;
+}
+
+const KEYWORDS = new Set([
+    'if', 'else', 'for', 'to', 'by', 'while', 'var', 'varip',
+    'and', 'or', 'not', 'true', 'false', 'break', 'continue',
+]);
+
+/** Longest first so `:=` wins over `:` */
+const OPERATORS = [
+    ':=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '=>',
+    '<', '>', '=', '+', '-', '*', '/', '%', '?', ':', ',', '(', ')', '[', ']',
+];
+
+/** A line ending with one of these continues on the next line */
+const CONTINUING_OPERATORS = new Set([
+    '+', '-', '*', '/', '%', '==', '!=', '<', '<=', '>', '>=', '?', ':', ',', '(', '[',
+    'and', 'or', 'not',
+]);
+
+const INDENT_WIDTH = 4;
+
+export function tokenize(source: string): LexResult {
+    const tokens: Token[] = [];
+    const indents: number[] = [0];
+    let version = 0;
+    let depth = 0;
+    let lineHasTokens = false;
+
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        const text = lines[lineIndex];
+        const line = lineIndex + 1;
+
+        const versionMatch = /^\s*\/\/\s*@version\s*=\s*(\d+)/.exec(text);
+        if (versionMatch) {
+            version = parseInt(versionMatch[1], 10);
+            continue;
+        }
+
+        let indent = 0;
+        let pos = 0;
+        while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t')) {
+            indent += text[pos] === '\t' ? INDENT_WIDTH : 1;
+            pos++;
+        }
+
+        // Blank and comment-only lines don't affect blocks
+        if (pos >= text.length || text.startsWith('//', pos)) continue;
+
+        const last = tokens[tokens.length - 1];
+        const continuesLast = lineHasTokens && last && (
+            depth > 0 ||
+            ((last.type === 'operator' || last.type === 'keyword') && CONTINUING_OPERATORS.has(last.value))
+        );
+        const top = indents[indents.length - 1];
+
+        if (!continuesLast) {
+            if (indent > top && (indent - top) % INDENT_WIDTH !== 0 && lineHasTokens) {
+                // Wrapped line
+            } else {
+                if (lineHasTokens) {
+                    tokens.push({ type: 'newline', value: '\n', line: last.line, column: last.column + last.value.length });
+                }
+
+                if (indent > top) {
+                    if (!lineHasTokens) {
+                        throw new PineError('syntax', 'Unexpected indentation', line, pos + 1);
+                    }
+                    indents.push(indent);
+                    tokens.push({ type: 'indent', value: '', line, column: 1 });
+                } else {
+                    while (indent < indents[indents.length - 1]) {
+                        indents.pop();
+                        tokens.push({ type: 'dedent', value: '', line, column: 1 });
+                    }
+                    if (indent !== indents[indents.length - 1]) {
+                        throw new PineError('syntax', 'Inconsistent indentation', line, pos + 1);
+                    }
+                }
+            }
+        }
+
+        depth = scanLine(text, pos, line, tokens, depth);
+        lineHasTokens = true;
+    }
+
+    const last = tokens[tokens.length - 1];
+    if (last) {
+        tokens.push({ type: 'newline', value: '\n', line: last.line, column: last.column + last.value.length });
+    }
+    while (indents.length > 1) {
+        indents.pop();
+        tokens.push({ type: 'dedent', value: '', line: lines.length, column: 1 });
+    }
+    tokens.push({ type: 'eof', value: '', line: lines.length, column: 1 });
+
+    return { tokens, version };
+}
+
+/**
+ * Tokens of one line from pos on
+ * @returns bracket depth at the end of the line
+ */
+function scanLine(text: string, pos: number, line: number, tokens: Token[], depth: number): number {
+    while (pos < text.length) {
+        const ch = text[pos];
+        const column = pos + 1;
+
+        if (ch === ' ' || ch === '\t') {
+            pos++;
+            continue;
+        }
+
+        if (text.startsWith('//', pos)) break;
+
+        // Numbers: 1, 1.5, .5, 1e-3
+        if (isDigit(ch) || (ch === '.' && isDigit(text[pos + 1]))) {
+            const match = /^(\d*\.?\d+(?:[eE][+-]?\d+)?|\d+\.(?:[eE][+-]?\d+)?)/.exec(text.slice(pos));
+            const value = match![1];
+            tokens.push({ type: 'number', value, line, column });
+            pos += value.length;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let value = '';
+            let end = pos + 1;
+            while (end < text.length && text[end] !== ch) {
+                if (text[end] === '\\' && end + 1 < text.length) {
+                    const next = text[end + 1];
+                    value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+                    end += 2;
+                } else {
+                    value += text[end++];
+                }
+            }
+            if (end >= text.length) {
+                throw new PineError('syntax', 'Unterminated string', line, column);
+            }
+            tokens.push({ type: 'string', value, line, column });
+            pos = end + 1;
+            continue;
+        }
+
+        if (ch === '#') {
+            const match = /^#([0-9a-fA-F]{8}|[0-9a-fA-F]{6})(?![0-9a-zA-Z_])/.exec(text.slice(pos));
+            if (!match) {
+                throw new PineError('syntax', 'Invalid color literal', line, column);
+            }
+            tokens.push({ type: 'color', value: match[0], line, column });
+            pos += match[0].length;
+            continue;
+        }
+
+        // Identifiers, namespaced ones such as ta.sma joined into one token
+        if (isIdentifierStart(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(text.slice(pos));
+            const value = match![0];
+            tokens.push({ type: KEYWORDS.has(value) ? 'keyword' : 'identifier', value, line, column });
+            pos += value.length;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => text.startsWith(op, pos));
+        if (!operator) {
+            throw new PineError('syntax', `Unexpected character '${ch}'`, line, column);
+        }
+        if (operator === '(' || operator === '[') depth++;
+        if (operator === ')' || operator === ']') depth = Math.max(0, depth - 1);
+        tokens.push({ type: 'operator', value: operator, line, column });
+        pos += operator.length;
+    }
+
+    return depth;
+}
+
+function isDigit(ch: string | undefined): boolean {
+    return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+function isIdentifierStart(ch: string): boolean {
+    return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_';
+}
@@ -0,0 +1,124 @@
+/**
+ * Pine Script declarations, inputs and the outputs of a run
+ */
+
+export interface PineBar {
+    /** Unix ms, as Pine's `time` */
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    /** na when missing */
+    volume?: number;
+}
+
+/** From `indicator()` / `study()` */
+export interface PineDeclaration {
+    title: string;
+    shortTitle: string;
+    overlay: boolean;
+    /** Decimals of the plotted values, undefined uses the chart's */
+    precision?: number;
+}
+
+export type PineInputType = 'int' | 'float' | 'bool' | 'string' | 'source' | 'color';
+
+export type PineInputValue = number | boolean | string;
+
+/** An `input.*()` call, becomes a row in the indicator settings */
+export interface PineInputDefinition {
+    /** `in_0`, `in_1`... in order of appearance */
+    id: string;
+    type: PineInputType;
+    title: string;
+    defval: PineInputValue;
+    minval?: number;
+    maxval?: number;
+    step?: number;
+    options?: PineInputValue[];
+}
+
+export const PINE_SOURCES = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4', 'hlcc4'] as const;
+
+export type PinePlotStyle =
+    | 'line'
+    | 'linebr'
+    | 'stepline'
+    | 'histogram'
+    | 'columns'
+    | 'circles'
+    | 'cross'
+    | 'area'
+    | 'areabr';
+
+export interface PinePlot {
+    title: string;
+    style: PinePlotStyle;
+    linewidth: number;
+    /** Bars to shift the plot right (negative: left) */
+    offset: number;
+    /** Per bar, NaN for na */
+    values: number[];
+    /** Per bar, null hides the bar */
+    colors: (string | null)[];
+}
+
+export type PineShapeLocation = 'abovebar' | 'belowbar' | 'top' | 'bottom' | 'absolute';
+
+export type PineShapeSize = 'auto' | 'tiny' | 'small' | 'normal' | 'large' | 'huge';
+
+/** plotshape() and plotchar() */
+export interface PineShapes {
+    title: string;
+    /** A shape.* name, or 'char' for plotchar */
+    style: string;
+    char: string;
+    location: PineShapeLocation;
+    size: PineShapeSize;
+    text: string;
+    offset: number;
+    /** Per bar: NaN where no shape is drawn, the price for location.absolute, 1 otherwise */
+    values: number[];
+    colors: (string | null)[];
+}
+
+export type PineLineStyle = 'solid' | 'dotted' | 'dashed';
+
+export interface PineHLine {
+    title: string;
+    price: number;
+    color: string | null;
+    linestyle: PineLineStyle;
+    linewidth: number;
+}
+
+/** The result of plot() and hline(), what fill() connects */
+export interface PineOutputRef {
+    type: 'plot' | 'hline';
+    index: number;
+}
+
+export interface PineFill {
+    from: PineOutputRef;
+    to: PineOutputRef;
+    title: string;
+    /** Per bar */
+    colors: (string | null)[];
+}
+
+export interface PineBackground {
+    offset: number;
+    /** Per bar */
+    colors: (string | null)[];
+}
+
+/** Everything a script drew, arrays aligned with the bars it ran on */
+export interface PineOutput {
+    times: number[];
+    plots: PinePlot[];
+    shapes: PineShapes[];
+    hlines: PineHLine[];
+    fills: PineFill[];
+    backgrounds: PineBackground[];
+}
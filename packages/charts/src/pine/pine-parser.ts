@@ -0,0 +1,486 @@
+/**
+ * Pine Script parser - recursive descent over the tokens of pine-lexer
+ */
+
+import { PineError } from './pine-error';
+import { Token, tokenize } from './pine-lexer';
+import {
+    AssignmentOperator,
+    BinaryOperator,
+    CallExpression,
+    Expression,
+    FunctionDeclaration,
+    IfStatement,
+    Program,
+    SourcePosition,
+    Statement
+} from './pine-ast';
+
+/** Type keywords allowed before a declared name, e.g. `series float x = na` */
+const TYPE_NAMES = new Set(['int', 'float', 'bool', 'string', 'color', 'series', 'simple', 'const', 'input']);
+
+const ASSIGNMENT_OPERATORS = new Set([':=', '+=', '-=', '*=', '/=', '%=']);
+
+export function parse(source: string): Program {
+    const { tokens, version } = tokenize(source);
+    return new Parser(tokens).parseProgram(version);
+}
+
+class Parser {
+    private _pos: number = 0;
+    private _nextId: number = 1;
+
+    constructor(private readonly _tokens: Token[]) { }
+
+    parseProgram(version: number): Program {
+        const body: Statement[] = [];
+        while (!this._check('eof')) {
+            if (this._match('newline')) continue;
+            body.push(this._parseStatement());
+        }
+        return { body, version };
+    }
+
+    // --- Statements ---
+
+    private _parseStatement(): Statement {
+        const token = this._peek();
+
+        if (token.type === 'keyword') {
+            switch (token.value) {
+                case 'if':
+                    return this._parseIf();
+                case 'for':
+                    return this._parseFor();
+                case 'while': {
+                    this._advance();
+                    const condition = this._parseExpression();
+                    return { kind: 'while', condition, body: this._parseBlock(), ...position(token) };
+                }
+                case 'break':
+                case 'continue':
+                    this._advance();
+                    this._endOfStatement();
+                    return { kind: token.value, ...position(token) };
+                case 'var':
+                case 'varip':
+                    this._advance();
+                    return this._parseDeclaration(true, token);
+            }
+        }
+
+        if (token.type === 'identifier') {
+            if (this._isFunctionDeclaration()) {
+                return this._parseFunction();
+            }
+
+            const declared = this._declaredNameOffset();
+            if (declared !== null) {
+                return this._parseDeclaration(false, token);
+            }
+
+            const next = this._peek(1);
+            if (next.type === 'operator' && ASSIGNMENT_OPERATORS.has(next.value)) {
+                this._advance(2);
+                const value = this._parseExpression();
+                this._endOfStatement();
+                return {
+                    kind: 'assignment',
+                    name: token.value,
+                    operator: next.value as AssignmentOperator,
+                    value,
+                    ...position(token),
+                };
+            }
+        }
+
+        if (this._checkOperator('[') && this._isTupleDeclaration()) {
+            this._advance();
+            const names: string[] = [];
+            do {
+                names.push(this._expect('identifier').value);
+            } while (this._matchOperator(','));
+            this._expectOperator(']');
+            this._expectOperator('=');
+            const value = this._parseExpression();
+            this._endOfStatement();
+            return { kind: 'tupleDeclaration', id: this._nextId++, names, value, ...position(token) };
+        }
+
+        const expression = this._parseExpression();
+        this._endOfStatement();
+        return { kind: 'expression', expression, ...position(token) };
+    }
+
+    private _parseDeclaration(persistent: boolean, start: Token): Statement {
+        const offset = this._declaredNameOffset();
+        if (offset === null) {
+            throw this._error('Expected a variable declaration');
+        }
+        this._advance(offset);
+        const name = this._expect('identifier').value;
+        this._expectOperator('=');
+        const value = this._parseExpression();
+        this._endOfStatement();
+        return { kind: 'declaration', id: this._nextId++, name, persistent, value, ...position(start) };
+    }
+
+    private _parseIf(): IfStatement {
+        const token = this._advance();
+        const condition = this._parseExpression();
+        const consequent = this._parseBlock();
+
+        let alternate: Statement[] | null = null;
+        if (this._checkKeyword('else')) {
+            this._advance();
+            alternate = this._checkKeyword('if') ? [this._parseIf()] : this._parseBlock();
+        }
+
+        return { kind: 'if', condition, consequent, alternate, ...position(token) };
+    }
+
+    private _parseFor(): Statement {
+        const token = this._advance();
+        const variable = this._expect('identifier').value;
+        this._expectOperator('=');
+        const from = this._parseExpression();
+        this._expectKeyword('to');
+        const to = this._parseExpression();
+        const step = this._checkKeyword('by') ? (this._advance(), this._parseExpression()) : null;
+        const body = this._parseBlock();
+        return { kind: 'for', id: this._nextId++, variable, from, to, step, body, ...position(token) };
+    }
+
+    private _parseFunction(): FunctionDeclaration {
+        const token = this._advance();
+        this._expectOperator('(');
+        const params: FunctionDeclaration['params'] = [];
+        if (!this._checkOperator(')')) {
+            do {
+                // Type qualifiers of parameters are ignored
+                while (this._peek().type === 'identifier' && TYPE_NAMES.has(this._peek().value) && this._peek(1).type === 'identifier') {
+                    this._advance();
+                }
+                const name = this._expect('identifier').value;
+                const defaultValue = this._matchOperator('=') ? this._parseExpression() : null;
+                params.push({ name, defaultValue });
+            } while (this._matchOperator(','));
+        }
+        this._expectOperator(')');
+        this._expectOperator('=>');
+
+        let body: Statement[];
+        if (this._check('newline')) {
+            body = this._parseBlock();
+        } else {
+            const start = this._peek();
+            const expression = this._parseExpression();
+            this._endOfStatement();
+            body = [{ kind: 'expression', expression, ...position(start) }];
+        }
+
+        return { kind: 'function', name: token.value, params, body, ...position(token) };
+    }
+
+    /** NEWLINE INDENT statement+ DEDENT */
+    private _parseBlock(): Statement[] {
+        this._expect('newline');
+        this._expect('indent');
+        const body: Statement[] = [];
+        while (!this._check('dedent') && !this._check('eof')) {
+            if (this._match('newline')) continue;
+            body.push(this._parseStatement());
+        }
+        this._expect('dedent');
+        return body;
+    }
+
+    private _endOfStatement(): void {
+        if (this._check('dedent') || this._check('eof')) return;
+        if (!this._match('newline')) {
+            throw this._error(`Unexpected ${describe(this._peek())}`);
+        }
+    }
+
+    // --- Lookahead ---
+
+    /** `name(...) =>` */
+    private _isFunctionDeclaration(): boolean {
+        if (!(this._peek(1).type === 'operator' && this._peek(1).value === '(')) return false;
+        const close = this._findClosing(this._pos + 1);
+        const after = close === null ? undefined : this._tokens[close + 1];
+        return after !== undefined && after.type === 'operator' && after.value === '=>';
+    }
+
+    /** `[a, b] =` */
+    private _isTupleDeclaration(): boolean {
+        const close = this._findClosing(this._pos);
+        const after = close === null ? undefined : this._tokens[close + 1];
+        return after !== undefined && after.type === 'operator' && after.value === '=';
+    }
+
+    /** Tokens to skip to the declared name of `[type...] name =`, null when not a declaration */
+    private _declaredNameOffset(): number | null {
+        let offset = 0;
+        while (
+            this._peek(offset).type === 'identifier' &&
+            TYPE_NAMES.has(this._peek(offset).value) &&
+            this._peek(offset + 1).type === 'identifier'
+        ) {
+            offset++;
+        }
+        const name = this._peek(offset);
+        const next = this._peek(offset + 1);
+        if (name.type === 'identifier' && next.type === 'operator' && next.value === '=') {
+            return offset;
+        }
+        return null;
+    }
+
+    private _findClosing(open: number): number | null {
+        let depth = 0;
+        for (let i = open; i < this._tokens.length; i++) {
+            const token = this._tokens[i];
+            if (token.type !== 'operator') {
+                if (token.type === 'newline' && depth === 0) return null;
+                continue;
+            }
+            if (token.value === '(' || token.value === '[') depth++;
+            if (token.value === ')' || token.value === ']') {
+                depth--;
+                if (depth === 0) return i;
+            }
+        }
+        return null;
+    }
+
+    // --- Expressions ---
+
+    private _parseExpression(): Expression {
+        return this._parseTernary();
+    }
+
+    private _parseTernary(): Expression {
+        const condition = this._parseBinary(0);
+        if (!this._checkOperator('?')) return condition;
+
+        this._advance();
+        const consequent = this._parseTernary();
+        this._expectOperator(':');
+        const alternate = this._parseTernary();
+        return { kind: 'ternary', condition, consequent, alternate, line: condition.line, column: condition.column };
+    }
+
+    private _parseBinary(level: number): Expression {
+        if (level >= BINARY_LEVELS.length) return this._parseUnary();
+
+        let left = this._parseBinary(level + 1);
+        for (;;) {
+            const token = this._peek();
+            if ((token.type !== 'operator' && token.type !== 'keyword') || !BINARY_LEVELS[level].includes(token.value)) {
+                return left;
+            }
+            this._advance();
+            const right = this._parseBinary(level + 1);
+            left = {
+                kind: 'binary',
+                operator: token.value as BinaryOperator,
+                left,
+                right,
+                ...position(token),
+            };
+        }
+    }
+
+    private _parseUnary(): Expression {
+        const token = this._peek();
+        if ((token.type === 'operator' && (token.value === '-' || token.value === '+')) || (token.type === 'keyword' && token.value === 'not')) {
+            this._advance();
+            const operand = this._parseUnary();
+            return { kind: 'unary', operator: token.value as '-' | '+' | 'not', operand, ...position(token) };
+        }
+        return this._parsePostfix();
+    }
+
+    private _parsePostfix(): Expression {
+        let expression = this._parsePrimary();
+        while (this._checkOperator('[')) {
+            const token = this._advance();
+            const offset = this._parseExpression();
+            this._expectOperator(']');
+            expression = { kind: 'history', target: expression, offset, ...position(token) };
+        }
+        return expression;
+    }
+
+    private _parsePrimary(): Expression {
+        const token = this._peek();
+
+        switch (token.type) {
+            case 'number':
+                this._advance();
+                return { kind: 'number', value: parseFloat(token.value), ...position(token) };
+            case 'string':
+                this._advance();
+                return { kind: 'string', value: token.value, ...position(token) };
+            case 'color':
+                this._advance();
+                return { kind: 'color', value: token.value, ...position(token) };
+            case 'keyword':
+                if (token.value === 'true' || token.value === 'false') {
+                    this._advance();
+                    return { kind: 'bool', value: token.value === 'true', ...position(token) };
+                }
+                break;
+            case 'identifier':
+                this._advance();
+                if (this._checkOperator('(')) {
+                    return this._parseCall(token);
+                }
+                if (token.value === 'na') {
+                    return { kind: 'na', ...position(token) };
+                }
+                return { kind: 'identifier', name: token.value, ...position(token) };
+            case 'operator':
+                if (token.value === '(') {
+                    this._advance();
+                    const expression = this._parseExpression();
+                    this._expectOperator(')');
+                    return expression;
+                }
+                if (token.value === '[') {
+                    this._advance();
+                    const elements: Expression[] = [];
+                    if (!this._checkOperator(']')) {
+                        do {
+                            elements.push(this._parseExpression());
+                        } while (this._matchOperator(','));
+                    }
+                    this._expectOperator(']');
+                    return { kind: 'tuple', elements, ...position(token) };
+                }
+                break;
+        }
+
+        throw this._error(`Unexpected ${describe(token)}`);
+    }
+
+    private _parseCall(callee: Token): CallExpression {
+        this._expectOperator('(');
+        const args: Expression[] = [];
+        const namedArgs: Record<string, Expression> = {};
+
+        if (!this._checkOperator(')')) {
+            do {
+                if (this._peek().type === 'identifier' && this._peek(1).type === 'operator' && this._peek(1).value === '=') {
+                    const name = this._advance().value;
+                    this._advance();
+                    namedArgs[name] = this._parseExpression();
+                } else {
+                    if (Object.keys(namedArgs).length > 0) {
+                        throw this._error('Positional arguments must come before named ones');
+                    }
+                    args.push(this._parseExpression());
+                }
+            } while (this._matchOperator(','));
+        }
+        this._expectOperator(')');
+
+        return { kind: 'call', id: this._nextId++, callee: callee.value, args, namedArgs, ...position(callee) };
+    }
+
+    // --- Token helpers ---
+
+    private _peek(offset: number = 0): Token {
+        return this._tokens[Math.min(this._pos + offset, this._tokens.length - 1)];
+    }
+
+    private _advance(count: number = 1): Token {
+        const token = this._peek();
+        this._pos = Math.min(this._pos + count, this._tokens.length - 1);
+        return token;
+    }
+
+    private _check(type: Token['type']): boolean {
+        return this._peek().type === type;
+    }
+
+    private _match(type: Token['type']): boolean {
+        if (!this._check(type)) return false;
+        this._advance();
+        return true;
+    }
+
+    private _checkOperator(value: string): boolean {
+        const token = this._peek();
+        return token.type === 'operator' && token.value === value;
+    }
+
+    private _matchOperator(value: string): boolean {
+        if (!this._checkOperator(value)) return false;
+        this._advance();
+        return true;
+    }
+
+    private _checkKeyword(value: string): boolean {
+        const token = this._peek();
+        return token.type === 'keyword' && token.value === value;
+    }
+
+    private _expect(type: Token['type']): Token {
+        if (!this._check(type)) {
+            throw this._error(`Expected ${TOKEN_NAMES[type]}`);
+        }
+        return this._advance();
+    }
+
+    private _expectOperator(value: string): Token {
+        if (!this._checkOperator(value)) {
+            throw this._error(`Expected '${value}'`);
+        }
+        return this._advance();
+    }
+
+    private _expectKeyword(value: string): Token {
+        if (!this._checkKeyword(value)) {
+            throw this._error(`Expected '${value}'`);
+        }
+        return this._advance();
+    }
+
+    private _error(message: string): PineError {
+        const token = this._peek();
+        return new PineError('syntax', message, token.line, token.column);
+    }
+}
+
+/** Lowest precedence first */
+const BINARY_LEVELS: string[][] = [
+    ['or'],
+    ['and'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+const TOKEN_NAMES: Record<Token['type'], string> = {
+    number: 'a number',
+    string: 'a string',
+    color: 'a color',
+    identifier: 'a name',
+    keyword: 'a keyword',
+    operator: 'an operator',
+    newline: 'end of line',
+    indent: 'an indented block',
+    dedent: 'end of block',
+    eof: 'end of script',
+};
+
+function describe(token: Token): string {
+    return token.value.trim() ? `'${token.value}'` : TOKEN_NAMES[token.type];
+}
+
+function position(token: Token): SourcePosition {
+    return { line: token.line, column: token.column };
+}
@@ -0,0 +1,834 @@
+/**
+ * Pine Script runtime
+ *
+ * compilePine() parses a script and reads its declaration, inputs and outputs;
+ * PineScript.run() interprets it bar by bar. Variables keep one value per bar
+ * for `x[n]`, `var` variables carry their value over to the next bar, and every
+ * call of a user function gets its own variables and ta.* state, keyed by the
+ * chain of call sites leading to it.
+ */
+
+import {
+    CallExpression,
+    Expression,
+    FunctionDeclaration,
+    HistoryExpression,
+    Program,
+    SourcePosition,
+    Statement,
+} from './pine-ast';
+import { PineError } from './pine-error';
+import { parse } from './pine-parser';
+import {
+    BuiltinContext,
+    CallState,
+    CONSTANTS,
+    DECLARATION_PARAMS,
+    finite,
+    FUNCTIONS,
+    INPUT_FUNCTIONS,
+    PineValue,
+    sourceValue,
+    toBool,
+    toNumber,
+    VARIABLES,
+} from './pine-builtins';
+import {
+    PINE_SOURCES,
+    PineBar,
+    PineDeclaration,
+    PineInputDefinition,
+    PineInputType,
+    PineInputValue,
+    PineOutput,
+} from './pine-output';
+
+/** Iterations of a single loop on one bar before the script is stopped */
+const MAX_LOOP_ITERATIONS = 100000;
+
+const MAX_CALL_DEPTH = 100;
+
+type OutputKind = 'plots' | 'shapes' | 'hlines' | 'fills' | 'backgrounds';
+
+const OUTPUT_KINDS: Record<string, OutputKind> = {
+    plot: 'plots',
+    plotshape: 'shapes',
+    plotchar: 'shapes',
+    hline: 'hlines',
+    fill: 'fills',
+    bgcolor: 'backgrounds',
+};
+
+interface Analysis {
+    declaration: PineDeclaration;
+    inputs: PineInputDefinition[];
+    functions: Map<string, FunctionDeclaration>;
+    /** Call id of input.*() to its input */
+    inputCalls: Map<number, PineInputDefinition>;
+    /** Call id of plot(), hline()... to its output */
+    outputCalls: Map<number, { kind: OutputKind; index: number }>;
+    outputCounts: Record<OutputKind, number>;
+}
+
+/**
+ * A compiled script
+ */
+export class PineScript {
+    readonly source: string;
+    readonly program: Program;
+    private readonly _analysis: Analysis;
+
+    /**
+     * @throws PineError on syntax errors, unknown functions and misplaced declarations
+     */
+    constructor(source: string) {
+        this.source = source;
+        this.program = parse(source);
+        this._analysis = analyze(this.program);
+    }
+
+    get declaration(): PineDeclaration {
+        return this._analysis.declaration;
+    }
+
+    get inputs(): readonly PineInputDefinition[] {
+        return this._analysis.inputs;
+    }
+
+    /**
+     * Run the script over all bars
+     * @param inputValues - By input id, missing ones use the script's defaults
+     * @throws PineError on runtime errors
+     */
+    run(bars: readonly PineBar[], inputValues: Record<string, PineInputValue> = {}): PineOutput {
+        return new Interpreter(this.program, this._analysis, bars, inputValues).run();
+    }
+}
+
+export function compilePine(source: string): PineScript {
+    return new PineScript(source);
+}
+
+// --- Compile-time analysis ---
+
+function syntaxError(message: string, node: SourcePosition): PineError {
+    return new PineError('syntax', message, node.line, node.column);
+}
+
+function analyze(program: Program): Analysis {
+    const analysis: Analysis = {
+        declaration: { title: '', shortTitle: '', overlay: false },
+        inputs: [],
+        functions: new Map(),
+        inputCalls: new Map(),
+        outputCalls: new Map(),
+        outputCounts: { plots: 0, shapes: 0, hlines: 0, fills: 0, backgrounds: 0 },
+    };
+    let declared = false;
+
+    for (const statement of program.body) {
+        if (statement.kind === 'function') {
+            if (analysis.functions.has(statement.name) || FUNCTIONS.has(statement.name)) {
+                throw syntaxError(`Function '${statement.name}' is already defined`, statement);
+            }
+            analysis.functions.set(statement.name, statement);
+        }
+    }
+
+    const visitCall = (call: CallExpression, local: boolean, topLevelStatement: boolean) => {
+        const name = call.callee;
+
+        if (!analysis.functions.has(name) && !FUNCTIONS.has(name)) {
+            throw syntaxError(`Could not find function '${name}'`, call);
+        }
+
+        if (name === 'indicator' || name === 'study') {
+            if (!topLevelStatement) {
+                throw syntaxError(`'${name}()' must be a statement of its own at the top level`, call);
+            }
+            if (declared) {
+                throw syntaxError('The script is already declared', call);
+            }
+            analysis.declaration = readDeclaration(call);
+            declared = true;
+        } else if (name in INPUT_FUNCTIONS || name in OUTPUT_KINDS) {
+            if (local) {
+                throw syntaxError(`Cannot use '${name}' in local scope`, call);
+            }
+            if (name in INPUT_FUNCTIONS) {
+                const input = readInput(call, analysis.inputs.length);
+                analysis.inputs.push(input);
+                analysis.inputCalls.set(call.id, input);
+            } else {
+                const kind = OUTPUT_KINDS[name];
+                analysis.outputCalls.set(call.id, { kind, index: analysis.outputCounts[kind]++ });
+            }
+        }
+
+        call.args.forEach(arg => visitExpression(arg, local));
+        Object.values(call.namedArgs).forEach(arg => visitExpression(arg, local));
+    };
+
+    const visitExpression = (expression: Expression, local: boolean, topLevelStatement: boolean = false): void => {
+        switch (expression.kind) {
+            case 'call':
+                visitCall(expression, local, topLevelStatement);
+                break;
+            case 'history':
+                visitExpression(expression.target, local);
+                visitExpression(expression.offset, local);
+                break;
+            case 'unary':
+                visitExpression(expression.operand, local);
+                break;
+            case 'binary':
+                visitExpression(expression.left, local);
+                visitExpression(expression.right, local);
+                break;
+            case 'ternary':
+                visitExpression(expression.condition, local);
+                visitExpression(expression.consequent, local);
+                visitExpression(expression.alternate, local);
+                break;
+            case 'tuple':
+                expression.elements.forEach(element => visitExpression(element, local));
+                break;
+        }
+    };
+
+    const visitStatements = (statements: Statement[], local: boolean, inLoop: boolean) => {
+        for (const statement of statements) {
+            switch (statement.kind) {
+                case 'declaration':
+                case 'tupleDeclaration':
+                case 'assignment':
+                    visitExpression(statement.value, local);
+                    break;
+                case 'expression':
+                    visitExpression(statement.expression, local, !local);
+                    break;
+                case 'if':
+                    visitExpression(statement.condition, local);
+                    visitStatements(statement.consequent, true, inLoop);
+                    if (statement.alternate) visitStatements(statement.alternate, true, inLoop);
+                    break;
+                case 'for':
+                    visitExpression(statement.from, local);
+                    visitExpression(statement.to, local);
+                    if (statement.step) visitExpression(statement.step, local);
+                    visitStatements(statement.body, true, true);
+                    break;
+                case 'while':
+                    visitExpression(statement.condition, local);
+                    visitStatements(statement.body, true, true);
+                    break;
+                case 'break':
+                case 'continue':
+                    if (!inLoop) {
+                        throw syntaxError(`'${statement.kind}' outside of a loop`, statement);
+                    }
+                    break;
+                case 'function':
+                    if (local) {
+                        throw syntaxError('Functions can only be declared at the top level', statement);
+                    }
+                    statement.params.forEach(param => param.defaultValue && visitExpression(param.defaultValue, true));
+                    visitStatements(statement.body, true, false);
+                    break;
+            }
+        }
+    };
+
+    visitStatements(program.body, false, false);
+
+    if (!declared) {
+        throw new PineError('syntax', 'The script must declare itself with indicator()', 1, 1);
+    }
+
+    return analysis;
+}
+
+/** Argument by name or position */
+function argument(call: CallExpression, params: string[], name: string): Expression | undefined {
+    return call.namedArgs[name] ?? call.args[params.indexOf(name)];
+}
+
+/** Value of a literal, a constant or a source name such as `close` */
+function constantValue(expression: Expression): PineValue {
+    switch (expression.kind) {
+        case 'number':
+        case 'string':
+        case 'bool':
+            return expression.value;
+        case 'color':
+            return expression.value;
+        case 'unary':
+            if (expression.operator === '-' && expression.operand.kind === 'number') {
+                return -expression.operand.value;
+            }
+            break;
+        case 'identifier': {
+            const constant = CONSTANTS.get(expression.name);
+            if (constant !== undefined) return constant;
+            if ((PINE_SOURCES as readonly string[]).includes(expression.name)) return expression.name;
+            break;
+        }
+        case 'tuple':
+            return expression.elements.map(constantValue);
+    }
+    throw syntaxError('Expected a constant value', expression);
+}
+
+function readDeclaration(call: CallExpression): PineDeclaration {
+    const value = (name: string) => {
+        const expression = argument(call, DECLARATION_PARAMS, name);
+        return expression ? constantValue(expression) : undefined;
+    };
+
+    const title = value('title');
+    if (typeof title !== 'string') {
+        throw syntaxError(`'${call.callee}()' needs a title`, call);
+    }
+
+    const shortTitle = value('shorttitle');
+    const precision = value('precision');
+    return {
+        title,
+        shortTitle: typeof shortTitle === 'string' ? shortTitle : title,
+        overlay: value('overlay') === true,
+        precision: typeof precision === 'number' ? precision : undefined,
+    };
+}
+
+function readInput(call: CallExpression, index: number): PineInputDefinition {
+    const params = INPUT_FUNCTIONS[call.callee];
+    const value = (name: string) => {
+        const expression = argument(call, params, name);
+        return expression ? constantValue(expression) : undefined;
+    };
+
+    const defval = value('defval');
+    if (defval === undefined) {
+        throw syntaxError(`'${call.callee}()' needs a default value`, call);
+    }
+
+    let type: PineInputType;
+    if (call.callee === 'input') {
+        const defvalExpression = argument(call, params, 'defval')!;
+        if (defvalExpression.kind === 'identifier' && (PINE_SOURCES as readonly string[]).includes(defvalExpression.name)) {
+            type = 'source';
+        } else if (defvalExpression.kind === 'color' || (typeof defval === 'string' && defvalExpression.kind === 'identifier')) {
+            type = 'color';
+        } else if (typeof defval === 'boolean') {
+            type = 'bool';
+        } else if (typeof defval === 'string') {
+            type = 'string';
+        } else {
+            type = Number.isInteger(defval) ? 'int' : 'float';
+        }
+    } else {
+        type = call.callee.slice('input.'.length) as PineInputType;
+    }
+
+    const expected = type === 'int' || type === 'float' ? 'number' : type === 'bool' ? 'boolean' : 'string';
+    if (typeof defval !== expected) {
+        throw syntaxError(`'${call.callee}()' expects a ${expected} default value`, call);
+    }
+
+    const title = value('title');
+    const options = value('options');
+    const number = (name: string) => {
+        const result = value(name);
+        return typeof result === 'number' ? result : undefined;
+    };
+
+    return {
+        id: `in_${index}`,
+        type,
+        title: typeof title === 'string' ? title : `Input ${index + 1}`,
+        defval: defval as PineInputValue,
+        minval: number('minval'),
+        maxval: number('maxval'),
+        step: number('step'),
+        options: Array.isArray(options) ? options as PineInputValue[] : undefined,
+    };
+}
+
+// --- Interpreter ---
+
+interface VarSlot {
+    value: PineValue;
+    /** Value at the end of each bar the variable was set on */
+    history: PineValue[];
+    initialized: boolean;
+}
+
+class Scope {
+    readonly names = new Map<string, VarSlot>();
+
+    constructor(readonly parent: Scope | null) { }
+
+    lookup(name: string): VarSlot | undefined {
+        return this.names.get(name) ?? this.parent?.lookup(name);
+    }
+}
+
+/** Variables and ta.* state of the global script or of one user function call site */
+interface Frame {
+    path: string;
+    slots: Map<number | string, VarSlot>;
+    states: Map<number, CallState>;
+    /** Recorded values of `expr[n]` where expr is not a variable */
+    history: Map<HistoryExpression, PineValue[]>;
+}
+
+type Signal = 'break' | 'continue' | null;
+
+class Interpreter implements BuiltinContext {
+    bar: number = 0;
+    call!: CallExpression;
+    readonly output: PineOutput;
+
+    private readonly _frames = new Map<string, Frame>();
+    private _frame: Frame;
+    private _globalScope: Scope = new Scope(null);
+    /** Value of the last executed statement, the return value of functions */
+    private _lastValue: PineValue = NaN;
+    private _depth: number = 0;
+    private _position: SourcePosition = { line: 0, column: 0 };
+
+    constructor(
+        private readonly _program: Program,
+        private readonly _analysis: Analysis,
+        readonly bars: readonly PineBar[],
+        private readonly _inputValues: Record<string, PineInputValue>
+    ) {
+        this._frame = this._getFrame('');
+        this.output = createOutput(bars, _analysis.outputCounts);
+    }
+
+    run(): PineOutput {
+        try {
+            for (this.bar = 0; this.bar < this.bars.length; this.bar++) {
+                this._globalScope = new Scope(null);
+                this._execBlock(this._program.body, this._globalScope, this._getFrame(''));
+            }
+        } catch (error) {
+            if (error instanceof PineError) throw error;
+            const message = error instanceof Error ? error.message : String(error);
+            throw new PineError('runtime', message, this._position.line, this._position.column);
+        }
+        return this.output;
+    }
+
+    // --- BuiltinContext ---
+
+    state(): CallState {
+        let state = this._frame.states.get(this.call.id);
+        if (!state) {
+            state = new CallState();
+            this._frame.states.set(this.call.id, state);
+        }
+        state.begin(this.bar);
+        return state;
+    }
+
+    outputIndex(): number {
+        return this._analysis.outputCalls.get(this.call.id)!.index;
+    }
+
+    inputValue(): PineValue {
+        const input = this._analysis.inputCalls.get(this.call.id)!;
+        const value = this._inputValues[input.id] ?? input.defval;
+        switch (input.type) {
+            case 'source':
+                return sourceValue(this.bars[this.bar], String(value));
+            case 'int':
+                return Math.round(toNumber(value));
+            case 'float':
+                return toNumber(value);
+            default:
+                return value;
+        }
+    }
+
+    // --- Statements ---
+
+    private _execBlock(statements: Statement[], scope: Scope, frame: Frame): Signal {
+        for (const statement of statements) {
+            const signal = this._execStatement(statement, scope, frame);
+            if (signal) return signal;
+        }
+        return null;
+    }
+
+    private _execStatement(statement: Statement, scope: Scope, frame: Frame): Signal {
+        this._position = statement;
+
+        switch (statement.kind) {
+            case 'declaration': {
+                if (scope.names.has(statement.name)) {
+                    throw this._error(`'${statement.name}' is already declared`, statement);
+                }
+                const slot = this._getSlot(frame, statement.id);
+                if (!statement.persistent || !slot.initialized) {
+                    const value = this._eval(statement.value, scope, frame);
+                    if (Array.isArray(value)) {
+                        throw this._error('Use [a, b] = ... to declare the values of a tuple', statement);
+                    }
+                    slot.value = value;
+                    slot.initialized = true;
+                }
+                slot.history[this.bar] = slot.value;
+                scope.names.set(statement.name, slot);
+                this._lastValue = slot.value;
+                return null;
+            }
+
+            case 'tupleDeclaration': {
+                const value = this._eval(statement.value, scope, frame);
+                if (!Array.isArray(value) || value.length < statement.names.length) {
+                    throw this._error(`Expected a tuple of ${statement.names.length} values`, statement);
+                }
+                statement.names.forEach((name, i) => {
+                    if (scope.names.has(name)) {
+                        throw this._error(`'${name}' is already declared`, statement);
+                    }
+                    const slot = this._getSlot(frame, `${statement.id}:${i}`);
+                    slot.value = value[i];
+                    slot.history[this.bar] = value[i];
+                    scope.names.set(name, slot);
+                });
+                this._lastValue = value;
+                return null;
+            }
+
+            case 'assignment': {
+                const slot = scope.lookup(statement.name);
+                if (!slot) {
+                    throw this._error(`Undeclared identifier '${statement.name}'`, statement);
+                }
+                let value = this._eval(statement.value, scope, frame);
+                if (statement.operator !== ':=') {
+                    value = this._binary(statement.operator[0], slot.value, value, statement);
+                }
+                slot.value = value;
+                slot.history[this.bar] = value;
+                this._lastValue = value;
+                return null;
+            }
+
+            case 'expression':
+                this._lastValue = this._eval(statement.expression, scope, frame);
+                return null;
+
+            case 'if': {
+                this._lastValue = NaN;
+                if (toBool(this._eval(statement.condition, scope, frame))) {
+                    return this._execBlock(statement.consequent, new Scope(scope), frame);
+                }
+                return statement.alternate ? this._execBlock(statement.alternate, new Scope(scope), frame) : null;
+            }
+
+            case 'for': {
+                const from = toNumber(this._eval(statement.from, scope, frame));
+                const to = toNumber(this._eval(statement.to, scope, frame));
+                const step = statement.step ? toNumber(this._eval(statement.step, scope, frame)) : from <= to ? 1 : -1;
+                if (step === 0 || isNaN(step)) {
+                    throw this._error('The loop step must not be 0', statement);
+                }
+
+                let iterations = 0;
+                for (let i = from; step > 0 ? i <= to : i >= to; i += step) {
+                    this._checkIterations(++iterations, statement);
+                    const body = new Scope(scope);
+                    body.names.set(statement.variable, { value: i, history: [], initialized: true });
+                    if (this._execBlock(statement.body, body, frame) === 'break') break;
+                }
+                return null;
+            }
+
+            case 'while': {
+                let iterations = 0;
+                while (toBool(this._eval(statement.condition, scope, frame))) {
+                    this._checkIterations(++iterations, statement);
+                    if (this._execBlock(statement.body, new Scope(scope), frame) === 'break') break;
+                }
+                return null;
+            }
+
+            case 'break':
+            case 'continue':
+                return statement.kind;
+
+            case 'function':
+                return null;
+        }
+    }
+
+    private _checkIterations(iterations: number, node: SourcePosition): void {
+        if (iterations > MAX_LOOP_ITERATIONS) {
+            throw this._error(`The loop ran more than ${MAX_LOOP_ITERATIONS} times on one bar`, node);
+        }
+    }
+
+    // --- Expressions ---
+
+    private _eval(expression: Expression, scope: Scope, frame: Frame): PineValue {
+        switch (expression.kind) {
+            case 'number':
+            case 'string':
+            case 'bool':
+            case 'color':
+                return expression.value;
+
+            case 'na':
+                return NaN;
+
+            case 'identifier': {
+                const slot = scope.lookup(expression.name);
+                if (slot) return slot.value;
+                const variable = VARIABLES.get(expression.name);
+                if (variable) return variable(this.bars, this.bar);
+                const constant = CONSTANTS.get(expression.name);
+                if (constant !== undefined) return constant;
+                throw this._error(`Undeclared identifier '${expression.name}'`, expression);
+            }
+
+            case 'history':
+                return this._history(expression, scope, frame);
+
+            case 'call':
+                return this._call(expression, scope, frame);
+
+            case 'unary': {
+                const operand = this._eval(expression.operand, scope, frame);
+                if (expression.operator === 'not') return !toBool(operand);
+                return expression.operator === '-' ? -toNumber(operand) : toNumber(operand);
+            }
+
+            case 'binary': {
+                if (expression.operator === 'and') {
+                    return toBool(this._eval(expression.left, scope, frame)) && toBool(this._eval(expression.right, scope, frame));
+                }
+                if (expression.operator === 'or') {
+                    return toBool(this._eval(expression.left, scope, frame)) || toBool(this._eval(expression.right, scope, frame));
+                }
+                const left = this._eval(expression.left, scope, frame);
+                const right = this._eval(expression.right, scope, frame);
+                return this._binary(expression.operator, left, right, expression);
+            }
+
+            case 'ternary':
+                return toBool(this._eval(expression.condition, scope, frame))
+                    ? this._eval(expression.consequent, scope, frame)
+                    : this._eval(expression.alternate, scope, frame);
+
+            case 'tuple':
+                return expression.elements.map(element => this._eval(element, scope, frame));
+        }
+    }
+
+    private _binary(operator: string, left: PineValue, right: PineValue, node: SourcePosition): PineValue {
+        if (typeof left === 'object' || typeof right === 'object') {
+            throw this._error(`Operator '${operator}' can't be applied to a tuple or plot`, node);
+        }
+
+        if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+            return String(left) + String(right);
+        }
+        if (operator === '==' || operator === '!=') {
+            const equal = typeof left === 'string' || typeof right === 'string'
+                ? left === right
+                : toNumber(left) === toNumber(right);
+            return operator === '==' ? equal : !equal;
+        }
+
+        const a = toNumber(left);
+        const b = toNumber(right);
+        switch (operator) {
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+            case '/': return finite(a / b);
+            case '%': return finite(a % b);
+            case '<': return a < b;
+            case '<=': return a <= b;
+            case '>': return a > b;
+            case '>=': return a >= b;
+        }
+        throw this._error(`Unknown operator '${operator}'`, node);
+    }
+
+    private _history(expression: HistoryExpression, scope: Scope, frame: Frame): PineValue {
+        const offset = Math.floor(toNumber(this._eval(expression.offset, scope, frame)));
+        if (!(offset >= 0)) {
+            throw this._error('The history offset must be 0 or more', expression);
+        }
+        const bar = this.bar - offset;
+
+        const target = expression.target;
+        if (target.kind === 'identifier') {
+            const slot = scope.lookup(target.name);
+            if (slot) {
+                return offset === 0 ? slot.value : slot.history[bar] ?? NaN;
+            }
+            const variable = VARIABLES.get(target.name);
+            if (variable) {
+                return bar >= 0 ? variable(this.bars, bar) : NaN;
+            }
+        }
+
+        const value = this._eval(target, scope, frame);
+        if (typeof value === 'object') {
+            throw this._error("History can't be taken of a tuple or plot", expression);
+        }
+        let history = frame.history.get(expression);
+        if (!history) {
+            history = [];
+            frame.history.set(expression, history);
+        }
+        history[this.bar] = value;
+        return history[bar] ?? NaN;
+    }
+
+    private _call(call: CallExpression, scope: Scope, frame: Frame): PineValue {
+        const fn = this._analysis.functions.get(call.callee);
+        if (fn) {
+            return this._callFunction(fn, call, scope, frame);
+        }
+
+        const builtin = FUNCTIONS.get(call.callee)!;
+        if (!builtin.variadic && call.args.length > builtin.params.length) {
+            throw this._error(`Too many arguments for '${call.callee}'`, call);
+        }
+
+        const args: (PineValue | undefined)[] = call.args.map(arg => this._eval(arg, scope, frame));
+        for (const [name, arg] of Object.entries(call.namedArgs)) {
+            const index = builtin.params.indexOf(name);
+            if (index < 0) {
+                throw this._error(`'${call.callee}' has no argument '${name}'`, arg);
+            }
+            args[index] = this._eval(arg, scope, frame);
+        }
+
+        this.call = call;
+        this._frame = frame;
+        return builtin.call(args, this);
+    }
+
+    private _callFunction(fn: FunctionDeclaration, call: CallExpression, scope: Scope, frame: Frame): PineValue {
+        if (call.args.length > fn.params.length) {
+            throw this._error(`Too many arguments for '${fn.name}'`, call);
+        }
+        for (const name of Object.keys(call.namedArgs)) {
+            if (!fn.params.some(param => param.name === name)) {
+                throw this._error(`'${fn.name}' has no argument '${name}'`, call);
+            }
+        }
+        if (this._depth >= MAX_CALL_DEPTH) {
+            throw this._error(`'${fn.name}' calls itself too deeply, recursion is not supported`, call);
+        }
+
+        const args = call.args.map(arg => this._eval(arg, scope, frame));
+        const named = new Map(Object.entries(call.namedArgs).map(([name, arg]) => [name, this._eval(arg, scope, frame)]));
+
+        const callee = this._getFrame(`${frame.path}/${call.id}`);
+        const body = new Scope(this._globalScope);
+        fn.params.forEach((param, i) => {
+            let value: PineValue;
+            if (i < args.length) {
+                value = args[i];
+            } else if (named.has(param.name)) {
+                value = named.get(param.name)!;
+            } else if (param.defaultValue) {
+                value = this._eval(param.defaultValue, body, callee);
+            } else {
+                throw this._error(`Missing argument '${param.name}' for '${fn.name}'`, call);
+            }
+            const slot = this._getSlot(callee, `param:${param.name}`);
+            slot.value = value;
+            slot.history[this.bar] = value;
+            body.names.set(param.name, slot);
+        });
+
+        this._depth++;
+        this._lastValue = NaN;
+        try {
+            this._execBlock(fn.body, body, callee);
+        } finally {
+            this._depth--;
+        }
+        return this._lastValue;
+    }
+
+    // --- State ---
+
+    private _getFrame(path: string): Frame {
+        let frame = this._frames.get(path);
+        if (!frame) {
+            frame = { path, slots: new Map(), states: new Map(), history: new Map() };
+            this._frames.set(path, frame);
+        }
+        return frame;
+    }
+
+    private _getSlot(frame: Frame, key: number | string): VarSlot {
+        let slot = frame.slots.get(key);
+        if (!slot) {
+            slot = { value: NaN, history: [], initialized: false };
+            frame.slots.set(key, slot);
+        }
+        return slot;
+    }
+
+    private _error(message: string, node: SourcePosition): PineError {
+        return new PineError('runtime', message, node.line, node.column);
+    }
+}
+
+function createOutput(bars: readonly PineBar[], counts: Record<OutputKind, number>): PineOutput {
+    const numbers = () => new Array<number>(bars.length).fill(NaN);
+    const colors = () => new Array<string | null>(bars.length).fill(null);
+    const times = bars.map(bar => bar.time);
+
+    return {
+        times,
+        plots: Array.from({ length: counts.plots }, (_, i) => ({
+            title: `Plot ${i + 1}`,
+            style: 'line' as const,
+            linewidth: 1,
+            offset: 0,
+            values: numbers(),
+            colors: colors(),
+        })),
+        shapes: Array.from({ length: counts.shapes }, (_, i) => ({
+            title: `Shapes ${i + 1}`,
+            style: 'xcross',
+            char: '★',
+            location: 'abovebar' as const,
+            size: 'auto' as const,
+            text: '',
+            offset: 0,
+            values: numbers(),
+            colors: colors(),
+        })),
+        hlines: Array.from({ length: counts.hlines }, (_, i) => ({
+            title: `Level ${i + 1}`,
+            price: NaN,
+            color: null,
+            linestyle: 'dashed' as const,
+            linewidth: 1,
+        })),
+        fills: Array.from({ length: counts.fills }, (_, i) => ({
+            from: { type: 'plot' as const, index: -1 },
+            to: { type: 'plot' as const, index: -1 },
+            title: `Fill ${i + 1}`,
+            colors: colors(),
+        })),
+        backgrounds: Array.from({ length: counts.backgrounds }, () => ({
+            offset: 0,
+            colors: colors(),
+        })),
+    };
+}
@@ -0,0 +1,49 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { BarSeries } from '../model/bar-series';
+import { BarWithCoordinates } from '../model/series';
+import { BarData, isBarData } from '../model/data';
+
+/**
+ * OHLC bar renderer
+ * High-low line with the open tick on the left and the close tick on the right
+ */
+export class BarRenderer {
+    private readonly _series: BarSeries;
+
+    constructor(series: BarSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[], _backgroundColor?: string, barSpacing: number = 6): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.barOptions;
+
+        // Line and tick width grow with zoom, ticks take the room between bars
+        const lineWidth = options.thinBars
+            ? Math.max(1, Math.floor(horizontalPixelRatio))
+            : Math.max(1, Math.min(Math.floor(barSpacing * 0.15 * horizontalPixelRatio), Math.floor(3 * horizontalPixelRatio)));
+        const tickLength = Math.max(1, Math.floor(barSpacing * 0.4 * horizontalPixelRatio));
+
+        for (const bar of bars) {
+            if (!isBarData(bar.data)) continue;
+
+            const data = bar.data as BarData;
+            ctx.fillStyle = data.close >= data.open ? options.upColor : options.downColor;
+
+            const x = Math.round(bar.x * horizontalPixelRatio);
+            const left = x - Math.floor(lineWidth / 2);
+            const openY = Math.round((bar.openY ?? 0) * verticalPixelRatio);
+            const highY = Math.round((bar.highY ?? 0) * verticalPixelRatio);
+            const lowY = Math.round((bar.lowY ?? 0) * verticalPixelRatio);
+            const closeY = Math.round((bar.closeY ?? 0) * verticalPixelRatio);
+            const tickTop = (y: number) => y - Math.floor(lineWidth / 2);
+
+            ctx.fillRect(left, highY, lineWidth, Math.max(lineWidth, lowY - highY));
+
+            if (options.openVisible) {
+                ctx.fillRect(left - tickLength, tickTop(openY), tickLength, lineWidth);
+            }
+            ctx.fillRect(left + lineWidth, tickTop(closeY), tickLength, lineWidth);
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { BaselineSeries } from '../model/baseline-series';
+import { BarWithCoordinates } from '../model/series';
+
+/**
+ * Baseline renderer
+ * Draws the line and its fill twice, clipped above and below the base price
+ */
+export class BaselineRenderer {
+    private readonly _series: BaselineSeries;
+
+    constructor(series: BaselineSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[]): void {
+        const baseCoordinate = this._series.baseCoordinate;
+        if (bars.length < 2 || baseCoordinate === null) return;
+
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio, bitmapSize } = scope;
+        const options = this._series.baselineOptions;
+
+        const points: { x: number; y: number }[] = [];
+        for (const bar of bars) {
+            // Use 'y' for LineData, fall back to 'closeY' for BarData
+            const yValue = bar.y ?? bar.closeY;
+            if (yValue === undefined) continue;
+            points.push({ x: bar.x * horizontalPixelRatio, y: yValue * verticalPixelRatio });
+        }
+        if (points.length < 2) return;
+
+        const baseY = Math.round(baseCoordinate * verticalPixelRatio);
+        const sides = [
+            { top: 0, bottom: baseY, line: options.topLineColor, fill1: options.topFillColor1, fill2: options.topFillColor2 },
+            { top: baseY, bottom: bitmapSize.height, line: options.bottomLineColor, fill1: options.bottomFillColor1, fill2: options.bottomFillColor2 },
+        ];
+
+        for (const side of sides) {
+            if (side.bottom <= side.top) continue;
+
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(0, side.top, bitmapSize.width, side.bottom - side.top);
+            ctx.clip();
+
+            // Fill between the line and the base
+            const gradient = ctx.createLinearGradient(0, side.top, 0, side.bottom);
+            gradient.addColorStop(0, side.fill1);
+            gradient.addColorStop(1, side.fill2);
+
+            ctx.beginPath();
+            ctx.moveTo(points[0].x, baseY);
+            for (const point of points) {
+                ctx.lineTo(point.x, point.y);
+            }
+            ctx.lineTo(points[points.length - 1].x, baseY);
+            ctx.closePath();
+            ctx.fillStyle = gradient;
+            ctx.fill();
+
+            ctx.beginPath();
+            ctx.moveTo(points[0].x, points[0].y);
+            for (let i = 1; i < points.length; i++) {
+                ctx.lineTo(points[i].x, points[i].y);
+            }
+            ctx.strokeStyle = side.line;
+            ctx.lineWidth = options.lineWidth * horizontalPixelRatio;
+            ctx.lineJoin = 'round';
+            ctx.lineCap = 'round';
+            ctx.stroke();
+
+            ctx.restore();
+        }
+
+        // Base price line
+        const lineWidth = Math.max(1, Math.floor(horizontalPixelRatio));
+        ctx.save();
+        ctx.strokeStyle = 'rgba(120, 123, 134, 0.6)';
+        ctx.lineWidth = lineWidth;
+        ctx.setLineDash([4 * horizontalPixelRatio, 4 * horizontalPixelRatio]);
+        ctx.beginPath();
+        ctx.moveTo(0, baseY + (lineWidth % 2) / 2);
+        ctx.lineTo(bitmapSize.width, baseY + (lineWidth % 2) / 2);
+        ctx.stroke();
+        ctx.restore();
+    }
+}
@@ -0,0 +1,66 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { BarWithCoordinates } from '../model/series';
+import { BarData, isBarData } from '../model/data';
+
+/**
+ * Brick style options (Renko, Range, Line Break)
+ */
+export interface BrickRendererOptions {
+    upColor: string;
+    downColor: string;
+    borderVisible: boolean;
+    borderColor: string;
+    wickVisible: boolean;
+}
+
+/**
+ * Brick renderer
+ * Draws bars as solid bricks, with optional wicks for types that keep high/low
+ */
+export class BrickRenderer {
+    private readonly _getOptions: () => BrickRendererOptions;
+
+    constructor(getOptions: () => BrickRendererOptions) {
+        this._getOptions = getOptions;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[], _backgroundColor: string = '#1a1a2e', barSpacing: number = 6): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._getOptions();
+
+        // Bricks sit next to each other with a small gap
+        const brickWidth = Math.max(1, Math.floor(barSpacing * 0.9 * horizontalPixelRatio));
+        const wickWidth = Math.max(1, Math.floor(1 * horizontalPixelRatio));
+
+        for (const bar of bars) {
+            if (!isBarData(bar.data)) continue;
+
+            const data = bar.data as BarData;
+            const color = data.close >= data.open ? options.upColor : options.downColor;
+
+            const x = Math.round(bar.x * horizontalPixelRatio);
+            const openY = Math.round((bar.openY ?? 0) * verticalPixelRatio);
+            const closeY = Math.round((bar.closeY ?? 0) * verticalPixelRatio);
+            const top = Math.min(openY, closeY);
+            const height = Math.max(1, Math.abs(closeY - openY));
+            const left = x - Math.floor(brickWidth / 2);
+
+            if (options.wickVisible) {
+                const highY = Math.round((bar.highY ?? 0) * verticalPixelRatio);
+                const lowY = Math.round((bar.lowY ?? 0) * verticalPixelRatio);
+                ctx.fillStyle = color;
+                ctx.fillRect(x - Math.floor(wickWidth / 2), highY, wickWidth, lowY - highY);
+            }
+
+            ctx.fillStyle = color;
+            ctx.fillRect(left, top, brickWidth, height);
+
+            if (options.borderVisible && brickWidth > 2) {
+                ctx.strokeStyle = options.borderColor;
+                ctx.lineWidth = Math.max(1, Math.floor(horizontalPixelRatio));
+                const offset = (ctx.lineWidth % 2) / 2;
+                ctx.strokeRect(left + offset, top + offset, brickWidth - offset * 2, height - offset * 2);
+            }
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { ColumnSeries } from '../model/column-series';
+import { BarWithCoordinates } from '../model/series';
+import { SeriesDataItem, isBarData, isLineData } from '../model/data';
+
+/**
+ * Column renderer
+ */
+export class ColumnRenderer {
+    private readonly _series: ColumnSeries;
+
+    constructor(series: ColumnSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[], _backgroundColor?: string, barSpacing: number = 6): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio, bitmapSize } = scope;
+        const options = this._series.columnOptions;
+        const data = this._series.plotData;
+
+        const columnWidth = Math.max(1, Math.floor(barSpacing * 0.8 * horizontalPixelRatio));
+
+        for (const bar of bars) {
+            // Use 'y' for LineData, fall back to 'closeY' for BarData
+            const yValue = bar.y ?? bar.closeY;
+            if (yValue === undefined) continue;
+
+            const value = valueOf(bar.data);
+            const prev = bar.index > 0 ? valueOf(data[bar.index - 1]) : null;
+            ctx.fillStyle = prev === null || value >= prev ? options.upColor : options.downColor;
+
+            const x = Math.round(bar.x * horizontalPixelRatio);
+            const top = Math.round(yValue * verticalPixelRatio);
+            ctx.fillRect(x - Math.floor(columnWidth / 2), top, columnWidth, bitmapSize.height - top);
+        }
+    }
+}
+
+function valueOf(item: SeriesDataItem): number {
+    if (isBarData(item)) return item.close;
+    if (isLineData(item)) return item.value;
+    return NaN;
+}
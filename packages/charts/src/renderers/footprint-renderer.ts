@@ -0,0 +1,180 @@
+import { FootprintSeries } from '../series/footprint-series';
+import { BarWithCoordinates } from '../model/series';
+import { BarData, isBarData } from '../model/data';
+import { FootprintBar, footprintImbalances } from '../orderflow/footprint';
+import { CandlestickRenderer, BitmapCoordinatesScope } from './candlestick-renderer';
+
+/** Bar spacing (media pixels) below which bars are drawn as candles */
+const MIN_BAR_SPACING = 40;
+
+/** Row height (media pixels) the volume numbers need */
+const MIN_TEXT_ROW = 9;
+
+/**
+ * Footprint renderer - bid x ask volume per price row, with a narrow candle
+ * at the left of each bar, imbalances and the bar delta below it
+ */
+export class FootprintRenderer {
+    private readonly _series: FootprintSeries;
+    private readonly _candles: CandlestickRenderer;
+
+    constructor(series: FootprintSeries) {
+        this._series = series;
+        this._candles = new CandlestickRenderer(series);
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[], backgroundColor: string = '#1a1a2e', barSpacing: number = 6): void {
+        if (barSpacing < MIN_BAR_SPACING) {
+            this._candles.draw(scope, bars, backgroundColor, barSpacing);
+            return;
+        }
+
+        // Bars without trades stay candles
+        const candles: BarWithCoordinates[] = [];
+        for (const bar of bars) {
+            const footprint = isBarData(bar.data) ? this._series.footprintAt(bar.index) : null;
+            if (footprint) {
+                this._drawBar(scope, bar, footprint, barSpacing);
+            } else {
+                candles.push(bar);
+            }
+        }
+        if (candles.length > 0) {
+            this._candles.draw(scope, candles, backgroundColor, barSpacing);
+        }
+    }
+
+    // --- Private ---
+
+    private _drawBar(scope: BitmapCoordinatesScope, bar: BarWithCoordinates, footprint: FootprintBar, barSpacing: number): void {
+        const { context: ctx, horizontalPixelRatio: hpr, verticalPixelRatio: vpr } = scope;
+        const options = this._series.footprintOptions;
+        const priceScale = this._series.priceScale;
+        const priceToY = (price: number) => Math.round(priceScale.priceToCoordinate(price) * vpr);
+        const data = bar.data as BarData;
+        const isUp = data.close >= data.open;
+
+        const columnWidth = Math.floor(barSpacing * 0.9 * hpr);
+        const left = Math.round(bar.x * hpr - columnWidth / 2);
+        const right = left + columnWidth;
+
+        ctx.save();
+
+        // Narrow candle at the left
+        const stripWidth = Math.max(Math.round(2 * hpr), Math.round(columnWidth * 0.08));
+        const wickWidth = Math.max(1, Math.floor(hpr));
+        const highY = Math.round((bar.highY ?? 0) * vpr);
+        const lowY = Math.round((bar.lowY ?? 0) * vpr);
+        const openY = Math.round((bar.openY ?? 0) * vpr);
+        const closeY = Math.round((bar.closeY ?? 0) * vpr);
+        ctx.fillStyle = isUp ? options.upColor : options.downColor;
+        if (options.wickVisible) {
+            ctx.fillRect(left + Math.floor((stripWidth - wickWidth) / 2), highY, wickWidth, lowY - highY);
+        }
+        ctx.fillRect(left, Math.min(openY, closeY), stripWidth, Math.max(1, Math.abs(closeY - openY)));
+
+        // Bid cells left of the middle, ask cells right of it
+        const gap = Math.round(3 * hpr);
+        const cellsLeft = left + stripWidth + gap;
+        const middle = Math.round((cellsLeft + right) / 2);
+        const levels = footprint.levels;
+        const imbalances = options.showImbalances
+            ? footprintImbalances(footprint, options.imbalanceRatio, options.stackedImbalanceCount)
+            : null;
+
+        let maxSide = 0;
+        for (const level of levels) {
+            maxSide = Math.max(maxSide, level.bid, level.ask);
+        }
+
+        const rowTop = (i: number) => priceToY(levels[i].price + footprint.rowHeight);
+        const rowBottom = (i: number) => priceToY(levels[i].price);
+        const rowPixels = rowBottom(0) - rowTop(0);
+        const rowGap = rowPixels >= 4 * vpr ? Math.max(1, Math.floor(vpr)) : 0;
+
+        for (let i = 0; i < levels.length; i++) {
+            const level = levels[i];
+            const top = rowTop(i);
+            const height = Math.max(1, rowBottom(i) - top - rowGap);
+            if (level.bid > 0) {
+                ctx.globalAlpha = 0.15 + 0.6 * level.bid / maxSide;
+                ctx.fillStyle = imbalances?.sell[i] ? options.sellImbalanceColor : options.downColor;
+                ctx.fillRect(cellsLeft, top, middle - cellsLeft, height);
+            }
+            if (level.ask > 0) {
+                ctx.globalAlpha = 0.15 + 0.6 * level.ask / maxSide;
+                ctx.fillStyle = imbalances?.buy[i] ? options.buyImbalanceColor : options.upColor;
+                ctx.fillRect(middle, top, right - middle, height);
+            }
+        }
+        ctx.globalAlpha = 1;
+
+        // Point of control
+        const pocTop = rowTop(footprint.pocIndex);
+        ctx.strokeStyle = options.pocColor;
+        ctx.lineWidth = Math.max(1, Math.floor(hpr));
+        ctx.strokeRect(cellsLeft + 0.5, pocTop + 0.5, right - cellsLeft - 1, Math.max(1, rowBottom(footprint.pocIndex) - pocTop - rowGap - 1));
+
+        // Stacked imbalances beside the cells of their side
+        if (imbalances) {
+            const markWidth = Math.max(2, Math.round(2 * hpr));
+            ctx.fillStyle = options.buyImbalanceColor;
+            for (const run of imbalances.stackedBuy) {
+                const top = rowTop(run.to);
+                ctx.fillRect(right + Math.round(hpr), top, markWidth, rowBottom(run.from) - top);
+            }
+            ctx.fillStyle = options.sellImbalanceColor;
+            for (const run of imbalances.stackedSell) {
+                const top = rowTop(run.to);
+                ctx.fillRect(cellsLeft - gap + Math.round(hpr / 2), top, markWidth, rowBottom(run.from) - top);
+            }
+        }
+
+        // Volume numbers where the rows are tall enough
+        if (rowPixels >= MIN_TEXT_ROW * vpr) {
+            const fontSize = Math.min(11 * vpr, rowPixels - 2 * vpr);
+            ctx.font = `${Math.floor(fontSize)}px -apple-system, BlinkMacSystemFont, "Trebuchet MS", Roboto, sans-serif`;
+            ctx.textBaseline = 'middle';
+            const padding = Math.round(3 * hpr);
+            const cellWidth = middle - cellsLeft - padding;
+            for (let i = 0; i < levels.length; i++) {
+                const level = levels[i];
+                const y = (rowTop(i) + rowBottom(i) - rowGap) / 2;
+                const bidText = formatVolume(level.bid);
+                const askText = formatVolume(level.ask);
+                if (ctx.measureText(bidText).width > cellWidth || ctx.measureText(askText).width > cellWidth) continue;
+
+                ctx.textAlign = 'right';
+                ctx.fillStyle = imbalances?.sell[i] ? options.sellImbalanceColor : options.textColor;
+                ctx.fillText(bidText, middle - padding, y);
+                ctx.textAlign = 'left';
+                ctx.fillStyle = imbalances?.buy[i] ? options.buyImbalanceColor : options.textColor;
+                ctx.fillText(askText, middle + padding, y);
+            }
+        }
+
+        // Delta below the bar
+        if (options.showDelta) {
+            const text = (footprint.delta > 0 ? '+' : '') + formatVolume(footprint.delta);
+            ctx.font = `${Math.floor(10 * vpr)}px -apple-system, BlinkMacSystemFont, "Trebuchet MS", Roboto, sans-serif`;
+            if (ctx.measureText(text).width <= columnWidth) {
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'top';
+                ctx.fillStyle = footprint.delta >= 0 ? options.upColor : options.downColor;
+                ctx.fillText(text, (left + right) / 2, Math.max(lowY, rowBottom(0)) + Math.round(4 * vpr));
+            }
+        }
+
+        ctx.restore();
+    }
+}
+
+/** Volume of a cell: K and M suffixes, fewer decimals the larger it is */
+function formatVolume(volume: number): string {
+    const abs = Math.abs(volume);
+    if (abs >= 1e6) return (volume / 1e6).toFixed(1) + 'M';
+    if (abs >= 1e4) return (volume / 1e3).toFixed(1) + 'K';
+    if (abs >= 100) return volume.toFixed(0);
+    if (abs >= 1) return volume.toFixed(1);
+    return volume === 0 ? '0' : volume.toFixed(3);
+}
@@ -0,0 +1,78 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { HlcAreaSeries } from '../model/hlc-area-series';
+import { BarWithCoordinates } from '../model/series';
+import { isBarData } from '../model/data';
+
+/**
+ * High-low-close area renderer
+ */
+export class HlcAreaRenderer {
+    private readonly _series: HlcAreaSeries;
+
+    constructor(series: HlcAreaSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[]): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.hlcAreaOptions;
+
+        const points: { x: number; high: number; low: number; close: number }[] = [];
+        for (const bar of bars) {
+            if (!isBarData(bar.data)) continue;
+            points.push({
+                x: bar.x * horizontalPixelRatio,
+                high: (bar.highY ?? 0) * verticalPixelRatio,
+                low: (bar.lowY ?? 0) * verticalPixelRatio,
+                close: (bar.closeY ?? 0) * verticalPixelRatio,
+            });
+        }
+        if (points.length < 2) return;
+
+        // Bands: high down to close, close down to low
+        this._fillBand(ctx, points, 'high', 'close', options.upFillColor);
+        this._fillBand(ctx, points, 'close', 'low', options.downFillColor);
+
+        ctx.lineWidth = options.lineWidth * horizontalPixelRatio;
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        this._strokeLine(ctx, points, 'high', options.highLineColor);
+        this._strokeLine(ctx, points, 'low', options.lowLineColor);
+        this._strokeLine(ctx, points, 'close', options.closeLineColor);
+    }
+
+    private _fillBand(
+        ctx: CanvasRenderingContext2D,
+        points: { x: number; high: number; low: number; close: number }[],
+        upper: 'high' | 'close',
+        lower: 'close' | 'low',
+        color: string
+    ): void {
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0][upper]);
+        for (let i = 1; i < points.length; i++) {
+            ctx.lineTo(points[i].x, points[i][upper]);
+        }
+        for (let i = points.length - 1; i >= 0; i--) {
+            ctx.lineTo(points[i].x, points[i][lower]);
+        }
+        ctx.closePath();
+        ctx.fillStyle = color;
+        ctx.fill();
+    }
+
+    private _strokeLine(
+        ctx: CanvasRenderingContext2D,
+        points: { x: number; high: number; low: number; close: number }[],
+        key: 'high' | 'low' | 'close',
+        color: string
+    ): void {
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0][key]);
+        for (let i = 1; i < points.length; i++) {
+            ctx.lineTo(points[i].x, points[i][key]);
+        }
+        ctx.strokeStyle = color;
+        ctx.stroke();
+    }
+}
@@ -0,0 +1,61 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { HollowCandleSeries } from '../model/hollow-candle-series';
+import { BarWithCoordinates } from '../model/series';
+import { isBarData } from '../model/data';
+
+/**
+ * Hollow candle renderer
+ * Rising bodies (close > open) are outlined, falling ones are filled
+ */
+export class HollowCandleRenderer {
+    private readonly _series: HollowCandleSeries;
+
+    constructor(series: HollowCandleSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[], _backgroundColor?: string, barSpacing: number = 6): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.hollowCandleOptions;
+
+        const barWidth = Math.max(1, Math.floor(barSpacing * 0.8 * horizontalPixelRatio));
+        const lineWidth = Math.max(1, Math.floor(1 * horizontalPixelRatio));
+
+        for (const bar of bars) {
+            if (!isBarData(bar.data)) continue;
+
+            const { color, hollow } = this._series.getBarStyle(bar.index);
+
+            const x = Math.round(bar.x * horizontalPixelRatio);
+            const openY = Math.round((bar.openY ?? 0) * verticalPixelRatio);
+            const highY = Math.round((bar.highY ?? 0) * verticalPixelRatio);
+            const lowY = Math.round((bar.lowY ?? 0) * verticalPixelRatio);
+            const closeY = Math.round((bar.closeY ?? 0) * verticalPixelRatio);
+
+            const bodyTop = Math.min(openY, closeY);
+            const bodyBottom = Math.max(openY, closeY);
+            const bodyHeight = Math.max(1, bodyBottom - bodyTop);
+            const bodyX = x - Math.floor(barWidth / 2);
+            const wickX = x - Math.floor(lineWidth / 2);
+
+            ctx.fillStyle = color;
+
+            // Wicks stop at the body so they don't show through hollow candles
+            if (options.wickVisible) {
+                ctx.fillRect(wickX, highY, lineWidth, bodyTop - highY);
+                ctx.fillRect(wickX, bodyBottom, lineWidth, lowY - bodyBottom);
+            }
+
+            if (!hollow || barWidth <= lineWidth * 2 || bodyHeight <= lineWidth * 2) {
+                ctx.fillRect(bodyX, bodyTop, barWidth, bodyHeight);
+                continue;
+            }
+
+            // Outline drawn as four rects for crisp edges
+            ctx.fillRect(bodyX, bodyTop, barWidth, lineWidth);
+            ctx.fillRect(bodyX, bodyBottom - lineWidth, barWidth, lineWidth);
+            ctx.fillRect(bodyX, bodyTop, lineWidth, bodyHeight);
+            ctx.fillRect(bodyX + barWidth - lineWidth, bodyTop, lineWidth, bodyHeight);
+        }
+    }
+}
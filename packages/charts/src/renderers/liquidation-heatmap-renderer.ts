@@ -0,0 +1,252 @@
+/**
+ * Liquidation Heatmap Renderer - estimated liquidation levels behind the candles
+ *
+ * Draws a LiquidationMap as a heatmap, one column per bar colored along a
+ * gradient by the notional liquidated at each price, and/or the levels
+ * still open as lines from the bar they were added in.
+ */
+
+import { PriceScale } from '../model/price-scale';
+import { TimeScale } from '../model/time-scale';
+import { TimePointIndex, coordinate } from '../model/coordinate';
+import { LiquidationMap, LiquidationColumn } from '../model/liquidation-map';
+import { BitmapCoordinatesScope } from './grid-renderer';
+import { Rgb, mixColors, parseColor, timeToIndex } from './orderbook-heatmap-renderer';
+
+export type LiquidationDisplay = 'heatmap' | 'levels' | 'both';
+
+export interface LiquidationHeatmapOptions {
+    display: LiquidationDisplay;
+    /** Heatmap gradient from the smallest to the largest level */
+    colors: string[];
+    /** Opacity of the heatmap */
+    opacity: number;
+    /** Levels below this fraction of the largest are not drawn (0-1) */
+    threshold: number;
+    /** Line color of long liquidation levels, below the price */
+    longColor: string;
+    /** Line color of short liquidation levels, above the price */
+    shortColor: string;
+    /** Open levels drawn as lines, the largest first */
+    maxLevels: number;
+}
+
+const defaultOptions: LiquidationHeatmapOptions = {
+    display: 'heatmap',
+    colors: ['#2c115f', '#21918c', '#5ec962', '#fde725'],
+    opacity: 0.75,
+    threshold: 0.05,
+    longColor: '#089981',
+    shortColor: '#f23645',
+    maxLevels: 20,
+};
+
+export class LiquidationHeatmapRenderer {
+    private _options: LiquidationHeatmapOptions = { ...defaultOptions };
+    private _optionsVersion: number = 0;
+    private _map: LiquidationMap | null = null;
+
+    private _raster: HTMLCanvasElement | null = null;
+    private _rasterKey: string = '';
+    private _density: Float32Array | null = null;
+    private _gradient: Rgb[] = [];
+
+    constructor(options: Partial<LiquidationHeatmapOptions> = {}) {
+        this.setOptions(options);
+    }
+
+    get options(): Readonly<LiquidationHeatmapOptions> {
+        return this._options;
+    }
+
+    setOptions(options: Partial<LiquidationHeatmapOptions>): void {
+        this._options = { ...this._options, ...options };
+        this._gradient = this._options.colors.map(parseColor);
+        this._optionsVersion++;
+    }
+
+    setMap(map: LiquidationMap | null): void {
+        this._map = map;
+        this._rasterKey = '';
+    }
+
+    /**
+     * @param times - open time of the main series bar at every index
+     */
+    draw(
+        scope: BitmapCoordinatesScope,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale
+    ): void {
+        const map = this._map;
+        if (!map || times.length === 0 || map.columns().length === 0 || map.priceStep <= 0) return;
+
+        const display = this._options.display;
+        if (display === 'heatmap' || display === 'both') {
+            this._drawHeatmap(scope, map, timeScale, times, priceScale);
+        }
+        if (display === 'levels' || display === 'both') {
+            this._drawLevels(scope, map, timeScale, times, priceScale);
+        }
+    }
+
+    // --- Private ---
+
+    private _drawHeatmap(
+        scope: BitmapCoordinatesScope,
+        map: LiquidationMap,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale
+    ): void {
+        const width = Math.ceil(scope.mediaSize.width);
+        const height = Math.ceil(scope.mediaSize.height);
+        if (width <= 0 || height <= 0) return;
+
+        const priceRange = priceScale.getVisiblePriceRange();
+        const key = [
+            map.version, this._optionsVersion, width, height,
+            timeScale.barSpacing, timeScale.coordinateToFloatIndex(coordinate(0)),
+            times.length, times[0], priceRange?.min, priceRange?.max, priceScale.mode,
+        ].join();
+        if (key !== this._rasterKey || !this._raster) {
+            this._renderRaster(map, timeScale, times, priceScale, width, height);
+            this._rasterKey = key;
+        }
+
+        const ctx = scope.context;
+        ctx.save();
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(this._raster!, 0, 0, scope.bitmapSize.width, scope.bitmapSize.height);
+        ctx.restore();
+    }
+
+    /**
+     * Paint the columns at one pixel per CSS pixel; columns sharing a pixel,
+     * when zoomed out, keep the largest level
+     */
+    private _renderRaster(
+        map: LiquidationMap,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale,
+        width: number,
+        height: number
+    ): void {
+        if (!this._raster) {
+            this._raster = document.createElement('canvas');
+        }
+        const raster = this._raster;
+        if (raster.width !== width || raster.height !== height) {
+            raster.width = width;
+            raster.height = height;
+        }
+        const rasterCtx = raster.getContext('2d');
+        if (!rasterCtx) return;
+
+        const size = width * height;
+        if (!this._density || this._density.length !== size) {
+            this._density = new Float32Array(size);
+        } else {
+            this._density.fill(0);
+        }
+        const density = this._density;
+
+        const step = map.priceStep;
+        const halfBar = timeScale.barSpacing / 2;
+        const addColumn = (column: LiquidationColumn) => {
+            const center = timeScale.indexToCoordinate(timeToIndex(times, column.time) as TimePointIndex);
+            if (center + halfBar <= 0 || center - halfBar >= width) return;
+            const from = Math.max(0, Math.floor(center - halfBar));
+            const to = Math.min(width, Math.max(from + 1, Math.round(center + halfBar)));
+
+            for (let i = 0; i < column.rows.length; i++) {
+                const value = column.longs[i] + column.shorts[i];
+                if (value <= 0) continue;
+
+                const price = column.rows[i] * step;
+                const top = priceScale.priceToCoordinate(price + step / 2);
+                const bottom = priceScale.priceToCoordinate(price - step / 2);
+                const y0 = Math.max(0, Math.floor(Math.min(top, bottom)));
+                const y1 = Math.min(height, Math.max(y0 + 1, Math.ceil(Math.max(top, bottom))));
+                for (let y = y0; y < y1; y++) {
+                    const offset = y * width;
+                    for (let x = from; x < to; x++) {
+                        if (value > density[offset + x]) density[offset + x] = value;
+                    }
+                }
+            }
+        };
+        for (const column of map.columns()) {
+            addColumn(column);
+        }
+
+        const maxValue = map.maxValue > 0 ? map.maxValue : 1;
+        const threshold = maxValue * this._options.threshold;
+        const image = rasterCtx.createImageData(width, height);
+        const pixels = image.data;
+        for (let i = 0; i < size; i++) {
+            const value = density[i];
+            if (value <= threshold) continue;
+
+            const intensity = Math.sqrt(Math.min(1, value / maxValue));
+            const [r, g, b] = this._gradientColor(intensity);
+            const offset = i * 4;
+            pixels[offset] = r;
+            pixels[offset + 1] = g;
+            pixels[offset + 2] = b;
+            pixels[offset + 3] = Math.round(Math.min(1, this._options.opacity * (0.3 + 0.7 * intensity)) * 255);
+        }
+        rasterCtx.putImageData(image, 0, 0);
+    }
+
+    /** Largest open levels as lines from the bar they were added in to the right edge */
+    private _drawLevels(
+        scope: BitmapCoordinatesScope,
+        map: LiquidationMap,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale
+    ): void {
+        const levels = map.levels().slice(0, this._options.maxLevels);
+        if (levels.length === 0) return;
+
+        const largest = levels[0].value;
+        const ctx = scope.context;
+        const hRatio = scope.horizontalPixelRatio;
+        const vRatio = scope.verticalPixelRatio;
+        const halfBar = timeScale.barSpacing / 2;
+
+        ctx.save();
+        for (const level of levels) {
+            const intensity = level.value / largest;
+            if (intensity < this._options.threshold) continue;
+
+            const y = priceScale.priceToCoordinate(level.price);
+            if (y < 0 || y > scope.mediaSize.height) continue;
+            const x = timeScale.indexToCoordinate(timeToIndex(times, level.since) as TimePointIndex) - halfBar;
+
+            const lineWidth = Math.max(1, Math.round((1 + 2 * intensity) * vRatio));
+            ctx.globalAlpha = 0.35 + 0.65 * intensity;
+            ctx.fillStyle = level.side === 'long' ? this._options.longColor : this._options.shortColor;
+            ctx.fillRect(
+                Math.round(Math.max(0, x) * hRatio),
+                Math.round(y * vRatio - lineWidth / 2),
+                scope.bitmapSize.width,
+                lineWidth
+            );
+        }
+        ctx.restore();
+    }
+
+    private _gradientColor(intensity: number): Rgb {
+        const gradient = this._gradient;
+        if (gradient.length === 0) return [255, 255, 255];
+        if (gradient.length === 1) return gradient[0];
+
+        const position = intensity * (gradient.length - 1);
+        const index = Math.min(gradient.length - 2, Math.floor(position));
+        return mixColors(gradient[index], gradient[index + 1], position - index);
+    }
+}
@@ -6,10 +6,16 @@
  * 2. Order Aging: Tracks how long orders stay in the book.
  *    - New orders (Flash/Spoof?) -> Bright/Neon colors.
  *    - Old orders (Stable/Iceberg?) -> Deep/Solid colors.
+ * 3. History: past snapshots from an OrderbookHistory as a raster behind
+ *    the candles, one column per bucket, with the same coloring.
  */
 
 import { OrderbookData } from '../services/binance-orderbook-service';
 import { PriceScale } from '../model/price-scale';
+import { TimeScale } from '../model/time-scale';
+import { TimePointIndex, coordinate } from '../model/coordinate';
+import { OrderbookHistory, OrderbookHistoryColumn } from '../model/orderbook-history';
+import { BitmapCoordinatesScope } from './grid-renderer';
 
 export interface HeatmapOptions {
     enabled: boolean;
@@ -26,8 +32,16 @@ export interface HeatmapOptions {
     // Stability Analysis Options
     useStabilityColoring: boolean; // Enable age-based coloring
     stableAgeSeconds: number;      // Time in seconds to reach "Full Stability" color
+
+    // History Options
+    showHistory: boolean;          // Draw the orderbook history behind the candles
+    historyOpacity: number;        // Opacity of the history raster
 }
 
+export type Rgb = [number, number, number];
+
+const WHITE: Rgb = [255, 255, 255];
+
 const defaultOptions: HeatmapOptions = {
     enabled: true,
     bidColor: '#00d4aa',      // Cyan
@@ -42,6 +56,9 @@ const defaultOptions: HeatmapOptions = {
 
     useStabilityColoring: true,
     stableAgeSeconds: 30,     // 30 seconds to be considered "Stable"
+
+    showHistory: true,
+    historyOpacity: 0.6,
 };
 
 export class OrderbookHeatmapRenderer {
@@ -65,6 +82,16 @@ export class OrderbookHeatmapRenderer {
     private _askAgeBuffer: Float32Array | null = null;
     private _bufferSize: number = 0;
 
+    // History raster, redrawn when the history, the scales or the options change
+    private _history: OrderbookHistory | null = null;
+    private _raster: HTMLCanvasElement | null = null;
+    private _rasterKey: string = '';
+    private _rasterDensity: Float32Array | null = null;
+    private _rasterAge: Float32Array | null = null;
+    private _rasterIsBid: Uint8Array | null = null;
+    private _optionsVersion: number = 0;
+    private readonly _parsedColors = new Map<string, Rgb>();
+
     constructor(options: Partial<HeatmapOptions> = {}) {
         this._options = { ...defaultOptions, ...options };
     }
@@ -79,6 +106,13 @@ export class OrderbookHeatmapRenderer {
 
     setOptions(options: Partial<HeatmapOptions>): void {
         this._options = { ...this._options, ...options };
+        this._optionsVersion++;
+    }
+
+    /** History drawn behind the candles by drawHistory() */
+    setHistory(history: OrderbookHistory | null): void {
+        this._history = history;
+        this._rasterKey = '';
     }
 
     updateOrderbook(orderbook: OrderbookData): void {
@@ -256,86 +290,271 @@ export class OrderbookHeatmapRenderer {
             const normalized = Math.min(1, density / maxDensity);
             const visualIntensity = Math.sqrt(normalized);
 
-            // 1. Base Color Selection
-            let color: string;
-
-            if (visualIntensity > 0.95) {
-                // Peak Density -> Yellow/Gold
-                color = this._options.highlightColor;
-            } else {
-                // Normal Density -> Bid/Ask Color
-                color = isBid ? this._options.bidColor : this._options.askColor;
-            }
-
-            // 2. Stability Overlay (Apply to ANY color)
-            if (this._options.useStabilityColoring) {
-                const stability = Math.min(1, avgAge / this._options.stableAgeSeconds);
-
-                // Logic:
-                // Moderate+ Density (>80% visual, ~64% raw) + Stable (>70%) -> PURPLE (Real Wall)
-                // 0.5 was too low (too much purple). 0.8 is a better balance.
-
-                if (visualIntensity > 0.8 && stability > 0.7) {
-                    color = this._options.stableWallColor;
-                }
-                // If Fresh (< 30% stable time), mix with white to create "Neon/Bright" effect
-                else if (stability < 0.3) {
-                    color = this._getStabilityColor(color, stability);
-                }
-            }
-
+            const [r, g, b] = this._levelColor(isBid, visualIntensity, avgAge);
             const barWidth = width * visualIntensity;
-            const alpha = this._options.opacity * (0.2 + 0.8 * visualIntensity);
+            const alpha = Math.min(1, this._options.opacity * (0.2 + 0.8 * visualIntensity));
 
-            ctx.fillStyle = this._colorWithOpacity(color, alpha);
+            ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${alpha})`;
             ctx.fillRect(chartWidthPx - 12 * vpr - barWidth, y, barWidth, 1);
         }
 
         ctx.restore();
     }
 
-    private _getStabilityColor(baseColor: string, stability: number): string {
-        if (!baseColor.startsWith('#')) return baseColor;
-
-        if (stability < 0.3) {
-            const mix = (0.3 - stability) * 2;
-            return this._mixColors(baseColor, '#ffffff', mix);
+    /**
+     * Draw the orderbook history behind the series
+     * @param times - open time (ms) of the bar at every index
+     */
+    drawHistory(
+        scope: BitmapCoordinatesScope,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale
+    ): void {
+        const history = this._history;
+        if (!this._options.enabled || !this._options.showHistory || !history) return;
+        if (times.length === 0 || history.columnCount === 0 || history.priceStep <= 0) return;
+
+        const width = Math.ceil(scope.mediaSize.width);
+        const height = Math.ceil(scope.mediaSize.height);
+        if (width <= 0 || height <= 0) return;
+
+        const priceRange = priceScale.getVisiblePriceRange();
+        const key = [
+            history.version, this._optionsVersion, width, height,
+            timeScale.barSpacing, timeScale.coordinateToFloatIndex(coordinate(0)),
+            times.length, times[0], priceRange?.min, priceRange?.max, priceScale.mode,
+        ].join();
+        if (key !== this._rasterKey || !this._raster) {
+            this._renderHistoryRaster(history, timeScale, times, priceScale, width, height);
+            this._rasterKey = key;
         }
-        return baseColor;
+
+        const ctx = scope.context;
+        ctx.save();
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(this._raster!, 0, 0, scope.bitmapSize.width, scope.bitmapSize.height);
+        ctx.restore();
     }
 
-    private _mixColors(c1: string, c2: string, ratio: number): string {
-        const r1 = parseInt(c1.slice(1, 3), 16);
-        const g1 = parseInt(c1.slice(3, 5), 16);
-        const b1 = parseInt(c1.slice(5, 7), 16);
+    /**
+     * Paint the history at one pixel per CSS pixel. Columns narrower than a
+     * pixel, when zoomed out, are merged by their strongest level, and price
+     * rows shorter than a pixel add up.
+     */
+    private _renderHistoryRaster(
+        history: OrderbookHistory,
+        timeScale: TimeScale,
+        times: readonly number[],
+        priceScale: PriceScale,
+        width: number,
+        height: number
+    ): void {
+        if (!this._raster) {
+            this._raster = document.createElement('canvas');
+        }
+        const raster = this._raster;
+        if (raster.width !== width || raster.height !== height) {
+            raster.width = width;
+            raster.height = height;
+        }
+        const rasterCtx = raster.getContext('2d');
+        if (!rasterCtx) return;
+
+        const size = width * height;
+        if (!this._rasterDensity || this._rasterDensity.length !== size) {
+            this._rasterDensity = new Float32Array(size);
+            this._rasterAge = new Float32Array(size);
+            this._rasterIsBid = new Uint8Array(size);
+        } else {
+            this._rasterDensity.fill(0);
+            this._rasterAge!.fill(0);
+            this._rasterIsBid!.fill(0);
+        }
+        const density = this._rasterDensity;
+        const ageOut = this._rasterAge!;
+        const isBidOut = this._rasterIsBid!;
+
+        const step = history.priceStep;
+        const halfBar = timeScale.barSpacing / 2;
+        const timeToX = (time: number) =>
+            timeScale.indexToCoordinate(timeToIndex(times, time) as TimePointIndex) - halfBar;
+
+        // Per pixel row of the group of columns being merged
+        const bid = new Float32Array(height);
+        const ask = new Float32Array(height);
+        const bidAge = new Float32Array(height);
+        const askAge = new Float32Array(height);
+        let groupStart: number | null = null;
+        let groupEnd = 0;
+        let pixelsPerRow = 1;
+
+        const flush = () => {
+            if (groupStart === null) return;
+            const from = Math.max(0, Math.floor(groupStart));
+            const to = Math.min(width, Math.max(from + 1, Math.round(groupEnd)));
+            for (let y = 0; y < height; y++) {
+                const side = bid[y] >= ask[y];
+                const value = side ? bid[y] : ask[y];
+                if (value <= 0) continue;
+                const age = (side ? bidAge[y] : askAge[y]) / value;
+                for (let x = from; x < to; x++) {
+                    const i = y * width + x;
+                    density[i] = value;
+                    ageOut[i] = age;
+                    isBidOut[i] = side ? 1 : 0;
+                }
+            }
+            bid.fill(0);
+            ask.fill(0);
+            bidAge.fill(0);
+            askAge.fill(0);
+            groupStart = null;
+        };
+
+        // Per pixel row of one column
+        const columnBid = new Float32Array(height);
+        const columnAsk = new Float32Array(height);
+        const columnBidAge = new Float32Array(height);
+        const columnAskAge = new Float32Array(height);
+
+        const addColumn = (column: OrderbookHistoryColumn) => {
+            let minY = height;
+            let maxY = -1;
+            for (let i = 0; i < column.rows.length; i++) {
+                const price = column.rows[i] * step;
+                const top = priceScale.priceToCoordinate(price + step / 2);
+                const bottom = priceScale.priceToCoordinate(price - step / 2);
+                const y0 = Math.min(top, bottom);
+                const y1 = Math.max(top, bottom);
+                if (y1 < 0 || y0 >= height) continue;
+                pixelsPerRow = y1 - y0;
+
+                const first = Math.max(0, Math.floor(y0));
+                const last = Math.min(height - 1, Math.max(first, Math.ceil(y1) - 1));
+                const subPixel = y1 - y0 < 1;
+                const bidValue = column.bids[i];
+                const askValue = column.asks[i];
+                const age = column.ages[i];
+                for (let y = first; y <= last; y++) {
+                    if (subPixel) {
+                        columnBid[y] += bidValue;
+                        columnAsk[y] += askValue;
+                        columnBidAge[y] += age * bidValue;
+                        columnAskAge[y] += age * askValue;
+                        continue;
+                    }
+                    if (bidValue > columnBid[y]) {
+                        columnBid[y] = bidValue;
+                        columnBidAge[y] = age * bidValue;
+                    }
+                    if (askValue > columnAsk[y]) {
+                        columnAsk[y] = askValue;
+                        columnAskAge[y] = age * askValue;
+                    }
+                }
+                minY = Math.min(minY, first);
+                maxY = Math.max(maxY, last);
+            }
 
-        const r2 = parseInt(c2.slice(1, 3), 16);
-        const g2 = parseInt(c2.slice(3, 5), 16);
-        const b2 = parseInt(c2.slice(5, 7), 16);
+            // Strongest column of the group per pixel row
+            for (let y = minY; y <= maxY; y++) {
+                if (columnBid[y] > bid[y]) {
+                    bid[y] = columnBid[y];
+                    bidAge[y] = columnBidAge[y];
+                }
+                if (columnAsk[y] > ask[y]) {
+                    ask[y] = columnAsk[y];
+                    askAge[y] = columnAskAge[y];
+                }
+                columnBid[y] = 0;
+                columnAsk[y] = 0;
+                columnBidAge[y] = 0;
+                columnAskAge[y] = 0;
+            }
+        };
 
-        const r = Math.round(r1 * (1 - ratio) + r2 * ratio);
-        const g = Math.round(g1 * (1 - ratio) + g2 * ratio);
-        const b = Math.round(b1 * (1 - ratio) + b2 * ratio);
+        for (const column of history.columns()) {
+            const x0 = timeToX(column.time);
+            const x1 = timeToX(column.endTime);
+            if (x1 <= 0 || x0 >= width) continue;
 
-        return `rgba(${r}, ${g}, ${b}, 1)`;
-    }
+            // A new pixel column starts once the group is a pixel wide
+            if (groupStart !== null && (groupEnd - groupStart >= 1 || x0 - groupEnd >= 1)) {
+                flush();
+            }
+            if (groupStart === null) groupStart = x0;
+            groupEnd = x1;
+            addColumn(column);
+        }
+        flush();
 
-    private _colorWithOpacity(color: string, opacity: number): string {
-        opacity = Math.min(1, Math.max(0, opacity));
+        // Normalize as the strip does; rows shorter than a pixel add up
+        let maxDensity = 0;
+        if (this._options.maxDensity === 'local') {
+            for (let i = 0; i < size; i++) maxDensity = Math.max(maxDensity, density[i]);
+        } else {
+            maxDensity = history.maxNotional * Math.max(1, 1 / Math.max(pixelsPerRow, 1e-6));
+        }
+        if (maxDensity <= 0) maxDensity = 1;
 
-        if (color.startsWith('rgba')) {
-            return color.replace(', 1)', `, ${opacity})`).replace(',1)', `, ${opacity})`);
+        const image = rasterCtx.createImageData(width, height);
+        const pixels = image.data;
+        const threshold = maxDensity * this._options.threshold;
+        for (let i = 0; i < size; i++) {
+            const value = density[i];
+            if (value <= threshold) continue;
+
+            const visualIntensity = Math.sqrt(Math.min(1, value / maxDensity));
+            const [r, g, b] = this._levelColor(isBidOut[i] === 1, visualIntensity, ageOut[i]);
+            const alpha = Math.min(1, this._options.historyOpacity * (0.2 + 0.8 * visualIntensity));
+            const offset = i * 4;
+            pixels[offset] = r;
+            pixels[offset + 1] = g;
+            pixels[offset + 2] = b;
+            pixels[offset + 3] = Math.round(alpha * 255);
         }
+        rasterCtx.putImageData(image, 0, 0);
+    }
 
-        if (color.startsWith('#')) {
-            const r = parseInt(color.slice(1, 3), 16);
-            const g = parseInt(color.slice(3, 5), 16);
-            const b = parseInt(color.slice(5, 7), 16);
-            return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+    /**
+     * Color of a density level: gold at the peak, purple for a stable wall,
+     * mixed with white while fresh
+     */
+    private _levelColor(isBid: boolean, visualIntensity: number, avgAge: number): Rgb {
+        // 1. Base Color Selection: Peak Density -> Yellow/Gold, otherwise Bid/Ask Color
+        let color = this._parseColor(visualIntensity > 0.95
+            ? this._options.highlightColor
+            : isBid ? this._options.bidColor : this._options.askColor);
+
+        // 2. Stability Overlay (Apply to ANY color)
+        if (this._options.useStabilityColoring) {
+            const stability = Math.min(1, avgAge / this._options.stableAgeSeconds);
+
+            // Logic:
+            // Moderate+ Density (>80% visual, ~64% raw) + Stable (>70%) -> PURPLE (Real Wall)
+            // 0.5 was too low (too much purple). 0.8 is a better balance.
+
+            if (visualIntensity > 0.8 && stability > 0.7) {
+                color = this._parseColor(this._options.stableWallColor);
+            }
+            // If Fresh (< 30% stable time), mix with white to create "Neon/Bright" effect
+            else if (stability < 0.3) {
+                color = mixColors(color, WHITE, (0.3 - stability) * 2);
+            }
         }
         return color;
     }
 
+    private _parseColor(color: string): Rgb {
+        let rgb = this._parsedColors.get(color);
+        if (!rgb) {
+            rgb = parseColor(color);
+            this._parsedColors.set(color, rgb);
+        }
+        return rgb;
+    }
+
     getSummary() {
         if (!this._orderbook) return null;
         return {
@@ -343,3 +562,42 @@ export class OrderbookHeatmapRenderer {
         };
     }
 }
+
+export function mixColors(c1: Rgb, c2: Rgb, ratio: number): Rgb {
+    return [
+        Math.round(c1[0] * (1 - ratio) + c2[0] * ratio),
+        Math.round(c1[1] * (1 - ratio) + c2[1] * ratio),
+        Math.round(c1[2] * (1 - ratio) + c2[2] * ratio),
+    ];
+}
+
+/** RGB of a #rrggbb or rgb()/rgba() color, gray for other formats */
+export function parseColor(color: string): Rgb {
+    if (color.startsWith('#') && color.length >= 7) {
+        return [parseInt(color.slice(1, 3), 16), parseInt(color.slice(3, 5), 16), parseInt(color.slice(5, 7), 16)];
+    }
+    const match = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+    if (match) {
+        return [Number(match[1]), Number(match[2]), Number(match[3])];
+    }
+    return [128, 128, 128];
+}
+
+/**
+ * Fractional bar index of a time, extrapolated past the first and last bar
+ * @param times - open time of the bar at every index, ascending
+ */
+export function timeToIndex(times: readonly number[], time: number): number {
+    const last = times.length - 1;
+    if (last === 0) return 0;
+    if (time <= times[0]) return (time - times[0]) / (times[1] - times[0]);
+    if (time >= times[last]) return last + (time - times[last]) / (times[last] - times[last - 1]);
+
+    let low = 0;
+    let high = last;
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (times[mid] <= time) low = mid; else high = mid;
+    }
+    return low + (time - times[low]) / (times[high] - times[low]);
+}
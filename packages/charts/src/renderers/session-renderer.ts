@@ -0,0 +1,80 @@
+import { BitmapCoordinatesScope } from './grid-renderer';
+import { SessionOptions } from '../model/chart-model';
+import { TimeScale } from '../model/time-scale';
+import { TimePointIndex } from '../model/coordinate';
+import { TradingSession, sessionDayOf } from '../helpers/sessions';
+
+/**
+ * Session renderer - out-of-session background and session-break lines
+ */
+export class SessionRenderer {
+    /**
+     * Draw behind the series
+     * @param times - open time (ms) of the bar at every index
+     */
+    draw(
+        scope: BitmapCoordinatesScope,
+        timeScale: TimeScale,
+        times: readonly number[],
+        from: number,
+        to: number,
+        session: TradingSession,
+        options: SessionOptions
+    ): void {
+        if (!options.shadeOutOfSession && !options.showSessionBreaks) return;
+
+        const { context: ctx, horizontalPixelRatio, bitmapSize } = scope;
+        const halfBar = timeScale.barSpacing / 2;
+        const first = Math.max(0, Math.floor(from));
+        const last = Math.min(times.length - 1, Math.ceil(to));
+
+        ctx.save();
+
+        // Session of the bar before the visible range, so a break at the left edge is drawn
+        let previousDay = first > 0 ? sessionDayOf(times[first - 1], session) : null;
+        let shadeStart: number | null = null;
+
+        for (let i = first; i <= last; i++) {
+            const x = timeScale.indexToCoordinate(i as TimePointIndex);
+            const day = sessionDayOf(times[i], session);
+
+            if (day === null) {
+                if (options.shadeOutOfSession && shadeStart === null) shadeStart = x - halfBar;
+                continue;
+            }
+
+            if (shadeStart !== null) {
+                this._shade(scope, shadeStart, x - halfBar, options.outOfSessionColor);
+                shadeStart = null;
+            }
+
+            if (options.showSessionBreaks && previousDay !== null && day !== previousDay) {
+                const lineX = Math.round((x - halfBar) * horizontalPixelRatio) + 0.5;
+                ctx.strokeStyle = options.sessionBreakColor;
+                ctx.lineWidth = 1;
+                ctx.setLineDash([4 * horizontalPixelRatio, 4 * horizontalPixelRatio]);
+                ctx.beginPath();
+                ctx.moveTo(lineX, 0);
+                ctx.lineTo(lineX, bitmapSize.height);
+                ctx.stroke();
+            }
+            previousDay = day;
+        }
+
+        if (shadeStart !== null) {
+            const lastX = timeScale.indexToCoordinate(last as TimePointIndex);
+            this._shade(scope, shadeStart, lastX + halfBar, options.outOfSessionColor);
+        }
+
+        ctx.restore();
+    }
+
+    private _shade(scope: BitmapCoordinatesScope, fromX: number, toX: number, color: string): void {
+        if (toX <= fromX) return;
+
+        const ratio = scope.horizontalPixelRatio;
+        const left = Math.round(fromX * ratio);
+        scope.context.fillStyle = color;
+        scope.context.fillRect(left, 0, Math.round(toX * ratio) - left, scope.bitmapSize.height);
+    }
+}
@@ -0,0 +1,57 @@
+import { BitmapCoordinatesScope } from './candlestick-renderer';
+import { StepLineSeries } from '../model/step-line-series';
+import { BarWithCoordinates } from '../model/series';
+
+/**
+ * Step line renderer
+ */
+export class StepLineRenderer {
+    private readonly _series: StepLineSeries;
+
+    constructor(series: StepLineSeries) {
+        this._series = series;
+    }
+
+    draw(scope: BitmapCoordinatesScope, bars: BarWithCoordinates[]): void {
+        if (bars.length < 2) return;
+
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.stepLineOptions;
+
+        ctx.beginPath();
+        ctx.strokeStyle = options.color;
+        ctx.lineWidth = options.lineWidth * horizontalPixelRatio;
+        ctx.lineJoin = 'miter';
+        ctx.lineCap = 'butt';
+
+        if (options.lineStyle === 'dashed') {
+            ctx.setLineDash([5 * horizontalPixelRatio, 3 * horizontalPixelRatio]);
+        } else if (options.lineStyle === 'dotted') {
+            ctx.setLineDash([2 * horizontalPixelRatio, 2 * horizontalPixelRatio]);
+        } else {
+            ctx.setLineDash([]);
+        }
+
+        let prevY: number | null = null;
+        for (const bar of bars) {
+            // Use 'y' for LineData, fall back to 'closeY' for BarData
+            const yValue = bar.y ?? bar.closeY;
+            if (yValue === undefined) continue;
+
+            const x = bar.x * horizontalPixelRatio;
+            const y = yValue * verticalPixelRatio;
+
+            if (prevY === null) {
+                ctx.moveTo(x, y);
+            } else {
+                // Hold the previous value up to this point, then step
+                ctx.lineTo(x, prevY);
+                ctx.lineTo(x, y);
+            }
+            prevY = y;
+        }
+
+        ctx.stroke();
+        ctx.setLineDash([]);
+    }
+}
@@ -0,0 +1,149 @@
+import { VolumeProfile } from '../model/volume-profile';
+
+/**
+ * Colors and lines of a volume profile
+ */
+export interface VolumeProfileStyle {
+    upColor: string;
+    downColor: string;
+    valueAreaUpColor: string;
+    valueAreaDownColor: string;
+    /** Up and down volume side by side, otherwise the total in the up colors */
+    showUpDown: boolean;
+    showPoc: boolean;
+    pocColor: string;
+    /** Value area high and low lines */
+    showValueArea: boolean;
+    valueAreaColor: string;
+}
+
+export const DEFAULT_VOLUME_PROFILE_STYLE: VolumeProfileStyle = {
+    upColor: 'rgba(38, 166, 154, 0.3)',
+    downColor: 'rgba(239, 83, 80, 0.3)',
+    valueAreaUpColor: 'rgba(38, 166, 154, 0.7)',
+    valueAreaDownColor: 'rgba(239, 83, 80, 0.7)',
+    showUpDown: true,
+    showPoc: true,
+    pocColor: '#ff9800',
+    showValueArea: true,
+    valueAreaColor: 'rgba(41, 98, 255, 0.7)',
+};
+
+/**
+ * Where a profile is drawn, in bitmap pixels
+ */
+export interface VolumeProfileArea {
+    /** Left edge of the box the rows grow in */
+    x: number;
+    width: number;
+    /** Side the rows grow from */
+    align: 'left' | 'right';
+    /** Horizontal span of the POC and value area lines (default: the box) */
+    lineFrom?: number;
+    lineTo?: number;
+}
+
+/**
+ * Volume profile renderer - rows of volume at price with POC and value area
+ */
+export class VolumeProfileRenderer {
+    private _style: VolumeProfileStyle = { ...DEFAULT_VOLUME_PROFILE_STYLE };
+
+    get style(): Readonly<VolumeProfileStyle> {
+        return this._style;
+    }
+
+    setStyle(style: Partial<VolumeProfileStyle>): void {
+        this._style = { ...this._style, ...style };
+    }
+
+    /**
+     * @param priceToY - bitmap y of a price
+     * @param maxVolume - volume of a full-width row (default: the profile's largest row)
+     */
+    draw(
+        ctx: CanvasRenderingContext2D,
+        profile: VolumeProfile,
+        area: VolumeProfileArea,
+        priceToY: (price: number) => number,
+        pixelRatio: number,
+        maxVolume: number = profile.maxVolume
+    ): void {
+        if (maxVolume <= 0 || area.width <= 0) return;
+
+        const style = this._style;
+        const gap = profile.rows.length > 1 ? Math.max(0, Math.round(pixelRatio)) : 0;
+        const grow = area.align === 'left' ? 1 : -1;
+        const origin = area.align === 'left' ? area.x : area.x + area.width;
+
+        ctx.save();
+        for (let r = 0; r < profile.rows.length; r++) {
+            const row = profile.rows[r];
+            const total = row.up + row.down;
+            if (total <= 0) continue;
+
+            const top = Math.round(priceToY(row.high));
+            const bottom = Math.round(priceToY(row.low));
+            const height = Math.max(1, bottom - top - gap);
+            const inValueArea = row.low >= profile.valueAreaLow && row.high <= profile.valueAreaHigh;
+            const upColor = inValueArea ? style.valueAreaUpColor : style.upColor;
+            const downColor = inValueArea ? style.valueAreaDownColor : style.downColor;
+
+            const totalWidth = total / maxVolume * area.width;
+            if (!style.showUpDown) {
+                ctx.fillStyle = upColor;
+                this._fillRow(ctx, origin, grow, 0, totalWidth, top, height);
+                continue;
+            }
+
+            const upWidth = totalWidth * row.up / total;
+            ctx.fillStyle = upColor;
+            this._fillRow(ctx, origin, grow, 0, upWidth, top, height);
+            ctx.fillStyle = downColor;
+            this._fillRow(ctx, origin, grow, upWidth, totalWidth - upWidth, top, height);
+        }
+
+        const lineFrom = area.lineFrom ?? area.x;
+        const lineTo = area.lineTo ?? area.x + area.width;
+        ctx.lineWidth = Math.max(1, Math.floor(pixelRatio));
+        if (style.showValueArea) {
+            ctx.strokeStyle = style.valueAreaColor;
+            ctx.setLineDash([4 * pixelRatio, 4 * pixelRatio]);
+            this._line(ctx, lineFrom, lineTo, priceToY(profile.valueAreaHigh));
+            this._line(ctx, lineFrom, lineTo, priceToY(profile.valueAreaLow));
+            ctx.setLineDash([]);
+        }
+        if (style.showPoc) {
+            ctx.strokeStyle = style.pocColor;
+            ctx.lineWidth = Math.max(1, Math.floor(2 * pixelRatio));
+            this._line(ctx, lineFrom, lineTo, priceToY(profile.poc));
+        }
+        ctx.restore();
+    }
+
+    // --- Private ---
+
+    private _fillRow(
+        ctx: CanvasRenderingContext2D,
+        origin: number,
+        grow: number,
+        offset: number,
+        width: number,
+        top: number,
+        height: number
+    ): void {
+        if (width <= 0) return;
+        const start = origin + grow * offset;
+        const end = start + grow * width;
+        const left = Math.round(Math.min(start, end));
+        ctx.fillRect(left, top, Math.max(1, Math.round(Math.max(start, end)) - left), height);
+    }
+
+    private _line(ctx: CanvasRenderingContext2D, from: number, to: number, y: number): void {
+        const lineY = Math.round(y) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(from, lineY);
+        ctx.lineTo(to, lineY);
+        ctx.stroke();
+    }
+}
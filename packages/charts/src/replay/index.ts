@@ -0,0 +1,5 @@
+/**
+ * Replay module - bar replay for historical practice
+ */
+
+export * from './replay-controller';
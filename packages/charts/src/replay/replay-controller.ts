@@ -0,0 +1,443 @@
+/**
+ * Replay Controller - Bar replay for historical practice
+ *
+ * Hides every bar after a chosen start bar and reveals them again one at a
+ * time through the same path as live updates, so indicators, pattern detectors
+ * and drawings behave as if the market was live. Alerts are not evaluated on
+ * replayed bars, they belong to the live market.
+ *
+ * The replayed bars are the chart bars at the start. With a candle provider,
+ * switching timeframe mid-replay loads the new timeframe from it and later bars
+ * are paged in as the replay advances. Without one the start bars are
+ * aggregated, so only higher timeframes can be switched to.
+ */
+
+import { BarData, isBarData } from '../model/data';
+import { ChartModel } from '../model/chart-model';
+import { Series } from '../model/series';
+import { Delegate } from '../helpers/delegate';
+import { ICandleProvider } from '../data-providers/types';
+import {
+    normalizeTimeframe,
+    timeframeToMs,
+    getBarEndTime,
+    aggregateBars,
+    toCandleInterval
+} from '../helpers/timeframe';
+
+/** Speeds offered by the replay bar, 1x reveals one bar per second */
+export const REPLAY_SPEEDS = [1, 2, 3, 5, 10];
+
+const MAX_SPEED = 10;
+
+export interface ReplayProviderOptions {
+    /** Unit of Candle.time, default 'seconds' as documented on Candle */
+    timeUnit?: 'seconds' | 'milliseconds';
+    /** Bars requested per page (default: 500) */
+    limit?: number;
+}
+
+/**
+ * What the controller needs from the chart
+ */
+export interface ReplayHost {
+    readonly model: ChartModel;
+    setData(series: Series, data: BarData[]): void;
+}
+
+export class ReplayController {
+    private readonly _host: ReplayHost;
+
+    private _provider: ICandleProvider | null = null;
+    private _timeScale: number = 1000;
+    private _limit: number = 500;
+
+    private _active: boolean = false;
+    private _playing: boolean = false;
+    private _loading: boolean = false;
+    private _speed: number = 1;
+    private _timer: ReturnType<typeof setInterval> | null = null;
+
+    /** Known bars of the replay timeframe, including the hidden ones */
+    private _bars: BarData[] = [];
+    private _timeframe: string = '';
+    /** Number of bars revealed in full */
+    private _count: number = 0;
+    /** Forming bar after a timeframe switch, only what happened up to the replay time */
+    private _partial: BarData | null = null;
+    /** Replay "now": everything before it is known, nothing after */
+    private _time: number = 0;
+    /** No bars after the last known one */
+    private _exhausted: boolean = false;
+    /** Drops loads that finished after a restart or timeframe switch */
+    private _requestId: number = 0;
+
+    /** Chart bars at the start, aggregated on timeframe switches without a provider */
+    private _source: BarData[] = [];
+    private _sourceTimeframe: string = '';
+
+    private readonly _stateChanged = new Delegate<void>();
+
+    constructor(host: ReplayHost) {
+        this._host = host;
+    }
+
+    // --- Events ---
+
+    /** Fired on start/stop, play/pause, speed changes and every step */
+    get stateChanged(): Delegate<void> {
+        return this._stateChanged;
+    }
+
+    // --- State ---
+
+    get active(): boolean {
+        return this._active;
+    }
+
+    get playing(): boolean {
+        return this._playing;
+    }
+
+    /** Waiting for the provider (timeframe switch or next page) */
+    get loading(): boolean {
+        return this._loading;
+    }
+
+    get speed(): number {
+        return this._speed;
+    }
+
+    get timeframe(): string {
+        return this._timeframe;
+    }
+
+    /** Last bar on the chart, null when not replaying */
+    get currentBar(): Readonly<BarData> | null {
+        if (!this._active) return null;
+        return this._partial ?? this._bars[this._count - 1] ?? null;
+    }
+
+    get canStepBack(): boolean {
+        return this._active && (this._partial !== null || this._count > 1);
+    }
+
+    get canStepForward(): boolean {
+        return this._active && (this._count < this._bars.length || (this._provider !== null && !this._exhausted));
+    }
+
+    // --- Data source ---
+
+    /**
+     * Provider used to load other timeframes mid-replay and bars past the
+     * loaded ones. Pass null to replay the chart bars only.
+     */
+    setProvider(provider: ICandleProvider | null, options: ReplayProviderOptions = {}): void {
+        this._provider = provider;
+        this._timeScale = options.timeUnit === 'milliseconds' ? 1 : 1000;
+        this._limit = options.limit ?? 500;
+    }
+
+    /** Whether the replay can continue on the timeframe */
+    canChangeTimeframe(timeframe: string): boolean {
+        if (this._provider) return true;
+        return timeframeToMs(timeframe) >= timeframeToMs(this._sourceTimeframe);
+    }
+
+    // --- Replay ---
+
+    /**
+     * Start replaying from the bar at `time`: it stays on the chart, every
+     * later bar is hidden. Restarts from another bar when already replaying.
+     */
+    start(time: number): void {
+        const series = this._series;
+        if (!series) return;
+
+        if (!this._active) {
+            const data = series.data;
+            if (data.length === 0 || !isBarData(data[0])) return;
+
+            this._bars = (data as BarData[]).map(bar => ({ ...bar }));
+            this._timeframe = this._host.model.timeframe;
+            this._source = this._bars;
+            this._sourceTimeframe = this._timeframe;
+            this._exhausted = false;
+        }
+
+        this.pause();
+        this._requestId++;
+        this._loading = false;
+
+        let count = 0;
+        while (count < this._bars.length && this._bars[count].time <= time) count++;
+        this._count = Math.max(1, count);
+        this._partial = null;
+        this._time = getBarEndTime(this._bars[this._count - 1].time, this._timeframe);
+        this._active = true;
+
+        this._render();
+        this._stateChanged.fire();
+    }
+
+    /** Leave replay and put every known bar back on the chart */
+    stop(): void {
+        if (!this._active) return;
+
+        this.pause();
+        this._requestId++;
+        this._active = false;
+        this._loading = false;
+
+        const series = this._series;
+        if (series) {
+            this._host.setData(series, this._bars.map(bar => ({ ...bar })));
+            this._scrollToLastBar();
+        }
+
+        this._bars = [];
+        this._source = [];
+        this._partial = null;
+        this._count = 0;
+        this._stateChanged.fire();
+    }
+
+    play(): void {
+        if (!this._active || this._playing) return;
+        this._playing = true;
+        this._startTimer();
+        this._stateChanged.fire();
+    }
+
+    pause(): void {
+        if (!this._playing) return;
+        this._playing = false;
+        this._stopTimer();
+        this._stateChanged.fire();
+    }
+
+    togglePlay(): void {
+        if (this._playing) {
+            this.pause();
+        } else {
+            this.play();
+        }
+    }
+
+    /** Bars per second, 1 to 10 */
+    setSpeed(speed: number): void {
+        const clamped = Math.min(MAX_SPEED, Math.max(1, speed));
+        if (clamped === this._speed) return;
+
+        this._speed = clamped;
+        if (this._playing) {
+            this._stopTimer();
+            this._startTimer();
+        }
+        this._stateChanged.fire();
+    }
+
+    /**
+     * Reveal the next bar
+     * @returns false at the end of the data
+     */
+    async stepForward(): Promise<boolean> {
+        if (!this._active || this._loading) return false;
+
+        if (this._count >= this._bars.length) {
+            const requestId = this._requestId;
+            const loaded = await this._loadNextPage();
+            if (requestId !== this._requestId) return false;
+            if (!loaded) {
+                this.pause();
+                this._stateChanged.fire();
+                return false;
+            }
+        }
+
+        const series = this._series;
+        if (!series) return false;
+
+        // Same path as a live update, a forming bar is completed in place
+        const bar = { ...this._bars[this._count] };
+        series.updateData(bar as any);
+        this._count++;
+        this._partial = null;
+        this._time = getBarEndTime(bar.time, this._timeframe);
+
+        this._host.model.timeScale.setPointsCount(series.plotData.length);
+        this._host.model.fullUpdate();
+        this._stateChanged.fire();
+        return true;
+    }
+
+    /** Hide the last bar again */
+    stepBack(): boolean {
+        if (!this.canStepBack || this._loading) return false;
+
+        if (this._partial) {
+            this._partial = null;
+        } else {
+            this._count--;
+        }
+        this._time = getBarEndTime(this._bars[this._count - 1].time, this._timeframe);
+
+        this._render();
+        this._stateChanged.fire();
+        return true;
+    }
+
+    /**
+     * Continue the replay on another timeframe. Bars closed by the replay time
+     * are revealed, the bar forming at that time only shows what already
+     * happened in it. The replay stops if the timeframe can't be loaded.
+     */
+    async changeTimeframe(timeframe: string): Promise<void> {
+        if (!this._active || timeframe === this._timeframe) return;
+
+        this.pause();
+        const requestId = ++this._requestId;
+        const time = this._time;
+        const known = this._shownBars();
+
+        let bars: BarData[];
+        if (this._provider) {
+            this._loading = true;
+            this._stateChanged.fire();
+            try {
+                bars = await this._loadBars(timeframe, time, this._limit);
+            } catch (e) {
+                console.error('Failed to load replay bars:', e);
+                bars = [];
+            }
+            if (requestId !== this._requestId) return;
+            this._loading = false;
+        } else if (this.canChangeTimeframe(timeframe)) {
+            bars = normalizeTimeframe(timeframe) === normalizeTimeframe(this._sourceTimeframe)
+                ? this._source.map(bar => ({ ...bar }))
+                : aggregateBars(this._source, timeframe);
+        } else {
+            bars = [];
+        }
+
+        let count = 0;
+        while (count < bars.length && getBarEndTime(bars[count].time, timeframe) <= time) count++;
+
+        let partial: BarData | null = null;
+        if (count < bars.length && bars[count].time < time) {
+            const start = bars[count].time;
+            const inside = known.filter(bar => bar.time >= start && bar.time < time);
+            if (inside.length > 0) {
+                partial = { ...aggregateBars(inside, timeframe)[0], time: start };
+            }
+        }
+
+        if (count === 0 && !partial) {
+            console.warn(`Bar replay can't continue on ${timeframe}`);
+            this._bars = bars;
+            this.stop();
+            return;
+        }
+
+        this._timeframe = timeframe;
+        this._bars = bars;
+        this._count = count;
+        this._partial = partial;
+        this._exhausted = false;
+
+        this._render();
+        this._stateChanged.fire();
+    }
+
+    destroy(): void {
+        this._stopTimer();
+        this._requestId++;
+        this._stateChanged.destroy();
+    }
+
+    // --- Private ---
+
+    private get _series(): Series | null {
+        return this._host.model.serieses[0] ?? null;
+    }
+
+    private _shownBars(): BarData[] {
+        const bars = this._bars.slice(0, this._count);
+        if (this._partial) bars.push(this._partial);
+        return bars.map(bar => ({ ...bar }));
+    }
+
+    private _render(): void {
+        const series = this._series;
+        if (!series) return;
+        this._host.setData(series, this._shownBars());
+        this._scrollToLastBar();
+    }
+
+    private _scrollToLastBar(): void {
+        this._host.model.timeScale.scrollToPosition(0, false);
+        this._host.model.fullUpdate();
+    }
+
+    private _startTimer(): void {
+        this._timer = setInterval(() => {
+            if (this._loading) return;
+            void this.stepForward();
+        }, 1000 / this._speed);
+    }
+
+    private _stopTimer(): void {
+        if (this._timer !== null) {
+            clearInterval(this._timer);
+            this._timer = null;
+        }
+    }
+
+    /** Append the bars following the last known one */
+    private async _loadNextPage(): Promise<boolean> {
+        if (!this._provider || this._exhausted) return false;
+
+        const last = this._bars[this._bars.length - 1];
+        const endTime = getBarEndTime(last.time, this._timeframe) + this._limit * timeframeToMs(this._timeframe);
+
+        this._loading = true;
+        this._stateChanged.fire();
+        let bars: BarData[];
+        try {
+            bars = await this._loadBars(this._timeframe, endTime, this._limit);
+        } catch (e) {
+            console.error('Failed to load replay bars:', e);
+            return false;
+        } finally {
+            this._loading = false;
+        }
+
+        const newer = bars.filter(bar => bar.time > last.time);
+        if (newer.length === 0) {
+            this._exhausted = true;
+            return false;
+        }
+
+        this._bars.push(...newer);
+        return true;
+    }
+
+    /** Bars opened before endTime (ms) */
+    private async _loadBars(timeframe: string, endTime: number, limit: number): Promise<BarData[]> {
+        const candles = await this._provider!.getCandles(
+            this._host.model.symbol,
+            toCandleInterval(timeframe),
+            limit,
+            endTime
+        );
+
+        return candles.map(candle => ({
+            time: candle.time * this._timeScale,
+            open: candle.open,
+            high: candle.high,
+            low: candle.low,
+            close: candle.close,
+            volume: candle.volume,
+        }));
+    }
+}
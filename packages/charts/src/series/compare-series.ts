@@ -0,0 +1,142 @@
+/**
+ * Compare Series
+ *
+ * Another symbol drawn as a line over the main series. `data` keeps the
+ * symbol's own closes; `plotData` maps them onto the main series' bars (the
+ * last close at or before each bar, whitespace before the first one) so the
+ * time scale, crosshair and drawings keep working off the main series.
+ *
+ * Values are rebased so the line starts at the main series' first visible
+ * close: on a percentage or indexed scale both read as change from the left
+ * edge of the chart.
+ */
+
+import { LineData, SeriesDataItem, isLineData } from '../model/data';
+import { LineSeries, LineSeriesOptions } from '../model/line-series';
+import { Series, BarWithCoordinates } from '../model/series';
+import { ChartModel } from '../model/chart-model';
+import { PriceScale } from '../model/price-scale';
+import { TimeScale } from '../model/time-scale';
+import { Coordinate } from '../model/coordinate';
+
+export interface CompareSeriesOptions extends LineSeriesOptions {
+    /** Symbol (or synthetic expression) the line shows */
+    symbol: string;
+}
+
+export class CompareSeries extends LineSeries {
+    public readonly model: ChartModel;
+    private readonly _symbol: string;
+
+    private _plot: SeriesDataItem[] = [];
+    private _plotKey = '';
+    private _version = 0;
+
+    constructor(model: ChartModel, options: Partial<CompareSeriesOptions> & { symbol: string }) {
+        super({ lineWidth: 2, crosshairMarkerVisible: false, ...options });
+        this.model = model;
+        this._symbol = options.symbol;
+    }
+
+    get symbol(): string {
+        return this._symbol;
+    }
+
+    // --- Data ---
+
+    setData(data: LineData[]): void {
+        this._version++;
+        super.setData(data);
+    }
+
+    prependData(data: LineData[]): void {
+        this._version++;
+        super.prependData(data);
+    }
+
+    updateData(data: LineData): void {
+        this._version++;
+        super.updateData(data);
+    }
+
+    applyOptions(options: Partial<LineSeriesOptions>): void {
+        super.applyOptions(options);
+        this._dataChanged.fire();
+    }
+
+    /** Own closes aligned with the main series' plotted bars */
+    get plotData(): readonly SeriesDataItem[] {
+        const main = this._mainSeries();
+        const bars = main ? main.plotData : [];
+        const last = bars[bars.length - 1];
+        const key = `${this._version}:${bars.length}:${bars[0]?.time}:${last?.time}`;
+
+        if (key !== this._plotKey) {
+            this._plotKey = key;
+            this._plot = this._align(bars);
+        }
+        return this._plot;
+    }
+
+    // --- Rebasing ---
+
+    getPriceRange(from: number, to: number): { min: number; max: number } | null {
+        const factor = this._rebaseFactor(from, to);
+        const range = super.getPriceRange(from, to);
+        if (!range || factor === null) return null;
+        return { min: range.min * factor, max: range.max * factor };
+    }
+
+    calculateCoordinates(
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        from: number,
+        to: number
+    ): BarWithCoordinates[] {
+        const factor = this._rebaseFactor(from, to);
+        if (factor === null) return [];
+
+        return super.calculateCoordinates(timeScale, priceScale, from, to).map(bar => ({
+            ...bar,
+            y: priceScale.priceToCoordinate((bar.data as LineData).value * factor) as Coordinate,
+        }));
+    }
+
+    /**
+     * Value the line is drawn at for an own close in the visible range,
+     * null when there is nothing to rebase to
+     */
+    rebase(value: number, from: number, to: number): number | null {
+        const factor = this._rebaseFactor(from, to);
+        return factor === null ? null : value * factor;
+    }
+
+    // --- Private ---
+
+    private _mainSeries(): Series | null {
+        const main = this.model.serieses[0];
+        return main && main !== this ? main : null;
+    }
+
+    private _rebaseFactor(from: number, to: number): number | null {
+        const main = this._mainSeries();
+        const mainFirst = main?.getFirstValue(from, to);
+        const ownFirst = this.getFirstValue(from, to);
+        if (!mainFirst || !ownFirst) return null;
+        return mainFirst / ownFirst;
+    }
+
+    private _align(bars: readonly SeriesDataItem[]): SeriesDataItem[] {
+        const own = this._data;
+        const result: SeriesDataItem[] = new Array(bars.length);
+        let j = -1;
+
+        for (let i = 0; i < bars.length; i++) {
+            const time = bars[i].time;
+            while (j + 1 < own.length && own[j + 1].time <= time) j++;
+            const item = own[j];
+            result[i] = item && isLineData(item) ? { time, value: item.value } : { time };
+        }
+        return result;
+    }
+}
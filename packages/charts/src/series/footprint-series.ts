@@ -0,0 +1,174 @@
+import { CandlestickSeries, CandlestickSeriesOptions } from '../model/candlestick-series';
+import { ChartModel } from '../model/chart-model';
+import { PriceScale } from '../model/price-scale';
+import { tickSizeAt } from '../helpers/price-format';
+import { TradeFeed, TradeFeedLink } from '../orderflow/trade-feed';
+import { FootprintBar, buildFootprintBar } from '../orderflow/footprint';
+import { FootprintRenderer } from '../renderers/footprint-renderer';
+
+/**
+ * Footprint options
+ */
+export interface FootprintSeriesOptions extends CandlestickSeriesOptions {
+    /** Price row of the footprint in ticks of the symbol */
+    ticksPerRow: number;
+    /** Diagonal volume ratio of an imbalance, e.g. 3 for 300% */
+    imbalanceRatio: number;
+    /** Imbalanced rows in a row marked as a stacked imbalance */
+    stackedImbalanceCount: number;
+    showImbalances: boolean;
+    buyImbalanceColor: string;
+    sellImbalanceColor: string;
+    /** Delta of each bar below it */
+    showDelta: boolean;
+    pocColor: string;
+    textColor: string;
+}
+
+export const defaultFootprintOptions: FootprintSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    borderUpColor: '#26a69a',
+    borderDownColor: '#ef5350',
+    wickUpColor: '#26a69a',
+    wickDownColor: '#ef5350',
+    borderVisible: false,
+    wickVisible: true,
+    ticksPerRow: 1,
+    imbalanceRatio: 3,
+    stackedImbalanceCount: 3,
+    showImbalances: true,
+    buyImbalanceColor: '#00bcd4',
+    sellImbalanceColor: '#ff9800',
+    showDelta: true,
+    pocColor: '#ffeb3b',
+    textColor: '#b2b5be',
+};
+
+interface CachedFootprint {
+    /** Open time of the next bar, the footprint is rebuilt when it changes */
+    end: number;
+    rowHeight: number;
+    footprint: FootprintBar | null;
+}
+
+/** Cached bars kept, the cache starts over beyond this */
+const MAX_CACHED = 5000;
+
+/**
+ * Footprint Series
+ * Candles with the bid and ask volume traded at each price, built from the
+ * trade feed. Bars from before the feed started, and zoom levels too narrow
+ * for the rows, are drawn as candles.
+ */
+export class FootprintSeries extends CandlestickSeries {
+    private readonly _model: ChartModel;
+    private _footprintOptions: FootprintSeriesOptions;
+    private readonly _link: TradeFeedLink;
+
+    private readonly _footprints = new Map<number, CachedFootprint>();
+    /** Earliest trade time that changed since the cache was last checked */
+    private _dirtyFrom: number = Infinity;
+
+    constructor(model: ChartModel, trades: TradeFeed, options: Partial<FootprintSeriesOptions> = {}) {
+        const merged = { ...defaultFootprintOptions, ...options };
+        super(merged);
+        this._model = model;
+        this._footprintOptions = merged;
+        this._options = this._footprintOptions;
+
+        this._link = new TradeFeedLink((time) => {
+            this._dirtyFrom = Math.min(this._dirtyFrom, time);
+            this._model.lightUpdate();
+        });
+        this._link.setFeed(trades);
+    }
+
+    get footprintOptions(): Readonly<FootprintSeriesOptions> {
+        return this._footprintOptions;
+    }
+
+    get priceScale(): PriceScale {
+        return this._model.priceScale(this._footprintOptions.priceScaleId);
+    }
+
+    applyOptions(options: Partial<FootprintSeriesOptions>): void {
+        super.applyOptions(options);
+        if (options.ticksPerRow !== undefined && options.ticksPerRow !== this._footprintOptions.ticksPerRow) {
+            this._footprints.clear();
+        }
+        this._footprintOptions = { ...this._footprintOptions, ...options };
+        this._options = this._footprintOptions;
+    }
+
+    /**
+     * Footprint of the bar at an index, null without trades in it
+     */
+    footprintAt(index: number): FootprintBar | null {
+        const bar = this._data[index];
+        const feed = this._link.feed;
+        if (!bar || !feed) return null;
+
+        this._dropChanged();
+
+        const end = index + 1 < this._data.length ? this._data[index + 1].time : Infinity;
+        const rowHeight = this._rowHeight(bar.close);
+        const cached = this._footprints.get(bar.time);
+        if (cached && cached.end === end && cached.rowHeight === rowHeight) {
+            return cached.footprint;
+        }
+
+        const footprint = buildFootprintBar(feed.buckets, feed.indexAt(bar.time), bar.time, end, rowHeight);
+        if (this._footprints.size >= MAX_CACHED) {
+            this._footprints.clear();
+        }
+        this._footprints.set(bar.time, { end, rowHeight, footprint });
+        return footprint;
+    }
+
+    getRenderer(): FootprintRenderer {
+        return new FootprintRenderer(this);
+    }
+
+    destroy(): void {
+        this._link.setFeed(null);
+        this._footprints.clear();
+        super.destroy();
+    }
+
+    // --- Private ---
+
+    /** Drop the cached bars the trades changed in */
+    private _dropChanged(): void {
+        const from = this._dirtyFrom;
+        if (from === Infinity) return;
+        this._dirtyFrom = Infinity;
+
+        if (from === -Infinity) {
+            this._footprints.clear();
+            return;
+        }
+        for (const [time, cached] of this._footprints) {
+            if (cached.end > from) this._footprints.delete(time);
+        }
+    }
+
+    /** Row height at a price: ticks of the symbol, or a guess from the price without a price format */
+    private _rowHeight(price: number): number {
+        const format = this._model.priceFormat;
+        const tickSize = format ? tickSizeAt(format, price) : guessTickSize(price);
+        return tickSize * Math.max(1, Math.round(this._footprintOptions.ticksPerRow));
+    }
+}
+
+/** Tick of the decimals the price scale shows without a price format */
+function guessTickSize(price: number): number {
+    const abs = Math.abs(price);
+    if (abs >= 1) return 0.01;
+    if (abs >= 0.1) return 0.0001;
+    if (abs >= 0.01) return 0.00001;
+    if (abs >= 0.0001) return 0.000001;
+    return 0.00000001;
+}
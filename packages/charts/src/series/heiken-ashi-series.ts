@@ -1,7 +1,8 @@
 
-import { Series, SeriesOptionsBase, SeriesType } from '../model/series';
+import { SeriesOptionsBase, SeriesType } from '../model/series';
 import { BarData } from '../model/data';
 import { ChartModel } from '../model/chart-model';
+import { TransformedSeries } from './transformed-series';
 
 // Local interface for canvas renderer
 interface CanvasRenderer {
@@ -19,130 +20,75 @@ export interface HeikenAshiSeriesOptions extends SeriesOptionsBase {
     borderVisible: boolean;
 }
 
+interface HeikenAshiState {
+    prevOpen: number;
+    prevClose: number;
+}
+
 /**
  * Heiken Ashi Series
  */
-export class HeikenAshiSeries extends Series<BarData> {
-    private _haData: BarData[] = [];
-    protected _options: HeikenAshiSeriesOptions;
-
+export class HeikenAshiSeries extends TransformedSeries<HeikenAshiSeriesOptions, HeikenAshiState> {
     // We need access to the model for the renderer
     public readonly model: ChartModel;
 
     constructor(model: ChartModel, options: Partial<HeikenAshiSeriesOptions> = {}) {
-        super(SeriesType.Candlestick, options); // Heiken Ashi behaves like Candlestick
-        this.model = model;
-        this._options = {
+        // Heiken Ashi behaves like Candlestick
+        super(SeriesType.Candlestick, {
             visible: true,
             priceScaleId: 'right',
             upColor: '#26a69a',
             downColor: '#ef5350',
             wickVisible: true,
             borderVisible: false,
-            ...options,
-        };
+        }, options);
+        this.model = model;
     }
 
     public get haOptions(): HeikenAshiSeriesOptions {
         return this._options;
     }
 
-    public applyOptions(options: Partial<HeikenAshiSeriesOptions>): void {
-        this._options = { ...this._options, ...options };
-        this._dataChanged.fire();
-    }
-
-    public setData(data: BarData[]): void {
-        super.setData(data);
-        this._calculateHeikenAshi(data);
-    }
-
     public get haData(): BarData[] {
-        return this._haData;
+        return this.plotData as BarData[];
     }
 
-    private _calculateHeikenAshi(data: BarData[]): void {
-        this._haData = [];
-        if (data.length === 0) return;
-
-        // First HA candle
-        let prevHaOpen = (data[0].open + data[0].close) / 2;
-        let prevHaClose = (data[0].open + data[0].high + data[0].low + data[0].close) / 4;
-
-        this._haData.push({
-            time: data[0].time,
-            open: prevHaOpen,
-            high: data[0].high,
-            low: data[0].low,
-            close: prevHaClose,
-            volume: data[0].volume
-        });
-
-        for (let i = 1; i < data.length; i++) {
-            const bar = data[i];
-
-            // HA Close = (Open + High + Low + Close) / 4
-            const haClose = (bar.open + bar.high + bar.low + bar.close) / 4;
-
-            // HA Open = (Prev HA Open + Prev HA Close) / 2
-            const haOpen = (prevHaOpen + prevHaClose) / 2;
+    protected _createState(): HeikenAshiState {
+        return { prevOpen: NaN, prevClose: NaN };
+    }
 
-            // HA High = Max(High, HA Open, HA Close)
-            const haHigh = Math.max(bar.high, haOpen, haClose);
+    protected _process(bar: BarData, state: HeikenAshiState, out: BarData[]): void {
+        // HA Close = (Open + High + Low + Close) / 4
+        const haClose = (bar.open + bar.high + bar.low + bar.close) / 4;
+
+        // First HA candle opens at the middle of the first body
+        if (isNaN(state.prevOpen)) {
+            const haOpen = (bar.open + bar.close) / 2;
+            this._push(out, { time: bar.time, open: haOpen, high: bar.high, low: bar.low, close: haClose });
+            state.prevOpen = haOpen;
+            state.prevClose = haClose;
+            return;
+        }
 
-            // HA Low = Min(Low, HA Open, HA Close)
-            const haLow = Math.min(bar.low, haOpen, haClose);
+        // HA Open = (Prev HA Open + Prev HA Close) / 2
+        const haOpen = (state.prevOpen + state.prevClose) / 2;
 
-            this._haData.push({
-                time: bar.time,
-                open: haOpen,
-                high: haHigh,
-                low: haLow,
-                close: haClose,
-                volume: bar.volume
-            });
+        this._push(out, {
+            time: bar.time,
+            open: haOpen,
+            // HA High = Max(High, HA Open, HA Close), HA Low = Min(Low, HA Open, HA Close)
+            high: Math.max(bar.high, haOpen, haClose),
+            low: Math.min(bar.low, haOpen, haClose),
+            close: haClose,
+        });
 
-            prevHaOpen = haOpen;
-            prevHaClose = haClose;
-        }
+        state.prevOpen = haOpen;
+        state.prevClose = haClose;
     }
 
     public getRenderer(): CanvasRenderer {
         return new HeikenAshiRenderer(this);
     }
-
-    /**
-     * Override calculateCoordinates to use Heiken Ashi data instead of raw data
-     */
-    public override calculateCoordinates(
-        timeScale: any,
-        priceScale: any,
-        from: number,
-        to: number
-    ): any[] {
-        const result: any[] = [];
-
-        const startIndex = Math.max(0, Math.floor(from));
-        const endIndex = Math.min(this._haData.length - 1, Math.ceil(to));
-
-        for (let i = startIndex; i <= endIndex; i++) {
-            const item = this._haData[i];
-            if (!item) continue;
-
-            const x = timeScale.indexToCoordinate(i);
-            result.push({
-                index: i,
-                x,
-                data: item,
-                openY: priceScale.priceToCoordinate(item.open),
-                highY: priceScale.priceToCoordinate(item.high),
-                lowY: priceScale.priceToCoordinate(item.low),
-                closeY: priceScale.priceToCoordinate(item.close),
-            });
-        }
-
-        return result;
-    }
 }
 
 // Re-export BitmapCoordinatesScope for renderers
@@ -0,0 +1,259 @@
+/**
+ * Kagi Series
+ *
+ * Vertical lines that follow the close until it reverses by the reversal amount, then
+ * a new line starts at the turning point. Lines turn thick (yang) when price rises above
+ * the previous shoulder and thin (yin) when it falls below the previous waist.
+ */
+
+import { SeriesOptionsBase, SeriesType, BarWithCoordinates } from '../model/series';
+import { BarData } from '../model/data';
+import { Coordinate } from '../model/coordinate';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { BitmapCoordinatesScope } from '../renderers/candlestick-renderer';
+import { TransformedSeries } from './transformed-series';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    numberRow,
+    selectRow,
+    colorRow
+} from '../gui/indicator_settings';
+
+export type KagiReversalMethod = 'atr' | 'fixed' | 'percent';
+
+/**
+ * Kagi options
+ */
+export interface KagiSeriesOptions extends SeriesOptionsBase {
+    reversalMethod: KagiReversalMethod;
+    /** Price amount for 'fixed', percent of the last extreme for 'percent' */
+    reversalAmount: number;
+    atrLength: number;
+    yangColor: string;
+    yinColor: string;
+    yangLineWidth: number;
+    yinLineWidth: number;
+}
+
+export const defaultKagiOptions: KagiSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    reversalMethod: 'atr',
+    reversalAmount: 1,
+    atrLength: 14,
+    yangColor: '#26a69a',
+    yinColor: '#ef5350',
+    yangLineWidth: 3,
+    yinLineWidth: 1,
+};
+
+/**
+ * Kagi line, open is where it starts and close where it currently ends
+ */
+export interface KagiBar extends BarData {
+    /** Thickness at the end of the line */
+    yang: boolean;
+    /** Price where the line switched between yin and yang, if it did */
+    switchPrice?: number;
+}
+
+interface KagiBarWithCoordinates extends BarWithCoordinates {
+    switchY?: Coordinate;
+}
+
+interface KagiState {
+    direction: number;
+    yang: boolean;
+    /** Top of the last up line and bottom of the last down line */
+    shoulder: number;
+    waist: number;
+}
+
+/**
+ * Kagi Series
+ */
+export class KagiSeries extends TransformedSeries<KagiSeriesOptions, KagiState> {
+    private _reversal = 0;
+
+    constructor(options: Partial<KagiSeriesOptions> = {}) {
+        super(SeriesType.Line, defaultKagiOptions, options);
+    }
+
+    get kagiOptions(): Readonly<KagiSeriesOptions> {
+        return this._options;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: 'Kagi',
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('reversalMethod', 'Reversal Assignment Method', [
+                            { value: 'atr', label: 'ATR' },
+                            { value: 'fixed', label: 'Fixed' },
+                            { value: 'percent', label: 'Percentage' },
+                        ]),
+                        numberRow('reversalAmount', 'Reversal Amount', 0, undefined, 0.01),
+                        numberRow('atrLength', 'ATR Length', 1, 200, 1),
+                    ]
+                }]),
+                createStyleTab([{
+                    rows: [
+                        colorRow('yangColor', 'Yang Line Color'),
+                        numberRow('yangLineWidth', 'Yang Line Width', 1, 6, 1),
+                        colorRow('yinColor', 'Yin Line Color'),
+                        numberRow('yinLineWidth', 'Yin Line Width', 1, 6, 1),
+                    ]
+                }]),
+            ]
+        };
+    }
+
+    getRenderer(): KagiRenderer {
+        return new KagiRenderer(this);
+    }
+
+    override calculateCoordinates(
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        from: number,
+        to: number
+    ): KagiBarWithCoordinates[] {
+        const bars: KagiBarWithCoordinates[] = super.calculateCoordinates(timeScale, priceScale, from, to);
+        for (const bar of bars) {
+            const switchPrice = (bar.data as KagiBar).switchPrice;
+            if (switchPrice !== undefined) {
+                bar.switchY = priceScale.priceToCoordinate(switchPrice);
+            }
+        }
+        return bars;
+    }
+
+    protected _prepare(source: readonly BarData[]): void {
+        const { reversalMethod, reversalAmount, atrLength } = this._options;
+        this._reversal = reversalMethod === 'percent'
+            ? 0
+            : this._resolveBoxSize(source, reversalMethod, reversalAmount, atrLength);
+    }
+
+    protected _createState(): KagiState {
+        return { direction: 0, yang: true, shoulder: NaN, waist: NaN };
+    }
+
+    protected _process(bar: BarData, state: KagiState, out: BarData[]): void {
+        const price = bar.close;
+        const line = out[out.length - 1] as KagiBar | undefined;
+
+        if (!line) {
+            this._push(out, { time: bar.time, open: price, high: price, low: price, close: price, yang: true } as KagiBar);
+            return;
+        }
+
+        const reversal = this._getReversal(line.close);
+
+        // The first line starts once price has moved by the reversal amount
+        if (state.direction === 0) {
+            if (Math.abs(price - line.open) < reversal) return;
+            state.direction = price > line.open ? 1 : -1;
+            state.yang = line.yang = state.direction === 1;
+            this._extend(line, price, state);
+            return;
+        }
+
+        const continues = state.direction === 1 ? price > line.close : price < line.close;
+        if (continues) {
+            this._extend(line, price, state);
+            return;
+        }
+
+        if (Math.abs(line.close - price) < reversal) return;
+
+        // Turn: the end of the current line becomes a shoulder or waist
+        if (state.direction === 1) {
+            state.shoulder = line.close;
+        } else {
+            state.waist = line.close;
+        }
+        state.direction = -state.direction;
+
+        const start = line.close;
+        const next = this._push(out, {
+            time: bar.time, open: start, high: start, low: start, close: start, yang: state.yang,
+        } as KagiBar) as KagiBar;
+        this._extend(next, price, state);
+    }
+
+    private _extend(line: KagiBar, price: number, state: KagiState): void {
+        line.close = price;
+        line.high = Math.max(line.open, price);
+        line.low = Math.min(line.open, price);
+
+        if (!state.yang && state.direction === 1 && price > state.shoulder) {
+            state.yang = line.yang = true;
+            line.switchPrice = state.shoulder;
+        } else if (state.yang && state.direction === -1 && price < state.waist) {
+            state.yang = line.yang = false;
+            line.switchPrice = state.waist;
+        }
+    }
+
+    private _getReversal(price: number): number {
+        if (this._options.reversalMethod === 'percent') {
+            return Math.abs(price) * Math.max(this._options.reversalAmount, 0.01) / 100;
+        }
+        return this._reversal;
+    }
+}
+
+/**
+ * Kagi Renderer
+ */
+class KagiRenderer {
+    constructor(private _series: KagiSeries) { }
+
+    draw(scope: BitmapCoordinatesScope, bars: KagiBarWithCoordinates[]): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.kagiOptions;
+
+        const style = (yang: boolean) => ({
+            color: yang ? options.yangColor : options.yinColor,
+            width: Math.max(1, Math.round((yang ? options.yangLineWidth : options.yinLineWidth) * horizontalPixelRatio)),
+        });
+
+        const vertical = (x: number, y1: number, y2: number, yang: boolean) => {
+            const { color, width } = style(yang);
+            ctx.fillStyle = color;
+            ctx.fillRect(x - Math.floor(width / 2), Math.min(y1, y2), width, Math.abs(y2 - y1) + width);
+        };
+
+        let prev: { x: number; y: number; yang: boolean } | null = null;
+
+        for (const bar of bars) {
+            const line = bar.data as KagiBar;
+            const x = Math.round(bar.x * horizontalPixelRatio);
+            const openY = Math.round((bar.openY ?? 0) * verticalPixelRatio);
+            const closeY = Math.round((bar.closeY ?? 0) * verticalPixelRatio);
+
+            // Shoulder/waist connector from the previous line
+            if (prev) {
+                const { color, width } = style(prev.yang);
+                ctx.fillStyle = color;
+                ctx.fillRect(Math.min(prev.x, x), prev.y - Math.floor(width / 2), Math.abs(x - prev.x), width);
+            }
+
+            if (bar.switchY !== undefined) {
+                const switchY = Math.round(bar.switchY * verticalPixelRatio);
+                vertical(x, openY, switchY, !line.yang);
+                vertical(x, switchY, closeY, line.yang);
+            } else {
+                vertical(x, openY, closeY, line.yang);
+            }
+
+            prev = { x, y: closeY, yang: line.yang };
+        }
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Line Break Series
+ *
+ * A new line is drawn when the close exceeds the previous line in its direction.
+ * Reversals need the close to break the extreme of the last `lineCount` lines
+ * (3-Line Break by default).
+ */
+
+import { SeriesOptionsBase, SeriesType } from '../model/series';
+import { BarData } from '../model/data';
+import { BrickRenderer, BrickRendererOptions } from '../renderers/brick-renderer';
+import { TransformedSeries, createBrickStyleTab, brickBar } from './transformed-series';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    numberRow
+} from '../gui/indicator_settings';
+
+/**
+ * Line break options
+ */
+export interface LineBreakSeriesOptions extends SeriesOptionsBase, BrickRendererOptions {
+    lineCount: number;
+}
+
+export const defaultLineBreakOptions: LineBreakSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    borderVisible: false,
+    borderColor: '#131722',
+    wickVisible: false,
+    lineCount: 3,
+};
+
+interface LineBreakState {
+    /** First close, the first line starts here */
+    reference: number;
+}
+
+/**
+ * Line Break Series
+ */
+export class LineBreakSeries extends TransformedSeries<LineBreakSeriesOptions, LineBreakState> {
+    constructor(options: Partial<LineBreakSeriesOptions> = {}) {
+        super(SeriesType.Candlestick, defaultLineBreakOptions, options);
+    }
+
+    get lineBreakOptions(): Readonly<LineBreakSeriesOptions> {
+        return this._options;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: 'Line Break',
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        numberRow('lineCount', 'Number Of Lines', 1, 10, 1),
+                    ]
+                }]),
+                createBrickStyleTab(),
+            ]
+        };
+    }
+
+    getRenderer(): BrickRenderer {
+        return new BrickRenderer(() => this._options);
+    }
+
+    protected _createState(): LineBreakState {
+        return { reference: NaN };
+    }
+
+    protected _process(bar: BarData, state: LineBreakState, out: BarData[]): void {
+        const price = bar.close;
+        const last = out[out.length - 1];
+
+        if (!last) {
+            if (isNaN(state.reference)) {
+                state.reference = price;
+            } else if (price !== state.reference) {
+                this._push(out, brickBar(bar.time, state.reference, price));
+            }
+            return;
+        }
+
+        const isUp = last.close > last.open;
+
+        if (price > last.high) {
+            // Continuation, or a reversal breaking the highs of the last lines
+            if (isUp || price > this._extreme(out, true)) {
+                this._push(out, brickBar(bar.time, last.high, price));
+            }
+        } else if (price < last.low) {
+            if (!isUp || price < this._extreme(out, false)) {
+                this._push(out, brickBar(bar.time, last.low, price));
+            }
+        }
+    }
+
+    /** Highest high or lowest low of the last `lineCount` lines */
+    private _extreme(out: readonly BarData[], high: boolean): number {
+        const count = Math.max(1, Math.round(this._options.lineCount));
+        let extreme = high ? -Infinity : Infinity;
+        for (let i = Math.max(0, out.length - count); i < out.length; i++) {
+            extreme = high ? Math.max(extreme, out[i].high) : Math.min(extreme, out[i].low);
+        }
+        return extreme;
+    }
+}
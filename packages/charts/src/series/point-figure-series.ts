@@ -0,0 +1,245 @@
+/**
+ * Point & Figure Series
+ *
+ * Columns of X (rising) and O (falling) boxes built from the close. A column grows
+ * by whole boxes and a new one starts when price reverses by `reversal` boxes.
+ */
+
+import { SeriesOptionsBase, SeriesType, BarWithCoordinates } from '../model/series';
+import { BarData } from '../model/data';
+import { Coordinate } from '../model/coordinate';
+import { TimeScale } from '../model/time-scale';
+import { PriceScale } from '../model/price-scale';
+import { BitmapCoordinatesScope } from '../renderers/candlestick-renderer';
+import { TransformedSeries, BoxSizeMethod, BOX_SIZE_METHODS } from './transformed-series';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    createStyleTab,
+    numberRow,
+    selectRow,
+    colorRow
+} from '../gui/indicator_settings';
+
+/**
+ * Point & Figure options
+ */
+export interface PointFigureSeriesOptions extends SeriesOptionsBase {
+    boxSizeMethod: BoxSizeMethod;
+    /** Box size for the 'fixed' method */
+    boxSize: number;
+    atrLength: number;
+    /** Boxes needed to start a new column */
+    reversal: number;
+    upColor: string;
+    downColor: string;
+}
+
+export const defaultPointFigureOptions: PointFigureSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    boxSizeMethod: 'atr',
+    boxSize: 10,
+    atrLength: 14,
+    reversal: 3,
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+};
+
+/**
+ * Point & Figure column, open and close are the first and last box levels
+ */
+export interface PointFigureColumn extends BarData {
+    isUp: boolean;
+}
+
+interface PointFigureBarWithCoordinates extends BarWithCoordinates {
+    /** Box edges from open to close, one more than the number of boxes */
+    boxEdges?: Coordinate[];
+}
+
+interface PointFigureState {
+    /** Box index of the first price, before the first column */
+    reference: number;
+}
+
+/**
+ * Point & Figure Series
+ */
+export class PointFigureSeries extends TransformedSeries<PointFigureSeriesOptions, PointFigureState> {
+    private _boxSize = 0;
+
+    constructor(options: Partial<PointFigureSeriesOptions> = {}) {
+        super(SeriesType.Candlestick, defaultPointFigureOptions, options);
+    }
+
+    get pointFigureOptions(): Readonly<PointFigureSeriesOptions> {
+        return this._options;
+    }
+
+    /** Box size in use (resolved from ATR for the 'atr' method) */
+    get boxSize(): number {
+        return this._boxSize;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: 'Point & Figure',
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('boxSizeMethod', 'Box Size Assignment Method', BOX_SIZE_METHODS),
+                        numberRow('boxSize', 'Box Size', 0, undefined, 0.01),
+                        numberRow('atrLength', 'ATR Length', 1, 200, 1),
+                        numberRow('reversal', 'Reversal Amount', 1, 10, 1),
+                    ]
+                }]),
+                createStyleTab([{
+                    rows: [
+                        colorRow('upColor', 'Up Color'),
+                        colorRow('downColor', 'Down Color'),
+                    ]
+                }]),
+            ]
+        };
+    }
+
+    getRenderer(): PointFigureRenderer {
+        return new PointFigureRenderer(this);
+    }
+
+    /** Boxes are centered on their level, include the half box above and below */
+    override getPriceRange(from: number, to: number): { min: number; max: number } | null {
+        const range = super.getPriceRange(from, to);
+        if (!range) return null;
+        const half = this._boxSize / 2;
+        return { min: range.min - half, max: range.max + half };
+    }
+
+    override calculateCoordinates(
+        timeScale: TimeScale,
+        priceScale: PriceScale,
+        from: number,
+        to: number
+    ): PointFigureBarWithCoordinates[] {
+        const bars: PointFigureBarWithCoordinates[] = super.calculateCoordinates(timeScale, priceScale, from, to);
+        const box = this._boxSize;
+
+        for (const bar of bars) {
+            const column = bar.data as PointFigureColumn;
+            const boxes = Math.round((column.high - column.low) / box) + 1;
+            const edges: Coordinate[] = [];
+            for (let i = 0; i <= boxes; i++) {
+                edges.push(priceScale.priceToCoordinate(column.low - box / 2 + i * box));
+            }
+            bar.boxEdges = edges;
+        }
+        return bars;
+    }
+
+    protected _prepare(source: readonly BarData[]): void {
+        const { boxSizeMethod, boxSize, atrLength } = this._options;
+        this._boxSize = this._resolveBoxSize(source, boxSizeMethod, boxSize, atrLength);
+    }
+
+    protected _createState(): PointFigureState {
+        return { reference: NaN };
+    }
+
+    protected _process(bar: BarData, state: PointFigureState, out: BarData[]): void {
+        const box = this._boxSize;
+        const reversal = Math.max(1, Math.round(this._options.reversal));
+
+        // Work in whole box indices so levels compare exactly
+        const upIndex = Math.floor(bar.close / box + 1e-9);
+        const downIndex = Math.ceil(bar.close / box - 1e-9);
+
+        if (isNaN(state.reference)) {
+            state.reference = Math.round(bar.close / box);
+            return;
+        }
+
+        const column = out[out.length - 1] as PointFigureColumn | undefined;
+
+        if (!column) {
+            if (upIndex > state.reference) {
+                this._push(out, this._column(bar.time, state.reference, upIndex, true));
+            } else if (downIndex < state.reference) {
+                this._push(out, this._column(bar.time, state.reference, downIndex, false));
+            }
+            return;
+        }
+
+        const lastIndex = Math.round(column.close / box);
+
+        if (column.isUp) {
+            if (upIndex > lastIndex) {
+                this._extend(column, upIndex);
+            } else if (downIndex <= lastIndex - reversal) {
+                this._push(out, this._column(bar.time, lastIndex - 1, downIndex, false));
+            }
+        } else {
+            if (downIndex < lastIndex) {
+                this._extend(column, downIndex);
+            } else if (upIndex >= lastIndex + reversal) {
+                this._push(out, this._column(bar.time, lastIndex + 1, upIndex, true));
+            }
+        }
+    }
+
+    private _column(time: number, fromIndex: number, toIndex: number, isUp: boolean): PointFigureColumn {
+        const open = fromIndex * this._boxSize;
+        const close = toIndex * this._boxSize;
+        return { time, open, close, high: Math.max(open, close), low: Math.min(open, close), isUp };
+    }
+
+    private _extend(column: PointFigureColumn, toIndex: number): void {
+        column.close = toIndex * this._boxSize;
+        column.high = Math.max(column.open, column.close);
+        column.low = Math.min(column.open, column.close);
+    }
+}
+
+/**
+ * Point & Figure Renderer
+ */
+class PointFigureRenderer {
+    constructor(private _series: PointFigureSeries) { }
+
+    draw(scope: BitmapCoordinatesScope, bars: PointFigureBarWithCoordinates[], _backgroundColor?: string, barSpacing: number = 6): void {
+        const { context: ctx, horizontalPixelRatio, verticalPixelRatio } = scope;
+        const options = this._series.pointFigureOptions;
+
+        const halfWidth = Math.max(1, barSpacing * 0.4 * horizontalPixelRatio);
+        ctx.lineWidth = Math.max(1, Math.round(horizontalPixelRatio));
+
+        for (const bar of bars) {
+            const column = bar.data as PointFigureColumn;
+            const edges = bar.boxEdges;
+            if (!edges) continue;
+
+            const x = bar.x * horizontalPixelRatio;
+            ctx.strokeStyle = column.isUp ? options.upColor : options.downColor;
+            ctx.beginPath();
+
+            for (let i = 0; i < edges.length - 1; i++) {
+                const y1 = edges[i] * verticalPixelRatio;
+                const y2 = edges[i + 1] * verticalPixelRatio;
+                const halfHeight = Math.abs(y2 - y1) / 2 * 0.85;
+                const centerY = (y1 + y2) / 2;
+
+                if (column.isUp) {
+                    ctx.moveTo(x - halfWidth, centerY - halfHeight);
+                    ctx.lineTo(x + halfWidth, centerY + halfHeight);
+                    ctx.moveTo(x + halfWidth, centerY - halfHeight);
+                    ctx.lineTo(x - halfWidth, centerY + halfHeight);
+                } else {
+                    ctx.moveTo(x + halfWidth, centerY);
+                    ctx.ellipse(x, centerY, halfWidth, Math.max(0.5, halfHeight), 0, 0, Math.PI * 2);
+                }
+            }
+
+            ctx.stroke();
+        }
+    }
+}
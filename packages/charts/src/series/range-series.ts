@@ -0,0 +1,131 @@
+/**
+ * Range Series
+ *
+ * Bars that each span at most a fixed price range, a new bar starts when price leaves
+ * it. Candles are walked open -> low -> high -> close (open -> high -> low -> close for
+ * down candles) to approximate the intrabar path. The last bar is the forming one.
+ */
+
+import { SeriesOptionsBase, SeriesType } from '../model/series';
+import { BarData } from '../model/data';
+import { BrickRenderer, BrickRendererOptions } from '../renderers/brick-renderer';
+import { TransformedSeries, BoxSizeMethod, BOX_SIZE_METHODS, createBrickStyleTab } from './transformed-series';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    numberRow,
+    selectRow
+} from '../gui/indicator_settings';
+
+/**
+ * Range bar options
+ */
+export interface RangeSeriesOptions extends SeriesOptionsBase, BrickRendererOptions {
+    rangeMethod: BoxSizeMethod;
+    /** Range for the 'fixed' method */
+    rangeSize: number;
+    atrLength: number;
+}
+
+export const defaultRangeOptions: RangeSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    borderVisible: false,
+    borderColor: '#131722',
+    wickVisible: true,
+    rangeMethod: 'atr',
+    rangeSize: 10,
+    atrLength: 14,
+};
+
+/**
+ * Range Series
+ */
+export class RangeSeries extends TransformedSeries<RangeSeriesOptions> {
+    private _rangeSize = 0;
+
+    constructor(options: Partial<RangeSeriesOptions> = {}) {
+        super(SeriesType.Candlestick, defaultRangeOptions, options);
+    }
+
+    get rangeOptions(): Readonly<RangeSeriesOptions> {
+        return this._options;
+    }
+
+    /** Range in use (resolved from ATR for the 'atr' method) */
+    get rangeSize(): number {
+        return this._rangeSize;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: 'Range',
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('rangeMethod', 'Range Assignment Method', BOX_SIZE_METHODS),
+                        numberRow('rangeSize', 'Range', 0, undefined, 0.01),
+                        numberRow('atrLength', 'ATR Length', 1, 200, 1),
+                    ]
+                }]),
+                createBrickStyleTab(),
+            ]
+        };
+    }
+
+    getRenderer(): BrickRenderer {
+        return new BrickRenderer(() => this._options);
+    }
+
+    protected _prepare(source: readonly BarData[]): void {
+        const { rangeMethod, rangeSize, atrLength } = this._options;
+        this._rangeSize = this._resolveBoxSize(source, rangeMethod, rangeSize, atrLength);
+    }
+
+    protected _createState(): object {
+        // The forming bar (last bar of the output) is the whole state
+        return {};
+    }
+
+    protected _process(bar: BarData, _state: object, out: BarData[]): void {
+        const path = bar.close >= bar.open
+            ? [bar.open, bar.low, bar.high, bar.close]
+            : [bar.open, bar.high, bar.low, bar.close];
+
+        for (const price of path) {
+            this._processPrice(bar.time, price, out);
+        }
+    }
+
+    private _processPrice(time: number, price: number, out: BarData[]): void {
+        const range = this._rangeSize;
+        let current = out[out.length - 1];
+
+        if (!current) {
+            this._push(out, { time, open: price, high: price, low: price, close: price });
+            return;
+        }
+
+        // Close full bars at the range boundary until price fits the forming one
+        while (true) {
+            if (price > current.low + range) {
+                const top = current.low + range;
+                current.high = top;
+                current.close = top;
+                current = this._push(out, { time, open: top, high: top, low: top, close: top });
+            } else if (price < current.high - range) {
+                const bottom = current.high - range;
+                current.low = bottom;
+                current.close = bottom;
+                current = this._push(out, { time, open: bottom, high: bottom, low: bottom, close: bottom });
+            } else {
+                current.high = Math.max(current.high, price);
+                current.low = Math.min(current.low, price);
+                current.close = price;
+                return;
+            }
+        }
+    }
+}
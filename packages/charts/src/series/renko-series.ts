@@ -0,0 +1,124 @@
+/**
+ * Renko Series
+ *
+ * Bricks of a fixed price size drawn whenever the close moves a full box beyond the
+ * last brick, reversals need two boxes. The box size is either fixed or the ATR of
+ * the loaded data.
+ */
+
+import { SeriesOptionsBase, SeriesType } from '../model/series';
+import { BarData } from '../model/data';
+import { BrickRenderer, BrickRendererOptions } from '../renderers/brick-renderer';
+import {
+    TransformedSeries,
+    BoxSizeMethod,
+    BOX_SIZE_METHODS,
+    createBrickStyleTab,
+    brickBar
+} from './transformed-series';
+import {
+    IndicatorSettingsConfig,
+    createInputsTab,
+    numberRow,
+    selectRow
+} from '../gui/indicator_settings';
+
+/**
+ * Renko options
+ */
+export interface RenkoSeriesOptions extends SeriesOptionsBase, BrickRendererOptions {
+    boxSizeMethod: BoxSizeMethod;
+    /** Box size for the 'fixed' method */
+    boxSize: number;
+    atrLength: number;
+}
+
+export const defaultRenkoOptions: RenkoSeriesOptions = {
+    visible: true,
+    priceScaleId: 'right',
+    upColor: '#26a69a',
+    downColor: '#ef5350',
+    borderVisible: false,
+    borderColor: '#131722',
+    wickVisible: false,
+    boxSizeMethod: 'atr',
+    boxSize: 10,
+    atrLength: 14,
+};
+
+interface RenkoState {
+    /** Top and bottom of the last brick, equal before the first brick */
+    top: number;
+    bottom: number;
+}
+
+/**
+ * Renko Series
+ */
+export class RenkoSeries extends TransformedSeries<RenkoSeriesOptions, RenkoState> {
+    private _boxSize = 0;
+
+    constructor(options: Partial<RenkoSeriesOptions> = {}) {
+        super(SeriesType.Candlestick, defaultRenkoOptions, options);
+    }
+
+    get renkoOptions(): Readonly<RenkoSeriesOptions> {
+        return this._options;
+    }
+
+    /** Box size in use (resolved from ATR for the 'atr' method) */
+    get boxSize(): number {
+        return this._boxSize;
+    }
+
+    getSettingsConfig(): IndicatorSettingsConfig {
+        return {
+            name: 'Renko',
+            tabs: [
+                createInputsTab([{
+                    rows: [
+                        selectRow('boxSizeMethod', 'Box Size Assignment Method', BOX_SIZE_METHODS),
+                        numberRow('boxSize', 'Box Size', 0, undefined, 0.01),
+                        numberRow('atrLength', 'ATR Length', 1, 200, 1),
+                    ]
+                }]),
+                createBrickStyleTab(),
+            ]
+        };
+    }
+
+    getRenderer(): BrickRenderer {
+        return new BrickRenderer(() => this._options);
+    }
+
+    protected _prepare(source: readonly BarData[]): void {
+        const { boxSizeMethod, boxSize, atrLength } = this._options;
+        this._boxSize = this._resolveBoxSize(source, boxSizeMethod, boxSize, atrLength);
+    }
+
+    protected _createState(): RenkoState {
+        return { top: NaN, bottom: NaN };
+    }
+
+    protected _process(bar: BarData, state: RenkoState, out: BarData[]): void {
+        const box = this._boxSize;
+        const price = bar.close;
+
+        if (isNaN(state.top)) {
+            state.top = state.bottom = price;
+            return;
+        }
+
+        while (price >= state.top + box) {
+            this._push(out, brickBar(bar.time, state.top, state.top + box));
+            state.bottom = state.top;
+            state.top += box;
+        }
+
+        while (price <= state.bottom - box) {
+            this._push(out, brickBar(bar.time, state.bottom, state.bottom - box));
+            state.top = state.bottom;
+            state.bottom -= box;
+        }
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * Transformed Series
+ *
+ * Base class for series that plot bars derived from the raw OHLC data instead of the
+ * data itself: Heiken Ashi and the non-time-based types (Renko, Range, Kagi,
+ * Point & Figure, Line Break).
+ *
+ * `data` keeps the raw candles (chart type switches, history paging, live updates),
+ * `plotData` holds the transformed bars the time scale, drawings and indicators use.
+ * Transformed bars get strictly increasing times, several bars formed by one candle
+ * are 1 ms apart, so time-anchored drawings map back to the exact bar.
+ */
+
+import { Series, SeriesOptionsBase, SeriesType } from '../model/series';
+import { BarData } from '../model/data';
+import {
+    IndicatorSettingsConfig,
+    SettingsTab,
+    createStyleTab,
+    colorRow,
+    checkboxRow
+} from '../gui/indicator_settings';
+
+/**
+ * How a box/range size is derived
+ */
+export type BoxSizeMethod = 'atr' | 'fixed';
+
+export const BOX_SIZE_METHODS: { value: string; label: string }[] = [
+    { value: 'atr', label: 'ATR' },
+    { value: 'fixed', label: 'Fixed' },
+];
+
+/** Style tab shared by the brick based types (Renko, Range, Line Break) */
+export function createBrickStyleTab(): SettingsTab {
+    return createStyleTab([{
+        rows: [
+            colorRow('upColor', 'Up Color'),
+            colorRow('downColor', 'Down Color'),
+            checkboxRow('borderVisible', 'Borders'),
+            colorRow('borderColor', 'Border Color'),
+        ]
+    }]);
+}
+
+/** Bar spanning open to close without wicks */
+export function brickBar(time: number, open: number, close: number): BarData {
+    return { time, open, high: Math.max(open, close), low: Math.min(open, close), close };
+}
+
+/** Smallest box relative to price, keeps tiny fixed sizes from producing millions of bars */
+const MIN_BOX_RATIO = 0.0001;
+
+/**
+ * Transformed series base class.
+ * Subclasses turn source bars into plotted bars one at a time; the transform state
+ * must be a flat object so it can be snapshotted with a spread.
+ */
+export abstract class TransformedSeries<
+    TOptions extends SeriesOptionsBase,
+    TState extends object = object
+> extends Series<BarData> {
+    protected _options: TOptions;
+
+    private _bars: BarData[] = [];
+    private _state: TState | null = null;
+    private _sourceKey = '';
+
+    // State before the last source bar, live updates of that bar resume from here
+    private _snapshot: TState | null = null;
+    private _snapshotIndex = -1;
+    private _snapshotTime = 0;
+    private _snapshotBarCount = 0;
+    private _snapshotLastBar: BarData | null = null;
+
+    constructor(type: SeriesType, defaults: TOptions, options: Partial<TOptions> = {}) {
+        super(type, options);
+        this._options = { ...defaults, ...options };
+    }
+
+    // --- Data ---
+
+    /**
+     * Transformed bars, rebuilt lazily when the source changed (including
+     * in-place updates of the last candle)
+     */
+    override get plotData(): readonly BarData[] {
+        const key = this._getSourceKey();
+        if (key !== this._sourceKey) {
+            this._sourceKey = key;
+            if (!this._resume()) {
+                this._rebuild();
+            }
+        }
+        return this._bars;
+    }
+
+    override setData(data: BarData[]): void {
+        this._sourceKey = '';
+        super.setData(data);
+    }
+
+    override prependData(data: BarData[]): void {
+        // Transforms are path dependent, older bars change everything after them
+        this._sourceKey = '';
+        super.prependData(data);
+    }
+
+    applyOptions(options: Partial<TOptions>): void {
+        this._options = { ...this._options, ...options };
+        this.invalidate();
+        this._dataChanged.fire();
+    }
+
+    /** Force a full rebuild on the next access (e.g. after a settings change) */
+    invalidate(): void {
+        this._sourceKey = '';
+    }
+
+    // --- Settings (IndicatorSettingsProvider) ---
+
+    /** Settings modal config, null when the chart type has no settings */
+    getSettingsConfig(): IndicatorSettingsConfig | null {
+        return null;
+    }
+
+    getSettingValue(key: string): any {
+        return (this._options as any)[key];
+    }
+
+    /** Applies without rebuilding, the next plotData access rebuilds once */
+    setSettingValue(key: string, value: any): boolean {
+        if ((this._options as any)[key] === value) return false;
+        (this._options as any)[key] = value;
+        this.invalidate();
+        return true;
+    }
+
+    // --- Transform ---
+
+    /** Called before a full rebuild, e.g. to resolve an ATR based box size */
+    protected _prepare(_source: readonly BarData[]): void { }
+
+    protected abstract _createState(): TState;
+
+    /** Turn one source bar into new bars and/or updates of the last bar in `out` */
+    protected abstract _process(bar: BarData, state: TState, out: BarData[]): void;
+
+    /**
+     * Append a transformed bar, shifting its time past the previous bar if needed
+     */
+    protected _push(out: BarData[], bar: BarData): BarData {
+        const prev = out[out.length - 1];
+        if (prev && bar.time <= prev.time) {
+            bar.time = prev.time + 1;
+        }
+        out.push(bar);
+        return bar;
+    }
+
+    /**
+     * Box size from the configured method. ATR uses Wilder smoothing over the whole source.
+     */
+    protected _resolveBoxSize(source: readonly BarData[], method: BoxSizeMethod, fixedSize: number, atrLength: number): number {
+        if (source.length === 0) return 0;
+
+        const size = method === 'atr' ? calculateAtr(source, Math.max(1, atrLength)) : fixedSize;
+        const minSize = Math.abs(source[source.length - 1].close) * MIN_BOX_RATIO;
+        return Math.max(size || 0, minSize);
+    }
+
+    private _rebuild(): void {
+        const source = this._data;
+        this._bars = [];
+        this._snapshot = null;
+        this._snapshotIndex = -1;
+        if (source.length === 0) return;
+
+        this._prepare(source);
+        this._state = this._createState();
+        this._processFrom(0);
+    }
+
+    /**
+     * Reprocess from the snapshot when the source only changed at or after the last bar
+     * @returns false if a full rebuild is needed
+     */
+    private _resume(): boolean {
+        const source = this._data;
+        const index = this._snapshotIndex;
+        if (!this._snapshot || index < 0 || index >= source.length || source[index].time !== this._snapshotTime) {
+            return false;
+        }
+
+        this._bars.length = this._snapshotBarCount;
+        if (this._snapshotLastBar) {
+            this._bars[this._bars.length - 1] = { ...this._snapshotLastBar };
+        }
+        this._state = { ...this._snapshot };
+        this._processFrom(index);
+        return true;
+    }
+
+    private _processFrom(start: number): void {
+        const source = this._data;
+        const state = this._state!;
+        const last = source.length - 1;
+
+        for (let i = start; i <= last; i++) {
+            if (i === last) {
+                this._snapshot = { ...state };
+                this._snapshotIndex = i;
+                this._snapshotTime = source[i].time;
+                this._snapshotBarCount = this._bars.length;
+                const lastBar = this._bars[this._bars.length - 1];
+                this._snapshotLastBar = lastBar ? { ...lastBar } : null;
+            }
+
+            const count = this._bars.length;
+            this._process(source[i], state, this._bars);
+
+            // Volume goes to the last bar the source bar touched
+            const target = this._bars[this._bars.length - 1];
+            if (target) {
+                if (this._bars.length > count) {
+                    for (let j = count; j < this._bars.length; j++) this._bars[j].volume = 0;
+                }
+                target.volume = (target.volume ?? 0) + (source[i].volume ?? 0);
+            }
+        }
+    }
+
+    private _getSourceKey(): string {
+        const data = this._data;
+        if (data.length === 0) return '0';
+        const first = data[0];
+        const last = data[data.length - 1];
+        return `${data.length}:${first.time}:${last.time}:${last.open}:${last.high}:${last.low}:${last.close}:${last.volume}`;
+    }
+}
+
+/**
+ * Last value of a Wilder ATR over the bars (simple TR average for short data)
+ */
+function calculateAtr(bars: readonly BarData[], length: number): number {
+    let atr = 0;
+    for (let i = 0; i < bars.length; i++) {
+        const bar = bars[i];
+        const prevClose = i > 0 ? bars[i - 1].close : bar.close;
+        const tr = Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+        atr = i < length ? (atr * i + tr) / (i + 1) : (atr * (length - 1) + tr) / length;
+    }
+    return atr;
+}
@@ -1,18 +1,22 @@
 /**
  * Chart State Manager - Manages saving/loading chart state per symbol
  * 
- * Persists drawings and indicators to localStorage for each symbol.
+ * Persists drawings, alerts and indicators to localStorage for each symbol.
  */
 
 import { DrawingManager } from '../drawings/drawing-manager';
 import { SerializedDrawing } from '../drawings/drawing';
 import { IndicatorManager, SerializedIndicator } from '../indicators/indicator-manager';
+import { AlertManager } from '../alerts/alert-manager';
+import { SerializedAlert } from '../alerts/alert';
 
 /** Chart state data structure */
 export interface ChartState {
     symbol: string;
     drawings: SerializedDrawing[];
     indicators: SerializedIndicator[];
+    /** Missing in states saved before alerts existed */
+    alerts?: SerializedAlert[];
     savedAt: number;
     version: number;
 }
@@ -26,7 +30,7 @@ export interface StorageAdapter {
 }
 
 /** LocalStorage implementation */
-class LocalStorageAdapter implements StorageAdapter {
+export class LocalStorageAdapter implements StorageAdapter {
     private _prefix: string;
 
     constructor(prefix: string = 'chart_') {
@@ -85,6 +89,7 @@ const CURRENT_VERSION = 1;
 export class ChartStateManager {
     private _drawingManager: DrawingManager;
     private _indicatorManager: IndicatorManager;
+    private _alertManager: AlertManager | null;
     private _storage: StorageAdapter;
     private _currentSymbol: string = '';
     private _autoSave: boolean = true;
@@ -93,10 +98,12 @@ export class ChartStateManager {
     constructor(
         drawingManager: DrawingManager,
         indicatorManager: IndicatorManager,
-        storage?: StorageAdapter
+        storage?: StorageAdapter,
+        alertManager?: AlertManager
     ) {
         this._drawingManager = drawingManager;
         this._indicatorManager = indicatorManager;
+        this._alertManager = alertManager ?? null;
         this._storage = storage || new LocalStorageAdapter();
 
         // Subscribe to drawing changes for auto-save
@@ -106,6 +113,13 @@ export class ChartStateManager {
             }
         });
 
+        // Alerts are saved with the drawings they may follow
+        this._alertManager?.alertsChanged.subscribe(() => {
+            if (this._autoSave && this._currentSymbol) {
+                this._debouncedSave();
+            }
+        });
+
         // Subscribe to indicator changes for auto-save
         const saveHandler = () => {
             if (this._autoSave && this._currentSymbol) {
@@ -135,6 +149,11 @@ export class ChartStateManager {
         this.loadState();
     }
 
+    /** Storage the state is saved to, shared with drawing templates */
+    get storage(): StorageAdapter {
+        return this._storage;
+    }
+
     /** Get current symbol */
     get currentSymbol(): string {
         return this._currentSymbol;
@@ -153,10 +172,11 @@ export class ChartStateManager {
     saveState(): void {
         if (!this._currentSymbol) return;
 
-        // Save drawings per-symbol
+        // Save drawings and alerts per-symbol
         const drawingState = {
             symbol: this._currentSymbol,
             drawings: this._drawingManager.serialize(),
+            alerts: this._alertManager?.serialize() ?? [],
             savedAt: Date.now(),
             version: CURRENT_VERSION,
         };
@@ -190,13 +210,16 @@ export class ChartStateManager {
             try {
                 const state = JSON.parse(drawingJson);
                 this._drawingManager.deserialize(state.drawings || []);
+                this._alertManager?.deserialize(state.alerts || []);
                 console.log(`Drawings loaded for ${this._currentSymbol}:`, state.drawings?.length || 0);
             } catch (e) {
                 console.error('Failed to parse saved drawings:', e);
                 this._drawingManager.deserialize([]);
+                this._alertManager?.deserialize([]);
             }
         } else {
             this._drawingManager.deserialize([]);
+            this._alertManager?.deserialize([]);
         }
 
         // Load indicators globally (only once, not on every symbol change)
@@ -223,6 +246,29 @@ export class ChartStateManager {
         }
     }
 
+    /** Current drawings, alerts and indicators, e.g. to save them with a layout */
+    getState(): ChartState {
+        return {
+            symbol: this._currentSymbol,
+            drawings: this._drawingManager.serialize(),
+            indicators: this._indicatorManager.serialize(),
+            alerts: this._alertManager?.serialize() ?? [],
+            savedAt: Date.now(),
+            version: CURRENT_VERSION,
+        };
+    }
+
+    /** Replace drawings, alerts and indicators with a state from getState() */
+    applyState(state: ChartState): void {
+        this._drawingManager.deserialize(state.drawings || []);
+        this._alertManager?.deserialize(state.alerts || []);
+        this._indicatorManager.deserialize(state.indicators || []);
+
+        if (this._autoSave) {
+            this.saveState();
+        }
+    }
+
     /** Delete saved state for a symbol */
     deleteState(symbol?: string): void {
         const targetSymbol = symbol || this._currentSymbol;
@@ -0,0 +1,133 @@
+/**
+ * Drawing Template Manager - Named drawing styles per drawing type
+ *
+ * A template is everything of a serialized drawing except where it is and
+ * what it says: colors, line widths, Fibonacci levels, text styling and the
+ * type-specific options. Applying one rebuilds the drawing with it, see
+ * DrawingManager.applyProperties().
+ *
+ * Templates are saved through the StorageAdapter under one key for all types.
+ */
+
+import { Drawing, DrawingType, SerializedDrawing } from '../drawings/drawing';
+import { Delegate } from '../helpers/delegate';
+import { StorageAdapter, LocalStorageAdapter } from './chart-state-manager';
+
+/** Properties of a drawing that a template stores */
+export type DrawingTemplateProperties = Partial<Omit<SerializedDrawing,
+    'id' | 'type' | 'points' | 'state' | 'visible' | 'locked' | 'paneId' | 'text'>>;
+
+export interface DrawingTemplate {
+    name: string;
+    type: DrawingType;
+    properties: DrawingTemplateProperties;
+}
+
+interface StoredTemplates {
+    templates: DrawingTemplate[];
+    savedAt: number;
+    version: number;
+}
+
+const STORAGE_KEY = '_drawing_templates';
+const CURRENT_VERSION = 1;
+
+/**
+ * Template properties of a drawing
+ */
+export function drawingTemplateProperties(drawing: Drawing): DrawingTemplateProperties {
+    const { id, type, points, state, visible, locked, paneId, text, ...properties } =
+        JSON.parse(JSON.stringify(drawing.toJSON())) as SerializedDrawing;
+    // The text itself belongs to the drawing, its styling to the template
+    if (properties.style) {
+        delete properties.style.text;
+    }
+    return properties;
+}
+
+export class DrawingTemplateManager {
+    private readonly _storage: StorageAdapter;
+    private _templates: DrawingTemplate[] = [];
+
+    private readonly _templatesChanged = new Delegate<DrawingType>();
+
+    constructor(storage?: StorageAdapter) {
+        this._storage = storage || new LocalStorageAdapter();
+        this._load();
+    }
+
+    /** Fired with the drawing type whose templates were saved or deleted */
+    get templatesChanged(): Delegate<DrawingType> {
+        return this._templatesChanged;
+    }
+
+    /** Templates of a drawing type, by name */
+    templatesFor(type: DrawingType): DrawingTemplate[] {
+        return this._templates
+            .filter(template => template.type === type)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getTemplate(type: DrawingType, name: string): DrawingTemplate | null {
+        return this._templates.find(template => template.type === type && template.name === name) ?? null;
+    }
+
+    /**
+     * Save the style of a drawing as a template of its type, replacing the
+     * template of the same name
+     */
+    saveTemplate(name: string, drawing: Drawing): DrawingTemplate {
+        const template: DrawingTemplate = {
+            name: name.trim(),
+            type: drawing.type,
+            properties: drawingTemplateProperties(drawing),
+        };
+        if (!template.name) {
+            throw new Error('Template name is empty');
+        }
+
+        this._templates = this._templates.filter(t => !(t.type === template.type && t.name === template.name));
+        this._templates.push(template);
+        this._save();
+        this._templatesChanged.fire(template.type);
+        return template;
+    }
+
+    /** @returns false when there was no such template */
+    deleteTemplate(type: DrawingType, name: string): boolean {
+        const count = this._templates.length;
+        this._templates = this._templates.filter(t => !(t.type === type && t.name === name));
+        if (this._templates.length === count) return false;
+
+        this._save();
+        this._templatesChanged.fire(type);
+        return true;
+    }
+
+    destroy(): void {
+        this._templatesChanged.destroy();
+    }
+
+    // --- Private ---
+
+    private _load(): void {
+        const json = this._storage.load(STORAGE_KEY);
+        if (!json) return;
+
+        try {
+            const stored: StoredTemplates = JSON.parse(json);
+            this._templates = Array.isArray(stored.templates) ? stored.templates : [];
+        } catch (e) {
+            console.error('Failed to parse saved drawing templates:', e);
+        }
+    }
+
+    private _save(): void {
+        const stored: StoredTemplates = {
+            templates: this._templates,
+            savedAt: Date.now(),
+            version: CURRENT_VERSION,
+        };
+        this._storage.save(STORAGE_KEY, JSON.stringify(stored));
+    }
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './chart-state-manager';
+export * from './drawing-template-manager';
@@ -0,0 +1,130 @@
+/**
+ * Broker definitions
+ *
+ * The chart's order lines and account panel only talk to an IBroker, so the
+ * simulated PaperBroker can be replaced by a real exchange adapter.
+ */
+
+import { Delegate } from '../helpers/delegate';
+
+export type OrderSide = 'buy' | 'sell';
+
+/** A stop order becomes a market order once price trades through its price */
+export type OrderType = 'market' | 'limit' | 'stop';
+
+/**
+ * - pending: bracket exit waiting for its entry order to fill
+ * - working: waiting for price to reach it
+ */
+export type OrderStatus = 'pending' | 'working' | 'filled' | 'cancelled' | 'rejected';
+
+export interface Order {
+    id: string;
+    symbol: string;
+    side: OrderSide;
+    type: OrderType;
+    quantity: number;
+    /** Limit price, or trigger price of a stop order */
+    price?: number;
+    status: OrderStatus;
+    createdAt: number;
+    filledAt?: number;
+    fillPrice?: number;
+    fee?: number;
+    /** Orders of an OCO group cancel each other when one fills */
+    ocoGroup?: string;
+    /** Entry order of a bracket exit */
+    parentId?: string;
+    /** Only reduces the open position, e.g. bracket exits */
+    reduceOnly?: boolean;
+}
+
+export interface OrderRequest {
+    symbol: string;
+    side: OrderSide;
+    type: OrderType;
+    quantity: number;
+    /** Required for limit and stop orders */
+    price?: number;
+    /** Bracket exits, working once this order fills */
+    takeProfit?: number;
+    stopLoss?: number;
+    reduceOnly?: boolean;
+}
+
+export interface OrderModification {
+    price?: number;
+    quantity?: number;
+}
+
+export interface Position {
+    symbol: string;
+    /** Positive for long, negative for short */
+    quantity: number;
+    averagePrice: number;
+    lastPrice: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+}
+
+/**
+ * One fill, passed to `executed`
+ */
+export interface Execution {
+    orderId: string;
+    symbol: string;
+    side: OrderSide;
+    quantity: number;
+    price: number;
+    fee: number;
+    /** P&L realized by the part of the fill that reduced the position */
+    realizedPnl: number;
+    time: number;
+}
+
+export interface AccountState {
+    currency: string;
+    /** Cash: deposits plus realized P&L, minus fees and funding */
+    balance: number;
+    /** Balance plus unrealized P&L */
+    equity: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+    fees: number;
+    /** Funding paid (negative when received) */
+    funding: number;
+}
+
+/**
+ * Order routing and account state, simulated or backed by an exchange.
+ * Methods reject with an Error when the order can't be placed or changed.
+ */
+export interface IBroker {
+    readonly ordersChanged: Delegate<void>;
+    readonly positionsChanged: Delegate<void>;
+    readonly accountChanged: Delegate<void>;
+    readonly executed: Delegate<Execution>;
+
+    /** Orders of the session, including filled and cancelled ones */
+    readonly orders: readonly Order[];
+    /** Open positions */
+    readonly positions: readonly Position[];
+    readonly account: Readonly<AccountState>;
+
+    placeOrder(request: OrderRequest): Promise<Order>;
+    /** Both orders work at once, the first fill cancels the other */
+    placeOcoOrder(first: OrderRequest, second: OrderRequest): Promise<[Order, Order]>;
+    modifyOrder(id: string, changes: OrderModification): Promise<Order>;
+    cancelOrder(id: string): Promise<void>;
+    /** Market order flattening the position */
+    closePosition(symbol: string): Promise<void>;
+}
+
+/** Orders still waiting to fill */
+export function isOpenOrder(order: Order): boolean {
+    return order.status === 'working' || order.status === 'pending';
+}
+
+export function generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
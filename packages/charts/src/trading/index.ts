@@ -0,0 +1,6 @@
+/**
+ * Trading module - broker interface and simulated paper trading
+ */
+
+export * from './broker';
+export * from './paper-broker';
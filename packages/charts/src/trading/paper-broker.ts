@@ -0,0 +1,529 @@
+/**
+ * Paper Broker - simulated order execution
+ *
+ * Fills come from the live trade stream (connectTradeProvider) or from candles
+ * (updateBar, fed by the chart on every data update, which also makes it work
+ * during bar replay). Times are Unix ms.
+ *
+ * Fill rules:
+ * - market: at the next price, or right away when one is known
+ * - limit: once price reaches it, at the limit or a better opening price
+ * - stop: once price trades through it, at the stop or a worse opening price
+ */
+
+import { BarData } from '../model/data';
+import { Delegate } from '../helpers/delegate';
+import { ITradeProvider, Trade } from '../data-providers/types';
+import {
+    AccountState,
+    Execution,
+    IBroker,
+    Order,
+    OrderModification,
+    OrderRequest,
+    Position,
+    generateOrderId,
+    isOpenOrder
+} from './broker';
+
+export interface PaperBrokerOptions {
+    initialBalance?: number;
+    currency?: string;
+    /** Fee of limit orders as a fraction of the notional (default: 0.0002) */
+    makerFee?: number;
+    /** Fee of market and stop orders (default: 0.0005) */
+    takerFee?: number;
+    /** Futures funding rate charged on open positions every funding interval, longs pay when positive */
+    fundingRate?: number;
+    fundingIntervalHours?: number;
+}
+
+/** Price movement since the previous update */
+interface PriceRange {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+const EPSILON = 1e-12;
+
+export class PaperBroker implements IBroker {
+    private readonly _makerFee: number;
+    private readonly _takerFee: number;
+    private readonly _fundingRate: number;
+    private readonly _fundingInterval: number;
+    private readonly _initialBalance: number;
+
+    private _orders: Order[] = [];
+    private _positions: Map<string, Position> = new Map();
+    private _account: AccountState;
+
+    private _lastPrices: Map<string, number> = new Map();
+    private _lastBars: Map<string, BarData> = new Map();
+    private _lastFunding: Map<string, number> = new Map();
+
+    private _tradeProvider: ITradeProvider | null = null;
+    private _tradeSymbol: string = '';
+
+    private readonly _ordersChanged = new Delegate<void>();
+    private readonly _positionsChanged = new Delegate<void>();
+    private readonly _accountChanged = new Delegate<void>();
+    private readonly _executed = new Delegate<Execution>();
+
+    constructor(options: PaperBrokerOptions = {}) {
+        this._initialBalance = options.initialBalance ?? 10000;
+        this._makerFee = options.makerFee ?? 0.0002;
+        this._takerFee = options.takerFee ?? 0.0005;
+        this._fundingRate = options.fundingRate ?? 0;
+        this._fundingInterval = (options.fundingIntervalHours ?? 8) * 60 * 60 * 1000;
+        this._account = this._createAccount(options.currency ?? 'USDT');
+    }
+
+    // --- Events ---
+
+    get ordersChanged(): Delegate<void> {
+        return this._ordersChanged;
+    }
+
+    get positionsChanged(): Delegate<void> {
+        return this._positionsChanged;
+    }
+
+    get accountChanged(): Delegate<void> {
+        return this._accountChanged;
+    }
+
+    get executed(): Delegate<Execution> {
+        return this._executed;
+    }
+
+    // --- State ---
+
+    get orders(): readonly Order[] {
+        return this._orders;
+    }
+
+    get positions(): readonly Position[] {
+        return Array.from(this._positions.values());
+    }
+
+    get account(): Readonly<AccountState> {
+        return this._account;
+    }
+
+    getLastPrice(symbol: string): number | null {
+        return this._lastPrices.get(symbol) ?? null;
+    }
+
+    // --- Orders ---
+
+    async placeOrder(request: OrderRequest): Promise<Order> {
+        const order = this._createOrder(request);
+        this._orders.push(order);
+
+        // Bracket exits wait for the entry, then cancel each other
+        if (request.takeProfit !== undefined) {
+            this._orders.push(this._createExit(order, 'limit', request.takeProfit));
+        }
+        if (request.stopLoss !== undefined) {
+            this._orders.push(this._createExit(order, 'stop', request.stopLoss));
+        }
+
+        const price = this._lastPrices.get(order.symbol);
+        if (order.type === 'market' && price !== undefined) {
+            this._fill(order, price, Date.now());
+            this._afterFills(order.symbol);
+        }
+
+        this._ordersChanged.fire();
+        return order;
+    }
+
+    async placeOcoOrder(first: OrderRequest, second: OrderRequest): Promise<[Order, Order]> {
+        if (first.symbol !== second.symbol) {
+            throw new Error('OCO orders must be on the same symbol');
+        }
+        if (first.type === 'market' || second.type === 'market') {
+            throw new Error('OCO orders must be limit or stop orders');
+        }
+
+        const ocoGroup = generateOrderId();
+        const orders: [Order, Order] = [this._createOrder(first), this._createOrder(second)];
+        for (const order of orders) {
+            order.ocoGroup = ocoGroup;
+            this._orders.push(order);
+        }
+
+        this._ordersChanged.fire();
+        return orders;
+    }
+
+    async modifyOrder(id: string, changes: OrderModification): Promise<Order> {
+        const order = this._orders.find(o => o.id === id);
+        if (!order || !isOpenOrder(order)) {
+            throw new Error('Order is not open');
+        }
+        if (changes.price !== undefined) {
+            if (order.type === 'market') throw new Error('Market orders have no price');
+            if (!(changes.price > 0)) throw new Error('Price must be positive');
+            order.price = changes.price;
+        }
+        if (changes.quantity !== undefined) {
+            if (!(changes.quantity > 0)) throw new Error('Quantity must be positive');
+            order.quantity = changes.quantity;
+        }
+
+        this._ordersChanged.fire();
+        return order;
+    }
+
+    async cancelOrder(id: string): Promise<void> {
+        const order = this._orders.find(o => o.id === id);
+        if (!order || !isOpenOrder(order)) return;
+
+        order.status = 'cancelled';
+        // Exits of an entry that will never fill
+        for (const exit of this._orders) {
+            if (exit.parentId === id && exit.status === 'pending') {
+                exit.status = 'cancelled';
+            }
+        }
+        this._ordersChanged.fire();
+    }
+
+    async closePosition(symbol: string): Promise<void> {
+        const position = this._positions.get(symbol);
+        if (!position) return;
+
+        await this.placeOrder({
+            symbol,
+            side: position.quantity > 0 ? 'sell' : 'buy',
+            type: 'market',
+            quantity: Math.abs(position.quantity),
+            reduceOnly: true,
+        });
+    }
+
+    // --- Price feed ---
+
+    /**
+     * Check orders against a candle. Repeated updates of the same candle only
+     * use the movement since the previous update, so the part of the candle
+     * before an order was placed can't fill it. Ignored while a trade
+     * provider is connected.
+     */
+    updateBar(symbol: string, bar: BarData): void {
+        if (this._tradeProvider) return;
+
+        const last = this._lastBars.get(symbol);
+        this._lastBars.set(symbol, { ...bar });
+
+        if (last && bar.time < last.time) {
+            // Older data (another timeframe, replay rewind), start over from here
+            this._lastPrices.set(symbol, bar.close);
+            this._updatePosition(symbol, bar.close);
+            return;
+        }
+
+        let range: PriceRange = bar;
+        if (last && bar.time === last.time) {
+            range = {
+                open: last.close,
+                high: Math.max(last.close, bar.close, bar.high > last.high ? bar.high : -Infinity),
+                low: Math.min(last.close, bar.close, bar.low < last.low ? bar.low : Infinity),
+                close: bar.close,
+            };
+        }
+
+        this._onPrice(symbol, range, bar.time);
+    }
+
+    updateTrade(trade: Trade): void {
+        const { price } = trade;
+        this._onPrice(trade.symbol, { open: price, high: price, low: price, close: price }, trade.timestamp);
+    }
+
+    /** Fill from the live trade stream of the symbol instead of candles */
+    connectTradeProvider(provider: ITradeProvider, symbol: string): void {
+        this.disconnectTradeProvider();
+        this._tradeProvider = provider;
+        this._tradeSymbol = symbol;
+        provider.subscribeTrades(symbol, (trade) => this.updateTrade(trade));
+    }
+
+    disconnectTradeProvider(): void {
+        if (!this._tradeProvider) return;
+        this._tradeProvider.unsubscribeTrades(this._tradeSymbol);
+        this._tradeProvider = null;
+        this._tradeSymbol = '';
+    }
+
+    /**
+     * Charge one funding payment on the open position, e.g. with the real rate
+     * from a derivatives feed. Positive rates are paid by longs.
+     */
+    applyFunding(symbol: string, rate: number, markPrice?: number): void {
+        const position = this._positions.get(symbol);
+        if (!position) return;
+
+        const price = markPrice ?? position.lastPrice;
+        const payment = position.quantity * price * rate;
+        this._account.funding += payment;
+        this._account.balance -= payment;
+        this._updateEquity();
+        this._accountChanged.fire();
+    }
+
+    /** Back to the initial balance without orders or positions */
+    reset(): void {
+        this._orders = [];
+        this._positions.clear();
+        this._lastBars.clear();
+        this._lastFunding.clear();
+        this._account = this._createAccount(this._account.currency);
+        this._ordersChanged.fire();
+        this._positionsChanged.fire();
+        this._accountChanged.fire();
+    }
+
+    destroy(): void {
+        this.disconnectTradeProvider();
+        this._ordersChanged.destroy();
+        this._positionsChanged.destroy();
+        this._accountChanged.destroy();
+        this._executed.destroy();
+    }
+
+    // --- Private ---
+
+    private _createAccount(currency: string): AccountState {
+        return {
+            currency,
+            balance: this._initialBalance,
+            equity: this._initialBalance,
+            unrealizedPnl: 0,
+            realizedPnl: 0,
+            fees: 0,
+            funding: 0,
+        };
+    }
+
+    private _createOrder(request: OrderRequest): Order {
+        if (!(request.quantity > 0)) {
+            throw new Error('Quantity must be positive');
+        }
+        if (request.type !== 'market' && !(request.price !== undefined && request.price > 0)) {
+            throw new Error(`A ${request.type} order needs a price`);
+        }
+
+        return {
+            id: generateOrderId(),
+            symbol: request.symbol,
+            side: request.side,
+            type: request.type,
+            quantity: request.quantity,
+            price: request.type === 'market' ? undefined : request.price,
+            status: 'working',
+            createdAt: Date.now(),
+            reduceOnly: request.reduceOnly,
+        };
+    }
+
+    private _createExit(entry: Order, type: 'limit' | 'stop', price: number): Order {
+        if (!(price > 0)) {
+            throw new Error('Bracket prices must be positive');
+        }
+
+        return {
+            id: generateOrderId(),
+            symbol: entry.symbol,
+            side: entry.side === 'buy' ? 'sell' : 'buy',
+            type,
+            quantity: entry.quantity,
+            price,
+            status: 'pending',
+            createdAt: entry.createdAt,
+            ocoGroup: entry.id,
+            parentId: entry.id,
+            reduceOnly: true,
+        };
+    }
+
+    private _onPrice(symbol: string, range: PriceRange, time: number): void {
+        this._lastPrices.set(symbol, range.close);
+        this._chargeScheduledFunding(symbol, time, range.close);
+
+        // Exits activated by a fill are checked from the next update on
+        const working = this._orders.filter(o => o.symbol === symbol && o.status === 'working');
+        let filled = false;
+        for (const order of working) {
+            if (order.status !== 'working') continue;   // Cancelled by an OCO fill above
+
+            const price = this._getFillPrice(order, range);
+            if (price === null) continue;
+            this._fill(order, price, time);
+            filled = true;
+        }
+
+        if (filled) {
+            this._afterFills(symbol);
+            this._ordersChanged.fire();
+        }
+
+        if (this._updatePosition(symbol, range.close)) {
+            this._positionsChanged.fire();
+            this._accountChanged.fire();
+        }
+    }
+
+    private _getFillPrice(order: Order, range: PriceRange): number | null {
+        const { open, high, low } = range;
+        const price = order.price!;
+
+        switch (order.type) {
+            case 'market':
+                return open;
+            case 'limit':
+                if (order.side === 'buy') {
+                    return open <= price ? open : low <= price ? price : null;
+                }
+                return open >= price ? open : high >= price ? price : null;
+            case 'stop':
+                if (order.side === 'buy') {
+                    return open >= price ? open : high >= price ? price : null;
+                }
+                return open <= price ? open : low <= price ? price : null;
+        }
+    }
+
+    private _fill(order: Order, price: number, time: number): void {
+        const position = this._positions.get(order.symbol);
+        let quantity = order.quantity;
+
+        if (order.reduceOnly) {
+            const reducing = position && (position.quantity > 0) === (order.side === 'sell');
+            quantity = reducing ? Math.min(quantity, Math.abs(position!.quantity)) : 0;
+            if (quantity <= EPSILON) {
+                order.status = 'cancelled';
+                return;
+            }
+        }
+
+        const fee = price * quantity * (order.type === 'limit' ? this._makerFee : this._takerFee);
+        const realizedPnl = this._applyFill(order.symbol, order.side === 'buy' ? quantity : -quantity, price);
+
+        order.status = 'filled';
+        order.fillPrice = price;
+        order.filledAt = time;
+        order.fee = fee;
+        order.quantity = quantity;
+
+        this._account.realizedPnl += realizedPnl;
+        this._account.fees += fee;
+        this._account.balance += realizedPnl - fee;
+
+        for (const other of this._orders) {
+            // The first fill of an OCO group cancels the rest
+            if (order.ocoGroup && other.ocoGroup === order.ocoGroup && other !== order && isOpenOrder(other)) {
+                other.status = 'cancelled';
+            }
+            // Bracket exits start working with their entry filled
+            if (other.parentId === order.id && other.status === 'pending') {
+                other.status = 'working';
+            }
+        }
+
+        this._executed.fire({
+            orderId: order.id,
+            symbol: order.symbol,
+            side: order.side,
+            quantity,
+            price,
+            fee,
+            realizedPnl,
+            time,
+        });
+    }
+
+    /** Add a signed quantity to the position, returns the realized P&L */
+    private _applyFill(symbol: string, delta: number, price: number): number {
+        const position = this._positions.get(symbol) ?? {
+            symbol,
+            quantity: 0,
+            averagePrice: 0,
+            lastPrice: price,
+            unrealizedPnl: 0,
+            realizedPnl: 0,
+        };
+
+        let realized = 0;
+        if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(delta)) {
+            const quantity = position.quantity + delta;
+            position.averagePrice = (position.averagePrice * Math.abs(position.quantity) + price * Math.abs(delta)) / Math.abs(quantity);
+            position.quantity = quantity;
+        } else {
+            const closing = Math.min(Math.abs(delta), Math.abs(position.quantity));
+            realized = (price - position.averagePrice) * closing * Math.sign(position.quantity);
+            // Flipped through zero, the rest opens at the fill price
+            if (Math.abs(delta) > Math.abs(position.quantity)) {
+                position.averagePrice = price;
+            }
+            position.quantity += delta;
+        }
+
+        position.realizedPnl += realized;
+        if (Math.abs(position.quantity) <= EPSILON) {
+            this._positions.delete(symbol);
+        } else {
+            this._positions.set(symbol, position);
+        }
+        return realized;
+    }
+
+    /** Flat positions don't need their exits anymore */
+    private _afterFills(symbol: string): void {
+        if (this._positions.has(symbol)) return;
+
+        for (const order of this._orders) {
+            if (order.symbol === symbol && order.reduceOnly && order.status === 'working') {
+                order.status = 'cancelled';
+            }
+        }
+        this._updateEquity();
+        this._positionsChanged.fire();
+        this._accountChanged.fire();
+    }
+
+    /** Mark the position to the last price, returns false when there is none */
+    private _updatePosition(symbol: string, price: number): boolean {
+        const position = this._positions.get(symbol);
+        if (!position) return false;
+
+        position.lastPrice = price;
+        position.unrealizedPnl = (price - position.averagePrice) * position.quantity;
+        this._updateEquity();
+        return true;
+    }
+
+    private _updateEquity(): void {
+        let unrealized = 0;
+        for (const position of this._positions.values()) {
+            unrealized += position.unrealizedPnl;
+        }
+        this._account.unrealizedPnl = unrealized;
+        this._account.equity = this._account.balance + unrealized;
+    }
+
+    private _chargeScheduledFunding(symbol: string, time: number, price: number): void {
+        if (this._fundingRate === 0) return;
+
+        const boundary = Math.floor(time / this._fundingInterval) * this._fundingInterval;
+        const last = this._lastFunding.get(symbol);
+        this._lastFunding.set(symbol, boundary);
+        if (last === undefined || boundary <= last) return;
+
+        const periods = Math.round((boundary - last) / this._fundingInterval);
+        this.applyFunding(symbol, this._fundingRate * periods, price);
+    }
+}